@@ -101,5 +101,15 @@ export default tseslint.config(
       'no-var': 'error',
     },
   },
+  {
+    // The collaboration relay runs in Node
+    files: ['server/**/*.js'],
+    languageOptions: {
+      globals: globals.node,
+    },
+    rules: {
+      'no-console': 'off',
+    },
+  },
   eslintConfigPrettier
 );
@@ -0,0 +1,20 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+// Get the root directory (parent of config directory)
+const rootDir = path.resolve(__dirname, '..');
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(rootDir, 'src'),
+    },
+  },
+
+  test: {
+    root: rootDir,
+    include: ['src/**/*.test.ts'],
+    // Import and export build XML documents with the DOM APIs
+    environment: 'jsdom',
+  },
+});
@@ -0,0 +1,354 @@
+// Self-hostable relay for real-time collaboration on analyses.
+//
+// Clients join one room per analysis and send CRDT operations (see src/utils/crdt.ts).
+// The relay keeps the newest operation of each register, forwards new operations to
+// the other members of the room and sends the room state to clients that join, so
+// edits made offline merge when a client reconnects. It has no dependencies besides
+// Node itself and no authentication: run it on a trusted network.
+//
+//   npm run sync-server
+//
+// Environment: STAMP_SYNC_PORT (4455), STAMP_SYNC_HOST (localhost) and
+// STAMP_SYNC_DATA_DIR (unset: rooms are kept in memory only).
+import { createHash } from 'node:crypto';
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { createServer } from 'node:http';
+import { join } from 'node:path';
+
+const PORT = Number(process.env.STAMP_SYNC_PORT) || 4455;
+const HOST = process.env.STAMP_SYNC_HOST || 'localhost';
+const DATA_DIR = process.env.STAMP_SYNC_DATA_DIR || null;
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_SIZE = 32 * 1024 * 1024;
+const HEARTBEAT_INTERVAL = 30000;
+const SAVE_DELAY = 2000;
+const ROOM_PATTERN = /^[\w-]{1,128}$/;
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+/**
+ * @typedef {{ collection: string, entityId: string, field: string, value: unknown, unset?: boolean, timestamp: string }} Operation
+ * @typedef {{ clientId: string, name: string, color: string, focus: { collection: string, entityId: string } | null }} Peer
+ * @typedef {{ registers: Map<string, Operation>, members: Set<Connection>, saveTimer: NodeJS.Timeout | null }} Room
+ */
+
+/** @type {Map<string, Room>} */
+const rooms = new Map();
+
+// Mirrors getRegisterKey in src/utils/crdt.ts
+const getRegisterKey = operation =>
+  `${operation.collection}/${operation.entityId}/${operation.field}`;
+
+const isOperation = operation =>
+  !!operation &&
+  typeof operation.collection === 'string' &&
+  typeof operation.entityId === 'string' &&
+  typeof operation.field === 'string' &&
+  typeof operation.timestamp === 'string';
+
+const getRoomFile = roomId => join(DATA_DIR, `${roomId}.json`);
+
+const getRoom = roomId => {
+  let room = rooms.get(roomId);
+  if (room) return room;
+
+  room = { registers: new Map(), members: new Set(), saveTimer: null };
+  if (DATA_DIR) {
+    try {
+      const operations = JSON.parse(readFileSync(getRoomFile(roomId), 'utf8'));
+      operations.forEach(operation => room.registers.set(getRegisterKey(operation), operation));
+    } catch (error) {
+      if (error.code !== 'ENOENT') console.error(`Failed to read room ${roomId}:`, error);
+    }
+  }
+  rooms.set(roomId, room);
+  return room;
+};
+
+const scheduleSave = (roomId, room) => {
+  if (!DATA_DIR || room.saveTimer) return;
+  room.saveTimer = setTimeout(() => {
+    room.saveTimer = null;
+    try {
+      writeFileSync(getRoomFile(roomId), JSON.stringify([...room.registers.values()]));
+    } catch (error) {
+      console.error(`Failed to save room ${roomId}:`, error);
+    }
+  }, SAVE_DELAY);
+};
+
+/**
+ * Keeps the operations newer than the room's registers; last writer wins, as in the client
+ */
+const applyOperations = (room, operations) =>
+  operations.filter(operation => {
+    if (!isOperation(operation)) return false;
+    const key = getRegisterKey(operation);
+    const current = room.registers.get(key);
+    if (current && current.timestamp >= operation.timestamp) return false;
+    room.registers.set(key, operation);
+    return true;
+  });
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+/**
+ * A WebSocket connection (RFC 6455) and its member in a room
+ */
+class Connection {
+  constructor(socket) {
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+    this.fragments = [];
+    this.alive = true;
+    /** @type {string | null} */
+    this.roomId = null;
+    /** @type {Peer | null} */
+    this.peer = null;
+
+    socket.on('data', data => this.receive(data));
+    socket.on('close', () => this.leave());
+    socket.on('error', () => socket.destroy());
+  }
+
+  send(message) {
+    if (this.socket.writable) {
+      this.socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(JSON.stringify(message))));
+    }
+  }
+
+  close(code) {
+    if (!this.socket.writable) return;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code);
+    this.socket.end(encodeFrame(OPCODE_CLOSE, payload));
+  }
+
+  ping() {
+    if (!this.alive) {
+      this.socket.destroy();
+      return;
+    }
+    this.alive = false;
+    if (this.socket.writable) this.socket.write(encodeFrame(OPCODE_PING, Buffer.alloc(0)));
+  }
+
+  receive(data) {
+    this.buffer = Buffer.concat([this.buffer, data]);
+
+    while (this.buffer.length >= 2) {
+      const fin = (this.buffer[0] & 0x80) !== 0;
+      const opcode = this.buffer[0] & 0x0f;
+      const masked = (this.buffer[1] & 0x80) !== 0;
+      let length = this.buffer[1] & 0x7f;
+      let offset = 2;
+
+      if (length === 126) {
+        if (this.buffer.length < 4) return;
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) return;
+        length = Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      // Clients must mask their frames
+      if (!masked) return this.close(1002);
+      if (length > MAX_MESSAGE_SIZE) return this.close(1009);
+      if (this.buffer.length < offset + 4 + length) return;
+
+      const mask = this.buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(this.buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+      this.buffer = this.buffer.subarray(offset + 4 + length);
+
+      switch (opcode) {
+        case OPCODE_TEXT:
+        case OPCODE_CONTINUATION:
+          this.fragments.push(payload);
+          if (this.fragments.reduce((size, part) => size + part.length, 0) > MAX_MESSAGE_SIZE) {
+            return this.close(1009);
+          }
+          if (fin) {
+            const text = Buffer.concat(this.fragments).toString('utf8');
+            this.fragments = [];
+            this.handleMessage(text);
+          }
+          break;
+        case OPCODE_CLOSE:
+          this.close(1000);
+          return;
+        case OPCODE_PING:
+          if (this.socket.writable) this.socket.write(encodeFrame(OPCODE_PONG, payload));
+          break;
+        case OPCODE_PONG:
+          this.alive = true;
+          break;
+        default:
+          // Binary frames are not part of the protocol
+          return this.close(1003);
+      }
+    }
+  }
+
+  handleMessage(text) {
+    let message;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      this.send({ type: 'error', message: 'The collaboration server received invalid JSON.' });
+      return;
+    }
+    if (typeof message !== 'object' || message === null || Array.isArray(message)) {
+      this.send({
+        type: 'error',
+        message: 'The collaboration server received an invalid message.',
+      });
+      return;
+    }
+
+    // A message that fails must not take down the relay and every room with it
+    try {
+      switch (message.type) {
+        case 'join':
+          this.join(message.room, message.peer);
+          break;
+        case 'operations':
+          this.receiveOperations(message.batchId, message.operations);
+          break;
+        case 'presence':
+          if (this.peer) {
+            this.peer.focus = message.focus ?? null;
+            this.broadcastPeers();
+          }
+          break;
+        default:
+          this.send({ type: 'error', message: `Unknown message type "${message.type}".` });
+      }
+    } catch (error) {
+      console.error('Failed to handle a message:', error);
+      this.send({ type: 'error', message: 'The collaboration server could not handle a message.' });
+    }
+  }
+
+  join(roomId, peer) {
+    if (typeof roomId !== 'string' || !ROOM_PATTERN.test(roomId) || !peer?.clientId) {
+      this.send({ type: 'error', message: 'The collaboration server refused an invalid room.' });
+      return;
+    }
+    this.leave();
+    this.roomId = roomId;
+    this.peer = {
+      clientId: String(peer.clientId),
+      name: String(peer.name || 'Anonymous'),
+      color: String(peer.color || '#6b7280'),
+      focus: peer.focus ?? null,
+    };
+    const room = getRoom(roomId);
+    room.members.add(this);
+    this.send({
+      type: 'welcome',
+      operations: [...room.registers.values()],
+      peers: [...room.members].map(member => member.peer),
+    });
+    this.broadcastPeers();
+  }
+
+  receiveOperations(batchId, operations) {
+    if (!this.roomId || !Array.isArray(operations)) return;
+    const room = getRoom(this.roomId);
+    const applied = applyOperations(room, operations);
+    if (applied.length > 0) {
+      room.members.forEach(member => {
+        if (member !== this) member.send({ type: 'operations', operations: applied });
+      });
+      scheduleSave(this.roomId, room);
+    }
+    this.send({ type: 'ack', batchId });
+  }
+
+  broadcastPeers() {
+    const room = this.roomId && rooms.get(this.roomId);
+    if (!room) return;
+    const peers = [...room.members].map(member => member.peer);
+    room.members.forEach(member => member.send({ type: 'peers', peers }));
+  }
+
+  leave() {
+    const room = this.roomId && rooms.get(this.roomId);
+    if (!room) return;
+    room.members.delete(this);
+    this.broadcastPeers();
+    // Rooms that are saved to disk are read again when someone joins
+    if (room.members.size === 0 && DATA_DIR && !room.saveTimer) rooms.delete(this.roomId);
+    this.roomId = null;
+  }
+}
+
+/** @type {Set<Connection>} */
+const connections = new Set();
+
+const server = createServer((request, response) => {
+  // Health check for on-prem monitoring
+  response.writeHead(200, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify({ status: 'ok', rooms: rooms.size, clients: connections.size }));
+});
+
+server.on('upgrade', (request, socket) => {
+  const key = request.headers['sec-websocket-key'];
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+
+  const accept = createHash('sha1')
+    .update(key + WEBSOCKET_GUID)
+    .digest('base64');
+  socket.write(
+    [
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${accept}`,
+      '',
+      '',
+    ].join('\r\n')
+  );
+
+  const connection = new Connection(socket);
+  connections.add(connection);
+  socket.on('close', () => connections.delete(connection));
+});
+
+setInterval(() => connections.forEach(connection => connection.ping()), HEARTBEAT_INTERVAL);
+
+if (DATA_DIR) mkdirSync(DATA_DIR, { recursive: true });
+
+server.listen(PORT, HOST, () => {
+  console.log(
+    `Collaboration relay listening on ws://${HOST}:${PORT}` +
+      (DATA_DIR ? `, saving rooms to ${DATA_DIR}` : ' (rooms are kept in memory only)')
+  );
+});
@@ -1,6 +1,15 @@
-import React, { createContext, useState, useCallback, ReactNode, useEffect } from 'react';
+import React, {
+  createContext,
+  useState,
+  useCallback,
+  ReactNode,
+  useEffect,
+  useMemo,
+  useRef,
+} from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import {
+  AnalysisData,
   AnalysisSession,
   AnalysisType,
   Loss,
@@ -10,6 +19,7 @@ import {
   Controller,
   ControlAction,
   UnsafeControlAction,
+  UCCA,
   Requirement,
   EventDetail,
   ControlPath,
@@ -22,7 +32,52 @@ import {
   CausalScenario,
   FailurePath,
   UCAType,
+  CommentThread,
+  ThreadComment,
+  EntityReview,
+  ReviewStatus,
+  SignOff,
+  SignOffAction,
+  ValidationRuleSettings,
+  DiagramLayout,
+  Identifiable,
 } from '@/types/types';
+import {
+  AnalysisHistory,
+  EMPTY_HISTORY,
+  HISTORY_KEYS,
+  HistoryKey,
+  HistorySnapshot,
+  createHistoryLabel,
+  diffSnapshots,
+  getChangedItems,
+  getHistoryStepChanges,
+  isSnapshotApplied,
+  pushHistoryEntry,
+  redoHistory,
+  undoHistory,
+} from '@/utils/analysis-history';
+import {
+  AnalysisDocumentData,
+  analysisStorage,
+  isSameDocumentData,
+  withDocumentDefaults,
+} from '@/utils/analysis-storage';
+import {
+  SIGN_OFF_TRANSITIONS,
+  calculateContentHash,
+  getApprovalStatus,
+  getSignOffBlocker,
+} from '@/utils/approval-workflow';
+import { auditTrail, describeAuditEntity } from '@/utils/audit-trail';
+import {
+  AnalysisLockedError,
+  ConcurrentModificationError,
+  ErrorHandler,
+  SafetyAnalysisError,
+  createErrorContext,
+} from '@/utils/error-handling';
+import { MergeOptions, mergeChanges, tabSync } from '@/utils/tab-sync';
 import { useProjects } from './ProjectsContext';
 
 interface NotApplicableStatus {
@@ -31,8 +86,120 @@ interface NotApplicableStatus {
   ucaType: UCAType;
 }
 
+const getNotApplicableStatusId = (status: NotApplicableStatus) =>
+  `${status.controllerId}:${status.controlActionId}:${status.ucaType}`;
+
+const EMPTY_VALIDATION_RULES: ValidationRuleSettings = {};
+
+// Functions of the context that don't change the signed content of an analysis
+const EDITABLE_WHEN_LOCKED = new Set<keyof AnalysisContextState>([
+  'setAnalysisType',
+  'updateAnalysisSession',
+  'setCastStep2SubStep',
+  'setCurrentStep',
+  'setActiveContext',
+  'clearActiveContext',
+  'getNotApplicableStatuses',
+  'addCommentThread',
+  'replyToCommentThread',
+  'deleteComment',
+  'deleteCommentThread',
+  'moveCommentThread',
+  'resolveCommentThread',
+  'reopenCommentThread',
+  'setReviewStatus',
+  'moveReviewStatus',
+  'deleteReviewStatus',
+  'signOff',
+]);
+
+const refuseLockedEdit = () => {
+  const context = createErrorContext('AnalysisContext', 'editLockedAnalysis');
+  ErrorHandler.handleError(new AnalysisLockedError(context), context);
+};
+
+const reportHistoryStorageError = (action: string, message: string, error: unknown) => {
+  const context = createErrorContext('AnalysisContext', action, {
+    error: error instanceof Error ? error.message : String(error),
+  });
+  ErrorHandler.handleError(
+    new SafetyAnalysisError('HISTORY_STORAGE_ERROR', message, 'medium', context, {
+      title: 'Undo History Not Saved',
+    }),
+    context
+  );
+};
+
+// The undo history is kept with the analysis, so it is deleted along with it
+const loadAnalysisHistory = async (analysisId: string): Promise<AnalysisHistory> => {
+  try {
+    return (
+      (await analysisStorage.loadRecord<AnalysisHistory>(analysisId, 'analysisHistory')) ??
+      EMPTY_HISTORY
+    );
+  } catch (error) {
+    reportHistoryStorageError(
+      'loadAnalysisHistory',
+      'The undo history of this analysis could not be read. Changes made from now on can be undone.',
+      error
+    );
+    return EMPTY_HISTORY;
+  }
+};
+
+// The history is saved on every change; a failure is reported once until a save succeeds
+let historySaveFailed = false;
+
+const saveAnalysisHistory = (analysisId: string, history: AnalysisHistory) => {
+  analysisStorage
+    .saveRecord(analysisId, 'analysisHistory', history)
+    .then(() => {
+      historySaveFailed = false;
+    })
+    .catch(error => {
+      if (historySaveFailed) return;
+      historySaveFailed = true;
+      reportHistoryStorageError(
+        'saveAnalysisHistory',
+        'The undo history of this analysis could not be saved. Free up storage space to undo changes after a reload.',
+        error
+      );
+    });
+};
+
+/**
+ * The context with every function that would change an approved analysis refusing to
+ */
+const lockAnalysisEditing = (value: AnalysisContextState): AnalysisContextState =>
+  Object.fromEntries(
+    Object.entries(value).map(([key, member]) =>
+      typeof member === 'function' && !EDITABLE_WHEN_LOCKED.has(key as keyof AnalysisContextState)
+        ? [key, refuseLockedEdit]
+        : [key, member]
+    )
+  ) as unknown as AnalysisContextState;
+
+// The CAST sub-step is view state of each tab, never in conflict with another tab's
+const DOCUMENT_MERGE_RESOLVERS: MergeOptions['resolvers'] = {
+  castStep2SubStep: local => local,
+  castStep2MaxReachedSubStep: (local, remote) => Math.max(Number(local), Number(remote)),
+};
+
+// Setters of the state restored by undo/redo, each taking its own key's value
+type HistorySetters = { [K in HistoryKey]: (value: AnalysisContextState[K]) => void };
+
+// Stored and restored snapshots are trusted to hold values of their keys' types
+const setHistoryValue = <K extends HistoryKey>(setters: HistorySetters, key: K, value: unknown) =>
+  setters[key](value as AnalysisContextState[K]);
+
+interface SyncedDocument {
+  data: AnalysisDocumentData;
+  revision: string | null;
+}
+
 interface AnalysisContextState {
   analysisSession: AnalysisSession | null;
+  loadedAnalysisId: string | null; // Analysis whose stored data is in state; null while loading
   castStep2SubStep: number;
   castStep2MaxReachedSubStep: number; // New state for furthest progress
   losses: Loss[];
@@ -46,6 +213,8 @@ interface AnalysisContextState {
   failurePaths: FailurePath[];
   controlActions: ControlAction[];
   ucas: UnsafeControlAction[];
+  uccas: UCCA[];
+  interchangeableControllerGroups: string[][];
   requirements: Requirement[];
   sequenceOfEvents: EventDetail[];
   activeContexts: { [key: string]: string };
@@ -55,10 +224,17 @@ interface AnalysisContextState {
   hardwareAnalysisSession: HardwareAnalysisSession | null;
   scenarios: CausalScenario[]; // Added scenarios property
   notApplicableStatuses: NotApplicableStatus[];
+  commentThreads: CommentThread[];
+  comments: ThreadComment[];
+  reviewStatuses: EntityReview[];
+  diagramLayouts: DiagramLayout[];
+  validationRules: ValidationRuleSettings; // Of the current project
 
   setAnalysisType: (type: AnalysisType) => void;
   updateAnalysisSession: (
-    data: Partial<Omit<AnalysisSession, 'id' | 'analysisType' | 'createdAt' | 'updatedAt'>>
+    data: Partial<
+      Omit<AnalysisSession, 'id' | 'analysisType' | 'createdAt' | 'updatedAt' | 'approval'>
+    >
   ) => void;
   setCastStep2SubStep: (step: number | ((prevStep: number) => number)) => void; // Allow function form
 
@@ -79,11 +255,11 @@ interface AnalysisContextState {
   deleteEventDetail: (id: string) => void;
   reorderEventDetails: (events: EventDetail[]) => void;
 
-  addSystemComponent: (component: Omit<SystemComponent, 'id'>) => void;
+  addSystemComponent: (component: Omit<SystemComponent, 'id'> & { id?: string }) => void;
   updateSystemComponent: (id: string, updates: Partial<SystemComponent>) => void;
   deleteSystemComponent: (id: string) => void;
 
-  addController: (controller: Omit<Controller, 'id'>) => void;
+  addController: (controller: Omit<Controller, 'id'> & { id?: string }) => void;
   updateController: (id: string, updates: Partial<Controller>) => void;
   deleteController: (id: string) => void;
 
@@ -103,7 +279,11 @@ interface AnalysisContextState {
   updateFailurePath: (id: string, updates: Partial<FailurePath>) => void;
   deleteFailurePath: (id: string) => void;
 
-  addControlAction: (action: Omit<ControlAction, 'id'>) => void;
+  addDiagramLayout: (layout: Omit<DiagramLayout, 'id'> & { id?: string }) => void;
+  updateDiagramLayout: (id: string, updates: Partial<DiagramLayout>) => void;
+  deleteDiagramLayout: (id: string) => void;
+
+  addControlAction: (action: Omit<ControlAction, 'id'> & { id?: string }) => void;
   updateControlAction: (id: string, updates: Partial<ControlAction>) => void;
   deleteControlAction: (id: string) => void;
 
@@ -111,13 +291,22 @@ interface AnalysisContextState {
   updateUCA: (id: string, updates: Partial<UnsafeControlAction>) => void;
   deleteUCA: (id: string) => void;
 
+  addUCCA: (ucca: Omit<UCCA, 'id' | 'code'>) => void;
+  updateUCCA: (id: string, updates: Partial<UCCA>) => void;
+  deleteUCCA: (id: string) => void;
+  setInterchangeableControllerGroups: (groups: string[][]) => void;
+
   addRequirement: (req: Omit<Requirement, 'id'>) => void;
   updateRequirement: (id: string, updates: Partial<Requirement>) => void;
   deleteRequirement: (id: string) => void;
 
   setCurrentStep: (stepPath: string) => void;
   setActiveContext: (controllerId: string, contextId: string) => void;
+  clearActiveContext: (controllerId: string) => void;
   resetAnalysis: () => void;
+  importAnalysisData: (data: Partial<AnalysisData>) => void; // Replaces the given collections
+  restoreAnalysisData: (data: AnalysisDocumentData) => void; // Replaces all data as one undoable change
+  applyCollaboratorChanges: (data: HistorySnapshot) => void; // Sets changes of other users, not undoable
 
   addHardwareComponent: (component: Omit<HardwareComponent, 'id'>) => void;
   updateHardwareComponent: (id: string, updates: Partial<HardwareComponent>) => void;
@@ -140,10 +329,36 @@ interface AnalysisContextState {
   addNotApplicableStatus: (status: NotApplicableStatus) => void;
   removeNotApplicableStatus: (status: NotApplicableStatus) => void;
   getNotApplicableStatuses: () => NotApplicableStatus[];
+
+  // Review comments, written as the current user of the audit trail
+  addCommentThread: (collection: keyof AnalysisData, entityId: string, text: string) => void;
+  replyToCommentThread: (threadId: string, text: string) => void;
+  deleteComment: (id: string) => void; // Deletes the thread with its last comment
+  deleteCommentThread: (threadId: string) => void; // Deletes the thread with all its comments
+  moveCommentThread: (threadId: string, entityId: string) => void; // To an entity of the same collection
+  resolveCommentThread: (threadId: string) => void;
+  reopenCommentThread: (threadId: string) => void;
+  setReviewStatus: (collection: keyof AnalysisData, entityId: string, status: ReviewStatus) => void;
+  // Passes a review status on to an entity of the same collection, unless it has one of its own
+  moveReviewStatus: (entityId: string, toEntityId: string) => void;
+  deleteReviewStatus: (entityId: string) => void;
+
+  // Approval workflow; an approved analysis is locked against changes until it is reopened
+  isLocked: boolean;
+  signOff: (action: SignOffAction, comment?: string) => void; // Signs as the current user
+
+  // Undo/redo across the analysis; all changes made in one event handler form a single step
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel: string | null;
+  redoLabel: string | null;
 }
 
 const initialState: AnalysisContextState = {
   analysisSession: null,
+  loadedAnalysisId: null,
   castStep2SubStep: 0,
   castStep2MaxReachedSubStep: 0,
   losses: [],
@@ -157,6 +372,8 @@ const initialState: AnalysisContextState = {
   failurePaths: [],
   controlActions: [],
   ucas: [],
+  uccas: [],
+  interchangeableControllerGroups: [],
   requirements: [],
   sequenceOfEvents: [],
   activeContexts: {},
@@ -166,6 +383,11 @@ const initialState: AnalysisContextState = {
   hardwareAnalysisSession: null,
   scenarios: [],
   notApplicableStatuses: [],
+  commentThreads: [],
+  comments: [],
+  reviewStatuses: [],
+  diagramLayouts: [],
+  validationRules: {},
   setAnalysisType: () => {},
   updateAnalysisSession: () => {},
   setCastStep2SubStep: () => {},
@@ -200,18 +422,29 @@ const initialState: AnalysisContextState = {
   addFailurePath: () => {},
   updateFailurePath: () => {},
   deleteFailurePath: () => {},
+  addDiagramLayout: () => {},
+  updateDiagramLayout: () => {},
+  deleteDiagramLayout: () => {},
   addControlAction: () => {},
   updateControlAction: () => {},
   deleteControlAction: () => {},
   addUCA: () => {},
   updateUCA: () => {},
   deleteUCA: () => {},
+  addUCCA: () => {},
+  updateUCCA: () => {},
+  deleteUCCA: () => {},
+  setInterchangeableControllerGroups: () => {},
   addRequirement: () => {},
   updateRequirement: () => {},
   deleteRequirement: () => {},
   setCurrentStep: () => {},
   setActiveContext: () => {},
+  clearActiveContext: () => {},
   resetAnalysis: () => {},
+  importAnalysisData: () => {},
+  restoreAnalysisData: () => {},
+  applyCollaboratorChanges: () => {},
   addHardwareComponent: () => {},
   updateHardwareComponent: () => {},
   deleteHardwareComponent: () => {},
@@ -228,6 +461,24 @@ const initialState: AnalysisContextState = {
   addNotApplicableStatus: () => {},
   removeNotApplicableStatus: () => {},
   getNotApplicableStatuses: () => [],
+  addCommentThread: () => {},
+  replyToCommentThread: () => {},
+  deleteComment: () => {},
+  deleteCommentThread: () => {},
+  moveCommentThread: () => {},
+  resolveCommentThread: () => {},
+  reopenCommentThread: () => {},
+  setReviewStatus: () => {},
+  moveReviewStatus: () => {},
+  deleteReviewStatus: () => {},
+  isLocked: false,
+  signOff: () => {},
+  undo: () => {},
+  redo: () => {},
+  canUndo: false,
+  canRedo: false,
+  undoLabel: null,
+  redoLabel: null,
 };
 
 export const AnalysisContext = createContext<AnalysisContextState>(initialState);
@@ -244,116 +495,172 @@ export const AnalysisProvider: React.FC<{ children: ReactNode }> = ({ children }
   const {
     currentAnalysis,
     currentProjectId,
+    currentProject,
     createAnalysis,
     updateAnalysis: updateProjectAnalysis,
     isLoading: isProjectsLoading,
   } = useProjects();
 
-  // Create storage key based on current analysis ID
-  const getStorageKey = (key: string) => {
-    if (currentAnalysis) {
-      return `${key}-${currentAnalysis.id}`;
-    }
-
-    // Fallback: if projects are still loading, try to get the analysis ID from localStorage
-    if (isProjectsLoading) {
-      const storedAnalysisId = localStorage.getItem('stamp-current-analysis');
-      if (storedAnalysisId) {
-        return `${key}-${storedAnalysisId}`;
-      }
-    }
-
-    return null;
-  };
-
-  // Helper to load data from localStorage for current analysis
-  const loadFromStorage = <T,>(key: string, defaultValue: T): T => {
-    const storageKey = getStorageKey(key);
-    if (!storageKey) return defaultValue;
-
-    try {
-      const stored = localStorage.getItem(storageKey);
-      return stored ? JSON.parse(stored) : defaultValue;
-    } catch {
-      return defaultValue;
-    }
-  };
-
   // State is now tied to the current analysis from ProjectsContext
   const analysisSession = currentAnalysis;
 
-  // Initialize state with localStorage data if available during initial render
-  const [castStep2SubStep, _setCastStep2SubStep] = useState<number>(() =>
-    isProjectsLoading ? loadFromStorage('castStep2SubStep', 0) : 0
-  );
-  const [castStep2MaxReachedSubStep, setCastStep2MaxReachedSubStep] = useState<number>(() =>
-    isProjectsLoading ? loadFromStorage('castStep2MaxReachedSubStep', 0) : 0
+  // Filled from storage once the current analysis is loaded
+  const [castStep2SubStep, _setCastStep2SubStep] = useState<number>(0);
+  const [castStep2MaxReachedSubStep, setCastStep2MaxReachedSubStep] = useState<number>(0);
+
+  const [losses, setLosses] = useState<Loss[]>([]);
+  const [hazards, setHazards] = useState<Hazard[]>([]);
+  const [systemConstraints, setSystemConstraints] = useState<SystemConstraint[]>([]);
+  const [sequenceOfEvents, setSequenceOfEvents] = useState<EventDetail[]>([]);
+  const [systemComponents, setSystemComponents] = useState<SystemComponent[]>([]);
+  const [controllers, setControllers] = useState<Controller[]>([]);
+  const [controlPaths, setControlPaths] = useState<ControlPath[]>([]);
+  const [feedbackPaths, setFeedbackPaths] = useState<FeedbackPath[]>([]);
+  const [communicationPaths, setCommunicationPaths] = useState<CommunicationPath[]>([]);
+  const [failurePaths, setFailurePaths] = useState<FailurePath[]>([]);
+  const [controlActions, setControlActions] = useState<ControlAction[]>([]);
+  const [ucas, setUcas] = useState<UnsafeControlAction[]>([]);
+  const [uccas, setUccas] = useState<UCCA[]>([]);
+  const [interchangeableControllerGroups, setInterchangeableControllerGroups] = useState<
+    string[][]
+  >([]);
+  const [requirements, setRequirements] = useState<Requirement[]>([]);
+  const [activeContexts, setActiveContexts] = useState<{
+    [key: string]: string;
+  }>({});
+  const [hardwareComponents, setHardwareComponents] = useState<HardwareComponent[]>([]);
+  const [failureModes, setFailureModes] = useState<FailureMode[]>([]);
+  const [unsafeInteractions, setUnsafeInteractions] = useState<UnsafeInteraction[]>([]);
+  const [hardwareAnalysisSession, setHardwareAnalysisSession] =
+    useState<HardwareAnalysisSession | null>(null);
+  const [scenarios, setScenarios] = useState<CausalScenario[]>([]);
+  const [notApplicableStatuses, setNotApplicableStatuses] = useState<NotApplicableStatus[]>([]);
+  const [commentThreads, setCommentThreads] = useState<CommentThread[]>([]);
+  const [comments, setComments] = useState<ThreadComment[]>([]);
+  const [reviewStatuses, setReviewStatuses] = useState<EntityReview[]>([]);
+  const [diagramLayouts, setDiagramLayouts] = useState<DiagramLayout[]>([]);
+
+  // Undo/redo history of the current analysis
+  const [history, setHistory] = useState<AnalysisHistory>(EMPTY_HISTORY);
+  // Last state recorded in the history; the next change is diffed against it
+  const historyBaselineRef = useRef<HistorySnapshot>({});
+  // Set while a loaded or undone state is waiting to be rendered, so it is not recorded as a change
+  const isApplyingSnapshotRef = useRef(false);
+  // Audit descriptions of the changes since the last render, used to label history steps
+  const pendingChangeLabelsRef = useRef<string[]>([]);
+
+  const historySnapshot = useMemo<Record<HistoryKey, unknown>>(
+    () => ({
+      losses,
+      hazards,
+      systemConstraints,
+      sequenceOfEvents,
+      systemComponents,
+      controllers,
+      controlPaths,
+      feedbackPaths,
+      communicationPaths,
+      failurePaths,
+      controlActions,
+      ucas,
+      uccas,
+      interchangeableControllerGroups,
+      requirements,
+      hardwareComponents,
+      failureModes,
+      unsafeInteractions,
+      hardwareAnalysisSession,
+      scenarios,
+      notApplicableStatuses,
+      commentThreads,
+      comments,
+      reviewStatuses,
+      diagramLayouts,
+    }),
+    [
+      losses,
+      hazards,
+      systemConstraints,
+      sequenceOfEvents,
+      systemComponents,
+      controllers,
+      controlPaths,
+      feedbackPaths,
+      communicationPaths,
+      failurePaths,
+      controlActions,
+      ucas,
+      uccas,
+      interchangeableControllerGroups,
+      requirements,
+      hardwareComponents,
+      failureModes,
+      unsafeInteractions,
+      hardwareAnalysisSession,
+      scenarios,
+      notApplicableStatuses,
+      commentThreads,
+      comments,
+      reviewStatuses,
+      diagramLayouts,
+    ]
   );
 
-  const [losses, setLosses] = useState<Loss[]>(() =>
-    isProjectsLoading ? loadFromStorage('losses', []) : []
-  );
-  const [hazards, setHazards] = useState<Hazard[]>(() =>
-    isProjectsLoading ? loadFromStorage('hazards', []) : []
-  );
-  const [systemConstraints, setSystemConstraints] = useState<SystemConstraint[]>(() =>
-    isProjectsLoading ? loadFromStorage('systemConstraints', []) : []
-  );
-  const [sequenceOfEvents, setSequenceOfEvents] = useState<EventDetail[]>(() =>
-    isProjectsLoading ? loadFromStorage('sequenceOfEvents', []) : []
-  );
-  const [systemComponents, setSystemComponents] = useState<SystemComponent[]>(() =>
-    isProjectsLoading ? loadFromStorage('systemComponents', []) : []
-  );
-  const [controllers, setControllers] = useState<Controller[]>(() =>
-    isProjectsLoading ? loadFromStorage('controllers', []) : []
-  );
-  const [controlPaths, setControlPaths] = useState<ControlPath[]>(() =>
-    isProjectsLoading ? loadFromStorage('controlPaths', []) : []
-  );
-  const [feedbackPaths, setFeedbackPaths] = useState<FeedbackPath[]>(() =>
-    isProjectsLoading ? loadFromStorage('feedbackPaths', []) : []
-  );
-  const [communicationPaths, setCommunicationPaths] = useState<CommunicationPath[]>(() =>
-    isProjectsLoading ? loadFromStorage('communicationPaths', []) : []
-  );
-  const [failurePaths, setFailurePaths] = useState<FailurePath[]>(() =>
-    isProjectsLoading ? loadFromStorage('failurePaths', []) : []
-  );
-  const [controlActions, setControlActions] = useState<ControlAction[]>(() =>
-    isProjectsLoading ? loadFromStorage('controlActions', []) : []
-  );
-  const [ucas, setUcas] = useState<UnsafeControlAction[]>(() =>
-    isProjectsLoading ? loadFromStorage('ucas', []) : []
-  );
-  const [requirements, setRequirements] = useState<Requirement[]>(() =>
-    isProjectsLoading ? loadFromStorage('requirements', []) : []
-  );
-  const [activeContexts, setActiveContexts] = useState<{ [key: string]: string }>(() =>
-    isProjectsLoading ? loadFromStorage('activeContexts', {}) : {}
-  );
-  const [hardwareComponents, setHardwareComponents] = useState<HardwareComponent[]>(() =>
-    isProjectsLoading ? loadFromStorage('hardwareComponents', []) : []
-  );
-  const [failureModes, setFailureModes] = useState<FailureMode[]>(() =>
-    isProjectsLoading ? loadFromStorage('failureModes', []) : []
-  );
-  const [unsafeInteractions, setUnsafeInteractions] = useState<UnsafeInteraction[]>(() =>
-    isProjectsLoading ? loadFromStorage('unsafeInteractions', []) : []
-  );
-  const [hardwareAnalysisSession, setHardwareAnalysisSession] =
-    useState<HardwareAnalysisSession | null>(() =>
-      isProjectsLoading ? loadFromStorage('hardwareAnalysisSession', null) : null
-    );
-  const [scenarios, setScenarios] = useState<CausalScenario[]>(() =>
-    isProjectsLoading ? loadFromStorage('scenarios', []) : []
+  const historySetters = useMemo<HistorySetters>(
+    () => ({
+      losses: setLosses,
+      hazards: setHazards,
+      systemConstraints: setSystemConstraints,
+      sequenceOfEvents: setSequenceOfEvents,
+      systemComponents: setSystemComponents,
+      controllers: setControllers,
+      controlPaths: setControlPaths,
+      feedbackPaths: setFeedbackPaths,
+      communicationPaths: setCommunicationPaths,
+      failurePaths: setFailurePaths,
+      controlActions: setControlActions,
+      ucas: setUcas,
+      uccas: setUccas,
+      interchangeableControllerGroups: setInterchangeableControllerGroups,
+      requirements: setRequirements,
+      hardwareComponents: setHardwareComponents,
+      failureModes: setFailureModes,
+      unsafeInteractions: setUnsafeInteractions,
+      hardwareAnalysisSession: setHardwareAnalysisSession,
+      scenarios: setScenarios,
+      notApplicableStatuses: setNotApplicableStatuses,
+      commentThreads: setCommentThreads,
+      comments: setComments,
+      reviewStatuses: setReviewStatuses,
+      diagramLayouts: setDiagramLayouts,
+    }),
+    []
   );
-  const [notApplicableStatuses, setNotApplicableStatuses] = useState<NotApplicableStatus[]>(() =>
-    isProjectsLoading ? loadFromStorage('notApplicableStatuses', []) : []
+
+  // Sets state without recording it as an undoable change
+  const applyHistorySnapshot = useCallback(
+    (snapshot: HistorySnapshot) => {
+      historyBaselineRef.current = {
+        ...historyBaselineRef.current,
+        ...snapshot,
+      };
+      isApplyingSnapshotRef.current = true;
+      (Object.keys(snapshot) as HistoryKey[]).forEach(key =>
+        setHistoryValue(historySetters, key, snapshot[key])
+      );
+    },
+    [historySetters]
   );
 
-  // Track if we've done the initial load
-  const [hasInitiallyLoaded, setHasInitiallyLoaded] = useState(false);
+  // Analysis whose stored data is in state; nothing is recorded or saved until it matches
+  const [loadedAnalysisId, setLoadedAnalysisId] = useState<string | null>(null);
+  const loadedAnalysisIdRef = useRef<string | null>(null);
+  // Data and revision last read from or written to storage: unchanged state is not
+  // written again, and changes of other tabs are merged against it
+  const syncedDocumentRef = useRef<SyncedDocument | null>(null);
+  const analysisDocumentRef = useRef<AnalysisDocumentData | null>(null);
+  // Saves and merges run one at a time, so each save expects the revision of the one before
+  const storageQueueRef = useRef<Promise<void>>(Promise.resolve());
 
   // Load data when analysis changes
   useEffect(() => {
@@ -362,37 +669,11 @@ export const AnalysisProvider: React.FC<{ children: ReactNode }> = ({ children }
       return;
     }
 
-    // Mark that we've finished initial loading
-    if (!hasInitiallyLoaded) {
-      setHasInitiallyLoaded(true);
-    }
-
-    if (currentAnalysis) {
-      _setCastStep2SubStep(loadFromStorage('castStep2SubStep', 0));
-      setCastStep2MaxReachedSubStep(loadFromStorage('castStep2MaxReachedSubStep', 0));
-      setLosses(loadFromStorage('losses', []));
-      setHazards(loadFromStorage('hazards', []));
-      setSystemConstraints(loadFromStorage('systemConstraints', []));
-      setSequenceOfEvents(loadFromStorage('sequenceOfEvents', []));
-      setSystemComponents(loadFromStorage('systemComponents', []));
-      setControllers(loadFromStorage('controllers', []));
-      setControlPaths(loadFromStorage('controlPaths', []));
-      setFeedbackPaths(loadFromStorage('feedbackPaths', []));
-      setCommunicationPaths(loadFromStorage('communicationPaths', []));
-      setFailurePaths(loadFromStorage('failurePaths', []));
-      setControlActions(loadFromStorage('controlActions', []));
-      setUcas(loadFromStorage('ucas', []));
-      setRequirements(loadFromStorage('requirements', []));
-      setActiveContexts(loadFromStorage('activeContexts', {}));
-      setHardwareComponents(loadFromStorage('hardwareComponents', []));
-      setFailureModes(loadFromStorage('failureModes', []));
-      setUnsafeInteractions(loadFromStorage('unsafeInteractions', []));
-      setHardwareAnalysisSession(loadFromStorage('hardwareAnalysisSession', null));
-      setScenarios(loadFromStorage('scenarios', []));
-      setNotApplicableStatuses(loadFromStorage('notApplicableStatuses', []));
-    } else if (hasInitiallyLoaded) {
-      // Only clear state when no analysis is selected AND we've already done initial loading
-      // This prevents clearing data during the initial page load
+    // No analysis data in state, and none saved until an analysis was loaded
+    const clearAnalysisState = () => {
+      setLoadedAnalysisId(null);
+      loadedAnalysisIdRef.current = null;
+      syncedDocumentRef.current = null;
       _setCastStep2SubStep(0);
       setCastStep2MaxReachedSubStep(0);
       setLosses([]);
@@ -407,6 +688,8 @@ export const AnalysisProvider: React.FC<{ children: ReactNode }> = ({ children }
       setFailurePaths([]);
       setControlActions([]);
       setUcas([]);
+      setUccas([]);
+      setInterchangeableControllerGroups([]);
       setRequirements([]);
       setActiveContexts({});
       setHardwareComponents([]);
@@ -414,144 +697,245 @@ export const AnalysisProvider: React.FC<{ children: ReactNode }> = ({ children }
       setUnsafeInteractions([]);
       setHardwareAnalysisSession(null);
       setScenarios([]);
-    }
-  }, [currentAnalysis?.id, isProjectsLoading, hasInitiallyLoaded]);
-
-  // Save data to localStorage with analysis-specific keys
-  // Only save after initial load is complete to prevent overwriting with empty data
-  useEffect(() => {
-    if (!hasInitiallyLoaded || isProjectsLoading) return;
-    const key = getStorageKey('castStep2SubStep');
-    if (key) localStorage.setItem(key, castStep2SubStep.toString());
-  }, [castStep2SubStep, currentAnalysis?.id, hasInitiallyLoaded, isProjectsLoading]);
-
-  useEffect(() => {
-    if (!hasInitiallyLoaded || isProjectsLoading) return;
-    const key = getStorageKey('castStep2MaxReachedSubStep');
-    if (key) localStorage.setItem(key, castStep2MaxReachedSubStep.toString());
-  }, [castStep2MaxReachedSubStep, currentAnalysis?.id, hasInitiallyLoaded, isProjectsLoading]);
-
-  useEffect(() => {
-    if (!hasInitiallyLoaded || isProjectsLoading) return;
-    const key = getStorageKey('losses');
-    if (key) localStorage.setItem(key, JSON.stringify(losses));
-  }, [losses, currentAnalysis?.id, hasInitiallyLoaded, isProjectsLoading]);
-
-  useEffect(() => {
-    if (!hasInitiallyLoaded || isProjectsLoading) return;
-    const key = getStorageKey('hazards');
-    if (key) localStorage.setItem(key, JSON.stringify(hazards));
-  }, [hazards, currentAnalysis?.id, hasInitiallyLoaded, isProjectsLoading]);
-
-  useEffect(() => {
-    if (!hasInitiallyLoaded || isProjectsLoading) return;
-    const key = getStorageKey('systemConstraints');
-    if (key) localStorage.setItem(key, JSON.stringify(systemConstraints));
-  }, [systemConstraints, currentAnalysis?.id, hasInitiallyLoaded, isProjectsLoading]);
-
-  useEffect(() => {
-    if (!hasInitiallyLoaded || isProjectsLoading) return;
-    const key = getStorageKey('sequenceOfEvents');
-    if (key) localStorage.setItem(key, JSON.stringify(sequenceOfEvents));
-  }, [sequenceOfEvents, currentAnalysis?.id, hasInitiallyLoaded, isProjectsLoading]);
-
-  useEffect(() => {
-    if (!hasInitiallyLoaded || isProjectsLoading) return;
-    const key = getStorageKey('systemComponents');
-    if (key) localStorage.setItem(key, JSON.stringify(systemComponents));
-  }, [systemComponents, currentAnalysis?.id, hasInitiallyLoaded, isProjectsLoading]);
-
-  useEffect(() => {
-    if (!hasInitiallyLoaded || isProjectsLoading) return;
-    const key = getStorageKey('controllers');
-    if (key) localStorage.setItem(key, JSON.stringify(controllers));
-  }, [controllers, currentAnalysis?.id, hasInitiallyLoaded, isProjectsLoading]);
-
-  useEffect(() => {
-    if (!hasInitiallyLoaded || isProjectsLoading) return;
-    const key = getStorageKey('controlPaths');
-    if (key) localStorage.setItem(key, JSON.stringify(controlPaths));
-  }, [controlPaths, currentAnalysis?.id, hasInitiallyLoaded, isProjectsLoading]);
-
-  useEffect(() => {
-    if (!hasInitiallyLoaded || isProjectsLoading) return;
-    const key = getStorageKey('feedbackPaths');
-    if (key) localStorage.setItem(key, JSON.stringify(feedbackPaths));
-  }, [feedbackPaths, currentAnalysis?.id, hasInitiallyLoaded, isProjectsLoading]);
+      setNotApplicableStatuses([]);
+      setCommentThreads([]);
+      setComments([]);
+      setReviewStatuses([]);
+      setDiagramLayouts([]);
+      setHistory(EMPTY_HISTORY);
+    };
 
-  useEffect(() => {
-    if (!hasInitiallyLoaded || isProjectsLoading) return;
-    const key = getStorageKey('communicationPaths');
-    if (key) localStorage.setItem(key, JSON.stringify(communicationPaths));
-  }, [communicationPaths, currentAnalysis?.id, hasInitiallyLoaded, isProjectsLoading]);
+    if (!currentAnalysis) {
+      clearAnalysisState();
+      return;
+    }
 
-  useEffect(() => {
-    if (!hasInitiallyLoaded || isProjectsLoading) return;
-    const key = getStorageKey('failurePaths');
-    if (key) localStorage.setItem(key, JSON.stringify(failurePaths));
-  }, [failurePaths, currentAnalysis?.id, hasInitiallyLoaded, isProjectsLoading]);
+    const analysisId = currentAnalysis.id;
+    let cancelled = false;
+    Promise.all([analysisStorage.loadAnalysis(analysisId), loadAnalysisHistory(analysisId)])
+      .then(([document, storedHistory]) => {
+        if (cancelled) return;
+        const data = withDocumentDefaults(document?.data ?? {});
+        syncedDocumentRef.current = {
+          data,
+          revision: document?.revision ?? null,
+        };
+        _setCastStep2SubStep(data.castStep2SubStep as number);
+        setCastStep2MaxReachedSubStep(data.castStep2MaxReachedSubStep as number);
+        setActiveContexts(data.activeContexts as { [key: string]: string });
+        applyHistorySnapshot(Object.fromEntries(HISTORY_KEYS.map(key => [key, data[key]])));
+        setHistory(storedHistory);
+        setLoadedAnalysisId(analysisId);
+        loadedAnalysisIdRef.current = analysisId;
+      })
+      .catch(error => {
+        if (cancelled) return;
+        // The data of the previously open analysis must not be shown or saved as this one's
+        clearAnalysisState();
+        const context = createErrorContext('AnalysisContext', 'loadAnalysis', { analysisId });
+        ErrorHandler.handleError(
+          error instanceof SafetyAnalysisError
+            ? error
+            : new SafetyAnalysisError(
+                'ANALYSIS_LOAD_ERROR',
+                error instanceof Error ? error.message : String(error),
+                'high',
+                context,
+                {
+                  title: 'Analysis Not Loaded',
+                  message: 'The analysis could not be read from browser storage.',
+                }
+              ),
+          context
+        );
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [currentAnalysis?.id, isProjectsLoading]);
 
-  useEffect(() => {
-    if (!hasInitiallyLoaded || isProjectsLoading) return;
-    const key = getStorageKey('controlActions');
-    if (key) localStorage.setItem(key, JSON.stringify(controlActions));
-  }, [controlActions, currentAnalysis?.id, hasInitiallyLoaded, isProjectsLoading]);
+  useEffect(
+    () =>
+      auditTrail.subscribe(event => {
+        if (event) pendingChangeLabelsRef.current.push(event.description);
+      }),
+    []
+  );
 
+  // Record every committed change of the tracked state as one undoable step.
+  // React batches the updates of an event handler, so a compound operation such as
+  // deleting a controller together with its paths is undone as a whole.
   useEffect(() => {
-    if (!hasInitiallyLoaded || isProjectsLoading) return;
-    const key = getStorageKey('ucas');
-    if (key) localStorage.setItem(key, JSON.stringify(ucas));
-  }, [ucas, currentAnalysis?.id, hasInitiallyLoaded, isProjectsLoading]);
+    const labels = pendingChangeLabelsRef.current;
+    pendingChangeLabelsRef.current = [];
+    if (!currentAnalysis || loadedAnalysisId !== currentAnalysis.id) return;
+
+    if (isApplyingSnapshotRef.current) {
+      if (isSnapshotApplied(historyBaselineRef.current, historySnapshot)) {
+        isApplyingSnapshotRef.current = false;
+        historyBaselineRef.current = historySnapshot;
+      }
+      return;
+    }
 
-  useEffect(() => {
-    if (!hasInitiallyLoaded || isProjectsLoading) return;
-    const key = getStorageKey('requirements');
-    if (key) localStorage.setItem(key, JSON.stringify(requirements));
-  }, [requirements, currentAnalysis?.id, hasInitiallyLoaded, isProjectsLoading]);
+    const change = diffSnapshots(historyBaselineRef.current, historySnapshot);
+    historyBaselineRef.current = historySnapshot;
+    if (change) {
+      const next = pushHistoryEntry(history, {
+        label: createHistoryLabel(labels),
+        ...change,
+      });
+      setHistory(next);
+      saveAnalysisHistory(currentAnalysis.id, next);
+    }
+  }, [historySnapshot, history, currentAnalysis, loadedAnalysisId]);
 
+  // Runs after the effect above: audit events of changes outside the history, such as
+  // renaming the analysis, must not label the next step
   useEffect(() => {
-    if (!hasInitiallyLoaded || isProjectsLoading) return;
-    const key = getStorageKey('activeContexts');
-    if (key) localStorage.setItem(key, JSON.stringify(activeContexts));
-  }, [activeContexts, currentAnalysis?.id, hasInitiallyLoaded, isProjectsLoading]);
+    pendingChangeLabelsRef.current = [];
+  });
 
+  // Audit events are recorded against the selected analysis
   useEffect(() => {
-    if (!hasInitiallyLoaded || isProjectsLoading) return;
-    const key = getStorageKey('hardwareComponents');
-    if (key) localStorage.setItem(key, JSON.stringify(hardwareComponents));
-  }, [hardwareComponents, currentAnalysis?.id, hasInitiallyLoaded, isProjectsLoading]);
+    if (isProjectsLoading) return;
+    auditTrail.setAnalysis(currentAnalysis?.id ?? null);
+  }, [currentAnalysis?.id, isProjectsLoading]);
+
+  const analysisDocument = useMemo<AnalysisDocumentData>(
+    () => ({
+      ...historySnapshot,
+      castStep2SubStep,
+      castStep2MaxReachedSubStep,
+      activeContexts,
+    }),
+    [historySnapshot, castStep2SubStep, castStep2MaxReachedSubStep, activeContexts]
+  );
 
-  useEffect(() => {
-    if (!hasInitiallyLoaded || isProjectsLoading) return;
-    const key = getStorageKey('failureModes');
-    if (key) localStorage.setItem(key, JSON.stringify(failureModes));
-  }, [failureModes, currentAnalysis?.id, hasInitiallyLoaded, isProjectsLoading]);
+  // Sets the data of another tab without recording it as an undoable change
+  const applyDocumentData = useCallback(
+    (data: AnalysisDocumentData) => {
+      const current = analysisDocumentRef.current;
+      const changedKeys = HISTORY_KEYS.filter(key => data[key] !== current?.[key]);
+      if (changedKeys.length > 0) {
+        applyHistorySnapshot(Object.fromEntries(changedKeys.map(key => [key, data[key]])));
+      }
+      _setCastStep2SubStep(data.castStep2SubStep as number);
+      setCastStep2MaxReachedSubStep(data.castStep2MaxReachedSubStep as number);
+      setActiveContexts(data.activeContexts as { [key: string]: string });
+    },
+    [applyHistorySnapshot]
+  );
 
-  useEffect(() => {
-    if (!hasInitiallyLoaded || isProjectsLoading) return;
-    const key = getStorageKey('unsafeInteractions');
-    if (key) localStorage.setItem(key, JSON.stringify(unsafeInteractions));
-  }, [unsafeInteractions, currentAnalysis?.id, hasInitiallyLoaded, isProjectsLoading]);
+  const enqueueStorageTask = useCallback((task: () => Promise<void>) => {
+    storageQueueRef.current = storageQueueRef.current
+      .then(task)
+      .catch(error => console.error('Failed to sync analysis data:', error));
+  }, []);
 
-  useEffect(() => {
-    if (!hasInitiallyLoaded || isProjectsLoading) return;
-    const key = getStorageKey('hardwareAnalysisSession');
-    if (key && hardwareAnalysisSession) {
-      localStorage.setItem(key, JSON.stringify(hardwareAnalysisSession));
-    }
-  }, [hardwareAnalysisSession, currentAnalysis?.id, hasInitiallyLoaded, isProjectsLoading]);
+  // Merges the stored document, saved by another tab, with the changes of this tab.
+  // Where both changed the same value this tab's change is kept and the user can
+  // choose to load the other one instead.
+  const mergeStoredAnalysis = useCallback(
+    async (analysisId: string) => {
+      const document = await analysisStorage.loadAnalysis(analysisId);
+      const synced = syncedDocumentRef.current;
+      const local = analysisDocumentRef.current;
+      if (!document || !synced || !local || loadedAnalysisIdRef.current !== analysisId) return;
+      if ((document.revision ?? null) === synced.revision) return;
+
+      const remote = withDocumentDefaults(document.data);
+      const merge = (prefer: MergeOptions['prefer']) =>
+        mergeChanges(synced.data, local, remote, {
+          prefer,
+          resolvers: DOCUMENT_MERGE_RESOLVERS,
+        });
+      const { value: merged, conflicts } = merge('local');
+      syncedDocumentRef.current = {
+        data: remote,
+        revision: document.revision ?? null,
+      };
+      applyDocumentData(merged);
+      if (conflicts.length === 0) return;
+
+      const theirs = merge('remote').value;
+      const context = createErrorContext('AnalysisContext', 'mergeStoredAnalysis', { conflicts });
+      const loadTheirChanges = () => {
+        const current = analysisDocumentRef.current;
+        if (!current || loadedAnalysisIdRef.current !== analysisId) return;
+        // Changes made since the merge are kept
+        applyDocumentData(
+          mergeChanges(merged, current, theirs, {
+            prefer: 'remote',
+            resolvers: DOCUMENT_MERGE_RESOLVERS,
+          }).value
+        );
+      };
+      ErrorHandler.handleError(
+        new ConcurrentModificationError('analysis', analysisId, context, [
+          { label: 'Keep My Changes', action: () => {}, variant: 'primary' },
+          {
+            label: 'Load Their Changes',
+            action: loadTheirChanges,
+            variant: 'danger',
+          },
+        ]),
+        context
+      );
+    },
+    [applyDocumentData]
+  );
 
-  useEffect(() => {
-    if (!hasInitiallyLoaded || isProjectsLoading) return;
-    const key = getStorageKey('scenarios');
-    if (key) localStorage.setItem(key, JSON.stringify(scenarios));
-  }, [scenarios, currentAnalysis?.id, hasInitiallyLoaded, isProjectsLoading]);
+  const saveAnalysisDocument = useCallback(
+    async (analysisId: string) => {
+      const synced = syncedDocumentRef.current;
+      const data = analysisDocumentRef.current;
+      if (!synced || !data || loadedAnalysisIdRef.current !== analysisId) return;
+      if (isSameDocumentData(synced.data, data)) return;
+
+      try {
+        const revision = await analysisStorage.saveAnalysis(
+          { analysisId, updatedAt: new Date().toISOString(), data },
+          { expectedRevision: synced.revision }
+        );
+        syncedDocumentRef.current = { data, revision };
+        tabSync.publish({ type: 'analysis', analysisId, revision });
+      } catch (error) {
+        // Another tab saved first; its changes are merged and the result saved next
+        if (!(error instanceof ConcurrentModificationError)) throw error;
+        await mergeStoredAnalysis(analysisId);
+      }
+    },
+    [mergeStoredAnalysis]
+  );
 
+  // Save the analysis as one document whenever its data changes. Only after it has
+  // been loaded, so the previous analysis' state never overwrites it.
   useEffect(() => {
-    if (!hasInitiallyLoaded || isProjectsLoading) return;
-    const key = getStorageKey('notApplicableStatuses');
-    if (key) localStorage.setItem(key, JSON.stringify(notApplicableStatuses));
-  }, [notApplicableStatuses, currentAnalysis?.id, hasInitiallyLoaded, isProjectsLoading]);
+    analysisDocumentRef.current = analysisDocument;
+    if (!currentAnalysis || loadedAnalysisId !== currentAnalysis.id) return;
+    const analysisId = currentAnalysis.id;
+    enqueueStorageTask(() => saveAnalysisDocument(analysisId));
+  }, [
+    analysisDocument,
+    currentAnalysis,
+    loadedAnalysisId,
+    enqueueStorageTask,
+    saveAnalysisDocument,
+  ]);
+
+  // Show the changes other tabs save to the open analysis
+  useEffect(
+    () =>
+      tabSync.subscribe(message => {
+        if (message.type !== 'analysis' || message.analysisId !== loadedAnalysisIdRef.current) {
+          return;
+        }
+        if (message.revision === syncedDocumentRef.current?.revision) return;
+        enqueueStorageTask(() => mergeStoredAnalysis(message.analysisId));
+      }),
+    [enqueueStorageTask, mergeStoredAnalysis]
+  );
 
   const setCastStep2SubStep = useCallback(
     (stepUpdater: number | ((prevStep: number) => number)) => {
@@ -582,9 +966,18 @@ export const AnalysisProvider: React.FC<{ children: ReactNode }> = ({ children }
   );
 
   const updateAnalysisSession = useCallback(
-    (data: Partial<Omit<AnalysisSession, 'id' | 'analysisType' | 'createdAt' | 'updatedAt'>>) => {
+    (
+      data: Partial<
+        Omit<AnalysisSession, 'id' | 'analysisType' | 'createdAt' | 'updatedAt' | 'approval'>
+      >
+    ) => {
       if (currentAnalysis && currentProjectId) {
         updateProjectAnalysis(currentProjectId, currentAnalysis.id, data);
+        auditTrail.recordEntityChange('ANALYSIS', 'UPDATE', {
+          entityId: currentAnalysis.id,
+          oldValue: currentAnalysis,
+          newValue: { ...currentAnalysis, ...data },
+        });
       }
     },
     [currentAnalysis, currentProjectId, updateProjectAnalysis]
@@ -593,7 +986,9 @@ export const AnalysisProvider: React.FC<{ children: ReactNode }> = ({ children }
   const setCurrentStep = useCallback(
     (stepPath: string) => {
       if (currentAnalysis && currentProjectId) {
-        updateProjectAnalysis(currentProjectId, currentAnalysis.id, { currentStep: stepPath });
+        updateProjectAnalysis(currentProjectId, currentAnalysis.id, {
+          currentStep: stepPath,
+        });
       }
     },
     [currentAnalysis, currentProjectId, updateProjectAnalysis]
@@ -603,6 +998,10 @@ export const AnalysisProvider: React.FC<{ children: ReactNode }> = ({ children }
     setActiveContexts(prev => ({ ...prev, [controllerId]: contextId }));
   }, []);
 
+  const clearActiveContext = useCallback((controllerId: string) => {
+    setActiveContexts(({ [controllerId]: _cleared, ...rest }) => rest);
+  }, []);
+
   const resetAnalysis = useCallback(() => {
     // Clear all state
     _setCastStep2SubStep(0);
@@ -619,6 +1018,8 @@ export const AnalysisProvider: React.FC<{ children: ReactNode }> = ({ children }
     setFailurePaths([]);
     setControlActions([]);
     setUcas([]);
+    setUccas([]);
+    setInterchangeableControllerGroups([]);
     setRequirements([]);
     setActiveContexts({});
     setHardwareComponents([]);
@@ -627,43 +1028,100 @@ export const AnalysisProvider: React.FC<{ children: ReactNode }> = ({ children }
     setHardwareAnalysisSession(null);
     setScenarios([]);
     setNotApplicableStatuses([]);
+    setCommentThreads([]);
+    setComments([]);
+    setReviewStatuses([]);
+    setDiagramLayouts([]);
 
-    // Clear localStorage for current analysis
     if (currentAnalysis) {
-      const keysToRemove = [
-        'castStep2SubStep',
-        'castStep2MaxReachedSubStep',
-        'losses',
-        'hazards',
-        'systemConstraints',
-        'sequenceOfEvents',
-        'systemComponents',
-        'controllers',
-        'controlPaths',
-        'feedbackPaths',
-        'communicationPaths',
-        'controlActions',
-        'ucas',
-        'requirements',
-        'activeContexts',
-        'hardwareComponents',
-        'failureModes',
-        'unsafeInteractions',
-        'hardwareAnalysisSession',
-        'scenarios',
-        'notApplicableStatuses',
-      ];
-
-      keysToRemove.forEach(key => {
-        const storageKey = getStorageKey(key);
-        if (storageKey) localStorage.removeItem(storageKey);
+      auditTrail.recordEvent({
+        eventType: 'ANALYSIS_RESET',
+        entityType: 'ANALYSIS',
+        entityId: currentAnalysis.id,
+        action: 'RESET',
+        description: `Cleared all data of analysis: ${currentAnalysis.title}`,
+        metadata: { changeSize: 'critical', automatedAction: false },
       });
     }
-  }, [currentAnalysis, getStorageKey]);
+  }, [currentAnalysis]);
+
+  const importAnalysisData = useCallback((data: Partial<AnalysisData>) => {
+    if (data.castStep2SubStep !== undefined) _setCastStep2SubStep(data.castStep2SubStep);
+    if (data.castStep2MaxReachedSubStep !== undefined) {
+      setCastStep2MaxReachedSubStep(data.castStep2MaxReachedSubStep);
+    }
+    if (data.losses) setLosses(data.losses);
+    if (data.hazards) setHazards(data.hazards);
+    if (data.systemConstraints) setSystemConstraints(data.systemConstraints);
+    if (data.sequenceOfEvents) setSequenceOfEvents(data.sequenceOfEvents);
+    if (data.systemComponents) setSystemComponents(data.systemComponents);
+    if (data.controllers) setControllers(data.controllers);
+    if (data.controlPaths) setControlPaths(data.controlPaths);
+    if (data.feedbackPaths) setFeedbackPaths(data.feedbackPaths);
+    if (data.communicationPaths) setCommunicationPaths(data.communicationPaths);
+    if (data.controlActions) setControlActions(data.controlActions);
+    if (data.ucas) setUcas(data.ucas);
+    if (data.uccas) setUccas(data.uccas);
+    if (data.interchangeableControllerGroups) {
+      setInterchangeableControllerGroups(data.interchangeableControllerGroups);
+    }
+    if (data.requirements) setRequirements(data.requirements);
+    if (data.activeContexts) setActiveContexts(data.activeContexts);
+    if (data.hardwareComponents) setHardwareComponents(data.hardwareComponents);
+    if (data.failureModes) setFailureModes(data.failureModes);
+    if (data.unsafeInteractions) setUnsafeInteractions(data.unsafeInteractions);
+    if (data.hardwareAnalysisSession !== undefined) {
+      setHardwareAnalysisSession(data.hardwareAnalysisSession);
+    }
+    if (data.scenarios) setScenarios(data.scenarios);
+    if (data.commentThreads) setCommentThreads(data.commentThreads);
+    if (data.comments) setComments(data.comments);
+    if (data.reviewStatuses) setReviewStatuses(data.reviewStatuses);
+    if (data.diagramLayouts) setDiagramLayouts(data.diagramLayouts);
+
+    const collections = Object.keys(data).filter(key =>
+      Array.isArray(data[key as keyof AnalysisData])
+    );
+    auditTrail.recordEvent({
+      eventType: 'DATA_IMPORTED',
+      entityType: 'ANALYSIS',
+      entityId: auditTrail.getAnalysisId() || 'unsaved-analysis',
+      action: 'IMPORT',
+      description: `Imported analysis data (${collections.join(', ') || 'no collections'})`,
+      newValue: { collections },
+      metadata: { changeSize: 'critical', automatedAction: false },
+    });
+  }, []);
+
+  // Records an update in the audit trail unless it leaves the entity unchanged
+  const auditUpdate = <T extends { id: string }>(
+    entityType: string,
+    oldValue: T | undefined,
+    updates: Partial<T>
+  ) => {
+    if (!oldValue) return;
+    const newValue = { ...oldValue, ...updates };
+    if (JSON.stringify(oldValue) === JSON.stringify(newValue)) return;
+    auditTrail.recordEntityChange(entityType, 'UPDATE', {
+      entityId: oldValue.id,
+      oldValue,
+      newValue,
+    });
+  };
+
+  const auditDelete = <T extends { id: string }>(entityType: string, oldValue: T | undefined) => {
+    if (oldValue) {
+      auditTrail.recordEntityChange(entityType, 'DELETE', {
+        entityId: oldValue.id,
+        oldValue,
+      });
+    }
+  };
 
   const createCrudOperations = <T extends { id: string }>(
     setter: React.Dispatch<React.SetStateAction<T[]>>,
     list: T[],
+    entityType: string,
     codePrefix?: string
   ) => ({
     add: (item: Omit<T, 'id' | 'code'> & { id?: string }) => {
@@ -673,12 +1131,25 @@ export const AnalysisProvider: React.FC<{ children: ReactNode }> = ({ children }
       }
       const newItem = newItemData as T;
       setter(prev => [...prev, newItem]);
+      auditTrail.recordEntityChange(entityType, 'CREATE', {
+        entityId: newItem.id,
+        newValue: newItem,
+      });
     },
     update: (id: string, updates: Partial<T>) => {
       setter(prev => prev.map(i => (i.id === id ? { ...i, ...updates } : i)));
+      auditUpdate(
+        entityType,
+        list.find(i => i.id === id),
+        updates
+      );
     },
     delete: (id: string) => {
       setter(prev => prev.filter(i => i.id !== id));
+      auditDelete(
+        entityType,
+        list.find(i => i.id === id)
+      );
     },
   });
 
@@ -702,59 +1173,147 @@ export const AnalysisProvider: React.FC<{ children: ReactNode }> = ({ children }
     };
 
     setHazards(prev => [...prev, newHazard]);
+    auditTrail.recordEntityChange('HAZARD', 'CREATE', {
+      entityId: newHazard.id,
+      newValue: newHazard,
+    });
   };
 
   const updateHazard = (id: string, updates: Partial<Hazard>) => {
     setHazards(prev => prev.map(h => (h.id === id ? { ...h, ...updates } : h)));
+    auditUpdate(
+      'HAZARD',
+      hazards.find(h => h.id === id),
+      updates
+    );
   };
 
   const deleteHazard = (id: string) => {
     setHazards(prev => prev.filter(h => h.id !== id));
+    auditDelete(
+      'HAZARD',
+      hazards.find(h => h.id === id)
+    );
   };
 
-  const lossOps = createCrudOperations(setLosses, losses, 'L');
-  const constraintOps = createCrudOperations(setSystemConstraints, systemConstraints, 'SC');
-  const ucaOps = createCrudOperations(setUcas, ucas, 'UCA');
-
-  const componentOps = createCrudOperations(setSystemComponents, systemComponents);
-  const controllerOps = createCrudOperations(setControllers, controllers);
-  const controlPathOps = createCrudOperations(setControlPaths, controlPaths);
-  const feedbackPathOps = createCrudOperations(setFeedbackPaths, feedbackPaths);
-  const communicationPathOps = createCrudOperations(setCommunicationPaths, communicationPaths);
-  const failurePathOps = createCrudOperations(setFailurePaths, failurePaths);
-  const actionOps = createCrudOperations(setControlActions, controlActions);
-  const requirementOps = createCrudOperations(setRequirements, requirements);
-  const hardwareComponentOps = createCrudOperations(setHardwareComponents, hardwareComponents);
-  const failureModeOps = createCrudOperations(setFailureModes, failureModes);
-  const unsafeInteractionOps = createCrudOperations(setUnsafeInteractions, unsafeInteractions);
-  const scenarioOps = createCrudOperations(setScenarios, scenarios, 'CS');
+  const lossOps = createCrudOperations(setLosses, losses, 'LOSS', 'L');
+  const constraintOps = createCrudOperations(
+    setSystemConstraints,
+    systemConstraints,
+    'SYSTEM_CONSTRAINT',
+    'SC'
+  );
+  const ucaOps = createCrudOperations(setUcas, ucas, 'UCA', 'UCA');
+  const uccaOps = createCrudOperations(setUccas, uccas, 'UCCA', 'UCCA');
+
+  const componentOps = createCrudOperations(
+    setSystemComponents,
+    systemComponents,
+    'SYSTEM_COMPONENT'
+  );
+  const controllerOps = createCrudOperations(setControllers, controllers, 'CONTROLLER');
+  const controlPathOps = createCrudOperations(setControlPaths, controlPaths, 'CONTROL_PATH');
+  const feedbackPathOps = createCrudOperations(setFeedbackPaths, feedbackPaths, 'FEEDBACK_PATH');
+  const communicationPathOps = createCrudOperations(
+    setCommunicationPaths,
+    communicationPaths,
+    'COMMUNICATION_PATH'
+  );
+  const failurePathOps = createCrudOperations(setFailurePaths, failurePaths, 'FAILURE_PATH');
+  const diagramLayoutOps = createCrudOperations(
+    setDiagramLayouts,
+    diagramLayouts,
+    'DIAGRAM_LAYOUT'
+  );
+  const actionOps = createCrudOperations(setControlActions, controlActions, 'CONTROL_ACTION');
+  const requirementOps = createCrudOperations(setRequirements, requirements, 'REQUIREMENT');
+  const hardwareComponentOps = createCrudOperations(
+    setHardwareComponents,
+    hardwareComponents,
+    'HARDWARE_COMPONENT'
+  );
+  const failureModeOps = createCrudOperations(setFailureModes, failureModes, 'FAILURE_MODE');
+  const unsafeInteractionOps = createCrudOperations(
+    setUnsafeInteractions,
+    unsafeInteractions,
+    'UNSAFE_INTERACTION'
+  );
+  const scenarioOps = createCrudOperations(setScenarios, scenarios, 'CAUSAL_SCENARIO', 'CS');
 
   const eventOps = {
     add: (item: Omit<EventDetail, 'id' | 'order'>) => {
-      const newEvent = { ...item, id: uuidv4(), order: sequenceOfEvents.length + 1 } as EventDetail;
+      const newEvent = {
+        ...item,
+        id: uuidv4(),
+        order: sequenceOfEvents.length + 1,
+      } as EventDetail;
       setSequenceOfEvents(prev => [...prev, newEvent]);
+      auditTrail.recordEntityChange('EVENT', 'CREATE', {
+        entityId: newEvent.id,
+        newValue: newEvent,
+      });
     },
     update: (id: string, updates: Partial<EventDetail>) => {
       setSequenceOfEvents(prev => prev.map(e => (e.id === id ? { ...e, ...updates } : e)));
+      auditUpdate(
+        'EVENT',
+        sequenceOfEvents.find(e => e.id === id),
+        updates
+      );
     },
     delete: (id: string) => {
       setSequenceOfEvents(prev =>
         prev.filter(e => e.id !== id).map((e, idx) => ({ ...e, order: idx + 1 }))
       );
+      auditDelete(
+        'EVENT',
+        sequenceOfEvents.find(e => e.id === id)
+      );
     },
     reorder: (updatedEvents: EventDetail[]) => {
       setSequenceOfEvents(updatedEvents.map((e, idx) => ({ ...e, order: idx + 1 })));
+      auditTrail.recordEvent({
+        eventType: 'ENTITY_UPDATED',
+        entityType: 'EVENT',
+        entityId: 'sequence-of-events',
+        action: 'REORDER',
+        description: 'Reordered the sequence of events',
+        oldValue: sequenceOfEvents.map(e => e.id),
+        newValue: updatedEvents.map(e => e.id),
+        metadata: { changeSize: 'minor', automatedAction: false },
+      });
     },
   };
 
-  const updateHardwareAnalysisSession = useCallback((data: Partial<HardwareAnalysisSession>) => {
-    setHardwareAnalysisSession(prev => {
-      const updated = prev ? { ...prev, ...data } : { id: uuidv4(), ...data };
-      return updated as HardwareAnalysisSession;
+  const updateInterchangeableControllerGroups = (groups: string[][]) => {
+    setInterchangeableControllerGroups(groups);
+    auditTrail.recordEntityChange('INTERCHANGEABLE_CONTROLLER_GROUPS', 'UPDATE', {
+      entityId: 'interchangeable-controller-groups',
+      oldValue: interchangeableControllerGroups,
+      newValue: groups,
     });
-  }, []);
+  };
+
+  const updateHardwareAnalysisSession = useCallback(
+    (data: Partial<HardwareAnalysisSession>) => {
+      setHardwareAnalysisSession(prev => {
+        const updated = prev ? { ...prev, ...data } : { id: uuidv4(), ...data };
+        return updated as HardwareAnalysisSession;
+      });
+      auditTrail.recordEntityChange('HARDWARE_ANALYSIS_SESSION', 'UPDATE', {
+        entityId: hardwareAnalysisSession?.id || 'hardware-analysis-session',
+        oldValue: hardwareAnalysisSession,
+        newValue: { ...hardwareAnalysisSession, ...data },
+      });
+    },
+    [hardwareAnalysisSession]
+  );
 
   const addNotApplicableStatus = useCallback((status: NotApplicableStatus) => {
+    auditTrail.recordEntityChange('NOT_APPLICABLE_STATUS', 'CREATE', {
+      entityId: getNotApplicableStatusId(status),
+      newValue: status,
+    });
     setNotApplicableStatuses(prev => {
       // Check if status already exists
       const exists = prev.some(
@@ -771,6 +1330,10 @@ export const AnalysisProvider: React.FC<{ children: ReactNode }> = ({ children }
   }, []);
 
   const removeNotApplicableStatus = useCallback((status: NotApplicableStatus) => {
+    auditTrail.recordEntityChange('NOT_APPLICABLE_STATUS', 'DELETE', {
+      entityId: getNotApplicableStatusId(status),
+      oldValue: status,
+    });
     setNotApplicableStatuses(prev =>
       prev.filter(
         s =>
@@ -787,98 +1350,375 @@ export const AnalysisProvider: React.FC<{ children: ReactNode }> = ({ children }
     return notApplicableStatuses;
   }, [notApplicableStatuses]);
 
+  // Names the commented or reviewed entity in audit descriptions
+  const describeReviewedEntity = (collection: keyof AnalysisData, entityId: string) => {
+    const entities = historySnapshot[collection as HistoryKey] as Identifiable[] | undefined;
+    return describeAuditEntity(entities?.find(entity => entity.id === entityId)) || entityId;
+  };
+
+  const createComment = (threadId: string, text: string): ThreadComment => {
+    const user = auditTrail.getCurrentUser();
+    return {
+      id: uuidv4(),
+      threadId,
+      authorId: user.id,
+      authorName: user.name,
+      text: text.trim(),
+      createdAt: new Date().toISOString(),
+    };
+  };
+
+  const addCommentThread = (collection: keyof AnalysisData, entityId: string, text: string) => {
+    const thread: CommentThread = {
+      id: uuidv4(),
+      collection,
+      entityId,
+      createdAt: new Date().toISOString(),
+      createdBy: auditTrail.getCurrentUser().name,
+      resolved: false,
+    };
+    const comment = createComment(thread.id, text);
+    setCommentThreads(prev => [...prev, thread]);
+    setComments(prev => [...prev, comment]);
+    auditTrail.recordEntityChange('COMMENT', 'CREATE', {
+      entityId: comment.id,
+      newValue: comment,
+    });
+  };
+
+  const replyToCommentThread = (threadId: string, text: string) => {
+    const comment = createComment(threadId, text);
+    setComments(prev => [...prev, comment]);
+    auditTrail.recordEntityChange('COMMENT', 'CREATE', {
+      entityId: comment.id,
+      newValue: comment,
+    });
+  };
+
+  const deleteComment = (id: string) => {
+    const comment = comments.find(c => c.id === id);
+    if (!comment) return;
+    setComments(prev => prev.filter(c => c.id !== id));
+    if (!comments.some(c => c.threadId === comment.threadId && c.id !== id)) {
+      setCommentThreads(prev => prev.filter(t => t.id !== comment.threadId));
+    }
+    auditDelete('COMMENT', comment);
+  };
+
+  const deleteCommentThread = (threadId: string) => {
+    const thread = commentThreads.find(t => t.id === threadId);
+    if (!thread) return;
+    setCommentThreads(prev => prev.filter(t => t.id !== threadId));
+    setComments(prev => prev.filter(c => c.threadId !== threadId));
+    auditDelete('COMMENT_THREAD', thread);
+  };
+
+  const moveCommentThread = (threadId: string, entityId: string) => {
+    setCommentThreads(prev => prev.map(t => (t.id === threadId ? { ...t, entityId } : t)));
+    auditUpdate(
+      'COMMENT_THREAD',
+      commentThreads.find(t => t.id === threadId),
+      { entityId }
+    );
+  };
+
+  const setCommentThreadResolved = (threadId: string, resolved: boolean) => {
+    const thread = commentThreads.find(t => t.id === threadId);
+    if (!thread || thread.resolved === resolved) return;
+    const updated: CommentThread = resolved
+      ? {
+          ...thread,
+          resolved,
+          resolvedAt: new Date().toISOString(),
+          resolvedBy: auditTrail.getCurrentUser().name,
+        }
+      : { ...thread, resolved, resolvedAt: undefined, resolvedBy: undefined };
+    setCommentThreads(prev => prev.map(t => (t.id === threadId ? updated : t)));
+    auditTrail.recordEvent({
+      eventType: 'ENTITY_UPDATED',
+      entityType: 'COMMENT_THREAD',
+      entityId: threadId,
+      action: resolved ? 'RESOLVE' : 'REOPEN',
+      description: `${resolved ? 'Resolved' : 'Reopened'} comment thread on ${describeReviewedEntity(thread.collection, thread.entityId)}`,
+      oldValue: thread,
+      newValue: updated,
+      metadata: { changeSize: 'minor', automatedAction: false },
+    });
+  };
+
+  const setReviewStatus = (
+    collection: keyof AnalysisData,
+    entityId: string,
+    status: ReviewStatus
+  ) => {
+    const previous = reviewStatuses.find(r => r.id === entityId);
+    if (previous?.status === status || (!previous && status === 'draft')) return;
+    const review: EntityReview = {
+      id: entityId,
+      collection,
+      status,
+      updatedAt: new Date().toISOString(),
+      updatedBy: auditTrail.getCurrentUser().name,
+    };
+    setReviewStatuses(prev =>
+      previous ? prev.map(r => (r.id === entityId ? review : r)) : [...prev, review]
+    );
+    auditTrail.recordEvent({
+      eventType: 'REVIEW_STATUS_CHANGED',
+      entityType: 'REVIEW_STATUS',
+      entityId,
+      action: 'UPDATE',
+      description: `Set review status of ${describeReviewedEntity(collection, entityId)} to ${status.replace('-', ' ')}`,
+      oldValue: previous,
+      newValue: review,
+      metadata: { changeSize: 'minor', automatedAction: false },
+    });
+  };
+
+  const deleteReviewStatus = (entityId: string) => {
+    setReviewStatuses(prev => prev.filter(r => r.id !== entityId));
+    auditDelete(
+      'REVIEW_STATUS',
+      reviewStatuses.find(r => r.id === entityId)
+    );
+  };
+
+  const moveReviewStatus = (entityId: string, toEntityId: string) => {
+    if (reviewStatuses.some(r => r.id === toEntityId)) {
+      deleteReviewStatus(entityId);
+      return;
+    }
+    setReviewStatuses(prev => prev.map(r => (r.id === entityId ? { ...r, id: toEntityId } : r)));
+    auditUpdate(
+      'REVIEW_STATUS',
+      reviewStatuses.find(r => r.id === entityId),
+      { id: toEntityId }
+    );
+  };
+
+  const isLocked = getApprovalStatus(currentAnalysis) === 'approved';
+
+  const signOff = (action: SignOffAction, comment?: string) => {
+    if (!currentAnalysis || !currentProjectId) return;
+    const transition = SIGN_OFF_TRANSITIONS[action];
+    const user = auditTrail.getCurrentUser();
+    const approval = currentAnalysis.approval;
+    const contentHash = calculateContentHash(historySnapshot);
+    const blocker = getSignOffBlocker(
+      approval,
+      action,
+      user.id,
+      user.workflowRoles,
+      contentHash,
+      comment
+    );
+    if (blocker) {
+      const context = createErrorContext('AnalysisContext', 'signOff', {
+        action,
+      });
+      ErrorHandler.handleError(
+        new SafetyAnalysisError('SIGN_OFF_REFUSED', blocker, 'medium', context, {
+          title: 'Sign-off Refused',
+        }),
+        context
+      );
+      return;
+    }
+
+    const entry: SignOff = {
+      id: uuidv4(),
+      action,
+      role: transition.roles.find(role => user.workflowRoles.includes(role))!,
+      userId: user.id,
+      userName: user.name,
+      signedAt: new Date().toISOString(),
+      contentHash,
+      comment: comment?.trim() || undefined,
+    };
+    const updated = {
+      status: transition.to,
+      signOffs: [...(approval?.signOffs ?? []), entry],
+    };
+    updateProjectAnalysis(currentProjectId, currentAnalysis.id, {
+      approval: updated,
+    });
+    auditTrail.recordEvent({
+      eventType: 'SIGN_OFF',
+      entityType: 'ANALYSIS',
+      entityId: currentAnalysis.id,
+      action: action.toUpperCase(),
+      description: `${transition.label} as ${entry.role} (content ${contentHash})`,
+      oldValue: approval,
+      newValue: updated,
+      metadata: { changeSize: 'critical', automatedAction: false },
+    });
+  };
+
+  const restoreAnalysisData = (data: AnalysisDocumentData) => {
+    HISTORY_KEYS.forEach(key => setHistoryValue(historySetters, key, data[key]));
+    _setCastStep2SubStep(data.castStep2SubStep as number);
+    setCastStep2MaxReachedSubStep(data.castStep2MaxReachedSubStep as number);
+    setActiveContexts(data.activeContexts as { [key: string]: string });
+  };
+
+  const stepHistory = (direction: 'undo' | 'redo') => {
+    const result = direction === 'undo' ? undoHistory(history) : redoHistory(history);
+    if (!result || !currentAnalysis) return;
+
+    const { entry } = result;
+    const { changes, conflicts } =
+      direction === 'undo'
+        ? getHistoryStepChanges(historySnapshot, entry.after, entry.before)
+        : getHistoryStepChanges(historySnapshot, entry.before, entry.after);
+    const changedItems = getChangedItems(historySnapshot, changes);
+    if (Object.keys(changes).length > 0) applyHistorySnapshot(changes);
+    if (conflicts.length > 0) {
+      ErrorHandler.showInfo(
+        `Some values were changed by someone else since and were kept: ${conflicts.join(', ')}`,
+        direction === 'undo' ? 'Partly Undone' : 'Partly Redone'
+      );
+    }
+    setHistory(result.history);
+    saveAnalysisHistory(currentAnalysis.id, result.history);
+    auditTrail.recordEvent({
+      eventType: direction === 'undo' ? 'CHANGE_UNDONE' : 'CHANGE_REDONE',
+      entityType: 'ANALYSIS',
+      entityId: currentAnalysis.id,
+      action: direction.toUpperCase(),
+      description: `${direction === 'undo' ? 'Undid' : 'Redid'}: ${entry.label}`,
+      oldValue: changedItems.before,
+      newValue: changedItems.after,
+      metadata: { changeSize: 'major', automatedAction: false },
+    });
+  };
+
+  const value: AnalysisContextState = {
+    analysisSession,
+    loadedAnalysisId,
+    castStep2SubStep,
+    castStep2MaxReachedSubStep,
+    losses,
+    hazards,
+    systemConstraints,
+    systemComponents,
+    controllers,
+    controlPaths,
+    feedbackPaths,
+    communicationPaths,
+    failurePaths,
+    controlActions,
+    ucas,
+    uccas,
+    interchangeableControllerGroups,
+    requirements,
+    sequenceOfEvents,
+    activeContexts,
+    hardwareComponents,
+    failureModes,
+    unsafeInteractions,
+    hardwareAnalysisSession,
+    scenarios,
+    notApplicableStatuses,
+    commentThreads,
+    comments,
+    reviewStatuses,
+    diagramLayouts,
+    validationRules: currentProject?.validationRules ?? EMPTY_VALIDATION_RULES,
+    setAnalysisType,
+    updateAnalysisSession,
+    setCastStep2SubStep,
+    setCurrentStep,
+    resetAnalysis,
+    importAnalysisData,
+    restoreAnalysisData,
+    applyCollaboratorChanges: applyHistorySnapshot,
+    setActiveContext,
+    clearActiveContext,
+    addLoss: lossOps.add,
+    updateLoss: lossOps.update,
+    deleteLoss: lossOps.delete,
+    addHazard,
+    updateHazard,
+    deleteHazard,
+    addSystemConstraint: constraintOps.add as (item: Omit<SystemConstraint, 'id' | 'code'>) => void,
+    updateSystemConstraint: constraintOps.update,
+    deleteSystemConstraint: constraintOps.delete,
+    addEventDetail: eventOps.add,
+    updateEventDetail: eventOps.update,
+    deleteEventDetail: eventOps.delete,
+    reorderEventDetails: eventOps.reorder,
+    addSystemComponent: componentOps.add,
+    updateSystemComponent: componentOps.update,
+    deleteSystemComponent: componentOps.delete,
+    addController: controllerOps.add as (item: Omit<Controller, 'id'> & { id?: string }) => void,
+    updateController: controllerOps.update,
+    deleteController: controllerOps.delete,
+    addControlPath: controlPathOps.add,
+    updateControlPath: controlPathOps.update,
+    deleteControlPath: controlPathOps.delete,
+    addFeedbackPath: feedbackPathOps.add,
+    updateFeedbackPath: feedbackPathOps.update,
+    deleteFeedbackPath: feedbackPathOps.delete,
+    addCommunicationPath: communicationPathOps.add,
+    updateCommunicationPath: communicationPathOps.update,
+    deleteCommunicationPath: communicationPathOps.delete,
+    addFailurePath: failurePathOps.add,
+    updateFailurePath: failurePathOps.update,
+    deleteFailurePath: failurePathOps.delete,
+    addDiagramLayout: diagramLayoutOps.add,
+    updateDiagramLayout: diagramLayoutOps.update,
+    deleteDiagramLayout: diagramLayoutOps.delete,
+    addControlAction: actionOps.add,
+    updateControlAction: actionOps.update,
+    deleteControlAction: actionOps.delete,
+    addUCA: ucaOps.add as (uca: Omit<UnsafeControlAction, 'id' | 'code'>) => void,
+    updateUCA: ucaOps.update,
+    deleteUCA: ucaOps.delete,
+    addUCCA: uccaOps.add as (ucca: Omit<UCCA, 'id' | 'code'>) => void,
+    updateUCCA: uccaOps.update,
+    deleteUCCA: uccaOps.delete,
+    setInterchangeableControllerGroups: updateInterchangeableControllerGroups,
+    addRequirement: requirementOps.add,
+    updateRequirement: requirementOps.update,
+    deleteRequirement: requirementOps.delete,
+    addHardwareComponent: hardwareComponentOps.add,
+    updateHardwareComponent: hardwareComponentOps.update,
+    deleteHardwareComponent: hardwareComponentOps.delete,
+    addFailureMode: failureModeOps.add,
+    updateFailureMode: failureModeOps.update,
+    deleteFailureMode: failureModeOps.delete,
+    addUnsafeInteraction: unsafeInteractionOps.add,
+    updateUnsafeInteraction: unsafeInteractionOps.update,
+    deleteUnsafeInteraction: unsafeInteractionOps.delete,
+    updateHardwareAnalysisSession,
+    addScenario: scenarioOps.add as (scenario: Omit<CausalScenario, 'id' | 'code'>) => void,
+    updateScenario: scenarioOps.update,
+    deleteScenario: scenarioOps.delete,
+    addNotApplicableStatus,
+    removeNotApplicableStatus,
+    getNotApplicableStatuses,
+    addCommentThread,
+    replyToCommentThread,
+    deleteComment,
+    deleteCommentThread,
+    moveCommentThread,
+    resolveCommentThread: threadId => setCommentThreadResolved(threadId, true),
+    reopenCommentThread: threadId => setCommentThreadResolved(threadId, false),
+    setReviewStatus,
+    moveReviewStatus,
+    deleteReviewStatus,
+    undo: () => stepHistory('undo'),
+    redo: () => stepHistory('redo'),
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    undoLabel: history.past[history.past.length - 1]?.label ?? null,
+    redoLabel: history.future[0]?.label ?? null,
+    isLocked,
+    signOff,
+  };
+
   return (
-    <AnalysisContext.Provider
-      value={{
-        analysisSession,
-        castStep2SubStep,
-        castStep2MaxReachedSubStep,
-        losses,
-        hazards,
-        systemConstraints,
-        systemComponents,
-        controllers,
-        controlPaths,
-        feedbackPaths,
-        communicationPaths,
-        failurePaths,
-        controlActions,
-        ucas,
-        requirements,
-        sequenceOfEvents,
-        activeContexts,
-        hardwareComponents,
-        failureModes,
-        unsafeInteractions,
-        hardwareAnalysisSession,
-        scenarios,
-        notApplicableStatuses,
-        setAnalysisType,
-        updateAnalysisSession,
-        setCastStep2SubStep,
-        setCurrentStep,
-        resetAnalysis,
-        setActiveContext,
-        addLoss: lossOps.add,
-        updateLoss: lossOps.update,
-        deleteLoss: lossOps.delete,
-        addHazard,
-        updateHazard,
-        deleteHazard,
-        addSystemConstraint: constraintOps.add as (
-          item: Omit<SystemConstraint, 'id' | 'code'>
-        ) => void,
-        updateSystemConstraint: constraintOps.update,
-        deleteSystemConstraint: constraintOps.delete,
-        addEventDetail: eventOps.add,
-        updateEventDetail: eventOps.update,
-        deleteEventDetail: eventOps.delete,
-        reorderEventDetails: eventOps.reorder,
-        addSystemComponent: componentOps.add,
-        updateSystemComponent: componentOps.update,
-        deleteSystemComponent: componentOps.delete,
-        addController: controllerOps.add as (item: Omit<Controller, 'id'>) => void,
-        updateController: controllerOps.update,
-        deleteController: controllerOps.delete,
-        addControlPath: controlPathOps.add,
-        updateControlPath: controlPathOps.update,
-        deleteControlPath: controlPathOps.delete,
-        addFeedbackPath: feedbackPathOps.add,
-        updateFeedbackPath: feedbackPathOps.update,
-        deleteFeedbackPath: feedbackPathOps.delete,
-        addCommunicationPath: communicationPathOps.add,
-        updateCommunicationPath: communicationPathOps.update,
-        deleteCommunicationPath: communicationPathOps.delete,
-        addFailurePath: failurePathOps.add,
-        updateFailurePath: failurePathOps.update,
-        deleteFailurePath: failurePathOps.delete,
-        addControlAction: actionOps.add,
-        updateControlAction: actionOps.update,
-        deleteControlAction: actionOps.delete,
-        addUCA: ucaOps.add as (uca: Omit<UnsafeControlAction, 'id' | 'code'>) => void,
-        updateUCA: ucaOps.update,
-        deleteUCA: ucaOps.delete,
-        addRequirement: requirementOps.add,
-        updateRequirement: requirementOps.update,
-        deleteRequirement: requirementOps.delete,
-        addHardwareComponent: hardwareComponentOps.add,
-        updateHardwareComponent: hardwareComponentOps.update,
-        deleteHardwareComponent: hardwareComponentOps.delete,
-        addFailureMode: failureModeOps.add,
-        updateFailureMode: failureModeOps.update,
-        deleteFailureMode: failureModeOps.delete,
-        addUnsafeInteraction: unsafeInteractionOps.add,
-        updateUnsafeInteraction: unsafeInteractionOps.update,
-        deleteUnsafeInteraction: unsafeInteractionOps.delete,
-        updateHardwareAnalysisSession,
-        addScenario: scenarioOps.add as (scenario: Omit<CausalScenario, 'id' | 'code'>) => void,
-        updateScenario: scenarioOps.update,
-        deleteScenario: scenarioOps.delete,
-        addNotApplicableStatus,
-        removeNotApplicableStatus,
-        getNotApplicableStatuses,
-      }}
-    >
+    <AnalysisContext.Provider value={isLocked ? lockAnalysisEditing(value) : value}>
       {children}
     </AnalysisContext.Provider>
   );
@@ -0,0 +1,234 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  ReactNode,
+} from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { HISTORY_KEYS, HistorySnapshot } from '@/utils/analysis-history';
+import { auditTrail } from '@/utils/audit-trail';
+import {
+  CollaborationClient,
+  CollaborationPeer,
+  CollaborationSettings,
+  CollaborationStatus,
+  PresenceFocus,
+  getPeerColor,
+  loadCollaborationSettings,
+  loadReplicaRegisters,
+  saveCollaborationSettings,
+  saveReplicaRegisters,
+} from '@/utils/collaboration-client';
+import {
+  CrdtOperation,
+  CrdtRegisters,
+  HybridClock,
+  applyOperations,
+  createOperations,
+  createSeedOperations,
+  materializeCollections,
+} from '@/utils/crdt';
+import { ErrorHandler, SafetyAnalysisError, createErrorContext } from '@/utils/error-handling';
+import { useAnalysisContext } from './AnalysisContext';
+
+interface CollaborationContextType {
+  settings: CollaborationSettings;
+  status: CollaborationStatus;
+  peers: CollaborationPeer[]; // The other users in the open analysis
+  updateSettings: (settings: Partial<CollaborationSettings>) => void;
+  setFocus: (focus: PresenceFocus | null) => void; // The entity this user is editing
+  getEditors: (entityId: string) => CollaborationPeer[];
+}
+
+// State of the session in the room of one analysis
+interface CollaborationSession {
+  analysisId: string;
+  client: CollaborationClient;
+  registers: CrdtRegisters;
+  clock: HybridClock;
+  synced: HistorySnapshot; // Analysis data the registers hold, as set in state
+}
+
+export const CollaborationContext = createContext<CollaborationContextType | undefined>(undefined);
+
+export const useCollaboration = () => {
+  const context = useContext(CollaborationContext);
+  if (!context) {
+    throw new Error('useCollaboration must be used within a CollaborationProvider');
+  }
+  return context;
+};
+
+/**
+ * Replicates the open analysis through the collaboration relay while collaboration
+ * is enabled. Local changes are sent as CRDT operations and those of other users
+ * are merged into the analysis state.
+ */
+export const CollaborationProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const analysis = useAnalysisContext();
+  const { loadedAnalysisId, isLocked, applyCollaboratorChanges } = analysis;
+  const [settings, setSettings] = useState<CollaborationSettings>(loadCollaborationSettings);
+  const [status, setStatus] = useState<CollaborationStatus>('disconnected');
+  const [peers, setPeers] = useState<CollaborationPeer[]>([]);
+  const clientId = useMemo(() => uuidv4(), []);
+  const sessionRef = useRef<CollaborationSession | null>(null);
+  const focusRef = useRef<PresenceFocus | null>(null);
+
+  const data: HistorySnapshot = Object.fromEntries(HISTORY_KEYS.map(key => [key, analysis[key]]));
+  const dataRef = useRef(data);
+  dataRef.current = data;
+
+  const updateSettings = useCallback((updates: Partial<CollaborationSettings>) => {
+    setSettings(previous => {
+      const next = { ...previous, ...updates };
+      saveCollaborationSettings(next);
+      return next;
+    });
+  }, []);
+
+  const receiveOperations = useCallback(
+    (session: CollaborationSession, operations: CrdtOperation[]) => {
+      if (sessionRef.current !== session) return;
+      operations.forEach(operation => session.clock.observe(operation.timestamp));
+      const applied = applyOperations(session.registers, operations);
+      if (applied.length === 0) return;
+      saveReplicaRegisters(session.analysisId, session.registers);
+
+      const collections = [...new Set(applied.map(operation => operation.collection))];
+      const changes = materializeCollections(session.registers, collections, dataRef.current);
+      const changed = Object.fromEntries(
+        collections
+          .filter(key => changes[key] !== dataRef.current[key])
+          .map(key => [key, changes[key]])
+      );
+      session.synced = { ...session.synced, ...changed };
+      if (Object.keys(changed).length > 0) applyCollaboratorChanges(changed);
+    },
+    [applyCollaboratorChanges]
+  );
+
+  // Join the room of the open analysis once its data is loaded. An approved analysis
+  // is left: operations of collaborators wait in the room and local changes, such as
+  // comments, are sent once it is reopened.
+  useEffect(() => {
+    if (!settings.enabled || !loadedAnalysisId || isLocked) {
+      setStatus('disconnected');
+      setPeers([]);
+      return;
+    }
+
+    const analysisId = loadedAnalysisId;
+    let cancelled = false;
+    let session: CollaborationSession | null = null;
+
+    const join = (stored: CrdtRegisters | null) => {
+      const clock = new HybridClock(clientId);
+      const current = dataRef.current;
+      const registers = stored ?? {};
+      // Changes since the analysis was last replicated are sent as this user's edits;
+      // an analysis shared for the first time only adds what the room doesn't have
+      const operations = stored
+        ? createOperations(materializeCollections(stored, HISTORY_KEYS), current, clock)
+        : createSeedOperations(current, clientId);
+      applyOperations(registers, operations);
+      saveReplicaRegisters(analysisId, registers);
+
+      const context = createErrorContext('CollaborationProvider', 'connect', {
+        serverUrl: settings.serverUrl,
+      });
+      const joined: CollaborationSession = {
+        analysisId,
+        registers,
+        clock,
+        synced: current,
+        client: new CollaborationClient({
+          serverUrl: settings.serverUrl,
+          room: analysisId,
+          peer: {
+            clientId,
+            name: settings.displayName.trim() || auditTrail.getCurrentUser().name,
+            color: getPeerColor(clientId),
+          },
+          onOperations: remote => receiveOperations(joined, remote),
+          onPeers: setPeers,
+          onStatus: setStatus,
+          onError: message =>
+            ErrorHandler.handleError(
+              new SafetyAnalysisError('COLLABORATION_ERROR', message, 'medium', context, {
+                title: 'Collaboration Error',
+              }),
+              context
+            ),
+        }),
+      };
+      session = joined;
+      sessionRef.current = joined;
+      joined.client.setFocus(focusRef.current);
+      joined.client.sendOperations(operations);
+      joined.client.connect();
+    };
+
+    setStatus('connecting');
+    void loadReplicaRegisters(analysisId).then(stored => {
+      if (!cancelled) join(stored);
+    });
+
+    return () => {
+      cancelled = true;
+      if (!session) return;
+      sessionRef.current = null;
+      session.client.close();
+      setPeers([]);
+    };
+  }, [
+    settings.enabled,
+    settings.serverUrl,
+    settings.displayName,
+    loadedAnalysisId,
+    isLocked,
+    clientId,
+    receiveOperations,
+  ]);
+
+  // Send every committed local change
+  useEffect(() => {
+    const session = sessionRef.current;
+    if (!session || session.analysisId !== loadedAnalysisId) return;
+    const changedKeys = HISTORY_KEYS.filter(key => data[key] !== session.synced[key]);
+    if (changedKeys.length === 0) return;
+
+    const pick = (snapshot: HistorySnapshot) =>
+      Object.fromEntries(changedKeys.map(key => [key, snapshot[key]]));
+    const operations = createOperations(pick(session.synced), pick(data), session.clock);
+    session.synced = { ...session.synced, ...pick(data) };
+    if (operations.length === 0) return;
+    applyOperations(session.registers, operations);
+    saveReplicaRegisters(session.analysisId, session.registers);
+    session.client.sendOperations(operations);
+  });
+
+  const setFocus = useCallback((focus: PresenceFocus | null) => {
+    focusRef.current = focus;
+    sessionRef.current?.client.setFocus(focus);
+  }, []);
+
+  const getEditors = useCallback(
+    (entityId: string) => peers.filter(peer => peer.focus?.entityId === entityId),
+    [peers]
+  );
+
+  const value: CollaborationContextType = {
+    settings,
+    status,
+    peers,
+    updateSettings,
+    setFocus,
+    getEditors,
+  };
+
+  return <CollaborationContext.Provider value={value}>{children}</CollaborationContext.Provider>;
+};
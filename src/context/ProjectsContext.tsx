@@ -5,10 +5,23 @@ import React, {
   ReactNode,
   useEffect,
   useContext,
+  useRef,
 } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import { AnalysisSession, AnalysisType, AnalysisFolder } from '@/types/types';
-import { storageManager } from '@/utils/storage-manager';
+import {
+  AnalysisSession,
+  AnalysisType,
+  AnalysisFolder,
+  ValidationRuleSettings,
+} from '@/types/types';
+import { analysisStorage, initializeAnalysisStorage } from '@/utils/analysis-storage';
+import { auditTrail } from '@/utils/audit-trail';
+import {
+  ConcurrentModificationError,
+  ErrorHandler,
+  createErrorContext,
+} from '@/utils/error-handling';
+import { MergeOptions, mergeEntityChanges, tabSync } from '@/utils/tab-sync';
 
 export interface Project {
   id: string;
@@ -18,6 +31,7 @@ export interface Project {
   updatedAt: string;
   analyses: AnalysisSession[];
   folders: AnalysisFolder[];
+  validationRules?: ValidationRuleSettings; // Overrides of the validation rule defaults
 }
 
 interface ProjectsContextState {
@@ -65,50 +79,9 @@ interface ProjectsContextState {
   reorderFolders: (projectId: string, folderIds: string[]) => void;
 }
 
-const PROJECTS_STORAGE_KEY = 'stamp-projects';
 const CURRENT_PROJECT_KEY = 'stamp-current-project';
 const CURRENT_ANALYSIS_KEY = 'stamp-current-analysis';
 
-// Helper to get initial data from localStorage
-const getStoredProjects = (): Project[] => {
-  try {
-    const result = storageManager.loadWithValidation<Project[]>(PROJECTS_STORAGE_KEY);
-
-    if (!result.isValid || !result.data) {
-      // Try fallback to direct localStorage read for backward compatibility
-      const stored = localStorage.getItem(PROJECTS_STORAGE_KEY);
-      if (!stored) {
-        return [];
-      }
-
-      // Parse the stored data
-      let parsedData = JSON.parse(stored);
-
-      // Check if it's wrapped data (has data, checksum, timestamp properties)
-      if (parsedData.data && parsedData.checksum && parsedData.timestamp) {
-        parsedData = parsedData.data;
-      }
-
-      // Ensure it's an array
-      const projects = Array.isArray(parsedData) ? parsedData : [];
-
-      // Migrate projects that don't have folders array
-      return projects.map((project: any) => ({
-        ...project,
-        folders: project.folders || [],
-      }));
-    }
-
-    // Migrate projects that don't have folders array
-    return result.data.map((project: any) => ({
-      ...project,
-      folders: project.folders || [],
-    }));
-  } catch (error) {
-    return [];
-  }
-};
-
 const getStoredCurrentIds = (): { projectId: string | null; analysisId: string | null } => {
   try {
     return {
@@ -120,7 +93,7 @@ const getStoredCurrentIds = (): { projectId: string | null; analysisId: string |
   }
 };
 
-// Check for legacy single analysis and migrate
+// Check for legacy single analysis and migrate; the project is saved with the others
 const migrateLegacyAnalysis = (): Project[] => {
   try {
     const legacyAnalysis = localStorage.getItem('analysisSession');
@@ -139,35 +112,6 @@ const migrateLegacyAnalysis = (): Project[] => {
         folders: [],
       };
 
-      // Save the migrated project using storageManager to ensure consistency
-      const saveResult = storageManager.saveWithValidation(PROJECTS_STORAGE_KEY, [defaultProject]);
-      if (!saveResult.success) {
-        // Fallback to direct save but maintain wrapped format for consistency
-        try {
-          // Calculate checksum manually
-          const dataStr = JSON.stringify([defaultProject]);
-          let hash = 0;
-          for (let i = 0; i < dataStr.length; i++) {
-            const char = dataStr.charCodeAt(i);
-            hash = (hash << 5) - hash + char;
-            hash = hash & hash; // Convert to 32-bit integer
-          }
-          const checksum = Math.abs(hash).toString(36);
-
-          const wrappedData = {
-            data: [defaultProject],
-            checksum: checksum,
-            timestamp: Date.now(),
-          };
-          localStorage.setItem(PROJECTS_STORAGE_KEY, JSON.stringify(wrappedData));
-        } catch (e) {
-          // Failed to save migrated project
-        }
-      }
-
-      localStorage.setItem(CURRENT_PROJECT_KEY, defaultProject.id);
-      localStorage.setItem(CURRENT_ANALYSIS_KEY, analysis.id);
-
       // Remove the legacy storage
       localStorage.removeItem('analysisSession');
 
@@ -204,6 +148,25 @@ const ensureDataConsistency = (projects: Project[]): Project[] => {
   }
 };
 
+// The step each tab shows and the time of the last change are never in conflict
+const PROJECT_MERGE_RESOLVERS: MergeOptions['resolvers'] = {
+  currentStep: local => local,
+  updatedAt: (local, remote) => (String(local) > String(remote) ? local : remote),
+};
+
+interface SyncedProjects {
+  projects: Project[];
+  revision: string | null;
+}
+
+// Everything stored for the analysis goes with it, its audit trail included
+const deleteAnalysisDocument = (analysisId: string) => {
+  auditTrail.deleteAnalysisEvents(analysisId);
+  analysisStorage
+    .deleteAnalysis(analysisId)
+    .catch(error => console.error('Failed to delete analysis data:', error));
+};
+
 const initialState: ProjectsContextState = {
   projects: [],
   currentProjectId: null,
@@ -240,56 +203,134 @@ export const useProjects = () => {
 
 export const ProjectsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [isLoading, setIsLoading] = useState(true);
-
-  // Initialize with migration check
-  const [projects, setProjects] = useState<Project[]>(() => {
-    const stored = getStoredProjects();
-    if (stored.length === 0) {
-      // Check for legacy analysis to migrate
-      const migrated = migrateLegacyAnalysis();
-      return migrated.length > 0 ? ensureDataConsistency(migrated) : [];
-    }
-    return ensureDataConsistency(stored);
-  });
+  const [projects, setProjects] = useState<Project[]>([]);
 
   const { projectId: storedProjectId, analysisId: storedAnalysisId } = getStoredCurrentIds();
   const [currentProjectId, setCurrentProjectId] = useState<string | null>(storedProjectId);
   const [currentAnalysisId, setCurrentAnalysisId] = useState<string | null>(storedAnalysisId);
 
-  // Mark loading as complete after initial state is set
-  useEffect(() => {
-    setIsLoading(false);
-  }, []);
+  // Projects and revision last read from or written to storage, the base when
+  // merging the changes of other tabs
+  const syncedProjectsRef = useRef<SyncedProjects>({ projects: [], revision: null });
+  const projectsRef = useRef<Project[]>([]);
+  // Saves and merges run one at a time, so each save expects the revision of the one before
+  const storageQueueRef = useRef<Promise<void>>(Promise.resolve());
 
-  // Persist to localStorage with validation
+  // Load the projects once data from earlier versions has been migrated
   useEffect(() => {
-    if (projects.length > 0) {
-      const saveResult = storageManager.saveWithValidation(PROJECTS_STORAGE_KEY, projects);
-      if (!saveResult.success) {
-        // Fallback to direct save but maintain wrapped format for consistency
-        try {
-          // Calculate checksum manually since it's a private method
-          const dataStr = JSON.stringify(projects);
-          let hash = 0;
-          for (let i = 0; i < dataStr.length; i++) {
-            const char = dataStr.charCodeAt(i);
-            hash = (hash << 5) - hash + char;
-            hash = hash & hash; // Convert to 32-bit integer
-          }
-          const checksum = Math.abs(hash).toString(36);
-
-          const wrappedData = {
-            data: projects,
-            checksum: checksum,
-            timestamp: Date.now(),
-          };
-          localStorage.setItem(PROJECTS_STORAGE_KEY, JSON.stringify(wrappedData));
-        } catch (e) {
-          // Critical: Failed to save projects data
+    let cancelled = false;
+    initializeAnalysisStorage()
+      .then(async () => {
+        // The revision is read first: should another tab save in between, the
+        // next save fails its revision check and merges instead of overwriting
+        const revision = await analysisStorage.loadProjectsRevision();
+        const stored = await analysisStorage.loadProjects();
+        if (!cancelled) syncedProjectsRef.current = { projects: stored ?? [], revision };
+        return stored;
+      })
+      .then(stored => {
+        if (cancelled) return;
+        if (stored && stored.length > 0) {
+          setProjects(ensureDataConsistency(stored));
+          return;
         }
-      }
+
+        // Check for legacy analysis to migrate
+        const migrated = migrateLegacyAnalysis();
+        if (migrated.length > 0) {
+          setProjects(ensureDataConsistency(migrated));
+          setCurrentProjectId(migrated[0].id);
+          setCurrentAnalysisId(migrated[0].analyses[0].id);
+        }
+      })
+      .catch(error => console.error('Failed to load projects:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const enqueueStorageTask = useCallback((task: () => Promise<void>) => {
+    storageQueueRef.current = storageQueueRef.current
+      .then(task)
+      .catch(error => console.error('Failed to sync projects:', error));
+  }, []);
+
+  // Merges the projects stored by another tab with the changes of this tab. Where
+  // both changed the same value this tab's change is kept and the user can choose
+  // to load the other one instead.
+  const mergeStoredProjects = useCallback(async () => {
+    const revision = await analysisStorage.loadProjectsRevision();
+    if (revision === syncedProjectsRef.current.revision) return;
+    const remote = ensureDataConsistency((await analysisStorage.loadProjects()) ?? []);
+    const base = syncedProjectsRef.current.projects;
+    const local = projectsRef.current;
+
+    const merge = (prefer: MergeOptions['prefer']) =>
+      mergeEntityChanges(base, local, remote, { prefer, resolvers: PROJECT_MERGE_RESOLVERS });
+    const { value: merged, conflicts } = merge('local');
+    syncedProjectsRef.current = { projects: remote, revision };
+    projectsRef.current = merged;
+    setProjects(merged);
+    if (conflicts.length === 0) return;
+
+    const theirs = merge('remote').value;
+    const context = createErrorContext('ProjectsContext', 'mergeStoredProjects', { conflicts });
+    // Changes made since the merge are kept
+    const loadTheirChanges = () =>
+      setProjects(
+        current =>
+          mergeEntityChanges(merged, current, theirs, {
+            prefer: 'remote',
+            resolvers: PROJECT_MERGE_RESOLVERS,
+          }).value
+      );
+    ErrorHandler.handleError(
+      new ConcurrentModificationError('project list', 'projects', context, [
+        { label: 'Keep My Changes', action: () => {}, variant: 'primary' },
+        { label: 'Load Their Changes', action: loadTheirChanges, variant: 'danger' },
+      ]),
+      context
+    );
+  }, []);
+
+  const saveProjects = useCallback(async () => {
+    const synced = syncedProjectsRef.current;
+    const current = projectsRef.current;
+    if (current === synced.projects) return;
+
+    try {
+      const revision = await analysisStorage.saveProjects(current, {
+        expectedRevision: synced.revision,
+      });
+      syncedProjectsRef.current = { projects: current, revision };
+      tabSync.publish({ type: 'projects', revision });
+    } catch (error) {
+      // Another tab saved first; its changes are merged and the result saved next
+      if (!(error instanceof ConcurrentModificationError)) throw error;
+      await mergeStoredProjects();
     }
-  }, [projects]);
+  }, [mergeStoredProjects]);
+
+  // Persist once loaded, so the stored projects are never overwritten by the initial empty list
+  useEffect(() => {
+    projectsRef.current = projects;
+    if (isLoading) return;
+    enqueueStorageTask(saveProjects);
+  }, [projects, isLoading, enqueueStorageTask, saveProjects]);
+
+  // Show the changes other tabs save to the projects
+  useEffect(
+    () =>
+      tabSync.subscribe(message => {
+        if (message.type !== 'projects' || isLoading) return;
+        if (message.revision === syncedProjectsRef.current.revision) return;
+        enqueueStorageTask(mergeStoredProjects);
+      }),
+    [isLoading, enqueueStorageTask, mergeStoredProjects]
+  );
 
   useEffect(() => {
     if (currentProjectId) {
@@ -347,6 +388,9 @@ export const ProjectsProvider: React.FC<{ children: ReactNode }> = ({ children }
   const deleteProject = useCallback(
     (projectId: string) => {
       setProjects(prev => prev.filter(p => p.id !== projectId));
+      projects
+        .find(p => p.id === projectId)
+        ?.analyses.forEach(analysis => deleteAnalysisDocument(analysis.id));
 
       // If deleting current project, clear selection
       if (currentProjectId === projectId) {
@@ -354,7 +398,7 @@ export const ProjectsProvider: React.FC<{ children: ReactNode }> = ({ children }
         setCurrentAnalysisId(null);
       }
     },
-    [currentProjectId]
+    [currentProjectId, projects]
   );
 
   const selectProject = useCallback((projectId: string | null) => {
@@ -439,6 +483,8 @@ export const ProjectsProvider: React.FC<{ children: ReactNode }> = ({ children }
         )
       );
 
+      deleteAnalysisDocument(analysisId);
+
       // If deleting current analysis, clear selection
       if (currentAnalysisId === analysisId) {
         setCurrentAnalysisId(null);
@@ -1,3 +1,8 @@
 export { AnalysisContext, AnalysisProvider, useAnalysisContext } from './AnalysisContext';
 export { ProjectsContext, ProjectsProvider, useProjects } from './ProjectsContext';
 export { NavigationContext, NavigationProvider, useNavigation } from './NavigationContext';
+export {
+  CollaborationContext,
+  CollaborationProvider,
+  useCollaboration,
+} from './CollaborationContext';
@@ -1,6 +1,7 @@
 import React, { useState, useCallback, useEffect, ChangeEvent, Suspense } from 'react';
 import { Button } from '@/components/shared';
 import { Skeleton } from '@/components/ui/skeleton';
+import { DeleteImpactDialog, useEntityDeletion } from '@/features/dependencies';
 import { useAnalysis } from '@/hooks/useAnalysis';
 import { Loss, Hazard, SystemConstraint, AnalysisType } from '@/types/types';
 import { STANDARD_LOSSES } from '@/utils/constants';
@@ -39,11 +40,9 @@ const CastStep2: React.FC = () => {
     setCastStep2SubStep,
     losses,
     addLoss,
-    deleteLoss,
     hazards,
     addHazard,
     updateHazard,
-    deleteHazard,
     systemConstraints,
     addSystemConstraint,
     updateSystemConstraint,
@@ -54,7 +53,10 @@ const CastStep2: React.FC = () => {
     deleteEventDetail,
     reorderEventDetails,
   } = useAnalysis();
+  const { getImpact, cascadeDelete } = useEntityDeletion();
 
+  const [lossToDelete, setLossToDelete] = useState<string | null>(null);
+  const [hazardToDelete, setHazardToDelete] = useState<string | null>(null);
   const [scope, setScope] = useState(analysisSession?.scope || '');
   const [otherLossTitle, setOtherLossTitle] = useState('');
   const [otherLossDesc, setOtherLossDesc] = useState('');
@@ -132,7 +134,13 @@ const CastStep2: React.FC = () => {
           isStandard: true,
         });
       } else if (!isSelected && existing) {
-        deleteLoss(existing.id);
+        // Only asks for confirmation if something else references the loss
+        const impact = getImpact('losses', existing.id);
+        if (impact?.dependents.length) {
+          setLossToDelete(existing.id);
+        } else if (impact) {
+          cascadeDelete(impact);
+        }
       }
     }
   };
@@ -265,7 +273,7 @@ const CastStep2: React.FC = () => {
               setOtherLossTitle={setOtherLossTitle}
               setOtherLossDesc={setOtherLossDesc}
               handleAddOtherLoss={handleAddOtherLoss}
-              deleteLoss={deleteLoss}
+              onDeleteLoss={setLossToDelete}
             />
           </Suspense>
         );
@@ -288,7 +296,7 @@ const CastStep2: React.FC = () => {
               handleSaveHazard={handleSaveHazard}
               resetHazardForm={resetHazardForm}
               editHazard={editHazard}
-              deleteHazard={deleteHazard}
+              onDeleteHazard={setHazardToDelete}
               setParentHazardForSubHazard={setParentHazardForSubHazard}
               setSubHazardDescription={setSubHazardDescription}
               handleAddSubHazard={handleAddSubHazard}
@@ -325,6 +333,16 @@ const CastStep2: React.FC = () => {
       <div className="rounded-xl border border-slate-200 bg-slate-50 p-6 shadow-md sm:p-8 dark:border-slate-700/50 dark:bg-slate-800/50">
         {renderSubStep()}
       </div>
+      <DeleteImpactDialog
+        collection="losses"
+        entityId={lossToDelete}
+        onClose={() => setLossToDelete(null)}
+      />
+      <DeleteImpactDialog
+        collection="hazards"
+        entityId={hazardToDelete}
+        onClose={() => setHazardToDelete(null)}
+      />
       <div className="mt-8 flex items-center justify-between">
         <Button
           onClick={() => setCastStep2SubStep(s => s - 1)}
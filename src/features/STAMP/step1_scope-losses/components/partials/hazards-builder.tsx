@@ -3,6 +3,7 @@ import { Button } from '@/components/shared';
 import { Checkbox } from '@/components/shared';
 import { InfoPopup } from '@/components/shared';
 import { Textarea } from '@/components/shared';
+import { CommentBadge } from '@/features/review';
 import { Hazard, Loss, AnalysisType } from '@/types/types';
 import { hazardInfoContent } from './cast-info';
 import CastStepLayout from './cast-step-layout';
@@ -52,7 +53,7 @@ interface HazardsBuilderProps {
   handleSaveHazard: () => void;
   resetHazardForm: () => void;
   editHazard: (hazard: Hazard) => void;
-  deleteHazard: (id: string) => void;
+  onDeleteHazard: (id: string) => void; // Confirms the deletion with its impact
   setParentHazardForSubHazard: (id: string | null) => void;
   setSubHazardDescription: (description: string) => void;
   handleAddSubHazard: () => void;
@@ -72,7 +73,7 @@ const HazardsBuilder: React.FC<HazardsBuilderProps> = ({
   handleSaveHazard,
   resetHazardForm,
   editHazard,
-  deleteHazard,
+  onDeleteHazard,
 }) => {
   const title = 'Identify Hazards';
   const description = (
@@ -160,6 +161,7 @@ const HazardsBuilder: React.FC<HazardsBuilderProps> = ({
                   <div className="flex-1">
                     <p className="font-semibold text-slate-800 dark:text-slate-100">
                       {h.code}: {h.title}
+                      <CommentBadge collection="hazards" entityId={h.id} className="ml-2" />
                     </p>
                     <p className="text-xs text-slate-500 dark:text-slate-400">
                       Leads to: [
@@ -174,7 +176,7 @@ const HazardsBuilder: React.FC<HazardsBuilderProps> = ({
                       Edit
                     </Button>
                     <Button
-                      onClick={() => deleteHazard(h.id)}
+                      onClick={() => onDeleteHazard(h.id)}
                       size="sm"
                       variant="ghost"
                       className="text-red-500 hover:text-red-700"
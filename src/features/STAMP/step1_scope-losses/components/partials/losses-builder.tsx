@@ -1,6 +1,7 @@
 import React from 'react';
 import { Button } from '@/components/shared';
 import { Checkbox, Input } from '@/components/shared';
+import { CommentBadge } from '@/features/review';
 import { Loss, AnalysisType } from '@/types/types';
 import { STANDARD_LOSSES } from '@/utils/constants';
 import CastStepLayout from './cast-step-layout';
@@ -45,7 +46,7 @@ interface LossesBuilderProps {
   setOtherLossTitle: (title: string) => void;
   setOtherLossDesc: (desc: string) => void;
   handleAddOtherLoss: () => void;
-  deleteLoss: (id: string) => void;
+  onDeleteLoss: (id: string) => void; // Confirms the deletion with its impact
 }
 
 const LossesBuilder: React.FC<LossesBuilderProps> = ({
@@ -59,7 +60,7 @@ const LossesBuilder: React.FC<LossesBuilderProps> = ({
   setOtherLossTitle,
   setOtherLossDesc,
   handleAddOtherLoss,
-  deleteLoss,
+  onDeleteLoss,
 }) => {
   const title = 'Identify the Losses';
   const description =
@@ -110,13 +111,14 @@ const LossesBuilder: React.FC<LossesBuilderProps> = ({
                 <div>
                   <p className="font-medium text-slate-700 dark:text-slate-200">
                     {loss.code}: {loss.title}
+                    <CommentBadge collection="losses" entityId={loss.id} className="ml-2" />
                   </p>
                   <p className="text-sm text-slate-500 dark:text-slate-400">{loss.description}</p>
                 </div>
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={() => deleteLoss(loss.id)}
+                  onClick={() => onDeleteLoss(loss.id)}
                   className="text-red-500 hover:bg-red-100 dark:hover:bg-red-900/50"
                 >
                   <PlaceholderTrashIcon />
@@ -1,5 +1,6 @@
 import React, { useState, useCallback, useEffect } from 'react';
 import { Input, Textarea, Checkbox, Button, Select } from '@/components/shared';
+import { DeleteImpactDialog, useEntityDeletion } from '@/features/dependencies';
 import { useAnalysis } from '@/hooks/useAnalysis';
 import { AnalysisType, Hazard, Loss, SystemConstraint } from '@/types/types';
 import { STANDARD_LOSSES } from '@/utils/constants';
@@ -54,16 +55,17 @@ const SharedLossesHazardsComponent: React.FC<SharedLossesHazardsComponentProps>
     updateAnalysisSession,
     losses,
     addLoss,
-    deleteLoss,
     hazards,
     addHazard,
     updateHazard,
-    deleteHazard,
     systemConstraints,
     addSystemConstraint,
     updateSystemConstraint,
   } = useAnalysis();
+  const { getImpact, cascadeDelete } = useEntityDeletion();
 
+  const [lossToDelete, setLossToDelete] = useState<string | null>(null);
+  const [hazardToDelete, setHazardToDelete] = useState<string | null>(null);
   const [scope, setScope] = useState(analysisSession?.scope || '');
   const [otherLossTitle, setOtherLossTitle] = useState('');
   const [otherLossDesc, setOtherLossDesc] = useState('');
@@ -117,7 +119,13 @@ const SharedLossesHazardsComponent: React.FC<SharedLossesHazardsComponentProps>
           isStandard: true,
         });
       } else if (!isSelected && existing) {
-        deleteLoss(existing.id);
+        // Only asks for confirmation if something else references the loss
+        const impact = getImpact('losses', existing.id);
+        if (impact?.dependents.length) {
+          setLossToDelete(existing.id);
+        } else if (impact) {
+          cascadeDelete(impact);
+        }
       }
     }
     setSelectedLossIdsState(prev =>
@@ -362,7 +370,7 @@ const SharedLossesHazardsComponent: React.FC<SharedLossesHazardsComponentProps>
                   <Button
                     variant="ghost"
                     size="sm"
-                    onClick={() => deleteLoss(loss.id)}
+                    onClick={() => setLossToDelete(loss.id)}
                     className="text-red-500 hover:text-red-700"
                   >
                     <PlaceholderTrashIcon />
@@ -526,7 +534,7 @@ const SharedLossesHazardsComponent: React.FC<SharedLossesHazardsComponentProps>
                         Edit
                       </Button>
                       <Button
-                        onClick={() => deleteHazard(h.id)}
+                        onClick={() => setHazardToDelete(h.id)}
                         size="sm"
                         variant="ghost"
                         className="text-red-500 hover:text-red-700"
@@ -564,7 +572,7 @@ const SharedLossesHazardsComponent: React.FC<SharedLossesHazardsComponentProps>
                               Edit
                             </Button>
                             <Button
-                              onClick={() => deleteHazard(subH.id)}
+                              onClick={() => setHazardToDelete(subH.id)}
                               size="sm"
                               variant="ghost"
                               className="text-red-500 hover:text-red-700"
@@ -682,6 +690,17 @@ const SharedLossesHazardsComponent: React.FC<SharedLossesHazardsComponentProps>
           </p>
         )}
       </div>
+
+      <DeleteImpactDialog
+        collection="losses"
+        entityId={lossToDelete}
+        onClose={() => setLossToDelete(null)}
+      />
+      <DeleteImpactDialog
+        collection="hazards"
+        entityId={hazardToDelete}
+        onClose={() => setHazardToDelete(null)}
+      />
     </div>
   );
 };
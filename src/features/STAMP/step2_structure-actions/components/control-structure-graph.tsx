@@ -1,6 +1,11 @@
-import React, { useCallback, useEffect, useMemo } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import ReactFlow, {
   Background,
+  Connection,
+  ConnectionMode,
+  Edge,
+  Node,
+  NodeDragHandler,
   useNodesState,
   useEdgesState,
   useReactFlow,
@@ -8,12 +13,21 @@ import ReactFlow, {
 } from 'reactflow';
 import 'reactflow/dist/style.css';
 
+import { DeleteImpactDialog } from '@/features/dependencies';
 import { CustomEdge } from '@/features/STAMP/step2_structure-actions/components/graph/custom-edge';
 import { CustomNode } from '@/features/STAMP/step2_structure-actions/components/graph/custom-node';
 import { FailurePathEdge } from '@/features/STAMP/step2_structure-actions/components/graph/failure-path-edge';
 import { TeamMemberNode } from '@/features/STAMP/step2_structure-actions/components/graph/team-member-node'; // Import the new node
 import { useAnalysis } from '@/hooks/useAnalysis';
+import { NodePositions } from '@/types/types';
+import { BASE_NODE_HEIGHT, NODE_WIDTH } from '@/utils/constants';
+import { useDiagramEditor } from '../hooks';
+import { DiagramEdgeKind, DiagramEntityRef, DiagramPaletteItem } from '../types';
+import DiagramLayoutPanel from './diagram-layout-panel';
+import DiagramPalette from './diagram-palette';
+import { DIAGRAM_PALETTE_MIME_TYPE, DiagramEditingContext } from './graph/diagram-editing';
 import { transformAnalysisData } from './graphUtils/dataTransformation';
+import { filterDiagramElements, getDiagramPositions } from './graphUtils/diagramLayouts';
 import { getLayoutedElements } from './graphUtils/layout';
 import VisualizationDock from './visualization-dock';
 
@@ -21,11 +35,29 @@ interface GraphCanvasProps {
   showFailurePaths?: boolean;
 }
 
+// The entity drawn by a node or edge; unset for team members and failure paths
+const getNodeEntity = (node: Node): DiagramEntityRef | null =>
+  node.data?.collection && !node.parentNode
+    ? { collection: node.data.collection, entityId: node.id }
+    : null;
+
+const getEdgeEntity = (edge: Edge): DiagramEntityRef | null =>
+  edge.data?.collection && edge.data.entityId ? edge.data : null;
+
 const GraphCanvas: React.FC<GraphCanvasProps> = ({ showFailurePaths = false }) => {
   const analysisData = useAnalysis();
+  const { isLocked } = analysisData;
+  const [activeLayoutId, setActiveLayoutId] = useState<string | null>(null);
+  const activeLayout =
+    analysisData.diagramLayouts.find(layout => layout.id === activeLayoutId) ?? null;
+  const editor = useDiagramEditor(activeLayout);
   const [nodes, setNodes, onNodesChange] = useNodesState([]);
   const [edges, setEdges, onEdgesChange] = useEdgesState([]);
-  const { fitView } = useReactFlow();
+  const { fitView, screenToFlowPosition } = useReactFlow();
+  const [edgeKind, setEdgeKind] = useState<DiagramEdgeKind>('control');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [pendingDeletion, setPendingDeletion] = useState<DiagramEntityRef | null>(null);
+  const [removedActionIds, setRemovedActionIds] = useState<string[] | null>(null);
 
   const memoizedTransformedData = useMemo(
     () => transformAnalysisData(analysisData, showFailurePaths),
@@ -40,19 +72,62 @@ const GraphCanvas: React.FC<GraphCanvasProps> = ({ showFailurePaths = false }) =
     ]
   );
 
+  const visibleData = useMemo(
+    () => filterDiagramElements(memoizedTransformedData, activeLayout?.filters),
+    [memoizedTransformedData, activeLayout?.filters]
+  );
+
+  const manualPositions = useMemo(
+    () =>
+      getDiagramPositions(
+        { controllers: analysisData.controllers, systemComponents: analysisData.systemComponents },
+        activeLayout
+      ),
+    [analysisData.controllers, analysisData.systemComponents, activeLayout]
+  );
+
+  // Nodes that were dragged keep their position; selection survives edits on the canvas
+  const applyLayout = useCallback(() => {
+    const { nodes: layoutedNodes, edges: layoutedEdges } = getLayoutedElements(
+      visibleData.nodes,
+      visibleData.edges,
+      'TB',
+      manualPositions
+    );
+    setNodes(current =>
+      layoutedNodes.map(node => ({
+        ...node,
+        selected: current.some(n => n.id === node.id && n.selected),
+      }))
+    );
+    setEdges(current =>
+      layoutedEdges.map(edge => ({
+        ...edge,
+        selected: current.some(e => e.id === edge.id && e.selected),
+      }))
+    );
+  }, [visibleData, manualPositions, setNodes, setEdges]);
+
+  useEffect(() => {
+    applyLayout();
+  }, [applyLayout]);
+
+  useEffect(() => {
+    const timeout = window.setTimeout(() => fitView({ duration: 500, padding: 0.1 }), 50);
+    return () => window.clearTimeout(timeout);
+  }, [visibleData.nodes.length, visibleData.edges.length, activeLayoutId, fitView]);
+
+  // Organizing the layout discards the positions nodes were dragged to
   const onLayout = useCallback(() => {
+    if (!isLocked) editor.clearPositions();
     const { nodes: layoutedNodes, edges: layoutedEdges } = getLayoutedElements(
-      memoizedTransformedData.nodes,
-      memoizedTransformedData.edges
+      visibleData.nodes,
+      visibleData.edges
     );
     setNodes(layoutedNodes);
     setEdges(layoutedEdges);
     window.setTimeout(() => fitView({ duration: 500, padding: 0.1 }), 50);
-  }, [memoizedTransformedData, setNodes, setEdges, fitView]);
-
-  useEffect(() => {
-    onLayout();
-  }, [memoizedTransformedData.nodes.length, memoizedTransformedData.edges.length, onLayout]);
+  }, [isLocked, editor, visibleData, setNodes, setEdges, fitView]);
 
   const nodeTypes = useMemo(
     () => ({
@@ -69,20 +144,127 @@ const GraphCanvas: React.FC<GraphCanvasProps> = ({ showFailurePaths = false }) =
     []
   );
 
+  const selectedEntity =
+    nodes.filter(node => node.selected).map(getNodeEntity)[0] ??
+    edges.filter(edge => edge.selected).map(getEdgeEntity)[0] ??
+    null;
+
+  const isValidConnection = (connection: Connection) =>
+    !!connection.source &&
+    !!connection.target &&
+    editor.canConnect(edgeKind, connection.source, connection.target);
+
+  const onConnect = (connection: Connection) => {
+    if (connection.source && connection.target) {
+      const pathId = editor.connect(edgeKind, connection.source, connection.target);
+      // A new control path is labelled with its control actions right away
+      if (pathId) setEditingId(`cp-${pathId}`);
+    }
+  };
+
+  const onNodeDragStop: NodeDragHandler = (_event, _node, draggedNodes) => {
+    editor.moveNodes(
+      draggedNodes.flatMap(node => {
+        const entity = getNodeEntity(node);
+        return entity ? [{ entity, position: node.position }] : [];
+      })
+    );
+  };
+
+  // Where the nodes are shown now, kept by a layout saved from this view
+  const getShownPositions = (): NodePositions =>
+    Object.fromEntries(
+      nodes
+        .filter(node => getNodeEntity(node))
+        .map(node => [node.id, { x: Math.round(node.position.x), y: Math.round(node.position.y) }])
+    );
+
+  const onDragOver = (event: React.DragEvent) => {
+    if (!event.dataTransfer.types.includes(DIAGRAM_PALETTE_MIME_TYPE)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'move';
+  };
+
+  const onDrop = (event: React.DragEvent) => {
+    const data = event.dataTransfer.getData(DIAGRAM_PALETTE_MIME_TYPE);
+    if (!data) return;
+    event.preventDefault();
+    const position = screenToFlowPosition({ x: event.clientX, y: event.clientY });
+    editor.createNode(JSON.parse(data) as DiagramPaletteItem, {
+      x: position.x - NODE_WIDTH / 2,
+      y: position.y - BASE_NODE_HEIGHT / 2,
+    });
+  };
+
+  const onKeyDown = (event: React.KeyboardEvent) => {
+    if ((event.key === 'Delete' || event.key === 'Backspace') && selectedEntity) {
+      setPendingDeletion(selectedEntity);
+    }
+  };
+
+  const editing = {
+    editingId,
+    startEditing: setEditingId,
+    commitLabel: (entity: DiagramEntityRef, label: string) => {
+      const removedIds = editor.relabel(entity, label);
+      if (removedIds.length > 0) setRemovedActionIds(removedIds);
+      setEditingId(null);
+    },
+    cancelEditing: () => setEditingId(null),
+  };
+
   return (
-    <ReactFlow
-      nodes={nodes}
-      edges={edges}
-      nodeTypes={nodeTypes}
-      edgeTypes={edgeTypes}
-      onNodesChange={onNodesChange}
-      onEdgesChange={onEdgesChange}
-      proOptions={{ hideAttribution: true }}
-      fitView
-    >
-      <VisualizationDock onLayout={onLayout} />
-      <Background color="#aaa" gap={16} />
-    </ReactFlow>
+    <DiagramEditingContext.Provider value={isLocked ? null : editing}>
+      <ReactFlow
+        nodes={nodes}
+        edges={edges}
+        nodeTypes={nodeTypes}
+        edgeTypes={edgeTypes}
+        onNodesChange={onNodesChange}
+        onEdgesChange={onEdgesChange}
+        proOptions={{ hideAttribution: true }}
+        fitView
+        deleteKeyCode={null}
+        zoomOnDoubleClick={false}
+        connectionMode={ConnectionMode.Loose}
+        nodesConnectable={!isLocked}
+        isValidConnection={isValidConnection}
+        onConnect={onConnect}
+        onNodeDragStop={isLocked ? undefined : onNodeDragStop}
+        onNodeDoubleClick={(_event, node) => getNodeEntity(node) && setEditingId(node.id)}
+        onEdgeDoubleClick={(_event, edge) => getEdgeEntity(edge) && setEditingId(edge.id)}
+        onDragOver={isLocked ? undefined : onDragOver}
+        onDrop={isLocked ? undefined : onDrop}
+        onKeyDown={isLocked ? undefined : onKeyDown}
+      >
+        {!isLocked && (
+          <DiagramPalette
+            edgeKind={edgeKind}
+            onEdgeKindChange={setEdgeKind}
+            onDelete={() => setPendingDeletion(selectedEntity)}
+            canDelete={!!selectedEntity}
+          />
+        )}
+        <DiagramLayoutPanel
+          activeLayoutId={activeLayout?.id ?? null}
+          onActiveLayoutChange={setActiveLayoutId}
+          getPositions={getShownPositions}
+        />
+        <VisualizationDock onLayout={onLayout} />
+        <Background color="#aaa" gap={16} />
+      </ReactFlow>
+
+      <DeleteImpactDialog
+        collection={pendingDeletion?.collection ?? 'controllers'}
+        entityId={pendingDeletion?.entityId ?? null}
+        onClose={() => setPendingDeletion(null)}
+      />
+      <DeleteImpactDialog
+        collection="controlActions"
+        entityId={removedActionIds}
+        onClose={() => setRemovedActionIds(null)}
+      />
+    </DiagramEditingContext.Provider>
   );
 };
 
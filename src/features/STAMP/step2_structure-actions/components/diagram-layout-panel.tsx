@@ -0,0 +1,182 @@
+import { TrashIcon } from '@heroicons/react/24/outline';
+import React, { useState } from 'react';
+import { Panel } from 'reactflow';
+import { v4 as uuidv4 } from 'uuid';
+import { useAnalysis } from '@/hooks/useAnalysis';
+import { DiagramLayoutFilters, NodePositions } from '@/types/types';
+
+interface DiagramLayoutPanelProps {
+  activeLayoutId: string | null; // Null for the default layout
+  onActiveLayoutChange: (layoutId: string | null) => void;
+  getPositions: () => NodePositions; // Where the nodes are shown now
+}
+
+const EMPTY_FILTERS: DiagramLayoutFilters = { hiddenNodeIds: [] };
+
+/**
+ * Picks the layout of the diagram, saves the current arrangement as a named layout
+ * and chooses what a named layout shows
+ */
+const DiagramLayoutPanel: React.FC<DiagramLayoutPanelProps> = ({
+  activeLayoutId,
+  onActiveLayoutChange,
+  getPositions,
+}) => {
+  const {
+    diagramLayouts,
+    controllers,
+    systemComponents,
+    isLocked,
+    addDiagramLayout,
+    updateDiagramLayout,
+    deleteDiagramLayout,
+  } = useAnalysis();
+  const [newName, setNewName] = useState<string | null>(null); // Set while naming a layout
+
+  const activeLayout = diagramLayouts.find(layout => layout.id === activeLayoutId) ?? null;
+  const filters = activeLayout?.filters ?? EMPTY_FILTERS;
+
+  const handleSave = () => {
+    const name = newName?.trim();
+    if (!name) return;
+    const id = uuidv4();
+    addDiagramLayout({ id, name, positions: getPositions(), filters });
+    onActiveLayoutChange(id);
+    setNewName(null);
+  };
+
+  const handleDelete = () => {
+    if (!activeLayout) return;
+    deleteDiagramLayout(activeLayout.id);
+    onActiveLayoutChange(null);
+  };
+
+  const updateFilters = (changes: Partial<DiagramLayoutFilters>) => {
+    if (activeLayout) {
+      updateDiagramLayout(activeLayout.id, { filters: { ...filters, ...changes } });
+    }
+  };
+
+  const toggleNode = (nodeId: string, visible: boolean) =>
+    updateFilters({
+      hiddenNodeIds: visible
+        ? filters.hiddenNodeIds.filter(id => id !== nodeId)
+        : [...filters.hiddenNodeIds, nodeId],
+    });
+
+  const nodes = [
+    ...controllers.map(c => ({ id: c.id, name: c.name })),
+    ...systemComponents.map(sc => ({ id: sc.id, name: sc.name })),
+  ];
+
+  return (
+    <Panel
+      position="top-right"
+      className="w-56 space-y-2 rounded-lg border border-slate-200 bg-white/90 p-3 text-xs shadow-sm dark:border-slate-700 dark:bg-slate-800/90"
+    >
+      <label
+        htmlFor="diagram-layout"
+        className="block font-semibold text-slate-700 dark:text-slate-200"
+      >
+        Layout
+      </label>
+      <div className="flex items-center gap-1">
+        <select
+          id="diagram-layout"
+          value={activeLayoutId ?? ''}
+          onChange={event => onActiveLayoutChange(event.target.value || null)}
+          className="min-w-0 flex-1 rounded border border-slate-300 bg-white px-1.5 py-1 dark:border-slate-600 dark:bg-slate-900"
+        >
+          <option value="">Default</option>
+          {diagramLayouts.map(layout => (
+            <option key={layout.id} value={layout.id}>
+              {layout.name}
+            </option>
+          ))}
+        </select>
+        {activeLayout && !isLocked && (
+          <button
+            type="button"
+            onClick={handleDelete}
+            title={`Delete layout "${activeLayout.name}"`}
+            aria-label={`Delete layout "${activeLayout.name}"`}
+            className="rounded p-1 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20"
+          >
+            <TrashIcon className="h-3.5 w-3.5" />
+          </button>
+        )}
+      </div>
+
+      {!isLocked &&
+        (newName === null ? (
+          <button
+            type="button"
+            onClick={() => setNewName('')}
+            className="text-sky-700 hover:underline dark:text-sky-300"
+          >
+            Save as new layout…
+          </button>
+        ) : (
+          <div className="flex items-center gap-1">
+            <input
+              autoFocus
+              value={newName}
+              onChange={event => setNewName(event.target.value)}
+              onKeyDown={event => {
+                if (event.key === 'Enter') handleSave();
+                if (event.key === 'Escape') setNewName(null);
+              }}
+              placeholder="e.g. Cockpit only"
+              className="min-w-0 flex-1 rounded border border-slate-300 bg-white px-1.5 py-1 dark:border-slate-600 dark:bg-slate-900"
+            />
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={!newName.trim()}
+              className="rounded bg-sky-600 px-2 py-1 text-white hover:bg-sky-700 disabled:opacity-40"
+            >
+              Save
+            </button>
+          </div>
+        ))}
+
+      {activeLayout && (
+        <details className="pt-1">
+          <summary className="cursor-pointer font-semibold text-slate-700 dark:text-slate-200">
+            Shown in this layout
+          </summary>
+          <fieldset disabled={isLocked} className="mt-1.5 max-h-48 space-y-1 overflow-y-auto">
+            <label className="flex items-center gap-1.5">
+              <input
+                type="checkbox"
+                checked={!filters.hideFeedbackPaths}
+                onChange={event => updateFilters({ hideFeedbackPaths: !event.target.checked })}
+              />
+              Feedback paths
+            </label>
+            <label className="flex items-center gap-1.5">
+              <input
+                type="checkbox"
+                checked={!filters.hideCommunicationPaths}
+                onChange={event => updateFilters({ hideCommunicationPaths: !event.target.checked })}
+              />
+              Communication paths
+            </label>
+            {nodes.map(node => (
+              <label key={node.id} className="flex items-center gap-1.5">
+                <input
+                  type="checkbox"
+                  checked={!filters.hiddenNodeIds.includes(node.id)}
+                  onChange={event => toggleNode(node.id, event.target.checked)}
+                />
+                <span className="truncate">{node.name}</span>
+              </label>
+            ))}
+          </fieldset>
+        </details>
+      )}
+    </Panel>
+  );
+};
+
+export default DiagramLayoutPanel;
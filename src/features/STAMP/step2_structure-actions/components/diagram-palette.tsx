@@ -0,0 +1,110 @@
+import { TrashIcon } from '@heroicons/react/24/outline';
+import React from 'react';
+import { Panel } from 'reactflow';
+import { ComponentType, ControllerType } from '@/types/types';
+import { CONTROLLER_NODE_STYLE } from '@/utils/constants';
+import { DiagramEdgeKind, DiagramPaletteItem } from '../types';
+import { DIAGRAM_PALETTE_MIME_TYPE } from './graph/diagram-editing';
+
+interface DiagramPaletteProps {
+  edgeKind: DiagramEdgeKind;
+  onEdgeKindChange: (kind: DiagramEdgeKind) => void;
+  onDelete: () => void;
+  canDelete: boolean; // Something is selected
+}
+
+const PALETTE_ITEMS: { label: string; item: DiagramPaletteItem; style: React.CSSProperties }[] = [
+  ...[
+    { label: 'Software', ctrlType: ControllerType.Software },
+    { label: 'Human', ctrlType: ControllerType.Human },
+    { label: 'Team', ctrlType: ControllerType.Team },
+    { label: 'Organisation', ctrlType: ControllerType.Organisation },
+  ].map(({ label, ctrlType }) => ({
+    label,
+    item: { collection: 'controllers' as const, ctrlType },
+    style: CONTROLLER_NODE_STYLE[ctrlType],
+  })),
+  ...[ComponentType.Physical, ComponentType.Process].map(componentType => ({
+    label: componentType,
+    item: { collection: 'systemComponents' as const, componentType },
+    style: { backgroundColor: '#fff', color: '#000', border: '1px solid #333' },
+  })),
+];
+
+const EDGE_KINDS: { kind: DiagramEdgeKind; label: string; color: string }[] = [
+  { kind: 'control', label: 'Control', color: '#3b82f6' },
+  { kind: 'feedback', label: 'Feedback', color: '#ef4444' },
+  { kind: 'communication', label: 'Communication', color: '#888' },
+];
+
+/**
+ * Controllers and components to drag onto the diagram, and the kind of edge drawn
+ * by connecting two nodes
+ */
+const DiagramPalette: React.FC<DiagramPaletteProps> = ({
+  edgeKind,
+  onEdgeKindChange,
+  onDelete,
+  canDelete,
+}) => (
+  <Panel
+    position="top-left"
+    className="w-44 space-y-3 rounded-lg border border-slate-200 bg-white/90 p-3 text-xs shadow-sm dark:border-slate-700 dark:bg-slate-800/90"
+  >
+    <div>
+      <p className="mb-1.5 font-semibold text-slate-700 dark:text-slate-200">Drag to add</p>
+      <div className="grid grid-cols-2 gap-1.5">
+        {PALETTE_ITEMS.map(({ label, item, style }) => (
+          <div
+            key={label}
+            draggable
+            onDragStart={event => {
+              event.dataTransfer.setData(DIAGRAM_PALETTE_MIME_TYPE, JSON.stringify(item));
+              event.dataTransfer.effectAllowed = 'move';
+            }}
+            style={style}
+            className="cursor-grab rounded px-1.5 py-1 text-center"
+            title={item.collection === 'controllers' ? `${label} controller` : `${label} component`}
+          >
+            {label}
+          </div>
+        ))}
+      </div>
+    </div>
+
+    <div>
+      <p className="mb-1.5 font-semibold text-slate-700 dark:text-slate-200">Connect as</p>
+      <div className="space-y-1">
+        {EDGE_KINDS.map(({ kind, label, color }) => (
+          <button
+            key={kind}
+            type="button"
+            onClick={() => onEdgeKindChange(kind)}
+            aria-pressed={edgeKind === kind}
+            className={`flex w-full items-center gap-2 rounded px-1.5 py-1 text-left ${
+              edgeKind === kind
+                ? 'bg-sky-100 text-sky-800 dark:bg-sky-900/40 dark:text-sky-200'
+                : 'text-slate-600 hover:bg-slate-100 dark:text-slate-300 dark:hover:bg-slate-700'
+            }`}
+          >
+            <span className="h-0.5 w-4" style={{ backgroundColor: color }} />
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+
+    <button
+      type="button"
+      onClick={onDelete}
+      disabled={!canDelete}
+      className="flex w-full items-center justify-center gap-1 rounded px-1.5 py-1 text-red-600 hover:bg-red-50 disabled:cursor-not-allowed disabled:opacity-40 dark:hover:bg-red-900/20"
+    >
+      <TrashIcon className="h-3.5 w-3.5" />
+      Delete selected
+    </button>
+    <p className="text-slate-500 dark:text-slate-400">Double-click a label to rename it.</p>
+  </Panel>
+);
+
+export default DiagramPalette;
@@ -1,6 +1,9 @@
 import React from 'react';
 import { EdgeProps, getBezierPath, EdgeLabelRenderer, BaseEdge, Position } from 'reactflow';
 import { ACTUATOR_SENSOR_BOX_SIZE } from '@/utils/constants';
+import { DiagramEntityRef } from '../../types';
+import { useDiagramEditing } from './diagram-editing';
+import { InlineLabel } from './inline-label';
 
 const getBoxTransform = (side: Position): string => {
   switch (side) {
@@ -17,7 +20,7 @@ const getBoxTransform = (side: Position): string => {
   }
 };
 
-export const CustomEdge: React.FC<EdgeProps> = ({
+export const CustomEdge: React.FC<EdgeProps<DiagramEntityRef>> = ({
   id,
   sourceX,
   sourceY,
@@ -28,7 +31,9 @@ export const CustomEdge: React.FC<EdgeProps> = ({
   style = {},
   markerEnd,
   label,
+  data,
 }) => {
+  const isEditing = useDiagramEditing()?.editingId === id;
   const [edgePath, labelX, labelY] = getBezierPath({
     sourceX,
     sourceY,
@@ -52,11 +57,11 @@ export const CustomEdge: React.FC<EdgeProps> = ({
           style={{
             position: 'absolute',
             transform: `translate(-50%, -50%) translate(${labelX}px, ${labelY}px)`,
-            pointerEvents: 'none',
+            pointerEvents: isEditing ? 'all' : 'none',
           }}
           className="nodrag nopan"
         >
-          {label && (
+          {(label || isEditing) && (
             <div
               style={{
                 background: 'rgba(255, 255, 255, 0.9)',
@@ -67,7 +72,7 @@ export const CustomEdge: React.FC<EdgeProps> = ({
                 border: '0.5px solid #bbb',
               }}
             >
-              {label}
+              <InlineLabel elementId={id} entity={data} label={String(label ?? '')} />
             </div>
           )}
         </div>
@@ -1,9 +1,15 @@
 import React from 'react';
 import { Handle, Position, NodeProps } from 'reactflow';
+import { PresenceBadge } from '@/features/collaboration';
+import { CommentBadge } from '@/features/review';
 import { NODE_WIDTH, CHILD_NODE_SPACING } from '@/utils/constants';
+import { useDiagramEditing } from './diagram-editing';
+import { InlineLabel } from './inline-label';
+import { StructureFindingBadge } from './structure-finding-badge';
 
 interface CustomNodeData {
   label: string;
+  collection?: 'controllers' | 'systemComponents'; // Collection of the node's entity
   role?: string;
   rank?: string;
   commCount: number;
@@ -14,11 +20,13 @@ interface CustomNodeData {
   parentWidths?: number[];
 }
 
-export const CustomNode: React.FC<NodeProps<CustomNodeData>> = ({ data }) => {
+export const CustomNode: React.FC<NodeProps<CustomNodeData>> = ({ id, data }) => {
+  const editing = useDiagramEditing();
+  // Handles are shown where edges can be drawn
   const handleStyle = {
     width: '8px',
     height: '8px',
-    background: 'transparent',
+    background: editing ? 'rgba(100, 116, 139, 0.6)' : 'transparent',
     border: 'none',
     zIndex: 10,
   };
@@ -218,7 +226,18 @@ export const CustomNode: React.FC<NodeProps<CustomNodeData>> = ({ data }) => {
         : renderStaticHandles()}
 
       <div style={{ padding: '5px', textAlign: 'center' }}>
-        <div style={{ fontWeight: 'bold' }}>{data.label}</div>
+        <div style={{ fontWeight: 'bold' }}>
+          <PresenceBadge entityId={id} className="mr-1" />
+          <InlineLabel
+            elementId={id}
+            entity={data.collection && { collection: data.collection, entityId: id }}
+            label={data.label}
+          />
+          {data.collection && (
+            <CommentBadge collection={data.collection} entityId={id} className="ml-1" />
+          )}
+          <StructureFindingBadge entityId={id} className="ml-1" />
+        </div>
       </div>
     </>
   );
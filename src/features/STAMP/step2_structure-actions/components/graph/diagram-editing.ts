@@ -0,0 +1,19 @@
+import { createContext, useContext } from 'react';
+import { DiagramEntityRef } from '../../types';
+
+interface DiagramEditing {
+  editingId: string | null; // The node or edge whose label is being edited
+  startEditing: (elementId: string) => void;
+  commitLabel: (entity: DiagramEntityRef, label: string) => void;
+  cancelEditing: () => void;
+}
+
+export const DiagramEditingContext = createContext<DiagramEditing | null>(null);
+
+/**
+ * Label editing of the diagram; null where the diagram is read-only
+ */
+export const useDiagramEditing = () => useContext(DiagramEditingContext);
+
+// Drag data of items dragged from the palette onto the diagram
+export const DIAGRAM_PALETTE_MIME_TYPE = 'application/x-stamp-diagram-item';
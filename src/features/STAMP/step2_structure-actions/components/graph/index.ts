@@ -2,4 +2,7 @@
 
 export * from './custom-edge';
 export * from './custom-node';
+export * from './diagram-editing';
+export * from './inline-label';
+export * from './structure-finding-badge';
 export * from './team-member-node';
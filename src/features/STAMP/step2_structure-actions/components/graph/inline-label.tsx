@@ -0,0 +1,50 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DiagramEntityRef } from '../../types';
+import { useDiagramEditing } from './diagram-editing';
+
+interface InlineLabelProps {
+  elementId: string; // The node or edge showing the label
+  entity?: DiagramEntityRef; // Unset for labels that can't be edited
+  label: string;
+}
+
+/**
+ * Label of a node or edge that turns into a text field while it is being edited.
+ * Enter or leaving the field saves it, Escape cancels.
+ */
+export const InlineLabel: React.FC<InlineLabelProps> = ({ elementId, entity, label }) => {
+  const editing = useDiagramEditing();
+  const [text, setText] = useState(label);
+  const cancelledRef = useRef(false);
+  const isEditing = !!editing && !!entity && editing.editingId === elementId;
+
+  useEffect(() => {
+    if (!isEditing) return;
+    setText(label);
+    cancelledRef.current = false;
+  }, [isEditing, label]);
+
+  if (!isEditing) return <>{label}</>;
+
+  return (
+    <input
+      autoFocus
+      value={text}
+      onChange={event => setText(event.target.value)}
+      onFocus={event => event.target.select()}
+      onBlur={() => {
+        if (cancelledRef.current) return;
+        editing.commitLabel(entity, text);
+      }}
+      onKeyDown={event => {
+        event.stopPropagation();
+        if (event.key === 'Enter') event.currentTarget.blur();
+        if (event.key === 'Escape') {
+          cancelledRef.current = true;
+          editing.cancelEditing();
+        }
+      }}
+      className="nodrag nopan w-full min-w-24 rounded border border-sky-500 bg-white px-1 text-center text-xs text-black"
+    />
+  );
+};
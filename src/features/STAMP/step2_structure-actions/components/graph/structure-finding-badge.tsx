@@ -0,0 +1,38 @@
+import { ExclamationTriangleIcon } from '@heroicons/react/24/solid';
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { useEntityStructureFindings } from '../../hooks';
+
+interface StructureFindingBadgeProps {
+  entityId: string;
+  className?: string;
+}
+
+/**
+ * Warns about well-formedness findings on a node of the control structure
+ */
+export const StructureFindingBadge: React.FC<StructureFindingBadgeProps> = ({
+  entityId,
+  className,
+}) => {
+  const findings = useEntityStructureFindings(entityId);
+  if (findings.length === 0) return null;
+
+  const hasError = findings.some(finding => finding.severity === 'error');
+  const title = findings.map(finding => finding.message).join('\n');
+
+  return (
+    <span
+      title={title}
+      aria-label={title}
+      className={cn(
+        'inline-flex items-center gap-0.5 align-middle text-xs font-medium',
+        hasError ? 'text-red-600 dark:text-red-400' : 'text-amber-600 dark:text-amber-400',
+        className
+      )}
+    >
+      <ExclamationTriangleIcon className="h-3.5 w-3.5" />
+      {findings.length > 1 && findings.length}
+    </span>
+  );
+};
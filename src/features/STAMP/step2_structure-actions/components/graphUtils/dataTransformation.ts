@@ -18,6 +18,17 @@ export interface TransformedData {
   edges: Edge[];
 }
 
+type GraphSourceData = Pick<
+  ReturnType<typeof useAnalysis>,
+  | 'controllers'
+  | 'systemComponents'
+  | 'controlPaths'
+  | 'feedbackPaths'
+  | 'communicationPaths'
+  | 'activeContexts'
+> &
+  Partial<Pick<ReturnType<typeof useAnalysis>, 'failurePaths'>>;
+
 /**
  * Transforms the analysis data from the context into nodes and edges
  * that can be rendered by React Flow.
@@ -27,7 +38,7 @@ export interface TransformedData {
  * considers the active context to display the correct roles for team members.
  */
 export const transformAnalysisData = (
-  analysisData: ReturnType<typeof useAnalysis>,
+  analysisData: GraphSourceData,
   showFailurePaths: boolean = false
 ): TransformedData => {
   const {
@@ -235,7 +246,7 @@ export const transformAnalysisData = (
       nodes.push({
         id: controller.id,
         type: 'custom',
-        data: { label: controller.name },
+        data: { label: controller.name, collection: 'controllers' },
         position: { x: 0, y: 0 },
         style: {
           ...CONTROLLER_NODE_STYLE[controller.ctrlType],
@@ -269,6 +280,7 @@ export const transformAnalysisData = (
         position: { x: 0, y: 0 },
         data: {
           label: controller.name,
+          collection: 'controllers',
           children: children,
           grandchildren: directGrandchildren,
           parents: parents,
@@ -308,6 +320,7 @@ export const transformAnalysisData = (
       position: { x: 0, y: 0 },
       data: {
         label: component.name,
+        collection: 'systemComponents',
         parents: parents,
         parentWidths: parentWidths,
         width: componentWidth,
@@ -387,6 +400,7 @@ export const transformAnalysisData = (
       style: { stroke: '#3b82f6', strokeWidth: '2px' }, // Blue with thicker line
       sourceHandle,
       targetHandle,
+      data: { collection: 'controlPaths', entityId: path.id },
     });
   });
 
@@ -436,6 +450,7 @@ export const transformAnalysisData = (
       animated: !path.isMissing,
       sourceHandle,
       targetHandle,
+      data: { collection: 'feedbackPaths', entityId: path.id },
     });
   });
 
@@ -447,6 +462,7 @@ export const transformAnalysisData = (
       type: 'custom',
       label: path.description,
       style: { stroke: '#888', strokeDasharray: '5 5' },
+      data: { collection: 'communicationPaths', entityId: path.id },
     });
   });
 
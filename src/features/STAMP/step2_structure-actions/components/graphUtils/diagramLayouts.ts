@@ -0,0 +1,50 @@
+import { AnalysisData, DiagramLayout, DiagramLayoutFilters, NodePositions } from '@/types/types';
+import { TransformedData } from './dataTransformation';
+
+type PositionSourceData = Pick<AnalysisData, 'controllers' | 'systemComponents'>;
+
+/**
+ * Positions of the default layout: where nodes were dragged to, stored on the
+ * controllers and components themselves
+ */
+export const getDefaultPositions = ({
+  controllers,
+  systemComponents,
+}: PositionSourceData): NodePositions =>
+  Object.fromEntries(
+    [...controllers, ...systemComponents]
+      .filter(entity => entity.x !== undefined && entity.y !== undefined)
+      .map(entity => [entity.id, { x: entity.x!, y: entity.y! }])
+  );
+
+/**
+ * The positions nodes keep in a layout; the default layout when none is given
+ */
+export const getDiagramPositions = (
+  data: PositionSourceData,
+  layout?: DiagramLayout | null
+): NodePositions => (layout ? layout.positions : getDefaultPositions(data));
+
+/**
+ * Leaves out what a layout's filters hide, along with the members of hidden teams
+ * and the edges of hidden nodes
+ */
+export const filterDiagramElements = (
+  { nodes, edges }: TransformedData,
+  filters?: DiagramLayoutFilters
+): TransformedData => {
+  if (!filters) return { nodes, edges };
+
+  const hidden = new Set(filters.hiddenNodeIds);
+  const visibleNodes = nodes.filter(
+    node => !hidden.has(node.id) && !(node.parentNode && hidden.has(node.parentNode))
+  );
+  const visibleEdges = edges.filter(
+    edge =>
+      !hidden.has(edge.source) &&
+      !hidden.has(edge.target) &&
+      !(filters.hideFeedbackPaths && edge.data?.collection === 'feedbackPaths') &&
+      !(filters.hideCommunicationPaths && edge.data?.collection === 'communicationPaths')
+  );
+  return { nodes: visibleNodes, edges: visibleEdges };
+};
@@ -1,4 +1,5 @@
 // Barrel export for graph utilities
 
 export * from './dataTransformation';
+export * from './diagramLayouts';
 export * from './layout';
@@ -1,8 +1,18 @@
 import dagre from 'dagre';
 import { Node, Edge } from 'reactflow';
+import { NodePositions } from '@/types/types';
 import { NODE_WIDTH, BASE_NODE_HEIGHT, CHILD_NODE_SPACING } from '@/utils/constants';
 
-export const getLayoutedElements = (nodes: Node[], edges: Edge[], direction = 'TB') => {
+/**
+ * Arranges the nodes top to bottom along the control paths. Nodes with a manual
+ * position keep it, so an arrangement survives nodes and edges being added.
+ */
+export const getLayoutedElements = (
+  nodes: Node[],
+  edges: Edge[],
+  direction = 'TB',
+  manualPositions: NodePositions = {}
+) => {
   const dagreGraph = new dagre.graphlib.Graph({ compound: true });
   dagreGraph.setDefaultEdgeLabel(() => ({}));
   dagreGraph.setGraph({
@@ -234,5 +244,12 @@ export const getLayoutedElements = (nodes: Node[], edges: Edge[], direction = 'T
     }
   });
 
+  // Final pass: nodes arranged by hand go back where they were put. Team members
+  // are positioned relative to their team, so they move with it.
+  nodes.forEach(node => {
+    const position = manualPositions[node.id];
+    if (position && !node.parentNode) node.position = { ...position };
+  });
+
   return { nodes, edges };
 };
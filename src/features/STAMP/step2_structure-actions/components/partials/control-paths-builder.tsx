@@ -4,35 +4,30 @@ import { v4 as uuidv4 } from 'uuid';
 import { Button } from '@/components/shared';
 import { Input } from '@/components/shared';
 import { Select } from '@/components/shared';
+import { DeleteImpactDialog } from '@/features/dependencies';
 import { useAnalysis } from '@/hooks/useAnalysis';
-import { ControlPath, ControlAction } from '@/types/types';
-
-interface ActionFormData {
-  verb: string;
-  object: string;
-}
+import { ControlPath } from '@/types/types';
+import {
+  ControlActionDraft,
+  formatControlActions,
+  parseControlActions,
+  useControlPathActions,
+} from '../../hooks';
 
 const ControlPathsBuilder: React.FC = () => {
-  const {
-    controllers,
-    systemComponents,
-    controlPaths,
-    addControlPath,
-    updateControlPath,
-    deleteControlPath,
-    controlActions,
-    addControlAction,
-    updateControlAction,
-    deleteControlAction,
-  } = useAnalysis();
+  const { controllers, systemComponents, controlPaths, addControlPath, updateControlPath } =
+    useAnalysis();
+  const { getPathActions, writeControlActions } = useControlPathActions();
 
   const [cpSourceCtrlId, setCpSourceCtrlId] = useState('');
   const [cpTargetId, setCpTargetId] = useState('');
   const [editingCpId, setEditingCpId] = useState<string | null>(null);
-  const [controlActionsList, setControlActionsList] = useState<ActionFormData[]>([
+  const [controlActionsList, setControlActionsList] = useState<ControlActionDraft[]>([
     { verb: '', object: '' },
   ]);
   const [expandedPaths, setExpandedPaths] = useState<Set<string>>(new Set());
+  const [pathToDelete, setPathToDelete] = useState<string | null>(null);
+  const [actionToDelete, setActionToDelete] = useState<string | string[] | null>(null);
 
   const controllerOptions = (controllers || []).map(c => ({ value: c.id, label: c.name }));
   const componentOptions = (systemComponents || []).map(sc => ({ value: sc.id, label: sc.name }));
@@ -80,68 +75,30 @@ const ControlPathsBuilder: React.FC = () => {
       return;
     }
 
-    const newCpId = editingCpId || uuidv4();
-    const actionIds: string[] = [];
-
+    const controls = formatControlActions(validActions);
     if (editingCpId) {
-      // Update existing path
-      const existingPath = (controlPaths || []).find(p => p.id === editingCpId);
-      if (existingPath) {
-        // Delete old control actions
-        const oldActions = (controlActions || []).filter(a => a.controlPathId === editingCpId);
-        oldActions.forEach(a => deleteControlAction(a.id));
-
-        // Update path with legacy controls field for backward compatibility
-        const controlsString = validActions.map(a => `${a.verb} ${a.object}`).join('; ');
-        updateControlPath(editingCpId, {
-          sourceControllerId: cpSourceCtrlId,
-          targetId: cpTargetId,
-          controls: controlsString,
-          controlActionIds: actionIds,
-        });
-
-        // Add new control actions
-        validActions.forEach(action => {
-          const actionId = uuidv4();
-          actionIds.push(actionId);
-          addControlAction({
-            id: actionId,
-            controllerId: cpSourceCtrlId,
-            controlPathId: editingCpId,
-            verb: action.verb,
-            object: action.object,
-            description: `${action.verb} ${action.object}`,
-            isOutOfScope: false,
-          });
-        });
-
-        // Update path with action IDs
-        updateControlPath(editingCpId, { controlActionIds: actionIds });
-      }
-    } else {
-      // Create new path
-      // Add control actions first to get their IDs
-      validActions.forEach(action => {
-        const actionId = uuidv4();
-        actionIds.push(actionId);
-        addControlAction({
-          id: actionId,
-          controllerId: cpSourceCtrlId,
-          controlPathId: newCpId,
-          verb: action.verb,
-          object: action.object,
-          description: `${action.verb} ${action.object}`,
-          isOutOfScope: false,
-        });
+      const { actionIds, removedIds } = writeControlActions(
+        editingCpId,
+        cpSourceCtrlId,
+        validActions
+      );
+      // Removed actions stay linked until deleted through the impact dialog
+      updateControlPath(editingCpId, {
+        sourceControllerId: cpSourceCtrlId,
+        targetId: cpTargetId,
+        controls,
+        controlActionIds: [...actionIds, ...removedIds],
       });
-
-      // Create path with legacy controls field for backward compatibility
-      const controlsString = validActions.map(a => `${a.verb} ${a.object}`).join('; ');
+      if (removedIds.length > 0) setActionToDelete(removedIds);
+    } else {
+      const id = uuidv4();
+      const { actionIds } = writeControlActions(id, cpSourceCtrlId, validActions);
+      // The legacy controls field is kept for backward compatibility
       addControlPath({
-        id: newCpId,
+        id,
         sourceControllerId: cpSourceCtrlId,
         targetId: cpTargetId,
-        controls: controlsString,
+        controls,
         controlActionIds: actionIds,
       });
     }
@@ -161,26 +118,18 @@ const ControlPathsBuilder: React.FC = () => {
     setCpTargetId(cp.targetId);
 
     // Load associated control actions
-    const relatedActions = (controlActions || []).filter(ca => ca.controlPathId === cp.id);
+    const relatedActions = getPathActions(cp.id);
     if (relatedActions.length > 0) {
-      setControlActionsList(relatedActions.map(ra => ({ verb: ra.verb, object: ra.object })));
+      setControlActionsList(
+        relatedActions.map(ra => ({ id: ra.id, verb: ra.verb, object: ra.object }))
+      );
     } else {
       // Fallback to parsing the legacy controls field
-      const controlsArray = cp.controls ? cp.controls.split(';').map(c => c.trim()) : [];
-      const actions = controlsArray.map(control => {
-        const parts = control.split(' ');
-        return { verb: parts[0] || '', object: parts.slice(1).join(' ') || '' };
-      });
+      const actions = parseControlActions(cp.controls ?? '');
       setControlActionsList(actions.length > 0 ? actions : [{ verb: '', object: '' }]);
     }
   };
 
-  const handleDeleteControlPath = (pathId: string) => {
-    const actionsToDelete = (controlActions || []).filter(ca => ca.controlPathId === pathId);
-    actionsToDelete.forEach(ca => deleteControlAction(ca.id));
-    deleteControlPath(pathId);
-  };
-
   const togglePathExpansion = (pathId: string) => {
     const newExpanded = new Set(expandedPaths);
     if (newExpanded.has(pathId)) {
@@ -191,10 +140,6 @@ const ControlPathsBuilder: React.FC = () => {
     setExpandedPaths(newExpanded);
   };
 
-  const getPathControlActions = (pathId: string): ControlAction[] => {
-    return (controlActions || []).filter(ca => ca.controlPathId === pathId);
-  };
-
   return (
     <section className="space-y-6">
       <div>
@@ -283,7 +228,7 @@ const ControlPathsBuilder: React.FC = () => {
 
       <ul className="space-y-2">
         {(controlPaths || []).map(cp => {
-          const pathActions = getPathControlActions(cp.id);
+          const pathActions = getPathActions(cp.id);
           const isExpanded = expandedPaths.has(cp.id);
 
           return (
@@ -313,7 +258,7 @@ const ControlPathsBuilder: React.FC = () => {
                     <PencilIcon className="h-4 w-4" />
                   </Button>
                   <Button
-                    onClick={() => handleDeleteControlPath(cp.id)}
+                    onClick={() => setPathToDelete(cp.id)}
                     size="sm"
                     variant="ghost"
                     className="text-red-500"
@@ -331,9 +276,19 @@ const ControlPathsBuilder: React.FC = () => {
                     {pathActions.map((action, index) => (
                       <li
                         key={action.id}
-                        className="pl-2 text-sm text-slate-700 dark:text-slate-300"
+                        className="flex items-center justify-between pl-2 text-sm text-slate-700 dark:text-slate-300"
                       >
-                        {index + 1}. {action.verb} {action.object}
+                        <span>
+                          {index + 1}. {action.verb} {action.object}
+                        </span>
+                        <Button
+                          onClick={() => setActionToDelete(action.id)}
+                          size="sm"
+                          variant="ghost"
+                          className="text-red-500"
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                        </Button>
                       </li>
                     ))}
                   </ul>
@@ -343,6 +298,17 @@ const ControlPathsBuilder: React.FC = () => {
           );
         })}
       </ul>
+
+      <DeleteImpactDialog
+        collection="controlPaths"
+        entityId={pathToDelete}
+        onClose={() => setPathToDelete(null)}
+      />
+      <DeleteImpactDialog
+        collection="controlActions"
+        entityId={actionToDelete}
+        onClose={() => setActionToDelete(null)}
+      />
     </section>
   );
 };
@@ -4,6 +4,8 @@ import { v4 as uuidv4 } from 'uuid';
 import { Button } from '@/components/shared';
 import { Input } from '@/components/shared';
 import { Select } from '@/components/shared';
+import { PresenceBadge, useCollaborationFocus } from '@/features/collaboration';
+import { DeleteImpactDialog } from '@/features/dependencies';
 import { useAnalysis } from '@/hooks/useAnalysis';
 import {
   Controller,
@@ -357,11 +359,13 @@ const TeamStructureEditor: React.FC<{
 };
 
 const ControllersBuilder: React.FC = () => {
-  const { controllers, addController, updateController, deleteController } = useAnalysis();
+  const { controllers, addController, updateController } = useAnalysis();
 
   const [controllerName, setControllerName] = useState('');
   const [controllerType, setControllerType] = useState<ControllerType>(ControllerType.Software);
   const [editingControllerId, setEditingControllerId] = useState<string | null>(null);
+  const [controllerToDelete, setControllerToDelete] = useState<string | null>(null);
+  useCollaborationFocus('controllers', editingControllerId);
   const [teamDetails, setTeamDetails] = useState<TeamDetails>({
     isSingleUnit: true,
     isHierarchical: false,
@@ -517,6 +521,7 @@ const ControllersBuilder: React.FC = () => {
             <div className="flex w-full items-start justify-between">
               <div>
                 <p className="font-medium">
+                  <PresenceBadge entityId={ctrl.id} className="mr-2" />
                   {ctrl.name}{' '}
                   <span className="font-mono text-xs opacity-80">({ctrl.ctrlType})</span>
                 </p>
@@ -531,7 +536,7 @@ const ControllersBuilder: React.FC = () => {
                   Edit
                 </Button>
                 <Button
-                  onClick={() => deleteController(ctrl.id)}
+                  onClick={() => setControllerToDelete(ctrl.id)}
                   size="sm"
                   variant="ghost"
                   className="text-red-500"
@@ -543,6 +548,12 @@ const ControllersBuilder: React.FC = () => {
           </li>
         ))}
       </ul>
+
+      <DeleteImpactDialog
+        collection="controllers"
+        entityId={controllerToDelete}
+        onClose={() => setControllerToDelete(null)}
+      />
     </section>
   );
 };
@@ -3,24 +3,21 @@ import React, { useState } from 'react';
 import { Button } from '@/components/shared';
 import { Checkbox } from '@/components/shared';
 import { Select, Textarea } from '@/components/shared';
+import { DeleteImpactDialog } from '@/features/dependencies';
 import { useAnalysis } from '@/hooks/useAnalysis';
 import { FeedbackPath } from '@/types/types';
 
 const FeedbackPathsBuilder: React.FC = () => {
-  const {
-    controllers,
-    systemComponents,
-    feedbackPaths,
-    addFeedbackPath,
-    updateFeedbackPath,
-    deleteFeedbackPath,
-  } = useAnalysis();
+  const { controllers, systemComponents, feedbackPaths, addFeedbackPath, updateFeedbackPath } =
+    useAnalysis();
 
   const [fpSourceId, setFpSourceId] = useState('');
   const [fpTargetCtrlId, setFpTargetCtrlId] = useState('');
   const [fpFeedback, setFpFeedback] = useState('');
   const [fpIsMissing, setFpIsMissing] = useState(false);
+  const [fpRationale, setFpRationale] = useState('');
   const [editingFpId, setEditingFpId] = useState<string | null>(null);
+  const [pathToDelete, setPathToDelete] = useState<string | null>(null);
 
   const controllerOptions = (controllers || []).map(c => ({ value: c.id, label: c.name }));
   const componentOptions = (systemComponents || []).map(sc => ({ value: sc.id, label: sc.name }));
@@ -39,6 +36,7 @@ const FeedbackPathsBuilder: React.FC = () => {
     setFpTargetCtrlId('');
     setFpFeedback('');
     setFpIsMissing(false);
+    setFpRationale('');
     setEditingFpId(null);
   };
 
@@ -57,6 +55,7 @@ const FeedbackPathsBuilder: React.FC = () => {
       targetControllerId: fpTargetCtrlId,
       feedback: fpFeedback,
       isMissing: fpIsMissing,
+      rationale: fpIsMissing ? fpRationale.trim() || undefined : undefined,
     };
     if (editingFpId) {
       updateFeedbackPath(editingFpId, pathData);
@@ -72,6 +71,7 @@ const FeedbackPathsBuilder: React.FC = () => {
     setFpTargetCtrlId(fp.targetControllerId);
     setFpFeedback(fp.feedback);
     setFpIsMissing(fp.isMissing);
+    setFpRationale(fp.rationale ?? '');
   };
 
   return (
@@ -114,6 +114,15 @@ const FeedbackPathsBuilder: React.FC = () => {
           onChange={e => setFpIsMissing(e.target.checked)}
           containerClassName="!mb-0 pt-2"
         />
+        {fpIsMissing && (
+          <Textarea
+            label="Why is it missing or inadequate?"
+            value={fpRationale}
+            onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setFpRationale(e.target.value)}
+            placeholder="e.g., No sensor reports the valve position; the operator infers it from flow"
+            containerClassName="!mb-0"
+          />
+        )}
         <div className="flex space-x-2 pt-4">
           <Button onClick={handleSaveFeedbackPath} leftIcon={<PlusIcon className="h-5 w-5" />}>
             {editingFpId ? 'Update Path' : 'Add Path'}
@@ -138,13 +147,16 @@ const FeedbackPathsBuilder: React.FC = () => {
                 {fp.isMissing && <span className="text-sm font-bold text-red-500">(MISSING)</span>}
               </p>
               <p className="text-sm text-slate-600 dark:text-slate-400">Feedback: {fp.feedback}</p>
+              {fp.isMissing && fp.rationale && (
+                <p className="text-sm text-slate-600 dark:text-slate-400">Why: {fp.rationale}</p>
+              )}
             </div>
             <div className="ml-4 flex items-center space-x-1">
               <Button onClick={() => editFeedbackPath(fp)} size="sm" variant="ghost">
                 Edit
               </Button>
               <Button
-                onClick={() => deleteFeedbackPath(fp.id)}
+                onClick={() => setPathToDelete(fp.id)}
                 size="sm"
                 variant="ghost"
                 className="text-red-500"
@@ -155,6 +167,12 @@ const FeedbackPathsBuilder: React.FC = () => {
           </li>
         ))}
       </ul>
+
+      <DeleteImpactDialog
+        collection="feedbackPaths"
+        entityId={pathToDelete}
+        onClose={() => setPathToDelete(null)}
+      />
     </section>
   );
 };
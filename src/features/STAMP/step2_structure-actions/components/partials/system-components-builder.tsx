@@ -3,21 +3,17 @@ import React, { useState, useEffect } from 'react';
 import { Button } from '@/components/shared';
 import { Input } from '@/components/shared';
 import { Select } from '@/components/shared';
+import { DeleteImpactDialog } from '@/features/dependencies';
 import { useAnalysis } from '@/hooks/useAnalysis';
 import { SystemComponent, ComponentType } from '@/types/types';
 
 const SystemComponentsBuilder: React.FC = () => {
-  const {
-    hazards,
-    systemComponents,
-    addSystemComponent,
-    updateSystemComponent,
-    deleteSystemComponent,
-  } = useAnalysis();
+  const { hazards, systemComponents, addSystemComponent, updateSystemComponent } = useAnalysis();
 
   const [componentName, setComponentName] = useState('');
   const [componentType, setComponentType] = useState<ComponentType>(ComponentType.Physical);
   const [editingComponentId, setEditingComponentId] = useState<string | null>(null);
+  const [componentToDelete, setComponentToDelete] = useState<string | null>(null);
 
   const componentTypeOptions = Object.values(ComponentType).map(ct => ({ value: ct, label: ct }));
 
@@ -115,7 +111,7 @@ const SystemComponentsBuilder: React.FC = () => {
                 Edit
               </Button>
               <Button
-                onClick={() => deleteSystemComponent(comp.id)}
+                onClick={() => setComponentToDelete(comp.id)}
                 size="sm"
                 variant="ghost"
                 className="text-red-500"
@@ -126,6 +122,12 @@ const SystemComponentsBuilder: React.FC = () => {
           </li>
         ))}
       </ul>
+
+      <DeleteImpactDialog
+        collection="systemComponents"
+        entityId={componentToDelete}
+        onClose={() => setComponentToDelete(null)}
+      />
     </section>
   );
 };
@@ -1,5 +1,7 @@
 import React from 'react';
 import { useAnalysis } from '@/hooks/useAnalysis';
+import { useStructureFindings } from '../../hooks';
+import { STRUCTURE_CHECKS } from '../../services';
 import { WORKSPACE_SECTIONS, WorkspaceState } from './hooks/useWorkspaceState';
 
 interface WorkspaceNavigationProps {
@@ -87,6 +89,54 @@ const DependencyMessage: React.FC<{
   );
 };
 
+const StructureFindingsPanel: React.FC<{ onSectionChange: (section: string) => void }> = ({
+  onSectionChange,
+}) => {
+  const findings = useStructureFindings();
+  const errorCount = findings.filter(finding => finding.severity === 'error').length;
+
+  return (
+    <div className="border-border/50 border-t p-4">
+      <div className="mb-2 flex items-center justify-between">
+        <span className="text-sm font-medium text-slate-700 dark:text-slate-300">
+          Structure Checks
+        </span>
+        {findings.length > 0 && (
+          <span
+            className={`text-xs ${errorCount > 0 ? 'text-red-600 dark:text-red-400' : 'text-amber-600 dark:text-amber-400'}`}
+          >
+            {errorCount} error{errorCount !== 1 ? 's' : ''}, {findings.length - errorCount} warning
+            {findings.length - errorCount !== 1 ? 's' : ''}
+          </span>
+        )}
+      </div>
+      {findings.length === 0 ? (
+        <p className="text-xs text-green-700 dark:text-green-400">No problems found.</p>
+      ) : (
+        <ul className="max-h-48 space-y-1 overflow-y-auto">
+          {findings.map(finding => {
+            const check = STRUCTURE_CHECKS[finding.checkId];
+            return (
+              <li key={`${finding.checkId}-${finding.pathId ?? finding.entityIds.join('-')}`}>
+                <button
+                  onClick={() => onSectionChange(check.section)}
+                  className="hover:bg-muted/50 w-full rounded p-2 text-left text-xs"
+                  title={check.title}
+                >
+                  <span
+                    className={`mr-1.5 inline-block h-2 w-2 rounded-full ${finding.severity === 'error' ? 'bg-red-500' : 'bg-amber-400'}`}
+                  />
+                  <span className="text-slate-700 dark:text-slate-300">{finding.message}</span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
 const WorkspaceNavigation: React.FC<WorkspaceNavigationProps> = ({
   activeSection,
   onSectionChange,
@@ -195,6 +245,9 @@ const WorkspaceNavigation: React.FC<WorkspaceNavigationProps> = ({
         </ul>
       </nav>
 
+      {/* Well-formedness findings */}
+      <StructureFindingsPanel onSectionChange={onSectionChange} />
+
       {/* Footer with actions */}
       <div className="border-border/50 border-t p-4">
         <button
@@ -1,2 +1,4 @@
 // Export hooks for step2_structure-actions
-export {};
+export * from './useControlPathActions';
+export * from './useDiagramEditor';
+export * from './useStructureFindings';
@@ -0,0 +1,91 @@
+import { v4 as uuidv4 } from 'uuid';
+import { useAnalysisContext } from '@/context/AnalysisContext';
+
+export interface ControlActionDraft {
+  id?: string; // The ControlAction edited; unset for a new one
+  verb: string;
+  object: string;
+}
+
+/**
+ * The actions of a legacy `controls` text or diagram label, e.g. "INCREASE PITCH; HOLD ALTITUDE"
+ */
+export const parseControlActions = (controls: string): ControlActionDraft[] =>
+  controls
+    .split(';')
+    .map(control => control.trim())
+    .filter(Boolean)
+    .map(control => {
+      const [verb, ...object] = control.split(/\s+/);
+      return { verb, object: object.join(' ') };
+    });
+
+export const formatControlActions = (actions: ControlActionDraft[]) =>
+  actions.map(action => `${action.verb} ${action.object}`.trim()).join('; ');
+
+/**
+ * Writes the control actions of a control path, for the form builder and the diagram
+ * alike. Existing actions are updated in place, so the UCAs and scenarios about them
+ * stay linked.
+ */
+export const useControlPathActions = () => {
+  const {
+    controlActions,
+    addControlAction,
+    updateControlAction,
+    ucas,
+    updateUCA,
+    notApplicableStatuses,
+    addNotApplicableStatus,
+    removeNotApplicableStatus,
+  } = useAnalysisContext();
+
+  const getPathActions = (pathId: string) =>
+    controlActions.filter(action => action.controlPathId === pathId);
+
+  /**
+   * Returns the ids of the path's actions in order, and those of the actions left out,
+   * which stay linked until they are deleted with their impact
+   */
+  const writeControlActions = (
+    pathId: string,
+    controllerId: string,
+    drafts: ControlActionDraft[]
+  ): { actionIds: string[]; removedIds: string[] } => {
+    const pathActions = getPathActions(pathId);
+    const actionIds = drafts.map(draft => {
+      const fields = {
+        controllerId,
+        verb: draft.verb,
+        object: draft.object,
+        description: `${draft.verb} ${draft.object}`.trim(),
+      };
+      const existing = pathActions.find(action => action.id === draft.id);
+      if (!existing) {
+        const id = uuidv4();
+        addControlAction({ id, controlPathId: pathId, ...fields, isOutOfScope: false });
+        return id;
+      }
+
+      updateControlAction(existing.id, fields);
+      // What refers to the action of a new source controller moves along with it
+      if (existing.controllerId !== controllerId) {
+        ucas
+          .filter(uca => uca.controlActionId === existing.id)
+          .forEach(uca => updateUCA(uca.id, { controllerId }));
+        notApplicableStatuses
+          .filter(status => status.controlActionId === existing.id)
+          .forEach(status => {
+            removeNotApplicableStatus(status);
+            addNotApplicableStatus({ ...status, controllerId });
+          });
+      }
+      return existing.id;
+    });
+
+    const removedIds = pathActions.map(action => action.id).filter(id => !actionIds.includes(id));
+    return { actionIds, removedIds };
+  };
+
+  return { getPathActions, writeControlActions };
+};
@@ -0,0 +1,220 @@
+import { v4 as uuidv4 } from 'uuid';
+import { useAnalysisContext } from '@/context/AnalysisContext';
+import { ComponentType, ControllerType, DiagramLayout } from '@/types/types';
+import { DiagramEdgeKind, DiagramEntityRef, DiagramPaletteItem } from '../types';
+import {
+  formatControlActions,
+  parseControlActions,
+  useControlPathActions,
+} from './useControlPathActions';
+
+interface Position {
+  x: number;
+  y: number;
+}
+
+const CONTROLLER_NAMES: Record<ControllerType, string> = {
+  [ControllerType.Software]: 'New Software Controller',
+  [ControllerType.Human]: 'New Human Controller',
+  [ControllerType.Team]: 'New Team',
+  [ControllerType.Organisation]: 'New Organisation',
+};
+
+const COMPONENT_NAMES: Record<ComponentType, string> = {
+  [ComponentType.Physical]: 'New Physical Component',
+  [ComponentType.Process]: 'New Process',
+};
+
+/**
+ * Edits the control structure from the diagram. Every change is written through the
+ * same analysis actions as the form builders. Positions go to the named layout shown,
+ * or to the controllers and components for the default layout.
+ */
+export const useDiagramEditor = (layout: DiagramLayout | null = null) => {
+  const {
+    controllers,
+    systemComponents,
+    controlPaths,
+    feedbackPaths,
+    communicationPaths,
+    addController,
+    updateController,
+    addSystemComponent,
+    updateSystemComponent,
+    addControlPath,
+    updateControlPath,
+    addFeedbackPath,
+    updateFeedbackPath,
+    addCommunicationPath,
+    updateCommunicationPath,
+    updateDiagramLayout,
+  } = useAnalysisContext();
+  const { getPathActions, writeControlActions } = useControlPathActions();
+
+  const isController = (id: string) => controllers.some(c => c.id === id);
+  const isComponent = (id: string) => systemComponents.some(sc => sc.id === id);
+
+  // New nodes are placed where they were dropped, in the default layout too
+  const createNode = (item: DiagramPaletteItem, { x, y }: Position) => {
+    const id = uuidv4();
+    if (item.collection === 'controllers') {
+      addController({ id, name: CONTROLLER_NAMES[item.ctrlType], ctrlType: item.ctrlType, x, y });
+    } else {
+      addSystemComponent({
+        id,
+        name: COMPONENT_NAMES[item.componentType],
+        type: item.componentType,
+        x,
+        y,
+      });
+    }
+    if (layout) {
+      updateDiagramLayout(layout.id, { positions: { ...layout.positions, [id]: { x, y } } });
+    }
+  };
+
+  /**
+   * Whether an edge of the kind may be drawn between the nodes: control comes from a
+   * controller, feedback goes to one, controllers communicate with each other, and
+   * each pair is connected once per kind
+   */
+  const canConnect = (kind: DiagramEdgeKind, sourceId: string, targetId: string) => {
+    if (sourceId === targetId) return false;
+    const isNode = (id: string) => isController(id) || isComponent(id);
+
+    switch (kind) {
+      case 'control':
+        return (
+          isController(sourceId) &&
+          isNode(targetId) &&
+          !controlPaths.some(p => p.sourceControllerId === sourceId && p.targetId === targetId)
+        );
+      case 'feedback':
+        return (
+          isNode(sourceId) &&
+          isController(targetId) &&
+          !feedbackPaths.some(p => p.sourceId === sourceId && p.targetControllerId === targetId)
+        );
+      case 'communication':
+        return (
+          isController(sourceId) &&
+          isController(targetId) &&
+          !communicationPaths.some(
+            p =>
+              (p.sourceControllerId === sourceId && p.targetControllerId === targetId) ||
+              (p.sourceControllerId === targetId && p.targetControllerId === sourceId)
+          )
+        );
+    }
+  };
+
+  /**
+   * Returns the id of a new control path, whose label names its control actions
+   */
+  const connect = (kind: DiagramEdgeKind, sourceId: string, targetId: string) => {
+    if (!canConnect(kind, sourceId, targetId)) return null;
+    switch (kind) {
+      case 'control': {
+        const id = uuidv4();
+        addControlPath({
+          id,
+          sourceControllerId: sourceId,
+          targetId,
+          controls: '',
+          controlActionIds: [],
+        });
+        return id;
+      }
+      case 'feedback':
+        addFeedbackPath({ sourceId, targetControllerId: targetId, feedback: '', isMissing: false });
+        break;
+      case 'communication':
+        addCommunicationPath({
+          sourceControllerId: sourceId,
+          targetControllerId: targetId,
+          description: '',
+        });
+        break;
+    }
+    return null;
+  };
+
+  /**
+   * Controllers and components need a name; paths may be left unlabelled. The label of
+   * a control path lists its control actions, e.g. "INCREASE PITCH; HOLD ALTITUDE",
+   * which are matched to the existing ones by position. Returns the ids of the actions
+   * left out, to be deleted with their impact.
+   */
+  const relabel = ({ collection, entityId }: DiagramEntityRef, label: string): string[] => {
+    const text = label.trim();
+    switch (collection) {
+      case 'controllers':
+        if (text) updateController(entityId, { name: text });
+        break;
+      case 'systemComponents':
+        if (text) updateSystemComponent(entityId, { name: text });
+        break;
+      case 'controlPaths': {
+        const path = controlPaths.find(p => p.id === entityId);
+        if (!path) break;
+        const pathActions = getPathActions(entityId);
+        const drafts = parseControlActions(text).map((draft, i) => ({
+          ...draft,
+          id: pathActions[i]?.id,
+        }));
+        const { actionIds, removedIds } = writeControlActions(
+          entityId,
+          path.sourceControllerId,
+          drafts
+        );
+        updateControlPath(entityId, {
+          controls: formatControlActions(drafts),
+          controlActionIds: [...actionIds, ...removedIds],
+        });
+        return removedIds;
+      }
+      case 'feedbackPaths':
+        updateFeedbackPath(entityId, { feedback: text });
+        break;
+      case 'communicationPaths':
+        updateCommunicationPath(entityId, { description: text });
+        break;
+    }
+    return [];
+  };
+
+  const moveNodes = (moves: { entity: DiagramEntityRef; position: Position }[]) => {
+    const rounded = moves.map(({ entity, position }) => ({
+      entity,
+      position: { x: Math.round(position.x), y: Math.round(position.y) },
+    }));
+    if (layout) {
+      const positions = { ...layout.positions };
+      rounded.forEach(({ entity, position }) => (positions[entity.entityId] = position));
+      updateDiagramLayout(layout.id, { positions });
+      return;
+    }
+    rounded.forEach(({ entity: { collection, entityId }, position }) => {
+      if (collection === 'controllers') updateController(entityId, position);
+      else if (collection === 'systemComponents') updateSystemComponent(entityId, position);
+    });
+  };
+
+  /**
+   * Forgets the positions nodes were dragged to, so the automatic layout places them
+   */
+  const clearPositions = () => {
+    if (layout) {
+      updateDiagramLayout(layout.id, { positions: {} });
+      return;
+    }
+    controllers
+      .filter(c => c.x !== undefined || c.y !== undefined)
+      .forEach(c => updateController(c.id, { x: undefined, y: undefined }));
+    systemComponents
+      .filter(sc => sc.x !== undefined || sc.y !== undefined)
+      .forEach(sc => updateSystemComponent(sc.id, { x: undefined, y: undefined }));
+  };
+
+  return { createNode, canConnect, connect, relabel, moveNodes, clearPositions };
+};
@@ -0,0 +1,26 @@
+import { useMemo } from 'react';
+import { useAnalysisContext } from '@/context/AnalysisContext';
+import { checkControlStructure } from '../services';
+
+/**
+ * Well-formedness findings on the control structure of the open analysis
+ */
+export const useStructureFindings = () => {
+  const { controllers, systemComponents, controlPaths, feedbackPaths } = useAnalysisContext();
+
+  return useMemo(
+    () => checkControlStructure({ controllers, systemComponents, controlPaths, feedbackPaths }),
+    [controllers, systemComponents, controlPaths, feedbackPaths]
+  );
+};
+
+/**
+ * Findings shown on one controller or component
+ */
+export const useEntityStructureFindings = (entityId: string) => {
+  const findings = useStructureFindings();
+  return useMemo(
+    () => findings.filter(finding => finding.entityIds.includes(entityId)),
+    [findings, entityId]
+  );
+};
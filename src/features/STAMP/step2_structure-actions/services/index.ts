@@ -1,2 +1,2 @@
 // Export services for step2_structure-actions
-export {};
+export * from './structure-checks';
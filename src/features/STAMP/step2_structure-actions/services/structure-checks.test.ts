@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ComponentType,
+  ControlPath,
+  Controller,
+  ControllerType,
+  FeedbackPath,
+  SystemComponent,
+} from '@/types/types';
+import { checkControlStructure, findAuthorityCycles } from './structure-checks';
+
+const controller = (id: string, ctrlType = ControllerType.Software): Controller => ({
+  id,
+  name: `Controller ${id}`,
+  ctrlType,
+});
+
+const component = (id: string): SystemComponent => ({
+  id,
+  name: `Process ${id}`,
+  type: ComponentType.Process,
+});
+
+const controlPath = (id: string, sourceControllerId: string, targetId: string): ControlPath => ({
+  id,
+  sourceControllerId,
+  targetId,
+  controls: '',
+  controlActionIds: [`${id}-action`],
+});
+
+const feedbackPath = (
+  id: string,
+  sourceId: string,
+  targetControllerId: string,
+  fields: Partial<FeedbackPath> = {}
+): FeedbackPath => ({
+  id,
+  sourceId,
+  targetControllerId,
+  feedback: 'Status',
+  isMissing: false,
+  ...fields,
+});
+
+// A controller that controls and is informed about one process
+const wellFormed = {
+  controllers: [controller('c1')],
+  systemComponents: [component('p1')],
+  controlPaths: [controlPath('cp1', 'c1', 'p1')],
+  feedbackPaths: [feedbackPath('fp1', 'p1', 'c1')],
+};
+
+const getCheckIds = (data: Parameters<typeof checkControlStructure>[0]) =>
+  checkControlStructure(data).map(finding => finding.checkId);
+
+describe('checkControlStructure', () => {
+  it('finds nothing in a well-formed structure', () => {
+    expect(checkControlStructure(wellFormed)).toEqual([]);
+  });
+
+  it('flags a controller with control paths but no feedback', () => {
+    const findings = checkControlStructure({ ...wellFormed, feedbackPaths: [] });
+
+    expect(findings).toEqual([
+      expect.objectContaining({ checkId: 'missing-feedback', entityIds: ['c1'] }),
+    ]);
+  });
+
+  it('does not count feedback known to be missing as feedback', () => {
+    expect(
+      getCheckIds({
+        ...wellFormed,
+        feedbackPaths: [
+          feedbackPath('fp1', 'p1', 'c1', { isMissing: true, rationale: 'No sensor' }),
+        ],
+      })
+    ).toEqual(['missing-feedback']);
+  });
+
+  it('flags missing feedback without a rationale', () => {
+    const findings = checkControlStructure({
+      ...wellFormed,
+      feedbackPaths: [
+        feedbackPath('fp1', 'p1', 'c1'),
+        feedbackPath('fp2', 'p1', 'c1', { isMissing: true, rationale: ' ' }),
+      ],
+    });
+
+    expect(findings).toEqual([
+      expect.objectContaining({ checkId: 'missing-feedback-rationale', pathId: 'fp2' }),
+    ]);
+  });
+
+  it('flags uncontrolled processes and control paths without actions', () => {
+    const findings = checkControlStructure({
+      ...wellFormed,
+      systemComponents: [component('p1'), component('p2')],
+      controlPaths: [{ ...controlPath('cp1', 'c1', 'p1'), controlActionIds: [] }],
+    });
+
+    expect(findings).toEqual([
+      expect.objectContaining({ checkId: 'uncontrolled-process', entityIds: ['p2'] }),
+      expect.objectContaining({ checkId: 'empty-control-path', pathId: 'cp1' }),
+    ]);
+  });
+
+  it('flags teams without roles unless they act as a single unit', () => {
+    const team = (id: string, isSingleUnit: boolean): Controller => ({
+      ...controller(id, ControllerType.Team),
+      teamDetails: { isSingleUnit, members: [], roles: [], contexts: [] },
+    });
+
+    expect(
+      getCheckIds({
+        ...wellFormed,
+        controllers: [controller('c1'), team('t1', false), team('t2', true)],
+      })
+    ).toEqual(['team-without-roles']);
+  });
+
+  it('orders errors before warnings', () => {
+    const severities = checkControlStructure({
+      controllers: [controller('c1'), controller('c2')],
+      systemComponents: [component('p1')],
+      controlPaths: [controlPath('cp1', 'c1', 'c2'), controlPath('cp2', 'c2', 'c1')],
+      feedbackPaths: [],
+    }).map(finding => finding.severity);
+
+    expect(severities).toEqual([...severities].sort());
+    expect(severities).toContain('warning');
+  });
+});
+
+describe('findAuthorityCycles', () => {
+  it('finds controllers with authority over each other', () => {
+    const controllers = ['c1', 'c2', 'c3', 'c4'].map(id => controller(id));
+    const cycles = findAuthorityCycles({
+      controllers,
+      systemComponents: [],
+      controlPaths: [
+        controlPath('cp1', 'c1', 'c2'),
+        controlPath('cp2', 'c2', 'c3'),
+        controlPath('cp3', 'c3', 'c1'),
+        controlPath('cp4', 'c3', 'c4'),
+      ],
+      feedbackPaths: [],
+    });
+
+    expect(cycles.map(cycle => [...cycle].sort())).toEqual([['c1', 'c2', 'c3']]);
+  });
+
+  it('finds a controller with authority over itself', () => {
+    expect(
+      findAuthorityCycles({
+        controllers: [controller('c1')],
+        systemComponents: [],
+        controlPaths: [controlPath('cp1', 'c1', 'c1')],
+        feedbackPaths: [],
+      })
+    ).toEqual([['c1']]);
+  });
+
+  it('ignores paths to processes', () => {
+    expect(findAuthorityCycles(wellFormed)).toEqual([]);
+  });
+});
@@ -0,0 +1,186 @@
+import { AnalysisData, ControllerType } from '@/types/types';
+import { StructureCheckId, StructureFinding, StructureFindingSeverity } from '../types';
+
+type StructureSource = Pick<
+  AnalysisData,
+  'controllers' | 'systemComponents' | 'controlPaths' | 'feedbackPaths'
+>;
+
+export const STRUCTURE_CHECKS: Record<
+  StructureCheckId,
+  { title: string; severity: StructureFindingSeverity; section: string }
+> = {
+  'missing-feedback': {
+    title: 'Controller without feedback',
+    severity: 'error',
+    section: 'feedback-paths',
+  },
+  'uncontrolled-process': {
+    title: 'Uncontrolled process',
+    severity: 'warning',
+    section: 'control-paths',
+  },
+  'empty-control-path': {
+    title: 'Control path without control actions',
+    severity: 'warning',
+    section: 'control-paths',
+  },
+  'cyclic-authority': {
+    title: 'Cyclic authority',
+    severity: 'error',
+    section: 'control-paths',
+  },
+  'missing-feedback-rationale': {
+    title: 'Missing feedback without rationale',
+    severity: 'warning',
+    section: 'feedback-paths',
+  },
+  'team-without-roles': {
+    title: 'Team without roles',
+    severity: 'warning',
+    section: 'controllers',
+  },
+};
+
+const formatList = (names: string[]) =>
+  names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0];
+
+/**
+ * Groups of controllers that have authority over each other through control paths,
+ * i.e. the strongly connected components of the authority graph (Tarjan's algorithm)
+ */
+export function findAuthorityCycles({ controllers, controlPaths }: StructureSource): string[][] {
+  const controllerIds = new Set(controllers.map(c => c.id));
+  const edges = new Map<string, string[]>();
+  controlPaths.forEach(path => {
+    if (!controllerIds.has(path.sourceControllerId) || !controllerIds.has(path.targetId)) return;
+    edges.set(path.sourceControllerId, [
+      ...(edges.get(path.sourceControllerId) ?? []),
+      path.targetId,
+    ]);
+  });
+
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+
+  const visit = (id: string) => {
+    index.set(id, index.size);
+    lowLink.set(id, index.get(id)!);
+    stack.push(id);
+    onStack.add(id);
+
+    (edges.get(id) ?? []).forEach(targetId => {
+      if (!index.has(targetId)) {
+        visit(targetId);
+        lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(targetId)!));
+      } else if (onStack.has(targetId)) {
+        lowLink.set(id, Math.min(lowLink.get(id)!, index.get(targetId)!));
+      }
+    });
+
+    if (lowLink.get(id) !== index.get(id)) return;
+    const component: string[] = [];
+    let member: string;
+    do {
+      member = stack.pop()!;
+      onStack.delete(member);
+      component.push(member);
+    } while (member !== id);
+    if (component.length > 1 || edges.get(id)?.includes(id)) cycles.push(component.reverse());
+  };
+
+  controllers.forEach(controller => {
+    if (!index.has(controller.id)) visit(controller.id);
+  });
+  return cycles;
+}
+
+/**
+ * Checks that the control structure is well formed: every controller that acts on
+ * the system is informed about it, every process is controlled and authority flows
+ * one way. Findings are ordered by severity.
+ */
+export function checkControlStructure(data: StructureSource): StructureFinding[] {
+  const { controllers, systemComponents, controlPaths, feedbackPaths } = data;
+  const findings: StructureFinding[] = [];
+  const add = (checkId: StructureCheckId, message: string, entityIds: string[], pathId?: string) =>
+    findings.push({
+      checkId,
+      severity: STRUCTURE_CHECKS[checkId].severity,
+      message,
+      entityIds,
+      pathId,
+    });
+
+  const getName = (id: string) =>
+    controllers.find(c => c.id === id)?.name ??
+    systemComponents.find(sc => sc.id === id)?.name ??
+    'Unknown';
+
+  controllers.forEach(controller => {
+    const controls = controlPaths.some(path => path.sourceControllerId === controller.id);
+    // Feedback known to be missing doesn't inform the controller
+    const informed = feedbackPaths.some(
+      path => path.targetControllerId === controller.id && !path.isMissing
+    );
+    if (controls && !informed) {
+      add('missing-feedback', `${controller.name} has control paths but receives no feedback.`, [
+        controller.id,
+      ]);
+    }
+
+    const teamDetails = controller.teamDetails;
+    if (
+      controller.ctrlType === ControllerType.Team &&
+      !teamDetails?.isSingleUnit &&
+      !teamDetails?.roles.length
+    ) {
+      add('team-without-roles', `Team ${controller.name} has no roles.`, [controller.id]);
+    }
+  });
+
+  systemComponents.forEach(component => {
+    if (!controlPaths.some(path => path.targetId === component.id)) {
+      add('uncontrolled-process', `No controller controls ${component.name}.`, [component.id]);
+    }
+  });
+
+  controlPaths.forEach(path => {
+    if (!path.controlActionIds?.length) {
+      add(
+        'empty-control-path',
+        `The control path from ${getName(path.sourceControllerId)} to ${getName(path.targetId)} has no control actions.`,
+        [path.sourceControllerId],
+        path.id
+      );
+    }
+  });
+
+  findAuthorityCycles(data).forEach(cycle => {
+    add(
+      'cyclic-authority',
+      cycle.length === 1
+        ? `${getName(cycle[0])} has authority over itself.`
+        : `${formatList(cycle.map(getName))} have authority over each other.`,
+      cycle
+    );
+  });
+
+  feedbackPaths.forEach(path => {
+    if (path.isMissing && !path.rationale?.trim()) {
+      add(
+        'missing-feedback-rationale',
+        `The missing feedback from ${getName(path.sourceId)} to ${getName(path.targetControllerId)} has no rationale.`,
+        [path.targetControllerId],
+        path.id
+      );
+    }
+  });
+
+  return findings.sort(
+    (a, b) => Number(a.severity === 'warning') - Number(b.severity === 'warning')
+  );
+}
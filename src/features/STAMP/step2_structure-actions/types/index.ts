@@ -1,2 +1,39 @@
 // Export types for step2_structure-actions
-export {};
+import { ComponentType, ControllerType } from '@/types/types';
+
+export type StructureCheckId =
+  | 'missing-feedback'
+  | 'uncontrolled-process'
+  | 'empty-control-path'
+  | 'cyclic-authority'
+  | 'missing-feedback-rationale'
+  | 'team-without-roles';
+
+export type StructureFindingSeverity = 'error' | 'warning';
+
+export interface StructureFinding {
+  checkId: StructureCheckId;
+  severity: StructureFindingSeverity;
+  message: string;
+  entityIds: string[]; // Controllers and components the finding is shown on
+  pathId?: string; // The control or feedback path at fault
+}
+
+// Entities drawn in the control structure diagram
+export type DiagramEntityCollection =
+  | 'controllers'
+  | 'systemComponents'
+  | 'controlPaths'
+  | 'feedbackPaths'
+  | 'communicationPaths';
+
+export interface DiagramEntityRef {
+  collection: DiagramEntityCollection;
+  entityId: string;
+}
+
+export type DiagramEdgeKind = 'control' | 'feedback' | 'communication';
+
+export type DiagramPaletteItem =
+  | { collection: 'controllers'; ctrlType: ControllerType }
+  | { collection: 'systemComponents'; componentType: ComponentType };
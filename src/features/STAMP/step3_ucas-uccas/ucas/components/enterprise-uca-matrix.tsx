@@ -18,6 +18,7 @@ import {
   Layers,
   Eye,
   EyeOff,
+  MessageSquare,
 } from 'lucide-react';
 import React, { useMemo, useState } from 'react';
 import { Badge } from '@/components/ui/badge';
@@ -36,6 +37,7 @@ import {
 } from '@/components/ui/select';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { useAnalysisContext } from '@/context/AnalysisContext';
+import { CommentBadge, getOpenThreads } from '@/features/review';
 import { cn } from '@/lib/utils';
 import { Controller, ControlAction, UnsafeControlAction, UCAType } from '@/types/types';
 
@@ -203,8 +205,13 @@ const EnterpriseUCAMatrix: React.FC<EnterpriseUCAMatrixProps> = ({
   const [filterUCAType, setFilterUCAType] = useState<string>('');
   const [showOnlyAnalyzed, setShowOnlyAnalyzed] = useState(false);
   const [showLegend, setShowLegend] = useState(true);
-  const { notApplicableStatuses, addNotApplicableStatus, removeNotApplicableStatus } =
-    useAnalysisContext();
+  const {
+    notApplicableStatuses,
+    addNotApplicableStatus,
+    removeNotApplicableStatus,
+    commentThreads,
+  } = useAnalysisContext();
+  const openThreads = getOpenThreads(commentThreads);
 
   const isMarkedAsNA = (controllerId: string, controlActionId: string, ucaType: UCAType) => {
     return notApplicableStatuses.some(
@@ -384,6 +391,9 @@ const EnterpriseUCAMatrix: React.FC<EnterpriseUCAMatrixProps> = ({
       hoveredCell === `${cell.controllerId}-${cell.controlActionId}-${cell.ucaType}`;
     const intensity = getCellIntensity(cell.ucaCount);
     const riskLevel = getRiskLevel(cell.ucaCount);
+    const openCommentCount = openThreads.filter(thread =>
+      cell.ucas.some(uca => uca.id === thread.entityId)
+    ).length;
 
     return (
       <div
@@ -446,6 +456,16 @@ const EnterpriseUCAMatrix: React.FC<EnterpriseUCAMatrixProps> = ({
             />
           )}
 
+          {openCommentCount > 0 && (
+            <span
+              className="absolute top-0.5 right-0.5 z-20 flex items-center gap-0.5 rounded bg-amber-100 px-0.5 text-[10px] font-semibold text-amber-800 dark:bg-amber-900/60 dark:text-amber-200"
+              title={`${openCommentCount} open comment thread${openCommentCount !== 1 ? 's' : ''}`}
+            >
+              <MessageSquare className="h-2.5 w-2.5" />
+              {openCommentCount}
+            </span>
+          )}
+
           {/* Cell content */}
           <div className="relative z-10 flex flex-col items-center justify-center gap-0.5">
             {cell.status === 'analyzed' ? (
@@ -991,6 +1011,11 @@ const EnterpriseUCAMatrix: React.FC<EnterpriseUCAMatrixProps> = ({
                                                       </p>
                                                     )}
                                                   </div>
+                                                  <CommentBadge
+                                                    collection="ucas"
+                                                    entityId={uca.id}
+                                                    className="flex-shrink-0"
+                                                  />
                                                 </div>
                                               </Card>
                                             ))}
@@ -44,6 +44,7 @@ import {
 import { Separator } from '@/components/ui/separator';
 import { Textarea } from '@/components/ui/textarea';
 import { useAnalysisContext } from '@/context/AnalysisContext';
+import { useCollaborationFocus } from '@/features/collaboration';
 import { cn } from '@/lib/utils';
 import { UnsafeControlAction, Controller, ControlAction, UCAType, Hazard } from '@/types/types';
 import { generateUCACode } from '@/utils/code-generator';
@@ -133,6 +134,7 @@ const UCAEditor: React.FC<UCAEditorProps> = ({
   controlActions,
 }) => {
   const { hazards, ucas, addUCA, updateUCA } = useAnalysisContext();
+  useCollaborationFocus('ucas', isOpen && uca ? uca.id : null);
 
   // Form state
   const [controllerId, setControllerId] = useState<string>('');
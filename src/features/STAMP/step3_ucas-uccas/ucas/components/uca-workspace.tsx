@@ -45,6 +45,9 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { useAnalysisContext } from '@/context/AnalysisContext';
+import { PresenceBadge } from '@/features/collaboration';
+import { DeleteImpactDialog } from '@/features/dependencies';
+import { CommentBadge } from '@/features/review';
 import { cn } from '@/lib/utils';
 import { UnsafeControlAction, Controller, ControlAction, UCAType } from '@/types/types';
 import EnterpriseUCAMatrix from './enterprise-uca-matrix';
@@ -99,8 +102,9 @@ const UCAWorkspace: React.FC<UCAWorkspaceProps> = ({
   onEditUCA,
   onSelectControlAction,
 }) => {
-  const { deleteUCA, addUCA, hazards } = useAnalysisContext();
+  const { addUCA, hazards } = useAnalysisContext();
   const [showTableView, setShowTableView] = useState(false);
+  const [ucaToDelete, setUcaToDelete] = useState<string | string[] | null>(null);
 
   // Memoized helper functions for better performance
   const getControllerName = useCallback(
@@ -241,7 +245,13 @@ const UCAWorkspace: React.FC<UCAWorkspaceProps> = ({
           </Button>
         );
       },
-      cell: ({ row }) => <div className="max-w-xl font-mono text-sm">{row.getValue('uca')}</div>,
+      cell: ({ row }) => (
+        <div className="max-w-xl font-mono text-sm">
+          <PresenceBadge entityId={row.original.id} className="mr-2" />
+          {row.getValue('uca')}
+          <CommentBadge collection="ucas" entityId={row.original.id} className="ml-2" />
+        </div>
+      ),
     },
     {
       accessorKey: 'type',
@@ -364,7 +374,7 @@ const UCAWorkspace: React.FC<UCAWorkspaceProps> = ({
                 <Copy className="mr-2 h-4 w-4" />
                 Duplicate
               </DropdownMenuItem>
-              <DropdownMenuItem onClick={() => deleteUCA(uca.id)} className="text-red-600">
+              <DropdownMenuItem onClick={() => setUcaToDelete(uca.id)} className="text-red-600">
                 <Trash2 className="mr-2 h-4 w-4" />
                 Delete
               </DropdownMenuItem>
@@ -385,6 +395,8 @@ const UCAWorkspace: React.FC<UCAWorkspaceProps> = ({
     getPaginationRowModel: getPaginationRowModel(),
     getSortedRowModel: getSortedRowModel(),
     getFilteredRowModel: getFilteredRowModel(),
+    // Selected UCAs stay selected, not their positions, when others are deleted
+    getRowId: row => row.id,
     onColumnVisibilityChange: setColumnVisibility,
     onRowSelectionChange: setRowSelection,
     state: {
@@ -438,19 +450,11 @@ const UCAWorkspace: React.FC<UCAWorkspaceProps> = ({
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => {
-                  const selectedRows = table.getFilteredSelectedRowModel().rows;
-                  const selectedCount = selectedRows.length;
-
-                  if (
-                    confirm(`Delete ${selectedCount} selected UCA${selectedCount > 1 ? 's' : ''}?`)
-                  ) {
-                    selectedRows.forEach(row => {
-                      deleteUCA(row.original.id);
-                    });
-                    table.resetRowSelection();
-                  }
-                }}
+                onClick={() =>
+                  setUcaToDelete(
+                    table.getFilteredSelectedRowModel().rows.map(row => row.original.id)
+                  )
+                }
                 className="text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
               >
                 <Trash2 className="mr-1 h-4 w-4" />
@@ -598,6 +602,12 @@ const UCAWorkspace: React.FC<UCAWorkspaceProps> = ({
           onCreateUCA={onCreateUCA}
         />
       )}
+
+      <DeleteImpactDialog
+        collection="ucas"
+        entityId={ucaToDelete}
+        onClose={() => setUcaToDelete(null)}
+      />
     </div>
   );
 };
@@ -0,0 +1,6 @@
+// Barrel export for UCCA partials
+
+export { default as InterchangeableControllersDialog } from './interchangeable-controllers-dialog';
+export { default as UCCACandidateList } from './ucca-candidate-list';
+export { default as UCCAReviewEditor } from './ucca-review-editor';
+export { default as UCCATeamNavigator } from './ucca-team-navigator';
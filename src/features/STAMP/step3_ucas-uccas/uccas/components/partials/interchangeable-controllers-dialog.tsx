@@ -0,0 +1,147 @@
+import { Plus, X } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Controller } from '@/types/types';
+import { normalizeInterchangeableGroups } from '../../services';
+
+interface InterchangeableControllersDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  controllers: Controller[];
+  groups: string[][];
+  onSave: (groups: string[][]) => void;
+}
+
+/**
+ * Declares Cint: sets of controllers that can take each other's place (e.g. the
+ * two pilots of a crew), so combinations differing only by who is who collapse
+ */
+const InterchangeableControllersDialog: React.FC<InterchangeableControllersDialogProps> = ({
+  isOpen,
+  onClose,
+  controllers,
+  groups,
+  onSave,
+}) => {
+  const [draftGroups, setDraftGroups] = useState<string[][]>([]);
+  const [selection, setSelection] = useState<string[]>([]);
+
+  useEffect(() => {
+    setDraftGroups(groups);
+    setSelection([]);
+  }, [groups, isOpen]);
+
+  const getControllerName = (id: string) => controllers.find(c => c.id === id)?.name || id;
+
+  const handleToggleSelection = (controllerId: string) => {
+    setSelection(prev =>
+      prev.includes(controllerId) ? prev.filter(id => id !== controllerId) : [...prev, controllerId]
+    );
+  };
+
+  const handleAddGroup = () => {
+    // Overlapping groups merge, as interchangeability is transitive
+    setDraftGroups(prev => normalizeInterchangeableGroups([...prev, selection]));
+    setSelection([]);
+  };
+
+  const handleRemoveFromGroup = (groupIndex: number, controllerId: string) => {
+    setDraftGroups(prev =>
+      normalizeInterchangeableGroups(
+        prev.map((group, i) => (i === groupIndex ? group.filter(id => id !== controllerId) : group))
+      )
+    );
+  };
+
+  const handleSave = () => {
+    onSave(draftGroups);
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Interchangeable Controllers</DialogTitle>
+          <DialogDescription>
+            Controllers in the same group can take each other&apos;s place, so UCCAs that only
+            differ by which of them acts are treated as one
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label>Groups</Label>
+            {draftGroups.length === 0 ? (
+              <p className="text-sm text-gray-500">No groups declared.</p>
+            ) : (
+              draftGroups.map((group, index) => (
+                <Card key={group.join('+')} className="flex flex-wrap gap-2 p-3">
+                  {group.map(id => (
+                    <Badge key={id} variant="secondary">
+                      {getControllerName(id)}
+                      <button
+                        onClick={() => handleRemoveFromGroup(index, id)}
+                        className="ml-1 hover:text-gray-700"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </Card>
+              ))
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>New group</Label>
+            <div className="grid max-h-60 grid-cols-2 gap-2 overflow-y-auto rounded-md border p-3">
+              {controllers.map(controller => (
+                <label
+                  key={controller.id}
+                  className="flex cursor-pointer items-center gap-2 text-sm"
+                >
+                  <Checkbox
+                    checked={selection.includes(controller.id)}
+                    onCheckedChange={() => handleToggleSelection(controller.id)}
+                  />
+                  {controller.name}
+                </label>
+              ))}
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full"
+              disabled={selection.length < 2}
+              onClick={handleAddGroup}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Group
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 border-t pt-4">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>Save</Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default InterchangeableControllersDialog;
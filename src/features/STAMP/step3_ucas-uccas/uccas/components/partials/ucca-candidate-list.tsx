@@ -0,0 +1,98 @@
+import { CheckCircle2, ShieldAlert } from 'lucide-react';
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Hazard } from '@/types/types';
+import { UCCAListItem } from '../../types';
+
+interface UCCACandidateListProps {
+  items: UCCAListItem[];
+  hazards: Hazard[];
+  onReview: (item: UCCAListItem) => void;
+}
+
+const UCCACandidateList: React.FC<UCCACandidateListProps> = ({ items, hazards, onReview }) => {
+  const getHazardCode = (id: string) => hazards.find(h => h.id === id)?.code || 'Unknown';
+
+  if (items.length === 0) {
+    return (
+      <div className="py-12 text-center text-sm text-gray-500">No combinations in this view.</div>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-24">Type</TableHead>
+          <TableHead>Combination</TableHead>
+          <TableHead className="w-40">Status</TableHead>
+          <TableHead className="w-40">Hazards</TableHead>
+          <TableHead className="w-24" />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {items.map(item => (
+          <TableRow key={item.key}>
+            <TableCell className="align-top">
+              <Badge variant="secondary" className="font-mono text-xs">
+                {item.type}
+              </Badge>
+              {item.ucca && <div className="mt-1 text-xs font-medium">{item.ucca.code}</div>}
+            </TableCell>
+            <TableCell className="align-top whitespace-normal">
+              <p className="text-sm">{item.description}</p>
+              <p className="mt-1 text-xs text-gray-500">{item.teamName}</p>
+              {item.ucca?.context && (
+                <p className="mt-1 text-xs text-gray-600 dark:text-gray-400">
+                  Context: {item.ucca.context}
+                </p>
+              )}
+            </TableCell>
+            <TableCell className="align-top">
+              {!item.ucca ? (
+                <Badge variant="outline" className="text-xs">
+                  Pending
+                </Badge>
+              ) : item.ucca.reviewStatus === 'hazardous' ? (
+                <Badge className="bg-red-100 text-xs text-red-800 dark:bg-red-900/20 dark:text-red-400">
+                  <ShieldAlert className="mr-1 h-3 w-3" />
+                  Hazardous
+                </Badge>
+              ) : (
+                <Badge className="bg-green-100 text-xs text-green-800 dark:bg-green-900/20 dark:text-green-400">
+                  <CheckCircle2 className="mr-1 h-3 w-3" />
+                  Not hazardous
+                </Badge>
+              )}
+            </TableCell>
+            <TableCell className="align-top">
+              <div className="flex flex-wrap gap-1">
+                {(item.ucca?.hazardIds || []).map(id => (
+                  <Badge key={id} variant="outline" className="text-xs">
+                    {getHazardCode(id)}
+                  </Badge>
+                ))}
+              </div>
+            </TableCell>
+            <TableCell className="align-top">
+              <Button size="sm" variant="outline" onClick={() => onReview(item)}>
+                {item.ucca ? 'Edit' : 'Review'}
+              </Button>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default UCCACandidateList;
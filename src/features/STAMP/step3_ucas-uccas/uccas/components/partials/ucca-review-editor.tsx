@@ -0,0 +1,458 @@
+import { AlertCircle, Check, CheckCircle2, Plus, ShieldAlert, X } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+} from '@/components/ui/command';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import { Hazard, UCCAReviewStatus } from '@/types/types';
+import { UCCAListItem, UCCAReview } from '../../types';
+
+interface UCCAReviewEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  item: UCCAListItem | null;
+  hazards: Hazard[];
+  onSave: (review: UCCAReview) => void;
+  onReset: () => void;
+}
+
+interface ContextCondition {
+  id: string;
+  variable: string;
+  operator: 'equals' | 'not-equals' | 'greater' | 'less' | 'contains';
+  value: string;
+}
+
+const OPERATORS = [
+  { value: 'equals', label: '=' },
+  { value: 'not-equals', label: '≠' },
+  { value: 'greater', label: '>' },
+  { value: 'less', label: '<' },
+  { value: 'contains', label: 'contains' },
+];
+
+const UCCAReviewEditor: React.FC<UCCAReviewEditorProps> = ({
+  isOpen,
+  onClose,
+  item,
+  hazards,
+  onSave,
+  onReset,
+}) => {
+  // Form state
+  const [reviewStatus, setReviewStatus] = useState<UCCAReviewStatus>('hazardous');
+  const [rationale, setRationale] = useState('');
+  const [contextText, setContextText] = useState('');
+  const [contextConditions, setContextConditions] = useState<ContextCondition[]>([]);
+  const [selectedHazards, setSelectedHazards] = useState<string[]>([]);
+
+  // UI state
+  const [showStructuredContext, setShowStructuredContext] = useState(false);
+  const [isHazardPopoverOpen, setIsHazardPopoverOpen] = useState(false);
+  const [validationErrors, setValidationErrors] = useState<string[]>([]);
+
+  // Initialize form when the item changes or the dialog opens
+  useEffect(() => {
+    const ucca = item?.ucca;
+    if (ucca) {
+      setReviewStatus(ucca.reviewStatus);
+      setRationale(ucca.rationale || '');
+      setContextText(ucca.context || '');
+      setSelectedHazards(ucca.hazardIds);
+      setShowStructuredContext(false);
+      setContextConditions([]);
+    } else {
+      setReviewStatus('hazardous');
+      setRationale('');
+      setContextText('');
+      setSelectedHazards([]);
+      setShowStructuredContext(true);
+      setContextConditions([
+        { id: Date.now().toString(), variable: '', operator: 'equals', value: '' },
+      ]);
+    }
+    setValidationErrors([]);
+  }, [item, isOpen]);
+
+  // Convert structured context to text
+  const buildContextFromConditions = () => {
+    if (contextConditions.length === 0) return '';
+
+    return contextConditions
+      .filter(c => c.variable && c.value)
+      .map(c => {
+        const op = OPERATORS.find(o => o.value === c.operator)?.label || c.operator;
+        return `${c.variable} ${op} ${c.value}`;
+      })
+      .join(' AND ');
+  };
+
+  const handleAddCondition = () => {
+    setContextConditions([
+      ...contextConditions,
+      { id: Date.now().toString(), variable: '', operator: 'equals', value: '' },
+    ]);
+  };
+
+  const handleRemoveCondition = (id: string) => {
+    setContextConditions(contextConditions.filter(c => c.id !== id));
+  };
+
+  const handleUpdateCondition = (id: string, field: keyof ContextCondition, value: string) => {
+    setContextConditions(contextConditions.map(c => (c.id === id ? { ...c, [field]: value } : c)));
+  };
+
+  const handleSelectHazard = (hazardId: string) => {
+    setSelectedHazards(prev =>
+      prev.includes(hazardId) ? prev.filter(id => id !== hazardId) : [...prev, hazardId]
+    );
+  };
+
+  const handleSave = () => {
+    const errors: string[] = [];
+    const finalContext = showStructuredContext ? buildContextFromConditions() : contextText.trim();
+
+    if (!rationale.trim()) {
+      errors.push(
+        reviewStatus === 'hazardous'
+          ? 'Explain why this combination is hazardous'
+          : 'Explain why this combination can be pruned'
+      );
+    }
+    if (reviewStatus === 'hazardous' && selectedHazards.length === 0) {
+      errors.push('A hazardous UCCA must be linked to at least one hazard');
+    }
+    if (reviewStatus === 'hazardous' && !finalContext) {
+      errors.push('Describe the context in which the combination is unsafe');
+    }
+
+    if (errors.length > 0) {
+      setValidationErrors(errors);
+      return;
+    }
+
+    onSave({
+      reviewStatus,
+      rationale: rationale.trim(),
+      context: finalContext || undefined,
+      // Pruned combinations lead to no hazard, so links would only be misleading
+      hazardIds: reviewStatus === 'hazardous' ? selectedHazards : [],
+    });
+
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-h-[90vh] max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{item?.ucca ? `Edit ${item.ucca.code}` : 'Review Combination'}</DialogTitle>
+          <DialogDescription>
+            Decide whether this combination of control actions is hazardous
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="mt-6 max-h-[calc(90vh-200px)] flex-1">
+          <div className="space-y-6 pr-4">
+            {item && (
+              <Card className="border-gray-200 bg-gray-50 p-4 dark:border-gray-800 dark:bg-gray-900">
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary" className="font-mono">
+                    {item.type}
+                  </Badge>
+                  <span className="text-sm text-gray-600 dark:text-gray-400">{item.teamName}</span>
+                </div>
+                <p className="mt-2 text-sm font-medium">{item.description}</p>
+              </Card>
+            )}
+
+            {/* Verdict */}
+            <div className="space-y-3">
+              <Label>Verdict</Label>
+              <div className="grid grid-cols-2 gap-3">
+                <Card
+                  className={cn(
+                    'cursor-pointer p-3 transition-all',
+                    reviewStatus === 'hazardous'
+                      ? 'border-red-500 bg-red-50 dark:bg-red-950/20'
+                      : 'hover:border-gray-300 dark:hover:border-gray-700'
+                  )}
+                  onClick={() => setReviewStatus('hazardous')}
+                >
+                  <div className="flex items-center gap-2">
+                    <ShieldAlert className="h-4 w-4 text-red-600" />
+                    <span className="text-sm font-medium">Hazardous</span>
+                  </div>
+                  <p className="mt-1 text-xs text-gray-600">Keep as a UCCA and link hazards</p>
+                </Card>
+                <Card
+                  className={cn(
+                    'cursor-pointer p-3 transition-all',
+                    reviewStatus === 'not-hazardous'
+                      ? 'border-green-500 bg-green-50 dark:bg-green-950/20'
+                      : 'hover:border-gray-300 dark:hover:border-gray-700'
+                  )}
+                  onClick={() => setReviewStatus('not-hazardous')}
+                >
+                  <div className="flex items-center gap-2">
+                    <CheckCircle2 className="h-4 w-4 text-green-600" />
+                    <span className="text-sm font-medium">Not hazardous</span>
+                  </div>
+                  <p className="mt-1 text-xs text-gray-600">Prune from further analysis</p>
+                </Card>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="ucca-rationale">Rationale *</Label>
+              <Textarea
+                id="ucca-rationale"
+                value={rationale}
+                onChange={e => setRationale(e.target.value)}
+                placeholder={
+                  reviewStatus === 'hazardous'
+                    ? 'Why does this combination lead to a hazard?'
+                    : 'Why can this combination never lead to a hazard?'
+                }
+                className="min-h-[80px]"
+              />
+            </div>
+
+            <Separator />
+
+            {/* Context Definition */}
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <Label>Context</Label>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setShowStructuredContext(!showStructuredContext)}
+                >
+                  {showStructuredContext ? 'Switch to Text' : 'Switch to Structured'}
+                </Button>
+              </div>
+
+              {showStructuredContext ? (
+                <div className="space-y-3">
+                  <p className="text-sm text-gray-600">
+                    Define specific conditions that make this combination unsafe
+                  </p>
+
+                  {contextConditions.map((condition, index) => (
+                    <div key={condition.id} className="flex items-center gap-2">
+                      {index > 0 && (
+                        <span className="w-10 text-sm font-medium text-gray-500">AND</span>
+                      )}
+                      <div className={cn('grid flex-1 grid-cols-3 gap-2', index > 0 && 'ml-10')}>
+                        <input
+                          type="text"
+                          placeholder="Variable (e.g., Altitude)"
+                          value={condition.variable}
+                          onChange={e =>
+                            handleUpdateCondition(condition.id, 'variable', e.target.value)
+                          }
+                          className="rounded-md border px-3 py-1.5 text-sm"
+                        />
+                        <Select
+                          value={condition.operator}
+                          onValueChange={value =>
+                            handleUpdateCondition(condition.id, 'operator', value)
+                          }
+                        >
+                          <SelectTrigger className="h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {OPERATORS.map(op => (
+                              <SelectItem key={op.value} value={op.value}>
+                                {op.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <input
+                          type="text"
+                          placeholder="Value"
+                          value={condition.value}
+                          onChange={e =>
+                            handleUpdateCondition(condition.id, 'value', e.target.value)
+                          }
+                          className="rounded-md border px-3 py-1.5 text-sm"
+                        />
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => handleRemoveCondition(condition.id)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleAddCondition}
+                    className="w-full"
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Condition
+                  </Button>
+                </div>
+              ) : (
+                <Textarea
+                  value={contextText}
+                  onChange={e => setContextText(e.target.value)}
+                  placeholder="Describe the specific conditions that make this combination unsafe..."
+                  className="min-h-[100px]"
+                />
+              )}
+            </div>
+
+            {/* Hazard Linking */}
+            {reviewStatus === 'hazardous' && (
+              <div className="space-y-2">
+                <Label>Linked Hazards *</Label>
+                <Popover open={isHazardPopoverOpen} onOpenChange={setIsHazardPopoverOpen}>
+                  <PopoverTrigger asChild>
+                    <Button variant="outline" className="w-full justify-start">
+                      <Plus className="mr-2 h-4 w-4" />
+                      Add Hazards
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-80 p-0" align="start">
+                    <Command>
+                      <CommandInput placeholder="Search hazards..." />
+                      <CommandEmpty>No hazards found.</CommandEmpty>
+                      <CommandGroup>
+                        <ScrollArea className="h-64">
+                          {hazards.map(hazard => (
+                            <CommandItem
+                              key={hazard.id}
+                              onSelect={() => handleSelectHazard(hazard.id)}
+                            >
+                              <div className="flex flex-1 items-center gap-2">
+                                <div
+                                  className={cn(
+                                    'h-4 w-4 rounded border',
+                                    selectedHazards.includes(hazard.id) &&
+                                      'border-blue-600 bg-blue-600'
+                                  )}
+                                >
+                                  {selectedHazards.includes(hazard.id) && (
+                                    <Check className="h-3 w-3 text-white" />
+                                  )}
+                                </div>
+                                <div className="flex-1">
+                                  <div className="font-medium">{hazard.code}</div>
+                                  <div className="line-clamp-2 text-sm text-gray-600">
+                                    {hazard.title}
+                                  </div>
+                                </div>
+                              </div>
+                            </CommandItem>
+                          ))}
+                        </ScrollArea>
+                      </CommandGroup>
+                    </Command>
+                  </PopoverContent>
+                </Popover>
+
+                {selectedHazards.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {selectedHazards.map(hazardId => {
+                      const hazard = hazards.find(h => h.id === hazardId);
+                      if (!hazard) return null;
+
+                      return (
+                        <Badge key={hazardId} variant="secondary">
+                          {hazard.code}
+                          <button
+                            onClick={() => handleSelectHazard(hazardId)}
+                            className="ml-1 hover:text-gray-700"
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                        </Badge>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Validation Errors */}
+            {validationErrors.length > 0 && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  <ul className="list-inside list-disc space-y-1">
+                    {validationErrors.map((error, idx) => (
+                      <li key={idx} className="text-sm">
+                        {error}
+                      </li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+        </ScrollArea>
+
+        <div className="flex justify-between gap-2 border-t pt-4">
+          <div>
+            {item?.ucca && (
+              <Button
+                variant="ghost"
+                onClick={() => {
+                  onReset();
+                  onClose();
+                }}
+              >
+                Reset to Pending
+              </Button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave}>Save Review</Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default UCCAReviewEditor;
@@ -0,0 +1,160 @@
+import { Link2, Users } from 'lucide-react';
+import React, { useMemo } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Separator } from '@/components/ui/separator';
+import { cn } from '@/lib/utils';
+import { Controller, UCCA } from '@/types/types';
+import { TeamIdentificationResult } from '../../services';
+
+interface UCCATeamNavigatorProps {
+  results: TeamIdentificationResult[];
+  uccas: UCCA[];
+  controllers: Controller[];
+  interchangeableGroups: string[][];
+  collapsedCount: number;
+  selectedTeamId: string | null;
+  onSelectTeam: (teamId: string | null) => void;
+  onManageInterchangeable: () => void;
+}
+
+const UCCATeamNavigator: React.FC<UCCATeamNavigatorProps> = ({
+  results,
+  uccas,
+  controllers,
+  interchangeableGroups,
+  collapsedCount,
+  selectedTeamId,
+  onSelectTeam,
+  onManageInterchangeable,
+}) => {
+  const reviewedKeys = useMemo(() => new Set(uccas.map(u => u.candidateKey)), [uccas]);
+
+  const stats = useMemo(() => {
+    const total = results.reduce((sum, r) => sum + r.candidates.length, 0);
+    const reviewed = results.reduce(
+      (sum, r) => sum + r.candidates.filter(c => reviewedKeys.has(c.key)).length,
+      0
+    );
+    const percentage = total > 0 ? Math.round((reviewed / total) * 100) : 0;
+    return { total, reviewed, percentage };
+  }, [results, reviewedKeys]);
+
+  const getControllerName = (id: string) => controllers.find(c => c.id === id)?.name || id;
+
+  return (
+    <div className="flex h-full flex-col">
+      {/* Header */}
+      <div className="space-y-4 p-4">
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Controller Teams</h3>
+          <p className="mt-1 text-xs text-gray-500">
+            Controllers sharing control of at least one process
+          </p>
+        </div>
+
+        <Card className="space-y-2 p-3">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-gray-600 dark:text-gray-400">Candidates reviewed</span>
+            <span className="font-medium">{stats.percentage}%</span>
+          </div>
+          <Progress value={stats.percentage} className="h-1.5" />
+          <div className="text-xs text-gray-500">
+            {stats.reviewed}/{stats.total} combinations
+          </div>
+        </Card>
+      </div>
+
+      <Separator />
+
+      <ScrollArea className="flex-1">
+        <div className="space-y-1 p-4">
+          <div
+            className={cn(
+              'flex cursor-pointer items-center justify-between rounded-md p-2 text-sm transition-colors',
+              selectedTeamId === null
+                ? 'bg-blue-50 text-blue-700 dark:bg-blue-950/30 dark:text-blue-400'
+                : 'hover:bg-gray-100 dark:hover:bg-gray-800'
+            )}
+            onClick={() => onSelectTeam(null)}
+          >
+            <span className="font-medium">All teams</span>
+            <Badge variant="secondary" className="px-1.5 py-0 text-xs">
+              {stats.total}
+            </Badge>
+          </div>
+
+          {results.map(({ team, candidates }) => {
+            const pending = candidates.filter(c => !reviewedKeys.has(c.key)).length;
+
+            return (
+              <div
+                key={team.id}
+                className={cn(
+                  'flex cursor-pointer items-center gap-2 rounded-md p-2 text-sm transition-colors',
+                  selectedTeamId === team.id
+                    ? 'bg-blue-50 text-blue-700 dark:bg-blue-950/30 dark:text-blue-400'
+                    : 'hover:bg-gray-100 dark:hover:bg-gray-800'
+                )}
+                onClick={() => onSelectTeam(team.id)}
+              >
+                <Users className="h-4 w-4 flex-shrink-0 text-gray-500" />
+                <span className="min-w-0 flex-1 truncate">
+                  {team.controllerIds.map(getControllerName).join(', ')}
+                </span>
+                {pending > 0 && (
+                  <Badge variant="outline" className="px-1.5 py-0 text-xs">
+                    {pending}
+                  </Badge>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </ScrollArea>
+
+      <Separator />
+
+      {/* Interchangeable controllers */}
+      <div className="space-y-3 p-4">
+        <div className="flex items-center justify-between">
+          <h4 className="text-xs font-medium tracking-wider text-gray-500 uppercase">
+            Interchangeable
+          </h4>
+          <Button variant="ghost" size="sm" className="h-7" onClick={onManageInterchangeable}>
+            <Link2 className="mr-1 h-3 w-3" />
+            Manage
+          </Button>
+        </div>
+        {interchangeableGroups.length === 0 ? (
+          <p className="text-xs text-gray-500">
+            No interchangeable controllers declared. Grouping crews that can swap roles collapses
+            equivalent combinations.
+          </p>
+        ) : (
+          <div className="space-y-1">
+            {interchangeableGroups.map(group => (
+              <div key={group.join('+')} className="flex flex-wrap gap-1">
+                {group.map(id => (
+                  <Badge key={id} variant="secondary" className="text-xs">
+                    {getControllerName(id)}
+                  </Badge>
+                ))}
+              </div>
+            ))}
+            {collapsedCount > 0 && (
+              <p className="pt-1 text-xs text-gray-500">
+                {collapsedCount} equivalent combination{collapsedCount === 1 ? '' : 's'} collapsed
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UCCATeamNavigator;
@@ -1,23 +1,226 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useAnalysisContext } from '@/context/AnalysisContext';
+import { buildInterchangeableSet, candidateToUCCA, identifyUCCAs } from '../services';
+import { UCCAListItem, UCCAReview } from '../types';
+import {
+  InterchangeableControllersDialog,
+  UCCACandidateList,
+  UCCAReviewEditor,
+  UCCATeamNavigator,
+} from './partials';
 
+const ALL = 'all';
+
+type StatusFilter = 'pending' | 'hazardous' | 'not-hazardous' | typeof ALL;
+
+/**
+ * UCCA review workspace: enumerates candidate combinations per controller team
+ * (Kopeikin 2024) and lets the analyst mark each one hazardous or prune it
+ */
 const UCCAs: React.FC = () => {
-  return (
-    <div className="flex h-full flex-col items-center justify-center p-8">
-      <div className="max-w-2xl space-y-4 text-center">
-        <h2 className="text-3xl font-bold text-gray-900 dark:text-gray-100">
-          UCCAs (Unsafe Combinations of Control Actions)
-        </h2>
-        <p className="text-lg text-gray-600 dark:text-gray-400">
-          This feature is under development. UCCAs will help identify unsafe combinations of control
-          actions.
-        </p>
-        <div className="mt-8 rounded-lg bg-gray-100 p-6 dark:bg-gray-800">
-          <p className="text-sm text-gray-500 dark:text-gray-400">
-            Coming soon: Analysis of unsafe control action combinations to complement the
-            traditional UCA analysis.
+  const {
+    controllers,
+    controlActions,
+    controlPaths,
+    hazards,
+    uccas,
+    interchangeableControllerGroups,
+    addUCCA,
+    updateUCCA,
+    deleteUCCA,
+    setInterchangeableControllerGroups,
+  } = useAnalysisContext();
+
+  const [selectedTeamId, setSelectedTeamId] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('pending');
+  const [typeFilter, setTypeFilter] = useState<string>(ALL);
+  const [reviewItem, setReviewItem] = useState<UCCAListItem | null>(null);
+  const [isInterchangeableOpen, setIsInterchangeableOpen] = useState(false);
+
+  const results = useMemo(
+    () =>
+      identifyUCCAs(
+        controllers,
+        controlActions,
+        controlPaths,
+        buildInterchangeableSet(interchangeableControllerGroups)
+      ),
+    [controllers, controlActions, controlPaths, interchangeableControllerGroups]
+  );
+
+  // Size of the uncollapsed candidate set, to show what the groups save
+  const collapsedCount = useMemo(() => {
+    if (interchangeableControllerGroups.length === 0) return 0;
+    const uncollapsed = identifyUCCAs(controllers, controlActions, controlPaths).reduce(
+      (sum, r) => sum + r.candidates.length,
+      0
+    );
+    return uncollapsed - results.reduce((sum, r) => sum + r.candidates.length, 0);
+  }, [controllers, controlActions, controlPaths, interchangeableControllerGroups, results]);
+
+  const teamControllers = useMemo(() => {
+    const ids = new Set(
+      results.filter(r => r.team.controllerIds.length > 1).flatMap(r => r.team.controllerIds)
+    );
+    return controllers.filter(c => ids.has(c.id));
+  }, [results, controllers]);
+
+  const items = useMemo(() => {
+    const getTeamName = (controllerIds: string[]) =>
+      controllerIds.map(id => controllers.find(c => c.id === id)?.name || id).join(', ');
+    const reviewedKeys = new Set(uccas.map(u => u.candidateKey));
+
+    const pending: UCCAListItem[] = results
+      .filter(r => !selectedTeamId || r.team.id === selectedTeamId)
+      .flatMap(r =>
+        r.candidates
+          .filter(c => !reviewedKeys.has(c.key))
+          .map(candidate => ({
+            key: candidate.key,
+            type: candidate.abstraction.type,
+            description: candidate.description,
+            teamName: getTeamName(r.team.controllerIds),
+            candidate,
+          }))
+      );
+
+    const reviewed: UCCAListItem[] = uccas
+      .filter(u => !selectedTeamId || u.teamControllerIds.join('+') === selectedTeamId)
+      .map(ucca => ({
+        key: ucca.id,
+        type: `${ucca.abstractionType}. ${ucca.uccaTypes}`,
+        description: ucca.description,
+        teamName: getTeamName(ucca.teamControllerIds),
+        ucca,
+      }));
+
+    return [...pending, ...reviewed]
+      .filter(item => {
+        if (statusFilter === ALL) return true;
+        if (statusFilter === 'pending') return !item.ucca;
+        return item.ucca?.reviewStatus === statusFilter;
+      })
+      .filter(item => typeFilter === ALL || item.type === typeFilter);
+  }, [results, uccas, controllers, selectedTeamId, statusFilter, typeFilter]);
+
+  const handleSaveReview = (review: UCCAReview) => {
+    if (!reviewItem) return;
+
+    if (reviewItem.ucca) {
+      updateUCCA(reviewItem.ucca.id, review);
+      return;
+    }
+
+    const result = results.find(r => r.team.id === reviewItem.candidate?.teamId);
+    if (result && reviewItem.candidate) {
+      addUCCA(candidateToUCCA(reviewItem.candidate, result.authority, result.team, review));
+    }
+  };
+
+  const handleResetReview = () => {
+    if (reviewItem?.ucca) {
+      deleteUCCA(reviewItem.ucca.id);
+    }
+  };
+
+  if (results.length === 0 && uccas.length === 0) {
+    return (
+      <div className="flex h-full flex-col items-center justify-center p-8">
+        <div className="max-w-2xl space-y-4 text-center">
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+            UCCAs (Unsafe Combinations of Control Actions)
+          </h2>
+          <p className="text-gray-600 dark:text-gray-400">
+            No combinations to analyse yet. UCCAs are enumerated for controllers that share control
+            of a process, or for controllers issuing more than one control action to it. Add control
+            paths and control actions in the control structure first.
           </p>
         </div>
       </div>
+    );
+  }
+
+  return (
+    <div className="flex h-full">
+      {/* Left Panel - Team Navigator */}
+      <div className="w-80 border-r bg-gray-50/50 dark:bg-gray-950/20">
+        <UCCATeamNavigator
+          results={results}
+          uccas={uccas}
+          controllers={controllers}
+          interchangeableGroups={interchangeableControllerGroups}
+          collapsedCount={collapsedCount}
+          selectedTeamId={selectedTeamId}
+          onSelectTeam={setSelectedTeamId}
+          onManageInterchangeable={() => setIsInterchangeableOpen(true)}
+        />
+      </div>
+
+      {/* Center Panel - Review Workspace */}
+      <div className="flex flex-1 flex-col">
+        <div className="flex flex-wrap items-center justify-between gap-4 border-b p-3 lg:p-6">
+          <div>
+            <h2 className="text-lg font-semibold">UCCA Review</h2>
+            <p className="text-sm text-gray-500">
+              {uccas.filter(u => u.reviewStatus === 'hazardous').length} hazardous,{' '}
+              {uccas.filter(u => u.reviewStatus === 'not-hazardous').length} pruned
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <Tabs
+              value={statusFilter}
+              onValueChange={value => setStatusFilter(value as StatusFilter)}
+            >
+              <TabsList>
+                <TabsTrigger value="pending">Pending</TabsTrigger>
+                <TabsTrigger value="hazardous">Hazardous</TabsTrigger>
+                <TabsTrigger value="not-hazardous">Pruned</TabsTrigger>
+                <TabsTrigger value={ALL}>All</TabsTrigger>
+              </TabsList>
+            </Tabs>
+            <Select value={typeFilter} onValueChange={setTypeFilter}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All abstractions</SelectItem>
+                <SelectItem value="2a. 1-2">2a. Provided (types 1-2)</SelectItem>
+                <SelectItem value="2a. 3-4">2a. Temporal (types 3-4)</SelectItem>
+                <SelectItem value="2b. 1-2">2b. Shared provided (types 1-2)</SelectItem>
+                <SelectItem value="2b. 3-4">2b. Shared temporal (types 3-4)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="flex-1 overflow-auto p-4">
+          <UCCACandidateList items={items} hazards={hazards} onReview={setReviewItem} />
+        </div>
+      </div>
+
+      <UCCAReviewEditor
+        isOpen={reviewItem !== null}
+        onClose={() => setReviewItem(null)}
+        item={reviewItem}
+        hazards={hazards}
+        onSave={handleSaveReview}
+        onReset={handleResetReview}
+      />
+
+      <InterchangeableControllersDialog
+        isOpen={isInterchangeableOpen}
+        onClose={() => setIsInterchangeableOpen(false)}
+        controllers={teamControllers}
+        groups={interchangeableControllerGroups}
+        onSave={setInterchangeableControllerGroups}
+      />
     </div>
   );
 };
@@ -1,3 +1,7 @@
 // UCCA module exports
 export { default as UCCAs } from './components/uccas';
 export { default as UCCAPlaceholder } from './components/UCCAPlaceholder';
+
+// UCCA identification engine
+export * from './services';
+export type * from './types';
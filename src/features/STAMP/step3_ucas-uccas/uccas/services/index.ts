@@ -0,0 +1,3 @@
+// Export services for the UCCA module
+export * from './disjoint-set';
+export * from './ucca-identification';
@@ -0,0 +1,247 @@
+import { describe, expect, it } from 'vitest';
+import { ControlAction, ControlPath, Controller, ControllerType } from '@/types/types';
+import { SafetyAnalysisError } from '@/utils/error-handling';
+import { AuthorityTuple, UCCAAbstraction } from '../types';
+import {
+  UCCAIdentificationAlgorithm,
+  buildAuthorityTuple,
+  buildInterchangeableSet,
+  candidateToUCCA,
+  describeUCCA,
+  findControllerTeams,
+  getActionKey,
+  identifyUCCAs,
+  normalizeInterchangeableGroups,
+} from './ucca-identification';
+
+const controller = (id: string, name: string): Controller => ({
+  id,
+  name,
+  ctrlType: ControllerType.Human,
+});
+
+const controlPath = (id: string, sourceControllerId: string, targetId: string): ControlPath => ({
+  id,
+  sourceControllerId,
+  targetId,
+  controls: '',
+  controlActionIds: [],
+});
+
+const controlAction = (
+  id: string,
+  controllerId: string,
+  verb: string,
+  object: string,
+  fields: Partial<ControlAction> = {}
+): ControlAction => ({
+  id,
+  controllerId,
+  verb,
+  object,
+  description: '',
+  isOutOfScope: false,
+  ...fields,
+});
+
+// Both pilots fly the aircraft; only the captain sets the thrust. The valve is
+// controlled by a system of its own.
+const controllers = [
+  controller('c1', 'Captain'),
+  controller('c2', 'First officer'),
+  controller('c3', 'Fuel system'),
+];
+const controlPaths = [
+  controlPath('cp1', 'c1', 'p1'),
+  controlPath('cp2', 'c2', 'p1'),
+  controlPath('cp3', 'c3', 'p2'),
+];
+const controlActions = [
+  controlAction('ca1', 'c1', 'APPLY', 'BRAKES', { controlPathId: 'cp1' }),
+  controlAction('ca2', 'c2', 'Apply', 'Brakes', { controlPathId: 'cp2' }),
+  controlAction('ca3', 'c1', 'SET', 'THRUST', { controlPathId: 'cp1', isContinuous: true }),
+  controlAction('ca4', 'c3', 'OPEN', 'VALVE', { controlPathId: 'cp3' }),
+];
+
+const [pilots] = findControllerTeams(controllers, controlPaths);
+const authority = buildAuthorityTuple(pilots, controlActions, controlPaths);
+
+describe('getActionKey', () => {
+  it('matches actions by verb and object', () => {
+    expect(getActionKey(controlActions[0])).toBe(getActionKey(controlActions[1]));
+  });
+
+  it('falls back to the name, then the id', () => {
+    expect(getActionKey(controlAction('ca5', 'c1', '', '', { name: ' Go Around ' }))).toBe(
+      'go around'
+    );
+    expect(getActionKey(controlAction('ca5', 'c1', '', ''))).toBe('ca5');
+  });
+});
+
+describe('findControllerTeams', () => {
+  it('groups the controllers sharing control of a process', () => {
+    expect(findControllerTeams(controllers, controlPaths)).toEqual([
+      { id: 'c1+c2', controllerIds: ['c1', 'c2'], processIds: ['p1'] },
+      { id: 'c3', controllerIds: ['c3'], processIds: ['p2'] },
+    ]);
+  });
+
+  it('merges teams sharing a controller', () => {
+    const teams = findControllerTeams(controllers, [
+      ...controlPaths,
+      controlPath('cp4', 'c2', 'p2'),
+    ]);
+
+    expect(teams).toEqual([
+      { id: 'c1+c2+c3', controllerIds: ['c1', 'c2', 'c3'], processIds: ['p1', 'p2'] },
+    ]);
+  });
+});
+
+describe('buildAuthorityTuple', () => {
+  it('collects the in-scope actions of the team by key', () => {
+    expect([...authority.actions.values()]).toEqual([
+      {
+        id: 'apply brakes',
+        label: 'APPLY BRAKES',
+        discrete: true,
+        controlActionIds: ['ca1', 'ca2'],
+      },
+      { id: 'set thrust', label: 'SET THRUST', discrete: false, controlActionIds: ['ca3'] },
+    ]);
+    expect(authority.controllers).toEqual(
+      new Map([
+        ['c1', new Set(['apply brakes', 'set thrust'])],
+        ['c2', new Set(['apply brakes'])],
+      ])
+    );
+  });
+
+  it('leaves out actions out of scope or on paths to other processes', () => {
+    const actions = [
+      controlAction('ca1', 'c1', 'APPLY', 'BRAKES', { isOutOfScope: true }),
+      controlAction('ca2', 'c2', 'OPEN', 'VALVE', { controlPathId: 'cp4' }),
+    ];
+    const paths = [...controlPaths, controlPath('cp4', 'c2', 'p2')];
+
+    expect(buildAuthorityTuple(pilots, actions, paths).actions.size).toBe(0);
+  });
+});
+
+describe('UCCAIdentificationAlgorithm', () => {
+  it('enumerates the combinations of Table 4-14', () => {
+    const candidates = new UCCAIdentificationAlgorithm(authority).identify();
+    const count = (type: string, action: string) =>
+      candidates.filter(ucca => ucca.type === type && ucca.action === action).length;
+
+    expect(count('2a. 1-2', 'apply brakes')).toBe(4);
+    expect(count('2a. 3-4', 'apply brakes')).toBe(4);
+    expect(count('2b. 1-2', 'apply brakes')).toBe(6);
+    expect(count('2b. 3-4', 'apply brakes')).toBe(8);
+    expect(count('2a. 1-2', 'set thrust')).toBe(4);
+    // Braking is discrete, so the thrust can't be set while braking ends
+    expect(count('2a. 3-4', 'set thrust')).toBe(2);
+    // Only the captain sets the thrust, so no one shares its authority
+    expect(count('2b. 1-2', 'set thrust')).toBe(0);
+    expect(candidates).toHaveLength(28);
+  });
+
+  it('collapses the combinations of interchangeable controllers', () => {
+    const interchangeable = buildInterchangeableSet([['c1', 'c2']]);
+
+    const candidates = new UCCAIdentificationAlgorithm(authority, interchangeable).identify();
+
+    expect(candidates.filter(ucca => ucca.abstractionType === '2b')).toHaveLength(7);
+    expect(candidates).toHaveLength(21);
+  });
+
+  it('refuses an authority tuple with undefined actions', () => {
+    const invalid: AuthorityTuple = {
+      controllers: new Map([['c1', new Set(['apply brakes'])]]),
+      actions: new Map([
+        [
+          'set thrust',
+          { id: 'set thrust', label: 'SET THRUST', discrete: false, controlActionIds: [] },
+        ],
+      ]),
+    };
+
+    expect(() => new UCCAIdentificationAlgorithm(invalid)).toThrow(SafetyAnalysisError);
+  });
+});
+
+describe('describeUCCA', () => {
+  it('states combinations of actions and of controllers', () => {
+    const combination: UCCAAbstraction = {
+      abstractionType: '2a',
+      uccaTypes: '1-2',
+      type: '2a. 1-2',
+      action: 'apply brakes',
+      otherActions: ['set thrust'],
+      actionState: 'provided',
+      otherActionsState: 'provided',
+    };
+    const sharedAuthority: UCCAAbstraction = {
+      abstractionType: '2b',
+      uccaTypes: '1-2',
+      type: '2b. 1-2',
+      action: 'apply brakes',
+      controller: 'c1',
+      otherControllers: ['c2'],
+      actionState: 'not provided',
+      otherActionsState: 'not provided',
+    };
+
+    expect(describeUCCA(combination, authority, controllers)).toBe(
+      '"APPLY BRAKES" is provided while at least one of "SET THRUST" is provided'
+    );
+    expect(describeUCCA(sharedAuthority, authority, controllers)).toBe(
+      'Captain does not provide "APPLY BRAKES" while at least one of First officer does not provide it'
+    );
+  });
+});
+
+describe('candidateToUCCA', () => {
+  it('links a reviewed candidate to the control actions and controllers involved', () => {
+    const [result] = identifyUCCAs(controllers, controlActions, controlPaths);
+    const candidate = result.candidates.find(c => c.abstraction.abstractionType === '2b')!;
+
+    expect(
+      candidateToUCCA(candidate, authority, pilots, {
+        reviewStatus: 'hazardous',
+        rationale: 'Neither pilot brakes',
+        context: 'Rejected take-off',
+        hazardIds: ['h1'],
+      })
+    ).toEqual(
+      expect.objectContaining({
+        candidateKey: candidate.key,
+        teamControllerIds: ['c1', 'c2'],
+        controlActionIds: ['ca1', 'ca2'],
+        otherControlActionIds: [],
+        controllerId: 'c1',
+        otherControllerIds: ['c2'],
+        reviewStatus: 'hazardous',
+        hazardIds: ['h1'],
+      })
+    );
+  });
+});
+
+describe('identifyUCCAs', () => {
+  it('omits teams without combinable actions', () => {
+    const results = identifyUCCAs(controllers, controlActions, controlPaths);
+
+    expect(results.map(result => result.team.id)).toEqual(['c1+c2']);
+    expect(results[0].candidates[0].key).toMatch(/^c1\+c2::/);
+  });
+});
+
+describe('normalizeInterchangeableGroups', () => {
+  it('merges overlapping groups and drops single controllers', () => {
+    expect(normalizeInterchangeableGroups([['c2', 'c1'], ['c3', 'c2'], ['c4'], []])).toEqual([
+      ['c1', 'c2', 'c3'],
+    ]);
+  });
+});
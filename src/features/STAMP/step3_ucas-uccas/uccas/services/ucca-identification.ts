@@ -0,0 +1,428 @@
+import { ControlAction, Controller, ControlPath } from '@/types/types';
+import { SafetyAnalysisError } from '@/utils/error-handling';
+import {
+  ActionProps,
+  ActionState,
+  AuthorityTuple,
+  ControllerTeam,
+  ProvidedActionState,
+  TemporalActionState,
+  UCCAAbstraction,
+  UCCACandidate,
+  UCCADraft,
+  UCCAReview,
+} from '../types';
+import { DisjointSet } from './disjoint-set';
+
+const PROVIDED_STATES: ProvidedActionState[] = ['provided', 'not provided'];
+const TEMPORAL_STATES: TemporalActionState[] = ['starts', 'ends'];
+
+/**
+ * Control actions issued by different controllers are treated as the same action
+ * when their verb and object match
+ */
+export function getActionKey(action: ControlAction): string {
+  const key = `${action.verb} ${action.object}`.trim().toLowerCase();
+  return key || action.name?.trim().toLowerCase() || action.id;
+}
+
+/**
+ * Groups controllers into teams: controllers whose control paths target the same
+ * process share control of it, and overlapping groups are merged
+ */
+export function findControllerTeams(
+  controllers: Controller[],
+  controlPaths: ControlPath[]
+): ControllerTeam[] {
+  const controllerIds = new Set(controllers.map(c => c.id));
+  const processControllers = new Map<string, Set<string>>();
+
+  controlPaths.forEach(path => {
+    if (!controllerIds.has(path.sourceControllerId)) return;
+    const set = processControllers.get(path.targetId) || new Set<string>();
+    set.add(path.sourceControllerId);
+    processControllers.set(path.targetId, set);
+  });
+
+  const teams = new DisjointSet<string>();
+  processControllers.forEach(sharing => {
+    const [first, ...rest] = Array.from(sharing);
+    teams.add(first);
+    rest.forEach(other => teams.merge(first, other));
+  });
+
+  return Array.from(teams.groups().values()).map(members => {
+    const memberIds = [...members].sort();
+    const processIds = Array.from(processControllers.entries())
+      .filter(([, sharing]) => memberIds.some(id => sharing.has(id)))
+      .map(([processId]) => processId);
+
+    return { id: memberIds.join('+'), controllerIds: memberIds, processIds };
+  });
+}
+
+/**
+ * Builds the authority tuple (Kopeikin p.101) for a controller team from the
+ * in-scope control actions its controllers issue over the team's processes
+ */
+export function buildAuthorityTuple(
+  team: ControllerTeam,
+  controlActions: ControlAction[],
+  controlPaths: ControlPath[]
+): AuthorityTuple {
+  const teamPathIds = new Set(
+    controlPaths
+      .filter(
+        path =>
+          team.controllerIds.includes(path.sourceControllerId) &&
+          team.processIds.includes(path.targetId)
+      )
+      .map(path => path.id)
+  );
+
+  const authority: AuthorityTuple = { controllers: new Map(), actions: new Map() };
+  team.controllerIds.forEach(id => authority.controllers.set(id, new Set()));
+
+  controlActions.forEach(action => {
+    if (action.isOutOfScope || !team.controllerIds.includes(action.controllerId)) return;
+
+    const linkedPathIds = controlPaths
+      .filter(p => p.id === action.controlPathId || p.controlActionIds?.includes(action.id))
+      .map(p => p.id);
+    // Actions not yet linked to a path are assumed to act on the team's processes
+    if (linkedPathIds.length > 0 && !linkedPathIds.some(id => teamPathIds.has(id))) return;
+
+    const key = getActionKey(action);
+    const existing = authority.actions.get(key);
+    const props: ActionProps = existing || {
+      id: key,
+      label: `${action.verb} ${action.object}`.trim() || action.name || key,
+      discrete: true,
+      controlActionIds: [],
+    };
+    props.controlActionIds.push(action.id);
+    props.discrete = props.discrete && !action.isContinuous;
+
+    authority.actions.set(key, props);
+    authority.controllers.get(action.controllerId)?.add(key);
+  });
+
+  return authority;
+}
+
+/**
+ * Manages state for implementing the UCCA Identification Algorithm (Kopeikin 2024 p.100).
+ *
+ * This should be executed for a single controller team at a time (a controller team is a set of
+ * controllers which share control of at least one process).
+ */
+export class UCCAIdentificationAlgorithm {
+  private authority: AuthorityTuple;
+  private interchangeable: DisjointSet<string>;
+  private actionToControllers = new Map<string, Set<string>>();
+
+  constructor(authority: AuthorityTuple, interchangeable: DisjointSet<string> = new DisjointSet()) {
+    this.authority = authority;
+    this.interchangeable = interchangeable;
+
+    this.validateInputs();
+    this.initialize();
+  }
+
+  private validateInputs() {
+    const errors: string[] = [];
+    const controllerActions = new Set<string>();
+    this.authority.controllers.forEach((actions, controller) => {
+      actions.forEach(action => {
+        controllerActions.add(action);
+        if (!this.authority.actions.has(action)) {
+          errors.push(
+            `No action properties provided for ${action}, but was given in controller ${controller}.`
+          );
+        }
+      });
+    });
+
+    this.authority.actions.forEach((_, action) => {
+      if (!controllerActions.has(action)) {
+        errors.push(`No controller defines action ${action}`);
+      }
+    });
+
+    if (errors.length > 0) {
+      throw new SafetyAnalysisError('INVALID_AUTHORITY_TUPLE', errors.join(' \n'), 'high', {
+        component: 'UCCAIdentificationAlgorithm',
+        action: 'validateInputs',
+        timestamp: new Date(),
+      });
+    }
+  }
+
+  private initialize() {
+    this.authority.controllers.forEach((actions, controller) => {
+      actions.forEach(action => {
+        const set = this.actionToControllers.get(action) || new Set<string>();
+        set.add(controller);
+        this.actionToControllers.set(action, set);
+      });
+    });
+  }
+
+  /**
+   * Key under which equivalent combinations collapse. Controllers in the same
+   * interchangeable set are replaced by their set's root element.
+   */
+  getCandidateKey(ucca: UCCAAbstraction): string {
+    if (ucca.abstractionType === '2a') {
+      return [ucca.type, ucca.action, ucca.actionState, ucca.otherActionsState].join('|');
+    }
+
+    const controller = this.interchangeable.find(ucca.controller);
+    const others = Array.from(new Set(ucca.otherControllers.map(c => this.interchangeable.find(c))))
+      .sort()
+      .join(',');
+    return [
+      ucca.type,
+      ucca.action,
+      controller,
+      others,
+      ucca.actionState,
+      ucca.otherActionsState,
+    ].join('|');
+  }
+
+  /** As per Table 4-14, p.102 */
+  enumerateCombinations(accept: (ucca: UCCAAbstraction) => void) {
+    this.authority.actions.forEach((_, action) => {
+      const otherActions = Array.from(this.authority.actions.keys()).filter(a => a !== action);
+
+      // Row 1; 4 cases. Needs at least one other action to combine with.
+      if (otherActions.length > 0) {
+        PROVIDED_STATES.forEach(actionState => {
+          PROVIDED_STATES.forEach(otherActionsState => {
+            accept({
+              abstractionType: '2a',
+              uccaTypes: '1-2',
+              type: '2a. 1-2',
+              action,
+              otherActions,
+              actionState,
+              otherActionsState,
+            });
+          });
+        });
+      }
+
+      // Row 3; 8 cases
+      const otherContinuousActions = otherActions.filter(
+        a => !this.authority.actions.get(a)?.discrete
+      );
+      TEMPORAL_STATES.forEach(actionState => {
+        TEMPORAL_STATES.forEach(otherActionsState => {
+          const oa = otherActionsState === 'ends' ? otherContinuousActions : otherActions;
+          if (oa.length === 0) {
+            return;
+          }
+          accept({
+            abstractionType: '2a',
+            uccaTypes: '3-4',
+            type: '2a. 3-4',
+            action,
+            otherActions: oa,
+            actionState,
+            otherActionsState,
+          });
+        });
+      });
+
+      const controllers = Array.from(this.actionToControllers.get(action) || []);
+      controllers.forEach(controller => {
+        const otherControllers = controllers.filter(other => other !== controller);
+        // Shared-authority abstractions only apply when another controller can issue the action
+        if (otherControllers.length === 0) {
+          return;
+        }
+
+        // Row 2; 3 cases
+        accept({
+          abstractionType: '2b',
+          uccaTypes: '1-2',
+          type: '2b. 1-2',
+          action,
+          controller,
+          otherControllers,
+          actionState: 'not provided',
+          otherActionsState: 'not provided',
+        });
+        PROVIDED_STATES.forEach(otherActionsState => {
+          accept({
+            abstractionType: '2b',
+            uccaTypes: '1-2',
+            type: '2b. 1-2',
+            action,
+            controller,
+            otherControllers,
+            actionState: 'provided',
+            otherActionsState,
+          });
+        });
+
+        // Row 4; 4 cases
+        TEMPORAL_STATES.forEach(actionState => {
+          TEMPORAL_STATES.forEach(otherActionsState => {
+            accept({
+              abstractionType: '2b',
+              uccaTypes: '3-4',
+              type: '2b. 3-4',
+              action,
+              controller,
+              otherControllers,
+              actionState,
+              otherActionsState,
+            });
+          });
+        });
+      });
+    });
+  }
+
+  /** Enumerates every combination, collapsing those made equivalent by interchangeable controllers */
+  identify(): UCCAAbstraction[] {
+    const seen = new Set<string>();
+    const result: UCCAAbstraction[] = [];
+    this.enumerateCombinations(ucca => {
+      const key = this.getCandidateKey(ucca);
+      if (seen.has(key)) return;
+      seen.add(key);
+      result.push(ucca);
+    });
+    return result;
+  }
+}
+
+const describeState = (state: ActionState, subjectIsController: boolean): string => {
+  switch (state) {
+    case 'provided':
+      return subjectIsController ? 'provides' : 'is provided';
+    case 'not provided':
+      return subjectIsController ? 'does not provide' : 'is not provided';
+    default:
+      return state;
+  }
+};
+
+/**
+ * Human-readable statement of a combination, e.g.
+ * `"open valve" is provided while at least one of "close valve" is provided`
+ */
+export function describeUCCA(
+  ucca: UCCAAbstraction,
+  authority: AuthorityTuple,
+  controllers: Controller[]
+): string {
+  const actionLabel = (key: string) => `"${authority.actions.get(key)?.label || key}"`;
+  const controllerName = (id: string) => controllers.find(c => c.id === id)?.name || id;
+
+  if (ucca.abstractionType === '2a') {
+    return `${actionLabel(ucca.action)} ${describeState(ucca.actionState, false)} while at least one of ${ucca.otherActions
+      .map(actionLabel)
+      .join(', ')} ${describeState(ucca.otherActionsState, false)}`;
+  }
+
+  return `${controllerName(ucca.controller)} ${describeState(ucca.actionState, true)} ${actionLabel(
+    ucca.action
+  )} while at least one of ${ucca.otherControllers
+    .map(controllerName)
+    .join(', ')} ${describeState(ucca.otherActionsState, true)} it`;
+}
+
+/** Converts a reviewed candidate into the shape stored in AnalysisData */
+export function candidateToUCCA(
+  candidate: UCCACandidate,
+  authority: AuthorityTuple,
+  team: ControllerTeam,
+  review: UCCAReview
+): UCCADraft {
+  const { abstraction } = candidate;
+  const controlActionIdsFor = (key: string) => authority.actions.get(key)?.controlActionIds || [];
+
+  const base = {
+    candidateKey: candidate.key,
+    abstractionType: abstraction.abstractionType,
+    uccaTypes: abstraction.uccaTypes,
+    teamControllerIds: team.controllerIds,
+    actionState: abstraction.actionState,
+    otherActionsState: abstraction.otherActionsState,
+    description: candidate.description,
+    ...review,
+  };
+
+  if (abstraction.abstractionType === '2a') {
+    return {
+      ...base,
+      controlActionIds: controlActionIdsFor(abstraction.action),
+      otherControlActionIds: abstraction.otherActions.flatMap(controlActionIdsFor),
+    };
+  }
+
+  return {
+    ...base,
+    controlActionIds: controlActionIdsFor(abstraction.action),
+    otherControlActionIds: [],
+    controllerId: abstraction.controller,
+    otherControllerIds: abstraction.otherControllers,
+  };
+}
+
+/**
+ * Merges overlapping groups of interchangeable controllers and drops groups with
+ * fewer than two members, so the stored groups stay disjoint
+ */
+export function normalizeInterchangeableGroups(groups: string[][]): string[][] {
+  const interchangeable = buildInterchangeableSet(groups);
+  return Array.from(interchangeable.groups().values())
+    .filter(members => members.length > 1)
+    .map(members => [...members].sort());
+}
+
+/** Builds Cint, the set of sets of interchangeable controllers, from stored groups */
+export function buildInterchangeableSet(groups: string[][]): DisjointSet<string> {
+  const interchangeable = new DisjointSet<string>();
+  groups.forEach(([first, ...rest]) => {
+    if (!first) return;
+    interchangeable.add(first);
+    rest.forEach(other => interchangeable.merge(first, other));
+  });
+  return interchangeable;
+}
+
+export interface TeamIdentificationResult {
+  team: ControllerTeam;
+  authority: AuthorityTuple;
+  candidates: UCCACandidate[];
+}
+
+/**
+ * Runs the identification algorithm for every controller team of the analysis.
+ * Teams without any combinable actions are omitted.
+ */
+export function identifyUCCAs(
+  controllers: Controller[],
+  controlActions: ControlAction[],
+  controlPaths: ControlPath[],
+  interchangeable: DisjointSet<string> = new DisjointSet()
+): TeamIdentificationResult[] {
+  return findControllerTeams(controllers, controlPaths)
+    .map(team => {
+      const authority = buildAuthorityTuple(team, controlActions, controlPaths);
+      const algorithm = new UCCAIdentificationAlgorithm(authority, interchangeable);
+      const candidates = algorithm.identify().map(abstraction => ({
+        key: `${team.id}::${algorithm.getCandidateKey(abstraction)}`,
+        teamId: team.id,
+        abstraction,
+        description: describeUCCA(abstraction, authority, controllers),
+      }));
+      return { team, authority, candidates };
+    })
+    .filter(result => result.candidates.length > 0);
+}
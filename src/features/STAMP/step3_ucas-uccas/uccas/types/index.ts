@@ -0,0 +1,109 @@
+// Export types for the UCCA module
+import { UCCA } from '@/types/types';
+
+export type TemporalActionState = 'starts' | 'ends';
+export type ProvidedActionState = 'provided' | 'not provided';
+export type ActionState = TemporalActionState | ProvidedActionState;
+
+/**
+ * Abstraction type 2a (Kopeikin 2024 p.93). Is assumed to be in the context of a
+ * specific controller team.
+ */
+export interface Abstraction2a<S extends ActionState> {
+  abstractionType: '2a';
+  action: string;
+  otherActions: string[];
+  /** The state the `action` is set to (provided, not provided, starts, ends). */
+  actionState: S;
+  /** The state at least one of the `otherActions` is set to. */
+  otherActionsState: S;
+}
+
+/** Abstraction type 2b (Kopeikin 2024 p.93). */
+export interface Abstraction2b<S extends ActionState> {
+  abstractionType: '2b';
+  action: string;
+  controller: string;
+  otherControllers: string[];
+  /** The state the `action` is set to for the `controller`. */
+  actionState: S;
+  /** The state the `action` is set to for at least one of the `otherControllers`. */
+  otherActionsState: S;
+}
+
+export interface ProvidedActionsUCCA extends Abstraction2a<ProvidedActionState> {
+  type: '2a. 1-2';
+  uccaTypes: '1-2';
+}
+
+export interface ProvidedSharedActionsUCCA extends Abstraction2b<ProvidedActionState> {
+  type: '2b. 1-2';
+  uccaTypes: '1-2';
+}
+
+export interface TemporalActionsUCCA extends Abstraction2a<TemporalActionState> {
+  type: '2a. 3-4';
+  uccaTypes: '3-4';
+}
+
+export interface TemporalSharedActionsUCCA extends Abstraction2b<TemporalActionState> {
+  type: '2b. 3-4';
+  uccaTypes: '3-4';
+}
+
+/**
+ * Union of the four UCCA cases of Kopeikin (2024) Table 4-14 (p.102), discriminated
+ * on `type` for pattern matching
+ */
+export type UCCAAbstraction =
+  | ProvidedActionsUCCA
+  | ProvidedSharedActionsUCCA
+  | TemporalActionsUCCA
+  | TemporalSharedActionsUCCA;
+
+/**
+ * An action in the authority tuple. Control actions with the same verb and object
+ * issued by different controllers are the same action, which is what lets 2b
+ * abstractions reason about shared authority.
+ */
+export interface ActionProps {
+  id: string;
+  label: string;
+  discrete: boolean;
+  controlActionIds: string[];
+}
+
+/** As defined on Kopeikin p.101 */
+export interface AuthorityTuple {
+  controllers: Map<string, Set<string>>;
+  actions: Map<string, ActionProps>;
+}
+
+/** A set of controllers which share control of at least one process */
+export interface ControllerTeam {
+  id: string;
+  controllerIds: string[];
+  processIds: string[];
+}
+
+export interface UCCACandidate {
+  key: string;
+  teamId: string;
+  abstraction: UCCAAbstraction;
+  description: string;
+}
+
+export type UCCADraft = Omit<UCCA, 'id' | 'code'>;
+
+/** The analyst's verdict on a candidate combination */
+export type UCCAReview = Pick<UCCA, 'reviewStatus' | 'rationale' | 'context' | 'hazardIds'>;
+
+/** A workspace row: either a candidate awaiting review or a stored, reviewed UCCA */
+export interface UCCAListItem {
+  key: string;
+  type: string;
+  description: string;
+  teamName: string;
+  candidate?: UCCACandidate;
+  ucca?: UCCA;
+}
@@ -1,10 +1,101 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
+import { useAnalysisContext } from '@/context/AnalysisContext';
+import { CausalScenario } from '@/types/types';
+import { calculateScenarioCoverage } from '../services';
+import { ScenarioEditor, ScenarioList, ScenarioUCANavigator } from './partials';
 
+/**
+ * Step 5 workspace: lists UCAs on the left and manages the causal scenarios
+ * explaining each one in the centre panel
+ */
 const CausalScenarios: React.FC = () => {
+  const { controllers, systemComponents, hazards, ucas, scenarios, addScenario, updateScenario } =
+    useAnalysisContext();
+
+  const [selectedUCAId, setSelectedUCAId] = useState<string | null>(null);
+  const [editingScenario, setEditingScenario] = useState<CausalScenario | null>(null);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+
+  const coverage = useMemo(() => calculateScenarioCoverage(ucas, scenarios), [ucas, scenarios]);
+
+  const selectedUCA = useMemo(
+    () => ucas.find(uca => uca.id === selectedUCAId) || null,
+    [ucas, selectedUCAId]
+  );
+
+  const visibleScenarios = useMemo(() => {
+    if (!selectedUCAId) return scenarios;
+    return scenarios.filter(scenario => scenario.ucaId === selectedUCAId);
+  }, [scenarios, selectedUCAId]);
+
+  const handleCreateScenario = () => {
+    setEditingScenario(null);
+    setIsEditorOpen(true);
+  };
+
+  const handleEditScenario = (scenario: CausalScenario) => {
+    setEditingScenario(scenario);
+    setIsEditorOpen(true);
+  };
+
+  const handleCloseEditor = () => {
+    setIsEditorOpen(false);
+    setEditingScenario(null);
+  };
+
+  const handleSaveScenario = (data: Omit<CausalScenario, 'id' | 'code'>) => {
+    if (editingScenario) {
+      updateScenario(editingScenario.id, data);
+    } else {
+      addScenario(data);
+    }
+  };
+
+  // The editor works against the scenario's own UCA so editing from the "all" view keeps the link
+  const editorUCA = editingScenario
+    ? ucas.find(uca => uca.id === editingScenario.ucaId) || null
+    : selectedUCA;
+
   return (
-    <div className="p-6">
-      <h2 className="mb-4 text-2xl font-bold">Step 5: Causal Scenarios</h2>
-      <p className="text-gray-600">Not yet implemented</p>
+    <div className="flex h-full">
+      {/* Left Panel - UCA Navigator */}
+      <div className="w-80 border-r bg-gray-50/50 dark:bg-gray-950/20">
+        <ScenarioUCANavigator
+          controllers={controllers}
+          ucas={ucas}
+          coverage={coverage}
+          selectedUCAId={selectedUCAId}
+          onSelectUCA={setSelectedUCAId}
+        />
+      </div>
+
+      {/* Center Panel - Scenario Workspace */}
+      <div className="flex flex-1 flex-col">
+        <div className="border-b px-3 pt-3 lg:px-6 lg:pt-6">
+          <h2 className="mb-4 text-lg font-semibold">Causal Scenarios</h2>
+        </div>
+        <div className="flex-1">
+          <ScenarioList
+            scenarios={visibleScenarios}
+            selectedUCA={selectedUCA}
+            ucas={ucas}
+            hazards={hazards}
+            onCreateScenario={handleCreateScenario}
+            onEditScenario={handleEditScenario}
+          />
+        </div>
+      </div>
+
+      <ScenarioEditor
+        isOpen={isEditorOpen}
+        onClose={handleCloseEditor}
+        scenario={editingScenario}
+        uca={editorUCA}
+        hazards={hazards}
+        controllers={controllers}
+        systemComponents={systemComponents}
+        onSave={handleSaveScenario}
+      />
     </div>
   );
 };
@@ -0,0 +1,5 @@
+// Barrel export for Causal Scenarios partials
+
+export { default as ScenarioEditor } from './scenario-editor';
+export { default as ScenarioList } from './scenario-list';
+export { default as ScenarioUCANavigator } from './scenario-uca-navigator';
@@ -0,0 +1,591 @@
+import { AlertCircle, Check, Plus, X } from 'lucide-react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+} from '@/components/ui/command';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import {
+  CausalFactor,
+  CausalScenario,
+  Controller,
+  Hazard,
+  SystemComponent,
+  UnsafeControlAction,
+} from '@/types/types';
+import { calculateRiskLevel } from '../../services';
+import { CausalFactorType, ScenarioLikelihood, ScenarioSeverity, ScenarioType } from '../../types';
+
+interface ScenarioEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  scenario: CausalScenario | null;
+  uca: UnsafeControlAction | null;
+  hazards: Hazard[];
+  controllers: Controller[];
+  systemComponents: SystemComponent[];
+  onSave: (data: Omit<CausalScenario, 'id' | 'code'>) => void;
+}
+
+const SCENARIO_TYPES: { value: ScenarioType; description: string }[] = [
+  { value: 'Design Flaws', description: 'Inadequate control algorithm or system design' },
+  { value: 'Component Failure', description: 'Sensor, actuator or process hardware fails' },
+  { value: 'Human Error', description: 'Operator action or decision contributes to the UCA' },
+  {
+    value: 'Process Model Flaw',
+    description: 'Controller belief about the process state is wrong',
+  },
+  {
+    value: 'Communication Failure',
+    description: 'Feedback or coordination between controllers breaks down',
+  },
+];
+
+const LIKELIHOODS: ScenarioLikelihood[] = ['Low', 'Medium', 'High'];
+const SEVERITIES: ScenarioSeverity[] = ['Low', 'Medium', 'High', 'Critical'];
+const FACTOR_TYPES: CausalFactorType[] = [
+  'Physical',
+  'Human',
+  'Software',
+  'Environmental',
+  'Organizational',
+];
+
+// Causal factor categories follow the STPA Handbook guidance for scenario identification
+const FACTOR_CATEGORIES = [
+  'Inadequate control algorithm',
+  'Inadequate process model',
+  'Inadequate or missing feedback',
+  'Unsafe control input',
+  'Actuator failure',
+  'Sensor failure',
+  'Controlled process failure',
+  'Coordination between controllers',
+  'Other',
+];
+
+const NONE_VALUE = 'none';
+
+const createEmptyFactor = (): CausalFactor => ({
+  id: uuidv4(),
+  type: 'Software',
+  category: FACTOR_CATEGORIES[0],
+  description: '',
+});
+
+const ScenarioEditor: React.FC<ScenarioEditorProps> = ({
+  isOpen,
+  onClose,
+  scenario,
+  uca,
+  hazards,
+  controllers,
+  systemComponents,
+  onSave,
+}) => {
+  // Form state
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [scenarioType, setScenarioType] = useState<ScenarioType | undefined>(undefined);
+  const [likelihood, setLikelihood] = useState<ScenarioLikelihood | undefined>(undefined);
+  const [severity, setSeverity] = useState<ScenarioSeverity | undefined>(undefined);
+  const [causalFactors, setCausalFactors] = useState<CausalFactor[]>([]);
+  const [assumptions, setAssumptions] = useState<string[]>([]);
+  const [selectedHazards, setSelectedHazards] = useState<string[]>([]);
+  const [mitigationStrategy, setMitigationStrategy] = useState('');
+
+  // UI state
+  const [isHazardPopoverOpen, setIsHazardPopoverOpen] = useState(false);
+  const [validationErrors, setValidationErrors] = useState<string[]>([]);
+
+  // Initialize form when the scenario changes or the dialog opens
+  useEffect(() => {
+    if (scenario) {
+      setTitle(scenario.title || scenario.name || '');
+      setDescription(scenario.description);
+      setScenarioType(scenario.scenarioType);
+      setLikelihood(scenario.likelihood);
+      setSeverity(scenario.severity);
+      setCausalFactors(scenario.causalFactors.length > 0 ? scenario.causalFactors : []);
+      setAssumptions(scenario.assumptions || []);
+      setSelectedHazards(scenario.hazardIds || []);
+      setMitigationStrategy(scenario.mitigationStrategy || '');
+    } else {
+      setTitle('');
+      setDescription('');
+      setScenarioType(undefined);
+      setLikelihood(undefined);
+      setSeverity(undefined);
+      setCausalFactors([createEmptyFactor()]);
+      setAssumptions([]);
+      // New scenarios inherit the hazards of the UCA they explain
+      setSelectedHazards(uca?.hazardIds || []);
+      setMitigationStrategy('');
+    }
+    setValidationErrors([]);
+  }, [scenario, uca, isOpen]);
+
+  const riskLevel = useMemo(() => calculateRiskLevel(likelihood, severity), [likelihood, severity]);
+
+  const handleUpdateFactor = (id: string, updates: Partial<CausalFactor>) => {
+    setCausalFactors(prev => prev.map(f => (f.id === id ? { ...f, ...updates } : f)));
+  };
+
+  const handleRemoveFactor = (id: string) => {
+    setCausalFactors(prev => prev.filter(f => f.id !== id));
+  };
+
+  const handleUpdateAssumption = (index: number, value: string) => {
+    setAssumptions(prev => prev.map((a, i) => (i === index ? value : a)));
+  };
+
+  const handleSelectHazard = (hazardId: string) => {
+    setSelectedHazards(prev =>
+      prev.includes(hazardId) ? prev.filter(id => id !== hazardId) : [...prev, hazardId]
+    );
+  };
+
+  const handleSave = () => {
+    const errors: string[] = [];
+    const factors = causalFactors.filter(f => f.description.trim());
+
+    if (!uca && !scenario?.ucaId) {
+      errors.push('A scenario must be linked to a UCA');
+    }
+    if (!description.trim()) {
+      errors.push('Description is required');
+    }
+    if (factors.length === 0) {
+      errors.push('At least one causal factor with a description is required');
+    }
+
+    if (errors.length > 0) {
+      setValidationErrors(errors);
+      return;
+    }
+
+    onSave({
+      ucaId: scenario?.ucaId || uca?.id,
+      title: title.trim() || undefined,
+      description: description.trim(),
+      causalFactors: factors.map(f => ({ ...f, description: f.description.trim() })),
+      scenarioType,
+      likelihood,
+      severity,
+      riskLevel,
+      assumptions: assumptions.map(a => a.trim()).filter(Boolean),
+      hazardIds: selectedHazards,
+      mitigationStrategy: mitigationStrategy.trim() || undefined,
+    });
+
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-h-[90vh] max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{scenario ? 'Edit Causal Scenario' : 'Create Causal Scenario'}</DialogTitle>
+          <DialogDescription>
+            Describe how the unsafe control action could occur and the factors that cause it
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="mt-6 max-h-[calc(90vh-200px)] flex-1">
+          <div className="space-y-6 pr-4">
+            {uca && (
+              <Card className="border-gray-200 bg-gray-50 p-4 dark:border-gray-800 dark:bg-gray-900">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-gray-600 dark:text-gray-400">Scenario for:</span>
+                  <Badge variant="secondary">{uca.code}</Badge>
+                </div>
+                <p className="mt-1 text-sm font-medium">{uca.description || uca.context}</p>
+              </Card>
+            )}
+
+            {/* Title & Description */}
+            <div className="space-y-2">
+              <Label htmlFor="scenario-title">Title</Label>
+              <Input
+                id="scenario-title"
+                value={title}
+                onChange={e => setTitle(e.target.value)}
+                placeholder="Short name for the scenario"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="scenario-description">Description</Label>
+              <Textarea
+                id="scenario-description"
+                value={description}
+                onChange={e => setDescription(e.target.value)}
+                placeholder="The UCA occurs because..."
+                className="min-h-[80px]"
+              />
+            </div>
+
+            {/* Classification */}
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Scenario Type</Label>
+                <Select
+                  value={scenarioType}
+                  onValueChange={value => setScenarioType(value as ScenarioType)}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SCENARIO_TYPES.map(type => (
+                      <SelectItem key={type.value} value={type.value}>
+                        {type.value}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Likelihood</Label>
+                <Select
+                  value={likelihood}
+                  onValueChange={value => setLikelihood(value as ScenarioLikelihood)}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Assess" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LIKELIHOODS.map(value => (
+                      <SelectItem key={value} value={value}>
+                        {value}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Severity</Label>
+                <Select
+                  value={severity}
+                  onValueChange={value => setSeverity(value as ScenarioSeverity)}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Assess" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SEVERITIES.map(value => (
+                      <SelectItem key={value} value={value}>
+                        {value}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {scenarioType && (
+              <p className="-mt-4 text-xs text-gray-600 dark:text-gray-400">
+                {SCENARIO_TYPES.find(t => t.value === scenarioType)?.description}
+              </p>
+            )}
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-gray-600 dark:text-gray-400">Risk level:</span>
+              {riskLevel ? (
+                <Badge variant="default">{riskLevel}</Badge>
+              ) : (
+                <span className="text-xs text-gray-500">
+                  Assess likelihood and severity to derive a risk level
+                </span>
+              )}
+            </div>
+
+            <Separator />
+
+            {/* Causal Factors */}
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label>Causal Factors</Label>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCausalFactors(prev => [...prev, createEmptyFactor()])}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Factor
+                </Button>
+              </div>
+
+              {causalFactors.map(factor => (
+                <Card key={factor.id} className="space-y-2 p-3">
+                  <div className="flex items-center gap-2">
+                    <Select
+                      value={factor.type}
+                      onValueChange={value =>
+                        handleUpdateFactor(factor.id, { type: value as CausalFactorType })
+                      }
+                    >
+                      <SelectTrigger className="h-8 w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {FACTOR_TYPES.map(type => (
+                          <SelectItem key={type} value={type}>
+                            {type}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={factor.category}
+                      onValueChange={value => handleUpdateFactor(factor.id, { category: value })}
+                    >
+                      <SelectTrigger className="h-8 flex-1">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {FACTOR_CATEGORIES.map(category => (
+                          <SelectItem key={category} value={category}>
+                            {category}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => handleRemoveFactor(factor.id)}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <Input
+                    value={factor.description}
+                    onChange={e => handleUpdateFactor(factor.id, { description: e.target.value })}
+                    placeholder="What goes wrong?"
+                    className="h-8 text-sm"
+                  />
+                  <div className="grid grid-cols-2 gap-2">
+                    <Select
+                      value={factor.relatedControllerId || NONE_VALUE}
+                      onValueChange={value =>
+                        handleUpdateFactor(factor.id, {
+                          relatedControllerId: value === NONE_VALUE ? undefined : value,
+                        })
+                      }
+                    >
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue placeholder="Related controller" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NONE_VALUE}>No related controller</SelectItem>
+                        {controllers.map(controller => (
+                          <SelectItem key={controller.id} value={controller.id}>
+                            {controller.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={factor.relatedComponentId || NONE_VALUE}
+                      onValueChange={value =>
+                        handleUpdateFactor(factor.id, {
+                          relatedComponentId: value === NONE_VALUE ? undefined : value,
+                        })
+                      }
+                    >
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue placeholder="Related component" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NONE_VALUE}>No related component</SelectItem>
+                        {systemComponents.map(component => (
+                          <SelectItem key={component.id} value={component.id}>
+                            {component.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </Card>
+              ))}
+            </div>
+
+            <Separator />
+
+            {/* Assumptions */}
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label>Assumptions</Label>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setAssumptions(prev => [...prev, ''])}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Assumption
+                </Button>
+              </div>
+              {assumptions.length === 0 && (
+                <p className="text-xs text-gray-500">No assumptions recorded.</p>
+              )}
+              {assumptions.map((assumption, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    value={assumption}
+                    onChange={e => handleUpdateAssumption(index, e.target.value)}
+                    placeholder="e.g. Crew has been trained on the procedure"
+                    className="h-8 text-sm"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => setAssumptions(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <Separator />
+
+            {/* Hazard Selection */}
+            <div className="space-y-2">
+              <Label>Linked Hazards</Label>
+              <Popover open={isHazardPopoverOpen} onOpenChange={setIsHazardPopoverOpen}>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="w-full justify-start">
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Hazards
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-80 p-0" align="start">
+                  <Command>
+                    <CommandInput placeholder="Search hazards..." />
+                    <CommandEmpty>No hazards found.</CommandEmpty>
+                    <CommandGroup>
+                      <ScrollArea className="h-64">
+                        {hazards.map(hazard => (
+                          <CommandItem
+                            key={hazard.id}
+                            onSelect={() => handleSelectHazard(hazard.id)}
+                          >
+                            <div className="flex flex-1 items-center gap-2">
+                              <div
+                                className={cn(
+                                  'h-4 w-4 rounded border',
+                                  selectedHazards.includes(hazard.id) &&
+                                    'border-blue-600 bg-blue-600'
+                                )}
+                              >
+                                {selectedHazards.includes(hazard.id) && (
+                                  <Check className="h-3 w-3 text-white" />
+                                )}
+                              </div>
+                              <div className="flex-1">
+                                <div className="font-medium">{hazard.code}</div>
+                                <div className="line-clamp-2 text-sm text-gray-600">
+                                  {hazard.title}
+                                </div>
+                              </div>
+                            </div>
+                          </CommandItem>
+                        ))}
+                      </ScrollArea>
+                    </CommandGroup>
+                  </Command>
+                </PopoverContent>
+              </Popover>
+
+              {selectedHazards.length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {selectedHazards.map(hazardId => {
+                    const hazard = hazards.find(h => h.id === hazardId);
+                    if (!hazard) return null;
+
+                    return (
+                      <Badge key={hazardId} variant="secondary">
+                        {hazard.code}
+                        <button
+                          onClick={() => handleSelectHazard(hazardId)}
+                          className="ml-1 hover:text-gray-700"
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+
+            {/* Mitigation Strategy */}
+            <div className="space-y-2">
+              <Label htmlFor="scenario-mitigation">Mitigation Strategy</Label>
+              <Textarea
+                id="scenario-mitigation"
+                value={mitigationStrategy}
+                onChange={e => setMitigationStrategy(e.target.value)}
+                placeholder="Initial thoughts on how this scenario could be prevented (optional)"
+                className="min-h-[60px]"
+              />
+            </div>
+
+            {/* Validation Errors */}
+            {validationErrors.length > 0 && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  <ul className="list-inside list-disc space-y-1">
+                    {validationErrors.map((error, idx) => (
+                      <li key={idx} className="text-sm">
+                        {error}
+                      </li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+        </ScrollArea>
+
+        <div className="flex justify-end gap-2 border-t pt-4">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>{scenario ? 'Update' : 'Create'} Scenario</Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ScenarioEditor;
@@ -0,0 +1,174 @@
+import { Edit, Plus, Trash2 } from 'lucide-react';
+import React, { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { DeleteImpactDialog } from '@/features/dependencies';
+import { CommentBadge } from '@/features/review';
+import { cn } from '@/lib/utils';
+import { CausalScenario, Hazard, UnsafeControlAction } from '@/types/types';
+
+interface ScenarioListProps {
+  scenarios: CausalScenario[];
+  selectedUCA: UnsafeControlAction | null;
+  ucas: UnsafeControlAction[];
+  hazards: Hazard[];
+  onCreateScenario: () => void;
+  onEditScenario: (scenario: CausalScenario) => void;
+}
+
+const RISK_COLORS: Record<string, string> = {
+  Low: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400',
+  Medium: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400',
+  High: 'bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-400',
+  Critical: 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400',
+};
+
+const ScenarioList: React.FC<ScenarioListProps> = ({
+  scenarios,
+  selectedUCA,
+  ucas,
+  hazards,
+  onCreateScenario,
+  onEditScenario,
+}) => {
+  const [scenarioToDelete, setScenarioToDelete] = useState<string | null>(null);
+
+  const getHazardCode = (id: string) => hazards.find(h => h.id === id)?.code || 'Unknown';
+  const getUCACode = (id?: string) => ucas.find(u => u.id === id)?.code || 'Unlinked';
+
+  return (
+    <div className="flex h-full flex-col">
+      {/* Selected UCA summary */}
+      <div className="space-y-3 border-b p-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              {selectedUCA ? `Scenarios for ${selectedUCA.code}` : 'All Causal Scenarios'}
+            </h3>
+            <p className="text-xs text-gray-500">
+              {scenarios.length} scenario{scenarios.length === 1 ? '' : 's'}
+            </p>
+          </div>
+          <Button size="sm" onClick={onCreateScenario} disabled={!selectedUCA}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Scenario
+          </Button>
+        </div>
+
+        {selectedUCA ? (
+          <Card className="border-gray-200 bg-gray-50 p-3 dark:border-gray-800 dark:bg-gray-900">
+            <p className="text-sm font-medium">{selectedUCA.description || selectedUCA.code}</p>
+            {selectedUCA.context && (
+              <p className="mt-1 text-xs text-gray-600 dark:text-gray-400">
+                Context: {selectedUCA.context}
+              </p>
+            )}
+            {selectedUCA.hazardIds.length > 0 && (
+              <div className="mt-2 flex flex-wrap gap-1">
+                {selectedUCA.hazardIds.map(id => (
+                  <Badge key={id} variant="outline" className="text-xs">
+                    {getHazardCode(id)}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </Card>
+        ) : (
+          <p className="text-xs text-gray-500">Select a UCA on the left to add scenarios.</p>
+        )}
+      </div>
+
+      {/* Scenario cards */}
+      <ScrollArea className="flex-1">
+        <div className="space-y-3 p-4">
+          {scenarios.length === 0 && (
+            <div className="py-12 text-center text-sm text-gray-500">
+              {selectedUCA
+                ? 'No causal scenarios for this UCA yet.'
+                : 'No causal scenarios have been defined.'}
+            </div>
+          )}
+
+          {scenarios.map(scenario => (
+            <Card key={scenario.id} className="p-4">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0 flex-1 space-y-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-semibold">{scenario.code}</span>
+                    <span className="truncate text-sm">{scenario.title || scenario.name}</span>
+                    <CommentBadge collection="scenarios" entityId={scenario.id} />
+                    {!selectedUCA && (
+                      <Badge variant="outline" className="text-xs">
+                        {getUCACode(scenario.ucaId)}
+                      </Badge>
+                    )}
+                  </div>
+
+                  <p className="line-clamp-3 text-sm text-gray-600 dark:text-gray-400">
+                    {scenario.description}
+                  </p>
+
+                  <div className="flex flex-wrap items-center gap-2">
+                    {scenario.scenarioType && (
+                      <Badge variant="secondary" className="text-xs">
+                        {scenario.scenarioType}
+                      </Badge>
+                    )}
+                    {scenario.riskLevel && (
+                      <span
+                        className={cn(
+                          'rounded-full px-2 py-0.5 text-xs font-medium',
+                          RISK_COLORS[scenario.riskLevel]
+                        )}
+                      >
+                        {scenario.riskLevel} risk
+                      </span>
+                    )}
+                    <span className="text-xs text-gray-500">
+                      {scenario.causalFactors.length} causal factor
+                      {scenario.causalFactors.length === 1 ? '' : 's'}
+                    </span>
+                    {(scenario.hazardIds || []).map(id => (
+                      <Badge key={id} variant="outline" className="text-xs">
+                        {getHazardCode(id)}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => onEditScenario(scenario)}
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-red-600 hover:text-red-700"
+                    onClick={() => setScenarioToDelete(scenario.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </Card>
+          ))}
+        </div>
+      </ScrollArea>
+
+      <DeleteImpactDialog
+        collection="scenarios"
+        entityId={scenarioToDelete}
+        onClose={() => setScenarioToDelete(null)}
+      />
+    </div>
+  );
+};
+
+export default ScenarioList;
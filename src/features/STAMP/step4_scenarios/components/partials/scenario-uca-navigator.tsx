@@ -0,0 +1,229 @@
+import { AlertCircle, CheckCircle2, ChevronDown, ChevronRight, Search } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Separator } from '@/components/ui/separator';
+import { cn } from '@/lib/utils';
+import { Controller, UnsafeControlAction } from '@/types/types';
+import { UCAScenarioCoverage } from '../../types';
+
+interface ScenarioUCANavigatorProps {
+  controllers: Controller[];
+  ucas: UnsafeControlAction[];
+  coverage: Map<string, UCAScenarioCoverage>;
+  selectedUCAId: string | null;
+  onSelectUCA: (id: string | null) => void;
+}
+
+const RISK_DOT_COLORS: Record<string, string> = {
+  Low: 'bg-green-500',
+  Medium: 'bg-yellow-500',
+  High: 'bg-orange-500',
+  Critical: 'bg-red-600',
+};
+
+const ScenarioUCANavigator: React.FC<ScenarioUCANavigatorProps> = ({
+  controllers,
+  ucas,
+  coverage,
+  selectedUCAId,
+  onSelectUCA,
+}) => {
+  const [collapsedControllers, setCollapsedControllers] = useState<Set<string>>(new Set());
+  const [query, setQuery] = useState('');
+
+  // Group UCAs by controller, keeping UCAs whose controller no longer exists in their own bucket
+  const groups = useMemo(() => {
+    const lowerQuery = query.toLowerCase();
+    const matches = (uca: UnsafeControlAction) =>
+      !lowerQuery ||
+      uca.code.toLowerCase().includes(lowerQuery) ||
+      (uca.description || '').toLowerCase().includes(lowerQuery) ||
+      uca.context.toLowerCase().includes(lowerQuery);
+
+    const grouped = controllers
+      .map(controller => ({
+        id: controller.id,
+        name: controller.name,
+        ctrlType: controller.ctrlType as string,
+        ucas: ucas.filter(uca => uca.controllerId === controller.id && matches(uca)),
+      }))
+      .filter(group => group.ucas.length > 0);
+
+    const orphaned = ucas.filter(
+      uca => !controllers.some(c => c.id === uca.controllerId) && matches(uca)
+    );
+    if (orphaned.length > 0) {
+      grouped.push({ id: 'unassigned', name: 'Unassigned', ctrlType: '?', ucas: orphaned });
+    }
+
+    return grouped;
+  }, [controllers, ucas, query]);
+
+  const overallStats = useMemo(() => {
+    const covered = ucas.filter(uca => (coverage.get(uca.id)?.scenarioCount || 0) > 0).length;
+    const percentage = ucas.length > 0 ? Math.round((covered / ucas.length) * 100) : 0;
+    const totalScenarios = Array.from(coverage.values()).reduce(
+      (sum, entry) => sum + entry.scenarioCount,
+      0
+    );
+    return { covered, percentage, totalScenarios };
+  }, [ucas, coverage]);
+
+  const toggleController = (controllerId: string) => {
+    setCollapsedControllers(prev => {
+      const next = new Set(prev);
+      if (next.has(controllerId)) {
+        next.delete(controllerId);
+      } else {
+        next.add(controllerId);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="flex h-full flex-col">
+      {/* Header */}
+      <div className="space-y-4 p-4">
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            Unsafe Control Actions
+          </h3>
+          <p className="mt-1 text-xs text-gray-500">Select a UCA to analyze its causes</p>
+        </div>
+
+        {/* Overall Statistics */}
+        <Card className="space-y-2 p-3">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-gray-600 dark:text-gray-400">UCAs with scenarios</span>
+            <span className="font-medium">{overallStats.percentage}%</span>
+          </div>
+          <Progress value={overallStats.percentage} className="h-1.5" />
+          <div className="flex justify-between text-xs text-gray-500">
+            <span>
+              {overallStats.covered}/{ucas.length} UCAs
+            </span>
+            <span>{overallStats.totalScenarios} scenarios</span>
+          </div>
+        </Card>
+
+        <div className="relative">
+          <Search className="absolute top-1/2 left-2.5 h-4 w-4 -translate-y-1/2 text-gray-400" />
+          <Input
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Filter UCAs..."
+            className="h-8 pl-8 text-sm"
+          />
+        </div>
+      </div>
+
+      <Separator />
+
+      {/* UCA List */}
+      <ScrollArea className="flex-1">
+        <div className="space-y-2 p-4">
+          {groups.length === 0 && (
+            <p className="py-6 text-center text-sm text-gray-500">
+              {ucas.length === 0
+                ? 'No UCAs yet. Identify UCAs in the previous step first.'
+                : 'No UCAs match the filter.'}
+            </p>
+          )}
+
+          {groups.map(group => {
+            const isCollapsed = collapsedControllers.has(group.id);
+
+            return (
+              <div key={group.id}>
+                <button
+                  onClick={() => toggleController(group.id)}
+                  className="flex w-full items-center gap-2 rounded-md p-2 text-left hover:bg-gray-100 dark:hover:bg-gray-800"
+                >
+                  {isCollapsed ? (
+                    <ChevronRight className="h-3.5 w-3.5" />
+                  ) : (
+                    <ChevronDown className="h-3.5 w-3.5" />
+                  )}
+                  <span className="flex-1 truncate text-sm font-medium">{group.name}</span>
+                  <Badge variant="outline" className="px-1.5 py-0 text-xs">
+                    {group.ctrlType}
+                  </Badge>
+                </button>
+
+                {!isCollapsed && (
+                  <div className="mt-1 ml-6 space-y-1">
+                    {group.ucas.map(uca => {
+                      const entry = coverage.get(uca.id);
+                      const count = entry?.scenarioCount || 0;
+                      const isSelected = selectedUCAId === uca.id;
+
+                      return (
+                        <div
+                          key={uca.id}
+                          className={cn(
+                            'flex cursor-pointer items-center gap-2 rounded-md p-2 text-sm transition-colors',
+                            isSelected
+                              ? 'bg-blue-50 text-blue-700 dark:bg-blue-950/30 dark:text-blue-400'
+                              : 'hover:bg-gray-100 dark:hover:bg-gray-800'
+                          )}
+                          onClick={() => onSelectUCA(isSelected ? null : uca.id)}
+                        >
+                          <div className="min-w-0 flex-1">
+                            <div className="font-medium">{uca.code}</div>
+                            <div className="truncate text-xs text-gray-500">
+                              {uca.description || uca.context}
+                            </div>
+                          </div>
+
+                          {entry?.highestRisk && (
+                            <span
+                              className={cn(
+                                'h-2 w-2 flex-shrink-0 rounded-full',
+                                RISK_DOT_COLORS[entry.highestRisk]
+                              )}
+                              title={`Highest risk: ${entry.highestRisk}`}
+                            />
+                          )}
+                          {count > 0 ? (
+                            <Badge variant="secondary" className="px-1.5 py-0 text-xs">
+                              {count}
+                            </Badge>
+                          ) : (
+                            <AlertCircle className="h-3.5 w-3.5 flex-shrink-0 text-yellow-600" />
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </ScrollArea>
+
+      <Separator />
+
+      {/* Footer Help */}
+      <div className="p-4">
+        <div className="space-y-1 text-xs text-gray-500">
+          <div className="flex items-center gap-2">
+            <CheckCircle2 className="h-3 w-3 text-green-600" />
+            <span>Every UCA needs at least one scenario</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <AlertCircle className="h-3 w-3 text-yellow-600" />
+            <span>No scenarios yet</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScenarioUCANavigator;
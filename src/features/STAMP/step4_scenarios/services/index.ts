@@ -1,2 +1,2 @@
 // Export services for step4_scenarios
-export {};
+export * from './scenario-risk';
@@ -0,0 +1,71 @@
+import { CausalScenario, UnsafeControlAction } from '@/types/types';
+import {
+  ScenarioLikelihood,
+  ScenarioRiskLevel,
+  ScenarioSeverity,
+  UCAScenarioCoverage,
+} from '../types';
+
+const LIKELIHOOD_WEIGHT: Record<ScenarioLikelihood, number> = {
+  Low: 1,
+  Medium: 2,
+  High: 3,
+};
+
+const SEVERITY_WEIGHT: Record<ScenarioSeverity, number> = {
+  Low: 1,
+  Medium: 2,
+  High: 3,
+  Critical: 4,
+};
+
+export const RISK_LEVEL_ORDER: ScenarioRiskLevel[] = ['Low', 'Medium', 'High', 'Critical'];
+
+/**
+ * Derives a risk level from the likelihood x severity matrix.
+ * Returns undefined until both inputs have been assessed.
+ */
+export function calculateRiskLevel(
+  likelihood?: ScenarioLikelihood,
+  severity?: ScenarioSeverity
+): ScenarioRiskLevel | undefined {
+  if (!likelihood || !severity) return undefined;
+
+  const score = LIKELIHOOD_WEIGHT[likelihood] * SEVERITY_WEIGHT[severity];
+
+  if (score >= 9) return 'Critical';
+  if (score >= 6) return 'High';
+  if (score >= 3) return 'Medium';
+  return 'Low';
+}
+
+/**
+ * Summarises how many scenarios exist for each UCA and the worst risk among them
+ */
+export function calculateScenarioCoverage(
+  ucas: UnsafeControlAction[],
+  scenarios: CausalScenario[]
+): Map<string, UCAScenarioCoverage> {
+  const coverage = new Map<string, UCAScenarioCoverage>();
+
+  ucas.forEach(uca => {
+    coverage.set(uca.id, { ucaId: uca.id, scenarioCount: 0, highestRisk: null });
+  });
+
+  scenarios.forEach(scenario => {
+    if (!scenario.ucaId) return;
+    const entry = coverage.get(scenario.ucaId);
+    if (!entry) return;
+
+    entry.scenarioCount += 1;
+    if (
+      scenario.riskLevel &&
+      (entry.highestRisk === null ||
+        RISK_LEVEL_ORDER.indexOf(scenario.riskLevel) > RISK_LEVEL_ORDER.indexOf(entry.highestRisk))
+    ) {
+      entry.highestRisk = scenario.riskLevel;
+    }
+  });
+
+  return coverage;
+}
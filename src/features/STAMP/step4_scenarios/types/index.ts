@@ -1,2 +1,14 @@
 // Export types for step4_scenarios
-export {};
+import { CausalFactor, CausalScenario } from '@/types/types';
+
+export type ScenarioType = NonNullable<CausalScenario['scenarioType']>;
+export type ScenarioLikelihood = NonNullable<CausalScenario['likelihood']>;
+export type ScenarioSeverity = NonNullable<CausalScenario['severity']>;
+export type ScenarioRiskLevel = NonNullable<CausalScenario['riskLevel']>;
+export type CausalFactorType = NonNullable<CausalFactor['type']>;
+
+export interface UCAScenarioCoverage {
+  ucaId: string;
+  scenarioCount: number;
+  highestRisk: ScenarioRiskLevel | null;
+}
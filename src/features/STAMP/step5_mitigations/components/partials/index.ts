@@ -0,0 +1,5 @@
+// Barrel export for Requirements & Mitigations partials
+
+export { default as RequirementEditor } from './requirement-editor';
+export { default as RequirementsTable } from './requirements-table';
+export { default as ScenarioCoveragePanel } from './scenario-coverage-panel';
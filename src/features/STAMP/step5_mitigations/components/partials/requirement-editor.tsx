@@ -0,0 +1,402 @@
+import { AlertCircle, Check, Plus, X } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+} from '@/components/ui/command';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import { CausalScenario, Requirement, UnsafeControlAction } from '@/types/types';
+import { getLinkedScenarioIds, REQUIREMENT_PRIORITIES, VERIFICATION_METHODS } from '../../services';
+import { RequirementKind } from '../../types';
+
+interface RequirementEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  requirement: Requirement | null;
+  defaultScenarioIds: string[];
+  scenarios: CausalScenario[];
+  ucas: UnsafeControlAction[];
+  onSave: (data: Omit<Requirement, 'id' | 'code'>) => void;
+}
+
+const UNSET_VALUE = 'unset';
+
+interface LinkOption {
+  id: string;
+  code?: string;
+  label: string;
+}
+
+interface LinkPickerProps {
+  label: string;
+  placeholder: string;
+  options: LinkOption[];
+  selected: string[];
+  onToggle: (id: string) => void;
+}
+
+const LinkPicker: React.FC<LinkPickerProps> = ({
+  label,
+  placeholder,
+  options,
+  selected,
+  onToggle,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Popover open={isOpen} onOpenChange={setIsOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" className="w-full justify-start">
+            <Plus className="mr-2 h-4 w-4" />
+            Add {label}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-80 p-0" align="start">
+          <Command>
+            <CommandInput placeholder={placeholder} />
+            <CommandEmpty>Nothing found.</CommandEmpty>
+            <CommandGroup>
+              <ScrollArea className="h-64">
+                {options.map(option => (
+                  <CommandItem key={option.id} onSelect={() => onToggle(option.id)}>
+                    <div className="flex flex-1 items-center gap-2">
+                      <div
+                        className={cn(
+                          'h-4 w-4 rounded border',
+                          selected.includes(option.id) && 'border-blue-600 bg-blue-600'
+                        )}
+                      >
+                        {selected.includes(option.id) && <Check className="h-3 w-3 text-white" />}
+                      </div>
+                      <div className="flex-1">
+                        <div className="font-medium">{option.code}</div>
+                        <div className="line-clamp-2 text-sm text-gray-600">{option.label}</div>
+                      </div>
+                    </div>
+                  </CommandItem>
+                ))}
+              </ScrollArea>
+            </CommandGroup>
+          </Command>
+        </PopoverContent>
+      </Popover>
+
+      {selected.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-2">
+          {selected.map(id => {
+            const option = options.find(o => o.id === id);
+            if (!option) return null;
+
+            return (
+              <Badge key={id} variant="secondary">
+                {option.code}
+                <button onClick={() => onToggle(id)} className="ml-1 hover:text-gray-700">
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const RequirementEditor: React.FC<RequirementEditorProps> = ({
+  isOpen,
+  onClose,
+  requirement,
+  defaultScenarioIds,
+  scenarios,
+  ucas,
+  onSave,
+}) => {
+  // Form state
+  const [type, setType] = useState<RequirementKind>('Requirement');
+  const [text, setText] = useState('');
+  const [description, setDescription] = useState('');
+  const [priority, setPriority] = useState<string | undefined>(undefined);
+  const [verificationMethod, setVerificationMethod] = useState<string | undefined>(undefined);
+  const [implementation, setImplementation] = useState('');
+  const [selectedScenarios, setSelectedScenarios] = useState<string[]>([]);
+  const [selectedUCAs, setSelectedUCAs] = useState<string[]>([]);
+
+  const [validationErrors, setValidationErrors] = useState<string[]>([]);
+
+  // Initialize form when the requirement changes or the dialog opens
+  useEffect(() => {
+    if (requirement) {
+      setType(requirement.type);
+      setText(requirement.text);
+      setDescription(requirement.description || '');
+      setPriority(requirement.priority);
+      setVerificationMethod(requirement.verificationMethod);
+      setImplementation(requirement.implementation || '');
+      setSelectedScenarios(getLinkedScenarioIds(requirement));
+      setSelectedUCAs(requirement.ucaIds || []);
+    } else {
+      setType('Requirement');
+      setText('');
+      setDescription('');
+      setPriority(undefined);
+      setVerificationMethod(undefined);
+      setImplementation('');
+      setSelectedScenarios(defaultScenarioIds);
+      // New requirements trace to the UCAs of the scenarios they address
+      setSelectedUCAs(
+        Array.from(
+          new Set(
+            scenarios
+              .filter(s => defaultScenarioIds.includes(s.id) && s.ucaId)
+              .map(s => s.ucaId as string)
+          )
+        )
+      );
+    }
+    setValidationErrors([]);
+  }, [requirement, defaultScenarioIds, scenarios, isOpen]);
+
+  const handleToggleScenario = (scenarioId: string) => {
+    if (selectedScenarios.includes(scenarioId)) {
+      setSelectedScenarios(prev => prev.filter(id => id !== scenarioId));
+      return;
+    }
+
+    setSelectedScenarios(prev => [...prev, scenarioId]);
+    const ucaId = scenarios.find(s => s.id === scenarioId)?.ucaId;
+    if (ucaId) {
+      setSelectedUCAs(prev => (prev.includes(ucaId) ? prev : [...prev, ucaId]));
+    }
+  };
+
+  const handleToggleUCA = (ucaId: string) => {
+    setSelectedUCAs(prev =>
+      prev.includes(ucaId) ? prev.filter(id => id !== ucaId) : [...prev, ucaId]
+    );
+  };
+
+  const handleSave = () => {
+    const errors: string[] = [];
+
+    if (!text.trim()) {
+      errors.push('Requirement text is required');
+    }
+    if (selectedScenarios.length === 0 && selectedUCAs.length === 0) {
+      errors.push('Link at least one causal scenario or UCA');
+    }
+
+    if (errors.length > 0) {
+      setValidationErrors(errors);
+      return;
+    }
+
+    onSave({
+      type,
+      text: text.trim(),
+      description: description.trim() || undefined,
+      priority,
+      verificationMethod,
+      implementation: implementation.trim() || undefined,
+      linkedScenarioIds: selectedScenarios,
+      ucaIds: selectedUCAs,
+    });
+
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-h-[90vh] max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>
+            {requirement ? `Edit ${requirement.code}` : 'Create Requirement'}
+          </DialogTitle>
+          <DialogDescription>
+            Define a requirement or mitigation and trace it to the scenarios it addresses
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="mt-6 max-h-[calc(90vh-200px)] flex-1">
+          <div className="space-y-6 pr-4">
+            {/* Type */}
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={type} onValueChange={value => setType(value as RequirementKind)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="Requirement">Requirement</SelectItem>
+                  <SelectItem value="Mitigation">Mitigation</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Text & Description */}
+            <div className="space-y-2">
+              <Label htmlFor="requirement-text">
+                {type === 'Mitigation' ? 'Mitigation' : 'Requirement'} *
+              </Label>
+              <Textarea
+                id="requirement-text"
+                value={text}
+                onChange={e => setText(e.target.value)}
+                placeholder={
+                  type === 'Mitigation'
+                    ? 'e.g., Add an independent overspeed monitor on the actuator'
+                    : 'e.g., The controller shall verify sensor freshness before issuing the command'
+                }
+                className="min-h-[80px]"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="requirement-description">Rationale</Label>
+              <Textarea
+                id="requirement-description"
+                value={description}
+                onChange={e => setDescription(e.target.value)}
+                placeholder="Why this requirement prevents the linked scenarios (optional)"
+                className="min-h-[60px]"
+              />
+            </div>
+
+            {/* Priority & Verification */}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Priority</Label>
+                <Select
+                  value={priority || UNSET_VALUE}
+                  onValueChange={value => setPriority(value === UNSET_VALUE ? undefined : value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNSET_VALUE}>Unassigned</SelectItem>
+                    {REQUIREMENT_PRIORITIES.map(p => (
+                      <SelectItem key={p} value={p}>
+                        {p}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Verification Method</Label>
+                <Select
+                  value={verificationMethod || UNSET_VALUE}
+                  onValueChange={value =>
+                    setVerificationMethod(value === UNSET_VALUE ? undefined : value)
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNSET_VALUE}>Not defined</SelectItem>
+                    {VERIFICATION_METHODS.map(method => (
+                      <SelectItem key={method} value={method}>
+                        {method}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {/* Implementation */}
+            <div className="space-y-2">
+              <Label htmlFor="requirement-implementation">Implementation Notes</Label>
+              <Textarea
+                id="requirement-implementation"
+                value={implementation}
+                onChange={e => setImplementation(e.target.value)}
+                placeholder="How and where this will be implemented (optional)"
+                className="min-h-[60px]"
+              />
+            </div>
+
+            {/* Traceability */}
+            <LinkPicker
+              label="Causal Scenarios"
+              placeholder="Search scenarios..."
+              options={scenarios.map(s => ({
+                id: s.id,
+                code: s.code,
+                label: s.title || s.description,
+              }))}
+              selected={selectedScenarios}
+              onToggle={handleToggleScenario}
+            />
+
+            <LinkPicker
+              label="UCAs"
+              placeholder="Search UCAs..."
+              options={ucas.map(u => ({
+                id: u.id,
+                code: u.code,
+                label: u.description || u.context,
+              }))}
+              selected={selectedUCAs}
+              onToggle={handleToggleUCA}
+            />
+
+            {/* Validation Errors */}
+            {validationErrors.length > 0 && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  <ul className="list-inside list-disc space-y-1">
+                    {validationErrors.map((error, idx) => (
+                      <li key={idx} className="text-sm">
+                        {error}
+                      </li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+        </ScrollArea>
+
+        <div className="flex justify-end gap-2 border-t pt-4">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>{requirement ? 'Update' : 'Create'}</Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RequirementEditor;
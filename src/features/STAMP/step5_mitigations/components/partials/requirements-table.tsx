@@ -0,0 +1,235 @@
+import { Edit, Plus, Trash2 } from 'lucide-react';
+import React, { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { CommentBadge } from '@/features/review';
+import { cn } from '@/lib/utils';
+import { CausalScenario, Requirement, UnsafeControlAction } from '@/types/types';
+import { getLinkedScenarioIds, REQUIREMENT_PRIORITIES, VERIFICATION_METHODS } from '../../services';
+import { RequirementPriority } from '../../types';
+
+interface RequirementsTableProps {
+  requirements: Requirement[];
+  scenarios: CausalScenario[];
+  ucas: UnsafeControlAction[];
+  onCreateRequirement: () => void;
+  onEditRequirement: (requirement: Requirement) => void;
+  onUpdateRequirement: (id: string, updates: Partial<Requirement>) => void;
+  onDeleteRequirement: (id: string) => void;
+}
+
+const PRIORITY_COLORS: Record<RequirementPriority, string> = {
+  Critical: 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400',
+  High: 'bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-400',
+  Medium: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400',
+  Low: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400',
+};
+
+const UNSET_VALUE = 'unset';
+
+const RequirementsTable: React.FC<RequirementsTableProps> = ({
+  requirements,
+  scenarios,
+  ucas,
+  onCreateRequirement,
+  onEditRequirement,
+  onUpdateRequirement,
+  onDeleteRequirement,
+}) => {
+  const [requirementToDelete, setRequirementToDelete] = useState<Requirement | null>(null);
+
+  const getScenarioCode = (id: string) => scenarios.find(s => s.id === id)?.code || 'Unknown';
+  const getUCACode = (id: string) => ucas.find(u => u.id === id)?.code || 'Unknown';
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center justify-between border-b p-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {requirements.length} requirement{requirements.length === 1 ? '' : 's'} and mitigations
+        </p>
+        <Button size="sm" onClick={onCreateRequirement}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Requirement
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-auto p-4">
+        {requirements.length === 0 ? (
+          <div className="py-12 text-center text-sm text-gray-500">
+            No requirements or mitigations defined yet.
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-24">Code</TableHead>
+                <TableHead>Requirement</TableHead>
+                <TableHead className="w-36">Priority</TableHead>
+                <TableHead className="w-40">Verification</TableHead>
+                <TableHead className="w-48">Traces to</TableHead>
+                <TableHead className="w-20" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {requirements.map(requirement => {
+                const scenarioIds = getLinkedScenarioIds(requirement);
+
+                return (
+                  <TableRow key={requirement.id}>
+                    <TableCell className="align-top">
+                      <div className="font-medium">
+                        {requirement.code}
+                        <CommentBadge
+                          collection="requirements"
+                          entityId={requirement.id}
+                          className="ml-1"
+                        />
+                      </div>
+                      <Badge
+                        variant={requirement.type === 'Mitigation' ? 'outline' : 'secondary'}
+                        className="mt-1 text-xs"
+                      >
+                        {requirement.type}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="align-top whitespace-normal">
+                      <p className="text-sm">{requirement.text}</p>
+                      {requirement.implementation && (
+                        <p className="mt-1 text-xs text-gray-500">
+                          Implementation: {requirement.implementation}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell className="align-top">
+                      <Select
+                        value={requirement.priority || UNSET_VALUE}
+                        onValueChange={value =>
+                          onUpdateRequirement(requirement.id, {
+                            priority: value === UNSET_VALUE ? undefined : value,
+                          })
+                        }
+                      >
+                        <SelectTrigger
+                          className={cn(
+                            'h-8 text-xs',
+                            requirement.priority &&
+                              PRIORITY_COLORS[requirement.priority as RequirementPriority]
+                          )}
+                        >
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNSET_VALUE}>Unassigned</SelectItem>
+                          {REQUIREMENT_PRIORITIES.map(priority => (
+                            <SelectItem key={priority} value={priority}>
+                              {priority}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="align-top">
+                      <Select
+                        value={requirement.verificationMethod || UNSET_VALUE}
+                        onValueChange={value =>
+                          onUpdateRequirement(requirement.id, {
+                            verificationMethod: value === UNSET_VALUE ? undefined : value,
+                          })
+                        }
+                      >
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNSET_VALUE}>Not defined</SelectItem>
+                          {VERIFICATION_METHODS.map(method => (
+                            <SelectItem key={method} value={method}>
+                              {method}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="align-top">
+                      <div className="flex flex-wrap gap-1">
+                        {scenarioIds.map(id => (
+                          <Badge key={id} variant="outline" className="text-xs">
+                            {getScenarioCode(id)}
+                          </Badge>
+                        ))}
+                        {(requirement.ucaIds || []).map(id => (
+                          <Badge key={id} variant="secondary" className="text-xs">
+                            {getUCACode(id)}
+                          </Badge>
+                        ))}
+                        {scenarioIds.length === 0 && (requirement.ucaIds || []).length === 0 && (
+                          <span className="text-xs text-amber-600">Not traced</span>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="align-top">
+                      <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => onEditRequirement(requirement)}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-red-600 hover:text-red-700"
+                          onClick={() => setRequirementToDelete(requirement)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      <ConfirmationDialog
+        open={requirementToDelete !== null}
+        onOpenChange={open => {
+          if (!open) setRequirementToDelete(null);
+        }}
+        title="Delete Requirement"
+        description={
+          requirementToDelete
+            ? `Delete ${requirementToDelete.code}? Scenarios that rely on it may become unaddressed.`
+            : ''
+        }
+        confirmText="Delete Requirement"
+        onConfirm={() => {
+          if (requirementToDelete) onDeleteRequirement(requirementToDelete.id);
+          setRequirementToDelete(null);
+        }}
+      />
+    </div>
+  );
+};
+
+export default RequirementsTable;
@@ -0,0 +1,139 @@
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+import React, { useMemo } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Card } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Separator } from '@/components/ui/separator';
+import { cn } from '@/lib/utils';
+import { CausalScenario, UnsafeControlAction } from '@/types/types';
+import { ScenarioRequirementCoverage } from '../../types';
+
+interface ScenarioCoveragePanelProps {
+  scenarios: CausalScenario[];
+  ucas: UnsafeControlAction[];
+  coverage: Map<string, ScenarioRequirementCoverage>;
+  selectedScenarioId: string | null;
+  onSelectScenario: (id: string | null) => void;
+}
+
+const ScenarioCoveragePanel: React.FC<ScenarioCoveragePanelProps> = ({
+  scenarios,
+  ucas,
+  coverage,
+  selectedScenarioId,
+  onSelectScenario,
+}) => {
+  const stats = useMemo(() => {
+    const addressed = scenarios.filter(
+      s => (coverage.get(s.id)?.requirementIds.length || 0) > 0
+    ).length;
+    const percentage = scenarios.length > 0 ? Math.round((addressed / scenarios.length) * 100) : 0;
+    return { addressed, unaddressed: scenarios.length - addressed, percentage };
+  }, [scenarios, coverage]);
+
+  const getUCACode = (id?: string) => ucas.find(u => u.id === id)?.code;
+
+  return (
+    <div className="flex h-full flex-col">
+      {/* Header */}
+      <div className="space-y-4 p-4">
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Causal Scenarios</h3>
+          <p className="mt-1 text-xs text-gray-500">Select a scenario to trace its requirements</p>
+        </div>
+
+        <Card className="space-y-2 p-3">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-gray-600 dark:text-gray-400">Scenarios addressed</span>
+            <span className="font-medium">{stats.percentage}%</span>
+          </div>
+          <Progress value={stats.percentage} className="h-1.5" />
+          <div className="flex justify-between text-xs text-gray-500">
+            <span>
+              {stats.addressed}/{scenarios.length} scenarios
+            </span>
+            {stats.unaddressed > 0 && (
+              <span className="text-amber-600 dark:text-amber-400">
+                {stats.unaddressed} unaddressed
+              </span>
+            )}
+          </div>
+        </Card>
+      </div>
+
+      <Separator />
+
+      <ScrollArea className="flex-1">
+        <div className="space-y-1 p-4">
+          {scenarios.length === 0 && (
+            <p className="py-6 text-center text-sm text-gray-500">
+              No causal scenarios yet. Define scenarios in the previous step first.
+            </p>
+          )}
+
+          {scenarios.map(scenario => {
+            const requirementCount = coverage.get(scenario.id)?.requirementIds.length || 0;
+            const isSelected = selectedScenarioId === scenario.id;
+            const ucaCode = getUCACode(scenario.ucaId);
+
+            return (
+              <div
+                key={scenario.id}
+                className={cn(
+                  'flex cursor-pointer items-center gap-2 rounded-md p-2 text-sm transition-colors',
+                  isSelected
+                    ? 'bg-blue-50 text-blue-700 dark:bg-blue-950/30 dark:text-blue-400'
+                    : 'hover:bg-gray-100 dark:hover:bg-gray-800'
+                )}
+                onClick={() => onSelectScenario(isSelected ? null : scenario.id)}
+              >
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{scenario.code}</span>
+                    {ucaCode && (
+                      <Badge variant="outline" className="px-1.5 py-0 text-xs">
+                        {ucaCode}
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="truncate text-xs text-gray-500">
+                    {scenario.title || scenario.description}
+                  </div>
+                </div>
+
+                {requirementCount > 0 ? (
+                  <Badge variant="secondary" className="px-1.5 py-0 text-xs">
+                    {requirementCount}
+                  </Badge>
+                ) : (
+                  <span title="Not addressed by any requirement or mitigation">
+                    <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0 text-amber-500" />
+                  </span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </ScrollArea>
+
+      <Separator />
+
+      {/* Footer Help */}
+      <div className="p-4">
+        <div className="space-y-1 text-xs text-gray-500">
+          <div className="flex items-center gap-2">
+            <CheckCircle2 className="h-3 w-3 text-green-600" />
+            <span>Each scenario needs a requirement or mitigation</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <AlertTriangle className="h-3 w-3 text-amber-500" />
+            <span>Scenario not yet addressed</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScenarioCoveragePanel;
@@ -1,10 +1,131 @@
-import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useAnalysisContext } from '@/context/AnalysisContext';
+import { Requirement } from '@/types/types';
+import {
+  calculateScenarioRequirementCoverage,
+  findUnaddressedScenarios,
+  generateRequirementCode,
+  getLinkedScenarioIds,
+} from '../services';
+import { RequirementEditor, RequirementsTable, ScenarioCoveragePanel } from './partials';
 
+/**
+ * Step 6 workspace: traces requirements and mitigations back to the causal
+ * scenarios and UCAs they address, flagging scenarios left uncovered
+ */
 const RequirementsMitigations: React.FC = () => {
+  const { ucas, scenarios, requirements, addRequirement, updateRequirement, deleteRequirement } =
+    useAnalysisContext();
+
+  const [selectedScenarioId, setSelectedScenarioId] = useState<string | null>(null);
+  const [editingRequirement, setEditingRequirement] = useState<Requirement | null>(null);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+
+  const coverage = useMemo(
+    () => calculateScenarioRequirementCoverage(scenarios, requirements),
+    [scenarios, requirements]
+  );
+
+  const unaddressedScenarios = useMemo(
+    () => findUnaddressedScenarios(scenarios, requirements),
+    [scenarios, requirements]
+  );
+
+  const visibleRequirements = useMemo(() => {
+    if (!selectedScenarioId) return requirements;
+    return requirements.filter(r => getLinkedScenarioIds(r).includes(selectedScenarioId));
+  }, [requirements, selectedScenarioId]);
+
+  const defaultScenarioIds = useMemo(
+    () => (selectedScenarioId ? [selectedScenarioId] : []),
+    [selectedScenarioId]
+  );
+
+  const handleCreateRequirement = () => {
+    setEditingRequirement(null);
+    setIsEditorOpen(true);
+  };
+
+  const handleEditRequirement = (requirement: Requirement) => {
+    setEditingRequirement(requirement);
+    setIsEditorOpen(true);
+  };
+
+  const handleCloseEditor = () => {
+    setIsEditorOpen(false);
+    setEditingRequirement(null);
+  };
+
+  const handleSaveRequirement = (data: Omit<Requirement, 'id' | 'code'>) => {
+    if (editingRequirement) {
+      // Linking is normalised onto linkedScenarioIds, so drop the legacy aliases
+      updateRequirement(editingRequirement.id, {
+        ...data,
+        scenarioIds: undefined,
+        linkedScenarios: undefined,
+        // Keep the code stable unless the item moved between REQ and MIT
+        code:
+          editingRequirement.type === data.type && editingRequirement.code
+            ? editingRequirement.code
+            : generateRequirementCode(data.type, requirements),
+      });
+    } else {
+      addRequirement({ ...data, code: generateRequirementCode(data.type, requirements) });
+    }
+  };
+
   return (
-    <div className="p-6">
-      <h2 className="mb-4 text-2xl font-bold">Step 6: Requirements and Mitigations</h2>
-      <p className="text-gray-600">Not yet implemented</p>
+    <div className="flex h-full">
+      {/* Left Panel - Scenario Coverage */}
+      <div className="w-80 border-r bg-gray-50/50 dark:bg-gray-950/20">
+        <ScenarioCoveragePanel
+          scenarios={scenarios}
+          ucas={ucas}
+          coverage={coverage}
+          selectedScenarioId={selectedScenarioId}
+          onSelectScenario={setSelectedScenarioId}
+        />
+      </div>
+
+      {/* Center Panel - Requirements */}
+      <div className="flex flex-1 flex-col">
+        <div className="border-b px-3 pt-3 lg:px-6 lg:pt-6">
+          <h2 className="mb-4 text-lg font-semibold">Requirements & Mitigations</h2>
+          {unaddressedScenarios.length > 0 && (
+            <Alert className="mb-4 border-amber-200 bg-amber-50 dark:border-amber-900 dark:bg-amber-950/20">
+              <AlertTriangle className="h-4 w-4 text-amber-600" />
+              <AlertDescription>
+                {unaddressedScenarios.length} causal scenario
+                {unaddressedScenarios.length === 1 ? ' is' : 's are'} not addressed by any
+                requirement or mitigation: {unaddressedScenarios.map(s => s.code).join(', ')}
+              </AlertDescription>
+            </Alert>
+          )}
+        </div>
+        <div className="flex-1">
+          <RequirementsTable
+            requirements={visibleRequirements}
+            scenarios={scenarios}
+            ucas={ucas}
+            onCreateRequirement={handleCreateRequirement}
+            onEditRequirement={handleEditRequirement}
+            onUpdateRequirement={updateRequirement}
+            onDeleteRequirement={deleteRequirement}
+          />
+        </div>
+      </div>
+
+      <RequirementEditor
+        isOpen={isEditorOpen}
+        onClose={handleCloseEditor}
+        requirement={editingRequirement}
+        defaultScenarioIds={defaultScenarioIds}
+        scenarios={scenarios}
+        ucas={ucas}
+        onSave={handleSaveRequirement}
+      />
     </div>
   );
 };
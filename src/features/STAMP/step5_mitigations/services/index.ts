@@ -1,2 +1,2 @@
 // Export services for step5_mitigations
-export {};
+export * from './requirement-traceability';
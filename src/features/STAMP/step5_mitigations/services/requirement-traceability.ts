@@ -0,0 +1,82 @@
+import { CausalScenario, Requirement } from '@/types/types';
+import {
+  RequirementKind,
+  RequirementPriority,
+  ScenarioRequirementCoverage,
+  VerificationMethod,
+} from '../types';
+
+export const REQUIREMENT_PRIORITIES: RequirementPriority[] = ['Critical', 'High', 'Medium', 'Low'];
+
+export const VERIFICATION_METHODS: VerificationMethod[] = [
+  'Test',
+  'Analysis',
+  'Inspection',
+  'Demonstration',
+  'Review',
+];
+
+/**
+ * Returns the scenario links of a requirement, including the legacy
+ * `scenarioIds` / `linkedScenarios` aliases written by older builds
+ */
+export function getLinkedScenarioIds(requirement: Requirement): string[] {
+  const ids = new Set<string>([
+    ...(requirement.linkedScenarioIds || []),
+    ...(requirement.scenarioIds || []),
+    ...(requirement.linkedScenarios || []),
+  ]);
+  return Array.from(ids);
+}
+
+/**
+ * Maps every scenario to the requirements and mitigations that address it
+ */
+export function calculateScenarioRequirementCoverage(
+  scenarios: CausalScenario[],
+  requirements: Requirement[]
+): Map<string, ScenarioRequirementCoverage> {
+  const coverage = new Map<string, ScenarioRequirementCoverage>();
+
+  scenarios.forEach(scenario => {
+    coverage.set(scenario.id, { scenarioId: scenario.id, requirementIds: [] });
+  });
+
+  requirements.forEach(requirement => {
+    getLinkedScenarioIds(requirement).forEach(scenarioId => {
+      coverage.get(scenarioId)?.requirementIds.push(requirement.id);
+    });
+  });
+
+  return coverage;
+}
+
+/**
+ * Validation rule from design document 3.1.8: each causal scenario must be
+ * addressed by at least one requirement or mitigation
+ */
+export function findUnaddressedScenarios(
+  scenarios: CausalScenario[],
+  requirements: Requirement[]
+): CausalScenario[] {
+  const coverage = calculateScenarioRequirementCoverage(scenarios, requirements);
+  return scenarios.filter(scenario => coverage.get(scenario.id)?.requirementIds.length === 0);
+}
+
+/**
+ * Generates the next free code for a requirement (REQ-n) or mitigation (MIT-n)
+ */
+export function generateRequirementCode(
+  type: RequirementKind,
+  requirements: Requirement[]
+): string {
+  const prefix = type === 'Mitigation' ? 'MIT' : 'REQ';
+  const pattern = new RegExp(`^${prefix}-(\\d+)$`);
+
+  const highest = requirements.reduce((max, requirement) => {
+    const match = requirement.code?.match(pattern);
+    return match ? Math.max(max, parseInt(match[1], 10)) : max;
+  }, 0);
+
+  return `${prefix}-${highest + 1}`;
+}
@@ -1,2 +1,13 @@
 // Export types for step5_mitigations
-export {};
+import { Requirement } from '@/types/types';
+
+export type RequirementKind = Requirement['type'];
+
+export type RequirementPriority = 'Critical' | 'High' | 'Medium' | 'Low';
+
+export type VerificationMethod = 'Test' | 'Analysis' | 'Inspection' | 'Demonstration' | 'Review';
+
+export interface ScenarioRequirementCoverage {
+  scenarioId: string;
+  requirementIds: string[];
+}
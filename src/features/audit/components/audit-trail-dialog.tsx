@@ -0,0 +1,106 @@
+import { ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/shared';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useAnalysisContext } from '@/context/AnalysisContext';
+import { useAuditTrail } from '../hooks';
+import {
+  AUDIT_PAGE_SIZE,
+  DEFAULT_AUDIT_FILTERS,
+  downloadAuditTrail,
+  toAuditQuery,
+} from '../services';
+import { AuditFilters } from '../types';
+import { AuditEventList, AuditFilterBar, AuditSummary } from './partials';
+
+interface AuditTrailDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Audit trail viewer: who changed what in the selected analysis and when,
+ * with field-level before/after values
+ */
+const AuditTrailDialog: React.FC<AuditTrailDialogProps> = ({ isOpen, onClose }) => {
+  const { analysisSession } = useAnalysisContext();
+  const [filters, setFilters] = useState<AuditFilters>(DEFAULT_AUDIT_FILTERS);
+  const [limit, setLimit] = useState(AUDIT_PAGE_SIZE);
+
+  const query = useMemo(() => toAuditQuery(filters, limit), [filters, limit]);
+  const { events, summary, allEvents } = useAuditTrail(query);
+
+  const updateFilters = (changes: Partial<AuditFilters>) => {
+    setFilters(previous => ({ ...previous, ...changes }));
+    setLimit(AUDIT_PAGE_SIZE);
+  };
+
+  const handleClose = () => {
+    setFilters(DEFAULT_AUDIT_FILTERS);
+    setLimit(AUDIT_PAGE_SIZE);
+    onClose();
+  };
+
+  const handleExport = () => {
+    downloadAuditTrail(
+      { ...query, limit: summary.totalEvents },
+      `${analysisSession?.title || 'analysis'}_audit-trail.json`
+    );
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && handleClose()}>
+      <DialogContent className="sm:max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Audit Trail</DialogTitle>
+          <DialogDescription>
+            Changes to {analysisSession?.title || 'this analysis'}, newest first
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <AuditSummary summary={summary} />
+          <AuditFilterBar filters={filters} events={allEvents} onChange={updateFilters} />
+          <ScrollArea className="h-96 rounded-md border">
+            <AuditEventList events={events} />
+            {summary.totalEvents > events.length && (
+              <div className="border-t py-2 text-center">
+                <button
+                  type="button"
+                  onClick={() => setLimit(previous => previous + AUDIT_PAGE_SIZE)}
+                  className="text-sm font-medium text-blue-600 hover:underline dark:text-blue-400"
+                >
+                  Show more ({summary.totalEvents - events.length} remaining)
+                </button>
+              </div>
+            )}
+          </ScrollArea>
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={handleClose}>
+            Close
+          </Button>
+          <Button
+            variant="secondary"
+            disabled={summary.totalEvents === 0}
+            onClick={handleExport}
+            leftIcon={<ArrowDownTrayIcon className="h-4 w-4" />}
+          >
+            Export JSON
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AuditTrailDialog;
@@ -0,0 +1,3 @@
+// Audit components barrel export
+
+export { default as AuditTrailDialog } from './audit-trail-dialog';
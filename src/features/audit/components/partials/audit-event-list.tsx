@@ -0,0 +1,113 @@
+import { ChevronDownIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
+import React, { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { AuditEvent } from '@/utils/audit-trail';
+import { formatAuditLabel, formatAuditValue, getChangedFields } from '../../services';
+
+interface AuditEventListProps {
+  events: AuditEvent[];
+}
+
+const ACTION_STYLES: Record<string, string> = {
+  CREATE: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400',
+  UPDATE: 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400',
+  DELETE: 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400',
+};
+
+const AuditEventDetails: React.FC<{ event: AuditEvent }> = ({ event }) => {
+  const changes = getChangedFields(event.oldValue, event.newValue);
+
+  if (changes.length === 0) {
+    return <p className="text-xs text-gray-500">No value changes recorded for this event.</p>;
+  }
+
+  return (
+    <table className="w-full table-fixed text-xs">
+      <thead>
+        <tr className="text-left text-gray-500">
+          <th className="w-40 pb-1 font-medium">Field</th>
+          <th className="pb-1 font-medium">Before</th>
+          <th className="pb-1 font-medium">After</th>
+        </tr>
+      </thead>
+      <tbody>
+        {changes.map(change => (
+          <tr key={change.field} className="align-top">
+            <td className="py-1 pr-2 font-mono text-gray-600 dark:text-gray-400">{change.field}</td>
+            <td className="py-1 pr-2">
+              <pre className="rounded bg-red-50 px-1.5 py-0.5 break-words whitespace-pre-wrap dark:bg-red-950/20">
+                {formatAuditValue(change.oldValue)}
+              </pre>
+            </td>
+            <td className="py-1">
+              <pre className="rounded bg-green-50 px-1.5 py-0.5 break-words whitespace-pre-wrap dark:bg-green-950/20">
+                {formatAuditValue(change.newValue)}
+              </pre>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+const AuditEventList: React.FC<AuditEventListProps> = ({ events }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  if (events.length === 0) {
+    return (
+      <div className="py-12 text-center text-sm text-gray-500">
+        No audit events match the current filters.
+      </div>
+    );
+  }
+
+  return (
+    <ul className="divide-y">
+      {events.map(event => {
+        const isExpanded = expandedId === event.id;
+        return (
+          <li key={event.id}>
+            <button
+              type="button"
+              onClick={() => setExpandedId(isExpanded ? null : event.id)}
+              className="flex w-full items-start gap-3 px-3 py-2 text-left hover:bg-gray-50 dark:hover:bg-gray-900"
+            >
+              {isExpanded ? (
+                <ChevronDownIcon className="mt-0.5 h-4 w-4 shrink-0 text-gray-400" />
+              ) : (
+                <ChevronRightIcon className="mt-0.5 h-4 w-4 shrink-0 text-gray-400" />
+              )}
+              <div className="min-w-0 flex-1">
+                <div className="truncate text-sm">{event.description}</div>
+                <div className="text-xs text-gray-500">
+                  {event.timestamp.toLocaleString()} · {event.userName} ({event.userRole})
+                </div>
+              </div>
+              <Badge variant="outline" className="shrink-0">
+                {formatAuditLabel(event.entityType)}
+              </Badge>
+              <Badge
+                className={cn(
+                  'w-16 shrink-0 justify-center',
+                  ACTION_STYLES[event.action] ||
+                    'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-400'
+                )}
+              >
+                {formatAuditLabel(event.action)}
+              </Badge>
+            </button>
+            {isExpanded && (
+              <div className="px-10 pb-3">
+                <AuditEventDetails event={event} />
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default AuditEventList;
@@ -0,0 +1,135 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AuditEvent, describeAuditEntity } from '@/utils/audit-trail';
+import { ALL, formatAuditLabel } from '../../services';
+import { AuditFilters } from '../../types';
+
+interface AuditFilterBarProps {
+  filters: AuditFilters;
+  events: AuditEvent[]; // All events, used for the available options
+  onChange: (changes: Partial<AuditFilters>) => void;
+}
+
+const unique = (values: string[]) => [...new Set(values)].sort();
+
+const AuditFilterBar: React.FC<AuditFilterBarProps> = ({ filters, events, onChange }) => {
+  const entityTypes = unique(events.map(e => e.entityType));
+  const actions = unique(events.map(e => e.action));
+  const users = [...new Map(events.map(e => [e.userId, e.userName])).entries()];
+
+  // Events are newest first, so each entity is labelled by its latest value
+  const entities = new Map<string, string>();
+  if (filters.entityType !== ALL) {
+    events
+      .filter(e => e.entityType === filters.entityType && !entities.has(e.entityId))
+      .forEach(e => entities.set(e.entityId, describeAuditEntity(e.newValue ?? e.oldValue)));
+  }
+
+  return (
+    <div className="grid grid-cols-6 gap-3">
+      <div className="space-y-1">
+        <Label className="text-xs">Entity Type</Label>
+        <Select
+          value={filters.entityType}
+          onValueChange={value => onChange({ entityType: value, entityId: ALL })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All types</SelectItem>
+            {entityTypes.map(type => (
+              <SelectItem key={type} value={type}>
+                {formatAuditLabel(type)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs">Entity</Label>
+        <Select
+          value={filters.entityId}
+          disabled={filters.entityType === ALL}
+          onValueChange={value => onChange({ entityId: value })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All entities</SelectItem>
+            {[...entities.entries()].map(([id, label]) => (
+              <SelectItem key={id} value={id}>
+                {label || id}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs">Action</Label>
+        <Select value={filters.action} onValueChange={value => onChange({ action: value })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All actions</SelectItem>
+            {actions.map(action => (
+              <SelectItem key={action} value={action}>
+                {formatAuditLabel(action)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs">User</Label>
+        <Select value={filters.userId} onValueChange={value => onChange({ userId: value })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All users</SelectItem>
+            {users.map(([id, name]) => (
+              <SelectItem key={id} value={id}>
+                {name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="audit-start-date" className="text-xs">
+          From
+        </Label>
+        <Input
+          id="audit-start-date"
+          type="date"
+          value={filters.startDate}
+          onChange={e => onChange({ startDate: e.target.value })}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="audit-end-date" className="text-xs">
+          To
+        </Label>
+        <Input
+          id="audit-end-date"
+          type="date"
+          value={filters.endDate}
+          onChange={e => onChange({ endDate: e.target.value })}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default AuditFilterBar;
@@ -0,0 +1,65 @@
+import React from 'react';
+import { AuditSummary as AuditSummaryData } from '@/utils/audit-trail';
+import { formatAuditLabel } from '../../services';
+
+interface AuditSummaryProps {
+  summary: AuditSummaryData;
+}
+
+const topEntries = (counts: Record<string, number>, count = 3) =>
+  Object.entries(counts)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, count);
+
+const AuditSummary: React.FC<AuditSummaryProps> = ({ summary }) => {
+  const { totalEvents, eventsByType, eventsByEntity, eventsByUser, timeRange } = summary;
+  const created = eventsByType.ENTITY_CREATED || 0;
+  const updated = eventsByType.ENTITY_UPDATED || 0;
+  const deleted = eventsByType.ENTITY_DELETED || 0;
+
+  const cards = [
+    {
+      label: 'Events',
+      value: totalEvents.toString(),
+      detail:
+        totalEvents > 0
+          ? `${timeRange.earliest.toLocaleDateString()} – ${timeRange.latest.toLocaleDateString()}`
+          : 'No changes recorded',
+    },
+    {
+      label: 'Created / Modified / Deleted',
+      value: `${created} / ${updated} / ${deleted}`,
+      detail: `${totalEvents - created - updated - deleted} other events`,
+    },
+    {
+      label: 'Most changed',
+      value: topEntries(eventsByEntity, 1).map(([entity]) => formatAuditLabel(entity))[0] || '—',
+      detail: topEntries(eventsByEntity)
+        .map(([entity, count]) => `${formatAuditLabel(entity)} ${count}`)
+        .join(' · '),
+    },
+    {
+      label: 'Contributors',
+      value: Object.keys(eventsByUser).length.toString(),
+      detail: topEntries(eventsByUser)
+        .map(([user, count]) => `${user} ${count}`)
+        .join(' · '),
+    },
+  ];
+
+  return (
+    <div className="grid grid-cols-4 gap-3">
+      {cards.map(card => (
+        <div key={card.label} className="rounded-lg border p-3">
+          <div className="text-xs text-gray-500">{card.label}</div>
+          <div className="truncate text-lg font-semibold">{card.value}</div>
+          <div className="truncate text-xs text-gray-500" title={card.detail}>
+            {card.detail || '—'}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AuditSummary;
@@ -0,0 +1,4 @@
+// Barrel export for audit trail partials
+export { default as AuditEventList } from './audit-event-list';
+export { default as AuditFilterBar } from './audit-filter-bar';
+export { default as AuditSummary } from './audit-summary';
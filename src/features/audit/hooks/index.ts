@@ -0,0 +1,2 @@
+// Export hooks for audit
+export * from './useAuditTrail';
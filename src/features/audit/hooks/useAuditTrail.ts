@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react';
+import { AuditEvent, AuditQuery, AuditSummary, auditTrail } from '@/utils/audit-trail';
+
+interface AuditTrailResult {
+  events: AuditEvent[]; // Matching events, newest first, up to the query limit
+  summary: AuditSummary; // Statistics over all matching events
+  allEvents: AuditEvent[]; // Unfiltered, for building filter options
+}
+
+const queryAuditTrail = (query: AuditQuery): AuditTrailResult => ({
+  events: auditTrail.queryEvents(query),
+  summary: auditTrail.generateSummary(query),
+  allEvents: auditTrail.queryEvents({ limit: Number.MAX_SAFE_INTEGER }),
+});
+
+/**
+ * Audit trail of the selected analysis, refreshed whenever an event is recorded
+ */
+export const useAuditTrail = (query: AuditQuery) => {
+  const [result, setResult] = useState<AuditTrailResult>(() => queryAuditTrail(query));
+
+  useEffect(() => {
+    const refresh = () => setResult(queryAuditTrail(query));
+    refresh();
+    return auditTrail.subscribe(refresh);
+  }, [query]);
+
+  return result;
+};
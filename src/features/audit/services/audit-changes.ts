@@ -0,0 +1,77 @@
+import { AuditQuery, auditTrail } from '@/utils/audit-trail';
+import { AuditFieldChange, AuditFilters } from '../types';
+
+export const ALL = 'all';
+
+export const DEFAULT_AUDIT_FILTERS: AuditFilters = {
+  entityType: ALL,
+  entityId: ALL,
+  action: ALL,
+  userId: ALL,
+  startDate: '',
+  endDate: '',
+};
+
+export const AUDIT_PAGE_SIZE = 50;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Field-level differences between the old and new value of an audit event.
+ * Non-object values are compared as a whole.
+ */
+export const getChangedFields = (oldValue: unknown, newValue: unknown): AuditFieldChange[] => {
+  if (!isRecord(oldValue) || !isRecord(newValue)) {
+    return JSON.stringify(oldValue) === JSON.stringify(newValue)
+      ? []
+      : [{ field: 'value', oldValue, newValue }];
+  }
+
+  const fields = new Set([...Object.keys(oldValue), ...Object.keys(newValue)]);
+  return [...fields]
+    .filter(field => JSON.stringify(oldValue[field]) !== JSON.stringify(newValue[field]))
+    .map(field => ({ field, oldValue: oldValue[field], newValue: newValue[field] }));
+};
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value, null, 2);
+};
+
+/**
+ * "HARDWARE_COMPONENT" -> "Hardware component"
+ */
+export const formatAuditLabel = (value: string) => {
+  const text = value.toLowerCase().replace(/_/g, ' ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
+
+/**
+ * Converts the viewer filters into an AuditQuery; date bounds cover whole days
+ */
+export const toAuditQuery = (filters: AuditFilters, limit: number): AuditQuery => ({
+  entityType: filters.entityType === ALL ? undefined : filters.entityType,
+  entityId: filters.entityId === ALL ? undefined : filters.entityId,
+  action: filters.action === ALL ? undefined : filters.action,
+  userId: filters.userId === ALL ? undefined : filters.userId,
+  startDate: filters.startDate ? new Date(`${filters.startDate}T00:00:00`) : undefined,
+  endDate: filters.endDate ? new Date(`${filters.endDate}T23:59:59.999`) : undefined,
+  limit,
+});
+
+/**
+ * Downloads the matching audit events and their summary as JSON
+ */
+export const downloadAuditTrail = (query: AuditQuery, fileName: string) => {
+  const blob = new Blob([auditTrail.exportAuditTrail(query)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,2 @@
+// Export services for audit
+export * from './audit-changes';
@@ -0,0 +1,18 @@
+// Export types for audit
+export interface AuditFieldChange {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+/**
+ * Filter values of the audit trail viewer; 'all' leaves a dimension unfiltered
+ */
+export interface AuditFilters {
+  entityType: string;
+  entityId: string;
+  action: string;
+  userId: string;
+  startDate: string; // yyyy-mm-dd from a date input
+  endDate: string;
+}
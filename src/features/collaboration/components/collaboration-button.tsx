@@ -0,0 +1,75 @@
+import { UsersIcon } from '@heroicons/react/24/outline';
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { useAnalysisContext } from '@/context/AnalysisContext';
+import { useCollaboration } from '@/context/CollaborationContext';
+import { cn } from '@/lib/utils';
+import { CollaborationStatus } from '@/utils/collaboration-client';
+import { COLLABORATION_STATUS_LABELS, getFocusLabel } from '../services';
+import { PeerAvatar } from './partials';
+
+const MAX_AVATARS = 3;
+
+const STATUS_COLORS: Record<CollaborationStatus, string> = {
+  disconnected: 'bg-gray-300',
+  connecting: 'bg-blue-500 animate-pulse',
+  connected: 'bg-green-500',
+  offline: 'bg-amber-500',
+};
+
+interface CollaborationButtonProps {
+  onClick: () => void;
+}
+
+/**
+ * Header button showing the connection status and who else is in the analysis
+ */
+const CollaborationButton: React.FC<CollaborationButtonProps> = ({ onClick }) => {
+  const { settings, status, peers } = useCollaboration();
+  const analysisData = useAnalysisContext();
+  const shown = peers.slice(0, MAX_AVATARS);
+
+  const title = [
+    settings.enabled && analysisData.isLocked
+      ? 'Paused while the analysis is approved'
+      : COLLABORATION_STATUS_LABELS[status],
+    ...peers.map(peer => {
+      const focus = getFocusLabel(peer.focus, analysisData);
+      return focus ? `${peer.name}: editing ${focus}` : peer.name;
+    }),
+  ].join('\n');
+
+  return (
+    <Button
+      variant="ghost"
+      onClick={onClick}
+      title={title}
+      aria-label="Collaboration"
+      className="gap-2 px-2"
+    >
+      <span className="relative">
+        <UsersIcon className="h-4 w-4" />
+        <span
+          className={cn(
+            'absolute -right-0.5 -bottom-0.5 h-2 w-2 rounded-full',
+            STATUS_COLORS[status]
+          )}
+        />
+      </span>
+      {shown.length > 0 && (
+        <span className="flex -space-x-1.5">
+          {shown.map(peer => (
+            <PeerAvatar key={peer.clientId} peer={peer} />
+          ))}
+          {peers.length > MAX_AVATARS && (
+            <span className="inline-flex h-6 w-6 items-center justify-center rounded-full bg-gray-200 text-[10px] font-semibold text-gray-700 ring-2 ring-white dark:ring-neutral-950">
+              +{peers.length - MAX_AVATARS}
+            </span>
+          )}
+        </span>
+      )}
+    </Button>
+  );
+};
+
+export default CollaborationButton;
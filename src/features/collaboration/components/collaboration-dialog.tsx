@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/shared';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useAnalysisContext } from '@/context/AnalysisContext';
+import { useCollaboration } from '@/context/CollaborationContext';
+import { auditTrail } from '@/utils/audit-trail';
+import { DEFAULT_COLLABORATION_SERVER } from '@/utils/collaboration-client';
+import { COLLABORATION_STATUS_LABELS, getFocusLabel } from '../services';
+import { PeerAvatar } from './partials';
+
+interface CollaborationDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Joins the open analysis to the collaboration relay and lists who else is in it
+ */
+const CollaborationDialog: React.FC<CollaborationDialogProps> = ({ isOpen, onClose }) => {
+  const { settings, status, peers, updateSettings } = useCollaboration();
+  const analysisData = useAnalysisContext();
+  const [serverUrl, setServerUrl] = useState(settings.serverUrl);
+  const [displayName, setDisplayName] = useState(settings.displayName);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setServerUrl(settings.serverUrl);
+    setDisplayName(settings.displayName);
+  }, [isOpen, settings.serverUrl, settings.displayName]);
+
+  const isChanged = serverUrl !== settings.serverUrl || displayName !== settings.displayName;
+
+  const handleSave = () => {
+    updateSettings({ serverUrl: serverUrl.trim() || DEFAULT_COLLABORATION_SERVER, displayName });
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Collaboration</DialogTitle>
+          <DialogDescription>
+            Edit the analysis together in real time through a collaboration server on your own
+            network. Start one with <code>npm run sync-server</code>.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between rounded-md border p-3">
+            <div>
+              <Label htmlFor="collaboration-enabled">Collaborate on this analysis</Label>
+              <p className="text-sm text-gray-500">{COLLABORATION_STATUS_LABELS[status]}</p>
+            </div>
+            <Switch
+              id="collaboration-enabled"
+              checked={settings.enabled}
+              onCheckedChange={enabled => updateSettings({ enabled })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="collaboration-server">Server</Label>
+            <Input
+              id="collaboration-server"
+              value={serverUrl}
+              onChange={event => setServerUrl(event.target.value)}
+              placeholder={DEFAULT_COLLABORATION_SERVER}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="collaboration-name">Your name</Label>
+            <Input
+              id="collaboration-name"
+              value={displayName}
+              onChange={event => setDisplayName(event.target.value)}
+              placeholder={auditTrail.getCurrentUser().name}
+            />
+          </div>
+
+          {settings.enabled && (
+            <div className="space-y-2">
+              <Label>Also in this analysis</Label>
+              {peers.length === 0 ? (
+                <p className="text-sm text-gray-500">Nobody else is connected.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {peers.map(peer => {
+                    const focus = getFocusLabel(peer.focus, analysisData);
+                    return (
+                      <li key={peer.clientId} className="flex items-center gap-2 text-sm">
+                        <PeerAvatar peer={peer} />
+                        <span className="font-medium">{peer.name}</span>
+                        {focus && <span className="truncate text-gray-500">editing {focus}</span>}
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="secondary" onClick={onClose}>
+            Close
+          </Button>
+          <Button onClick={handleSave} disabled={!isChanged}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CollaborationDialog;
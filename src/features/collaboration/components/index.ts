@@ -0,0 +1,5 @@
+// Collaboration components barrel export
+
+export { default as CollaborationButton } from './collaboration-button';
+export { default as CollaborationDialog } from './collaboration-dialog';
+export { default as PresenceBadge } from './presence-badge';
@@ -0,0 +1,2 @@
+// Barrel export for collaboration partials
+export { default as PeerAvatar } from './peer-avatar';
@@ -0,0 +1,23 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { CollaborationPeer } from '@/utils/collaboration-client';
+import { getPeerInitials } from '../../services';
+
+interface PeerAvatarProps {
+  peer: CollaborationPeer;
+  size?: 'sm' | 'md';
+}
+
+const PeerAvatar: React.FC<PeerAvatarProps> = ({ peer, size = 'md' }) => (
+  <span
+    className={cn(
+      'inline-flex items-center justify-center rounded-full text-[10px] font-semibold text-white ring-2 ring-white dark:ring-neutral-950',
+      size === 'sm' ? 'h-5 w-5' : 'h-6 w-6'
+    )}
+    style={{ backgroundColor: peer.color }}
+  >
+    {getPeerInitials(peer)}
+  </span>
+);
+
+export default PeerAvatar;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { useCollaboration } from '@/context/CollaborationContext';
+import { cn } from '@/lib/utils';
+import { PeerAvatar } from './partials';
+
+interface PresenceBadgeProps {
+  entityId: string;
+  className?: string;
+}
+
+/**
+ * The collaborators editing an entity; renders nothing while nobody else does
+ */
+const PresenceBadge: React.FC<PresenceBadgeProps> = ({ entityId, className }) => {
+  const { getEditors } = useCollaboration();
+  const editors = getEditors(entityId);
+  if (editors.length === 0) return null;
+
+  const names = editors.map(peer => peer.name);
+  const title = `${names.join(', ')} ${names.length > 1 ? 'are' : 'is'} editing`;
+
+  return (
+    <span className={cn('inline-flex -space-x-1 align-middle', className)} title={title}>
+      {editors.map(peer => (
+        <PeerAvatar key={peer.clientId} peer={peer} size="sm" />
+      ))}
+    </span>
+  );
+};
+
+export default PresenceBadge;
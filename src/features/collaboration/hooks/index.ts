@@ -0,0 +1,2 @@
+// Export hooks for collaboration
+export * from './useCollaborationFocus';
@@ -0,0 +1,17 @@
+import { useEffect } from 'react';
+import { useCollaboration } from '@/context/CollaborationContext';
+import { HistoryKey } from '@/utils/analysis-history';
+
+/**
+ * Shows collaborators which entity this user is editing, while the calling
+ * component is mounted and the entity id is set
+ */
+export const useCollaborationFocus = (collection: HistoryKey, entityId: string | null) => {
+  const { setFocus } = useCollaboration();
+
+  useEffect(() => {
+    if (!entityId) return;
+    setFocus({ collection, entityId });
+    return () => setFocus(null);
+  }, [collection, entityId, setFocus]);
+};
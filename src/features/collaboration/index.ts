@@ -0,0 +1,4 @@
+// Collaboration feature barrel export
+export * from './components';
+export * from './hooks';
+export * from './services';
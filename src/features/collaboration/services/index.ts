@@ -0,0 +1,2 @@
+// Export services for collaboration
+export * from './presence';
@@ -0,0 +1,39 @@
+import { DIFF_COLLECTIONS, getEntityLabel } from '@/features/diff';
+import { AnalysisData, Identifiable } from '@/types/types';
+import {
+  CollaborationPeer,
+  CollaborationStatus,
+  PresenceFocus,
+} from '@/utils/collaboration-client';
+
+export const COLLABORATION_STATUS_LABELS: Record<CollaborationStatus, string> = {
+  disconnected: 'Not collaborating',
+  connecting: 'Connecting…',
+  connected: 'Connected',
+  offline: 'Offline; changes are sent when the connection is back',
+};
+
+/**
+ * Names the entity a collaborator is editing, e.g. "UCA-3 …" or a controller name.
+ * Null while nothing is being edited or the entity is unknown.
+ */
+export const getFocusLabel = (
+  focus: PresenceFocus | null,
+  data: Partial<AnalysisData>
+): string | null => {
+  if (!focus) return null;
+  const collection = DIFF_COLLECTIONS.find(candidate => candidate.key === focus.collection);
+  if (!collection) return null;
+  const entity = ((data[collection.key] || []) as Identifiable[]).find(
+    item => item.id === focus.entityId
+  );
+  return entity ? getEntityLabel(entity, collection.key) : null;
+};
+
+export const getPeerInitials = (peer: CollaborationPeer) =>
+  peer.name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part[0].toUpperCase())
+    .join('') || '?';
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/shared';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useAnalysisContext } from '@/context/AnalysisContext';
+import { ComplianceStandard } from '@/types/types';
+import { COMPLIANCE_PROFILES, COMPLIANCE_STANDARDS, evaluateCompliance } from '../services';
+import { ComplianceItemRow } from './partials';
+
+interface ComplianceDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Standards the analysis is justified against, with a gap checklist for each
+ */
+const ComplianceDialog: React.FC<ComplianceDialogProps> = ({ isOpen, onClose }) => {
+  const analysis = useAnalysisContext();
+  const { analysisSession, updateAnalysisSession } = analysis;
+  const standards = analysisSession?.complianceStandards ?? [];
+  const [activeStandard, setActiveStandard] = useState<string>('');
+  // The first standard until another one is picked, or when the picked one is deselected
+  const shownStandard = standards.includes(activeStandard as ComplianceStandard)
+    ? activeStandard
+    : (standards[0] ?? '');
+
+  const toggleStandard = (standard: ComplianceStandard, checked: boolean) =>
+    updateAnalysisSession({
+      complianceStandards: COMPLIANCE_STANDARDS.filter(s =>
+        s === standard ? checked : standards.includes(s)
+      ),
+    });
+
+  const checklists = isOpen
+    ? standards.map(standard => evaluateCompliance(analysis, standard))
+    : [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Compliance</DialogTitle>
+          <DialogDescription>
+            Map the analysis to the work products of the standards you justify STPA against. Gaps
+            are listed per work product and included in reports.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-2">
+          {COMPLIANCE_STANDARDS.map(standard => (
+            <div key={standard} className="flex items-start gap-2 rounded-md border p-2">
+              <Checkbox
+                id={`compliance-${standard}`}
+                checked={standards.includes(standard)}
+                onCheckedChange={checked => toggleStandard(standard, checked === true)}
+              />
+              <Label htmlFor={`compliance-${standard}`} className="font-normal">
+                <span className="font-medium">{standard}</span>
+                <span className="block text-xs text-gray-500">
+                  {COMPLIANCE_PROFILES[standard].domain}
+                </span>
+              </Label>
+            </div>
+          ))}
+        </div>
+
+        {checklists.length === 0 ? (
+          <p className="text-sm text-gray-500">Select a standard to see its gap checklist.</p>
+        ) : (
+          <Tabs value={shownStandard} onValueChange={setActiveStandard}>
+            <TabsList>
+              {checklists.map(({ profile, coverage }) => (
+                <TabsTrigger key={profile.standard} value={profile.standard}>
+                  {profile.standard} · {coverage}%
+                </TabsTrigger>
+              ))}
+            </TabsList>
+            {checklists.map(({ profile, items }) => (
+              <TabsContent key={profile.standard} value={profile.standard}>
+                <p className="mb-2 text-sm text-gray-500">{profile.title}</p>
+                <ScrollArea className="max-h-[45vh]">
+                  <ul className="divide-y rounded-md border">
+                    {items.map(item => (
+                      <ComplianceItemRow key={item.workProduct.id} item={item} />
+                    ))}
+                  </ul>
+                </ScrollArea>
+              </TabsContent>
+            ))}
+          </Tabs>
+        )}
+
+        <DialogFooter>
+          <Button variant="secondary" onClick={onClose}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ComplianceDialog;
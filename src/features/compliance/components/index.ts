@@ -0,0 +1,3 @@
+// Compliance components barrel export
+
+export { default as ComplianceDialog } from './compliance-dialog';
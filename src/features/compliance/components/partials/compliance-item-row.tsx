@@ -0,0 +1,55 @@
+import { CheckCircleIcon, ExclamationTriangleIcon, XCircleIcon } from '@heroicons/react/24/outline';
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { COMPLIANCE_STATUS_LABELS, describeComplianceGaps } from '../../services';
+import { ComplianceChecklistItem, ComplianceItemStatus } from '../../types';
+
+interface ComplianceItemRowProps {
+  item: ComplianceChecklistItem;
+}
+
+const STATUS_ICONS: Record<ComplianceItemStatus, React.ComponentType<{ className?: string }>> = {
+  met: CheckCircleIcon,
+  partial: ExclamationTriangleIcon,
+  gap: XCircleIcon,
+};
+
+const STATUS_COLORS: Record<ComplianceItemStatus, string> = {
+  met: 'text-green-600 dark:text-green-400',
+  partial: 'text-amber-600 dark:text-amber-400',
+  gap: 'text-red-600 dark:text-red-400',
+};
+
+/**
+ * One work product of a standard, with what is missing for it
+ */
+const ComplianceItemRow: React.FC<ComplianceItemRowProps> = ({ item }) => {
+  const { workProduct, status } = item;
+  const Icon = STATUS_ICONS[status];
+  const gaps = describeComplianceGaps(item);
+
+  return (
+    <li className="flex gap-3 p-3">
+      <Icon
+        className={cn('mt-0.5 h-5 w-5 shrink-0', STATUS_COLORS[status])}
+        aria-label={COMPLIANCE_STATUS_LABELS[status]}
+      />
+      <div className="min-w-0 space-y-1 text-sm">
+        <p>
+          <span className="font-medium">{workProduct.title}</span>
+          <span className="ml-2 text-xs text-gray-500">{workProduct.reference}</span>
+        </p>
+        <p className="text-gray-600 dark:text-gray-400">{workProduct.description}</p>
+        {gaps.length > 0 && (
+          <ul className="list-disc pl-5 text-gray-700 dark:text-gray-300">
+            {gaps.map(gap => (
+              <li key={gap}>{gap}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </li>
+  );
+};
+
+export default ComplianceItemRow;
@@ -0,0 +1,2 @@
+// Barrel export for compliance partials
+export { default as ComplianceItemRow } from './compliance-item-row';
@@ -0,0 +1,4 @@
+// Compliance feature barrel export
+export * from './components';
+export * from './services';
+export type * from './types';
@@ -0,0 +1,48 @@
+import { AnalysisData, ComplianceStandard } from '@/types/types';
+import { ComplianceChecklist, ComplianceChecklistItem, ComplianceItemStatus } from '../types';
+import { isCriterionMet } from './compliance-criteria';
+import { COMPLIANCE_PROFILES } from './compliance-profiles';
+
+export const COMPLIANCE_STATUS_LABELS: Record<ComplianceItemStatus, string> = {
+  met: 'Met',
+  partial: 'Partial',
+  gap: 'Gap',
+};
+
+/**
+ * Evaluates the work products of a standard against the analysis
+ */
+export const evaluateCompliance = (
+  data: AnalysisData,
+  standard: ComplianceStandard
+): ComplianceChecklist => {
+  const profile = COMPLIANCE_PROFILES[standard];
+  const items = profile.workProducts.map((workProduct): ComplianceChecklistItem => {
+    const criteria = workProduct.criteria.map(criterion => criterion(data));
+    const status: ComplianceItemStatus = criteria.every(isCriterionMet)
+      ? 'met'
+      : criteria.some(result => result.satisfied > 0)
+        ? 'partial'
+        : 'gap';
+    return { workProduct, status, criteria };
+  });
+  const met = items.filter(item => item.status === 'met').length;
+
+  return {
+    profile,
+    items,
+    coverage: items.length === 0 ? 0 : Math.round((met / items.length) * 100),
+  };
+};
+
+/**
+ * What is missing for a work product, one line per unmet criterion
+ */
+export const describeComplianceGaps = (item: ComplianceChecklistItem): string[] =>
+  item.criteria
+    .filter(result => !isCriterionMet(result))
+    .map(result =>
+      result.total === 0
+        ? `${result.label}: nothing recorded yet`
+        : `${result.label}: ${result.satisfied} of ${result.total}`
+    );
@@ -0,0 +1,134 @@
+import {
+  getHazardLossIds,
+  getUCAHazardIds,
+} from '@/features/reports/services/analysis-completeness';
+import { getLinkedScenarioIds } from '@/features/STAMP/step5_mitigations/services';
+import { AnalysisData } from '@/types/types';
+import { ComplianceCriterion, CriterionResult } from '../types';
+
+const scenarioCode = (scenario: { id: string; code?: string; title?: string }) =>
+  scenario.code || scenario.title || scenario.id;
+
+/**
+ * Criterion met by every item that passes the test, evidenced by their names
+ */
+const everyItem =
+  <T>(
+    label: string,
+    getItems: (data: AnalysisData) => T[],
+    passes: (item: T, data: AnalysisData) => boolean,
+    nameOf: (item: T) => string
+  ): ComplianceCriterion =>
+  data => {
+    const items = getItems(data);
+    const passed = items.filter(item => passes(item, data));
+    return { label, satisfied: passed.length, total: items.length, evidence: passed.map(nameOf) };
+  };
+
+export const lossesIdentified: ComplianceCriterion = data => ({
+  label: 'Losses identified',
+  satisfied: data.losses.length,
+  total: data.losses.length,
+  evidence: data.losses.map(loss => loss.code),
+});
+
+export const hazardsLinkedToLosses = everyItem(
+  'Every hazard is linked to a loss',
+  data => data.hazards,
+  hazard => getHazardLossIds(hazard).length > 0,
+  hazard => hazard.code
+);
+
+export const hazardsClassified = everyItem(
+  'Every hazard has a severity classification',
+  data => data.hazards,
+  hazard => !!hazard.severity?.trim(),
+  hazard => hazard.code
+);
+
+export const hazardsConstrained = everyItem(
+  'Every hazard has a system constraint',
+  data => data.hazards,
+  (hazard, data) => data.systemConstraints.some(c => c.hazardId === hazard.id),
+  hazard => hazard.code
+);
+
+export const controlStructureModelled: ComplianceCriterion = data => {
+  const controllers = data.controllers.filter(controller =>
+    data.controlPaths.some(path => path.sourceControllerId === controller.id)
+  );
+  return {
+    label: 'Every controller has control paths',
+    satisfied: controllers.length,
+    total: data.controllers.length,
+    evidence: controllers.map(controller => controller.name),
+  };
+};
+
+export const feedbackModelled = everyItem(
+  'Every controller with control paths receives feedback',
+  data =>
+    data.controllers.filter(controller =>
+      data.controlPaths.some(path => path.sourceControllerId === controller.id)
+    ),
+  (controller, data) =>
+    data.feedbackPaths.some(path => path.targetControllerId === controller.id && !path.isMissing),
+  controller => controller.name
+);
+
+export const controlActionsAnalysed = everyItem(
+  'Every control action is analysed for UCAs',
+  data => data.controlActions.filter(action => !action.isOutOfScope),
+  (action, data) => data.ucas.some(uca => uca.controlActionId === action.id),
+  action => `${action.verb} ${action.object}`.trim()
+);
+
+export const ucasLinkedToHazards = everyItem(
+  'Every UCA is linked to a hazard',
+  data => data.ucas,
+  uca => getUCAHazardIds(uca).length > 0,
+  uca => uca.code
+);
+
+export const hazardsAddressedByUCAs = everyItem(
+  'Every hazard is addressed by a UCA',
+  data => data.hazards,
+  (hazard, data) => data.ucas.some(uca => getUCAHazardIds(uca).includes(hazard.id)),
+  hazard => hazard.code
+);
+
+export const ucasHaveScenarios = everyItem(
+  'Every UCA has a causal scenario',
+  data => data.ucas,
+  (uca, data) => (data.scenarios || []).some(scenario => scenario.ucaId === uca.id),
+  uca => uca.code
+);
+
+export const scenariosHaveCausalFactors = everyItem(
+  'Every causal scenario names its causal factors',
+  data => data.scenarios || [],
+  scenario => scenario.causalFactors.length > 0,
+  scenarioCode
+);
+
+export const scenariosAddressed = everyItem(
+  'Every causal scenario is addressed by a requirement',
+  data => data.scenarios || [],
+  (scenario, data) =>
+    data.requirements.some(requirement => getLinkedScenarioIds(requirement).includes(scenario.id)),
+  scenarioCode
+);
+
+export const requirementsVerified = everyItem(
+  'Every requirement has a verification method',
+  data => data.requirements,
+  requirement => !!requirement.verificationMethod?.trim(),
+  requirement => requirement.code || requirement.id
+);
+
+/**
+ * Criteria without any artefacts to apply to are not satisfied: the work product
+ * has no evidence yet
+ */
+export const isCriterionMet = (result: CriterionResult) =>
+  result.total > 0 && result.satisfied === result.total;
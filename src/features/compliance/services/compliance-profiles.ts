@@ -0,0 +1,241 @@
+import { ComplianceStandard } from '@/types/types';
+import { ComplianceProfile } from '../types';
+import {
+  controlActionsAnalysed,
+  controlStructureModelled,
+  feedbackModelled,
+  hazardsAddressedByUCAs,
+  hazardsClassified,
+  hazardsConstrained,
+  hazardsLinkedToLosses,
+  lossesIdentified,
+  requirementsVerified,
+  scenariosAddressed,
+  scenariosHaveCausalFactors,
+  ucasHaveScenarios,
+  ucasLinkedToHazards,
+} from './compliance-criteria';
+
+/**
+ * Work products each standard expects and the STPA artefacts that serve as their
+ * evidence. STPA contributes to these work products; it doesn't replace the methods
+ * a standard prescribes, such as ASIL determination or fault tree analysis.
+ */
+export const COMPLIANCE_PROFILES: Record<ComplianceStandard, ComplianceProfile> = {
+  'ISO 26262': {
+    standard: 'ISO 26262',
+    title: 'ISO 26262:2018 Road vehicles, functional safety',
+    domain: 'Automotive',
+    workProducts: [
+      {
+        id: 'iso26262-item-definition',
+        reference: 'Part 3, Clause 5',
+        title: 'Item definition',
+        description:
+          'The control structure describes the functionality, interfaces and interactions of the item.',
+        artefacts: ['controllers'],
+        criteria: [controlStructureModelled, feedbackModelled],
+      },
+      {
+        id: 'iso26262-hara',
+        reference: 'Part 3, Clause 6',
+        title: 'Hazard analysis and risk assessment',
+        description:
+          'Losses and hazards identify the hazardous events of the item; their severity supports the ASIL classification.',
+        artefacts: ['losses', 'hazards'],
+        criteria: [lossesIdentified, hazardsLinkedToLosses, hazardsClassified],
+      },
+      {
+        id: 'iso26262-safety-goals',
+        reference: 'Part 3, Clause 6',
+        title: 'Safety goals',
+        description: 'System constraints are the top-level safety requirements on each hazard.',
+        artefacts: ['hazards', 'systemConstraints'],
+        criteria: [hazardsConstrained],
+      },
+      {
+        id: 'iso26262-safety-analyses',
+        reference: 'Part 9, Clause 8',
+        title: 'Safety analyses',
+        description:
+          'UCAs and causal scenarios are the results of a qualitative analysis of the control structure.',
+        artefacts: ['ucas', 'scenarios'],
+        criteria: [controlActionsAnalysed, ucasLinkedToHazards, ucasHaveScenarios],
+      },
+      {
+        id: 'iso26262-fsc',
+        reference: 'Part 3, Clause 7',
+        title: 'Functional safety concept',
+        description:
+          'Requirements derived from the causal scenarios form functional safety requirements.',
+        artefacts: ['scenarios', 'requirements'],
+        criteria: [scenariosAddressed],
+      },
+      {
+        id: 'iso26262-verification',
+        reference: 'Part 8, Clause 9',
+        title: 'Verification',
+        description: 'Each safety requirement states how it is verified.',
+        artefacts: ['requirements'],
+        criteria: [requirementsVerified],
+      },
+    ],
+  },
+  ARP4761A: {
+    standard: 'ARP4761A',
+    title: 'ARP4761A Safety assessment of civil aircraft systems',
+    domain: 'Aerospace',
+    workProducts: [
+      {
+        id: 'arp4761a-fha',
+        reference: 'FHA',
+        title: 'Functional Hazard Assessment',
+        description:
+          'Hazards linked to losses identify the failure conditions and their effects; severity gives their classification.',
+        artefacts: ['losses', 'hazards'],
+        criteria: [lossesIdentified, hazardsLinkedToLosses, hazardsClassified],
+      },
+      {
+        id: 'arp4761a-pasa',
+        reference: 'PASA / PSSA',
+        title: 'Preliminary aircraft and system safety assessment',
+        description:
+          'UCAs of the control structure show how the system architecture can lead to each failure condition.',
+        artefacts: ['controllers', 'ucas'],
+        criteria: [controlStructureModelled, controlActionsAnalysed, hazardsAddressedByUCAs],
+      },
+      {
+        id: 'arp4761a-cca',
+        reference: 'CCA',
+        title: 'Common Cause Analysis',
+        description:
+          'Causal scenarios identify causes that can defeat independence, such as flawed feedback or process models.',
+        artefacts: ['scenarios'],
+        criteria: [ucasHaveScenarios, scenariosHaveCausalFactors],
+      },
+      {
+        id: 'arp4761a-safety-requirements',
+        reference: 'PSSA',
+        title: 'Derived safety requirements',
+        description:
+          'System constraints and requirements allocate safety requirements to the architecture.',
+        artefacts: ['systemConstraints', 'requirements'],
+        criteria: [hazardsConstrained, scenariosAddressed],
+      },
+      {
+        id: 'arp4761a-ssa',
+        reference: 'ASA / SSA',
+        title: 'System Safety Assessment',
+        description: 'Each safety requirement states how its implementation is verified.',
+        artefacts: ['requirements'],
+        criteria: [requirementsVerified],
+      },
+    ],
+  },
+  'MIL-STD-882E': {
+    standard: 'MIL-STD-882E',
+    title: 'MIL-STD-882E System safety',
+    domain: 'Defence',
+    workProducts: [
+      {
+        id: 'mil882e-identify-hazards',
+        reference: 'Section 4.3.2',
+        title: 'Identify and document hazards',
+        description: 'Hazards are linked to the mishaps (losses) they can lead to.',
+        artefacts: ['losses', 'hazards'],
+        criteria: [lossesIdentified, hazardsLinkedToLosses],
+      },
+      {
+        id: 'mil882e-assess-risk',
+        reference: 'Section 4.3.3',
+        title: 'Assess and document risk',
+        description: 'Each hazard is assigned a severity category.',
+        artefacts: ['hazards'],
+        criteria: [hazardsClassified],
+      },
+      {
+        id: 'mil882e-sha',
+        reference: 'Task 205',
+        title: 'System Hazard Analysis',
+        description:
+          'UCAs and causal scenarios analyse the interfaces and interactions between subsystems.',
+        artefacts: ['controllers', 'ucas', 'scenarios'],
+        criteria: [controlActionsAnalysed, ucasLinkedToHazards, ucasHaveScenarios],
+      },
+      {
+        id: 'mil882e-mitigation',
+        reference: 'Section 4.3.4',
+        title: 'Identify and document risk mitigation measures',
+        description: 'Requirements and mitigations address every causal scenario.',
+        artefacts: ['scenarios', 'requirements'],
+        criteria: [hazardsConstrained, scenariosAddressed],
+      },
+      {
+        id: 'mil882e-verify',
+        reference: 'Section 4.3.6',
+        title: 'Verify, validate and document risk reduction',
+        description: 'Each mitigation states how the risk reduction is verified.',
+        artefacts: ['requirements'],
+        criteria: [requirementsVerified],
+      },
+      {
+        id: 'mil882e-hazard-tracking',
+        reference: 'Task 106',
+        title: 'Hazard tracking system',
+        description: 'Every hazard can be traced through its UCAs to its mitigations.',
+        artefacts: ['hazards', 'ucas'],
+        criteria: [hazardsAddressedByUCAs],
+      },
+    ],
+  },
+  'ISO 21448': {
+    standard: 'ISO 21448',
+    title: 'ISO 21448:2022 Safety of the intended functionality (SOTIF)',
+    domain: 'Automotive',
+    workProducts: [
+      {
+        id: 'iso21448-specification',
+        reference: 'Clause 5',
+        title: 'Specification and design',
+        description: 'The control structure describes the intended functionality and its feedback.',
+        artefacts: ['controllers'],
+        criteria: [controlStructureModelled, feedbackModelled],
+      },
+      {
+        id: 'iso21448-hazards',
+        reference: 'Clause 6',
+        title: 'Identification and evaluation of hazards',
+        description: 'Hazards of the intended functionality, their harm (losses) and severity.',
+        artefacts: ['losses', 'hazards'],
+        criteria: [lossesIdentified, hazardsLinkedToLosses, hazardsClassified],
+      },
+      {
+        id: 'iso21448-insufficiencies',
+        reference: 'Clause 7',
+        title: 'Functional insufficiencies and triggering conditions',
+        description:
+          'UCAs identify functional insufficiencies; the causal factors of scenarios are their triggering conditions.',
+        artefacts: ['ucas', 'scenarios'],
+        criteria: [controlActionsAnalysed, ucasHaveScenarios, scenariosHaveCausalFactors],
+      },
+      {
+        id: 'iso21448-modifications',
+        reference: 'Clause 8',
+        title: 'Functional modifications addressing SOTIF-related risks',
+        description: 'Requirements and mitigations address every causal scenario.',
+        artefacts: ['scenarios', 'requirements'],
+        criteria: [scenariosAddressed],
+      },
+      {
+        id: 'iso21448-verification',
+        reference: 'Clause 9',
+        title: 'Verification and validation strategy',
+        description: 'Each requirement states how it is verified or validated.',
+        artefacts: ['requirements'],
+        criteria: [requirementsVerified],
+      },
+    ],
+  },
+};
+
+export const COMPLIANCE_STANDARDS = Object.keys(COMPLIANCE_PROFILES) as ComplianceStandard[];
@@ -0,0 +1,4 @@
+// Export services for compliance
+export * from './compliance-checklist';
+export * from './compliance-criteria';
+export * from './compliance-profiles';
@@ -0,0 +1,60 @@
+// Export types for compliance
+import { AnalysisData, ComplianceStandard } from '@/types/types';
+
+/**
+ * Analysis artefacts that serve as evidence for the work products of a standard
+ */
+export type ComplianceArtefact =
+  | 'losses'
+  | 'hazards'
+  | 'systemConstraints'
+  | 'controllers'
+  | 'ucas'
+  | 'scenarios'
+  | 'requirements';
+
+/**
+ * How many of the artefacts a criterion applies to satisfy it. Evidence names
+ * the artefacts that do, e.g. by their codes.
+ */
+export interface CriterionResult {
+  label: string;
+  satisfied: number;
+  total: number;
+  evidence: string[];
+}
+
+export type ComplianceCriterion = (data: AnalysisData) => CriterionResult;
+
+export interface ComplianceWorkProduct {
+  id: string;
+  reference: string; // Clause, task or process of the standard
+  title: string;
+  description: string; // How the STPA artefacts contribute to the work product
+  artefacts: ComplianceArtefact[];
+  criteria: ComplianceCriterion[];
+}
+
+export interface ComplianceProfile {
+  standard: ComplianceStandard;
+  title: string;
+  domain: string;
+  workProducts: ComplianceWorkProduct[];
+}
+
+/**
+ * `gap`: no evidence yet; `partial`: some criteria or artefacts are not satisfied
+ */
+export type ComplianceItemStatus = 'met' | 'partial' | 'gap';
+
+export interface ComplianceChecklistItem {
+  workProduct: ComplianceWorkProduct;
+  status: ComplianceItemStatus;
+  criteria: CriterionResult[];
+}
+
+export interface ComplianceChecklist {
+  profile: ComplianceProfile;
+  items: ComplianceChecklistItem[];
+  coverage: number; // 0-100 percentage of work products met
+}
@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/shared';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { describeAuditEntity } from '@/utils/audit-trail';
+import { useEntityDeletion } from '../hooks';
+import { ENTITY_COLLECTION_LABELS } from '../services';
+import { EntityCollection } from '../types';
+import { ImpactEntityList } from './partials';
+
+type ResolutionMode = 'cascade' | 'reassign';
+
+interface DeleteImpactDialogProps {
+  collection: EntityCollection;
+  entityId: string | string[] | null; // The dialog is open while entities are set
+  onClose: () => void;
+}
+
+/**
+ * Confirms a deletion after listing every entity that references the deleted ones,
+ * which can be deleted or unlinked along with them, or pointed at a replacement
+ */
+const DeleteImpactDialog: React.FC<DeleteImpactDialogProps> = ({
+  collection,
+  entityId,
+  onClose,
+}) => {
+  const { getImpact, getReplacementCandidates, cascadeDelete, reassignAndDelete } =
+    useEntityDeletion();
+  const [mode, setMode] = useState<ResolutionMode>('cascade');
+  const [replacementId, setReplacementId] = useState('');
+
+  const impact = entityId ? getImpact(collection, entityId) : null;
+  const candidates = impact ? getReplacementCandidates(impact) : [];
+  const labels = ENTITY_COLLECTION_LABELS[collection];
+  const count = impact?.entities.length ?? 0;
+  const entityLabel =
+    count > 1
+      ? `these ${count} ${labels.plural}`
+      : impact
+        ? describeAuditEntity(impact.entities[0]) || labels.singular
+        : '';
+  const deletedLabel = count > 1 ? `${count} ${labels.plural}` : labels.singular;
+  const referencedLabel = count > 1 ? `These ${count} ${labels.plural} are` : `${entityLabel} is`;
+  const hasDependents = !!impact && impact.dependents.length > 0;
+
+  const handleClose = () => {
+    setMode('cascade');
+    setReplacementId('');
+    onClose();
+  };
+
+  const handleConfirm = () => {
+    if (!impact) return;
+    if (hasDependents && mode === 'reassign') {
+      reassignAndDelete(impact, replacementId);
+    } else {
+      cascadeDelete(impact);
+    }
+    handleClose();
+  };
+
+  const confirmText = !hasDependents
+    ? `Delete ${deletedLabel}`
+    : mode === 'reassign'
+      ? 'Reassign and Delete'
+      : `Delete ${impact.cascade.deletions.length} Entities`;
+
+  return (
+    <Dialog open={entityId !== null} onOpenChange={open => !open && handleClose()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Delete {deletedLabel}</DialogTitle>
+          <DialogDescription>
+            {hasDependents
+              ? `${referencedLabel} referenced by ${impact.dependents.length} other ${
+                  impact.dependents.length === 1 ? 'entity' : 'entities'
+                }. Choose what happens to them.`
+              : `Nothing else references ${entityLabel}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {hasDependents && (
+          <Tabs value={mode} onValueChange={value => setMode(value as ResolutionMode)}>
+            <TabsList className="w-full">
+              <TabsTrigger value="cascade">Cascade delete</TabsTrigger>
+              <TabsTrigger value="reassign">Reassign to another {labels.singular}</TabsTrigger>
+            </TabsList>
+            <TabsContent value="cascade">
+              <ScrollArea className="h-72 rounded-md border p-3">
+                <div className="space-y-4">
+                  <ImpactEntityList
+                    title="Also deleted"
+                    entities={impact.cascade.deletions.slice(count)}
+                    tone="danger"
+                  />
+                  <ImpactEntityList
+                    title={
+                      count > 1
+                        ? `Links to these ${labels.plural} removed`
+                        : `Link to this ${labels.singular} removed`
+                    }
+                    entities={impact.cascade.updates}
+                  />
+                </div>
+              </ScrollArea>
+            </TabsContent>
+            <TabsContent value="reassign" className="space-y-3">
+              <div className="space-y-1">
+                <Label className="text-xs">Replacement {labels.singular}</Label>
+                <Select value={replacementId} onValueChange={setReplacementId}>
+                  <SelectTrigger>
+                    <SelectValue
+                      placeholder={
+                        candidates.length > 0
+                          ? `Select a ${labels.singular}`
+                          : `No other ${labels.plural} available`
+                      }
+                    />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {candidates.map(candidate => (
+                      <SelectItem key={candidate.id} value={candidate.id}>
+                        {describeAuditEntity(candidate) || candidate.id}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <ScrollArea className="h-56 rounded-md border p-3">
+                <ImpactEntityList title="Relinked" entities={impact.dependents} />
+              </ScrollArea>
+            </TabsContent>
+          </Tabs>
+        )}
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button
+            variant="danger"
+            disabled={!impact || (hasDependents && mode === 'reassign' && !replacementId)}
+            onClick={handleConfirm}
+          >
+            {confirmText}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DeleteImpactDialog;
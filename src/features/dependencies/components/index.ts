@@ -0,0 +1,3 @@
+// Dependencies components barrel export
+
+export { default as DeleteImpactDialog } from './delete-impact-dialog';
@@ -0,0 +1,53 @@
+import React from 'react';
+import { ENTITY_COLLECTION_LABELS, describeEntity } from '../../services';
+import { EntityLocation, ReferencingCollection } from '../../types';
+
+interface ImpactEntityListProps {
+  title: string;
+  entities: EntityLocation[];
+  tone?: 'danger' | 'default';
+}
+
+/**
+ * Entities affected by a deletion, grouped by collection
+ */
+const ImpactEntityList: React.FC<ImpactEntityListProps> = ({
+  title,
+  entities,
+  tone = 'default',
+}) => {
+  if (entities.length === 0) return null;
+
+  const groups = new Map<ReferencingCollection, EntityLocation[]>();
+  entities.forEach(location => {
+    groups.set(location.collection, [...(groups.get(location.collection) ?? []), location]);
+  });
+
+  return (
+    <div className="space-y-2">
+      <h4
+        className={
+          tone === 'danger'
+            ? 'text-sm font-semibold text-red-600 dark:text-red-400'
+            : 'text-sm font-semibold text-slate-700 dark:text-slate-300'
+        }
+      >
+        {title} ({entities.length})
+      </h4>
+      {[...groups.entries()].map(([collection, locations]) => (
+        <div key={collection}>
+          <p className="text-xs font-medium tracking-wide text-slate-500 uppercase">
+            {ENTITY_COLLECTION_LABELS[collection].plural}
+          </p>
+          <ul className="ml-4 list-disc text-sm text-slate-700 dark:text-slate-300">
+            {locations.map(location => (
+              <li key={location.entity.id}>{describeEntity(location)}</li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ImpactEntityList;
@@ -0,0 +1,2 @@
+// Barrel export for dependencies partials
+export { default as ImpactEntityList } from './impact-entity-list';
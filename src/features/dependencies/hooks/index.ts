@@ -0,0 +1,2 @@
+// Export hooks for dependencies
+export * from './useEntityDeletion';
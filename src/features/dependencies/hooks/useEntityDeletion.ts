@@ -0,0 +1,116 @@
+import { useAnalysis } from '@/hooks/useAnalysis';
+import { Identifiable } from '@/types/types';
+import { getReplacementCandidates, planReassignment, resolveDeletionImpact } from '../services';
+import { DeletionImpact, DeletionPlan, EntityCollection, ReferencingCollection } from '../types';
+
+interface CollectionOperations {
+  update(id: string, updates: Record<string, unknown>, entity: Identifiable): void;
+  delete(id: string, entity: Identifiable): void;
+}
+
+type NotApplicableStatus = Parameters<ReturnType<typeof useAnalysis>['addNotApplicableStatus']>[0];
+
+// The resolver sees a not-applicable status with an id made of its fields
+const toNotApplicableStatus = (entity: Identifiable): NotApplicableStatus => {
+  const { controllerId, controlActionId, ucaType } = entity as unknown as NotApplicableStatus;
+  return { controllerId, controlActionId, ucaType };
+};
+
+/**
+ * Deletion with the impact on referencing entities. Plans are applied through
+ * the analysis operations in one go, so each is audited and undone as a single step.
+ */
+export const useEntityDeletion = () => {
+  const analysis = useAnalysis();
+
+  const operations: Record<ReferencingCollection, CollectionOperations> = {
+    losses: { update: analysis.updateLoss, delete: analysis.deleteLoss },
+    hazards: { update: analysis.updateHazard, delete: analysis.deleteHazard },
+    systemConstraints: {
+      update: analysis.updateSystemConstraint,
+      delete: analysis.deleteSystemConstraint,
+    },
+    systemComponents: {
+      update: analysis.updateSystemComponent,
+      delete: analysis.deleteSystemComponent,
+    },
+    controllers: { update: analysis.updateController, delete: analysis.deleteController },
+    controlPaths: { update: analysis.updateControlPath, delete: analysis.deleteControlPath },
+    feedbackPaths: { update: analysis.updateFeedbackPath, delete: analysis.deleteFeedbackPath },
+    communicationPaths: {
+      update: analysis.updateCommunicationPath,
+      delete: analysis.deleteCommunicationPath,
+    },
+    failurePaths: { update: analysis.updateFailurePath, delete: analysis.deleteFailurePath },
+    controlActions: {
+      update: analysis.updateControlAction,
+      delete: analysis.deleteControlAction,
+    },
+    ucas: { update: analysis.updateUCA, delete: analysis.deleteUCA },
+    uccas: { update: analysis.updateUCCA, delete: analysis.deleteUCCA },
+    scenarios: { update: analysis.updateScenario, delete: analysis.deleteScenario },
+    requirements: { update: analysis.updateRequirement, delete: analysis.deleteRequirement },
+    hardwareComponents: {
+      update: analysis.updateHardwareComponent,
+      delete: analysis.deleteHardwareComponent,
+    },
+    failureModes: { update: analysis.updateFailureMode, delete: analysis.deleteFailureMode },
+    unsafeInteractions: {
+      update: analysis.updateUnsafeInteraction,
+      delete: analysis.deleteUnsafeInteraction,
+    },
+    notApplicableStatuses: {
+      update: (_id, updates, entity) => {
+        analysis.removeNotApplicableStatus(toNotApplicableStatus(entity));
+        analysis.addNotApplicableStatus({ ...toNotApplicableStatus(entity), ...updates });
+      },
+      delete: (_id, entity) => analysis.removeNotApplicableStatus(toNotApplicableStatus(entity)),
+    },
+    interchangeableControllerGroups: {
+      update: (_id, { value }) => analysis.setInterchangeableControllerGroups(value as string[][]),
+      delete: () => analysis.setInterchangeableControllerGroups([]),
+    },
+    // References are only ever removed from the active contexts, never passed on
+    activeContexts: {
+      update: (_id, { value }) =>
+        Object.keys(analysis.activeContexts)
+          .filter(controllerId => !(controllerId in (value as object)))
+          .forEach(analysis.clearActiveContext),
+      delete: () => Object.keys(analysis.activeContexts).forEach(analysis.clearActiveContext),
+    },
+    // Only ever pointed at another entity of the same collection
+    commentThreads: {
+      update: (id, { entityId }) => analysis.moveCommentThread(id, entityId as string),
+      delete: analysis.deleteCommentThread,
+    },
+    diagramLayouts: {
+      update: analysis.updateDiagramLayout,
+      delete: analysis.deleteDiagramLayout,
+    },
+    reviewStatuses: {
+      update: (id, updates) => analysis.moveReviewStatus(id, updates.id as string),
+      delete: analysis.deleteReviewStatus,
+    },
+  };
+
+  const applyPlan = (plan: DeletionPlan) => {
+    plan.updates.forEach(({ collection, entity, updates }) =>
+      operations[collection].update(entity.id, updates, entity)
+    );
+    plan.deletions.forEach(({ collection, entity }) =>
+      operations[collection].delete(entity.id, entity)
+    );
+  };
+
+  return {
+    getImpact: (collection: EntityCollection, ids: string | string[]) =>
+      resolveDeletionImpact(analysis, collection, typeof ids === 'string' ? [ids] : ids),
+    getReplacementCandidates: (impact: DeletionImpact) =>
+      getReplacementCandidates(analysis, impact),
+    // Deletes the entities with everything that requires them and unlinks the other references
+    cascadeDelete: (impact: DeletionImpact) => applyPlan(impact.cascade),
+    // Points every reference at the replacement, then deletes the entities
+    reassignAndDelete: (impact: DeletionImpact, replacementId: string) =>
+      applyPlan(planReassignment(analysis, impact, replacementId)),
+  };
+};
@@ -0,0 +1,5 @@
+// Dependencies feature barrel export
+export * from './components';
+export * from './hooks';
+export * from './services';
+export type * from './types';
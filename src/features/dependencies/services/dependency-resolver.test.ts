@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import { UCAType } from '@/types/types';
+import { DependencyData, DeletionPlan } from '../types';
+import {
+  getNotApplicableStatusId,
+  getReplacementCandidates,
+  planReassignment,
+  resolveDeletionImpact,
+} from './dependency-resolver';
+
+// A wheel brake analysis: one control loop, its UCA and what was derived from it
+const analysis = {
+  losses: [
+    { id: 'l1', code: 'L-1', title: 'Loss of life' },
+    { id: 'l2', code: 'L-2', title: 'Loss of aircraft' },
+  ],
+  hazards: [
+    { id: 'h1', code: 'H-1', title: 'Loss of braking', linkedLossIds: ['l1', 'l2'] },
+    { id: 'h2', code: 'H-1.1', title: 'Brakes not applied', parentHazardId: 'h1' },
+    { id: 'h3', code: 'H-2', title: 'Runway overrun', linkedLossIds: ['l2'] },
+  ],
+  systemConstraints: [{ id: 'sc1', code: 'SC-1', text: 'Braking must be kept', hazardId: 'h1' }],
+  controllers: [
+    { id: 'c1', name: 'Brake control unit' },
+    { id: 'c2', name: 'Backup brake control unit' },
+  ],
+  systemComponents: [{ id: 'p1', name: 'Wheel brakes' }],
+  controlPaths: [
+    { id: 'cp1', sourceControllerId: 'c1', targetId: 'p1', controlActionIds: ['ca1'] },
+  ],
+  controlActions: [
+    { id: 'ca1', controllerId: 'c1', controlPathId: 'cp1', verb: 'APPLY', object: 'BRAKES' },
+  ],
+  ucas: [
+    { id: 'u1', code: 'UCA-1', controllerId: 'c1', controlActionId: 'ca1', hazardIds: ['h1'] },
+  ],
+  scenarios: [{ id: 's1', code: 'CS-1', ucaId: 'u1', hazardIds: ['h1'] }],
+  requirements: [{ id: 'r1', text: 'Monitor brake pressure', linkedScenarioIds: ['s1'] }],
+  notApplicableStatuses: [
+    { controllerId: 'c1', controlActionId: 'ca1', ucaType: UCAType.TooEarly },
+  ],
+  interchangeableControllerGroups: [['c1', 'c2']],
+  diagramLayouts: [
+    {
+      id: 'd1',
+      name: 'Overview',
+      positions: { c1: { x: 0, y: 0 }, p1: { x: 0, y: 100 } },
+      filters: { hiddenNodeIds: ['c1'] },
+    },
+  ],
+};
+
+// Entities are checked for their references only, so carry just those and a label
+const data: DependencyData = analysis;
+
+const getDeletedIds = (plan: DeletionPlan) => plan.deletions.map(({ entity }) => entity.id);
+
+const getUpdates = (plan: DeletionPlan) =>
+  Object.fromEntries(plan.updates.map(({ entity, updates }) => [entity.id, updates]));
+
+describe('resolveDeletionImpact', () => {
+  it('unlinks the references of entities that do not require them', () => {
+    const impact = resolveDeletionImpact(data, 'losses', ['l1'])!;
+
+    expect(impact.dependents).toEqual([
+      {
+        collection: 'hazards',
+        entity: analysis.hazards[0],
+        fields: ['linkedLossIds'],
+        required: false,
+      },
+    ]);
+    expect(getDeletedIds(impact.cascade)).toEqual(['l1']);
+    expect(getUpdates(impact.cascade)).toEqual({ h1: { linkedLossIds: ['l2'] } });
+  });
+
+  it('deletes the entities that require the deleted ones, transitively', () => {
+    const impact = resolveDeletionImpact(data, 'controlActions', ['ca1'])!;
+
+    expect(getDeletedIds(impact.cascade)).toEqual([
+      'ca1',
+      'u1',
+      getNotApplicableStatusId(analysis.notApplicableStatuses[0]),
+      's1',
+    ]);
+    expect(getUpdates(impact.cascade)).toEqual({
+      cp1: { controlActionIds: [] },
+      r1: { linkedScenarioIds: [] },
+    });
+  });
+
+  it('removes a deleted controller from groups, layouts and filters', () => {
+    const impact = resolveDeletionImpact(data, 'controllers', ['c1'])!;
+
+    expect(getDeletedIds(impact.cascade)).toEqual(
+      expect.arrayContaining(['c1', 'cp1', 'ca1', 'u1', 's1'])
+    );
+    expect(getUpdates(impact.cascade)).toEqual({
+      interchangeableControllerGroups: { value: [] },
+      d1: { positions: { p1: { x: 0, y: 100 } }, filters: { hiddenNodeIds: [] } },
+      r1: { linkedScenarioIds: [] },
+    });
+  });
+
+  it('resolves the impact of several entities together', () => {
+    const impact = resolveDeletionImpact(data, 'losses', ['l1', 'l2', 'missing'])!;
+
+    expect(impact.entities.map(entity => entity.id)).toEqual(['l1', 'l2']);
+    expect(impact.dependents.map(({ entity }) => entity.id)).toEqual(['h1', 'h3']);
+    expect(getUpdates(impact.cascade)).toEqual({
+      h1: { linkedLossIds: [] },
+      h3: { linkedLossIds: [] },
+    });
+  });
+
+  it('finds nothing to delete for unknown ids', () => {
+    expect(resolveDeletionImpact(data, 'hazards', ['missing'])).toBeNull();
+  });
+});
+
+describe('planReassignment', () => {
+  it('offers the entities not deleted along with the deleted ones', () => {
+    const impact = resolveDeletionImpact(data, 'hazards', ['h1'])!;
+
+    expect(getReplacementCandidates(data, impact).map(hazard => hazard.id)).toEqual(['h3']);
+  });
+
+  it('points the references at the replacement instead of deleting dependents', () => {
+    const impact = resolveDeletionImpact(data, 'hazards', ['h1'])!;
+    const plan = planReassignment(data, impact, 'h3');
+
+    expect(getDeletedIds(plan)).toEqual(['h1']);
+    expect(getUpdates(plan)).toEqual({
+      h2: { parentHazardId: 'h3' },
+      sc1: { hazardId: 'h3' },
+      u1: { hazardIds: ['h3'] },
+      s1: { hazardIds: ['h3'] },
+    });
+  });
+
+  it('lets the replacement drop a reference to itself', () => {
+    const impact = resolveDeletionImpact(data, 'hazards', ['h1'])!;
+
+    expect(getUpdates(planReassignment(data, impact, 'h2')).h2).toEqual({
+      parentHazardId: undefined,
+    });
+  });
+
+  it('unlinks references only meaningful for the deleted entity', () => {
+    const impact = resolveDeletionImpact(data, 'controllers', ['c1'])!;
+
+    expect(getUpdates(planReassignment(data, impact, 'c2')).d1).toEqual({
+      positions: { p1: { x: 0, y: 100 } },
+      filters: { hiddenNodeIds: [] },
+    });
+  });
+});
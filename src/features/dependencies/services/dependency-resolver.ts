@@ -0,0 +1,463 @@
+import { AnalysisData, Identifiable } from '@/types/types';
+import { describeAuditEntity } from '@/utils/audit-trail';
+import {
+  DeletionImpact,
+  DeletionPlan,
+  DependencyData,
+  DependentEntity,
+  EntityCollection,
+  EntityLocation,
+  EntityReference,
+  EntityUpdate,
+  ReferencingCollection,
+} from '../types';
+
+type EntityRecord = Identifiable & Record<string, unknown>;
+
+type NotApplicableStatus = NonNullable<AnalysisData['notApplicableStatuses']>[number];
+
+export const ENTITY_COLLECTION_LABELS: Record<
+  ReferencingCollection,
+  { singular: string; plural: string }
+> = {
+  losses: { singular: 'Loss', plural: 'Losses' },
+  hazards: { singular: 'Hazard', plural: 'Hazards' },
+  systemConstraints: { singular: 'System Constraint', plural: 'System Constraints' },
+  systemComponents: { singular: 'System Component', plural: 'System Components' },
+  controllers: { singular: 'Controller', plural: 'Controllers' },
+  controlPaths: { singular: 'Control Path', plural: 'Control Paths' },
+  feedbackPaths: { singular: 'Feedback Path', plural: 'Feedback Paths' },
+  communicationPaths: { singular: 'Communication Path', plural: 'Communication Paths' },
+  failurePaths: { singular: 'Failure Path', plural: 'Failure Paths' },
+  controlActions: { singular: 'Control Action', plural: 'Control Actions' },
+  ucas: { singular: 'UCA', plural: 'UCAs' },
+  uccas: { singular: 'UCCA', plural: 'UCCAs' },
+  scenarios: { singular: 'Causal Scenario', plural: 'Causal Scenarios' },
+  requirements: { singular: 'Requirement', plural: 'Requirements' },
+  hardwareComponents: { singular: 'Hardware Component', plural: 'Hardware Components' },
+  failureModes: { singular: 'Failure Mode', plural: 'Failure Modes' },
+  unsafeInteractions: { singular: 'Unsafe Interaction', plural: 'Unsafe Interactions' },
+  notApplicableStatuses: {
+    singular: 'Not Applicable UCA Type',
+    plural: 'Not Applicable UCA Types',
+  },
+  interchangeableControllerGroups: {
+    singular: 'Interchangeable Controller Groups',
+    plural: 'Interchangeable Controller Groups',
+  },
+  activeContexts: { singular: 'Active Team Contexts', plural: 'Active Team Contexts' },
+  commentThreads: { singular: 'Comment Thread', plural: 'Comment Threads' },
+  reviewStatuses: { singular: 'Review Status', plural: 'Review Statuses' },
+  diagramLayouts: { singular: 'Diagram Layout', plural: 'Diagram Layouts' },
+};
+
+const ATTACHED_COLLECTIONS: ReferencingCollection[] = [
+  'notApplicableStatuses',
+  'interchangeableControllerGroups',
+  'activeContexts',
+  'commentThreads',
+  'reviewStatuses',
+  'diagramLayouts',
+];
+
+// Entities of any collection can be commented on and reviewed
+const ANY_ENTITY = (Object.keys(ENTITY_COLLECTION_LABELS) as ReferencingCollection[]).filter(
+  (collection): collection is EntityCollection => !ATTACHED_COLLECTIONS.includes(collection)
+);
+
+// Attached values that aren't lists; each is seen as one entity holding the value
+const VALUE_COLLECTIONS: ReferencingCollection[] = [
+  'interchangeableControllerGroups',
+  'activeContexts',
+];
+
+const NODES: EntityCollection[] = ['controllers', 'systemComponents'];
+
+/**
+ * Every id reference between analysis entities, including the legacy aliases
+ */
+export const ENTITY_REFERENCES: EntityReference[] = [
+  { collection: 'hazards', field: 'linkedLossIds', targets: ['losses'] },
+  { collection: 'hazards', field: 'lossIds', targets: ['losses'] },
+  { collection: 'hazards', field: 'linkedLosses', targets: ['losses'] },
+  { collection: 'hazards', field: 'parentHazardId', targets: ['hazards'], required: true },
+  { collection: 'systemConstraints', field: 'hazardId', targets: ['hazards'], required: true },
+  {
+    collection: 'controlPaths',
+    field: 'sourceControllerId',
+    targets: ['controllers'],
+    required: true,
+  },
+  { collection: 'controlPaths', field: 'targetId', targets: NODES, required: true },
+  { collection: 'controlPaths', field: 'controlActionIds', targets: ['controlActions'] },
+  { collection: 'feedbackPaths', field: 'sourceId', targets: NODES, required: true },
+  {
+    collection: 'feedbackPaths',
+    field: 'targetControllerId',
+    targets: ['controllers'],
+    required: true,
+  },
+  {
+    collection: 'communicationPaths',
+    field: 'sourceControllerId',
+    targets: ['controllers'],
+    required: true,
+  },
+  {
+    collection: 'communicationPaths',
+    field: 'targetControllerId',
+    targets: ['controllers'],
+    required: true,
+  },
+  { collection: 'failurePaths', field: 'sourceComponentId', targets: NODES, required: true },
+  { collection: 'failurePaths', field: 'targetComponentId', targets: NODES, required: true },
+  { collection: 'controllers', field: 'parentNode', targets: ['controllers'] },
+  { collection: 'controlActions', field: 'controllerId', targets: ['controllers'], required: true },
+  {
+    collection: 'controlActions',
+    field: 'controlPathId',
+    targets: ['controlPaths'],
+    required: true,
+  },
+  { collection: 'controlActions', field: 'feedbackIds', targets: ['feedbackPaths'] },
+  {
+    collection: 'controlActions',
+    field: 'roleId',
+    targets: ['controllers'],
+    targetItems: 'teamDetails.roles',
+    unlinkOnReassign: true,
+  },
+  { collection: 'ucas', field: 'controllerId', targets: ['controllers'], required: true },
+  { collection: 'ucas', field: 'controlActionId', targets: ['controlActions'], required: true },
+  { collection: 'ucas', field: 'hazardIds', targets: ['hazards'] },
+  { collection: 'ucas', field: 'linkedHazards', targets: ['hazards'] },
+  { collection: 'uccas', field: 'teamControllerIds', targets: ['controllers'] },
+  { collection: 'uccas', field: 'controllerId', targets: ['controllers'] },
+  { collection: 'uccas', field: 'otherControllerIds', targets: ['controllers'] },
+  { collection: 'uccas', field: 'controlActionIds', targets: ['controlActions'] },
+  { collection: 'uccas', field: 'otherControlActionIds', targets: ['controlActions'] },
+  { collection: 'uccas', field: 'hazardIds', targets: ['hazards'] },
+  { collection: 'scenarios', field: 'ucaId', targets: ['ucas'], required: true },
+  { collection: 'scenarios', field: 'hazardIds', targets: ['hazards'] },
+  { collection: 'requirements', field: 'linkedScenarioIds', targets: ['scenarios'] },
+  { collection: 'requirements', field: 'scenarioIds', targets: ['scenarios'] },
+  { collection: 'requirements', field: 'linkedScenarios', targets: ['scenarios'] },
+  { collection: 'requirements', field: 'ucaIds', targets: ['ucas'] },
+  { collection: 'hardwareComponents', field: 'systemComponentId', targets: ['systemComponents'] },
+  {
+    collection: 'failureModes',
+    field: 'hardwareComponentId',
+    targets: ['hardwareComponents'],
+    required: true,
+  },
+  {
+    collection: 'unsafeInteractions',
+    field: 'sourceComponentId',
+    targets: ['hardwareComponents'],
+    required: true,
+  },
+  {
+    collection: 'unsafeInteractions',
+    field: 'affectedComponentIds',
+    targets: ['hardwareComponents'],
+  },
+  { collection: 'unsafeInteractions', field: 'hazardIds', targets: ['hazards'] },
+  {
+    collection: 'notApplicableStatuses',
+    field: 'controllerId',
+    targets: ['controllers'],
+    required: true,
+  },
+  {
+    collection: 'notApplicableStatuses',
+    field: 'controlActionId',
+    targets: ['controlActions'],
+    required: true,
+  },
+  { collection: 'interchangeableControllerGroups', field: 'value', targets: ['controllers'] },
+  { collection: 'activeContexts', field: 'value', targets: ['controllers'] },
+  {
+    collection: 'commentThreads',
+    field: 'entityId',
+    targets: ANY_ENTITY,
+    targetCollectionField: 'collection',
+    required: true,
+  },
+  // A review status has the id of its entity
+  {
+    collection: 'reviewStatuses',
+    field: 'id',
+    targets: ANY_ENTITY,
+    targetCollectionField: 'collection',
+    required: true,
+  },
+  { collection: 'diagramLayouts', field: 'positions', targets: NODES },
+  {
+    collection: 'diagramLayouts',
+    field: 'filters.hiddenNodeIds',
+    targets: NODES,
+    unlinkOnReassign: true,
+  },
+];
+
+/**
+ * Id of a not-applicable status, which has none of its own
+ */
+export const getNotApplicableStatusId = (status: NotApplicableStatus) =>
+  `${status.controllerId}:${status.controlActionId}:${status.ucaType}`;
+
+const getEntities = (data: DependencyData, collection: ReferencingCollection): EntityRecord[] => {
+  if (collection === 'notApplicableStatuses') {
+    return (data.notApplicableStatuses ?? []).map(status => ({
+      ...status,
+      id: getNotApplicableStatusId(status),
+    }));
+  }
+  if (VALUE_COLLECTIONS.includes(collection)) {
+    const value = data[collection as keyof DependencyData];
+    return value ? [{ id: collection, value }] : [];
+  }
+  return (data[collection as EntityCollection] ?? []) as unknown as EntityRecord[];
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const getPath = (value: unknown, path: string) =>
+  path.split('.').reduce((v, key) => (isRecord(v) ? v[key] : undefined), value);
+
+// A copy of the value with the field at the path set
+const setPath = (value: unknown, path: string[], fieldValue: unknown): unknown => {
+  if (path.length === 0) return fieldValue;
+  const [key, ...rest] = path;
+  const record = isRecord(value) ? value : {};
+  return { ...record, [key]: setPath(record[key], rest, fieldValue) };
+};
+
+const refersTo = (value: unknown, ids: Set<string>): boolean =>
+  Array.isArray(value)
+    ? value.some(v => refersTo(v, ids))
+    : typeof value === 'string'
+      ? ids.has(value)
+      : isRecord(value) && Object.keys(value).some(key => ids.has(key));
+
+/**
+ * Points the references to the given ids at a replacement, or removes them without
+ * one. A record describes the entities it is keyed by, so their entries are removed
+ * rather than passed on; groups left with a single id relate nothing and are dropped.
+ */
+const replaceIds = (value: unknown, ids: Set<string>, replacementId: string | null): unknown => {
+  if (typeof value === 'string') return ids.has(value) ? (replacementId ?? undefined) : value;
+  if (isRecord(value)) {
+    return Object.fromEntries(Object.entries(value).filter(([key]) => !ids.has(key)));
+  }
+  if (!Array.isArray(value)) return value;
+  const items = value.flatMap(item => {
+    if (typeof item === 'string')
+      return !ids.has(item) ? [item] : replacementId ? [replacementId] : [];
+    if (!Array.isArray(item) || !refersTo(item, ids)) return [item];
+    const group = replaceIds(item, ids, replacementId) as string[];
+    return group.length > 1 ? [group] : [];
+  });
+  return [...new Set(items)];
+};
+
+/**
+ * Ids a reference holds when it refers to the given entities of a collection
+ */
+const getReferencedIds = (
+  data: DependencyData,
+  reference: EntityReference,
+  collection: ReferencingCollection,
+  ids: Set<string>
+): Set<string> => {
+  if (!(reference.targets as ReferencingCollection[]).includes(collection)) return new Set();
+  if (!reference.targetItems) return ids;
+  const itemsPath = reference.targetItems;
+  return new Set(
+    getEntities(data, collection)
+      .filter(entity => ids.has(entity.id))
+      .flatMap(entity => (getPath(entity, itemsPath) ?? []) as Identifiable[])
+      .map(item => item.id)
+  );
+};
+
+const getLocationKey = ({ collection, entity }: EntityLocation) => `${collection}:${entity.id}`;
+
+// References into any collection only refer to entities of the collection they name
+const refersToCollection = (
+  reference: EntityReference,
+  entity: EntityRecord,
+  collection: ReferencingCollection
+) => !reference.targetCollectionField || entity[reference.targetCollectionField] === collection;
+
+/**
+ * Label of an entity in the lists of affected entities
+ */
+export const describeEntity = ({ collection, entity }: EntityLocation): string => {
+  const record = entity as EntityRecord;
+  if (collection === 'notApplicableStatuses') return record.ucaType as string;
+  if (collection === 'commentThreads') return `Started by ${record.createdBy}`;
+  if (collection === 'reviewStatuses') return (record.status as string).replace('-', ' ');
+  if (VALUE_COLLECTIONS.includes(collection)) return ENTITY_COLLECTION_LABELS[collection].singular;
+  return describeAuditEntity(entity) || entity.id;
+};
+
+/**
+ * Entities referencing any of the given entities of a collection, with the
+ * fields holding the references
+ */
+const findDependents = (
+  data: DependencyData,
+  collection: ReferencingCollection,
+  ids: Set<string>
+): DependentEntity[] => {
+  const dependents = new Map<string, DependentEntity>();
+  ENTITY_REFERENCES.forEach(reference => {
+    const referencedIds = getReferencedIds(data, reference, collection, ids);
+    if (referencedIds.size === 0) return;
+    getEntities(data, reference.collection)
+      .filter(entity => reference.collection !== collection || !ids.has(entity.id))
+      .filter(entity => refersToCollection(reference, entity, collection))
+      .filter(entity => refersTo(getPath(entity, reference.field), referencedIds))
+      .forEach(entity => {
+        const key = getLocationKey({ collection: reference.collection, entity });
+        const dependent = dependents.get(key) ?? {
+          collection: reference.collection,
+          entity,
+          fields: [],
+          required: false,
+        };
+        dependent.fields.push(reference.field);
+        dependent.required ||= !!reference.required;
+        dependents.set(key, dependent);
+      });
+  });
+  return [...dependents.values()];
+};
+
+/**
+ * Rewrites the references to the given entities in each entity; unchanged entities
+ * are skipped
+ */
+const planUpdates = (
+  data: DependencyData,
+  targets: EntityLocation[],
+  excluded: Set<string>,
+  replace: (
+    value: unknown,
+    ids: Set<string>,
+    reference: EntityReference,
+    entity: EntityRecord
+  ) => unknown
+): EntityUpdate[] => {
+  const targetIds = new Map<ReferencingCollection, Set<string>>();
+  targets.forEach(({ collection, entity }) => {
+    targetIds.set(collection, (targetIds.get(collection) ?? new Set()).add(entity.id));
+  });
+
+  const updates = new Map<string, EntityUpdate>();
+  ENTITY_REFERENCES.forEach(reference => {
+    const referencedIds = [...targetIds].map(
+      ([collection, collectionIds]) =>
+        [collection, getReferencedIds(data, reference, collection, collectionIds)] as const
+    );
+    getEntities(data, reference.collection).forEach(entity => {
+      const ids = new Set(
+        referencedIds
+          .filter(([collection]) => refersToCollection(reference, entity, collection))
+          .flatMap(([, collectionIds]) => [...collectionIds])
+      );
+      const value = getPath(entity, reference.field);
+      if (!refersTo(value, ids)) return;
+      const key = getLocationKey({ collection: reference.collection, entity });
+      if (excluded.has(key)) return;
+      const update = updates.get(key) ?? {
+        collection: reference.collection,
+        entity,
+        updates: {},
+      };
+      // Nested fields are set in the entity's value, or the one other references updated
+      const [field, ...path] = reference.field.split('.');
+      update.updates[field] = setPath(
+        update.updates[field] ?? entity[field],
+        path,
+        replace(value, ids, reference, entity)
+      );
+      updates.set(key, update);
+    });
+  });
+  return [...updates.values()];
+};
+
+/**
+ * Everything that references the entities, and the cascade that deletes them without
+ * leaving dangling references: dependents that require one are deleted (along with
+ * their own dependents) and every other reference is removed.
+ */
+export const resolveDeletionImpact = (
+  data: DependencyData,
+  collection: EntityCollection,
+  ids: string[]
+): DeletionImpact | null => {
+  const entities = getEntities(data, collection).filter(entity => ids.includes(entity.id));
+  if (entities.length === 0) return null;
+
+  const deletions: EntityLocation[] = entities.map(entity => ({ collection, entity }));
+  const deletedKeys = new Set(deletions.map(getLocationKey));
+  for (let i = 0; i < deletions.length; i++) {
+    const { collection: deletedCollection, entity: deleted } = deletions[i];
+    findDependents(data, deletedCollection, new Set([deleted.id]))
+      .filter(dependent => dependent.required && !deletedKeys.has(getLocationKey(dependent)))
+      .forEach(({ collection: dependentCollection, entity: dependentEntity }) => {
+        deletions.push({ collection: dependentCollection, entity: dependentEntity });
+        deletedKeys.add(
+          getLocationKey({ collection: dependentCollection, entity: dependentEntity })
+        );
+      });
+  }
+
+  const updates = planUpdates(data, deletions, deletedKeys, (value, referencedIds) =>
+    replaceIds(value, referencedIds, null)
+  );
+
+  return {
+    collection,
+    entities,
+    dependents: findDependents(data, collection, new Set(entities.map(entity => entity.id))),
+    cascade: { deletions, updates },
+  };
+};
+
+/**
+ * Entities that can take over the references to deleted ones: the rest of their
+ * collection, except those that would be deleted with them
+ */
+export const getReplacementCandidates = (
+  data: DependencyData,
+  impact: DeletionImpact
+): Identifiable[] => {
+  const deletedIds = new Set(impact.cascade.deletions.map(deletion => deletion.entity.id));
+  return getEntities(data, impact.collection).filter(entity => !deletedIds.has(entity.id));
+};
+
+/**
+ * Deletes entities after pointing every reference to them at a replacement
+ */
+export const planReassignment = (
+  data: DependencyData,
+  impact: DeletionImpact,
+  replacementId: string
+): DeletionPlan => {
+  const deletions = impact.entities.map(entity => ({ collection: impact.collection, entity }));
+  const excluded = new Set(deletions.map(getLocationKey));
+  // The replacement itself drops the reference instead of pointing at itself
+  const updates = planUpdates(data, deletions, excluded, (value, ids, reference, entity) =>
+    replaceIds(
+      value,
+      ids,
+      entity.id === replacementId || reference.unlinkOnReassign ? null : replacementId
+    )
+  );
+  return { deletions, updates };
+};
@@ -0,0 +1,2 @@
+// Export services for dependencies
+export * from './dependency-resolver';
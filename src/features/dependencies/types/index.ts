@@ -0,0 +1,93 @@
+// Export types for dependencies
+import { AnalysisData, Identifiable } from '@/types/types';
+
+/**
+ * Analysis collections whose entities can reference each other
+ */
+export type EntityCollection =
+  | 'losses'
+  | 'hazards'
+  | 'systemConstraints'
+  | 'systemComponents'
+  | 'controllers'
+  | 'controlPaths'
+  | 'feedbackPaths'
+  | 'communicationPaths'
+  | 'failurePaths'
+  | 'controlActions'
+  | 'ucas'
+  | 'uccas'
+  | 'scenarios'
+  | 'requirements'
+  | 'hardwareComponents'
+  | 'failureModes'
+  | 'unsafeInteractions';
+
+/**
+ * Analysis data that references entities without being referenced itself.
+ * Not-applicable statuses have no id of their own, and the other values are no
+ * lists at all: each is seen as a single entity holding the value.
+ */
+export type AttachedCollection =
+  | 'notApplicableStatuses'
+  | 'interchangeableControllerGroups'
+  | 'activeContexts'
+  | 'commentThreads'
+  | 'reviewStatuses'
+  | 'diagramLayouts';
+
+export type ReferencingCollection = EntityCollection | AttachedCollection;
+
+/**
+ * The collections of an analysis, e.g. the AnalysisContext value
+ */
+export type DependencyData = Partial<Record<EntityCollection, Identifiable[]>> &
+  Partial<Pick<AnalysisData, AttachedCollection>>;
+
+/**
+ * A field of one collection holding the ids of entities in another: an id, a
+ * list of ids, lists of ids or a record keyed by ids. A required reference
+ * cannot be removed, so its entity is deleted along with the one it references;
+ * any other reference is unlinked.
+ */
+export interface EntityReference {
+  collection: ReferencingCollection;
+  field: string; // A path for nested fields, e.g. filters.hiddenNodeIds
+  targets: EntityCollection[];
+  targetItems?: string; // The field holds ids of these items of the targets, e.g. teamDetails.roles
+  targetCollectionField?: string; // Field naming the target's collection, for references into any
+  required?: boolean;
+  unlinkOnReassign?: boolean; // Only meaningful for the referenced entity, so not passed on to a replacement
+}
+
+export interface EntityLocation {
+  collection: ReferencingCollection;
+  entity: Identifiable;
+}
+
+/**
+ * An entity referencing the one being deleted, through one or more fields
+ */
+export interface DependentEntity extends EntityLocation {
+  fields: string[];
+  required: boolean;
+}
+
+export interface EntityUpdate extends EntityLocation {
+  updates: Record<string, unknown>;
+}
+
+/**
+ * Changes applied together when entities are deleted
+ */
+export interface DeletionPlan {
+  deletions: EntityLocation[]; // The deleted entities first
+  updates: EntityUpdate[];
+}
+
+export interface DeletionImpact {
+  collection: EntityCollection;
+  entities: Identifiable[]; // Deleted together, e.g. the rows selected in a table
+  dependents: DependentEntity[]; // Entities referencing the deleted ones directly
+  cascade: DeletionPlan; // Deletes the dependents that need it, transitively, and unlinks the rest
+}
@@ -0,0 +1,75 @@
+import React from 'react';
+import { AnalysisData } from '@/types/types';
+import { DIFF_COLLECTIONS, DIFF_STATUS_LABELS } from '../services';
+import { AnalysisDiff, DiffStatus } from '../types';
+import { EntityDiffRow } from './partials';
+
+interface AnalysisDiffViewProps {
+  diff: AnalysisDiff;
+  beforeData: Partial<AnalysisData>;
+  afterData: Partial<AnalysisData>;
+  beforeLabel: string;
+  afterLabel: string;
+  statuses?: DiffStatus[]; // Statuses to show; unchanged entities are hidden by default
+}
+
+/**
+ * Side-by-side view of a diff, grouped by collection
+ */
+const AnalysisDiffView: React.FC<AnalysisDiffViewProps> = ({
+  diff,
+  beforeData,
+  afterData,
+  beforeLabel,
+  afterLabel,
+  statuses = ['added', 'removed', 'modified'],
+}) => {
+  const groups = DIFF_COLLECTIONS.map(collection => ({
+    collection,
+    entities: diff.entities.filter(
+      entity => entity.collection === collection.key && statuses.includes(entity.status)
+    ),
+  })).filter(group => group.entities.length > 0);
+
+  if (groups.length === 0) {
+    return <div className="py-12 text-center text-sm text-gray-500">No differences found.</div>;
+  }
+
+  return (
+    <div className="space-y-5">
+      <div className="grid grid-cols-[9rem_1fr_1fr] gap-2 px-3 text-xs font-semibold text-gray-500 uppercase">
+        <span />
+        <span className="truncate">{beforeLabel}</span>
+        <span className="truncate">{afterLabel}</span>
+      </div>
+      {groups.map(({ collection, entities }) => {
+        const counts = statuses
+          .map(status => ({
+            status,
+            count: entities.filter(entity => entity.status === status).length,
+          }))
+          .filter(({ count }) => count > 0)
+          .map(({ status, count }) => `${count} ${DIFF_STATUS_LABELS[status].toLowerCase()}`);
+
+        return (
+          <section key={collection.key} className="space-y-2">
+            <h4 className="text-sm font-semibold">
+              {collection.label}{' '}
+              <span className="font-normal text-gray-500">({counts.join(', ')})</span>
+            </h4>
+            {entities.map(entity => (
+              <EntityDiffRow
+                key={`${entity.status}:${entity.id}`}
+                entity={entity}
+                beforeData={beforeData}
+                afterData={afterData}
+              />
+            ))}
+          </section>
+        );
+      })}
+    </div>
+  );
+};
+
+export default AnalysisDiffView;
@@ -0,0 +1,191 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { AnalysisData } from '@/types/types';
+import { useDiffSources } from '../hooks';
+import { diffAnalyses, DIFF_STATUS_LABELS, REVIEW_DIFF_COLLECTIONS } from '../services';
+import { DiffSource } from '../types';
+import AnalysisDiffView from './analysis-diff-view';
+
+interface CompareAnalysesDialogProps {
+  analysisId: string | null; // The dialog is open while an analysis is set; it is compared first
+  onClose: () => void;
+}
+
+interface Comparison {
+  before: Partial<AnalysisData>;
+  after: Partial<AnalysisData>;
+}
+
+/**
+ * Compares two analyses or snapshots of the current project side by side
+ */
+const CompareAnalysesDialog: React.FC<CompareAnalysesDialogProps> = ({ analysisId, onClose }) => {
+  const isOpen = analysisId !== null;
+  const sources = useDiffSources(isOpen);
+  const [beforeId, setBeforeId] = useState('');
+  const [afterId, setAfterId] = useState('');
+  const [includeAll, setIncludeAll] = useState(false);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+
+  // By default the analysis is compared against its newest snapshot
+  useEffect(() => {
+    if (!analysisId || sources.length === 0) return;
+    const analysisSourceId = `analysis:${analysisId}`;
+    const analysisSource = sources.find(source => source.id === analysisSourceId);
+    const newestSnapshot = sources.find(
+      source => source.group === analysisSource?.group && source.id.startsWith('snapshot:')
+    );
+    setAfterId(previous => previous || analysisSourceId);
+    setBeforeId(previous => previous || newestSnapshot?.id || '');
+  }, [analysisId, sources]);
+
+  useEffect(() => {
+    const before = sources.find(source => source.id === beforeId);
+    const after = sources.find(source => source.id === afterId);
+    if (!before || !after) {
+      setComparison(null);
+      return;
+    }
+
+    let cancelled = false;
+    Promise.all([before.load(), after.load()])
+      .then(([beforeData, afterData]) => {
+        if (!cancelled) setComparison({ before: beforeData, after: afterData });
+      })
+      .catch(error => console.error('Failed to load analyses to compare:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [sources, beforeId, afterId]);
+
+  const diff = useMemo(
+    () =>
+      comparison
+        ? diffAnalyses(
+            comparison.before,
+            comparison.after,
+            includeAll ? undefined : REVIEW_DIFF_COLLECTIONS
+          )
+        : null,
+    [comparison, includeAll]
+  );
+
+  const groups = useMemo(
+    () =>
+      sources.reduce<Record<string, DiffSource[]>>((result, source) => {
+        (result[source.group] ||= []).push(source);
+        return result;
+      }, {}),
+    [sources]
+  );
+
+  const getSourceLabel = (id: string) => sources.find(source => source.id === id)?.label || '';
+
+  const handleClose = () => {
+    setBeforeId('');
+    setAfterId('');
+    setIncludeAll(false);
+    setComparison(null);
+    onClose();
+  };
+
+  const renderSourceSelect = (id: string, value: string, onChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id}>
+        <SelectValue placeholder="Select an analysis or snapshot" />
+      </SelectTrigger>
+      <SelectContent>
+        {Object.entries(groups).map(([group, groupSources]) => (
+          <SelectGroup key={group}>
+            <SelectLabel>{group}</SelectLabel>
+            {groupSources.map(source => (
+              <SelectItem key={source.id} value={source.id}>
+                {source.label}
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && handleClose()}>
+      <DialogContent className="sm:max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Compare Analyses</DialogTitle>
+          <DialogDescription>
+            What was added, removed or modified between two analyses or snapshots. Entities are
+            matched by id, then by code or title.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="compare-before">Before</Label>
+              {renderSourceSelect('compare-before', beforeId, setBeforeId)}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="compare-after">After</Label>
+              {renderSourceSelect('compare-after', afterId, setAfterId)}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-500">
+              {diff &&
+                (['added', 'removed', 'modified'] as const)
+                  .map(
+                    status => `${diff.counts[status]} ${DIFF_STATUS_LABELS[status].toLowerCase()}`
+                  )
+                  .join(' · ')}
+            </p>
+            <div className="flex items-center gap-2">
+              <Switch id="compare-all" checked={includeAll} onCheckedChange={setIncludeAll} />
+              <Label htmlFor="compare-all" className="text-sm">
+                All collections
+              </Label>
+            </div>
+          </div>
+
+          <ScrollArea className="h-[28rem] rounded-md border p-3">
+            {diff && comparison ? (
+              <AnalysisDiffView
+                diff={diff}
+                beforeData={comparison.before}
+                afterData={comparison.after}
+                beforeLabel={getSourceLabel(beforeId)}
+                afterLabel={getSourceLabel(afterId)}
+              />
+            ) : (
+              <div className="py-12 text-center text-sm text-gray-500">
+                Select two versions to compare.
+              </div>
+            )}
+          </ScrollArea>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CompareAnalysesDialog;
@@ -0,0 +1,4 @@
+// Diff components barrel export
+
+export { default as AnalysisDiffView } from './analysis-diff-view';
+export { default as CompareAnalysesDialog } from './compare-analyses-dialog';
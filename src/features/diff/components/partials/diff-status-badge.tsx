@@ -0,0 +1,18 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { DIFF_STATUS_LABELS } from '../../services';
+import { DiffStatus } from '../../types';
+
+const STATUS_CLASSES: Record<DiffStatus, string> = {
+  added: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400',
+  removed: 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400',
+  modified: 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400',
+  unchanged: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-400',
+};
+
+const DiffStatusBadge: React.FC<{ status: DiffStatus }> = ({ status }) => (
+  <Badge className={cn('text-xs', STATUS_CLASSES[status])}>{DIFF_STATUS_LABELS[status]}</Badge>
+);
+
+export default DiffStatusBadge;
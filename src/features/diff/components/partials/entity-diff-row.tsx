@@ -0,0 +1,66 @@
+import React from 'react';
+import { AnalysisData } from '@/types/types';
+import { formatDiffValue, formatFieldName } from '../../services';
+import { EntityDiff } from '../../types';
+import DiffStatusBadge from './diff-status-badge';
+
+interface EntityDiffRowProps {
+  entity: EntityDiff;
+  beforeData: Partial<AnalysisData>;
+  afterData: Partial<AnalysisData>;
+}
+
+const EMPTY_SIDE = <span className="text-xs text-gray-400 italic">Not present</span>;
+
+/**
+ * One entity side by side: its changed fields, or the version that exists
+ */
+const EntityDiffRow: React.FC<EntityDiffRowProps> = ({ entity, beforeData, afterData }) => {
+  const { collection } = entity;
+
+  return (
+    <div className="rounded-md border">
+      <div className="flex items-center gap-2 border-b bg-gray-50 px-3 py-2 dark:bg-gray-900">
+        <DiffStatusBadge status={entity.status} />
+        <span className="line-clamp-1 flex-1 text-sm font-medium">{entity.label}</span>
+        {entity.matchedBy && entity.matchedBy !== 'id' && (
+          <span className="text-xs text-gray-500">Matched by {entity.matchedBy}</span>
+        )}
+      </div>
+
+      {entity.status === 'modified' ? (
+        <div className="divide-y text-sm">
+          {entity.changes.map(change => (
+            <div key={change.field} className="grid grid-cols-[9rem_1fr_1fr] gap-2 px-3 py-1.5">
+              <span className="text-xs text-gray-500">{formatFieldName(change.field)}</span>
+              <span className="rounded bg-red-50 px-1 break-words text-red-900 dark:bg-red-950/30 dark:text-red-300">
+                {formatDiffValue(change.before, {
+                  collection,
+                  field: change.field,
+                  data: beforeData,
+                })}
+              </span>
+              <span className="rounded bg-green-50 px-1 break-words text-green-900 dark:bg-green-950/30 dark:text-green-300">
+                {formatDiffValue(change.after, {
+                  collection,
+                  field: change.field,
+                  data: afterData,
+                })}
+              </span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        entity.status !== 'unchanged' && (
+          <div className="grid grid-cols-[9rem_1fr_1fr] gap-2 px-3 py-1.5 text-sm">
+            <span />
+            <span>{entity.status === 'removed' ? entity.label : EMPTY_SIDE}</span>
+            <span>{entity.status === 'added' ? entity.label : EMPTY_SIDE}</span>
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+export default EntityDiffRow;
@@ -0,0 +1,3 @@
+// Barrel export for diff partials
+export { default as DiffStatusBadge } from './diff-status-badge';
+export { default as EntityDiffRow } from './entity-diff-row';
@@ -0,0 +1,2 @@
+// Export hooks for diff
+export * from './useDiffSources';
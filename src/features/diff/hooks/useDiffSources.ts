@@ -0,0 +1,53 @@
+import { useEffect, useState } from 'react';
+import { useProjects } from '@/context/ProjectsContext';
+import { AnalysisData } from '@/types/types';
+import { analysisStorage, withDocumentDefaults } from '@/utils/analysis-storage';
+import { DiffSource } from '../types';
+
+/**
+ * The analyses of the current project and their snapshots, as they are stored
+ */
+export const useDiffSources = (isEnabled: boolean) => {
+  const { currentProject } = useProjects();
+  const [sources, setSources] = useState<DiffSource[]>([]);
+
+  useEffect(() => {
+    if (!isEnabled || !currentProject) {
+      setSources([]);
+      return;
+    }
+
+    let cancelled = false;
+    Promise.all(
+      currentProject.analyses.map(async (analysis): Promise<DiffSource[]> => {
+        const snapshots = await analysisStorage.loadSnapshots(analysis.id);
+        return [
+          {
+            id: `analysis:${analysis.id}`,
+            label: `${analysis.title} (current)`,
+            group: analysis.title,
+            load: async () => {
+              const document = await analysisStorage.loadAnalysis(analysis.id);
+              return withDocumentDefaults(document?.data ?? {}) as Partial<AnalysisData>;
+            },
+          },
+          ...snapshots.map(snapshot => ({
+            id: `snapshot:${snapshot.id}`,
+            label: `${snapshot.name} (${new Date(snapshot.createdAt).toLocaleDateString()})`,
+            group: analysis.title,
+            load: async () => snapshot.data as Partial<AnalysisData>,
+          })),
+        ];
+      })
+    )
+      .then(groups => {
+        if (!cancelled) setSources(groups.flat());
+      })
+      .catch(error => console.error('Failed to load comparison sources:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [isEnabled, currentProject]);
+
+  return sources;
+};
@@ -0,0 +1,283 @@
+import { ENTITY_REFERENCES } from '@/features/dependencies';
+import { AnalysisData, Identifiable } from '@/types/types';
+import {
+  AnalysisDiff,
+  DiffCollection,
+  DiffCollectionKey,
+  DiffMatch,
+  DiffStatus,
+  EntityDiff,
+  FieldChange,
+} from '../types';
+
+type DiffItem = Identifiable & { code?: string } & Record<string, unknown>;
+
+export const DIFF_COLLECTIONS: DiffCollection[] = [
+  { key: 'losses', label: 'Losses', labelFields: ['code', 'title'], titleFields: ['title'] },
+  { key: 'hazards', label: 'Hazards', labelFields: ['code', 'title'], titleFields: ['title'] },
+  {
+    key: 'systemConstraints',
+    label: 'System Constraints',
+    labelFields: ['code', 'text'],
+    titleFields: ['text'],
+  },
+  {
+    key: 'sequenceOfEvents',
+    label: 'Events',
+    labelFields: ['order', 'description'],
+    titleFields: ['description'],
+  },
+  { key: 'systemComponents', label: 'Components', labelFields: ['name'], titleFields: ['name'] },
+  { key: 'controllers', label: 'Controllers', labelFields: ['name'], titleFields: ['name'] },
+  {
+    key: 'controlPaths',
+    label: 'Control Paths',
+    labelFields: ['controls'],
+    titleFields: ['controls'],
+  },
+  {
+    key: 'feedbackPaths',
+    label: 'Feedback Paths',
+    labelFields: ['feedback'],
+    titleFields: ['feedback'],
+  },
+  {
+    key: 'communicationPaths',
+    label: 'Communication Paths',
+    labelFields: ['description'],
+    titleFields: ['description'],
+  },
+  {
+    key: 'controlActions',
+    label: 'Control Actions',
+    labelFields: ['verb', 'object'],
+    titleFields: ['verb', 'object'],
+  },
+  { key: 'ucas', label: 'UCAs', labelFields: ['code', 'description'], titleFields: [] },
+  { key: 'uccas', label: 'UCCAs', labelFields: ['code', 'description'], titleFields: [] },
+  {
+    key: 'scenarios',
+    label: 'Causal Scenarios',
+    labelFields: ['code', 'title'],
+    titleFields: ['title'],
+  },
+  { key: 'requirements', label: 'Requirements', labelFields: ['code', 'text'], titleFields: [] },
+  {
+    key: 'hardwareComponents',
+    label: 'Hardware Components',
+    labelFields: ['name'],
+    titleFields: ['name'],
+  },
+  {
+    key: 'failureModes',
+    label: 'Failure Modes',
+    labelFields: ['failureType', 'description'],
+    titleFields: [],
+  },
+  {
+    key: 'unsafeInteractions',
+    label: 'Unsafe Interactions',
+    labelFields: ['description'],
+    titleFields: [],
+  },
+];
+
+/**
+ * The collections a review usually cares about
+ */
+export const REVIEW_DIFF_COLLECTIONS: DiffCollectionKey[] = [
+  'losses',
+  'hazards',
+  'controllers',
+  'controlActions',
+  'ucas',
+  'scenarios',
+  'requirements',
+];
+
+export const DIFF_STATUS_LABELS: Record<DiffStatus, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  modified: 'Modified',
+  unchanged: 'Unchanged',
+};
+
+const getCollection = (key: DiffCollectionKey) =>
+  DIFF_COLLECTIONS.find(collection => collection.key === key)!;
+
+const getItems = (data: Partial<AnalysisData>, key: DiffCollectionKey) =>
+  (data[key] || []) as unknown as DiffItem[];
+
+export const getEntityLabel = (entity: Identifiable, key: DiffCollectionKey) => {
+  const item = entity as DiffItem;
+  return (
+    getCollection(key)
+      .labelFields.map(field => item[field])
+      .filter(value => value !== undefined && value !== '')
+      .join(' ') || item.id
+  );
+};
+
+const normalize = (value: unknown) =>
+  typeof value === 'string' || typeof value === 'number' ? String(value).trim().toLowerCase() : '';
+
+const getTitle = (item: DiffItem, titleFields: string[]) =>
+  titleFields
+    .map(field => normalize(item[field]))
+    .filter(Boolean)
+    .join(' ');
+
+// Empty values are left out of the comparison, so clearing a field that was never set is no change
+const isBlank = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  value === '' ||
+  (Array.isArray(value) && value.length === 0);
+
+// JSON with sorted object keys, so the key order of nested objects is not a change
+const stableStringify = (value: unknown) =>
+  JSON.stringify(value, (_key, nested) =>
+    nested && typeof nested === 'object' && !Array.isArray(nested)
+      ? Object.fromEntries(
+          Object.keys(nested)
+            .sort()
+            .map(key => [key, nested[key]])
+        )
+      : nested
+  );
+
+const isSameValue = (before: unknown, after: unknown) =>
+  (isBlank(before) && isBlank(after)) || stableStringify(before) === stableStringify(after);
+
+/**
+ * Fields whose values differ between two versions of an entity; the id is not compared
+ */
+export const diffFields = (before: Identifiable, after: Identifiable): FieldChange[] => {
+  const previous = before as DiffItem;
+  const current = after as DiffItem;
+  const fields = [...new Set([...Object.keys(previous), ...Object.keys(current)])];
+  return fields
+    .filter(field => field !== 'id' && !isSameValue(previous[field], current[field]))
+    .map(field => ({ field, before: previous[field], after: current[field] }));
+};
+
+/**
+ * Pairs the entities of one collection: by id first, then by code and by title
+ * among those still unpaired
+ */
+const pairEntities = (before: DiffItem[], after: DiffItem[], titleFields: string[]) => {
+  const pairs = new Map<DiffItem, { match: DiffItem; matchedBy: DiffMatch }>();
+  const unpaired = new Set(before);
+
+  const pairBy = (matchedBy: DiffMatch, getKey: (item: DiffItem) => string | undefined) => {
+    const candidates = new Map<string, DiffItem>();
+    unpaired.forEach(item => {
+      const key = getKey(item);
+      if (key && !candidates.has(key)) candidates.set(key, item);
+    });
+    after
+      .filter(item => !pairs.has(item))
+      .forEach(item => {
+        const key = getKey(item);
+        const match = key ? candidates.get(key) : undefined;
+        if (!match || !unpaired.has(match)) return;
+        pairs.set(item, { match, matchedBy });
+        unpaired.delete(match);
+      });
+  };
+
+  pairBy('id', item => item.id);
+  pairBy('code', item => normalize(item.code) || undefined);
+  if (titleFields.length > 0) pairBy('title', item => getTitle(item, titleFields) || undefined);
+
+  return { pairs, removed: before.filter(item => unpaired.has(item)) };
+};
+
+/**
+ * Semantic diff of two versions of an analysis: every entity is reported as added,
+ * removed, modified (with its changed fields) or unchanged
+ */
+export const diffAnalyses = (
+  before: Partial<AnalysisData>,
+  after: Partial<AnalysisData>,
+  collections: DiffCollectionKey[] = DIFF_COLLECTIONS.map(collection => collection.key)
+): AnalysisDiff => {
+  const entities: EntityDiff[] = collections.flatMap(key => {
+    const { titleFields } = getCollection(key);
+    const afterItems = getItems(after, key);
+    const { pairs, removed } = pairEntities(getItems(before, key), afterItems, titleFields);
+
+    const current = afterItems.map((item): EntityDiff => {
+      const pair = pairs.get(item);
+      const changes = pair ? diffFields(pair.match, item) : [];
+      return {
+        collection: key,
+        id: item.id,
+        label: getEntityLabel(item, key),
+        status: !pair ? 'added' : changes.length > 0 ? 'modified' : 'unchanged',
+        matchedBy: pair?.matchedBy,
+        before: pair?.match,
+        after: item,
+        changes,
+      };
+    });
+    const deleted = removed.map(
+      (item): EntityDiff => ({
+        collection: key,
+        id: item.id,
+        label: getEntityLabel(item, key),
+        status: 'removed',
+        before: item,
+        changes: [],
+      })
+    );
+    return [...current, ...deleted];
+  });
+
+  const counts: Record<DiffStatus, number> = { added: 0, removed: 0, modified: 0, unchanged: 0 };
+  entities.forEach(entity => counts[entity.status]++);
+
+  return { entities, counts };
+};
+
+/**
+ * Readable field name, e.g. linkedLossIds -> Linked loss ids
+ */
+export const formatFieldName = (field: string) => {
+  const words = field.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/**
+ * Display value of a field. Ids referencing other entities are shown as their
+ * codes or labels in the given version of the analysis.
+ */
+export const formatDiffValue = (
+  value: unknown,
+  context?: { collection: DiffCollectionKey; field: string; data: Partial<AnalysisData> }
+): string => {
+  if (isBlank(value)) return '—';
+
+  const targets = context
+    ? ENTITY_REFERENCES.find(
+        reference =>
+          reference.collection === context.collection && reference.field === context.field
+      )?.targets
+    : undefined;
+  const resolve = (id: string) => {
+    for (const target of targets ?? []) {
+      if (!DIFF_COLLECTIONS.some(collection => collection.key === target)) continue;
+      const key = target as DiffCollectionKey;
+      const entity = getItems(context!.data, key).find(item => item.id === id);
+      if (entity) return entity.code || getEntityLabel(entity, key);
+    }
+    return id;
+  };
+  const format = (item: unknown) => {
+    if (typeof item === 'string') return targets ? resolve(item) : item;
+    if (item && typeof item === 'object') return JSON.stringify(item);
+    return String(item);
+  };
+
+  return Array.isArray(value) ? value.map(format).join(', ') : format(value);
+};
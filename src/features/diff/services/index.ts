@@ -0,0 +1,2 @@
+// Export services for diff
+export * from './analysis-diff';
@@ -0,0 +1,56 @@
+// Export types for diff
+import { AnalysisData, Identifiable } from '@/types/types';
+
+/**
+ * AnalysisData collections holding identifiable entities
+ */
+export type DiffCollectionKey = {
+  [K in keyof AnalysisData]-?: NonNullable<AnalysisData[K]> extends { id: string }[] ? K : never;
+}[keyof AnalysisData];
+
+export interface DiffCollection {
+  key: DiffCollectionKey;
+  label: string;
+  labelFields: string[]; // Fields joined to name an entity
+  titleFields: string[]; // Fields naming an entity apart from its code, to match by title
+}
+
+export type DiffStatus = 'added' | 'removed' | 'modified' | 'unchanged';
+
+/**
+ * How an entity was paired with its counterpart: the same id, or the same code
+ * or title when the ids differ, e.g. after an export and re-import
+ */
+export type DiffMatch = 'id' | 'code' | 'title';
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface EntityDiff {
+  collection: DiffCollectionKey;
+  id: string; // The id on the after side, if the entity exists there
+  label: string;
+  status: DiffStatus;
+  matchedBy?: DiffMatch; // Set for entities on both sides
+  before?: Identifiable;
+  after?: Identifiable;
+  changes: FieldChange[];
+}
+
+export interface AnalysisDiff {
+  entities: EntityDiff[];
+  counts: Record<DiffStatus, number>;
+}
+
+/**
+ * Something that can be compared: an analysis or one of its snapshots
+ */
+export interface DiffSource {
+  id: string;
+  label: string;
+  group: string; // The analysis it belongs to
+  load: () => Promise<Partial<AnalysisData>>;
+}
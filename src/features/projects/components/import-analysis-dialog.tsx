@@ -0,0 +1,453 @@
+import {
+  ArrowUpTrayIcon,
+  DocumentDuplicateIcon,
+  ExclamationTriangleIcon,
+  PlusCircleIcon,
+} from '@heroicons/react/24/outline';
+import React, { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/shared';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useAnalysisContext } from '@/context/AnalysisContext';
+import { useProjects } from '@/context/ProjectsContext';
+import { DIFF_COLLECTIONS, formatFieldName } from '@/features/diff';
+import { cn } from '@/lib/utils';
+import { AnalysisData, AnalysisType } from '@/types/types';
+import { ImportOptions, ImportResult, importExportManager } from '@/utils/import-export';
+import {
+  buildImportPreview,
+  detectImportFormat,
+  mergeAnalysisData,
+  saveAnalysisDataToStorage,
+  toAnalysisData,
+} from '../services';
+import { ImportConflictStrategy, ImportItemStatus, ImportMode } from '../types';
+
+interface ImportAnalysisDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const ALL = 'all';
+
+const STATUS_STYLES: Record<ImportItemStatus, { label: string; className: string }> = {
+  added: {
+    label: 'Added',
+    className: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400',
+  },
+  updated: {
+    label: 'Updated',
+    className: 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400',
+  },
+  conflicted: {
+    label: 'Conflict',
+    className: 'bg-amber-100 text-amber-800 dark:bg-amber-900/20 dark:text-amber-400',
+  },
+  unchanged: {
+    label: 'Unchanged',
+    className: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-400',
+  },
+};
+
+/**
+ * Import wizard: reads a JSON or STPA-ML file, previews what it adds, updates or
+ * conflicts with, and imports it as a new analysis or into the current one
+ */
+const ImportAnalysisDialog: React.FC<ImportAnalysisDialogProps> = ({ isOpen, onClose }) => {
+  const navigate = useNavigate();
+  const { currentProject, createAnalysis, updateAnalysis } = useProjects();
+  const analysis = useAnalysisContext();
+  const { analysisSession, importAnalysisData } = analysis;
+
+  const [file, setFile] = useState<File | null>(null);
+  const [format, setFormat] = useState<ImportOptions['format']>('json');
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [mode, setMode] = useState<ImportMode>('new');
+  const [title, setTitle] = useState('');
+  const [conflictStrategy, setConflictStrategy] = useState<ImportConflictStrategy>('skip');
+  const [statusFilter, setStatusFilter] = useState<ImportItemStatus | typeof ALL>(ALL);
+
+  const current = useMemo<Partial<AnalysisData>>(
+    () => ({
+      losses: analysis.losses,
+      hazards: analysis.hazards,
+      systemConstraints: analysis.systemConstraints,
+      sequenceOfEvents: analysis.sequenceOfEvents,
+      systemComponents: analysis.systemComponents,
+      controllers: analysis.controllers,
+      controlPaths: analysis.controlPaths,
+      feedbackPaths: analysis.feedbackPaths,
+      communicationPaths: analysis.communicationPaths,
+      controlActions: analysis.controlActions,
+      ucas: analysis.ucas,
+      uccas: analysis.uccas,
+      scenarios: analysis.scenarios,
+      requirements: analysis.requirements,
+      hardwareComponents: analysis.hardwareComponents,
+      failureModes: analysis.failureModes,
+      unsafeInteractions: analysis.unsafeInteractions,
+      interchangeableControllerGroups: analysis.interchangeableControllerGroups,
+      activeContexts: analysis.activeContexts,
+      hardwareAnalysisSession: analysis.hardwareAnalysisSession,
+    }),
+    [analysis]
+  );
+
+  const incoming = useMemo(
+    () => (result?.success && result.data ? toAnalysisData(result.data) : null),
+    [result]
+  );
+
+  // A new analysis starts empty, so everything in the file is an addition
+  const preview = useMemo(
+    () => (incoming ? buildImportPreview(mode === 'merge' ? current : {}, incoming) : null),
+    [incoming, mode, current]
+  );
+
+  const visibleItems = useMemo(
+    () =>
+      (preview?.items || []).filter(item => statusFilter === ALL || item.status === statusFilter),
+    [preview, statusFilter]
+  );
+
+  const getCollectionLabel = (key: string) =>
+    DIFF_COLLECTIONS.find(c => c.key === key)?.label || key;
+
+  const reset = () => {
+    setFile(null);
+    setResult(null);
+    setTitle('');
+    setMode('new');
+    setConflictStrategy('skip');
+    setStatusFilter(ALL);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const readFile = async (selected: File, selectedFormat: ImportOptions['format']) => {
+    setIsReading(true);
+    try {
+      const importResult = await importExportManager.import(selected, {
+        format: selectedFormat,
+        validateSchema: true,
+      });
+      setResult(importResult);
+      setTitle(importResult.data?.analysisSession?.title || selected.name.replace(/\.[^.]+$/, ''));
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+
+    const detected = detectImportFormat(selected.name);
+    setFile(selected);
+    setFormat(detected);
+    readFile(selected, detected);
+  };
+
+  const handleFormatChange = (value: string) => {
+    const selectedFormat = value as ImportOptions['format'];
+    setFormat(selectedFormat);
+    if (file) readFile(file, selectedFormat);
+  };
+
+  const handleImport = () => {
+    if (!incoming || !preview || !currentProject) return;
+
+    if (mode === 'merge') {
+      importAnalysisData(mergeAnalysisData(current, incoming, preview, conflictStrategy));
+      handleClose();
+      return;
+    }
+
+    const session = result?.data?.analysisSession;
+    const newAnalysis = createAnalysis(
+      currentProject.id,
+      session?.analysisType || AnalysisType.STPA,
+      title.trim()
+    );
+
+    // Saved before AnalysisContext reacts to the selection change; storage handles
+    // the write before that load, so the new analysis opens with this data
+    saveAnalysisDataToStorage(newAnalysis.id, incoming);
+    if (session?.scope) {
+      updateAnalysis(currentProject.id, newAnalysis.id, { scope: session.scope });
+    }
+
+    const projectSlug = encodeURIComponent(currentProject.name.toLowerCase().replace(/\s+/g, '-'));
+    const analysisSlug = encodeURIComponent(newAnalysis.title.toLowerCase().replace(/\s+/g, '-'));
+    navigate(`/${projectSlug}/${analysisSlug}`);
+    handleClose();
+  };
+
+  const canImport =
+    !!preview &&
+    !!currentProject &&
+    (mode === 'merge' ? !!analysisSession : title.trim().length > 0);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && handleClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Analysis</DialogTitle>
+          <DialogDescription>
+            Import a JSON or STPA-ML export into {currentProject?.name || 'the current project'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          {/* File selection */}
+          <div className="flex items-end gap-3">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="import-file">File</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".json,.xml,.stpaml"
+                onChange={handleFileChange}
+              />
+            </div>
+            <div className="w-40 space-y-2">
+              <Label>Format</Label>
+              <Select value={format} onValueChange={handleFormatChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="json">JSON</SelectItem>
+                  <SelectItem value="stpa-ml">STPA-ML (XML)</SelectItem>
+                  <SelectItem value="csv">CSV</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {isReading && <p className="text-sm text-gray-500">Reading {file?.name}…</p>}
+
+          {result && !result.success && (
+            <Alert variant="destructive">
+              <ExclamationTriangleIcon className="h-4 w-4" />
+              <AlertTitle>The file could not be imported</AlertTitle>
+              <AlertDescription>
+                <ul className="list-disc pl-4">
+                  {result.errors.map(error => (
+                    <li key={error}>{error}</li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {result?.success && preview && (
+            <>
+              {result.warnings.length > 0 && (
+                <Alert>
+                  <ExclamationTriangleIcon className="h-4 w-4" />
+                  <AlertTitle>
+                    {result.warnings.length} warning{result.warnings.length === 1 ? '' : 's'}
+                  </AlertTitle>
+                  <AlertDescription>
+                    <ul className="list-disc pl-4">
+                      {result.warnings.map(warning => (
+                        <li key={warning}>{warning}</li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {/* Import mode */}
+              <div className="grid grid-cols-2 gap-3">
+                {[
+                  {
+                    value: 'new' as const,
+                    icon: PlusCircleIcon,
+                    label: 'Import as new analysis',
+                    description: 'Adds a separate analysis to this project',
+                    disabled: false,
+                  },
+                  {
+                    value: 'merge' as const,
+                    icon: DocumentDuplicateIcon,
+                    label: 'Merge into current analysis',
+                    description: analysisSession
+                      ? `Adds and updates items in "${analysisSession.title}"`
+                      : 'Open an analysis to merge into it',
+                    disabled: !analysisSession,
+                  },
+                ].map(option => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    disabled={option.disabled}
+                    onClick={() => setMode(option.value)}
+                    className={cn(
+                      'flex items-start gap-3 rounded-lg border p-3 text-left transition-colors disabled:cursor-not-allowed disabled:opacity-50',
+                      mode === option.value
+                        ? 'border-blue-500 bg-blue-50 dark:bg-blue-950/30'
+                        : 'hover:bg-gray-50 dark:hover:bg-gray-900'
+                    )}
+                  >
+                    <option.icon className="mt-0.5 h-5 w-5 shrink-0 text-gray-500" />
+                    <div>
+                      <div className="text-sm font-medium">{option.label}</div>
+                      <div className="text-xs text-gray-500">{option.description}</div>
+                    </div>
+                  </button>
+                ))}
+              </div>
+
+              {mode === 'new' ? (
+                <div className="space-y-2">
+                  <Label htmlFor="import-title">Analysis Name</Label>
+                  <Input id="import-title" value={title} onChange={e => setTitle(e.target.value)} />
+                </div>
+              ) : (
+                preview.counts.conflicted > 0 && (
+                  <div className="flex items-center justify-between gap-4 rounded-lg border border-amber-200 bg-amber-50 p-3 dark:border-amber-900 dark:bg-amber-950/20">
+                    <p className="text-sm text-amber-800 dark:text-amber-300">
+                      {preview.counts.conflicted} item
+                      {preview.counts.conflicted === 1 ? ' uses a code' : 's use codes'} already
+                      taken in this analysis
+                    </p>
+                    <Select
+                      value={conflictStrategy}
+                      onValueChange={value => setConflictStrategy(value as ImportConflictStrategy)}
+                    >
+                      <SelectTrigger className="w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="skip">Skip conflicts</SelectItem>
+                        <SelectItem value="renumber">Import with new codes</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )
+              )}
+
+              {/* Preview */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Preview</Label>
+                  <Tabs
+                    value={statusFilter}
+                    onValueChange={value => setStatusFilter(value as ImportItemStatus | typeof ALL)}
+                  >
+                    <TabsList>
+                      <TabsTrigger value={ALL}>All ({preview.items.length})</TabsTrigger>
+                      {(Object.keys(STATUS_STYLES) as ImportItemStatus[])
+                        .filter(status => preview.counts[status] > 0)
+                        .map(status => (
+                          <TabsTrigger key={status} value={status}>
+                            {STATUS_STYLES[status].label} ({preview.counts[status]})
+                          </TabsTrigger>
+                        ))}
+                    </TabsList>
+                  </Tabs>
+                </div>
+                <ScrollArea className="h-64 rounded-md border">
+                  {visibleItems.length === 0 ? (
+                    <div className="py-12 text-center text-sm text-gray-500">
+                      The file contains no analysis items.
+                    </div>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-44">Collection</TableHead>
+                          <TableHead>Item</TableHead>
+                          <TableHead className="w-28">Status</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {visibleItems.map(item => (
+                          <TableRow key={`${item.collection}:${item.id}`}>
+                            <TableCell className="text-xs text-gray-500">
+                              {getCollectionLabel(item.collection)}
+                            </TableCell>
+                            <TableCell className="whitespace-normal">
+                              <p className="line-clamp-2 text-sm">{item.label}</p>
+                              {item.reason && (
+                                <p className="text-xs text-amber-700 dark:text-amber-400">
+                                  {item.reason}
+                                </p>
+                              )}
+                              {item.changes.length > 0 && (
+                                <p className="text-xs text-gray-500">
+                                  Changes:{' '}
+                                  {item.changes.map(c => formatFieldName(c.field)).join(', ')}
+                                </p>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <Badge
+                                className={cn('text-xs', STATUS_STYLES[item.status].className)}
+                              >
+                                {STATUS_STYLES[item.status].label}
+                              </Badge>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </ScrollArea>
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={!canImport}
+            leftIcon={<ArrowUpTrayIcon className="h-4 w-4" />}
+          >
+            {mode === 'merge' ? 'Merge' : 'Import'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportAnalysisDialog;
@@ -1,5 +1,6 @@
 // Projects components barrel export
 
 export { default as EmptyStateView } from './empty-state-view';
+export { default as ImportAnalysisDialog } from './import-analysis-dialog';
 export { default as NewAnalysisButton } from './new-analysis-button';
 export { default as ProjectSwitcher } from './project-switcher';
@@ -1,4 +1,5 @@
 import {
+  ArrowUpTrayIcon,
   ChevronDownIcon,
   PlusIcon,
   FolderIcon,
@@ -29,6 +30,7 @@ import {
 import { Input } from '@/components/ui/input';
 import { SidebarMenuButton } from '@/components/ui/sidebar';
 import { useProjects } from '@/context/ProjectsContext';
+import ImportAnalysisDialog from './import-analysis-dialog';
 
 const ProjectSwitcher: React.FC = () => {
   const {
@@ -48,6 +50,7 @@ const ProjectSwitcher: React.FC = () => {
   const [renameValue, setRenameValue] = useState('');
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [projectToDelete, setProjectToDelete] = useState<string | null>(null);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
 
   const handleCreateProject = () => {
     if (newProjectName.trim()) {
@@ -221,6 +224,14 @@ const ProjectSwitcher: React.FC = () => {
             <PlusIcon className="mr-2 h-4 w-4" />
             New Project
           </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => setIsImportDialogOpen(true)}
+            disabled={!currentProject}
+            className="cursor-pointer"
+          >
+            <ArrowUpTrayIcon className="mr-2 h-4 w-4" />
+            Import Analysis
+          </DropdownMenuItem>
         </DropdownMenuContent>
       </DropdownMenu>
 
@@ -283,6 +294,11 @@ const ProjectSwitcher: React.FC = () => {
         onConfirm={confirmDeleteProject}
         variant="destructive"
       />
+
+      <ImportAnalysisDialog
+        isOpen={isImportDialogOpen}
+        onClose={() => setIsImportDialogOpen(false)}
+      />
     </>
   );
 };
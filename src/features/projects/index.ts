@@ -1,2 +1,4 @@
 // Projects feature barrel export
 export * from './components';
+export * from './services';
+export type * from './types';
@@ -0,0 +1,189 @@
+import { DIFF_COLLECTIONS, diffAnalyses } from '@/features/diff';
+import { AnalysisData, Identifiable } from '@/types/types';
+import { ANALYSIS_DOCUMENT_KEYS, analysisStorage } from '@/utils/analysis-storage';
+import { ImportOptions, STAPAnalysisData } from '@/utils/import-export';
+import {
+  ImportCollectionKey,
+  ImportConflictStrategy,
+  ImportItemStatus,
+  ImportPreview,
+  ImportPreviewItem,
+} from '../types';
+
+type ImportItem = Identifiable & { code?: string } & Record<string, unknown>;
+
+const getItems = (data: Partial<AnalysisData>, key: ImportCollectionKey) =>
+  (data[key] || []) as unknown as ImportItem[];
+
+/**
+ * Picks the import format from a file's extension
+ */
+export const detectImportFormat = (fileName: string): ImportOptions['format'] => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'xml' || extension === 'stpaml') return 'stpa-ml';
+  if (extension === 'csv' || extension === 'zip') return 'csv';
+  return 'json';
+};
+
+/**
+ * Maps import/export data onto the workspace's AnalysisData shape
+ */
+export const toAnalysisData = (data: STAPAnalysisData): Partial<AnalysisData> => {
+  const {
+    metadata: _metadata,
+    schemaVersion: _schemaVersion,
+    causalScenarios,
+    analysisSession: _session,
+    ...rest
+  } = data;
+  return { ...rest, scenarios: causalScenarios };
+};
+
+/**
+ * Classifies every incoming item against the current analysis: known ids are updated
+ * (or unchanged), new ids are added, and new ids whose code is already taken conflict
+ */
+export const buildImportPreview = (
+  current: Partial<AnalysisData>,
+  incoming: Partial<AnalysisData>
+): ImportPreview => {
+  const codesByCollection = new Map(
+    DIFF_COLLECTIONS.map(({ key }) => [
+      key,
+      new Set(
+        getItems(current, key)
+          .map(item => item.code)
+          .filter(Boolean)
+      ),
+    ])
+  );
+
+  const items: ImportPreviewItem[] = diffAnalyses(current, incoming)
+    .entities.filter(entity => entity.status !== 'removed')
+    .map(entity => {
+      const code = (entity.after as ImportItem).code;
+      let status: ImportItemStatus = 'added';
+      let reason: string | undefined;
+
+      if (entity.matchedBy === 'id') {
+        status = entity.status === 'unchanged' ? 'unchanged' : 'updated';
+      } else if (code && codesByCollection.get(entity.collection)?.has(code)) {
+        status = 'conflicted';
+        reason = `${code} is already used by another item`;
+      }
+
+      return {
+        collection: entity.collection,
+        id: entity.id,
+        label: entity.label,
+        status,
+        reason,
+        changes: status === 'updated' ? entity.changes : [],
+      };
+    });
+
+  const counts: Record<ImportItemStatus, number> = {
+    added: 0,
+    updated: 0,
+    unchanged: 0,
+    conflicted: 0,
+  };
+  items.forEach(item => counts[item.status]++);
+
+  return { items, counts };
+};
+
+/**
+ * Next free code with the same prefix, e.g. H-3 -> H-8 when H-7 is the highest in use
+ */
+const getNextFreeCode = (code: string, usedCodes: Set<string>): string => {
+  const match = code.match(/^(.*?)(\d+)$/);
+  const prefix = match ? match[1] : `${code}-`;
+  let next =
+    Math.max(
+      0,
+      ...Array.from(usedCodes)
+        .filter(used => used.startsWith(prefix))
+        .map(used => Number(used.slice(prefix.length)))
+        .filter(Number.isInteger)
+    ) + 1;
+
+  while (usedCodes.has(`${prefix}${next}`)) next++;
+  return `${prefix}${next}`;
+};
+
+/**
+ * Merges incoming data into the current analysis following a preview.
+ * Updated items replace their current version; conflicting items are skipped or renumbered.
+ */
+export const mergeAnalysisData = (
+  current: Partial<AnalysisData>,
+  incoming: Partial<AnalysisData>,
+  preview: ImportPreview,
+  conflictStrategy: ImportConflictStrategy
+): Partial<AnalysisData> => {
+  const statusOf = new Map(preview.items.map(item => [`${item.collection}:${item.id}`, item]));
+  const merged: Partial<AnalysisData> = {};
+
+  DIFF_COLLECTIONS.forEach(({ key }) => {
+    const result = [...getItems(current, key)];
+    const incomingItems = getItems(incoming, key);
+    const getStatus = (item: ImportItem) => statusOf.get(`${key}:${item.id}`)?.status;
+
+    // Codes of added items are reserved up front so renumbered conflicts can't take them
+    const usedCodes = new Set(
+      [...result, ...incomingItems.filter(item => getStatus(item) === 'added')]
+        .map(item => item.code)
+        .filter((c): c is string => !!c)
+    );
+
+    incomingItems.forEach(item => {
+      const status = getStatus(item);
+
+      if (status === 'updated') {
+        const index = result.findIndex(existing => existing.id === item.id);
+        result[index] = item;
+      } else if (status === 'added') {
+        result.push(item);
+      } else if (status === 'conflicted' && conflictStrategy === 'renumber' && item.code) {
+        const code = getNextFreeCode(item.code, usedCodes);
+        usedCodes.add(code);
+        result.push({ ...item, code });
+      }
+    });
+
+    Object.assign(merged, { [key]: result });
+  });
+
+  const groups = [
+    ...(current.interchangeableControllerGroups || []),
+    ...(incoming.interchangeableControllerGroups || []),
+  ];
+  merged.interchangeableControllerGroups = groups.filter(
+    (group, index) =>
+      groups.findIndex(other => [...other].sort().join() === [...group].sort().join()) === index
+  );
+  merged.activeContexts = { ...incoming.activeContexts, ...current.activeContexts };
+  merged.hardwareAnalysisSession =
+    current.hardwareAnalysisSession ?? incoming.hardwareAnalysisSession ?? null;
+
+  return merged;
+};
+
+/**
+ * Stores analysis data as the document AnalysisContext loads, so a newly created
+ * analysis opens with the imported content
+ */
+export const saveAnalysisDataToStorage = (analysisId: string, data: Partial<AnalysisData>) =>
+  analysisStorage
+    .saveAnalysis({
+      analysisId,
+      updatedAt: new Date().toISOString(),
+      data: Object.fromEntries(
+        Object.entries(data).filter(
+          ([key, value]) =>
+            value !== undefined && (ANALYSIS_DOCUMENT_KEYS as readonly string[]).includes(key)
+        )
+      ),
+    })
+    .catch(error => console.error('Failed to save imported analysis data:', error));
@@ -0,0 +1,2 @@
+// Export services for projects
+export * from './analysis-import';
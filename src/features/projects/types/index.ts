@@ -0,0 +1,28 @@
+// Export types for projects
+import { DiffCollectionKey, FieldChange } from '@/features/diff';
+
+export type ImportMode = 'new' | 'merge';
+
+/**
+ * How incoming items whose code is already taken by a different item are handled:
+ * skipped, or imported under the next free code
+ */
+export type ImportConflictStrategy = 'skip' | 'renumber';
+
+export type ImportItemStatus = 'added' | 'updated' | 'unchanged' | 'conflicted';
+
+export type ImportCollectionKey = DiffCollectionKey;
+
+export interface ImportPreviewItem {
+  collection: ImportCollectionKey;
+  id: string;
+  label: string;
+  status: ImportItemStatus;
+  reason?: string;
+  changes: FieldChange[]; // Fields an update changes
+}
+
+export interface ImportPreview {
+  items: ImportPreviewItem[];
+  counts: Record<ImportItemStatus, number>;
+}
@@ -0,0 +1,3 @@
+// Reports components barrel export
+
+export { default as ReportBuilderDialog } from './report-builder-dialog';
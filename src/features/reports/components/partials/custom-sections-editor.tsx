@@ -0,0 +1,127 @@
+import { Bars3Icon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import React, { useEffect, useMemo, useRef } from 'react';
+import Sortable from 'sortablejs';
+import { v4 as uuidv4 } from 'uuid';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ReportCustomSection } from '@/types/types';
+
+interface CustomSectionsEditorProps {
+  sections: ReportCustomSection[];
+  onChange: (sections: ReportCustomSection[]) => void;
+}
+
+/**
+ * Free-text sections appended before the report metadata. Drag the handle to
+ * reorder them; the list position becomes each section's order.
+ */
+const CustomSectionsEditor: React.FC<CustomSectionsEditorProps> = ({ sections, onChange }) => {
+  const listRef = useRef<HTMLDivElement>(null);
+  const sortedSections = useMemo(() => [...sections].sort((a, b) => a.order - b.order), [sections]);
+
+  const withOrder = (list: ReportCustomSection[]) =>
+    list.map((section, index) => ({ ...section, order: index }));
+
+  useEffect(() => {
+    if (!listRef.current) return;
+    const sortable = Sortable.create(listRef.current, {
+      animation: 150,
+      handle: '.drag-handle',
+      onEnd: evt => {
+        const { oldIndex, newIndex } = evt;
+        if (oldIndex === undefined || newIndex === undefined || oldIndex === newIndex) return;
+
+        const reordered = Array.from(sortedSections);
+        const [moved] = reordered.splice(oldIndex, 1);
+        reordered.splice(newIndex, 0, moved);
+        onChange(withOrder(reordered));
+      },
+    });
+    return () => sortable.destroy();
+  }, [sortedSections, onChange]);
+
+  const addSection = () =>
+    onChange(
+      withOrder([
+        ...sortedSections,
+        { id: uuidv4(), title: '', content: '', order: 0, includeInTOC: true },
+      ])
+    );
+
+  const updateSection = (id: string, changes: Partial<ReportCustomSection>) =>
+    onChange(sortedSections.map(s => (s.id === id ? { ...s, ...changes } : s)));
+
+  const removeSection = (id: string) =>
+    onChange(withOrder(sortedSections.filter(s => s.id !== id)));
+
+  return (
+    <div className="space-y-3">
+      {sortedSections.length === 0 && (
+        <p className="rounded-md border border-dashed py-6 text-center text-sm text-gray-500">
+          No custom sections. Add one for an introduction, assumptions or sign-off notes.
+        </p>
+      )}
+
+      <div ref={listRef} className="space-y-3">
+        {sortedSections.map(section => (
+          <div
+            key={section.id}
+            className="space-y-2 rounded-md border bg-white p-3 dark:bg-gray-900"
+          >
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                className="drag-handle cursor-grab text-gray-400 hover:text-gray-600"
+                aria-label="Drag to reorder"
+              >
+                <Bars3Icon className="h-4 w-4" />
+              </button>
+              <Input
+                value={section.title}
+                placeholder="Section title"
+                onChange={e => updateSection(section.id, { title: e.target.value })}
+              />
+              <button
+                type="button"
+                onClick={() => removeSection(section.id)}
+                className="text-gray-400 hover:text-red-600"
+                aria-label="Remove section"
+              >
+                <TrashIcon className="h-4 w-4" />
+              </button>
+            </div>
+            <Textarea
+              value={section.content}
+              placeholder="Section content. Separate paragraphs with a blank line."
+              rows={4}
+              onChange={e => updateSection(section.id, { content: e.target.value })}
+            />
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={`custom-section-toc-${section.id}`}
+                checked={section.includeInTOC ?? true}
+                onCheckedChange={checked => updateSection(section.id, { includeInTOC: !!checked })}
+              />
+              <Label htmlFor={`custom-section-toc-${section.id}`} className="text-xs font-normal">
+                Include in table of contents
+              </Label>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <button
+        type="button"
+        onClick={addSection}
+        className="flex w-full items-center justify-center gap-2 rounded-md border border-dashed py-2 text-sm text-gray-600 hover:bg-gray-50 dark:text-gray-400 dark:hover:bg-gray-900"
+      >
+        <PlusIcon className="h-4 w-4" />
+        Add custom section
+      </button>
+    </div>
+  );
+};
+
+export default CustomSectionsEditor;
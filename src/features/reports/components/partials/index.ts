@@ -0,0 +1,5 @@
+// Barrel export for report builder partials
+export { default as CustomSectionsEditor } from './custom-sections-editor';
+export { default as ReportDetailsForm } from './report-details-form';
+export { default as ReportHistoryList } from './report-history-list';
+export { default as ReportSectionToggles } from './report-section-toggles';
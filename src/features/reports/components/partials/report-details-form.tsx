@@ -0,0 +1,75 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ReportOptions } from '@/types/types';
+
+interface ReportDetailsFormProps {
+  options: ReportOptions;
+  defaultTitle: string;
+  onChange: (changes: Partial<ReportOptions>) => void;
+}
+
+type DetailField = 'customSubtitle' | 'customAuthor' | 'customOrganization';
+
+const DETAIL_FIELDS: { field: DetailField; label: string; placeholder?: string }[] = [
+  { field: 'customSubtitle', label: 'Subtitle', placeholder: 'e.g. Preliminary hazard analysis' },
+  { field: 'customAuthor', label: 'Author' },
+  { field: 'customOrganization', label: 'Organization' },
+];
+
+const ReportDetailsForm: React.FC<ReportDetailsFormProps> = ({
+  options,
+  defaultTitle,
+  onChange,
+}) => {
+  // Empty fields fall back to the generator defaults
+  const update = (field: keyof ReportOptions, value: string) =>
+    onChange({ [field]: value || undefined });
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="report-title">Title</Label>
+        <Input
+          id="report-title"
+          value={options.customTitle || ''}
+          placeholder={defaultTitle}
+          onChange={e => update('customTitle', e.target.value)}
+        />
+      </div>
+      {DETAIL_FIELDS.map(({ field, label, placeholder }) => (
+        <div key={field} className="space-y-2">
+          <Label htmlFor={`report-${field}`}>{label}</Label>
+          <Input
+            id={`report-${field}`}
+            value={options[field] || ''}
+            placeholder={placeholder}
+            onChange={e => update(field, e.target.value)}
+          />
+        </div>
+      ))}
+      <div className="space-y-2">
+        <Label htmlFor="report-date">Date</Label>
+        <Input
+          id="report-date"
+          value={options.customDate || ''}
+          placeholder={new Date().toLocaleDateString()}
+          onChange={e => update('customDate', e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="report-notes">Notes</Label>
+        <Textarea
+          id="report-notes"
+          value={options.customNotes || ''}
+          placeholder="Shown on the title page, e.g. distribution or revision notes"
+          rows={3}
+          onChange={e => update('customNotes', e.target.value)}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ReportDetailsForm;
@@ -0,0 +1,87 @@
+import { ArrowDownTrayIcon, TrashIcon } from '@heroicons/react/24/outline';
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { GeneratedReport, ReportOptions } from '@/types/types';
+import { REPORT_FORMAT_LABELS, REPORT_HISTORY_LIMIT } from '../../services';
+
+interface ReportHistoryListProps {
+  reports: GeneratedReport[];
+  onDownload: (report: GeneratedReport) => void;
+  onDelete: (reportId: string) => void;
+  onRestoreOptions: (options: ReportOptions) => void;
+}
+
+const ReportHistoryList: React.FC<ReportHistoryListProps> = ({
+  reports,
+  onDownload,
+  onDelete,
+  onRestoreOptions,
+}) => {
+  if (reports.length === 0) {
+    return (
+      <p className="rounded-md border border-dashed py-6 text-center text-sm text-gray-500">
+        Reports you export for this analysis are kept here so they can be downloaded again.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-500">The last {REPORT_HISTORY_LIMIT} reports are kept</p>
+      <ScrollArea className="h-[28rem] pr-2">
+        <ul className="space-y-2">
+          {reports.map(report => (
+            <li key={report.id} className="rounded-md border p-3">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="truncate text-sm font-medium" title={report.fileName}>
+                    {report.fileName}
+                  </div>
+                  <div className="text-xs text-gray-500">{report.generatedAt.toLocaleString()}</div>
+                </div>
+                <Badge variant="secondary">
+                  {REPORT_FORMAT_LABELS[report.format as ReportOptions['format']] || report.format}
+                </Badge>
+              </div>
+              {report.metadata && (
+                <div className="mt-1 text-xs text-gray-500">
+                  {report.metadata.sectionCount} sections
+                  {report.metadata.totalPages ? ` · ${report.metadata.totalPages} pages` : ''}
+                  {` · ${report.metadata.analysisCompleteness}% complete`}
+                </div>
+              )}
+              <div className="mt-2 flex items-center gap-3 text-xs">
+                <button
+                  type="button"
+                  onClick={() => onDownload(report)}
+                  className="flex items-center gap-1 font-medium text-blue-600 hover:underline dark:text-blue-400"
+                >
+                  <ArrowDownTrayIcon className="h-3.5 w-3.5" />
+                  Download
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onRestoreOptions(report.options)}
+                  className="text-gray-600 hover:underline dark:text-gray-400"
+                >
+                  Reuse settings
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onDelete(report.id)}
+                  className="ml-auto text-gray-400 hover:text-red-600"
+                  aria-label="Delete from history"
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default ReportHistoryList;
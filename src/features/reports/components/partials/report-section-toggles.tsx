@@ -0,0 +1,51 @@
+import React from 'react';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ReportOptions } from '@/types/types';
+import { REPORT_SECTION_OPTIONS, REPORT_SECTION_TITLES } from '../../services';
+import { ReportSectionOption } from '../../types';
+
+interface ReportSectionTogglesProps {
+  options: ReportOptions;
+  onChange: (changes: Partial<ReportOptions>) => void;
+}
+
+const ReportSectionToggles: React.FC<ReportSectionTogglesProps> = ({ options, onChange }) => {
+  // includeDetailedAnalysis and includeCompliance are optional and default to on
+  const isIncluded = (option: ReportSectionOption) => options[option] ?? true;
+  const allIncluded = REPORT_SECTION_OPTIONS.every(({ option }) => isIncluded(option));
+
+  const setAll = (include: boolean) =>
+    onChange(Object.fromEntries(REPORT_SECTION_OPTIONS.map(({ option }) => [option, include])));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-gray-500">Standard sections, in report order</p>
+        <button
+          type="button"
+          onClick={() => setAll(!allIncluded)}
+          className="text-xs font-medium text-blue-600 hover:underline dark:text-blue-400"
+        >
+          {allIncluded ? 'Exclude all' : 'Include all'}
+        </button>
+      </div>
+      <div className="divide-y rounded-md border">
+        {REPORT_SECTION_OPTIONS.map(({ key, option }) => (
+          <div key={key} className="flex items-center justify-between px-3 py-2">
+            <Label htmlFor={`report-section-${key}`} className="font-normal">
+              {REPORT_SECTION_TITLES[key]}
+            </Label>
+            <Switch
+              id={`report-section-${key}`}
+              checked={isIncluded(option)}
+              onCheckedChange={checked => onChange({ [option]: checked })}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ReportSectionToggles;
@@ -0,0 +1,265 @@
+import {
+  ArrowDownTrayIcon,
+  CodeBracketIcon,
+  DocumentTextIcon,
+  ExclamationTriangleIcon,
+} from '@heroicons/react/24/outline';
+import React, { useCallback, useDeferredValue, useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/shared';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useAnalysisContext } from '@/context/AnalysisContext';
+import { AnalysisData, GeneratedReport, ReportCustomSection, ReportOptions } from '@/types/types';
+import { useReportHistory } from '../hooks';
+import {
+  buildReportDocument,
+  DEFAULT_REPORT_OPTIONS,
+  downloadReport,
+  generateReport,
+  loadReportOptions,
+  REPORT_FORMAT_LABELS,
+  renderReportHTML,
+  renderReportMarkdown,
+  saveReportOptions,
+} from '../services';
+import {
+  CustomSectionsEditor,
+  ReportDetailsForm,
+  ReportHistoryList,
+  ReportSectionToggles,
+} from './partials';
+
+interface ReportBuilderDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type PreviewMode = 'html' | 'markdown';
+
+const EXPORT_FORMATS: ReportOptions['format'][] = ['html', 'markdown', 'pdf', 'docx'];
+
+// Select items need a value; the default layout has no id
+const DEFAULT_DIAGRAM_LAYOUT = 'default';
+
+/**
+ * Report builder: choose sections, edit title page details and custom sections,
+ * preview the result live and export it, keeping every export in the analysis history
+ */
+const ReportBuilderDialog: React.FC<ReportBuilderDialogProps> = ({ isOpen, onClose }) => {
+  const analysis = useAnalysisContext();
+  const analysisData: AnalysisData = analysis;
+  const analysisId = analysis.analysisSession?.id;
+  const { reports, addReport, removeReport } = useReportHistory(analysisId);
+
+  const [options, setOptions] = useState<ReportOptions>(DEFAULT_REPORT_OPTIONS);
+  const [previewMode, setPreviewMode] = useState<PreviewMode>('html');
+  const [exportingFormat, setExportingFormat] = useState<ReportOptions['format'] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen && analysisId) setOptions(loadReportOptions(analysisId));
+  }, [isOpen, analysisId]);
+
+  const updateOptions = useCallback(
+    (changes: Partial<ReportOptions>) => {
+      setOptions(previous => {
+        const next = { ...previous, ...changes };
+        if (analysisId) saveReportOptions(analysisId, next);
+        return next;
+      });
+    },
+    [analysisId]
+  );
+
+  const handleCustomSectionsChange = useCallback(
+    (customSections: ReportCustomSection[]) => updateOptions({ customSections }),
+    [updateOptions]
+  );
+
+  // Rebuilding the report is not free, so typing stays responsive while the preview catches up
+  const deferredOptions = useDeferredValue(options);
+  const preview = useMemo(() => {
+    if (!isOpen) return '';
+    const report = buildReportDocument(analysisData, deferredOptions);
+    return previewMode === 'html' ? renderReportHTML(report) : renderReportMarkdown(report);
+  }, [isOpen, analysisData, deferredOptions, previewMode]);
+
+  const handleExport = async (format: ReportOptions['format']) => {
+    setExportingFormat(format);
+    setError(null);
+    try {
+      const report = await generateReport(analysisData, { ...options, format });
+      downloadReport(report);
+      await addReport(report);
+    } catch (exportError) {
+      console.error(`${REPORT_FORMAT_LABELS[format]} export failed:`, exportError);
+      setError(`${REPORT_FORMAT_LABELS[format]} export failed. Please try again.`);
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  const handleRestoreOptions = (restored: ReportOptions) => {
+    const { format: _format, ...rest } = restored;
+    updateOptions(rest);
+  };
+
+  const handleClose = () => {
+    setError(null);
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && handleClose()}>
+      <DialogContent className="sm:max-w-6xl">
+        <DialogHeader>
+          <DialogTitle>Report Builder</DialogTitle>
+          <DialogDescription>
+            Choose what goes into the report for{' '}
+            {analysis.analysisSession?.title || 'this analysis'} and export it
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <ExclamationTriangleIcon className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid grid-cols-[22rem_1fr] gap-4">
+          <Tabs defaultValue="sections">
+            <TabsList className="w-full">
+              <TabsTrigger value="sections">Sections</TabsTrigger>
+              <TabsTrigger value="details">Details</TabsTrigger>
+              <TabsTrigger value="history">History ({reports.length})</TabsTrigger>
+            </TabsList>
+            <TabsContent value="sections">
+              <ScrollArea className="h-[30rem] pr-3">
+                <div className="space-y-5">
+                  <ReportSectionToggles options={options} onChange={updateOptions} />
+                  {analysis.diagramLayouts.length > 0 && (
+                    <div className="space-y-2">
+                      <Label htmlFor="report-diagram-layout">Control Structure Layout</Label>
+                      <Select
+                        value={
+                          analysis.diagramLayouts.some(l => l.id === options.diagramLayoutId)
+                            ? options.diagramLayoutId
+                            : DEFAULT_DIAGRAM_LAYOUT
+                        }
+                        onValueChange={value =>
+                          updateOptions({
+                            diagramLayoutId: value === DEFAULT_DIAGRAM_LAYOUT ? undefined : value,
+                          })
+                        }
+                      >
+                        <SelectTrigger id="report-diagram-layout">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={DEFAULT_DIAGRAM_LAYOUT}>Default</SelectItem>
+                          {analysis.diagramLayouts.map(layout => (
+                            <SelectItem key={layout.id} value={layout.id}>
+                              {layout.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium">Custom Sections</p>
+                    <CustomSectionsEditor
+                      sections={options.customSections || []}
+                      onChange={handleCustomSectionsChange}
+                    />
+                  </div>
+                </div>
+              </ScrollArea>
+            </TabsContent>
+            <TabsContent value="details">
+              <ScrollArea className="h-[30rem] pr-3">
+                <ReportDetailsForm
+                  options={options}
+                  defaultTitle={analysis.analysisSession?.title || 'Safety Analysis Report'}
+                  onChange={updateOptions}
+                />
+              </ScrollArea>
+            </TabsContent>
+            <TabsContent value="history">
+              <ReportHistoryList
+                reports={reports}
+                onDownload={(report: GeneratedReport) => downloadReport(report)}
+                onDelete={removeReport}
+                onRestoreOptions={handleRestoreOptions}
+              />
+            </TabsContent>
+          </Tabs>
+
+          <div className="flex min-w-0 flex-col gap-2">
+            <Tabs value={previewMode} onValueChange={value => setPreviewMode(value as PreviewMode)}>
+              <TabsList>
+                <TabsTrigger value="html">
+                  <DocumentTextIcon className="mr-1 h-4 w-4" />
+                  Preview
+                </TabsTrigger>
+                <TabsTrigger value="markdown">
+                  <CodeBracketIcon className="mr-1 h-4 w-4" />
+                  Markdown
+                </TabsTrigger>
+              </TabsList>
+            </Tabs>
+            {previewMode === 'html' ? (
+              <iframe
+                title="Report preview"
+                srcDoc={preview}
+                sandbox="allow-same-origin"
+                className="h-[30rem] w-full rounded-md border bg-white"
+              />
+            ) : (
+              <ScrollArea className="h-[30rem] rounded-md border bg-gray-50 dark:bg-gray-900">
+                <pre className="p-4 font-mono text-xs whitespace-pre-wrap">{preview}</pre>
+              </ScrollArea>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={handleClose}>
+            Close
+          </Button>
+          {EXPORT_FORMATS.map(format => (
+            <Button
+              key={format}
+              variant={format === 'html' ? 'primary' : 'secondary'}
+              disabled={!analysisId || exportingFormat !== null}
+              onClick={() => handleExport(format)}
+              leftIcon={<ArrowDownTrayIcon className="h-4 w-4" />}
+            >
+              {exportingFormat === format ? 'Exporting…' : REPORT_FORMAT_LABELS[format]}
+            </Button>
+          ))}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReportBuilderDialog;
@@ -0,0 +1,2 @@
+// Export hooks for reports
+export * from './useReportHistory';
@@ -0,0 +1,32 @@
+import { useCallback, useEffect, useState } from 'react';
+import { GeneratedReport } from '@/types/types';
+import { deleteReportFromHistory, loadReportHistory, saveReportToHistory } from '../services';
+
+/**
+ * Report history of an analysis, kept in sync with localStorage
+ */
+export const useReportHistory = (analysisId: string | undefined) => {
+  const [reports, setReports] = useState<GeneratedReport[]>([]);
+
+  useEffect(() => {
+    setReports(analysisId ? loadReportHistory(analysisId) : []);
+  }, [analysisId]);
+
+  const addReport = useCallback(
+    async (report: GeneratedReport) => {
+      if (!analysisId) return;
+      setReports(await saveReportToHistory(analysisId, report));
+    },
+    [analysisId]
+  );
+
+  const removeReport = useCallback(
+    (reportId: string) => {
+      if (!analysisId) return;
+      setReports(deleteReportFromHistory(analysisId, reportId));
+    },
+    [analysisId]
+  );
+
+  return { reports, addReport, removeReport };
+};
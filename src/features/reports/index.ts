@@ -0,0 +1,5 @@
+// Reports feature barrel export
+export * from './components';
+export * from './hooks';
+export * from './services';
+export type * from './types';
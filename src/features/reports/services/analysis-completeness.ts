@@ -0,0 +1,64 @@
+import { AnalysisData, CompletenessReport, Hazard, UnsafeControlAction } from '@/types/types';
+import { ValidationError } from '@/utils/uca-validation';
+import { VALIDATION_RULE_SCOPE_STEPS, runValidationRules } from '@/utils/validation-rules';
+
+interface CompletenessCheck {
+  id: string; // Validation rule id
+  step: string;
+  label: string;
+  passed: boolean;
+  severity: ValidationError['severity'];
+  messages: string[];
+}
+
+/**
+ * Returns the loss links of a hazard, including the legacy `lossIds` / `linkedLosses` aliases
+ */
+export const getHazardLossIds = (hazard: Hazard): string[] =>
+  Array.from(
+    new Set([
+      ...(hazard.linkedLossIds || []),
+      ...(hazard.lossIds || []),
+      ...(hazard.linkedLosses || []),
+    ])
+  );
+
+/**
+ * Returns the hazard links of a UCA, including the legacy `linkedHazards` alias
+ */
+export const getUCAHazardIds = (uca: UnsafeControlAction): string[] =>
+  Array.from(new Set([...(uca.hazardIds || []), ...(uca.linkedHazards || [])]));
+
+const toPercentage = (checks: CompletenessCheck[]) =>
+  checks.length === 0 ? 0 : Math.round((checks.filter(c => c.passed).length / checks.length) * 100);
+
+/**
+ * Scores an analysis by the share of the project's enabled validation rules it passes,
+ * overall and per step
+ */
+export const calculateAnalysisCompleteness = (data: AnalysisData): CompletenessReport => {
+  const checks: CompletenessCheck[] = runValidationRules(data, data.validationRules).map(
+    result => ({
+      id: result.rule.id,
+      step: VALIDATION_RULE_SCOPE_STEPS[result.rule.scope],
+      label: result.rule.title,
+      passed: result.passed,
+      severity: result.rule.severity,
+      messages: result.messages,
+    })
+  );
+  const steps = Array.from(new Set(checks.map(c => c.step)));
+  const failed = checks.filter(c => !c.passed);
+
+  return {
+    overallCompleteness: toPercentage(checks),
+    stepCompleteness: Object.fromEntries(
+      steps.map(step => [step, toPercentage(checks.filter(c => c.step === step))])
+    ),
+    issues: failed.flatMap(c => c.messages),
+    checks,
+    criticalIssues: failed.filter(c => c.severity === 'critical').length,
+    warnings: failed.filter(c => c.severity !== 'critical').length,
+    timestamp: new Date(),
+  };
+};
@@ -0,0 +1,287 @@
+import { Edge, Node } from 'reactflow';
+import {
+  filterDiagramElements,
+  getDiagramPositions,
+  getLayoutedElements,
+  transformAnalysisData,
+} from '@/features/STAMP/step2_structure-actions/components/graphUtils';
+import { AnalysisData, ControllerType } from '@/types/types';
+import { BASE_NODE_HEIGHT, NODE_WIDTH } from '@/utils/constants';
+import { ReportDiagram } from '../types';
+
+// The workspace palette is tuned for a dark canvas; print needs light fills and dark text
+const PRINT_CONTROLLER_COLORS: Record<ControllerType, { fill: string; stroke: string }> = {
+  [ControllerType.Software]: { fill: '#ccfbf1', stroke: '#0d9488' },
+  [ControllerType.Human]: { fill: '#fef9c3', stroke: '#ca8a04' },
+  [ControllerType.Team]: { fill: '#fef3c7', stroke: '#d97706' },
+  [ControllerType.Organisation]: { fill: '#f3e8ff', stroke: '#9333ea' },
+};
+const PRINT_COMPONENT_COLORS = { fill: '#ffffff', stroke: '#333333' };
+const PRINT_MEMBER_COLORS = { fill: '#ffffff', stroke: '#a8a29e' };
+
+const CONTROL_COLOR = '#3b82f6';
+const FEEDBACK_COLOR = '#ef4444';
+const COMMUNICATION_COLOR = '#888888';
+
+const MARGIN = 30;
+const FONT_FAMILY = 'helvetica';
+const LABEL_FONT_SIZE = 13;
+const EDGE_FONT_SIZE = 10;
+const ARROW_SIZE = 8;
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const escapeXML = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Helvetica averages a little over half the font size per character
+const estimateTextWidth = (text: string, fontSize: number) => text.length * fontSize * 0.55;
+
+/**
+ * Splits a label into at most `maxLines` lines that fit the given width
+ */
+const wrapText = (text: string, width: number, fontSize: number, maxLines = 2): string[] => {
+  const maxChars = Math.max(4, Math.floor(width / (fontSize * 0.55)));
+  const lines: string[] = [];
+  let current = '';
+
+  text.split(/\s+/).forEach(word => {
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length <= maxChars || !current) {
+      current = candidate;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  });
+  if (current) lines.push(current);
+
+  if (lines.length > maxLines) {
+    const kept = lines.slice(0, maxLines);
+    kept[maxLines - 1] = `${kept[maxLines - 1].slice(0, maxChars - 1)}…`;
+    return kept;
+  }
+  return lines.map(line => (line.length > maxChars ? `${line.slice(0, maxChars - 1)}…` : line));
+};
+
+const renderText = (
+  lines: string[],
+  cx: number,
+  cy: number,
+  fontSize: number,
+  weight = 'normal'
+) => {
+  const lineHeight = fontSize * 1.2;
+  // Baseline offset instead of dominant-baseline, which PDF converters handle unevenly
+  const top = cy - ((lines.length - 1) * lineHeight) / 2 + fontSize * 0.35;
+  return lines
+    .map(
+      (line, index) =>
+        `<text x="${cx}" y="${top + index * lineHeight}" font-family="${FONT_FAMILY}" ` +
+        `font-size="${fontSize}" font-weight="${weight}" fill="#111827" text-anchor="middle">${escapeXML(line)}</text>`
+    )
+    .join('');
+};
+
+const renderArrow = (
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  color: string,
+  dashed = false
+) => {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  const left = {
+    x: to.x - ARROW_SIZE * Math.cos(angle - Math.PI / 6),
+    y: to.y - ARROW_SIZE * Math.sin(angle - Math.PI / 6),
+  };
+  const right = {
+    x: to.x - ARROW_SIZE * Math.cos(angle + Math.PI / 6),
+    y: to.y - ARROW_SIZE * Math.sin(angle + Math.PI / 6),
+  };
+  const dash = dashed ? ' stroke-dasharray="5 5"' : '';
+
+  return (
+    `<line x1="${from.x}" y1="${from.y}" x2="${to.x}" y2="${to.y}" stroke="${color}" ` +
+    `stroke-width="2"${dash}/>` +
+    `<polygon points="${to.x},${to.y} ${left.x},${left.y} ${right.x},${right.y}" fill="${color}"/>`
+  );
+};
+
+const renderEdgeLabel = (label: string, x: number, y: number, color: string) => {
+  if (!label) return '';
+  const [text] = wrapText(label, 160, EDGE_FONT_SIZE, 1);
+  const width = estimateTextWidth(text, EDGE_FONT_SIZE) + 8;
+  const height = EDGE_FONT_SIZE + 6;
+
+  return (
+    `<rect x="${x - width / 2}" y="${y - height / 2}" width="${width}" height="${height}" ` +
+    `fill="#ffffff" stroke="${color}" stroke-width="0.5" rx="2"/>` +
+    renderText([text], x, y, EDGE_FONT_SIZE)
+  );
+};
+
+const getNodeSize = (node: Node) => ({
+  width: node.data?.width || (node.style?.width as number) || NODE_WIDTH,
+  height: (node.style?.height as number) || BASE_NODE_HEIGHT,
+});
+
+/**
+ * Resolves absolute boxes for every node; team members are positioned relative to their team
+ */
+const getNodeBoxes = (nodes: Node[]): Map<string, Box> => {
+  const boxes = new Map<string, Box>();
+  const byId = new Map(nodes.map(node => [node.id, node]));
+
+  const resolve = (node: Node): Box => {
+    const known = boxes.get(node.id);
+    if (known) return known;
+
+    const parent = node.parentNode ? byId.get(node.parentNode) : undefined;
+    const offset = parent ? resolve(parent) : { x: 0, y: 0 };
+    const box = {
+      x: offset.x + node.position.x,
+      y: offset.y + node.position.y,
+      ...getNodeSize(node),
+    };
+    boxes.set(node.id, box);
+    return box;
+  };
+
+  nodes.forEach(resolve);
+  return boxes;
+};
+
+const renderEdge = (edge: Edge, source: Box, target: Box) => {
+  const label = typeof edge.label === 'string' ? edge.label : '';
+
+  if (edge.id.startsWith('cp-') || edge.id.startsWith('fp-')) {
+    const isControl = edge.id.startsWith('cp-');
+    const color = isControl ? CONTROL_COLOR : FEEDBACK_COLOR;
+    // Actuators sit on the left quarter of a node, sensors on the right quarter
+    const sourceX = source.x + source.width * (isControl ? 0.25 : 0.75);
+    const targetX = target.x + target.width * (isControl ? 0.25 : 0.75);
+    const downwards = source.y + source.height / 2 <= target.y + target.height / 2;
+    const from = { x: sourceX, y: downwards ? source.y + source.height : source.y };
+    const to = { x: targetX, y: downwards ? target.y : target.y + target.height };
+
+    return (
+      renderArrow(from, to, color) +
+      renderEdgeLabel(label, (from.x + to.x) / 2, (from.y + to.y) / 2, color)
+    );
+  }
+
+  const rightwards = source.x <= target.x;
+  const from = {
+    x: rightwards ? source.x + source.width : source.x,
+    y: source.y + source.height / 2,
+  };
+  const to = {
+    x: rightwards ? target.x : target.x + target.width,
+    y: target.y + target.height / 2,
+  };
+  return (
+    renderArrow(from, to, COMMUNICATION_COLOR, true) +
+    renderEdgeLabel(label, (from.x + to.x) / 2, (from.y + to.y) / 2, COMMUNICATION_COLOR)
+  );
+};
+
+/**
+ * Renders the control structure as standalone vector SVG, using the same node model
+ * and layout as the interactive graph. Draws the named layout with the given id, or the
+ * default one. Returns null when there is nothing to draw.
+ */
+export const renderControlStructureSVG = (
+  data: AnalysisData,
+  layoutId?: string
+): ReportDiagram | null => {
+  const layout = data.diagramLayouts?.find(l => l.id === layoutId) ?? null;
+  const transformed = filterDiagramElements(transformAnalysisData(data), layout?.filters);
+  if (transformed.nodes.length === 0) return null;
+
+  const { nodes, edges } = getLayoutedElements(
+    transformed.nodes,
+    transformed.edges,
+    'TB',
+    getDiagramPositions(data, layout)
+  );
+  const boxes = getNodeBoxes(nodes);
+  const controllerTypes = new Map(data.controllers.map(c => [c.id, c.ctrlType]));
+
+  const all = Array.from(boxes.values());
+  const minX = Math.min(...all.map(box => box.x)) - MARGIN;
+  const minY = Math.min(...all.map(box => box.y)) - MARGIN;
+  const width = Math.max(...all.map(box => box.x + box.width)) - minX + MARGIN;
+  const height = Math.max(...all.map(box => box.y + box.height)) - minY + MARGIN;
+
+  const nodeMarkup = nodes
+    .map(node => {
+      const box = boxes.get(node.id)!;
+      const isMember = node.type === 'teamMember';
+      const controllerType = controllerTypes.get(node.id);
+      const colors = isMember
+        ? PRINT_MEMBER_COLORS
+        : controllerType
+          ? PRINT_CONTROLLER_COLORS[controllerType]
+          : PRINT_COMPONENT_COLORS;
+      const isTeamContainer = nodes.some(child => child.parentNode === node.id);
+      const label = String(node.data?.label ?? '');
+
+      const rect =
+        `<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" ` +
+        `rx="6" fill="${colors.fill}" stroke="${colors.stroke}" stroke-width="1.5"/>`;
+
+      if (isTeamContainer) {
+        // Team name sits in the header above the member nodes
+        return (
+          rect + renderText([label], box.x + box.width / 2, box.y + 16, LABEL_FONT_SIZE, 'bold')
+        );
+      }
+      if (isMember) {
+        const role = node.data?.role ? [String(node.data.role)] : [];
+        return (
+          rect +
+          renderText(
+            [label, ...role],
+            box.x + box.width / 2,
+            box.y + box.height / 2,
+            EDGE_FONT_SIZE
+          )
+        );
+      }
+      return (
+        rect +
+        renderText(
+          wrapText(label, box.width - 12, LABEL_FONT_SIZE),
+          box.x + box.width / 2,
+          box.y + box.height / 2,
+          LABEL_FONT_SIZE,
+          controllerType ? 'bold' : 'normal'
+        )
+      );
+    })
+    .join('');
+
+  const edgeMarkup = edges
+    .map(edge => {
+      const source = boxes.get(edge.source);
+      const target = boxes.get(edge.target);
+      return source && target ? renderEdge(edge, source, target) : '';
+    })
+    .join('');
+
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" ` +
+    `viewBox="${minX} ${minY} ${width} ${height}">${nodeMarkup}${edgeMarkup}</svg>`;
+
+  return {
+    svg,
+    width,
+    height,
+    caption: layout ? `Control structure: ${layout.name}` : 'Control structure',
+  };
+};
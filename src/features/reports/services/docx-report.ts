@@ -0,0 +1,362 @@
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  Footer,
+  Header,
+  HeadingLevel,
+  ImageRun,
+  LevelFormat,
+  Packer,
+  PageBreak,
+  PageNumber,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableOfContents,
+  TableRow,
+  TextRun,
+  WidthType,
+} from 'docx';
+import { v4 as uuidv4 } from 'uuid';
+import { AnalysisData, GeneratedReport, ReportOptions } from '@/types/types';
+import { ReportBlock, ReportDiagram, ReportDocument, ReportSection, ReportTable } from '../types';
+import {
+  buildReportDocument,
+  createReportMetadata,
+  DEFAULT_REPORT_OPTIONS,
+  REPORT_GENERATOR_VERSION,
+} from './report-builder';
+import { downloadReport, getReportFileName } from './report-download';
+
+type DocxChild = Paragraph | Table | TableOfContents;
+
+const ACCENT = '2563EB';
+const MUTED = '6B7280';
+const BULLET_REFERENCE = 'report-bullets';
+
+// A4 with one-inch margins leaves ~6.27in of text width; images are sized in pixels at 96 dpi
+const MAX_IMAGE_WIDTH = 600;
+const MAX_IMAGE_HEIGHT = 820;
+const RASTER_SCALE = 2;
+
+const CELL_BORDER = { style: BorderStyle.SINGLE, size: 4, color: 'D1D5DB' };
+const CELL_BORDERS = {
+  top: CELL_BORDER,
+  bottom: CELL_BORDER,
+  left: CELL_BORDER,
+  right: CELL_BORDER,
+};
+
+/**
+ * Rasterises SVG markup to PNG, used as the fallback image for Word versions without SVG support
+ */
+const rasterizeSVG = (diagram: ReportDiagram): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = diagram.width * RASTER_SCALE;
+      canvas.height = diagram.height * RASTER_SCALE;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas 2D context is not available'));
+        return;
+      }
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(blob => {
+        if (!blob) {
+          reject(new Error('Failed to rasterise diagram'));
+          return;
+        }
+        blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+      }, 'image/png');
+    };
+    image.onerror = () => reject(new Error('Failed to load diagram SVG'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(diagram.svg)}`;
+  });
+
+const renderTitlePage = (report: ReportDocument): Paragraph[] => {
+  const centered = (text: string, size: number, options: { bold?: boolean; color?: string }) =>
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      spacing: { after: 160 },
+      children: [new TextRun({ text, size, ...options })],
+    });
+
+  const details = [
+    report.author && `Prepared by ${report.author}`,
+    report.organization,
+    report.date,
+    `Analysis completeness: ${report.completeness}%`,
+  ].filter((line): line is string => !!line);
+
+  return [
+    new Paragraph({ spacing: { before: 3600 } }),
+    new Paragraph({
+      heading: HeadingLevel.TITLE,
+      alignment: AlignmentType.CENTER,
+      children: [new TextRun({ text: report.title })],
+    }),
+    ...(report.subtitle ? [centered(report.subtitle, 30, { color: MUTED })] : []),
+    new Paragraph({
+      spacing: { after: 480 },
+      border: { bottom: { style: BorderStyle.SINGLE, size: 12, color: ACCENT, space: 8 } },
+    }),
+    ...details.map(line => centered(line, 24, {})),
+    ...(report.notes
+      ? [
+          new Paragraph({ spacing: { before: 1200 } }),
+          ...report.notes.split('\n').map(line => centered(line, 20, { color: MUTED })),
+        ]
+      : []),
+    new Paragraph({ children: [new PageBreak()] }),
+  ];
+};
+
+const renderTableOfContents = (sections: ReportSection[]): DocxChild[] => [
+  new Paragraph({
+    spacing: { after: 240 },
+    children: [new TextRun({ text: 'Contents', bold: true, size: 36, color: ACCENT })],
+  }),
+  new TableOfContents('Contents', {
+    hyperlink: true,
+    headingStyleRange: '1-2',
+    // Shown until Word refreshes the field and fills in page numbers
+    cachedEntries: sections.map(section => ({ title: section.title, level: 1 })),
+  }),
+];
+
+const renderTable = (table: ReportTable): DocxChild[] => {
+  const columnWidth = Math.floor(100 / table.columns.length);
+  const cell = (text: string, isHeader: boolean) =>
+    new TableCell({
+      borders: CELL_BORDERS,
+      width: { size: columnWidth, type: WidthType.PERCENTAGE },
+      shading: isHeader ? { type: ShadingType.CLEAR, color: 'auto', fill: ACCENT } : undefined,
+      margins: { top: 60, bottom: 60, left: 100, right: 100 },
+      children: text.split('\n').map(
+        line =>
+          new Paragraph({
+            children: [
+              new TextRun({
+                text: line,
+                size: 18,
+                bold: isHeader,
+                color: isHeader ? 'FFFFFF' : undefined,
+              }),
+            ],
+          })
+      ),
+    });
+
+  return [
+    ...(table.caption
+      ? [
+          new Paragraph({
+            spacing: { before: 120, after: 80 },
+            children: [new TextRun({ text: table.caption, bold: true, size: 18, color: MUTED })],
+          }),
+        ]
+      : []),
+    new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      rows: [
+        new TableRow({
+          tableHeader: true,
+          children: table.columns.map(column => cell(column, true)),
+        }),
+        ...table.rows.map(row => new TableRow({ children: row.map(value => cell(value, false)) })),
+      ],
+    }),
+    new Paragraph({ spacing: { after: 120 } }),
+  ];
+};
+
+const renderDiagram = async (diagram: ReportDiagram): Promise<DocxChild[]> => {
+  const scale = Math.min(1, MAX_IMAGE_WIDTH / diagram.width, MAX_IMAGE_HEIGHT / diagram.height);
+  const transformation = {
+    width: Math.round(diagram.width * scale),
+    height: Math.round(diagram.height * scale),
+  };
+
+  return [
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      children: [
+        new ImageRun({
+          type: 'svg',
+          data: new TextEncoder().encode(diagram.svg),
+          fallback: { type: 'png', data: await rasterizeSVG(diagram) },
+          transformation,
+          altText: {
+            name: diagram.caption || 'Diagram',
+            title: diagram.caption || 'Diagram',
+            description: diagram.caption || 'Diagram',
+          },
+        }),
+      ],
+    }),
+    ...(diagram.caption
+      ? [
+          new Paragraph({
+            alignment: AlignmentType.CENTER,
+            spacing: { after: 240 },
+            children: [
+              new TextRun({ text: diagram.caption, italics: true, size: 18, color: MUTED }),
+            ],
+          }),
+        ]
+      : []),
+  ];
+};
+
+const renderBlock = async (block: ReportBlock): Promise<DocxChild[]> => {
+  switch (block.kind) {
+    case 'heading':
+      return [new Paragraph({ heading: HeadingLevel.HEADING_2, text: block.text })];
+    case 'paragraph':
+      return [new Paragraph({ spacing: { after: 160 }, text: block.text })];
+    case 'list':
+      return block.items.map(
+        item => new Paragraph({ numbering: { reference: BULLET_REFERENCE, level: 0 }, text: item })
+      );
+    case 'table':
+      return renderTable(block.table);
+    case 'diagram':
+      return renderDiagram(block.diagram);
+  }
+};
+
+/**
+ * Sections start on a new page. Only sections listed in the TOC use a Word heading style,
+ * since the TOC field collects every Heading 1-2 paragraph.
+ */
+const renderSection = async (section: ReportSection): Promise<DocxChild[]> => {
+  const title = section.includeInTOC
+    ? new Paragraph({ heading: HeadingLevel.HEADING_1, pageBreakBefore: true, text: section.title })
+    : new Paragraph({
+        pageBreakBefore: true,
+        spacing: { after: 240 },
+        children: [new TextRun({ text: section.title, bold: true, size: 32, color: ACCENT })],
+      });
+
+  const blocks = await Promise.all(section.blocks.map(renderBlock));
+  return [title, ...blocks.flat()];
+};
+
+const createDocument = async (report: ReportDocument) => {
+  const sections = await Promise.all(report.sections.map(renderSection));
+
+  return new Document({
+    title: report.title,
+    subject: report.subtitle,
+    creator: report.author || `STAMP Web Tool v${REPORT_GENERATOR_VERSION}`,
+    description: report.notes,
+    features: { updateFields: true },
+    styles: {
+      default: {
+        document: { run: { font: 'Calibri', size: 21 } },
+        title: { run: { size: 52, bold: true } },
+        heading1: {
+          run: { size: 32, bold: true, color: ACCENT },
+          paragraph: { spacing: { after: 240 } },
+        },
+        heading2: {
+          run: { size: 26, bold: true },
+          paragraph: { spacing: { before: 240, after: 120 } },
+        },
+      },
+    },
+    numbering: {
+      config: [
+        {
+          reference: BULLET_REFERENCE,
+          levels: [
+            {
+              level: 0,
+              format: LevelFormat.BULLET,
+              text: '•',
+              alignment: AlignmentType.LEFT,
+              style: { paragraph: { indent: { left: 360, hanging: 260 } } },
+            },
+          ],
+        },
+      ],
+    },
+    sections: [
+      {
+        properties: { titlePage: true },
+        headers: {
+          default: new Header({
+            children: [
+              new Paragraph({
+                alignment: AlignmentType.RIGHT,
+                children: [new TextRun({ text: report.title, size: 16, color: MUTED })],
+              }),
+            ],
+          }),
+        },
+        footers: {
+          default: new Footer({
+            children: [
+              new Paragraph({
+                alignment: AlignmentType.RIGHT,
+                children: [
+                  new TextRun({
+                    children: ['Page ', PageNumber.CURRENT, ' of ', PageNumber.TOTAL_PAGES],
+                    size: 16,
+                    color: MUTED,
+                  }),
+                ],
+              }),
+            ],
+          }),
+        },
+        children: [
+          ...renderTitlePage(report),
+          ...renderTableOfContents(report.sections.filter(s => s.includeInTOC)),
+          ...sections.flat(),
+        ],
+      },
+    ],
+  });
+};
+
+/**
+ * Generates a Word report for an analysis, honouring every option in ReportOptions
+ */
+export const generateDOCXReport = async (
+  analysisData: AnalysisData,
+  options: ReportOptions = DEFAULT_REPORT_OPTIONS
+): Promise<GeneratedReport> => {
+  const startedAt = performance.now();
+  const report = buildReportDocument(analysisData, options);
+  const content = await Packer.toBlob(await createDocument(report));
+
+  return {
+    id: uuidv4(),
+    format: 'docx',
+    generatedAt: new Date(),
+    fileName: getReportFileName(analysisData, 'docx'),
+    content,
+    options,
+    // Word paginates on open, so the page count isn't known here
+    metadata: createReportMetadata(report, startedAt),
+  };
+};
+
+/**
+ * FR-8.1: Generates the Word report and downloads it
+ */
+export const exportAnalysisAsDOCX = async (
+  analysisData: AnalysisData,
+  options: ReportOptions = DEFAULT_REPORT_OPTIONS
+): Promise<GeneratedReport> => {
+  const report = await generateDOCXReport(analysisData, { ...options, format: 'docx' });
+  downloadReport(report);
+  return report;
+};
@@ -0,0 +1,162 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AnalysisData, GeneratedReport, ReportOptions } from '@/types/types';
+import { ReportBlock, ReportDocument, ReportSection, ReportTable } from '../types';
+import {
+  buildReportDocument,
+  createReportMetadata,
+  DEFAULT_REPORT_OPTIONS,
+  REPORT_GENERATOR_VERSION,
+} from './report-builder';
+import { downloadReport, getReportFileName } from './report-download';
+
+const REPORT_STYLES = `
+  body { font-family: -apple-system, 'Segoe UI', Helvetica, Arial, sans-serif; color: #111827;
+    line-height: 1.5; max-width: 960px; margin: 0 auto; padding: 48px 32px; }
+  header.title-page { text-align: center; padding: 64px 0 48px; border-bottom: 2px solid #2563eb; }
+  header.title-page h1 { font-size: 2.25rem; margin: 0 0 8px; }
+  header.title-page .subtitle { color: #6b7280; font-size: 1.25rem; margin: 0 0 24px; }
+  header.title-page p { margin: 4px 0; }
+  header.title-page .notes { color: #6b7280; font-size: 0.875rem; margin-top: 24px; }
+  nav.toc { margin: 32px 0; }
+  nav.toc ol { padding-left: 20px; }
+  nav.toc a { color: #2563eb; text-decoration: none; }
+  section { margin-top: 48px; }
+  section > h2 { color: #2563eb; font-size: 1.5rem; border-bottom: 1px solid #e5e7eb; padding-bottom: 4px; }
+  h3 { font-size: 1.125rem; margin: 24px 0 8px; }
+  table { border-collapse: collapse; width: 100%; margin: 8px 0 16px; font-size: 0.8125rem; }
+  caption { text-align: left; font-weight: 600; color: #6b7280; padding-bottom: 4px; }
+  th { background: #2563eb; color: #fff; text-align: left; }
+  th, td { border: 1px solid #d1d5db; padding: 4px 8px; vertical-align: top; }
+  tr:nth-child(even) td { background: #f3f4f6; }
+  figure { margin: 16px 0; text-align: center; }
+  figure svg { max-width: 100%; height: auto; }
+  figcaption { color: #6b7280; font-size: 0.8125rem; }
+  footer { margin-top: 64px; color: #6b7280; font-size: 0.75rem; text-align: center; }
+  @media print { section { break-before: page; } body { padding: 0; } }
+`;
+
+export const escapeHTML = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Anchor id for a section, shared by the HTML and Markdown tables of contents
+ */
+export const getSectionAnchor = (section: ReportSection) =>
+  section.title
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, '')
+    .trim()
+    .replace(/\s+/g, '-');
+
+const renderTable = ({ columns, rows, caption }: ReportTable) =>
+  `<table>${caption ? `<caption>${escapeHTML(caption)}</caption>` : ''}` +
+  `<thead><tr>${columns.map(c => `<th>${escapeHTML(c)}</th>`).join('')}</tr></thead>` +
+  `<tbody>${rows
+    .map(row => `<tr>${row.map(cell => `<td>${escapeHTML(cell)}</td>`).join('')}</tr>`)
+    .join('')}</tbody></table>`;
+
+const renderBlock = (block: ReportBlock): string => {
+  switch (block.kind) {
+    case 'heading':
+      return `<h3>${escapeHTML(block.text)}</h3>`;
+    case 'paragraph':
+      return `<p>${escapeHTML(block.text)}</p>`;
+    case 'list':
+      return `<ul>${block.items.map(item => `<li>${escapeHTML(item)}</li>`).join('')}</ul>`;
+    case 'table':
+      return renderTable(block.table);
+    case 'diagram':
+      // The diagram SVG is generated markup with escaped labels, so it is inlined as-is
+      return (
+        `<figure>${block.diagram.svg}` +
+        (block.diagram.caption
+          ? `<figcaption>${escapeHTML(block.diagram.caption)}</figcaption>`
+          : '') +
+        `</figure>`
+      );
+  }
+};
+
+/**
+ * Renders a report as a standalone HTML document with inline styles and vector diagrams
+ */
+export const renderReportHTML = (report: ReportDocument): string => {
+  const tocSections = report.sections.filter(s => s.includeInTOC);
+  const details = [
+    report.author && `Prepared by ${report.author}`,
+    report.organization,
+    report.date,
+    `Analysis completeness: ${report.completeness}%`,
+  ].filter((line): line is string => !!line);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="generator" content="STAMP Web Tool report generator v${REPORT_GENERATOR_VERSION}">
+${report.author ? `<meta name="author" content="${escapeHTML(report.author)}">` : ''}
+<title>${escapeHTML(report.title)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<header class="title-page">
+<h1>${escapeHTML(report.title)}</h1>
+${report.subtitle ? `<p class="subtitle">${escapeHTML(report.subtitle)}</p>` : ''}
+${details.map(line => `<p>${escapeHTML(line)}</p>`).join('\n')}
+${report.notes ? `<p class="notes">${escapeHTML(report.notes)}</p>` : ''}
+</header>
+${
+  tocSections.length > 0
+    ? `<nav class="toc"><h2>Contents</h2><ol>${tocSections
+        .map(s => `<li><a href="#${getSectionAnchor(s)}">${escapeHTML(s.title)}</a></li>`)
+        .join('')}</ol></nav>`
+    : ''
+}
+${report.sections
+  .map(
+    section =>
+      `<section id="${getSectionAnchor(section)}"><h2>${escapeHTML(section.title)}</h2>` +
+      `${section.blocks.map(renderBlock).join('\n')}</section>`
+  )
+  .join('\n')}
+<footer>${escapeHTML(report.title)} · ${escapeHTML(report.date)}</footer>
+</body>
+</html>
+`;
+};
+
+/**
+ * Generates a standalone HTML report for an analysis
+ */
+export const generateHTMLReport = (
+  analysisData: AnalysisData,
+  options: ReportOptions = DEFAULT_REPORT_OPTIONS
+): GeneratedReport => {
+  const startedAt = performance.now();
+  const report = buildReportDocument(analysisData, options);
+
+  return {
+    id: uuidv4(),
+    format: 'html',
+    generatedAt: new Date(),
+    fileName: getReportFileName(analysisData, 'html'),
+    content: renderReportHTML(report),
+    options,
+    metadata: createReportMetadata(report, startedAt),
+  };
+};
+
+export const exportAnalysisAsHTML = (
+  analysisData: AnalysisData,
+  options: ReportOptions = DEFAULT_REPORT_OPTIONS
+): GeneratedReport => {
+  const report = generateHTMLReport(analysisData, { ...options, format: 'html' });
+  downloadReport(report);
+  return report;
+};
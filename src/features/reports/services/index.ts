@@ -0,0 +1,12 @@
+// Export services for reports
+export * from './analysis-completeness';
+export * from './control-structure-svg';
+export * from './docx-report';
+export * from './html-report';
+export * from './markdown-report';
+export * from './pdf-report';
+export * from './report-builder';
+export * from './report-download';
+export * from './report-generator';
+export * from './report-history';
+export * from './report-options';
@@ -0,0 +1,109 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AnalysisData, GeneratedReport, ReportOptions } from '@/types/types';
+import { ReportBlock, ReportDocument, ReportTable } from '../types';
+import { getSectionAnchor } from './html-report';
+import {
+  buildReportDocument,
+  createReportMetadata,
+  DEFAULT_REPORT_OPTIONS,
+} from './report-builder';
+import { downloadReport, getReportFileName } from './report-download';
+
+// Pipes would split a cell and newlines would end the row
+const escapeCell = (value: string) => value.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+
+const renderTable = ({ columns, rows, caption }: ReportTable) =>
+  [
+    ...(caption ? [`**${caption}**`, ''] : []),
+    `| ${columns.map(escapeCell).join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(escapeCell).join(' | ')} |`),
+  ].join('\n');
+
+const toBase64 = (value: string) => {
+  const bytes = new TextEncoder().encode(value);
+  let binary = '';
+  bytes.forEach(byte => (binary += String.fromCharCode(byte)));
+  return btoa(binary);
+};
+
+const renderBlock = (block: ReportBlock): string => {
+  switch (block.kind) {
+    case 'heading':
+      return `### ${block.text}`;
+    case 'paragraph':
+      return block.text;
+    case 'list':
+      return block.items.map(item => `- ${item}`).join('\n');
+    case 'table':
+      return renderTable(block.table);
+    case 'diagram':
+      // Embedded as a data URI so the file stays self-contained
+      return `![${block.diagram.caption || 'Diagram'}](data:image/svg+xml;base64,${toBase64(block.diagram.svg)})`;
+  }
+};
+
+/**
+ * Renders a report as GitHub-flavoured Markdown
+ */
+export const renderReportMarkdown = (report: ReportDocument): string => {
+  const tocSections = report.sections.filter(s => s.includeInTOC);
+  const details = [
+    report.author && `Prepared by ${report.author}`,
+    report.organization,
+    report.date,
+    `Analysis completeness: ${report.completeness}%`,
+  ].filter((line): line is string => !!line);
+
+  const parts = [
+    `# ${report.title}`,
+    ...(report.subtitle ? [`_${report.subtitle}_`] : []),
+    details.join('  \n'),
+    ...(report.notes ? [`> ${report.notes.replace(/\n/g, '\n> ')}`] : []),
+  ];
+
+  if (tocSections.length > 0) {
+    parts.push(
+      '## Contents',
+      tocSections
+        .map((s, index) => `${index + 1}. [${s.title}](#${getSectionAnchor(s)})`)
+        .join('\n')
+    );
+  }
+
+  report.sections.forEach(section => {
+    parts.push(`## ${section.title}`, ...section.blocks.map(renderBlock));
+  });
+
+  return `${parts.join('\n\n')}\n`;
+};
+
+/**
+ * Generates a Markdown report for an analysis
+ */
+export const generateMarkdownReport = (
+  analysisData: AnalysisData,
+  options: ReportOptions = DEFAULT_REPORT_OPTIONS
+): GeneratedReport => {
+  const startedAt = performance.now();
+  const report = buildReportDocument(analysisData, options);
+
+  return {
+    id: uuidv4(),
+    format: 'markdown',
+    generatedAt: new Date(),
+    fileName: getReportFileName(analysisData, 'markdown'),
+    content: renderReportMarkdown(report),
+    options,
+    metadata: createReportMetadata(report, startedAt),
+  };
+};
+
+export const exportAnalysisAsMarkdown = (
+  analysisData: AnalysisData,
+  options: ReportOptions = DEFAULT_REPORT_OPTIONS
+): GeneratedReport => {
+  const report = generateMarkdownReport(analysisData, { ...options, format: 'markdown' });
+  downloadReport(report);
+  return report;
+};
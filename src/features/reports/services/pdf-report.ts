@@ -0,0 +1,309 @@
+import { jsPDF } from 'jspdf';
+import { autoTable } from 'jspdf-autotable';
+import { svg2pdf } from 'svg2pdf.js';
+import { v4 as uuidv4 } from 'uuid';
+import { AnalysisData, GeneratedReport, ReportOptions } from '@/types/types';
+import { ReportBlock, ReportDiagram, ReportDocument, ReportSection, ReportTable } from '../types';
+import {
+  buildReportDocument,
+  createReportMetadata,
+  DEFAULT_REPORT_OPTIONS,
+  REPORT_GENERATOR_VERSION,
+} from './report-builder';
+import { downloadReport, getReportFileName } from './report-download';
+
+type AutoTableDocument = jsPDF & { lastAutoTable?: { finalY?: number } };
+
+// A4 portrait, in points
+const MARGIN = 56;
+const HEADER_Y = 32;
+const FOOTER_OFFSET = 28;
+const TOC_ENTRIES_PER_PAGE = 32;
+
+const ACCENT: [number, number, number] = [37, 99, 235];
+const TEXT: [number, number, number] = [17, 24, 39];
+const MUTED: [number, number, number] = [107, 114, 128];
+
+/**
+ * Lays out a ReportDocument page by page, tracking the cursor and the page each
+ * section starts on so the table of contents can be written afterwards
+ */
+class PDFReportRenderer {
+  private doc: AutoTableDocument;
+  private y = MARGIN;
+  private readonly pageWidth: number;
+  private readonly pageHeight: number;
+  private readonly contentWidth: number;
+  private readonly sectionPages = new Map<string, number>();
+
+  constructor(private readonly report: ReportDocument) {
+    this.doc = new jsPDF({ unit: 'pt', format: 'a4' });
+    this.pageWidth = this.doc.internal.pageSize.getWidth();
+    this.pageHeight = this.doc.internal.pageSize.getHeight();
+    this.contentWidth = this.pageWidth - MARGIN * 2;
+  }
+
+  async render(): Promise<jsPDF> {
+    this.doc.setProperties({
+      title: this.report.title,
+      subject: this.report.subtitle,
+      author: this.report.author,
+      creator: `STAMP Web Tool report generator v${REPORT_GENERATOR_VERSION}`,
+    });
+
+    this.renderTitlePage();
+
+    const tocSections = this.report.sections.filter(s => s.includeInTOC);
+    const tocPageCount = Math.ceil(tocSections.length / TOC_ENTRIES_PER_PAGE);
+    for (let i = 0; i < tocPageCount; i++) this.doc.addPage();
+
+    for (const section of this.report.sections) {
+      await this.renderSection(section);
+    }
+
+    this.renderTableOfContents(tocSections, tocPageCount);
+    this.renderPageFurniture();
+    return this.doc;
+  }
+
+  private get bottom() {
+    return this.pageHeight - MARGIN;
+  }
+
+  private newPage() {
+    this.doc.addPage();
+    this.y = MARGIN;
+  }
+
+  private ensureSpace(height: number) {
+    if (this.y + height > this.bottom) this.newPage();
+  }
+
+  private setFont(size: number, style: 'normal' | 'bold' = 'normal', color = TEXT) {
+    this.doc.setFont('helvetica', style);
+    this.doc.setFontSize(size);
+    this.doc.setTextColor(...color);
+  }
+
+  private renderTitlePage() {
+    const { title, subtitle, author, organization, date, notes, completeness } = this.report;
+    const centerX = this.pageWidth / 2;
+    let y = this.pageHeight * 0.32;
+
+    this.setFont(26, 'bold');
+    const titleLines: string[] = this.doc.splitTextToSize(title, this.contentWidth);
+    this.doc.text(titleLines, centerX, y, { align: 'center' });
+    y += titleLines.length * 32;
+
+    if (subtitle) {
+      this.setFont(15, 'normal', MUTED);
+      this.doc.text(subtitle, centerX, y, { align: 'center' });
+      y += 28;
+    }
+
+    this.doc.setDrawColor(...ACCENT);
+    this.doc.setLineWidth(2);
+    this.doc.line(centerX - 80, y, centerX + 80, y);
+    y += 40;
+
+    this.setFont(12);
+    [
+      author && `Prepared by ${author}`,
+      organization,
+      date,
+      `Analysis completeness: ${completeness}%`,
+    ]
+      .filter((line): line is string => !!line)
+      .forEach(line => {
+        this.doc.text(line, centerX, y, { align: 'center' });
+        y += 18;
+      });
+
+    if (notes) {
+      this.setFont(10, 'normal', MUTED);
+      const noteLines: string[] = this.doc.splitTextToSize(notes, this.contentWidth - 80);
+      this.doc.text(noteLines, centerX, this.pageHeight - MARGIN - noteLines.length * 13, {
+        align: 'center',
+      });
+    }
+  }
+
+  private async renderSection(section: ReportSection) {
+    this.newPage();
+    const page = this.doc.getNumberOfPages();
+    this.sectionPages.set(section.id, page);
+    this.doc.outline.add(null, section.title, { pageNumber: page });
+
+    this.setFont(18, 'bold', ACCENT);
+    this.doc.text(section.title, MARGIN, this.y + 18);
+    this.y += 36;
+
+    for (const block of section.blocks) {
+      await this.renderBlock(block);
+    }
+  }
+
+  private async renderBlock(block: ReportBlock) {
+    switch (block.kind) {
+      case 'heading':
+        this.ensureSpace(40);
+        this.y += 8;
+        this.setFont(13, 'bold');
+        this.doc.text(block.text, MARGIN, this.y + 12);
+        this.y += 22;
+        break;
+      case 'paragraph':
+        this.renderLines(this.doc.splitTextToSize(block.text, this.contentWidth), MARGIN);
+        this.y += 8;
+        break;
+      case 'list':
+        block.items.forEach(item => {
+          this.ensureSpace(14);
+          this.setFont(10.5);
+          this.doc.text('•', MARGIN + 4, this.y + 10);
+          this.renderLines(this.doc.splitTextToSize(item, this.contentWidth - 16), MARGIN + 16);
+        });
+        this.y += 8;
+        break;
+      case 'table':
+        this.renderTable(block.table);
+        break;
+      case 'diagram':
+        await this.renderDiagram(block.diagram);
+        break;
+    }
+  }
+
+  private renderLines(lines: string[], x: number) {
+    this.setFont(10.5);
+    lines.forEach(line => {
+      this.ensureSpace(14);
+      this.doc.text(line, x, this.y + 10);
+      this.y += 14;
+    });
+  }
+
+  private renderCaption(caption: string) {
+    this.ensureSpace(40);
+    this.setFont(9, 'bold', MUTED);
+    this.doc.text(caption, MARGIN, this.y + 9);
+    this.y += 14;
+  }
+
+  private renderTable(table: ReportTable) {
+    if (table.caption) this.renderCaption(table.caption);
+    this.ensureSpace(48);
+
+    autoTable(this.doc, {
+      head: [table.columns],
+      body: table.rows,
+      startY: this.y,
+      margin: { left: MARGIN, right: MARGIN, top: MARGIN, bottom: MARGIN },
+      theme: 'grid',
+      styles: { font: 'helvetica', fontSize: 8.5, cellPadding: 4, overflow: 'linebreak' },
+      headStyles: { fillColor: ACCENT, textColor: 255, fontStyle: 'bold' },
+      alternateRowStyles: { fillColor: [243, 244, 246] },
+    });
+
+    this.y = (this.doc.lastAutoTable?.finalY ?? this.y) + 16;
+  }
+
+  /**
+   * Draws the diagram as vector graphics, scaled down to the content width and,
+   * for tall structures, to a single page
+   */
+  private async renderDiagram(diagram: ReportDiagram) {
+    const maxHeight = this.bottom - MARGIN - 20;
+    const scale = Math.min(1, this.contentWidth / diagram.width, maxHeight / diagram.height);
+    const width = diagram.width * scale;
+    const height = diagram.height * scale;
+
+    this.ensureSpace(height + 20);
+    const svg = new DOMParser().parseFromString(diagram.svg, 'image/svg+xml').documentElement;
+    await svg2pdf(svg, this.doc, {
+      x: MARGIN + (this.contentWidth - width) / 2,
+      y: this.y,
+      width,
+      height,
+    });
+    this.y += height + 4;
+
+    if (diagram.caption) {
+      this.setFont(9, 'normal', MUTED);
+      this.doc.text(diagram.caption, this.pageWidth / 2, this.y + 9, { align: 'center' });
+      this.y += 14;
+    }
+    this.y += 12;
+  }
+
+  private renderTableOfContents(sections: ReportSection[], pageCount: number) {
+    sections.forEach((section, index) => {
+      const tocPage = 2 + Math.floor(index / TOC_ENTRIES_PER_PAGE);
+      const row = index % TOC_ENTRIES_PER_PAGE;
+      const targetPage = this.sectionPages.get(section.id) ?? 1;
+      this.doc.setPage(tocPage);
+
+      if (row === 0) {
+        this.setFont(18, 'bold', ACCENT);
+        this.doc.text(
+          pageCount > 1 && tocPage > 2 ? 'Contents (continued)' : 'Contents',
+          MARGIN,
+          MARGIN + 18
+        );
+      }
+
+      const y = MARGIN + 56 + row * 20;
+      this.setFont(11);
+      this.doc.text(`${index + 1}. ${section.title}`, MARGIN, y);
+      this.doc.text(String(targetPage), this.pageWidth - MARGIN, y, { align: 'right' });
+      this.doc.link(MARGIN, y - 11, this.contentWidth, 16, { pageNumber: targetPage });
+    });
+  }
+
+  private renderPageFurniture() {
+    const total = this.doc.getNumberOfPages();
+    for (let page = 2; page <= total; page++) {
+      this.doc.setPage(page);
+      this.setFont(8, 'normal', MUTED);
+      this.doc.text(this.report.title, MARGIN, HEADER_Y);
+      this.doc.text(`Page ${page} of ${total}`, this.pageWidth - MARGIN, HEADER_Y, {
+        align: 'right',
+      });
+      this.doc.text(this.report.date, MARGIN, this.pageHeight - FOOTER_OFFSET);
+    }
+  }
+}
+
+/**
+ * Generates a PDF report for an analysis, honouring every option in ReportOptions
+ */
+export const generatePDFReport = async (
+  analysisData: AnalysisData,
+  options: ReportOptions = DEFAULT_REPORT_OPTIONS
+): Promise<GeneratedReport> => {
+  const startedAt = performance.now();
+  const report = buildReportDocument(analysisData, options);
+  const doc = await new PDFReportRenderer(report).render();
+
+  return {
+    id: uuidv4(),
+    format: 'pdf',
+    generatedAt: new Date(),
+    fileName: getReportFileName(analysisData, 'pdf'),
+    content: doc.output('blob'),
+    options,
+    metadata: createReportMetadata(report, startedAt, doc.getNumberOfPages()),
+  };
+};
+
+/**
+ * FR-8.1: Generates the PDF report and downloads it
+ */
+export const exportAnalysisAsPDF = async (
+  analysisData: AnalysisData,
+  options: ReportOptions = DEFAULT_REPORT_OPTIONS
+): Promise<GeneratedReport> => {
+  const report = await generatePDFReport(analysisData, { ...options, format: 'pdf' });
+  downloadReport(report);
+  return report;
+};
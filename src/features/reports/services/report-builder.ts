@@ -0,0 +1,584 @@
+import {
+  COMPLIANCE_STATUS_LABELS,
+  describeComplianceGaps,
+  evaluateCompliance,
+} from '@/features/compliance';
+import { getLinkedScenarioIds } from '@/features/STAMP/step5_mitigations/services';
+import { AnalysisData, AnalysisType, ReportMetadata, ReportOptions, UCAType } from '@/types/types';
+import {
+  ReportBlock,
+  ReportDocument,
+  ReportSection,
+  ReportSectionKey,
+  ReportSectionOption,
+} from '../types';
+import {
+  calculateAnalysisCompleteness,
+  getHazardLossIds,
+  getUCAHazardIds,
+} from './analysis-completeness';
+import { renderControlStructureSVG } from './control-structure-svg';
+
+export const REPORT_GENERATOR_VERSION = '1.0';
+
+export const DEFAULT_REPORT_OPTIONS: ReportOptions = {
+  format: 'pdf',
+  includeExecutiveSummary: true,
+  includeSystemOverview: true,
+  includeLosses: true,
+  includeHazards: true,
+  includeConstraints: true,
+  includeControlStructure: true,
+  includeUCAs: true,
+  includeCausalScenarios: true,
+  includeRequirements: true,
+  includeMetadata: true,
+  includeDetailedAnalysis: true,
+  includeCompliance: true,
+};
+
+export const REPORT_SECTION_TITLES: Record<ReportSectionKey, string> = {
+  executiveSummary: 'Executive Summary',
+  systemOverview: 'System Overview',
+  losses: 'Losses',
+  hazards: 'Hazards',
+  constraints: 'System Constraints',
+  controlStructure: 'Control Structure',
+  ucas: 'Unsafe Control Actions',
+  causalScenarios: 'Causal Scenarios',
+  requirements: 'Requirements and Mitigations',
+  traceability: 'Traceability',
+  compliance: 'Standards Compliance',
+  metadata: 'Report Metadata',
+};
+
+/**
+ * Standard sections in report order, with the option that includes each one
+ */
+export const REPORT_SECTION_OPTIONS: { key: ReportSectionKey; option: ReportSectionOption }[] = [
+  { key: 'executiveSummary', option: 'includeExecutiveSummary' },
+  { key: 'systemOverview', option: 'includeSystemOverview' },
+  { key: 'losses', option: 'includeLosses' },
+  { key: 'hazards', option: 'includeHazards' },
+  { key: 'constraints', option: 'includeConstraints' },
+  { key: 'controlStructure', option: 'includeControlStructure' },
+  { key: 'ucas', option: 'includeUCAs' },
+  { key: 'causalScenarios', option: 'includeCausalScenarios' },
+  { key: 'requirements', option: 'includeRequirements' },
+  { key: 'traceability', option: 'includeDetailedAnalysis' },
+  { key: 'compliance', option: 'includeCompliance' },
+  { key: 'metadata', option: 'includeMetadata' },
+];
+
+const NONE = '—';
+
+const table = (columns: string[], rows: string[][], caption?: string): ReportBlock => ({
+  kind: 'table',
+  table: { columns, rows, caption },
+});
+
+const paragraph = (text: string): ReportBlock => ({ kind: 'paragraph', text });
+
+const emptyNote = (items: string) => paragraph(`No ${items} have been recorded in this analysis.`);
+
+/**
+ * Looks up display codes for linked ids, keeping unknown ids visible
+ */
+const createCodeLookup = (data: AnalysisData) => {
+  const codes = new Map<string, string>();
+  data.losses.forEach(l => codes.set(l.id, l.code));
+  data.hazards.forEach(h => codes.set(h.id, h.code));
+  data.ucas.forEach(u => codes.set(u.id, u.code));
+  (data.scenarios || []).forEach(s => codes.set(s.id, s.code || s.title || s.id));
+  data.requirements.forEach(r => codes.set(r.id, r.code || r.id));
+  data.controllers.forEach(c => codes.set(c.id, c.name));
+  data.systemComponents.forEach(c => codes.set(c.id, c.name));
+  data.controlActions.forEach(a => codes.set(a.id, `${a.verb} ${a.object}`.trim()));
+
+  return (ids: (string | undefined)[] = []) =>
+    ids
+      .filter((id): id is string => !!id)
+      .map(id => codes.get(id) || id)
+      .join(', ') || NONE;
+};
+
+const buildExecutiveSummary = (data: AnalysisData, completeness: number): ReportBlock[] => {
+  const scenarios = data.scenarios || [];
+  const hazardousUCCAs = (data.uccas || []).filter(u => u.reviewStatus === 'hazardous');
+  const analysisType = data.analysisSession?.analysisType || AnalysisType.STPA;
+
+  return [
+    paragraph(
+      `This report presents the ${analysisType} analysis "${data.analysisSession?.title || 'Untitled'}". ` +
+        `It identifies ${data.losses.length} losses and ${data.hazards.length} hazards, ` +
+        `modelled over a control structure of ${data.controllers.length} controllers and ` +
+        `${data.systemComponents.length} controlled processes.`
+    ),
+    paragraph(
+      `${data.ucas.length} unsafe control actions` +
+        (hazardousUCCAs.length > 0 ? ` and ${hazardousUCCAs.length} unsafe combinations` : '') +
+        ` were identified, leading to ${scenarios.length} causal scenarios that are addressed ` +
+        `by ${data.requirements.length} requirements and mitigations. ` +
+        `The analysis is ${completeness}% complete against the structural completeness checks.`
+    ),
+  ];
+};
+
+const buildSystemOverview = (data: AnalysisData): ReportBlock[] => {
+  const blocks: ReportBlock[] = [];
+  if (data.analysisSession?.scope) {
+    blocks.push({ kind: 'heading', text: 'Scope' }, paragraph(data.analysisSession.scope));
+  }
+
+  blocks.push({ kind: 'heading', text: 'Controllers' });
+  blocks.push(
+    data.controllers.length > 0
+      ? table(
+          ['Name', 'Type', 'Responsibilities'],
+          data.controllers.map(c => [c.name, c.ctrlType, c.responsibilities || NONE])
+        )
+      : emptyNote('controllers')
+  );
+
+  blocks.push({ kind: 'heading', text: 'Controlled Processes' });
+  blocks.push(
+    data.systemComponents.length > 0
+      ? table(
+          ['Name', 'Type', 'Description'],
+          data.systemComponents.map(c => [c.name, c.type, c.description || NONE])
+        )
+      : emptyNote('controlled processes')
+  );
+
+  if (data.analysisSession?.analysisType === AnalysisType.CAST) {
+    blocks.push({ kind: 'heading', text: 'Sequence of Events' });
+    blocks.push(
+      data.sequenceOfEvents.length > 0
+        ? table(
+            ['#', 'Event'],
+            [...data.sequenceOfEvents]
+              .sort((a, b) => a.order - b.order)
+              .map(e => [String(e.order), e.description])
+          )
+        : emptyNote('events')
+    );
+  }
+
+  return blocks;
+};
+
+const buildControlStructure = (
+  data: AnalysisData,
+  codesOf: (ids?: string[]) => string,
+  layoutId?: string
+) => {
+  const blocks: ReportBlock[] = [];
+  const diagram = renderControlStructureSVG(data, layoutId);
+  if (diagram) {
+    blocks.push({ kind: 'diagram', diagram });
+  } else {
+    blocks.push(emptyNote('controllers or controlled processes'));
+  }
+
+  if (data.controlPaths.length > 0) {
+    blocks.push({ kind: 'heading', text: 'Control Paths' });
+    blocks.push(
+      table(
+        ['From', 'To', 'Control Actions'],
+        data.controlPaths.map(p => [
+          codesOf([p.sourceControllerId]),
+          codesOf([p.targetId]),
+          p.controls || NONE,
+        ])
+      )
+    );
+  }
+
+  if (data.feedbackPaths.length > 0) {
+    blocks.push({ kind: 'heading', text: 'Feedback Paths' });
+    blocks.push(
+      table(
+        ['From', 'To', 'Feedback', 'Status'],
+        data.feedbackPaths.map(p => [
+          codesOf([p.sourceId]),
+          codesOf([p.targetControllerId]),
+          p.feedback || NONE,
+          p.isMissing ? 'Missing' : 'Present',
+        ])
+      )
+    );
+  }
+
+  if (data.controlActions.length > 0) {
+    blocks.push({ kind: 'heading', text: 'Control Actions' });
+    blocks.push(
+      table(
+        ['Controller', 'Action', 'Description'],
+        data.controlActions
+          .filter(a => !a.isOutOfScope)
+          .map(a => [codesOf([a.controllerId]), `${a.verb} ${a.object}`.trim(), a.description])
+      )
+    );
+  }
+
+  return blocks;
+};
+
+const UCA_MATRIX_COLUMNS: { type: UCAType; shortLabel: string; label: string }[] = [
+  { type: UCAType.NotProvided, shortLabel: 'NP', label: 'Not Provided' },
+  { type: UCAType.ProvidedUnsafe, shortLabel: 'P', label: 'Provided' },
+  { type: UCAType.TooEarly, shortLabel: 'TE', label: 'Too Early' },
+  { type: UCAType.TooLate, shortLabel: 'TL', label: 'Too Late' },
+  { type: UCAType.WrongOrder, shortLabel: 'WO', label: 'Wrong Order' },
+  { type: UCAType.TooLong, shortLabel: 'ATL', label: 'Applied Too Long' },
+  { type: UCAType.TooShort, shortLabel: 'TS', label: 'Too Short' },
+];
+
+/**
+ * Control action × UCA type matrix, mirroring the UCA workspace matrix
+ */
+const buildUCAMatrix = (data: AnalysisData, codesOf: (ids?: string[]) => string): ReportBlock => {
+  const actions = data.controlActions.filter(
+    a => !a.isOutOfScope || data.ucas.some(u => u.controlActionId === a.id)
+  );
+
+  return table(
+    ['Controller', 'Control Action', ...UCA_MATRIX_COLUMNS.map(c => c.shortLabel)],
+    actions.map(action => {
+      const ucas = data.ucas.filter(u => u.controlActionId === action.id);
+      return [
+        codesOf([action.controllerId]),
+        `${action.verb} ${action.object}`.trim(),
+        ...UCA_MATRIX_COLUMNS.map(
+          column =>
+            ucas
+              .filter(u => u.ucaType === column.type)
+              .map(u => u.code)
+              .join(', ') || NONE
+        ),
+      ];
+    }),
+    `UCA matrix (${UCA_MATRIX_COLUMNS.map(c => `${c.shortLabel}: ${c.label}`).join(', ')})`
+  );
+};
+
+const buildUCAs = (data: AnalysisData, codesOf: (ids?: string[]) => string) => {
+  const blocks: ReportBlock[] = [];
+  if (data.ucas.length > 0 && data.controlActions.length > 0) {
+    blocks.push(buildUCAMatrix(data, codesOf), { kind: 'heading', text: 'UCA Details' });
+  }
+  blocks.push(
+    data.ucas.length > 0
+      ? table(
+          ['Code', 'Controller', 'Control Action', 'Type', 'Context', 'Hazards'],
+          data.ucas.map(u => [
+            u.code,
+            codesOf([u.controllerId]),
+            codesOf([u.controlActionId]),
+            u.ucaType,
+            u.context,
+            codesOf(getUCAHazardIds(u)),
+          ])
+        )
+      : emptyNote('unsafe control actions')
+  );
+
+  const hazardousUCCAs = (data.uccas || []).filter(u => u.reviewStatus === 'hazardous');
+  if (hazardousUCCAs.length > 0) {
+    blocks.push({ kind: 'heading', text: 'Unsafe Combinations of Control Actions' });
+    blocks.push(
+      table(
+        ['Code', 'Type', 'Description', 'Hazards'],
+        hazardousUCCAs.map(u => [
+          u.code,
+          `${u.abstractionType}. ${u.uccaTypes}`,
+          u.description,
+          codesOf(u.hazardIds),
+        ])
+      )
+    );
+  }
+
+  return blocks;
+};
+
+/**
+ * Flattens the loss → hazard → UCA → scenario → requirement chain into one row per path,
+ * stopping a row where the chain ends so gaps stay visible
+ */
+const buildTraceability = (data: AnalysisData): ReportBlock[] => {
+  const scenarios = data.scenarios || [];
+  const rows: string[][] = [];
+
+  data.losses.forEach(loss => {
+    const hazards = data.hazards.filter(h => getHazardLossIds(h).includes(loss.id));
+    if (hazards.length === 0) {
+      rows.push([loss.code, NONE, NONE, NONE, NONE]);
+      return;
+    }
+    hazards.forEach(hazard => {
+      const ucas = data.ucas.filter(u => getUCAHazardIds(u).includes(hazard.id));
+      if (ucas.length === 0) {
+        rows.push([loss.code, hazard.code, NONE, NONE, NONE]);
+        return;
+      }
+      ucas.forEach(uca => {
+        const ucaScenarios = scenarios.filter(s => s.ucaId === uca.id);
+        if (ucaScenarios.length === 0) {
+          rows.push([loss.code, hazard.code, uca.code, NONE, NONE]);
+          return;
+        }
+        ucaScenarios.forEach(scenario => {
+          const requirements = data.requirements.filter(r =>
+            getLinkedScenarioIds(r).includes(scenario.id)
+          );
+          rows.push([
+            loss.code,
+            hazard.code,
+            uca.code,
+            scenario.code || scenario.title || scenario.id,
+            requirements.map(r => r.code || r.id).join(', ') || NONE,
+          ]);
+        });
+      });
+    });
+  });
+
+  const gaps = [
+    ...data.losses
+      .filter(l => !data.hazards.some(h => getHazardLossIds(h).includes(l.id)))
+      .map(l => `Loss ${l.code} has no linked hazards`),
+    ...data.hazards
+      .filter(h => getHazardLossIds(h).length === 0)
+      .map(h => `Hazard ${h.code} is not linked to any loss`),
+    ...data.hazards
+      .filter(h => !data.ucas.some(u => getUCAHazardIds(u).includes(h.id)))
+      .map(h => `Hazard ${h.code} is not addressed by any UCA`),
+    ...data.ucas
+      .filter(u => !scenarios.some(s => s.ucaId === u.id))
+      .map(u => `UCA ${u.code} has no causal scenario`),
+    ...scenarios
+      .filter(s => !data.requirements.some(r => getLinkedScenarioIds(r).includes(s.id)))
+      .map(s => `Scenario ${s.code || s.title || s.id} is not addressed by a requirement`),
+  ];
+
+  return [
+    rows.length > 0
+      ? table(['Loss', 'Hazard', 'UCA', 'Scenario', 'Requirements'], rows, 'Traceability chain')
+      : emptyNote('losses'),
+    { kind: 'heading', text: 'Traceability Gaps' },
+    gaps.length > 0 ? { kind: 'list', items: gaps } : paragraph('No traceability gaps were found.'),
+  ];
+};
+
+/**
+ * Gap checklist of each standard the analysis is justified against
+ */
+const buildCompliance = (data: AnalysisData): ReportBlock[] =>
+  (data.analysisSession?.complianceStandards ?? []).flatMap((standard): ReportBlock[] => {
+    const { profile, items, coverage } = evaluateCompliance(data, standard);
+    const met = items.filter(item => item.status === 'met').length;
+    return [
+      { kind: 'heading', text: profile.title },
+      paragraph(
+        `The analysis provides complete evidence for ${met} of the ${items.length} work products ` +
+          `of ${profile.standard} that STPA contributes to (${coverage}%).`
+      ),
+      table(
+        ['Reference', 'Work Product', 'Evidence', 'Status', 'Gaps'],
+        items.map(item => [
+          item.workProduct.reference,
+          item.workProduct.title,
+          item.workProduct.description,
+          COMPLIANCE_STATUS_LABELS[item.status],
+          describeComplianceGaps(item).join('; ') || NONE,
+        ]),
+        `${profile.standard} gap checklist`
+      ),
+    ];
+  });
+
+const buildMetadata = (data: AnalysisData, completeness: number, date: string): ReportBlock[] => {
+  const session = data.analysisSession;
+  return [
+    table(
+      ['Property', 'Value'],
+      [
+        ['Analysis', session?.title || NONE],
+        ['Analysis ID', session?.id || NONE],
+        ['Analysis Type', session?.analysisType || NONE],
+        ['Created By', session?.createdBy || NONE],
+        ['Created', session?.createdAt || NONE],
+        ['Last Updated', session?.updatedAt || NONE],
+        ['Report Date', date],
+        ['Completeness', `${completeness}%`],
+        ['Generator Version', REPORT_GENERATOR_VERSION],
+      ]
+    ),
+  ];
+};
+
+/**
+ * Builds the format-independent report model for an analysis, honouring every
+ * include flag and the user's custom sections
+ */
+export const buildReportDocument = (data: AnalysisData, options: ReportOptions): ReportDocument => {
+  const codesOf = createCodeLookup(data);
+  const completeness = calculateAnalysisCompleteness(data).overallCompleteness;
+  const scenarios = data.scenarios || [];
+  const date = options.customDate || new Date().toLocaleDateString();
+  const sections: ReportSection[] = [];
+
+  const addSection = (id: ReportSectionKey, include: boolean, build: () => ReportBlock[]) => {
+    if (include) {
+      sections.push({ id, title: REPORT_SECTION_TITLES[id], blocks: build(), includeInTOC: true });
+    }
+  };
+
+  addSection('executiveSummary', options.includeExecutiveSummary, () =>
+    buildExecutiveSummary(data, completeness)
+  );
+  addSection('systemOverview', options.includeSystemOverview, () => buildSystemOverview(data));
+  addSection('losses', options.includeLosses, () => [
+    data.losses.length > 0
+      ? table(
+          ['Code', 'Title', 'Description'],
+          data.losses.map(l => [l.code, l.title, l.description || NONE])
+        )
+      : emptyNote('losses'),
+  ]);
+  addSection('hazards', options.includeHazards, () => [
+    data.hazards.length > 0
+      ? table(
+          ['Code', 'Title', 'Severity', 'Losses'],
+          data.hazards.map(h => [h.code, h.title, h.severity || NONE, codesOf(getHazardLossIds(h))])
+        )
+      : emptyNote('hazards'),
+  ]);
+  addSection('constraints', options.includeConstraints, () => [
+    data.systemConstraints.length > 0
+      ? table(
+          ['Code', 'Constraint', 'Hazard'],
+          data.systemConstraints.map(c => [c.code, c.text, codesOf([c.hazardId])])
+        )
+      : emptyNote('system constraints'),
+  ]);
+  addSection('controlStructure', options.includeControlStructure, () =>
+    buildControlStructure(data, codesOf, options.diagramLayoutId)
+  );
+  addSection('ucas', options.includeUCAs, () => buildUCAs(data, codesOf));
+  addSection('causalScenarios', options.includeCausalScenarios, () => [
+    scenarios.length > 0
+      ? table(
+          ['Code', 'Scenario', 'UCA', 'Causal Factors'],
+          scenarios.map(s => [
+            s.code || NONE,
+            s.title || s.description,
+            codesOf([s.ucaId]),
+            s.causalFactors.map(f => f.description).join('; ') || NONE,
+          ])
+        )
+      : emptyNote('causal scenarios'),
+  ]);
+  addSection('requirements', options.includeRequirements, () => [
+    data.requirements.length > 0
+      ? table(
+          ['Code', 'Type', 'Requirement', 'Priority', 'Verification', 'Scenarios'],
+          data.requirements.map(r => [
+            r.code || NONE,
+            r.type,
+            r.text,
+            r.priority || NONE,
+            r.verificationMethod || NONE,
+            codesOf(getLinkedScenarioIds(r)),
+          ])
+        )
+      : emptyNote('requirements'),
+  ]);
+  addSection('traceability', options.includeDetailedAnalysis ?? true, () =>
+    buildTraceability(data)
+  );
+  // Only analyses mapped to a standard have a compliance section
+  addSection(
+    'compliance',
+    (options.includeCompliance ?? true) && !!data.analysisSession?.complianceStandards?.length,
+    () => buildCompliance(data)
+  );
+
+  // Untitled sections are drafts still being written in the report builder
+  [...(options.customSections || [])]
+    .filter(section => section.title.trim())
+    .sort((a, b) => a.order - b.order)
+    .forEach(section => {
+      sections.push({
+        id: section.id,
+        title: section.title,
+        blocks: section.content
+          .split(/\n\s*\n/)
+          .map(text => text.trim())
+          .filter(Boolean)
+          .map(paragraph),
+        includeInTOC: section.includeInTOC ?? true,
+      });
+    });
+
+  addSection('metadata', options.includeMetadata, () => buildMetadata(data, completeness, date));
+
+  return {
+    title: options.customTitle || data.analysisSession?.title || 'Safety Analysis Report',
+    subtitle:
+      options.customSubtitle || `${data.analysisSession?.analysisType || 'STPA'} Analysis Report`,
+    author: options.customAuthor || data.analysisSession?.createdBy,
+    organization: options.customOrganization,
+    date,
+    notes: options.customNotes,
+    analysisType: data.analysisSession?.analysisType || AnalysisType.STPA,
+    sections,
+    completeness,
+  };
+};
+
+const countBlockWords = (block: ReportBlock): number => {
+  const count = (text: string) => text.split(/\s+/).filter(Boolean).length;
+  switch (block.kind) {
+    case 'paragraph':
+    case 'heading':
+      return count(block.text);
+    case 'list':
+      return block.items.reduce((sum, item) => sum + count(item), 0);
+    case 'table':
+      return [block.table.columns, ...block.table.rows].flat().reduce((s, c) => s + count(c), 0);
+    case 'diagram':
+      return 0;
+  }
+};
+
+/**
+ * Word count of a report's text content, for ReportMetadata
+ */
+export const countReportWords = (sections: ReportSection[]): number =>
+  sections.reduce(
+    (sum, section) =>
+      sum +
+      section.title.split(/\s+/).length +
+      section.blocks.reduce((s, block) => s + countBlockWords(block), 0),
+    0
+  );
+
+/**
+ * Fills ReportMetadata for a rendered report; page count is only known for fixed-layout formats
+ */
+export const createReportMetadata = (
+  report: ReportDocument,
+  startedAt: number,
+  totalPages?: number
+): ReportMetadata => ({
+  analysisType: report.analysisType,
+  totalPages,
+  wordCount: countReportWords(report.sections),
+  sectionCount: report.sections.length,
+  analysisCompleteness: report.completeness,
+  includedSections: report.sections.map(section => section.title),
+  generationTime: Math.round(performance.now() - startedAt),
+  version: REPORT_GENERATOR_VERSION,
+});
@@ -0,0 +1,38 @@
+import { AnalysisData, GeneratedReport } from '@/types/types';
+
+const MIME_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  html: 'text/html',
+  markdown: 'text/markdown',
+};
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  html: 'html',
+  markdown: 'md',
+};
+
+export const getReportMimeType = (format: string) => MIME_TYPES[format] || 'text/plain';
+
+export const getReportFileName = (analysisData: AnalysisData, format: string) =>
+  `${analysisData.analysisSession?.title || 'analysis'}_report.${FILE_EXTENSIONS[format] || format}`;
+
+/**
+ * Saves a generated report through a temporary download link
+ */
+export const downloadReport = (report: GeneratedReport) => {
+  const blob =
+    report.content instanceof Blob
+      ? report.content
+      : new Blob([report.content], { type: getReportMimeType(report.format) });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = report.fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
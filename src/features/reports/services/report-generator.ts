@@ -0,0 +1,31 @@
+import { AnalysisData, GeneratedReport, ReportOptions } from '@/types/types';
+import { generateDOCXReport } from './docx-report';
+import { generateHTMLReport } from './html-report';
+import { generateMarkdownReport } from './markdown-report';
+import { generatePDFReport } from './pdf-report';
+
+export const REPORT_FORMAT_LABELS: Record<ReportOptions['format'], string> = {
+  pdf: 'PDF',
+  docx: 'Word (DOCX)',
+  html: 'HTML',
+  markdown: 'Markdown',
+};
+
+/**
+ * Generates a report in the format selected in the options
+ */
+export const generateReport = async (
+  analysisData: AnalysisData,
+  options: ReportOptions
+): Promise<GeneratedReport> => {
+  switch (options.format) {
+    case 'pdf':
+      return generatePDFReport(analysisData, options);
+    case 'docx':
+      return generateDOCXReport(analysisData, options);
+    case 'html':
+      return generateHTMLReport(analysisData, options);
+    case 'markdown':
+      return generateMarkdownReport(analysisData, options);
+  }
+};
@@ -0,0 +1,95 @@
+import { GeneratedReport } from '@/types/types';
+import { StoredReport } from '../types';
+import { getReportMimeType } from './report-download';
+
+export const REPORT_HISTORY_LIMIT = 20;
+
+const getHistoryKey = (analysisId: string) => `reportHistory-${analysisId}`;
+
+const blobToBase64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // Chunked to stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const base64ToBlob = (value: string, type: string): Blob => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type });
+};
+
+const toStoredReport = async (report: GeneratedReport): Promise<StoredReport> => {
+  const isBinary = report.content instanceof Blob;
+  return {
+    ...report,
+    generatedAt: report.generatedAt.toISOString(),
+    content: isBinary ? await blobToBase64(report.content as Blob) : (report.content as string),
+    encoding: isBinary ? 'base64' : 'text',
+  };
+};
+
+const fromStoredReport = ({ encoding, ...stored }: StoredReport): GeneratedReport => ({
+  ...stored,
+  generatedAt: new Date(stored.generatedAt),
+  content:
+    encoding === 'base64'
+      ? base64ToBlob(stored.content, getReportMimeType(stored.format))
+      : stored.content,
+});
+
+const readStoredReports = (analysisId: string): StoredReport[] => {
+  try {
+    const stored = localStorage.getItem(getHistoryKey(analysisId));
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Failed to read report history:', error);
+    return [];
+  }
+};
+
+/**
+ * Writes the history, dropping the oldest reports until it fits in storage
+ */
+const writeStoredReports = (analysisId: string, reports: StoredReport[]): StoredReport[] => {
+  let remaining = reports;
+  while (remaining.length > 0) {
+    try {
+      localStorage.setItem(getHistoryKey(analysisId), JSON.stringify(remaining));
+      return remaining;
+    } catch (error) {
+      if (!(error instanceof DOMException && error.name === 'QuotaExceededError')) throw error;
+      remaining = remaining.slice(0, -1);
+    }
+  }
+  localStorage.removeItem(getHistoryKey(analysisId));
+  return [];
+};
+
+/**
+ * Reports generated for an analysis, newest first
+ */
+export const loadReportHistory = (analysisId: string): GeneratedReport[] =>
+  readStoredReports(analysisId).map(fromStoredReport);
+
+/**
+ * Adds a report to the analysis history, keeping the newest REPORT_HISTORY_LIMIT entries
+ */
+export const saveReportToHistory = async (
+  analysisId: string,
+  report: GeneratedReport
+): Promise<GeneratedReport[]> => {
+  const stored = await toStoredReport(report);
+  const reports = [stored, ...readStoredReports(analysisId)].slice(0, REPORT_HISTORY_LIMIT);
+  return writeStoredReports(analysisId, reports).map(fromStoredReport);
+};
+
+export const deleteReportFromHistory = (analysisId: string, reportId: string): GeneratedReport[] =>
+  writeStoredReports(
+    analysisId,
+    readStoredReports(analysisId).filter(report => report.id !== reportId)
+  ).map(fromStoredReport);
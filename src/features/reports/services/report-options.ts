@@ -0,0 +1,25 @@
+import { ReportOptions } from '@/types/types';
+import { DEFAULT_REPORT_OPTIONS } from './report-builder';
+
+const getOptionsKey = (analysisId: string) => `reportOptions-${analysisId}`;
+
+/**
+ * Report builder options last used for an analysis, including its custom sections
+ */
+export const loadReportOptions = (analysisId: string): ReportOptions => {
+  try {
+    const stored = localStorage.getItem(getOptionsKey(analysisId));
+    return stored ? { ...DEFAULT_REPORT_OPTIONS, ...JSON.parse(stored) } : DEFAULT_REPORT_OPTIONS;
+  } catch (error) {
+    console.error('Failed to read report options:', error);
+    return DEFAULT_REPORT_OPTIONS;
+  }
+};
+
+export const saveReportOptions = (analysisId: string, options: ReportOptions) => {
+  try {
+    localStorage.setItem(getOptionsKey(analysisId), JSON.stringify(options));
+  } catch (error) {
+    console.error('Failed to save report options:', error);
+  }
+};
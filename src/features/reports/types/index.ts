@@ -0,0 +1,79 @@
+// Export types for reports
+import { AnalysisType, GeneratedReport, ReportOptions } from '@/types/types';
+
+export interface ReportTable {
+  columns: string[];
+  rows: string[][];
+  caption?: string;
+}
+
+export interface ReportDiagram {
+  svg: string; // Standalone SVG markup
+  width: number;
+  height: number;
+  caption?: string;
+}
+
+/**
+ * Format-independent content of a report section. Renderers (PDF, DOCX, HTML, ...)
+ * map each block kind onto their native equivalent.
+ */
+export type ReportBlock =
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'heading'; text: string }
+  | { kind: 'list'; items: string[] }
+  | { kind: 'table'; table: ReportTable }
+  | { kind: 'diagram'; diagram: ReportDiagram };
+
+/**
+ * Identifies a standard section; custom sections use their own id
+ */
+export type ReportSectionKey =
+  | 'executiveSummary'
+  | 'systemOverview'
+  | 'losses'
+  | 'hazards'
+  | 'constraints'
+  | 'controlStructure'
+  | 'ucas'
+  | 'causalScenarios'
+  | 'requirements'
+  | 'traceability'
+  | 'compliance'
+  | 'metadata';
+
+export interface ReportSection {
+  id: ReportSectionKey | string;
+  title: string;
+  blocks: ReportBlock[];
+  includeInTOC: boolean;
+}
+
+export interface ReportDocument {
+  title: string;
+  subtitle?: string;
+  author?: string;
+  organization?: string;
+  date: string;
+  notes?: string;
+  analysisType: AnalysisType;
+  sections: ReportSection[];
+  completeness: number; // 0-100 percentage
+}
+
+/**
+ * GeneratedReport as persisted in the per-analysis report history.
+ * Binary formats (PDF, DOCX) are stored base64-encoded.
+ */
+export interface StoredReport extends Omit<GeneratedReport, 'content' | 'generatedAt'> {
+  generatedAt: string;
+  content: string;
+  encoding: 'text' | 'base64';
+}
+
+/**
+ * ReportOptions flags that switch a standard section on or off
+ */
+export type ReportSectionOption = {
+  [K in keyof ReportOptions]-?: ReportOptions[K] extends boolean | undefined ? K : never;
+}[keyof ReportOptions];
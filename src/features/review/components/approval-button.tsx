@@ -0,0 +1,32 @@
+import { LockClosedIcon } from '@heroicons/react/24/outline';
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { useAnalysisContext } from '@/context/AnalysisContext';
+import { getApprovalStatus } from '@/utils/approval-workflow';
+import { ReviewStatusBadge } from './partials';
+
+interface ApprovalButtonProps {
+  onClick: () => void;
+}
+
+/**
+ * Header button with the approval status of the analysis
+ */
+const ApprovalButton: React.FC<ApprovalButtonProps> = ({ onClick }) => {
+  const { analysisSession, isLocked } = useAnalysisContext();
+
+  return (
+    <Button
+      variant="ghost"
+      onClick={onClick}
+      title={isLocked ? 'Approved baseline; reopen it to make changes' : 'Approval workflow'}
+      aria-label="Approval"
+      className="gap-1 px-2"
+    >
+      {isLocked && <LockClosedIcon className="h-4 w-4" />}
+      <ReviewStatusBadge status={getApprovalStatus(analysisSession)} />
+    </Button>
+  );
+};
+
+export default ApprovalButton;
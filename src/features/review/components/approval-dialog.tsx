@@ -0,0 +1,166 @@
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/shared';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Textarea } from '@/components/ui/textarea';
+import { useAnalysisContext } from '@/context/AnalysisContext';
+import { SignOffAction } from '@/types/types';
+import { HISTORY_KEYS, HistorySnapshot } from '@/utils/analysis-history';
+import {
+  SIGN_OFF_TRANSITIONS,
+  WORKFLOW_ROLE_LABELS,
+  calculateContentHash,
+  getApprovalSignOff,
+  getApprovalStatus,
+  getSignOffBlocker,
+} from '@/utils/approval-workflow';
+import { useCurrentUser } from '../hooks';
+import { ReviewStatusBadge } from './partials';
+
+interface ApprovalDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onEditIdentity: () => void;
+}
+
+const SIGN_OFF_ACTIONS = Object.keys(SIGN_OFF_TRANSITIONS) as SignOffAction[];
+
+/**
+ * Approval status of the analysis, its sign-offs and the sign-offs the current user can make
+ */
+const ApprovalDialog: React.FC<ApprovalDialogProps> = ({ isOpen, onClose, onEditIdentity }) => {
+  const analysis = useAnalysisContext();
+  const { analysisSession, signOff } = analysis;
+  const user = useCurrentUser();
+  const [comment, setComment] = useState('');
+
+  useEffect(() => {
+    if (isOpen) setComment('');
+  }, [isOpen]);
+
+  const data: HistorySnapshot = Object.fromEntries(HISTORY_KEYS.map(key => [key, analysis[key]]));
+  const contentHash = isOpen ? calculateContentHash(data) : '';
+
+  const approval = analysisSession?.approval;
+  const status = getApprovalStatus(analysisSession);
+  const approvalSignOff = getApprovalSignOff(approval);
+  const signOffs = [...(approval?.signOffs ?? [])].reverse();
+  const actions = SIGN_OFF_ACTIONS.filter(action => SIGN_OFF_TRANSITIONS[action].from === status);
+
+  const handleSignOff = (action: SignOffAction) => {
+    signOff(action, comment);
+    setComment('');
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Approval <ReviewStatusBadge status={status} />
+          </DialogTitle>
+          <DialogDescription>
+            Analysts submit the analysis for review, reviewers sign it off and approvers approve it
+            as a baseline. An approved analysis is locked until an approver reopens it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {approvalSignOff && approvalSignOff.contentHash !== contentHash && (
+          <div className="flex items-start gap-2 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800 dark:bg-amber-900/20 dark:text-amber-300">
+            <ExclamationTriangleIcon className="h-5 w-5 shrink-0" />
+            The analysis no longer matches the content that was approved.
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>Sign-offs</Label>
+          <ScrollArea className="max-h-[35vh]">
+            <ul className="space-y-2 pr-3">
+              {signOffs.length === 0 && (
+                <li className="text-sm text-gray-500">The analysis has not been signed off yet.</li>
+              )}
+              {signOffs.map(entry => (
+                <li key={entry.id} className="rounded-md border p-3 text-sm">
+                  <div className="flex flex-wrap items-baseline justify-between gap-2">
+                    <span className="font-medium">{SIGN_OFF_TRANSITIONS[entry.action].label}</span>
+                    <span className="text-xs text-gray-500">
+                      {new Date(entry.signedAt).toLocaleString()}
+                    </span>
+                  </div>
+                  <p className="text-gray-600 dark:text-gray-400">
+                    {entry.userName} as {WORKFLOW_ROLE_LABELS[entry.role].toLowerCase()}
+                  </p>
+                  {entry.comment && <p className="mt-1 whitespace-pre-wrap">{entry.comment}</p>}
+                  <p className="mt-1 font-mono text-xs text-gray-500">
+                    Content {entry.contentHash}
+                    {entry.contentHash === contentHash
+                      ? ' · matches current content'
+                      : ' · changed since'}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+        </div>
+
+        <div className="space-y-2 border-t pt-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="sign-off-comment">Comment</Label>
+            <button
+              type="button"
+              onClick={onEditIdentity}
+              className="text-xs text-gray-500 underline-offset-2 hover:underline"
+            >
+              Signing as {user.name} (
+              {user.workflowRoles.map(role => WORKFLOW_ROLE_LABELS[role]).join(', ') || 'no roles'})
+            </button>
+          </div>
+          <Textarea
+            id="sign-off-comment"
+            value={comment}
+            onChange={event => setComment(event.target.value)}
+            placeholder="Required to return or reopen the analysis"
+            rows={2}
+          />
+          <div className="flex flex-wrap justify-end gap-2">
+            <Button variant="secondary" onClick={onClose}>
+              Close
+            </Button>
+            {actions.map(action => {
+              const transition = SIGN_OFF_TRANSITIONS[action];
+              const blocker = getSignOffBlocker(
+                approval,
+                action,
+                user.id,
+                user.workflowRoles,
+                contentHash,
+                comment
+              );
+              return (
+                <Button
+                  key={action}
+                  variant={transition.to === 'draft' ? 'danger' : 'primary'}
+                  onClick={() => handleSignOff(action)}
+                  disabled={!!blocker}
+                  title={blocker ?? undefined}
+                >
+                  {transition.label}
+                </Button>
+              );
+            })}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ApprovalDialog;
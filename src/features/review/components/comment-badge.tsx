@@ -0,0 +1,75 @@
+import { ChatBubbleLeftEllipsisIcon } from '@heroicons/react/24/outline';
+import React, { useState } from 'react';
+import { cn } from '@/lib/utils';
+import { AnalysisData, ReviewStatus } from '@/types/types';
+import { useEntityReview } from '../hooks';
+import { REVIEW_STATUS_LABELS } from '../services';
+import EntityCommentsDialog from './entity-comments-dialog';
+
+const STATUS_COLORS: Record<ReviewStatus, string> = {
+  draft: 'bg-gray-300',
+  'in-review': 'bg-blue-500',
+  approved: 'bg-green-500',
+  rejected: 'bg-red-500',
+};
+
+interface CommentBadgeProps {
+  collection: keyof AnalysisData;
+  entityId: string;
+  className?: string;
+}
+
+/**
+ * Count of an entity's open comment threads and its review status; opens its comments
+ */
+const CommentBadge: React.FC<CommentBadgeProps> = ({ collection, entityId, className }) => {
+  const { threads, openThreadCount, status } = useEntityReview(entityId);
+  const [isOpen, setIsOpen] = useState(false);
+
+  const title = [
+    openThreadCount > 0
+      ? `${openThreadCount} open comment thread${openThreadCount !== 1 ? 's' : ''}`
+      : threads.length > 0
+        ? 'All comments resolved'
+        : 'Add a comment',
+    `Review status: ${REVIEW_STATUS_LABELS[status]}`,
+  ].join('\n');
+
+  // Clicks in the dialog reach the parents of the badge through the React tree,
+  // e.g. a table row that opens an editor
+  return (
+    <span
+      className={cn('inline-flex align-middle', className)}
+      onClick={event => event.stopPropagation()}
+    >
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        title={title}
+        aria-label={title}
+        className={cn(
+          'nodrag inline-flex items-center gap-0.5 rounded px-1 text-xs font-medium',
+          openThreadCount > 0
+            ? 'bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-200'
+            : 'text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+        )}
+      >
+        <ChatBubbleLeftEllipsisIcon className="h-3.5 w-3.5" />
+        {openThreadCount > 0 && openThreadCount}
+        {status !== 'draft' && (
+          <span className={cn('h-2 w-2 rounded-full', STATUS_COLORS[status])} />
+        )}
+      </button>
+      {isOpen && (
+        <EntityCommentsDialog
+          collection={collection}
+          entityId={entityId}
+          isOpen={isOpen}
+          onClose={() => setIsOpen(false)}
+        />
+      )}
+    </span>
+  );
+};
+
+export default CommentBadge;
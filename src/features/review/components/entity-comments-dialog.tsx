@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/shared';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { useAnalysisContext } from '@/context/AnalysisContext';
+import { AnalysisData, ReviewStatus } from '@/types/types';
+import { useEntityReview } from '../hooks';
+import {
+  REVIEW_STATUSES,
+  REVIEW_STATUS_LABELS,
+  getCollectionLabel,
+  getReviewedEntityLabel,
+} from '../services';
+import { CommentThreadCard } from './partials';
+
+interface EntityCommentsDialogProps {
+  collection: keyof AnalysisData;
+  entityId: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Review of one entity: its status and comment threads
+ */
+const EntityCommentsDialog: React.FC<EntityCommentsDialogProps> = ({
+  collection,
+  entityId,
+  isOpen,
+  onClose,
+}) => {
+  const analysisData = useAnalysisContext();
+  const { addCommentThread, setReviewStatus } = analysisData;
+  const { threads, status } = useEntityReview(entityId);
+  const [text, setText] = useState('');
+  const label = getReviewedEntityLabel(collection, entityId, analysisData) ?? 'Deleted item';
+
+  const handleStartThread = () => {
+    if (!text.trim()) return;
+    addCommentThread(collection, entityId, text);
+    setText('');
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="truncate">{label}</DialogTitle>
+          <DialogDescription>
+            {getCollectionLabel(collection)}: review and comments
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-3">
+          <Label htmlFor="review-status">Review status</Label>
+          <Select
+            value={status}
+            onValueChange={value => setReviewStatus(collection, entityId, value as ReviewStatus)}
+          >
+            <SelectTrigger id="review-status" className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {REVIEW_STATUSES.map(option => (
+                <SelectItem key={option} value={option}>
+                  {REVIEW_STATUS_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <ScrollArea className="max-h-[50vh]">
+          <div className="space-y-3 pr-3">
+            {threads.length === 0 && <p className="text-sm text-gray-500">No comments yet.</p>}
+            {threads.map(({ thread, comments }) => (
+              <CommentThreadCard key={thread.id} thread={thread} comments={comments} />
+            ))}
+          </div>
+        </ScrollArea>
+
+        <div className="space-y-2 border-t pt-4">
+          <Label htmlFor="new-comment-thread">New comment</Label>
+          <Textarea
+            id="new-comment-thread"
+            value={text}
+            onChange={event => setText(event.target.value)}
+            placeholder="Start a thread…"
+            rows={3}
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="secondary" onClick={onClose}>
+              Close
+            </Button>
+            <Button onClick={handleStartThread} disabled={!text.trim()}>
+              Comment
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EntityCommentsDialog;
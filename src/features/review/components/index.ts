@@ -0,0 +1,9 @@
+// Review components barrel export
+
+export { default as ApprovalButton } from './approval-button';
+export { default as ApprovalDialog } from './approval-dialog';
+export { default as CommentBadge } from './comment-badge';
+export { default as EntityCommentsDialog } from './entity-comments-dialog';
+export { default as OpenCommentsButton } from './open-comments-button';
+export { default as OpenCommentsPanel } from './open-comments-panel';
+export { default as UserIdentityDialog } from './user-identity-dialog';
@@ -0,0 +1,36 @@
+import { ChatBubbleLeftRightIcon } from '@heroicons/react/24/outline';
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { useAnalysisContext } from '@/context/AnalysisContext';
+import { getOpenThreads } from '../services';
+
+interface OpenCommentsButtonProps {
+  onClick: () => void;
+}
+
+/**
+ * Header button with the number of open comment threads in the analysis
+ */
+const OpenCommentsButton: React.FC<OpenCommentsButtonProps> = ({ onClick }) => {
+  const { commentThreads } = useAnalysisContext();
+  const openCount = getOpenThreads(commentThreads).length;
+
+  return (
+    <Button
+      variant="ghost"
+      onClick={onClick}
+      title={`${openCount} open comment thread${openCount !== 1 ? 's' : ''}`}
+      aria-label="Open comments"
+      className="gap-1 px-2"
+    >
+      <ChatBubbleLeftRightIcon className="h-4 w-4" />
+      {openCount > 0 && (
+        <span className="rounded-full bg-amber-100 px-1.5 text-xs font-semibold text-amber-800">
+          {openCount}
+        </span>
+      )}
+    </Button>
+  );
+};
+
+export default OpenCommentsButton;
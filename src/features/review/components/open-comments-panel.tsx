@@ -0,0 +1,138 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { useAnalysisContext } from '@/context/AnalysisContext';
+import { AnalysisData } from '@/types/types';
+import {
+  REVIEW_STATUSES,
+  getCollectionLabel,
+  getOpenThreads,
+  getReviewStatus,
+  getReviewedEntityLabel,
+  getThreadComments,
+} from '../services';
+import EntityCommentsDialog from './entity-comments-dialog';
+import { CommentThreadCard, ReviewStatusBadge } from './partials';
+
+interface OpenCommentsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface ReviewedEntity {
+  collection: keyof AnalysisData;
+  entityId: string;
+}
+
+/**
+ * The unresolved comment threads of the analysis, grouped by entity, with a
+ * summary of review statuses
+ */
+const OpenCommentsPanel: React.FC<OpenCommentsPanelProps> = ({ isOpen, onClose }) => {
+  const analysisData = useAnalysisContext();
+  const { commentThreads, comments, reviewStatuses } = analysisData;
+  const [openedEntity, setOpenedEntity] = useState<ReviewedEntity | null>(null);
+
+  const groups = useMemo(() => {
+    const byEntity = new Map<string, ReviewedEntity & { threadIds: string[] }>();
+    getOpenThreads(commentThreads).forEach(thread => {
+      const group = byEntity.get(thread.entityId) ?? {
+        collection: thread.collection,
+        entityId: thread.entityId,
+        threadIds: [],
+      };
+      group.threadIds.push(thread.id);
+      byEntity.set(thread.entityId, group);
+    });
+    return [...byEntity.values()];
+  }, [commentThreads]);
+
+  const statusCounts = REVIEW_STATUSES.filter(status => status !== 'draft').map(status => ({
+    status,
+    count: reviewStatuses.filter(review => review.status === status).length,
+  }));
+
+  // The sheet is above dialogs, so it closes while the comments of an entity are shown
+  const showEntity = (entity: ReviewedEntity) => {
+    setOpenedEntity(entity);
+    onClose();
+  };
+
+  return (
+    <>
+      <Sheet open={isOpen} onOpenChange={open => !open && onClose()}>
+        <SheetContent className="w-full overflow-y-auto sm:max-w-md">
+          <SheetHeader>
+            <SheetTitle>Open comments</SheetTitle>
+            <SheetDescription>
+              Unresolved review comments in {analysisData.analysisSession?.title || 'this analysis'}
+            </SheetDescription>
+          </SheetHeader>
+
+          <div className="flex flex-wrap gap-2">
+            {statusCounts.map(({ status, count }) => (
+              <span key={status} className="flex items-center gap-1 text-xs text-gray-600">
+                <ReviewStatusBadge status={status} />
+                {count}
+              </span>
+            ))}
+          </div>
+
+          {groups.length === 0 && (
+            <p className="text-sm text-gray-500">There are no open comments.</p>
+          )}
+          <div className="space-y-5">
+            {groups.map(group => {
+              const label = getReviewedEntityLabel(group.collection, group.entityId, analysisData);
+              return (
+                <section key={group.entityId} className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={() => showEntity(group)}
+                      className="min-w-0 truncate text-left text-sm font-semibold hover:underline"
+                      title="Show all comments"
+                    >
+                      {label ?? 'Deleted item'}
+                    </button>
+                    <span className="text-xs text-gray-500">
+                      {getCollectionLabel(group.collection)}
+                    </span>
+                    <ReviewStatusBadge
+                      status={getReviewStatus(reviewStatuses, group.entityId)}
+                      className="ml-auto"
+                    />
+                  </div>
+                  {group.threadIds.map(threadId => (
+                    <CommentThreadCard
+                      key={threadId}
+                      thread={commentThreads.find(thread => thread.id === threadId)!}
+                      comments={getThreadComments(comments, threadId)}
+                      collapsed
+                    />
+                  ))}
+                </section>
+              );
+            })}
+          </div>
+        </SheetContent>
+      </Sheet>
+
+      {openedEntity && (
+        <EntityCommentsDialog
+          collection={openedEntity.collection}
+          entityId={openedEntity.entityId}
+          isOpen
+          onClose={() => setOpenedEntity(null)}
+        />
+      )}
+    </>
+  );
+};
+
+export default OpenCommentsPanel;
@@ -0,0 +1,118 @@
+import { CheckCircleIcon, TrashIcon } from '@heroicons/react/24/outline';
+import React, { useState } from 'react';
+import { Button } from '@/components/shared';
+import { Textarea } from '@/components/ui/textarea';
+import { useAnalysisContext } from '@/context/AnalysisContext';
+import { cn } from '@/lib/utils';
+import { CommentThread, ThreadComment } from '@/types/types';
+import { auditTrail } from '@/utils/audit-trail';
+
+interface CommentThreadCardProps {
+  thread: CommentThread;
+  comments: ThreadComment[];
+  collapsed?: boolean; // First comment only and no reply box, e.g. in lists of threads
+}
+
+const formatTime = (timestamp: string) => new Date(timestamp).toLocaleString();
+
+/**
+ * One thread: its comments, a reply box and resolve/reopen
+ */
+const CommentThreadCard: React.FC<CommentThreadCardProps> = ({
+  thread,
+  comments,
+  collapsed = false,
+}) => {
+  const { replyToCommentThread, resolveCommentThread, reopenCommentThread, deleteComment } =
+    useAnalysisContext();
+  const [reply, setReply] = useState('');
+  const currentUserId = auditTrail.getCurrentUser().id;
+  const shown = collapsed ? comments.slice(0, 1) : comments;
+
+  const handleReply = () => {
+    if (!reply.trim()) return;
+    replyToCommentThread(thread.id, reply);
+    setReply('');
+  };
+
+  return (
+    <div
+      className={cn(
+        'space-y-3 rounded-md border p-3',
+        thread.resolved
+          ? 'border-gray-200 bg-gray-50 dark:border-gray-800 dark:bg-gray-900/50'
+          : 'border-amber-200 bg-white dark:border-amber-900/60 dark:bg-gray-950'
+      )}
+    >
+      <ul className="space-y-3">
+        {shown.map(comment => (
+          <li key={comment.id} className="group text-sm">
+            <div className="flex items-center gap-2 text-xs text-gray-500">
+              <span className="font-medium text-gray-700 dark:text-gray-300">
+                {comment.authorName}
+              </span>
+              <span>{formatTime(comment.createdAt)}</span>
+              {comment.authorId === currentUserId && (
+                <button
+                  type="button"
+                  onClick={() => deleteComment(comment.id)}
+                  className="ml-auto text-gray-400 opacity-0 group-hover:opacity-100 hover:text-red-600"
+                  aria-label="Delete comment"
+                >
+                  <TrashIcon className="h-3.5 w-3.5" />
+                </button>
+              )}
+            </div>
+            <p className="mt-1 whitespace-pre-wrap text-gray-800 dark:text-gray-200">
+              {comment.text}
+            </p>
+          </li>
+        ))}
+      </ul>
+      {collapsed && comments.length > 1 && (
+        <p className="text-xs text-gray-500">
+          {comments.length - 1} {comments.length === 2 ? 'reply' : 'replies'}
+        </p>
+      )}
+
+      {thread.resolved ? (
+        <div className="flex items-center justify-between gap-2 text-xs text-gray-500">
+          <span className="flex items-center gap-1">
+            <CheckCircleIcon className="h-4 w-4 text-green-600" />
+            Resolved by {thread.resolvedBy}
+            {thread.resolvedAt && ` on ${formatTime(thread.resolvedAt)}`}
+          </span>
+          <Button variant="ghost" size="sm" onClick={() => reopenCommentThread(thread.id)}>
+            Reopen
+          </Button>
+        </div>
+      ) : collapsed ? (
+        <div className="flex justify-end">
+          <Button variant="ghost" size="sm" onClick={() => resolveCommentThread(thread.id)}>
+            Resolve
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <Textarea
+            value={reply}
+            onChange={event => setReply(event.target.value)}
+            placeholder="Reply…"
+            rows={2}
+            aria-label="Reply"
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => resolveCommentThread(thread.id)}>
+              Resolve
+            </Button>
+            <Button size="sm" onClick={handleReply} disabled={!reply.trim()}>
+              Reply
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CommentThreadCard;
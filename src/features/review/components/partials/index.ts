@@ -0,0 +1,3 @@
+// Barrel export for review partials
+export { default as CommentThreadCard } from './comment-thread-card';
+export { default as ReviewStatusBadge } from './review-status-badge';
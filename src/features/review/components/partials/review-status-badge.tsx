@@ -0,0 +1,23 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { ReviewStatus } from '@/types/types';
+import { REVIEW_STATUS_COLORS, REVIEW_STATUS_LABELS } from '../../services';
+
+interface ReviewStatusBadgeProps {
+  status: ReviewStatus;
+  className?: string;
+}
+
+const ReviewStatusBadge: React.FC<ReviewStatusBadgeProps> = ({ status, className }) => (
+  <span
+    className={cn(
+      'inline-flex items-center rounded px-2 py-0.5 text-xs font-medium',
+      REVIEW_STATUS_COLORS[status],
+      className
+    )}
+  >
+    {REVIEW_STATUS_LABELS[status]}
+  </span>
+);
+
+export default ReviewStatusBadge;
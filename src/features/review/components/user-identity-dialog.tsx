@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/shared';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { WorkflowRole } from '@/types/types';
+import { WORKFLOW_ROLE_LABELS } from '@/utils/approval-workflow';
+import { auditTrail } from '@/utils/audit-trail';
+import { useCurrentUser } from '../hooks';
+
+interface UserIdentityDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const WORKFLOW_ROLES = Object.keys(WORKFLOW_ROLE_LABELS) as WorkflowRole[];
+
+/**
+ * Name and workflow roles that comments and sign-offs are recorded with
+ */
+const UserIdentityDialog: React.FC<UserIdentityDialogProps> = ({ isOpen, onClose }) => {
+  const user = useCurrentUser();
+  const [name, setName] = useState(user.name);
+  const [title, setTitle] = useState(user.role);
+  const [roles, setRoles] = useState<WorkflowRole[]>(user.workflowRoles);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(user.name);
+    setTitle(user.role);
+    setRoles(user.workflowRoles);
+  }, [isOpen, user]);
+
+  const toggleRole = (role: WorkflowRole, checked: boolean) =>
+    setRoles(prev =>
+      checked
+        ? WORKFLOW_ROLES.filter(r => r === role || prev.includes(r))
+        : prev.filter(r => r !== role)
+    );
+
+  const handleSave = () => {
+    auditTrail.setCurrentUser({
+      name: name.trim() || user.name,
+      role: title.trim(),
+      workflowRoles: roles,
+    });
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Identity & roles</DialogTitle>
+          <DialogDescription>
+            Your comments, sign-offs and changes are recorded in the audit trail under this name.
+            Changes of roles are audited too.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="user-name">Name</Label>
+            <Input id="user-name" value={name} onChange={event => setName(event.target.value)} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="user-title">Job title</Label>
+            <Input id="user-title" value={title} onChange={event => setTitle(event.target.value)} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Workflow roles</Label>
+            {WORKFLOW_ROLES.map(role => (
+              <div key={role} className="flex items-center gap-2">
+                <Checkbox
+                  id={`workflow-role-${role}`}
+                  checked={roles.includes(role)}
+                  onCheckedChange={checked => toggleRole(role, checked === true)}
+                />
+                <Label htmlFor={`workflow-role-${role}`} className="font-normal">
+                  {WORKFLOW_ROLE_LABELS[role]}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default UserIdentityDialog;
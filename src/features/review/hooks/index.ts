@@ -0,0 +1,3 @@
+// Export hooks for review
+export * from './useEntityReview';
+export * from './useCurrentUser';
@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+import { UserIdentity, auditTrail } from '@/utils/audit-trail';
+
+/**
+ * The user that comments, sign-offs and audit events are recorded for
+ */
+export const useCurrentUser = (): UserIdentity => {
+  const [user, setUser] = useState(() => auditTrail.getCurrentUser());
+
+  useEffect(() => auditTrail.subscribeToUser(setUser), []);
+
+  return user;
+};
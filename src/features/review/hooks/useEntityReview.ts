@@ -0,0 +1,25 @@
+import { useMemo } from 'react';
+import { useAnalysisContext } from '@/context/AnalysisContext';
+import { getReviewStatus, getThreadComments } from '../services';
+
+/**
+ * Comment threads and review status of one entity. Open threads come first.
+ */
+export const useEntityReview = (entityId: string) => {
+  const { commentThreads, comments, reviewStatuses } = useAnalysisContext();
+
+  const threads = useMemo(
+    () =>
+      commentThreads
+        .filter(thread => thread.entityId === entityId)
+        .sort((a, b) => Number(a.resolved) - Number(b.resolved))
+        .map(thread => ({ thread, comments: getThreadComments(comments, thread.id) })),
+    [commentThreads, comments, entityId]
+  );
+
+  return {
+    threads,
+    openThreadCount: threads.filter(({ thread }) => !thread.resolved).length,
+    status: getReviewStatus(reviewStatuses, entityId),
+  };
+};
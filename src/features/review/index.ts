@@ -0,0 +1,4 @@
+// Review feature barrel export
+export * from './components';
+export * from './hooks';
+export * from './services';
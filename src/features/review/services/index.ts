@@ -0,0 +1,2 @@
+// Export services for review
+export * from './review';
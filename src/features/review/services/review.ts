@@ -0,0 +1,58 @@
+import { DIFF_COLLECTIONS, getEntityLabel } from '@/features/diff';
+import {
+  AnalysisData,
+  CommentThread,
+  EntityReview,
+  Identifiable,
+  ReviewStatus,
+  ThreadComment,
+} from '@/types/types';
+
+export const REVIEW_STATUSES: ReviewStatus[] = ['draft', 'in-review', 'approved', 'rejected'];
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  draft: 'Draft',
+  'in-review': 'In review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+export const REVIEW_STATUS_COLORS: Record<ReviewStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+  'in-review': 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300',
+  approved: 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300',
+  rejected: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+};
+
+// Entities nobody has reviewed yet are drafts
+export const getReviewStatus = (reviews: EntityReview[], entityId: string): ReviewStatus =>
+  reviews.find(review => review.id === entityId)?.status ?? 'draft';
+
+/**
+ * Comments of a thread, oldest first
+ */
+export const getThreadComments = (comments: ThreadComment[], threadId: string) =>
+  comments
+    .filter(comment => comment.threadId === threadId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+export const getOpenThreads = (threads: CommentThread[], entityId?: string) =>
+  threads.filter(thread => !thread.resolved && (!entityId || thread.entityId === entityId));
+
+/**
+ * Names a commented entity, e.g. "UCA-3 …" or a controller name. Null if the entity
+ * no longer exists.
+ */
+export const getReviewedEntityLabel = (
+  collection: keyof AnalysisData,
+  entityId: string,
+  data: Partial<AnalysisData>
+): string | null => {
+  const known = DIFF_COLLECTIONS.find(candidate => candidate.key === collection);
+  if (!known) return null;
+  const entity = ((data[known.key] || []) as Identifiable[]).find(item => item.id === entityId);
+  return entity ? getEntityLabel(entity, known.key) : null;
+};
+
+export const getCollectionLabel = (collection: keyof AnalysisData) =>
+  DIFF_COLLECTIONS.find(candidate => candidate.key === collection)?.label ?? collection;
@@ -0,0 +1,121 @@
+import { CameraIcon } from '@heroicons/react/24/outline';
+import React, { useState } from 'react';
+import { Button } from '@/components/shared';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { AnalysisSession } from '@/types/types';
+import { createSnapshot } from '../services';
+import { SnapshotDraft } from '../types';
+
+const MILESTONE_NAMES = ['PDR', 'CDR', 'Certification submission'];
+
+const EMPTY_DRAFT: SnapshotDraft = { name: '', description: '' };
+
+interface CreateSnapshotDialogProps {
+  analysis: AnalysisSession | null; // The dialog is open while an analysis is set
+  onClose: () => void;
+}
+
+/**
+ * Names and takes a snapshot of the stored state of an analysis
+ */
+const CreateSnapshotDialog: React.FC<CreateSnapshotDialogProps> = ({ analysis, onClose }) => {
+  const [draft, setDraft] = useState<SnapshotDraft>(EMPTY_DRAFT);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClose = () => {
+    setDraft(EMPTY_DRAFT);
+    setError(null);
+    onClose();
+  };
+
+  const handleCreate = async () => {
+    if (!analysis) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await createSnapshot(analysis, draft);
+      handleClose();
+    } catch (createError) {
+      console.error('Failed to create snapshot:', createError);
+      setError('The snapshot could not be saved. Free up storage space and try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={analysis !== null} onOpenChange={open => !open && handleClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Create Snapshot</DialogTitle>
+          <DialogDescription>
+            Freezes the current state of {analysis?.title || 'this analysis'}. Snapshots cannot be
+            edited; they can be viewed, restored or branched into a new analysis.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="snapshot-name">Name</Label>
+            <Input
+              id="snapshot-name"
+              value={draft.name}
+              placeholder="e.g. PDR baseline"
+              onChange={e => setDraft(previous => ({ ...previous, name: e.target.value }))}
+              autoFocus
+            />
+            <div className="flex flex-wrap gap-1">
+              {MILESTONE_NAMES.map(name => (
+                <button
+                  key={name}
+                  type="button"
+                  onClick={() => setDraft(previous => ({ ...previous, name }))}
+                  className="rounded-full border px-2 py-0.5 text-xs text-gray-600 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-800"
+                >
+                  {name}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="snapshot-description">Description</Label>
+            <Textarea
+              id="snapshot-description"
+              value={draft.description}
+              placeholder="What this snapshot was taken for"
+              onChange={e => setDraft(previous => ({ ...previous, description: e.target.value }))}
+              rows={3}
+            />
+          </div>
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleCreate}
+            disabled={!draft.name.trim() || isSaving}
+            leftIcon={<CameraIcon className="h-4 w-4" />}
+          >
+            {isSaving ? 'Saving…' : 'Create Snapshot'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CreateSnapshotDialog;
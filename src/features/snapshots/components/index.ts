@@ -0,0 +1,5 @@
+// Snapshots components barrel export
+
+export { default as CreateSnapshotDialog } from './create-snapshot-dialog';
+export { default as SnapshotSidebarList } from './snapshot-sidebar-list';
+export { default as SnapshotViewerDialog } from './snapshot-viewer-dialog';
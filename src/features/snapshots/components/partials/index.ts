@@ -0,0 +1,2 @@
+// Barrel export for snapshot partials
+export { default as SnapshotContents } from './snapshot-contents';
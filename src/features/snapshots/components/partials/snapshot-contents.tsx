@@ -0,0 +1,53 @@
+import { ShieldCheckIcon, ShieldExclamationIcon } from '@heroicons/react/24/outline';
+import React from 'react';
+import { AnalysisSnapshot } from '@/utils/analysis-storage';
+import { getSnapshotContents, isSnapshotIntact } from '../../services';
+
+interface SnapshotContentsProps {
+  snapshot: AnalysisSnapshot;
+}
+
+const SnapshotContents: React.FC<SnapshotContentsProps> = ({ snapshot }) => {
+  const contents = getSnapshotContents(snapshot);
+  const isIntact = isSnapshotIntact(snapshot);
+
+  return (
+    <div className="space-y-4">
+      {snapshot.description && (
+        <p className="text-sm whitespace-pre-wrap text-gray-700 dark:text-gray-300">
+          {snapshot.description}
+        </p>
+      )}
+
+      <div
+        className={`flex items-center gap-2 text-sm ${
+          isIntact ? 'text-green-700 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+        }`}
+      >
+        {isIntact ? (
+          <ShieldCheckIcon className="h-4 w-4" />
+        ) : (
+          <ShieldExclamationIcon className="h-4 w-4" />
+        )}
+        {isIntact
+          ? `Checksum ${snapshot.checksum} verified`
+          : `The stored data no longer matches checksum ${snapshot.checksum}`}
+      </div>
+
+      {contents.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">The analysis was empty.</p>
+      ) : (
+        <dl className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+          {contents.map(({ label, count }) => (
+            <div key={label} className="rounded-md border px-3 py-2">
+              <dt className="text-xs text-gray-500 dark:text-gray-400">{label}</dt>
+              <dd className="text-lg font-semibold">{count}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+};
+
+export default SnapshotContents;
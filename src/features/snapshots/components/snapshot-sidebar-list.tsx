@@ -0,0 +1,39 @@
+import { CameraIcon } from '@heroicons/react/24/outline';
+import React from 'react';
+import { SidebarMenuSub, SidebarMenuSubButton, SidebarMenuSubItem } from '@/components/ui/sidebar';
+import { AnalysisSnapshot } from '@/utils/analysis-storage';
+import { useAnalysisSnapshots } from '../hooks';
+
+interface SnapshotSidebarListProps {
+  analysisId: string;
+  onOpen: (snapshot: AnalysisSnapshot) => void;
+}
+
+/**
+ * Snapshots of an analysis, listed below its steps in the sidebar
+ */
+const SnapshotSidebarList: React.FC<SnapshotSidebarListProps> = ({ analysisId, onOpen }) => {
+  const snapshots = useAnalysisSnapshots(analysisId);
+  if (snapshots.length === 0) return null;
+
+  return (
+    <SidebarMenuSub>
+      <li className="text-muted-foreground px-2 pt-2 pb-1 text-xs font-medium">Snapshots</li>
+      {snapshots.map(snapshot => (
+        <SidebarMenuSubItem key={snapshot.id}>
+          <SidebarMenuSubButton
+            onClick={() => onOpen(snapshot)}
+            title={`${snapshot.author}, ${new Date(snapshot.createdAt).toLocaleString()}`}
+            size="sm"
+            className="flex w-full items-center gap-1"
+          >
+            <CameraIcon className="h-3 w-3 shrink-0" />
+            <span className="block truncate">{snapshot.name}</span>
+          </SidebarMenuSubButton>
+        </SidebarMenuSubItem>
+      ))}
+    </SidebarMenuSub>
+  );
+};
+
+export default SnapshotSidebarList;
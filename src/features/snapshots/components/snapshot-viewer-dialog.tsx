@@ -0,0 +1,205 @@
+import {
+  ArrowUturnLeftIcon,
+  DocumentTextIcon,
+  ListBulletIcon,
+  Square2StackIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/shared';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { buildReportDocument, DEFAULT_REPORT_OPTIONS, renderReportHTML } from '@/features/reports';
+import { AnalysisSnapshot } from '@/utils/analysis-storage';
+import { useSnapshotActions } from '../hooks';
+import { deleteSnapshot, getBranchTitle, toSnapshotAnalysisData } from '../services';
+import { SnapshotContents } from './partials';
+
+type ViewerTab = 'contents' | 'report';
+type PendingAction = 'restore' | 'delete' | null;
+
+interface SnapshotViewerDialogProps {
+  snapshot: AnalysisSnapshot | null; // The dialog is open while a snapshot is set
+  onClose: () => void;
+}
+
+/**
+ * Read-only view of a snapshot, from which it can be restored into its analysis,
+ * branched into a new analysis or deleted
+ */
+const SnapshotViewerDialog: React.FC<SnapshotViewerDialogProps> = ({ snapshot, onClose }) => {
+  const { canRestore, restoreSnapshot, branchSnapshot } = useSnapshotActions();
+  const [tab, setTab] = useState<ViewerTab>('contents');
+  const [branchTitle, setBranchTitle] = useState<string | null>(null); // Set while branching
+  const [pendingAction, setPendingAction] = useState<PendingAction>(null);
+
+  const report = useMemo(() => {
+    if (!snapshot || tab !== 'report') return '';
+    return renderReportHTML(
+      buildReportDocument(toSnapshotAnalysisData(snapshot), {
+        ...DEFAULT_REPORT_OPTIONS,
+        format: 'html',
+        customSubtitle: `Snapshot: ${snapshot.name}`,
+        customDate: new Date(snapshot.createdAt).toLocaleDateString(),
+      })
+    );
+  }, [snapshot, tab]);
+
+  const handleClose = () => {
+    setTab('contents');
+    setBranchTitle(null);
+    setPendingAction(null);
+    onClose();
+  };
+
+  const handleConfirm = async () => {
+    if (!snapshot) return;
+    if (pendingAction === 'restore') {
+      restoreSnapshot(snapshot);
+      handleClose();
+    } else if (pendingAction === 'delete') {
+      try {
+        await deleteSnapshot(snapshot);
+        handleClose();
+      } catch (error) {
+        console.error('Failed to delete snapshot:', error);
+      }
+    }
+  };
+
+  const handleBranch = () => {
+    if (!snapshot || !branchTitle?.trim()) return;
+    branchSnapshot(snapshot, branchTitle);
+    handleClose();
+  };
+
+  const isRestorable = !!snapshot && canRestore(snapshot);
+
+  return (
+    <>
+      <Dialog open={snapshot !== null} onOpenChange={open => !open && handleClose()}>
+        <DialogContent className="sm:max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>Snapshot: {snapshot?.name}</DialogTitle>
+            <DialogDescription>
+              {snapshot &&
+                `${snapshot.session.title} as of ${new Date(
+                  snapshot.createdAt
+                ).toLocaleString()}, taken by ${snapshot.author}. Read-only.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {snapshot && branchTitle !== null ? (
+            <div className="space-y-2">
+              <Label htmlFor="branch-title">New analysis title</Label>
+              <Input
+                id="branch-title"
+                value={branchTitle}
+                onChange={e => setBranchTitle(e.target.value)}
+                autoFocus
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                The new analysis starts from the data of this snapshot; the original analysis is not
+                changed.
+              </p>
+            </div>
+          ) : (
+            snapshot && (
+              <Tabs value={tab} onValueChange={value => setTab(value as ViewerTab)}>
+                <TabsList>
+                  <TabsTrigger value="contents">
+                    <ListBulletIcon className="mr-1 h-4 w-4" />
+                    Contents
+                  </TabsTrigger>
+                  <TabsTrigger value="report">
+                    <DocumentTextIcon className="mr-1 h-4 w-4" />
+                    Report
+                  </TabsTrigger>
+                </TabsList>
+                <TabsContent value="contents">
+                  <ScrollArea className="h-[30rem] rounded-md border p-4">
+                    <SnapshotContents snapshot={snapshot} />
+                  </ScrollArea>
+                </TabsContent>
+                <TabsContent value="report">
+                  <iframe
+                    title="Snapshot report"
+                    srcDoc={report}
+                    sandbox="allow-same-origin"
+                    className="h-[30rem] w-full rounded-md border bg-white"
+                  />
+                </TabsContent>
+              </Tabs>
+            )
+          )}
+
+          <DialogFooter>
+            {branchTitle !== null ? (
+              <>
+                <Button variant="ghost" onClick={() => setBranchTitle(null)}>
+                  Back
+                </Button>
+                <Button onClick={handleBranch} disabled={!branchTitle.trim()}>
+                  Create Analysis
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button
+                  variant="danger"
+                  onClick={() => setPendingAction('delete')}
+                  leftIcon={<TrashIcon className="h-4 w-4" />}
+                  className="sm:mr-auto"
+                >
+                  Delete
+                </Button>
+                <Button
+                  variant="secondary"
+                  onClick={() => setPendingAction('restore')}
+                  disabled={!isRestorable}
+                  title={isRestorable ? undefined : 'Open the analysis to restore this snapshot'}
+                  leftIcon={<ArrowUturnLeftIcon className="h-4 w-4" />}
+                >
+                  Restore
+                </Button>
+                <Button
+                  onClick={() => snapshot && setBranchTitle(getBranchTitle(snapshot))}
+                  leftIcon={<Square2StackIcon className="h-4 w-4" />}
+                >
+                  Branch into New Analysis
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmationDialog
+        open={pendingAction !== null}
+        onOpenChange={open => !open && setPendingAction(null)}
+        title={pendingAction === 'restore' ? 'Restore Snapshot' : 'Delete Snapshot'}
+        description={
+          pendingAction === 'restore'
+            ? `All data of ${snapshot?.session.title} will be replaced with snapshot "${snapshot?.name}". The restore can be undone.`
+            : `Snapshot "${snapshot?.name}" will be permanently deleted. The analysis itself is not changed.`
+        }
+        confirmText={pendingAction === 'restore' ? 'Restore' : 'Delete Snapshot'}
+        onConfirm={handleConfirm}
+        variant={pendingAction === 'restore' ? 'default' : 'destructive'}
+      />
+    </>
+  );
+};
+
+export default SnapshotViewerDialog;
@@ -0,0 +1,3 @@
+// Export hooks for snapshots
+export * from './useAnalysisSnapshots';
+export * from './useSnapshotActions';
@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import { AnalysisSnapshot } from '@/utils/analysis-storage';
+import { loadSnapshots, subscribeToSnapshots } from '../services';
+
+/**
+ * Snapshots of an analysis, newest first, refreshed whenever one is taken or deleted
+ */
+export const useAnalysisSnapshots = (analysisId: string | undefined) => {
+  const [snapshots, setSnapshots] = useState<AnalysisSnapshot[]>([]);
+
+  useEffect(() => {
+    if (!analysisId) {
+      setSnapshots([]);
+      return;
+    }
+
+    let cancelled = false;
+    const refresh = () =>
+      loadSnapshots(analysisId)
+        .then(loaded => {
+          if (!cancelled) setSnapshots(loaded);
+        })
+        .catch(error => console.error('Failed to load snapshots:', error));
+    refresh();
+    const unsubscribe = subscribeToSnapshots(changedId => {
+      if (changedId === analysisId) refresh();
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [analysisId]);
+
+  return snapshots;
+};
@@ -0,0 +1,72 @@
+import { useNavigate } from 'react-router-dom';
+import { useProjects } from '@/context/ProjectsContext';
+import { useAnalysis } from '@/hooks/useAnalysis';
+import { AnalysisType } from '@/types/types';
+import { AnalysisSnapshot, analysisStorage } from '@/utils/analysis-storage';
+import { auditTrail } from '@/utils/audit-trail';
+
+/**
+ * Restores a snapshot into its analysis, or branches it into a new analysis
+ */
+export const useSnapshotActions = () => {
+  const { currentProject, createAnalysis, updateAnalysis } = useProjects();
+  const { analysisSession, restoreAnalysisData } = useAnalysis();
+  const navigate = useNavigate();
+
+  // Restoring goes through the undo history, so only the open analysis can be restored
+  const canRestore = (snapshot: AnalysisSnapshot) => analysisSession?.id === snapshot.analysisId;
+
+  const restoreSnapshot = (snapshot: AnalysisSnapshot) => {
+    if (!canRestore(snapshot)) return;
+
+    // Recorded first, so the undo step is labelled with it
+    auditTrail.recordEvent({
+      eventType: 'SNAPSHOT_RESTORED',
+      entityType: 'ANALYSIS',
+      entityId: snapshot.analysisId,
+      action: 'RESTORE',
+      description: `Restored snapshot: ${snapshot.name}`,
+      newValue: { snapshotId: snapshot.id, name: snapshot.name, checksum: snapshot.checksum },
+      metadata: { changeSize: 'critical', automatedAction: false },
+    });
+    // A copy, so later edits never share objects with the stored snapshot
+    restoreAnalysisData(structuredClone(snapshot.data));
+  };
+
+  const branchSnapshot = (snapshot: AnalysisSnapshot, title: string) => {
+    if (!currentProject) return;
+
+    const newAnalysis = createAnalysis(
+      currentProject.id,
+      snapshot.session.analysisType || AnalysisType.STPA,
+      title.trim()
+    );
+    // Saved before AnalysisContext reacts to the selection change, so the new analysis loads it
+    analysisStorage
+      .saveAnalysis({
+        analysisId: newAnalysis.id,
+        updatedAt: new Date().toISOString(),
+        data: snapshot.data,
+      })
+      .catch(error => console.error('Failed to save branched analysis data:', error));
+    if (snapshot.session.scope) {
+      updateAnalysis(currentProject.id, newAnalysis.id, { scope: snapshot.session.scope });
+    }
+
+    auditTrail.recordEvent({
+      eventType: 'SNAPSHOT_BRANCHED',
+      entityType: 'ANALYSIS',
+      entityId: snapshot.analysisId,
+      action: 'BRANCH',
+      description: `Branched snapshot ${snapshot.name} into analysis: ${newAnalysis.title}`,
+      newValue: { snapshotId: snapshot.id, analysisId: newAnalysis.id },
+      metadata: { changeSize: 'major', automatedAction: false },
+    });
+
+    const projectSlug = encodeURIComponent(currentProject.name.toLowerCase().replace(/\s+/g, '-'));
+    const analysisSlug = encodeURIComponent(newAnalysis.title.toLowerCase().replace(/\s+/g, '-'));
+    navigate(`/${projectSlug}/${analysisSlug}`);
+  };
+
+  return { canRestore, restoreSnapshot, branchSnapshot };
+};
@@ -0,0 +1,2 @@
+// Export services for snapshots
+export * from './snapshot-service';
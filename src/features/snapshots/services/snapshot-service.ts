@@ -0,0 +1,104 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ENTITY_COLLECTION_LABELS, EntityCollection } from '@/features/dependencies';
+import { AnalysisData, AnalysisSession } from '@/types/types';
+import { AnalysisSnapshot, analysisStorage, withDocumentDefaults } from '@/utils/analysis-storage';
+import { auditTrail } from '@/utils/audit-trail';
+import { storageManager } from '@/utils/storage-manager';
+import { SnapshotContentCount, SnapshotDraft } from '../types';
+
+const listeners = new Set<(analysisId: string) => void>();
+
+/**
+ * Subscribe to snapshots being taken or deleted; listeners receive the analysis id.
+ * Returns the unsubscribe function.
+ */
+export const subscribeToSnapshots = (listener: (analysisId: string) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notifyListeners = (analysisId: string) => listeners.forEach(listener => listener(analysisId));
+
+export const loadSnapshots = (analysisId: string) => analysisStorage.loadSnapshots(analysisId);
+
+/**
+ * Freezes the stored data of an analysis under a name. Reads from storage rather
+ * than the context, so any analysis can be captured, loaded or not.
+ */
+export const createSnapshot = async (
+  analysis: AnalysisSession,
+  draft: SnapshotDraft
+): Promise<AnalysisSnapshot> => {
+  const document = await analysisStorage.loadAnalysis(analysis.id);
+  const data = withDocumentDefaults(document?.data ?? {});
+  const snapshot: AnalysisSnapshot = {
+    id: uuidv4(),
+    analysisId: analysis.id,
+    name: draft.name.trim(),
+    description: draft.description.trim() || undefined,
+    author: auditTrail.getCurrentUser().name,
+    createdAt: new Date().toISOString(),
+    session: analysis,
+    data,
+    checksum: storageManager.calculateChecksum(data),
+  };
+  await analysisStorage.saveSnapshot(snapshot);
+
+  auditTrail.recordEvent({
+    eventType: 'SNAPSHOT_CREATED',
+    entityType: 'ANALYSIS',
+    entityId: analysis.id,
+    action: 'CREATE',
+    description: `Created snapshot: ${snapshot.name}`,
+    newValue: { snapshotId: snapshot.id, name: snapshot.name, checksum: snapshot.checksum },
+    metadata: { changeSize: 'minor', automatedAction: false },
+  });
+  notifyListeners(analysis.id);
+  return snapshot;
+};
+
+export const deleteSnapshot = async (snapshot: AnalysisSnapshot) => {
+  await analysisStorage.deleteSnapshot(snapshot.analysisId, snapshot.id);
+
+  auditTrail.recordEvent({
+    eventType: 'SNAPSHOT_DELETED',
+    entityType: 'ANALYSIS',
+    entityId: snapshot.analysisId,
+    action: 'DELETE',
+    description: `Deleted snapshot: ${snapshot.name}`,
+    oldValue: { snapshotId: snapshot.id, name: snapshot.name, checksum: snapshot.checksum },
+    metadata: { changeSize: 'major', automatedAction: false },
+  });
+  notifyListeners(snapshot.analysisId);
+};
+
+/**
+ * Whether the stored data still matches the checksum taken with the snapshot
+ */
+export const isSnapshotIntact = (snapshot: AnalysisSnapshot) =>
+  storageManager.calculateChecksum(snapshot.data) === snapshot.checksum;
+
+/**
+ * The snapshot as analysis data, e.g. to build a report of it
+ */
+export const toSnapshotAnalysisData = (snapshot: AnalysisSnapshot): AnalysisData =>
+  ({ ...snapshot.data, analysisSession: snapshot.session }) as unknown as AnalysisData;
+
+/**
+ * Entity counts of the non-empty collections in a snapshot
+ */
+export const getSnapshotContents = (snapshot: AnalysisSnapshot): SnapshotContentCount[] =>
+  (Object.keys(ENTITY_COLLECTION_LABELS) as EntityCollection[])
+    .map(collection => {
+      const entities = snapshot.data[collection];
+      return {
+        label: ENTITY_COLLECTION_LABELS[collection].plural,
+        count: Array.isArray(entities) ? entities.length : 0,
+      };
+    })
+    .filter(content => content.count > 0);
+
+export const getBranchTitle = (snapshot: AnalysisSnapshot) =>
+  `${snapshot.session.title} (${snapshot.name})`;
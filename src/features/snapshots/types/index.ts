@@ -0,0 +1,15 @@
+// Export types for snapshots
+export type { AnalysisSnapshot } from '@/utils/analysis-storage';
+
+export interface SnapshotDraft {
+  name: string;
+  description: string;
+}
+
+/**
+ * Number of entities in one collection of a snapshot
+ */
+export interface SnapshotContentCount {
+  label: string;
+  count: number;
+}
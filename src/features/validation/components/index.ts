@@ -0,0 +1,3 @@
+// Validation components barrel export
+
+export { default as ValidationRulesDialog } from './validation-rules-dialog';
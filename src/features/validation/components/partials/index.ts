@@ -0,0 +1,2 @@
+// Barrel export for validation partials
+export { default as ValidationRuleRow } from './validation-rule-row';
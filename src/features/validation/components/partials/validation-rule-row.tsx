@@ -0,0 +1,121 @@
+import { CheckCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import React, { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { cn } from '@/lib/utils';
+import { ValidationRuleOverride } from '@/types/types';
+import { ValidationRule, ValidationRuleResult } from '@/utils/validation-rules';
+
+interface ValidationRuleRowProps {
+  rule: ValidationRule;
+  enabled: boolean;
+  threshold?: number;
+  result?: ValidationRuleResult; // Unset for disabled rules and rules that don't apply
+  onChange: (override: ValidationRuleOverride) => void;
+}
+
+const SEVERITY_COLORS: Record<ValidationRule['severity'], string> = {
+  critical: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+  high: 'bg-orange-100 text-orange-700 dark:bg-orange-900/40 dark:text-orange-300',
+  medium: 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300',
+  low: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+};
+
+const MAX_MESSAGES = 5;
+
+/**
+ * One rule: whether it is enabled, its threshold and what it found in the analysis
+ */
+const ValidationRuleRow: React.FC<ValidationRuleRowProps> = ({
+  rule,
+  enabled,
+  threshold,
+  result,
+  onChange,
+}) => {
+  const [thresholdText, setThresholdText] = useState(String(threshold ?? ''));
+
+  useEffect(() => setThresholdText(String(threshold ?? '')), [threshold]);
+
+  // Saved when the field is left, so each edit is audited once
+  const commitThreshold = () => {
+    const value = Number(thresholdText);
+    if (thresholdText.trim() === '' || Number.isNaN(value) || value < 0) {
+      setThresholdText(String(threshold ?? ''));
+    } else if (value !== threshold) {
+      onChange({ threshold: value });
+    }
+  };
+
+  return (
+    <li className="space-y-2 p-3">
+      <div className="flex items-start gap-3">
+        <Switch
+          id={`validation-rule-${rule.id}`}
+          checked={enabled}
+          onCheckedChange={checked => onChange({ enabled: checked })}
+          className="mt-0.5"
+        />
+        <label htmlFor={`validation-rule-${rule.id}`} className="min-w-0 flex-1 text-sm">
+          <span className="font-medium">{rule.title}</span>
+          <span className="ml-2 font-mono text-xs text-gray-500">{rule.id}</span>
+        </label>
+        <span
+          className={cn(
+            'rounded px-2 py-0.5 text-xs font-medium capitalize',
+            SEVERITY_COLORS[rule.severity]
+          )}
+        >
+          {rule.severity}
+        </span>
+      </div>
+
+      {rule.threshold && (
+        <div className="flex items-center gap-2 pl-12 text-sm">
+          <label htmlFor={`validation-threshold-${rule.id}`} className="text-gray-600">
+            {rule.threshold.label}
+          </label>
+          <Input
+            id={`validation-threshold-${rule.id}`}
+            type="number"
+            min={0}
+            value={thresholdText}
+            onChange={event => setThresholdText(event.target.value)}
+            onBlur={commitThreshold}
+            onKeyDown={event => event.key === 'Enter' && commitThreshold()}
+            disabled={!enabled}
+            className="h-8 w-20"
+          />
+          <span className="text-gray-500">{rule.threshold.unit}</span>
+        </div>
+      )}
+
+      {result && (
+        <div className="pl-12 text-sm">
+          {result.passed ? (
+            <p className="flex items-center gap-1 text-green-700 dark:text-green-400">
+              <CheckCircleIcon className="h-4 w-4" /> Passed
+            </p>
+          ) : (
+            <div className="text-amber-800 dark:text-amber-300">
+              <p className="flex items-center gap-1">
+                <ExclamationTriangleIcon className="h-4 w-4" />
+                {result.messages.length} issue{result.messages.length !== 1 ? 's' : ''}
+              </p>
+              <ul className="list-disc pl-5">
+                {result.messages.slice(0, MAX_MESSAGES).map(message => (
+                  <li key={message}>{message}</li>
+                ))}
+                {result.messages.length > MAX_MESSAGES && (
+                  <li>and {result.messages.length - MAX_MESSAGES} more</li>
+                )}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </li>
+  );
+};
+
+export default ValidationRuleRow;
@@ -0,0 +1,84 @@
+import React from 'react';
+import { Button } from '@/components/shared';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  VALIDATION_RULES,
+  VALIDATION_RULE_SCOPE_LABELS,
+  ValidationRuleScope,
+  getRuleThreshold,
+  isRuleEnabled,
+} from '@/utils/validation-rules';
+import { useValidationRules } from '../hooks';
+import { ValidationRuleRow } from './partials';
+
+interface ValidationRulesDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const SCOPES = Object.keys(VALIDATION_RULE_SCOPE_LABELS) as ValidationRuleScope[];
+
+/**
+ * Validation rules of the project, with their results on the open analysis
+ */
+const ValidationRulesDialog: React.FC<ValidationRulesDialogProps> = ({ isOpen, onClose }) => {
+  const { settings, results, updateRule, resetRules } = useValidationRules();
+  const passed = results.filter(result => result.passed).length;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Validation Rules</DialogTitle>
+          <DialogDescription>
+            Rules apply to every analysis of this project and determine its completeness in reports.
+            This analysis passes {passed} of {results.length} enabled rules.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[60vh]">
+          <div className="space-y-4 pr-3">
+            {SCOPES.map(scope => (
+              <section key={scope} className="space-y-2">
+                <h3 className="text-sm font-semibold">{VALIDATION_RULE_SCOPE_LABELS[scope]}</h3>
+                <ul className="divide-y rounded-md border">
+                  {VALIDATION_RULES.filter(rule => rule.scope === scope).map(rule => (
+                    <ValidationRuleRow
+                      key={rule.id}
+                      rule={rule}
+                      enabled={isRuleEnabled(rule, settings)}
+                      threshold={getRuleThreshold(rule, settings)}
+                      result={results.find(result => result.rule.id === rule.id)}
+                      onChange={override => updateRule(rule.id, override)}
+                    />
+                  ))}
+                </ul>
+              </section>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button
+            variant="secondary"
+            onClick={resetRules}
+            disabled={Object.keys(settings).length === 0}
+          >
+            Reset to defaults
+          </Button>
+          <Button onClick={onClose}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ValidationRulesDialog;
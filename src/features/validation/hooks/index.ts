@@ -0,0 +1,2 @@
+// Export hooks for validation
+export * from './useValidationRules';
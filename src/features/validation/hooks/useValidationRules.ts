@@ -0,0 +1,45 @@
+import { useAnalysisContext } from '@/context/AnalysisContext';
+import { useProjects } from '@/context/ProjectsContext';
+import { ValidationRuleOverride, ValidationRuleSettings } from '@/types/types';
+import { auditTrail } from '@/utils/audit-trail';
+import { runValidationRules } from '@/utils/validation-rules';
+
+/**
+ * Validation rule settings of the current project and the results of its enabled
+ * rules on the open analysis
+ */
+export const useValidationRules = () => {
+  const { currentProject, updateProject } = useProjects();
+  const analysis = useAnalysisContext();
+  const settings = analysis.validationRules;
+
+  const saveSettings = (next: ValidationRuleSettings, description: string) => {
+    if (!currentProject) return;
+    updateProject(currentProject.id, { validationRules: next });
+    auditTrail.recordEvent({
+      eventType: 'VALIDATION_RULES_CHANGED',
+      entityType: 'PROJECT',
+      entityId: currentProject.id,
+      action: 'UPDATE',
+      description,
+      oldValue: settings,
+      newValue: next,
+      metadata: { changeSize: 'major', automatedAction: false },
+    });
+  };
+
+  const updateRule = (ruleId: string, override: ValidationRuleOverride) =>
+    saveSettings(
+      { ...settings, [ruleId]: { ...settings[ruleId], ...override } },
+      `Changed validation rule ${ruleId}`
+    );
+
+  const resetRules = () => saveSettings({}, 'Reset validation rules to their defaults');
+
+  return {
+    settings,
+    results: runValidationRules(analysis, settings),
+    updateRule,
+    resetRules,
+  };
+};
@@ -0,0 +1,3 @@
+// Validation feature barrel export
+export * from './components';
+export * from './hooks';
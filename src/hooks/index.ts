@@ -3,4 +3,5 @@
 export * from './useAnalysis';
 export * from './useCollapsibleAnimation';
 export * from './useOptimizedState';
+export * from './useUndoRedoShortcuts';
 export * from './use-mobile';
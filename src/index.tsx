@@ -2,6 +2,7 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import { BrowserRouter } from 'react-router-dom';
 import { AnalysisProvider } from '@/context/AnalysisContext';
+import { CollaborationProvider } from '@/context/CollaborationContext';
 import { ProjectsProvider } from '@/context/ProjectsContext';
 import App from './App';
 import '@/styles/main.css';
@@ -17,7 +18,9 @@ root.render(
     <BrowserRouter basename={import.meta.env.BASE_URL}>
       <ProjectsProvider>
         <AnalysisProvider>
-          <App />
+          <CollaborationProvider>
+            <App />
+          </CollaborationProvider>
         </AnalysisProvider>
       </ProjectsProvider>
     </BrowserRouter>
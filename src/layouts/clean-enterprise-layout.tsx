@@ -11,6 +11,15 @@ import {
   ArrowRightOnRectangleIcon,
   CreditCardIcon,
   BellIcon,
+  DocumentChartBarIcon,
+  ClockIcon,
+  ArrowUturnLeftIcon,
+  ArrowUturnRightIcon,
+  CameraIcon,
+  ArrowsRightLeftIcon,
+  UserCircleIcon,
+  ClipboardDocumentCheckIcon,
+  AdjustmentsHorizontalIcon,
 } from '@heroicons/react/24/outline';
 import { ChevronsUpDown } from 'lucide-react';
 import React, { useEffect, useState, useRef } from 'react';
@@ -23,6 +32,7 @@ import {
   AnimatedCollapsibleItem,
   AnimatedChevron,
 } from '@/components/ui/animated-collapsible';
+import { Button } from '@/components/ui/button';
 import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
 import {
   DropdownMenu,
@@ -49,18 +59,39 @@ import {
   SidebarMenuAction,
   SidebarHeader,
 } from '@/components/ui/sidebar';
-import { Skeleton } from '@/components/ui/skeleton';
 import { useNavigation, AnalysisStep } from '@/context/NavigationContext';
 import { useProjects } from '@/context/ProjectsContext';
+import { AuditTrailDialog } from '@/features/audit';
+import { CollaborationButton, CollaborationDialog } from '@/features/collaboration';
+import { ComplianceDialog } from '@/features/compliance';
+import { CompareAnalysesDialog } from '@/features/diff';
 import { ProjectSwitcher, NewAnalysisButton, EmptyStateView } from '@/features/projects';
-import { useAnalysis } from '@/hooks/useAnalysis';
-import { AnalysisType } from '@/types/types';
-import { APP_TITLE } from '@/utils/constants';
 import {
-  exportAnalysisAsJSON,
-  exportAnalysisAsPDF,
   exportAnalysisAsDOCX,
-} from '@/utils/report-export';
+  exportAnalysisAsPDF,
+  ReportBuilderDialog,
+  saveReportToHistory,
+} from '@/features/reports';
+import {
+  ApprovalButton,
+  ApprovalDialog,
+  OpenCommentsButton,
+  OpenCommentsPanel,
+  UserIdentityDialog,
+  useCurrentUser,
+} from '@/features/review';
+import {
+  CreateSnapshotDialog,
+  SnapshotSidebarList,
+  SnapshotViewerDialog,
+} from '@/features/snapshots';
+import { ValidationRulesDialog } from '@/features/validation';
+import { useAnalysis } from '@/hooks/useAnalysis';
+import { useUndoRedoShortcuts } from '@/hooks/useUndoRedoShortcuts';
+import { AnalysisSession, AnalysisType } from '@/types/types';
+import { AnalysisSnapshot } from '@/utils/analysis-storage';
+import { APP_TITLE } from '@/utils/constants';
+import { exportAnalysisAsJSON } from '@/utils/report-export';
 
 // Icon mapping for steps
 const stepIcons: Record<AnalysisStep, React.ComponentType<any>> = {
@@ -84,6 +115,14 @@ const ANALYSIS_STEPS: { step: AnalysisStep; title: string; shortTitle: string }[
   { step: 'requirements', title: 'Requirements / Mitigations', shortTitle: 'Reqs/Mitigs' },
 ];
 
+const getInitials = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part[0].toUpperCase())
+    .join('');
+
 const CleanEnterpriseLayout: React.FC = () => {
   const analysisData = useAnalysis();
   const {
@@ -92,11 +131,19 @@ const CleanEnterpriseLayout: React.FC = () => {
     castStep2SubStep,
     setCastStep2SubStep,
     updateAnalysisSession,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    undoLabel,
+    redoLabel,
   } = analysisData;
   const { currentProject, deleteAnalysis, selectAnalysis, updateAnalysis, reorderAnalyses } =
     useProjects();
   const { currentStep, navigateToStep, resetNavigation } = useNavigation();
   const navigate = useNavigate();
+  const currentUser = useCurrentUser();
+  useUndoRedoShortcuts();
 
   const [expandedAnalyses, setExpandedAnalyses] = useState<Set<string>>(new Set());
   const [renamingAnalysisId, setRenamingAnalysisId] = useState<string | null>(null);
@@ -108,6 +155,17 @@ const CleanEnterpriseLayout: React.FC = () => {
     null
   );
   const [isReordering, setIsReordering] = useState(false);
+  const [reportBuilderOpen, setReportBuilderOpen] = useState(false);
+  const [auditTrailOpen, setAuditTrailOpen] = useState(false);
+  const [complianceOpen, setComplianceOpen] = useState(false);
+  const [validationRulesOpen, setValidationRulesOpen] = useState(false);
+  const [snapshotAnalysis, setSnapshotAnalysis] = useState<AnalysisSession | null>(null);
+  const [openedSnapshot, setOpenedSnapshot] = useState<AnalysisSnapshot | null>(null);
+  const [compareAnalysisId, setCompareAnalysisId] = useState<string | null>(null);
+  const [collaborationOpen, setCollaborationOpen] = useState(false);
+  const [openCommentsOpen, setOpenCommentsOpen] = useState(false);
+  const [approvalOpen, setApprovalOpen] = useState(false);
+  const [userIdentityOpen, setUserIdentityOpen] = useState(false);
   const [activeWorkspaceSection, setActiveWorkspaceSection] = useState('components');
   const [activeUCASection, setActiveUCASection] = useState('ucas');
   const expandedAnalysesRef = useRef<Set<string>>(expandedAnalyses);
@@ -266,6 +324,28 @@ const CleanEnterpriseLayout: React.FC = () => {
     }
   };
 
+  const handleExportPDF = () => {
+    exportAnalysisAsPDF(analysisData)
+      .then(report => {
+        if (analysisSession) return saveReportToHistory(analysisSession.id, report);
+      })
+      .catch(error => {
+        console.error('PDF export failed:', error);
+        alert('PDF export failed. Please try again.');
+      });
+  };
+
+  const handleExportDOCX = () => {
+    exportAnalysisAsDOCX(analysisData)
+      .then(report => {
+        if (analysisSession) return saveReportToHistory(analysisSession.id, report);
+      })
+      .catch(error => {
+        console.error('DOCX export failed:', error);
+        alert('DOCX export failed. Please try again.');
+      });
+  };
+
   // Handle analysis selection with navigation
   const handleAnalysisSelect = (analysisId: string) => {
     const analysis = currentProject?.analyses.find(a => a.id === analysisId);
@@ -420,6 +500,67 @@ const CleanEnterpriseLayout: React.FC = () => {
                                             Rename
                                           </DropdownMenuItem>
                                           <DropdownMenuSeparator />
+                                          <DropdownMenuItem
+                                            onClick={() => {
+                                              if (!isSelected) {
+                                                handleAnalysisSelect(analysis.id);
+                                              }
+                                              setReportBuilderOpen(true);
+                                            }}
+                                          >
+                                            <DocumentChartBarIcon className="mr-2 h-4 w-4" />
+                                            Build Report…
+                                          </DropdownMenuItem>
+                                          <DropdownMenuItem
+                                            onClick={() => {
+                                              if (!isSelected) {
+                                                handleAnalysisSelect(analysis.id);
+                                              }
+                                              setAuditTrailOpen(true);
+                                            }}
+                                          >
+                                            <ClockIcon className="mr-2 h-4 w-4" />
+                                            Audit Trail…
+                                          </DropdownMenuItem>
+                                          <DropdownMenuItem
+                                            onClick={() => {
+                                              if (!isSelected) {
+                                                handleAnalysisSelect(analysis.id);
+                                              }
+                                              setComplianceOpen(true);
+                                            }}
+                                          >
+                                            <ClipboardDocumentCheckIcon className="mr-2 h-4 w-4" />
+                                            Compliance…
+                                          </DropdownMenuItem>
+                                          <DropdownMenuItem
+                                            onClick={() => {
+                                              if (!isSelected) {
+                                                handleAnalysisSelect(analysis.id);
+                                              }
+                                              setValidationRulesOpen(true);
+                                            }}
+                                          >
+                                            <AdjustmentsHorizontalIcon className="mr-2 h-4 w-4" />
+                                            Validation Rules…
+                                          </DropdownMenuItem>
+                                          <DropdownMenuItem
+                                            onClick={() => {
+                                              if (!isSelected) {
+                                                handleAnalysisSelect(analysis.id);
+                                              }
+                                              setSnapshotAnalysis(analysis);
+                                            }}
+                                          >
+                                            <CameraIcon className="mr-2 h-4 w-4" />
+                                            Create Snapshot…
+                                          </DropdownMenuItem>
+                                          <DropdownMenuItem
+                                            onClick={() => setCompareAnalysisId(analysis.id)}
+                                          >
+                                            <ArrowsRightLeftIcon className="mr-2 h-4 w-4" />
+                                            Compare…
+                                          </DropdownMenuItem>
                                           <DropdownMenuItem
                                             onClick={() => {
                                               if (isSelected) {
@@ -437,10 +578,12 @@ const CleanEnterpriseLayout: React.FC = () => {
                                           </DropdownMenuItem>
                                           <DropdownMenuItem
                                             onClick={() => {
-                                              if (!isSelected) {
+                                              if (isSelected) {
+                                                handleExportPDF();
+                                              } else {
                                                 handleAnalysisSelect(analysis.id);
+                                                setTimeout(handleExportPDF, 500);
                                               }
-                                              exportAnalysisAsPDF();
                                             }}
                                           >
                                             <ArrowDownTrayIcon className="mr-2 h-4 w-4" />
@@ -448,10 +591,12 @@ const CleanEnterpriseLayout: React.FC = () => {
                                           </DropdownMenuItem>
                                           <DropdownMenuItem
                                             onClick={() => {
-                                              if (!isSelected) {
+                                              if (isSelected) {
+                                                handleExportDOCX();
+                                              } else {
                                                 handleAnalysisSelect(analysis.id);
+                                                setTimeout(handleExportDOCX, 500);
                                               }
-                                              exportAnalysisAsDOCX();
                                             }}
                                           >
                                             <ArrowDownTrayIcon className="mr-2 h-4 w-4" />
@@ -681,6 +826,10 @@ const CleanEnterpriseLayout: React.FC = () => {
                                       );
                                     })}
                                   </SidebarMenuSub>
+                                  <SnapshotSidebarList
+                                    analysisId={analysis.id}
+                                    onOpen={setOpenedSnapshot}
+                                  />
                                 </AnimatedCollapsible>
                               </div>
                             );
@@ -701,11 +850,17 @@ const CleanEnterpriseLayout: React.FC = () => {
                           size="lg"
                           className="hover:bg-sidebar-accent hover:text-sidebar-accent-foreground w-full justify-between"
                         >
-                          <div className="flex items-center gap-2">
-                            <Skeleton className="h-8 w-8 rounded-full" />
-                            <div className="flex flex-col items-start space-y-1">
-                              <Skeleton className="h-4 w-20" />
-                              <Skeleton className="h-3 w-32" />
+                          <div className="flex min-w-0 items-center gap-2">
+                            <span className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-slate-200 text-xs font-semibold text-slate-700 dark:bg-slate-700 dark:text-slate-200">
+                              {getInitials(currentUser.name)}
+                            </span>
+                            <div className="flex min-w-0 flex-col items-start">
+                              <span className="truncate text-sm font-medium">
+                                {currentUser.name}
+                              </span>
+                              <span className="text-muted-foreground truncate text-xs">
+                                {currentUser.role}
+                              </span>
                             </div>
                           </div>
                           <ChevronsUpDown className="ml-auto h-4 w-4" />
@@ -716,6 +871,10 @@ const CleanEnterpriseLayout: React.FC = () => {
                         align="start"
                         className="w-[--radix-dropdown-menu-trigger-width]"
                       >
+                        <DropdownMenuItem onClick={() => setUserIdentityOpen(true)}>
+                          <UserCircleIcon className="mr-2 h-4 w-4" />
+                          <span>Identity & roles</span>
+                        </DropdownMenuItem>
                         <DropdownMenuItem>
                           <CreditCardIcon className="mr-2 h-4 w-4" />
                           <span>Billing</span>
@@ -749,6 +908,33 @@ const CleanEnterpriseLayout: React.FC = () => {
                       Step {currentStepIndex + 1} of {ANALYSIS_STEPS.length}
                     </p>
                   </div>
+                  {analysisSession && (
+                    <div className="flex items-center gap-1">
+                      <ApprovalButton onClick={() => setApprovalOpen(true)} />
+                      <CollaborationButton onClick={() => setCollaborationOpen(true)} />
+                      <OpenCommentsButton onClick={() => setOpenCommentsOpen(true)} />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={undo}
+                        disabled={!canUndo}
+                        title={undoLabel ? `Undo: ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+                        aria-label="Undo"
+                      >
+                        <ArrowUturnLeftIcon className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={redo}
+                        disabled={!canRedo}
+                        title={redoLabel ? `Redo: ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                        aria-label="Redo"
+                      >
+                        <ArrowUturnRightIcon className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
                 </div>
               </header>
 
@@ -771,6 +957,47 @@ const CleanEnterpriseLayout: React.FC = () => {
           </div>
         </SidebarProvider>
 
+        <ReportBuilderDialog
+          isOpen={reportBuilderOpen}
+          onClose={() => setReportBuilderOpen(false)}
+        />
+
+        <AuditTrailDialog isOpen={auditTrailOpen} onClose={() => setAuditTrailOpen(false)} />
+
+        <ComplianceDialog isOpen={complianceOpen} onClose={() => setComplianceOpen(false)} />
+
+        <ValidationRulesDialog
+          isOpen={validationRulesOpen}
+          onClose={() => setValidationRulesOpen(false)}
+        />
+
+        <CreateSnapshotDialog
+          analysis={snapshotAnalysis}
+          onClose={() => setSnapshotAnalysis(null)}
+        />
+
+        <SnapshotViewerDialog snapshot={openedSnapshot} onClose={() => setOpenedSnapshot(null)} />
+
+        <CompareAnalysesDialog
+          analysisId={compareAnalysisId}
+          onClose={() => setCompareAnalysisId(null)}
+        />
+
+        <CollaborationDialog
+          isOpen={collaborationOpen}
+          onClose={() => setCollaborationOpen(false)}
+        />
+
+        <OpenCommentsPanel isOpen={openCommentsOpen} onClose={() => setOpenCommentsOpen(false)} />
+
+        <ApprovalDialog
+          isOpen={approvalOpen}
+          onClose={() => setApprovalOpen(false)}
+          onEditIdentity={() => setUserIdentityOpen(true)}
+        />
+
+        <UserIdentityDialog isOpen={userIdentityOpen} onClose={() => setUserIdentityOpen(false)} />
+
         <ConfirmationDialog
           open={deleteAnalysisDialog}
           onOpenChange={open => {
@@ -61,6 +61,8 @@ export interface AnalysisSession extends Identifiable {
   currentStep: string;
   scope?: string;
   folderId?: string; // Optional folder assignment
+  approval?: AnalysisApproval; // Unset for drafts that were never submitted
+  complianceStandards?: ComplianceStandard[]; // Standards the analysis is justified against
 }
 
 export interface EventDetail extends Identifiable {
@@ -83,8 +85,8 @@ export interface Hazard extends Identifiable {
   environmentalCondition: string;
   systemState: string;
   linkedLossIds: string[];
-  lossIds?: string[]; // Alternative property name used in some parts
-  linkedLosses?: string[]; // Alternative property name used in some parts
+  lossIds?: string[]; // Legacy alias, merged into linkedLossIds when data is migrated
+  linkedLosses?: string[]; // Legacy alias, merged into linkedLossIds when data is migrated
   parentHazardId?: string;
   subHazardDetails?: string;
   severity?: string;
@@ -179,6 +181,7 @@ export interface FeedbackPath extends Identifiable {
   targetControllerId: string;
   feedback: string;
   isMissing: boolean;
+  rationale?: string; // Why the feedback is missing or inadequate
   indirect?: boolean;
   sensorLabel?: string;
 }
@@ -193,6 +196,7 @@ export interface ControlAction extends Identifiable {
   isOutOfScope: boolean;
   name?: string; // Alternative way to reference the action
   feedbackIds?: string[];
+  isContinuous?: boolean; // Continuous actions can be ended as well as started (UCCA types 3-4)
 }
 
 export interface UnsafeControlAction extends Identifiable {
@@ -208,6 +212,31 @@ export interface UnsafeControlAction extends Identifiable {
   linkedHazards?: string[];
 }
 
+// Unsafe Combinations of Control Actions (Kopeikin 2024, Table 4-14)
+export type UCCAAbstractionType = '2a' | '2b';
+export type UCCATypes = '1-2' | '3-4';
+export type UCCAActionState = 'provided' | 'not provided' | 'starts' | 'ends';
+export type UCCAReviewStatus = 'hazardous' | 'not-hazardous';
+
+export interface UCCA extends Identifiable {
+  code: string;
+  candidateKey: string; // Identifies the enumerated combination this UCCA was accepted from
+  abstractionType: UCCAAbstractionType;
+  uccaTypes: UCCATypes;
+  teamControllerIds: string[]; // Controllers sharing control of the process
+  controlActionIds: string[]; // Control actions that make up the action under analysis
+  otherControlActionIds: string[]; // 2a: the other actions of the team
+  controllerId?: string; // 2b: the controller whose action state is fixed
+  otherControllerIds?: string[]; // 2b: the other controllers with authority over the action
+  actionState: UCCAActionState;
+  otherActionsState: UCCAActionState;
+  description: string;
+  reviewStatus: UCCAReviewStatus;
+  rationale?: string; // Why the combination is (or is not) hazardous
+  context?: string;
+  hazardIds: string[];
+}
+
 // Causal Scenario types for Step 5
 export interface CausalScenario extends Identifiable {
   code?: string;
@@ -246,8 +275,8 @@ export interface CausalFactor {
 export interface Requirement extends Identifiable {
   text: string;
   linkedScenarioIds: string[];
-  scenarioIds?: string[]; // Alternative property name used in some parts
-  linkedScenarios?: string[]; // Alternative property name used in some parts
+  scenarioIds?: string[]; // Legacy alias, merged into linkedScenarioIds when data is migrated
+  linkedScenarios?: string[]; // Legacy alias, merged into linkedScenarioIds when data is migrated
   ucaIds?: string[]; // Link to UCAs this requirement addresses
   type: 'Requirement' | 'Mitigation';
   implementation?: string;
@@ -313,6 +342,66 @@ export interface HardwareAnalysisSession extends Identifiable {
   importedProbabilityData?: boolean;
 }
 
+// Review Types
+export type ReviewStatus = 'draft' | 'in-review' | 'approved' | 'rejected';
+
+/**
+ * A discussion about one entity of the analysis. Its comments are separate entities,
+ * so replies collaborators post at the same time are all kept.
+ */
+export interface CommentThread extends Identifiable {
+  collection: keyof AnalysisData; // Collection of the entity, e.g. 'ucas'
+  entityId: string;
+  createdAt: string;
+  createdBy: string;
+  resolved: boolean;
+  resolvedAt?: string;
+  resolvedBy?: string;
+}
+
+export interface ThreadComment extends Identifiable {
+  threadId: string;
+  authorId: string;
+  authorName: string;
+  text: string;
+  createdAt: string;
+}
+
+// Review status of one entity; its id is the id of the entity
+export interface EntityReview extends Identifiable {
+  collection: keyof AnalysisData;
+  status: ReviewStatus;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+// Approval Workflow Types
+export type WorkflowRole = 'analyst' | 'reviewer' | 'approver';
+export type ApprovalStatus = 'draft' | 'in-review' | 'approved';
+export type SignOffAction = 'submit' | 'review' | 'approve' | 'return' | 'reopen';
+
+/**
+ * An electronic signature on the content of an analysis. The content hash lets
+ * anyone verify later that the signed content was not changed.
+ */
+export interface SignOff extends Identifiable {
+  action: SignOffAction;
+  role: WorkflowRole; // The role the user signed in
+  userId: string;
+  userName: string;
+  signedAt: string;
+  contentHash: string;
+  comment?: string;
+}
+
+export interface AnalysisApproval {
+  status: ApprovalStatus;
+  signOffs: SignOff[]; // Oldest first
+}
+
+// Compliance Types
+export type ComplianceStandard = 'ISO 26262' | 'ARP4761A' | 'MIL-STD-882E' | 'ISO 21448';
+
 export interface CompletenessReport {
   overallCompleteness: number;
   stepCompleteness: Record<string, number>;
@@ -340,6 +429,8 @@ export interface AnalysisData {
   communicationPaths: CommunicationPath[];
   controlActions: ControlAction[];
   ucas: UnsafeControlAction[];
+  uccas?: UCCA[]; // Reviewed unsafe combinations of control actions
+  interchangeableControllerGroups?: string[][]; // Sets of interchangeable controller ids (Cint)
   requirements: Requirement[];
   sequenceOfEvents: EventDetail[];
   activeContexts: { [key: string]: string };
@@ -348,6 +439,40 @@ export interface AnalysisData {
   unsafeInteractions: UnsafeInteraction[];
   hardwareAnalysisSession: HardwareAnalysisSession | null;
   scenarios?: CausalScenario[]; // Causal scenarios for Step 5
+  commentThreads?: CommentThread[]; // Review discussions on entities
+  comments?: ThreadComment[];
+  reviewStatuses?: EntityReview[];
+  notApplicableStatuses?: { controllerId: string; controlActionId: string; ucaType: UCAType }[];
+  validationRules?: ValidationRuleSettings; // Validation rule settings of the project
+  diagramLayouts?: DiagramLayout[]; // Named layouts of the control structure diagram
+}
+
+// Validation Rule Types
+export interface ValidationRuleOverride {
+  enabled?: boolean;
+  threshold?: number;
+}
+
+// Overrides of the rules' defaults, by rule id
+export type ValidationRuleSettings = Record<string, ValidationRuleOverride>;
+
+// Diagram Layout Types
+export type NodePositions = Record<string, { x: number; y: number }>; // By controller or component id
+
+export interface DiagramLayoutFilters {
+  hiddenNodeIds: string[]; // Controllers and components left out of the diagram
+  hideFeedbackPaths?: boolean;
+  hideCommunicationPaths?: boolean;
+}
+
+/**
+ * A named arrangement of the control structure diagram, independent of the default
+ * one. Nodes without a position in it are placed by the automatic layout.
+ */
+export interface DiagramLayout extends Identifiable {
+  name: string; // e.g. "Full hierarchy", "Cockpit only"
+  positions: NodePositions;
+  filters: DiagramLayoutFilters;
 }
 
 // Report Generation Types
@@ -364,6 +489,8 @@ export interface ReportOptions {
   includeRequirements: boolean;
   includeMetadata: boolean;
   includeDetailedAnalysis?: boolean; // Include detailed technical analysis
+  includeCompliance?: boolean; // Gap checklists of the analysis' compliance standards
+  diagramLayoutId?: string; // Layout of the control structure diagram; unset for the default
   customSections?: ReportCustomSection[]; // User-defined report sections
   customTitle?: string;
   customSubtitle?: string;
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { getChangedItems } from './analysis-history';
+
+const loss = { id: 'l1', code: 'L-1', title: 'Loss of life' };
+const hazard = { id: 'h1', code: 'H-1', title: 'Loss of braking', linkedLossIds: ['l1'] };
+const renamed = { ...hazard, title: 'Loss of deceleration' };
+const added = { id: 'h2', code: 'H-2', title: 'Runway overrun', linkedLossIds: [] };
+
+describe('getChangedItems', () => {
+  it('keeps only the items removed, added or changed', () => {
+    expect(
+      getChangedItems({ losses: [loss], hazards: [hazard] }, { hazards: [renamed, added] })
+    ).toEqual({
+      before: { hazards: [hazard] },
+      after: { hazards: [renamed, added] },
+    });
+  });
+
+  // Undo restores copies of the items, e.g. from the stored history
+  it('ignores items restored with equal values', () => {
+    expect(getChangedItems({ hazards: [hazard, added] }, { hazards: [{ ...hazard }] })).toEqual({
+      before: { hazards: [added] },
+      after: { hazards: [] },
+    });
+  });
+
+  it('takes values that are no lists as a whole', () => {
+    const session = { id: 'hw1', name: 'Brake control unit' };
+
+    expect(
+      getChangedItems({ hardwareAnalysisSession: null }, { hardwareAnalysisSession: session })
+    ).toEqual({
+      before: { hardwareAnalysisSession: null },
+      after: { hardwareAnalysisSession: session },
+    });
+  });
+});
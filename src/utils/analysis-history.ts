@@ -0,0 +1,167 @@
+// Undo/redo history of analysis data
+import { v4 as uuidv4 } from 'uuid';
+import { mergeChanges } from './tab-sync';
+
+/**
+ * State restored by undo/redo. View state such as activeContexts or the CAST
+ * sub-step is deliberately not part of the history.
+ */
+export const HISTORY_KEYS = [
+  'losses',
+  'hazards',
+  'systemConstraints',
+  'sequenceOfEvents',
+  'systemComponents',
+  'controllers',
+  'controlPaths',
+  'feedbackPaths',
+  'communicationPaths',
+  'failurePaths',
+  'controlActions',
+  'ucas',
+  'uccas',
+  'interchangeableControllerGroups',
+  'requirements',
+  'hardwareComponents',
+  'failureModes',
+  'unsafeInteractions',
+  'hardwareAnalysisSession',
+  'scenarios',
+  'notApplicableStatuses',
+  'commentThreads',
+  'comments',
+  'reviewStatuses',
+  'diagramLayouts',
+] as const;
+
+export type HistoryKey = (typeof HISTORY_KEYS)[number];
+
+export type HistorySnapshot = Partial<Record<HistoryKey, unknown>>;
+
+/**
+ * One undoable step: the values of the collections it changed, before and after
+ */
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  timestamp: string;
+  before: HistorySnapshot;
+  after: HistorySnapshot;
+}
+
+export interface AnalysisHistory {
+  past: HistoryEntry[]; // Oldest first; the last entry is undone next
+  future: HistoryEntry[]; // The first entry is redone next
+}
+
+export const HISTORY_LIMIT = 50;
+
+export const EMPTY_HISTORY: AnalysisHistory = { past: [], future: [] };
+
+/**
+ * Collections whose value changed between two snapshots. State updates are
+ * immutable, so reference equality identifies unchanged collections.
+ */
+export const diffSnapshots = (
+  previous: HistorySnapshot,
+  current: HistorySnapshot
+): Pick<HistoryEntry, 'before' | 'after'> | null => {
+  const changedKeys = HISTORY_KEYS.filter(key => previous[key] !== current[key]);
+  if (changedKeys.length === 0) return null;
+
+  return {
+    before: Object.fromEntries(changedKeys.map(key => [key, previous[key]])),
+    after: Object.fromEntries(changedKeys.map(key => [key, current[key]])),
+  };
+};
+
+export const isSnapshotApplied = (expected: HistorySnapshot, current: HistorySnapshot) =>
+  HISTORY_KEYS.every(key => !(key in expected) || expected[key] === current[key]);
+
+/**
+ * Label of a step from the audit descriptions of its changes
+ */
+export const createHistoryLabel = (descriptions: string[]) => {
+  if (descriptions.length === 0) return 'Edit analysis';
+  const more = descriptions.length - 1;
+  return more > 0
+    ? `${descriptions[0]} and ${more} more change${more === 1 ? '' : 's'}`
+    : descriptions[0];
+};
+
+export const pushHistoryEntry = (
+  history: AnalysisHistory,
+  change: Pick<HistoryEntry, 'label' | 'before' | 'after'>
+): AnalysisHistory => ({
+  past: [...history.past, { id: uuidv4(), timestamp: new Date().toISOString(), ...change }].slice(
+    -HISTORY_LIMIT
+  ),
+  future: [],
+});
+
+export const undoHistory = (history: AnalysisHistory) => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    entry,
+    history: { past: history.past.slice(0, -1), future: [entry, ...history.future] },
+  };
+};
+
+export const redoHistory = (history: AnalysisHistory) => {
+  const [entry, ...future] = history.future;
+  if (!entry) return null;
+  return { entry, history: { past: [...history.past, entry], future } };
+};
+
+/**
+ * The state changes that undo or redo a step, from the values the step left (`from`)
+ * to those it restores (`to`). Only the entities and fields the step changed are set,
+ * so changes collaborators or other tabs made since are kept. Where they changed the
+ * same field as the step, their value is kept and its path listed in `conflicts`.
+ */
+export const getHistoryStepChanges = (
+  current: HistorySnapshot,
+  from: HistorySnapshot,
+  to: HistorySnapshot
+): { changes: HistorySnapshot; conflicts: string[] } => {
+  const keys = HISTORY_KEYS.filter(key => key in to);
+  const pick = (snapshot: HistorySnapshot): HistorySnapshot =>
+    Object.fromEntries(keys.map(key => [key, snapshot[key]]));
+  const { value, conflicts } = mergeChanges(pick(from), pick(current), pick(to), {
+    prefer: 'local',
+  });
+  const changes = Object.fromEntries(
+    keys.filter(key => key in value && value[key] !== current[key]).map(key => [key, value[key]])
+  );
+  return { changes, conflicts };
+};
+
+/**
+ * The items of the changed collections that differ between two snapshots: those
+ * removed or changed in `before`, those added or changed in `after`. Values that are
+ * no lists are taken as a whole. Audits undo and redo without whole collections.
+ */
+export const getChangedItems = (
+  previous: HistorySnapshot,
+  changes: HistorySnapshot
+): Pick<HistoryEntry, 'before' | 'after'> => {
+  const before: HistorySnapshot = {};
+  const after: HistorySnapshot = {};
+  HISTORY_KEYS.filter(key => key in changes).forEach(key => {
+    const oldValue = previous[key];
+    const newValue = changes[key];
+    if (!Array.isArray(oldValue) || !Array.isArray(newValue)) {
+      before[key] = oldValue;
+      after[key] = newValue;
+      return;
+    }
+    // Restored items are equal to the current ones without being the same objects
+    const serialize = (items: unknown[]) => new Set(items.map(item => JSON.stringify(item)));
+    const oldItems = serialize(oldValue);
+    const newItems = serialize(newValue);
+    before[key] = oldValue.filter(item => !newItems.has(JSON.stringify(item)));
+    after[key] = newValue.filter(item => !oldItems.has(JSON.stringify(item)));
+  });
+  return { before, after };
+};
@@ -0,0 +1,725 @@
+// Persistence of projects and analysis data
+import { v4 as uuidv4 } from 'uuid';
+import { Project } from '@/context/ProjectsContext';
+import { AnalysisSession } from '@/types/types';
+import { HISTORY_KEYS } from './analysis-history';
+import { ConcurrentModificationError, createErrorContext } from './error-handling';
+import { CURRENT_SCHEMA_VERSION, getSchemaVersion, migrateAnalysisData } from './schema-migrations';
+import { storageManager } from './storage-manager';
+
+/**
+ * Everything AnalysisContext persists for an analysis: the undoable collections
+ * plus the CAST sub-step progress and the active team contexts
+ */
+export const ANALYSIS_DOCUMENT_KEYS = [
+  ...HISTORY_KEYS,
+  'castStep2SubStep',
+  'castStep2MaxReachedSubStep',
+  'activeContexts',
+] as const;
+
+export type AnalysisDocumentKey = (typeof ANALYSIS_DOCUMENT_KEYS)[number];
+
+export type AnalysisDocumentData = Record<AnalysisDocumentKey, unknown>;
+
+/**
+ * The stored data of one analysis, written as a whole
+ */
+export interface AnalysisDocument {
+  analysisId: string;
+  updatedAt: string;
+  schemaVersion?: number; // Set when saved; documents loaded are migrated to the current version
+  revision?: string; // Changes with every save
+  data: Partial<AnalysisDocumentData>;
+}
+
+/**
+ * A save with an expected revision only succeeds if the stored data still has that
+ * revision (null: never saved with one), so a tab can't overwrite changes it hasn't seen
+ */
+export interface SaveOptions {
+  expectedRevision?: string | null;
+}
+
+/**
+ * A named copy of an analysis frozen at a milestone. Snapshots are never
+ * changed once taken; the checksum detects stored data that was.
+ */
+export interface AnalysisSnapshot {
+  id: string;
+  analysisId: string;
+  name: string;
+  description?: string;
+  author: string;
+  createdAt: string;
+  session: AnalysisSession; // The analysis details when the snapshot was taken
+  schemaVersion?: number;
+  data: AnalysisDocumentData;
+  checksum: string;
+}
+
+/**
+ * Data kept for an analysis besides its document, written on its own and deleted
+ * with the analysis: the undo history, the collaboration replica and the operations
+ * not yet sent
+ */
+export type AnalysisRecordKind = 'analysisHistory' | 'collabReplica' | 'collabOutbox';
+
+/**
+ * Entries kept for an analysis that are only ever appended, e.g. the audit trail.
+ * Each tab appends its own, so none overwrites the entries of another.
+ */
+export type AnalysisLogKind = 'auditTrail';
+
+export type StorageBackendKind = 'indexeddb' | 'localStorage';
+
+export interface AnalysisStorage {
+  readonly kind: StorageBackendKind;
+  loadProjects(): Promise<Project[] | null>;
+  loadProjectsRevision(): Promise<string | null>;
+  saveProjects(projects: Project[], options?: SaveOptions): Promise<string>; // Resolves to the new revision
+  loadAnalysis(analysisId: string): Promise<AnalysisDocument | null>;
+  saveAnalysis(document: AnalysisDocument, options?: SaveOptions): Promise<string>;
+  deleteAnalysis(analysisId: string): Promise<void>;
+  getAnalysisSizes(): Promise<Record<string, number>>; // Serialized size in bytes per analysis
+  loadSnapshots(analysisId: string): Promise<AnalysisSnapshot[]>; // Newest first
+  saveSnapshot(snapshot: AnalysisSnapshot): Promise<void>;
+  deleteSnapshot(analysisId: string, snapshotId: string): Promise<void>;
+  loadRecord<T>(analysisId: string, kind: AnalysisRecordKind): Promise<T | null>;
+  saveRecord(analysisId: string, kind: AnalysisRecordKind, value: unknown): Promise<void>; // Null removes the record
+  loadLog<T>(analysisId: string, kind: AnalysisLogKind): Promise<T[]>; // Oldest first
+  appendToLog(analysisId: string, kind: AnalysisLogKind, entries: unknown[]): Promise<void>;
+}
+
+const ANALYSIS_RECORD_KINDS: AnalysisRecordKind[] = [
+  'analysisHistory',
+  'collabReplica',
+  'collabOutbox',
+];
+
+const ANALYSIS_LOG_KINDS: AnalysisLogKind[] = ['auditTrail'];
+
+const getDocumentDefault = (key: AnalysisDocumentKey): unknown => {
+  switch (key) {
+    case 'castStep2SubStep':
+    case 'castStep2MaxReachedSubStep':
+      return 0;
+    case 'activeContexts':
+      return {};
+    case 'hardwareAnalysisSession':
+      return null;
+    default:
+      return [];
+  }
+};
+
+/**
+ * Fills in the values missing from a stored document, e.g. collections added since it was saved
+ */
+export const withDocumentDefaults = (data: Partial<AnalysisDocumentData>): AnalysisDocumentData =>
+  Object.fromEntries(
+    ANALYSIS_DOCUMENT_KEYS.map(key => [key, data[key] ?? getDocumentDefault(key)])
+  ) as AnalysisDocumentData;
+
+/**
+ * State updates are immutable, so unchanged values keep their identity
+ */
+export const isSameDocumentData = (a: AnalysisDocumentData, b: AnalysisDocumentData) =>
+  ANALYSIS_DOCUMENT_KEYS.every(key => a[key] === b[key]);
+
+/**
+ * A stored document with its data migrated to the current schema version
+ */
+const upgradeDocument = (document: AnalysisDocument): AnalysisDocument => {
+  const schemaVersion = getSchemaVersion(document.schemaVersion);
+  if (schemaVersion === CURRENT_SCHEMA_VERSION) return document;
+  return {
+    ...document,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    data: migrateAnalysisData(document.data, schemaVersion),
+  };
+};
+
+/**
+ * A stored snapshot with its data migrated to the current schema version. The
+ * checksum is renewed only if the stored data was intact, so tampering still shows.
+ */
+const upgradeSnapshot = (snapshot: AnalysisSnapshot): AnalysisSnapshot => {
+  const schemaVersion = getSchemaVersion(snapshot.schemaVersion);
+  if (schemaVersion === CURRENT_SCHEMA_VERSION) return snapshot;
+  const data = migrateAnalysisData(snapshot.data, schemaVersion);
+  const isIntact = storageManager.calculateChecksum(snapshot.data) === snapshot.checksum;
+  return {
+    ...snapshot,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    data,
+    checksum: isIntact ? storageManager.calculateChecksum(data) : snapshot.checksum,
+  };
+};
+
+/**
+ * Throws if a save expecting a revision would overwrite a different one
+ */
+const checkRevision = (
+  entityType: string,
+  entityId: string,
+  storedRevision: string | null | undefined,
+  options?: SaveOptions
+) => {
+  if (options?.expectedRevision === undefined) return;
+  if ((storedRevision ?? null) !== options.expectedRevision) {
+    throw new ConcurrentModificationError(
+      entityType,
+      entityId,
+      createErrorContext('AnalysisStorage', `save ${entityType}`)
+    );
+  }
+};
+
+const getSize = (value: unknown) => new Blob([JSON.stringify(value)]).size;
+
+const byNewest = (a: AnalysisSnapshot, b: AnalysisSnapshot) =>
+  b.createdAt.localeCompare(a.createdAt);
+
+const PROJECTS_STORAGE_KEY = 'stamp-projects';
+const PROJECTS_REVISION_KEY = 'stamp-projects-revision';
+
+/**
+ * The original layout: the project list under `stamp-projects` and every
+ * collection of an analysis under its own `<collection>-<analysisId>` key
+ */
+export class LocalStorageAnalysisStorage implements AnalysisStorage {
+  readonly kind = 'localStorage';
+
+  private getKey(key: AnalysisDocumentKey, analysisId: string) {
+    return `${key}-${analysisId}`;
+  }
+
+  private getSchemaVersionKey(analysisId: string) {
+    return `analysisSchemaVersion-${analysisId}`;
+  }
+
+  private getRevisionKey(analysisId: string) {
+    return `analysisRevision-${analysisId}`;
+  }
+
+  readProjects(): Project[] | null {
+    const result = storageManager.loadWithValidation<Project[]>(PROJECTS_STORAGE_KEY);
+    if (result.isValid && result.data) return result.data;
+
+    // Data that fails the integrity check is still better than none
+    try {
+      const stored = localStorage.getItem(PROJECTS_STORAGE_KEY);
+      if (!stored) return null;
+      const parsed = JSON.parse(stored);
+      const projects = parsed.data && parsed.checksum ? parsed.data : parsed;
+      return Array.isArray(projects) ? projects : null;
+    } catch (error) {
+      console.error('Failed to read stored projects:', error);
+      return null;
+    }
+  }
+
+  readDocument(analysisId: string): AnalysisDocument | null {
+    const data: Partial<AnalysisDocumentData> = {};
+    ANALYSIS_DOCUMENT_KEYS.forEach(key => {
+      try {
+        const stored = localStorage.getItem(this.getKey(key, analysisId));
+        if (stored !== null) data[key] = JSON.parse(stored);
+      } catch (error) {
+        console.error(`Failed to read ${key} of analysis ${analysisId}:`, error);
+      }
+    });
+    if (Object.keys(data).length === 0) return null;
+    const schemaVersion = localStorage.getItem(this.getSchemaVersionKey(analysisId));
+    return {
+      analysisId,
+      updatedAt: new Date().toISOString(),
+      schemaVersion: schemaVersion ? Number(schemaVersion) : undefined,
+      revision: localStorage.getItem(this.getRevisionKey(analysisId)) ?? undefined,
+      data,
+    };
+  }
+
+  /**
+   * Removes the project list and the data of the given analyses
+   */
+  clear(analysisIds: string[]) {
+    localStorage.removeItem(PROJECTS_STORAGE_KEY);
+    localStorage.removeItem(`${PROJECTS_STORAGE_KEY}-checksum`);
+    localStorage.removeItem(PROJECTS_REVISION_KEY);
+    analysisIds.forEach(analysisId => this.removeDocument(analysisId));
+  }
+
+  private removeDocument(analysisId: string) {
+    ANALYSIS_DOCUMENT_KEYS.forEach(key => localStorage.removeItem(this.getKey(key, analysisId)));
+    localStorage.removeItem(this.getSchemaVersionKey(analysisId));
+    localStorage.removeItem(this.getRevisionKey(analysisId));
+  }
+
+  private getRecordKey(analysisId: string, kind: AnalysisRecordKind) {
+    return `${kind}-${analysisId}`;
+  }
+
+  readRecord<T>(analysisId: string, kind: AnalysisRecordKind): T | null {
+    const stored = localStorage.getItem(this.getRecordKey(analysisId, kind));
+    return stored ? JSON.parse(stored) : null;
+  }
+
+  removeRecord(analysisId: string, kind: AnalysisRecordKind) {
+    localStorage.removeItem(this.getRecordKey(analysisId, kind));
+  }
+
+  private getLogKey(analysisId: string, kind: AnalysisLogKind) {
+    return `${kind}-${analysisId}`;
+  }
+
+  readLog<T>(analysisId: string, kind: AnalysisLogKind): T[] {
+    const stored = localStorage.getItem(this.getLogKey(analysisId, kind));
+    return stored ? JSON.parse(stored) : [];
+  }
+
+  removeLog(analysisId: string, kind: AnalysisLogKind) {
+    localStorage.removeItem(this.getLogKey(analysisId, kind));
+  }
+
+  private getSnapshotsKey(analysisId: string) {
+    return `analysisSnapshots-${analysisId}`;
+  }
+
+  private readSnapshots(analysisId: string): AnalysisSnapshot[] {
+    try {
+      const stored = localStorage.getItem(this.getSnapshotsKey(analysisId));
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error(`Failed to read snapshots of analysis ${analysisId}:`, error);
+      return [];
+    }
+  }
+
+  private writeSnapshots(analysisId: string, snapshots: AnalysisSnapshot[]) {
+    if (snapshots.length > 0) {
+      localStorage.setItem(this.getSnapshotsKey(analysisId), JSON.stringify(snapshots));
+    } else {
+      localStorage.removeItem(this.getSnapshotsKey(analysisId));
+    }
+  }
+
+  async loadProjects() {
+    return this.readProjects();
+  }
+
+  async loadProjectsRevision() {
+    return localStorage.getItem(PROJECTS_REVISION_KEY);
+  }
+
+  async saveProjects(projects: Project[], options?: SaveOptions) {
+    checkRevision(
+      'projects',
+      PROJECTS_STORAGE_KEY,
+      localStorage.getItem(PROJECTS_REVISION_KEY),
+      options
+    );
+    const revision = uuidv4();
+    const result = storageManager.saveWithValidation(PROJECTS_STORAGE_KEY, projects);
+    if (!result.success) {
+      // Keep the wrapped format even when validation fails
+      localStorage.setItem(
+        PROJECTS_STORAGE_KEY,
+        JSON.stringify({
+          data: projects,
+          checksum: storageManager.calculateChecksum(projects),
+          timestamp: Date.now(),
+        })
+      );
+    }
+    localStorage.setItem(PROJECTS_REVISION_KEY, revision);
+    return revision;
+  }
+
+  async loadAnalysis(analysisId: string) {
+    const document = this.readDocument(analysisId);
+    return document && upgradeDocument(document);
+  }
+
+  async saveAnalysis({ analysisId, data }: AnalysisDocument, options?: SaveOptions) {
+    checkRevision(
+      'analysis',
+      analysisId,
+      localStorage.getItem(this.getRevisionKey(analysisId)),
+      options
+    );
+    const revision = uuidv4();
+    localStorage.setItem(this.getSchemaVersionKey(analysisId), String(CURRENT_SCHEMA_VERSION));
+    Object.entries(data).forEach(([key, value]) => {
+      if (value !== undefined) {
+        localStorage.setItem(
+          this.getKey(key as AnalysisDocumentKey, analysisId),
+          JSON.stringify(value)
+        );
+      }
+    });
+    localStorage.setItem(this.getRevisionKey(analysisId), revision);
+    return revision;
+  }
+
+  async deleteAnalysis(analysisId: string) {
+    this.removeDocument(analysisId);
+    localStorage.removeItem(this.getSnapshotsKey(analysisId));
+    ANALYSIS_RECORD_KINDS.forEach(kind => this.removeRecord(analysisId, kind));
+    ANALYSIS_LOG_KINDS.forEach(kind => this.removeLog(analysisId, kind));
+  }
+
+  async getAnalysisSizes() {
+    const sizes: Record<string, number> = {};
+    (this.readProjects() ?? []).forEach(project =>
+      project.analyses.forEach(analysis => {
+        sizes[analysis.id] = ANALYSIS_DOCUMENT_KEYS.reduce(
+          (total, key) =>
+            total + new Blob([localStorage.getItem(this.getKey(key, analysis.id)) ?? '']).size,
+          0
+        );
+      })
+    );
+    return sizes;
+  }
+
+  async loadSnapshots(analysisId: string) {
+    return this.readSnapshots(analysisId).map(upgradeSnapshot).sort(byNewest);
+  }
+
+  async saveSnapshot(snapshot: AnalysisSnapshot) {
+    this.writeSnapshots(snapshot.analysisId, [
+      ...this.readSnapshots(snapshot.analysisId).filter(s => s.id !== snapshot.id),
+      { ...snapshot, schemaVersion: CURRENT_SCHEMA_VERSION },
+    ]);
+  }
+
+  async deleteSnapshot(analysisId: string, snapshotId: string) {
+    this.writeSnapshots(
+      analysisId,
+      this.readSnapshots(analysisId).filter(snapshot => snapshot.id !== snapshotId)
+    );
+  }
+
+  async loadRecord<T>(analysisId: string, kind: AnalysisRecordKind) {
+    return this.readRecord<T>(analysisId, kind);
+  }
+
+  async saveRecord(analysisId: string, kind: AnalysisRecordKind, value: unknown) {
+    if (value === null) this.removeRecord(analysisId, kind);
+    else localStorage.setItem(this.getRecordKey(analysisId, kind), JSON.stringify(value));
+  }
+
+  async loadLog<T>(analysisId: string, kind: AnalysisLogKind) {
+    return this.readLog<T>(analysisId, kind);
+  }
+
+  // Read just before writing, so entries another tab appended in the meantime are kept
+  async appendToLog(analysisId: string, kind: AnalysisLogKind, entries: unknown[]) {
+    localStorage.setItem(
+      this.getLogKey(analysisId, kind),
+      JSON.stringify([...this.readLog(analysisId, kind), ...entries])
+    );
+  }
+}
+
+const DB_NAME = 'stamp-web-tool';
+const DB_VERSION = 4;
+const ANALYSES_STORE = 'analyses'; // AnalysisDocuments keyed by analysisId
+const META_STORE = 'meta'; // The project list and the migration marker
+const SNAPSHOTS_STORE = 'snapshots'; // AnalysisSnapshots keyed by id, indexed by analysisId
+const RECORDS_STORE = 'records'; // Analysis records keyed by [analysisId, kind]
+const LOGS_STORE = 'logs'; // Analysis log entries in the order appended, indexed by analysisId and kind
+const ANALYSIS_ID_INDEX = 'analysisId';
+const ANALYSIS_LOG_INDEX = 'analysisLog';
+const PROJECTS_RECORD = 'projects';
+const PROJECTS_REVISION_RECORD = 'projectsRevision';
+const MIGRATION_RECORD = 'legacyMigration';
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionComplete = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () =>
+      reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+
+/**
+ * One document per analysis, each written in a single transaction, so an analysis
+ * is never stored half-updated. IndexedDB quotas are a share of the disk rather
+ * than the few megabytes localStorage allows.
+ */
+export class IndexedDBAnalysisStorage implements AnalysisStorage {
+  readonly kind = 'indexeddb';
+  private database: Promise<IDBDatabase> | null = null;
+
+  // Every operation awaits the same connection, so transactions start in call order
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = event => {
+          const database = request.result;
+          if (event.oldVersion < 1) {
+            database.createObjectStore(ANALYSES_STORE, { keyPath: 'analysisId' });
+            database.createObjectStore(META_STORE);
+          }
+          if (event.oldVersion < 2) {
+            database
+              .createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' })
+              .createIndex(ANALYSIS_ID_INDEX, 'analysisId');
+          }
+          if (event.oldVersion < 3) {
+            database
+              .createObjectStore(RECORDS_STORE, { keyPath: ['analysisId', 'kind'] })
+              .createIndex(ANALYSIS_ID_INDEX, 'analysisId');
+          }
+          if (event.oldVersion < 4) {
+            const logs = database.createObjectStore(LOGS_STORE, { autoIncrement: true });
+            logs.createIndex(ANALYSIS_ID_INDEX, 'analysisId');
+            logs.createIndex(ANALYSIS_LOG_INDEX, ['analysisId', 'kind']);
+          }
+        };
+        request.onsuccess = () => {
+          const database = request.result;
+          // Let a newer version of the app in another tab upgrade the database
+          database.onversionchange = () => {
+            database.close();
+            this.database = null;
+          };
+          resolve(database);
+        };
+        request.onerror = () => reject(request.error);
+      });
+      this.database.catch(() => {
+        this.database = null;
+      });
+    }
+    return this.database;
+  }
+
+  private async read<T>(storeName: string, key: IDBValidKey): Promise<T | undefined> {
+    const database = await this.open();
+    return requestResult(database.transaction(storeName).objectStore(storeName).get(key));
+  }
+
+  private async write(storeName: string, update: (store: IDBObjectStore) => void) {
+    const database = await this.open();
+    const transaction = database.transaction(storeName, 'readwrite');
+    update(transaction.objectStore(storeName));
+    await transactionComplete(transaction);
+  }
+
+  /**
+   * Reads a record and writes within the same transaction, so no other tab can write
+   * in between. `check` sees the stored record and throws to abort the write.
+   */
+  private async writeChecked(
+    storeName: string,
+    key: IDBValidKey,
+    check: (stored: unknown) => (store: IDBObjectStore) => void
+  ) {
+    const database = await this.open();
+    const transaction = database.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    const completion = transactionComplete(transaction);
+    let failure: unknown = null;
+    const request = store.get(key);
+    request.onsuccess = () => {
+      try {
+        check(request.result)(store);
+      } catch (error) {
+        failure = error;
+        transaction.abort();
+      }
+    };
+    try {
+      await completion;
+    } catch (error) {
+      throw failure ?? error;
+    }
+  }
+
+  async loadProjects() {
+    return (await this.read<Project[]>(META_STORE, PROJECTS_RECORD)) ?? null;
+  }
+
+  async loadProjectsRevision() {
+    return (await this.read<string>(META_STORE, PROJECTS_REVISION_RECORD)) ?? null;
+  }
+
+  // The revision is checked and the projects written in one transaction
+  async saveProjects(projects: Project[], options?: SaveOptions) {
+    const revision = uuidv4();
+    await this.writeChecked(META_STORE, PROJECTS_REVISION_RECORD, stored => {
+      checkRevision('projects', PROJECTS_RECORD, stored as string | undefined, options);
+      return store => {
+        store.put(projects, PROJECTS_RECORD);
+        store.put(revision, PROJECTS_REVISION_RECORD);
+      };
+    });
+    return revision;
+  }
+
+  async loadAnalysis(analysisId: string) {
+    const document = await this.read<AnalysisDocument>(ANALYSES_STORE, analysisId);
+    return document ? upgradeDocument(document) : null;
+  }
+
+  async saveAnalysis(document: AnalysisDocument, options?: SaveOptions) {
+    const revision = uuidv4();
+    await this.writeChecked(ANALYSES_STORE, document.analysisId, stored => {
+      checkRevision(
+        'analysis',
+        document.analysisId,
+        (stored as AnalysisDocument | undefined)?.revision,
+        options
+      );
+      return store => store.put({ ...document, schemaVersion: CURRENT_SCHEMA_VERSION, revision });
+    });
+    return revision;
+  }
+
+  // The snapshots, records and logs of an analysis go with it
+  async deleteAnalysis(analysisId: string) {
+    const database = await this.open();
+    const transaction = database.transaction(
+      [ANALYSES_STORE, SNAPSHOTS_STORE, RECORDS_STORE, LOGS_STORE],
+      'readwrite'
+    );
+    transaction.objectStore(ANALYSES_STORE).delete(analysisId);
+    [SNAPSHOTS_STORE, RECORDS_STORE, LOGS_STORE].forEach(storeName => {
+      const store = transaction.objectStore(storeName);
+      const keys = store.index(ANALYSIS_ID_INDEX).getAllKeys(analysisId);
+      keys.onsuccess = () => keys.result.forEach(key => store.delete(key));
+    });
+    await transactionComplete(transaction);
+    ANALYSIS_RECORD_KINDS.forEach(kind => legacyStorage.removeRecord(analysisId, kind));
+    ANALYSIS_LOG_KINDS.forEach(kind => legacyStorage.removeLog(analysisId, kind));
+  }
+
+  async getAnalysisSizes() {
+    const database = await this.open();
+    const documents = await requestResult<AnalysisDocument[]>(
+      database.transaction(ANALYSES_STORE).objectStore(ANALYSES_STORE).getAll()
+    );
+    return Object.fromEntries(documents.map(document => [document.analysisId, getSize(document)]));
+  }
+
+  async loadSnapshots(analysisId: string) {
+    const database = await this.open();
+    const snapshots = await requestResult<AnalysisSnapshot[]>(
+      database
+        .transaction(SNAPSHOTS_STORE)
+        .objectStore(SNAPSHOTS_STORE)
+        .index(ANALYSIS_ID_INDEX)
+        .getAll(analysisId)
+    );
+    return snapshots.map(upgradeSnapshot).sort(byNewest);
+  }
+
+  async saveSnapshot(snapshot: AnalysisSnapshot) {
+    await this.write(SNAPSHOTS_STORE, store =>
+      store.put({ ...snapshot, schemaVersion: CURRENT_SCHEMA_VERSION })
+    );
+  }
+
+  async deleteSnapshot(_analysisId: string, snapshotId: string) {
+    await this.write(SNAPSHOTS_STORE, store => store.delete(snapshotId));
+  }
+
+  // Records written to localStorage by earlier versions are read until saved here
+  async loadRecord<T>(analysisId: string, kind: AnalysisRecordKind) {
+    const record = await this.read<{ value: T }>(RECORDS_STORE, [analysisId, kind]);
+    return record ? record.value : legacyStorage.readRecord<T>(analysisId, kind);
+  }
+
+  async saveRecord(analysisId: string, kind: AnalysisRecordKind, value: unknown) {
+    await this.write(RECORDS_STORE, store =>
+      value === null ? store.delete([analysisId, kind]) : store.put({ analysisId, kind, value })
+    );
+    legacyStorage.removeRecord(analysisId, kind);
+  }
+
+  // Entries written to localStorage by earlier versions come first until appended here
+  async loadLog<T>(analysisId: string, kind: AnalysisLogKind) {
+    const database = await this.open();
+    const stored = await requestResult<{ entry: T }[]>(
+      database
+        .transaction(LOGS_STORE)
+        .objectStore(LOGS_STORE)
+        .index(ANALYSIS_LOG_INDEX)
+        .getAll([analysisId, kind])
+    );
+    return [...legacyStorage.readLog<T>(analysisId, kind), ...stored.map(({ entry }) => entry)];
+  }
+
+  async appendToLog(analysisId: string, kind: AnalysisLogKind, entries: unknown[]) {
+    const legacyEntries = legacyStorage.readLog(analysisId, kind);
+    await this.write(LOGS_STORE, store =>
+      [...legacyEntries, ...entries].forEach(entry => store.add({ analysisId, kind, entry }))
+    );
+    if (legacyEntries.length > 0) legacyStorage.removeLog(analysisId, kind);
+  }
+
+  /**
+   * Copies the localStorage data in one transaction, unless another tab already
+   * did, then removes it from localStorage
+   */
+  async migrateFrom(legacy: LocalStorageAnalysisStorage) {
+    const projects = legacy.readProjects();
+    if (!projects) return;
+
+    const analysisIds = projects.flatMap(project => project.analyses.map(a => a.id));
+    const documents = analysisIds
+      .map(analysisId => legacy.readDocument(analysisId))
+      .filter((document): document is AnalysisDocument => document !== null);
+
+    const database = await this.open();
+    const transaction = database.transaction([META_STORE, ANALYSES_STORE], 'readwrite');
+    const meta = transaction.objectStore(META_STORE);
+    const marker = meta.get(MIGRATION_RECORD);
+    marker.onsuccess = () => {
+      if (marker.result) return;
+      meta.put(projects, PROJECTS_RECORD);
+      documents.forEach(document => transaction.objectStore(ANALYSES_STORE).put(document));
+      meta.put(new Date().toISOString(), MIGRATION_RECORD);
+    };
+    await transactionComplete(transaction);
+
+    legacy.clear(analysisIds);
+  }
+}
+
+const legacyStorage = new LocalStorageAnalysisStorage();
+
+/**
+ * IndexedDB where the browser provides it, the localStorage layout otherwise
+ */
+export const analysisStorage: AnalysisStorage =
+  typeof indexedDB !== 'undefined' ? new IndexedDBAnalysisStorage() : legacyStorage;
+
+let initialization: Promise<void> | null = null;
+
+/**
+ * Moves data saved by earlier versions to the storage backend. Runs once per
+ * session; the projects must not be loaded before it completes.
+ */
+export const initializeAnalysisStorage = () => {
+  if (!initialization) {
+    initialization =
+      analysisStorage instanceof IndexedDBAnalysisStorage
+        ? analysisStorage.migrateFrom(legacyStorage).catch(error => {
+            console.error('Failed to migrate data from localStorage:', error);
+          })
+        : Promise.resolve();
+  }
+  return initialization;
+};
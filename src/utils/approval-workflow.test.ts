@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisApproval, SignOff, SignOffAction, WorkflowRole } from '@/types/types';
+import { getApprovalSignOff, getReviewCycle, getSignOffBlocker } from './approval-workflow';
+
+const signOff = (
+  action: SignOffAction,
+  role: WorkflowRole,
+  userId: string,
+  contentHash = 'hash'
+): SignOff => ({
+  id: `${action}-${userId}`,
+  action,
+  role,
+  userId,
+  userName: userId,
+  signedAt: '2026-01-01T00:00:00.000Z',
+  contentHash,
+});
+
+// Submitted by the analyst and reviewed by the reviewer
+const reviewed: AnalysisApproval = {
+  status: 'in-review',
+  signOffs: [signOff('submit', 'analyst', 'analyst'), signOff('review', 'reviewer', 'reviewer')],
+};
+
+describe('getReviewCycle', () => {
+  it('starts at the latest submission', () => {
+    const signOffs = [
+      signOff('submit', 'analyst', 'analyst'),
+      signOff('return', 'reviewer', 'reviewer'),
+      signOff('submit', 'analyst', 'analyst-2'),
+    ];
+
+    expect(getReviewCycle({ status: 'in-review', signOffs })).toEqual(signOffs.slice(2));
+    expect(getReviewCycle(undefined)).toEqual([]);
+  });
+});
+
+describe('getApprovalSignOff', () => {
+  it('is the approval of an approved analysis', () => {
+    const approval = signOff('approve', 'approver', 'approver');
+
+    expect(
+      getApprovalSignOff({ status: 'approved', signOffs: [...reviewed.signOffs, approval] })
+    ).toBe(approval);
+    expect(getApprovalSignOff(reviewed)).toBeNull();
+  });
+});
+
+describe('getSignOffBlocker', () => {
+  it('allows an approver to approve reviewed content', () => {
+    expect(getSignOffBlocker(reviewed, 'approve', 'approver', ['approver'], 'hash')).toBeNull();
+  });
+
+  it('refuses sign-offs from another status or role', () => {
+    expect(getSignOffBlocker(undefined, 'approve', 'approver', ['approver'], 'hash')).toBe(
+      'Not possible while the analysis is draft'
+    );
+    expect(getSignOffBlocker(reviewed, 'approve', 'reviewer-2', ['reviewer'], 'hash')).toBe(
+      'Requires the Approver role'
+    );
+  });
+
+  it('refuses approval before review or after changes', () => {
+    const submitted: AnalysisApproval = { status: 'in-review', signOffs: [reviewed.signOffs[0]] };
+
+    expect(getSignOffBlocker(submitted, 'approve', 'approver', ['approver'], 'hash')).toBe(
+      'The analysis has not been reviewed yet'
+    );
+    expect(getSignOffBlocker(reviewed, 'approve', 'approver', ['approver'], 'changed')).toBe(
+      'The analysis changed since it was last reviewed'
+    );
+  });
+
+  it('refuses approval by the analyst or a reviewer of the cycle', () => {
+    const roles: WorkflowRole[] = ['analyst', 'reviewer', 'approver'];
+
+    expect(getSignOffBlocker(reviewed, 'approve', 'analyst', roles, 'hash')).toBe(
+      'Must be approved by someone who did not submit or review it'
+    );
+    expect(getSignOffBlocker(reviewed, 'approve', 'reviewer', roles, 'hash')).toBe(
+      'Must be approved by someone who did not submit or review it'
+    );
+  });
+
+  it('allows approval by someone who only took part in an earlier cycle', () => {
+    const approval: AnalysisApproval = {
+      status: 'in-review',
+      signOffs: [
+        signOff('submit', 'analyst', 'lead'),
+        signOff('return', 'reviewer', 'reviewer'),
+        ...reviewed.signOffs,
+      ],
+    };
+
+    expect(getSignOffBlocker(approval, 'approve', 'lead', ['approver'], 'hash')).toBeNull();
+  });
+
+  it('requires a comment to return or reopen', () => {
+    expect(getSignOffBlocker(reviewed, 'return', 'reviewer', ['reviewer'], 'hash', ' ')).toBe(
+      'A comment is required'
+    );
+    expect(
+      getSignOffBlocker(reviewed, 'return', 'reviewer', ['reviewer'], 'hash', 'Missing UCAs')
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,150 @@
+// Approval workflow of analysis baselines: draft → review → approved
+import {
+  AnalysisApproval,
+  AnalysisSession,
+  ApprovalStatus,
+  SignOff,
+  SignOffAction,
+  WorkflowRole,
+} from '@/types/types';
+import { HISTORY_KEYS, HistoryKey, HistorySnapshot } from './analysis-history';
+import { storageManager } from './storage-manager';
+
+export interface SignOffTransition {
+  label: string;
+  from: ApprovalStatus;
+  to: ApprovalStatus;
+  roles: WorkflowRole[]; // Any of them may sign
+  requiresComment: boolean;
+}
+
+export const SIGN_OFF_TRANSITIONS: Record<SignOffAction, SignOffTransition> = {
+  submit: {
+    label: 'Submit for review',
+    from: 'draft',
+    to: 'in-review',
+    roles: ['analyst'],
+    requiresComment: false,
+  },
+  review: {
+    label: 'Sign off review',
+    from: 'in-review',
+    to: 'in-review',
+    roles: ['reviewer'],
+    requiresComment: false,
+  },
+  approve: {
+    label: 'Approve baseline',
+    from: 'in-review',
+    to: 'approved',
+    roles: ['approver'],
+    requiresComment: false,
+  },
+  return: {
+    label: 'Return to draft',
+    from: 'in-review',
+    to: 'draft',
+    roles: ['reviewer', 'approver'],
+    requiresComment: true,
+  },
+  reopen: {
+    label: 'Reopen for changes',
+    from: 'approved',
+    to: 'draft',
+    roles: ['approver'],
+    requiresComment: true,
+  },
+};
+
+export const APPROVAL_STATUS_LABELS: Record<ApprovalStatus, string> = {
+  draft: 'Draft',
+  'in-review': 'In review',
+  approved: 'Approved',
+};
+
+export const WORKFLOW_ROLE_LABELS: Record<WorkflowRole, string> = {
+  analyst: 'Analyst',
+  reviewer: 'Reviewer',
+  approver: 'Approver',
+};
+
+// Review discussions go on after approval, so they are not part of the signed content
+const UNSIGNED_KEYS: HistoryKey[] = ['commentThreads', 'comments', 'reviewStatuses'];
+
+export const SIGNED_CONTENT_KEYS = HISTORY_KEYS.filter(key => !UNSIGNED_KEYS.includes(key));
+
+// Objects with their keys sorted, so the hash doesn't depend on the order fields were set in
+const canonicalize = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(
+    Object.keys(value)
+      .sort()
+      .map(key => [key, canonicalize((value as Record<string, unknown>)[key])])
+  );
+};
+
+/**
+ * Hash of the signed content of an analysis
+ */
+export const calculateContentHash = (data: HistorySnapshot): string =>
+  storageManager.calculateChecksum(
+    canonicalize(Object.fromEntries(SIGNED_CONTENT_KEYS.map(key => [key, data[key] ?? null])))
+  );
+
+export const getApprovalStatus = (session: AnalysisSession | null): ApprovalStatus =>
+  session?.approval?.status ?? 'draft';
+
+/**
+ * Sign-offs since the analysis was last submitted for review
+ */
+export const getReviewCycle = (approval: AnalysisApproval | undefined): SignOff[] => {
+  const signOffs = approval?.signOffs ?? [];
+  const submitted = signOffs.map(signOff => signOff.action).lastIndexOf('submit');
+  return submitted === -1 ? [] : signOffs.slice(submitted);
+};
+
+/**
+ * The latest approval, while the analysis is approved
+ */
+export const getApprovalSignOff = (approval: AnalysisApproval | undefined): SignOff | null =>
+  approval?.status === 'approved'
+    ? (getReviewCycle(approval)
+        .filter(signOff => signOff.action === 'approve')
+        .pop() ?? null)
+    : null;
+
+/**
+ * Why the user can't sign off the analysis in this way, or null if they can. The
+ * analyst and reviewers of a review cycle can't approve its outcome themselves.
+ */
+export const getSignOffBlocker = (
+  approval: AnalysisApproval | undefined,
+  action: SignOffAction,
+  userId: string,
+  workflowRoles: WorkflowRole[],
+  contentHash: string,
+  comment?: string
+): string | null => {
+  const transition = SIGN_OFF_TRANSITIONS[action];
+  const status = approval?.status ?? 'draft';
+  if (status !== transition.from) {
+    return `Not possible while the analysis is ${APPROVAL_STATUS_LABELS[status].toLowerCase()}`;
+  }
+  if (!transition.roles.some(role => workflowRoles.includes(role))) {
+    return `Requires the ${transition.roles.map(role => WORKFLOW_ROLE_LABELS[role]).join(' or ')} role`;
+  }
+  if (action === 'approve') {
+    const cycle = getReviewCycle(approval);
+    const reviews = cycle.filter(signOff => signOff.action === 'review');
+    if (reviews.length === 0) return 'The analysis has not been reviewed yet';
+    if (reviews[reviews.length - 1].contentHash !== contentHash) {
+      return 'The analysis changed since it was last reviewed';
+    }
+    if (cycle.some(signOff => signOff.userId === userId)) {
+      return 'Must be approved by someone who did not submit or review it';
+    }
+  }
+  if (transition.requiresComment && !comment?.trim()) return 'A comment is required';
+  return null;
+};
@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { analysisStorage } from './analysis-storage';
+import { AuditEvent, AuditTrailService, describeAuditEntity } from './audit-trail';
+import { ErrorHandler } from './error-handling';
+
+const recordHazard = (service: AuditTrailService, id: string) =>
+  service.recordEntityChange('HAZARD', 'CREATE', {
+    entityId: id,
+    newValue: { id, code: id.toUpperCase(), title: 'Loss of braking' },
+  });
+
+// Events are appended in the background
+const flush = () => new Promise(resolve => setTimeout(resolve));
+
+const getEventIds = (service: AuditTrailService) =>
+  service.queryEvents({}).map(event => event.entityId);
+
+beforeEach(() => {
+  localStorage.clear();
+  vi.restoreAllMocks();
+});
+
+describe('describeAuditEntity', () => {
+  it('labels an entity by its code and text', () => {
+    expect(describeAuditEntity({ id: 'h1', code: 'H-1', title: 'Loss of braking' })).toBe(
+      'H-1 Loss of braking'
+    );
+    expect(describeAuditEntity({ id: 'ca1', verb: 'APPLY', object: 'BRAKES' })).toBe(
+      'APPLY BRAKES'
+    );
+  });
+
+  it('ignores fields that are no text', () => {
+    expect(describeAuditEntity({ id: 'c1', name: 42, description: 'Autobrake' })).toBe('Autobrake');
+    expect(describeAuditEntity({ id: 7 })).toBe('');
+    expect(describeAuditEntity(['h1'])).toBe('');
+    expect(describeAuditEntity(null)).toBe('');
+  });
+});
+
+describe('AuditTrailService', () => {
+  it('loads the persisted events of an analysis', async () => {
+    const service = new AuditTrailService();
+    service.setAnalysis('a1');
+    recordHazard(service, 'h1');
+    await flush();
+
+    const reloaded = new AuditTrailService();
+    reloaded.setAnalysis('a1');
+    await flush();
+
+    const [event] = reloaded.queryEvents({});
+    expect(event.entityId).toBe('h1');
+    expect(event.description).toBe('Created hazard: H1 Loss of braking');
+    expect(event.timestamp).toBeInstanceOf(Date);
+  });
+
+  it('keeps the events of every tab', async () => {
+    const tab1 = new AuditTrailService();
+    const tab2 = new AuditTrailService();
+    tab1.setAnalysis('a1');
+    tab2.setAnalysis('a1');
+    await flush();
+
+    recordHazard(tab1, 'h1');
+    recordHazard(tab2, 'h2');
+    await flush();
+
+    const reloaded = new AuditTrailService();
+    reloaded.setAnalysis('a1');
+    await flush();
+    expect(getEventIds(reloaded).sort()).toEqual(['h1', 'h2']);
+  });
+
+  it('keeps events recorded while the trail loads', async () => {
+    const previous = new AuditTrailService();
+    previous.setAnalysis('a1');
+    recordHazard(previous, 'h1');
+    await flush();
+
+    const service = new AuditTrailService();
+    service.setAnalysis('a1');
+    recordHazard(service, 'h2');
+    await flush();
+
+    expect(getEventIds(service).sort()).toEqual(['h1', 'h2']);
+  });
+
+  it('reports events it could not save once until saving works again', async () => {
+    const handleError = vi.spyOn(ErrorHandler, 'handleError').mockImplementation(() => {});
+    const appendToLog = vi
+      .spyOn(analysisStorage, 'appendToLog')
+      .mockRejectedValue(new Error('QuotaExceededError'));
+    const service = new AuditTrailService();
+    service.setAnalysis('a1');
+
+    recordHazard(service, 'h1');
+    recordHazard(service, 'h2');
+    await flush();
+    expect(handleError).toHaveBeenCalledTimes(1);
+    expect(getEventIds(service)).toHaveLength(2);
+
+    appendToLog.mockResolvedValue();
+    recordHazard(service, 'h3');
+    await flush();
+    appendToLog.mockRejectedValue(new Error('QuotaExceededError'));
+    recordHazard(service, 'h4');
+    await flush();
+    expect(handleError).toHaveBeenCalledTimes(2);
+  });
+
+  it('forgets the events of a deleted analysis', async () => {
+    const service = new AuditTrailService();
+    const listener = vi.fn<(event?: AuditEvent) => void>();
+    service.setAnalysis('a1');
+    recordHazard(service, 'h1');
+    service.subscribe(listener);
+
+    service.deleteAnalysisEvents('a1');
+
+    expect(service.getAnalysisId()).toBeNull();
+    expect(service.queryEvents({})).toEqual([]);
+    expect(listener).toHaveBeenCalled();
+  });
+});
@@ -1,4 +1,8 @@
 // Comprehensive audit trail system for safety compliance
+import { WorkflowRole } from '@/types/types';
+import { analysisStorage } from './analysis-storage';
+import { ErrorHandler, SafetyAnalysisError, createErrorContext } from './error-handling';
+
 export interface AuditEvent {
   id: string;
   timestamp: Date;
@@ -11,8 +15,8 @@ export interface AuditEvent {
   entityId: string;
   action: string;
   description: string;
-  oldValue?: any;
-  newValue?: any;
+  oldValue?: unknown;
+  newValue?: unknown;
   metadata: {
     applicationVersion: string;
     methodologyVersion: string;
@@ -62,24 +66,173 @@ export interface AuditSummary {
   };
 }
 
+/**
+ * The user of this browser, recorded with every audit event and sign-off
+ */
+export interface UserIdentity {
+  id: string;
+  name: string;
+  role: string; // Job title, e.g. "Safety Engineer"
+  workflowRoles: WorkflowRole[]; // Duties in the approval workflow
+}
+
+const USER_STORAGE_KEY = 'stamp-user-identity';
+
+const DEFAULT_USER: UserIdentity = {
+  id: 'system-user',
+  name: 'System User',
+  role: 'Safety Engineer',
+  workflowRoles: ['analyst'],
+};
+
+export type AuditEntityChange = 'CREATE' | 'UPDATE' | 'DELETE';
+
+const ENTITY_EVENT_TYPES: Record<AuditEntityChange, string> = {
+  CREATE: 'ENTITY_CREATED',
+  UPDATE: 'ENTITY_UPDATED',
+  DELETE: 'ENTITY_DELETED',
+};
+
+const ENTITY_CHANGE_VERBS: Record<AuditEntityChange, string> = {
+  CREATE: 'Created',
+  UPDATE: 'Modified',
+  DELETE: 'Deleted',
+};
+
+/**
+ * Short human-readable label for an analysis entity, e.g. "H-1 Aircraft too close to terrain"
+ */
+export const describeAuditEntity = (entity: unknown): string => {
+  if (!entity || typeof entity !== 'object' || Array.isArray(entity)) return '';
+  const fields = entity as Record<string, unknown>;
+  // Only text fields describe the entity
+  const text = (field: string) => {
+    const value = fields[field];
+    return typeof value === 'string' ? value : '';
+  };
+  const label =
+    text('title') ||
+    text('name') ||
+    text('text') ||
+    (text('verb') && `${text('verb')} ${text('object')}`.trim()) ||
+    text('description') ||
+    text('controls') ||
+    text('feedback');
+  return [text('code'), label].filter(Boolean).join(' ') || text('id');
+};
+
+const reportAuditStorageError = (action: string, message: string, error: unknown) => {
+  const context = createErrorContext('AuditTrailService', action, {
+    error: error instanceof Error ? error.message : String(error),
+  });
+  ErrorHandler.handleError(
+    new SafetyAnalysisError('AUDIT_STORAGE_ERROR', message, 'high', context, {
+      title: 'Audit Trail Not Saved',
+    }),
+    context
+  );
+};
+
 /**
  * Comprehensive audit trail service for safety compliance
  */
 export class AuditTrailService {
   private events: AuditEvent[] = [];
+  private analysisId: string | null = null;
+  private listeners = new Set<(event?: AuditEvent) => void>();
+  private userListeners = new Set<(user: UserIdentity) => void>();
   private sessionId: string;
-  private currentUser: {
-    id: string;
-    name: string;
-    role: string;
-  };
+  private currentUser: UserIdentity;
+  private persistFailed = false; // Reported once until events are saved again
 
   constructor() {
     this.sessionId = this.generateSessionId();
+    this.currentUser = this.loadCurrentUser();
+  }
+
+  /**
+   * Switch to the audit trail of an analysis; its persisted events are loaded in the
+   * background. Events are kept in memory only while no analysis is selected.
+   */
+  setAnalysis(analysisId: string | null): void {
+    if (analysisId === this.analysisId) return;
+    this.analysisId = analysisId;
+    this.events = [];
+    this.notifyListeners();
+    if (analysisId) this.loadEvents(analysisId);
+  }
+
+  getAnalysisId(): string | null {
+    return this.analysisId;
+  }
+
+  /**
+   * Forget the events of a deleted analysis. The trail is only viewed within its
+   * analysis, so the storage deletes it with the analysis instead of keeping it
+   * unreachable.
+   */
+  deleteAnalysisEvents(analysisId: string): void {
+    if (analysisId !== this.analysisId) return;
+    // Events recorded until another analysis is selected are no longer persisted
+    this.analysisId = null;
+    this.events = [];
+    this.notifyListeners();
+  }
+
+  getCurrentUser(): UserIdentity {
+    return { ...this.currentUser, workflowRoles: [...this.currentUser.workflowRoles] };
+  }
+
+  /**
+   * Update the identity of this browser's user. The default user gets an id of its
+   * own on the first change, so sign-offs of different people can be told apart.
+   */
+  setCurrentUser(updates: Partial<Omit<UserIdentity, 'id'>>): void {
+    const previous = this.currentUser;
     this.currentUser = {
-      id: 'system-user',
-      name: 'System User',
-      role: 'Safety Engineer',
+      ...previous,
+      ...updates,
+      id: previous.id === DEFAULT_USER.id ? `user-${this.generateId()}` : previous.id,
+    };
+    try {
+      localStorage.setItem(USER_STORAGE_KEY, JSON.stringify(this.currentUser));
+    } catch (error) {
+      console.error('Failed to save user identity:', error);
+    }
+
+    if (previous.workflowRoles.join() !== this.currentUser.workflowRoles.join()) {
+      this.recordEvent({
+        eventType: 'USER_ROLES_CHANGED',
+        entityType: 'USER',
+        entityId: this.currentUser.id,
+        action: 'UPDATE',
+        description: `Changed workflow roles of ${this.currentUser.name} to ${this.currentUser.workflowRoles.join(', ') || 'none'}`,
+        oldValue: previous,
+        newValue: this.currentUser,
+        metadata: { changeSize: 'major', automatedAction: false },
+      });
+    }
+    this.userListeners.forEach(listener => listener(this.getCurrentUser()));
+  }
+
+  /**
+   * Subscribe to changes of the current user. Returns the unsubscribe function.
+   */
+  subscribeToUser(listener: (user: UserIdentity) => void): () => void {
+    this.userListeners.add(listener);
+    return () => {
+      this.userListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe to changes of the audit trail; listeners receive each recorded event.
+   * Returns the unsubscribe function.
+   */
+  subscribe(listener: (event?: AuditEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
     };
   }
 
@@ -92,8 +245,8 @@ export class AuditTrailService {
     entityId: string;
     action: string;
     description: string;
-    oldValue?: any;
-    newValue?: any;
+    oldValue?: unknown;
+    newValue?: unknown;
     metadata?: Partial<AuditEvent['metadata']>;
     complianceContext?: AuditEvent['complianceContext'];
   }): void {
@@ -120,9 +273,38 @@ export class AuditTrailService {
     };
 
     this.events.push(event);
+    this.persistEvent(event);
     this.notifyAuditEvent(event);
   }
 
+  /**
+   * Record the creation, modification or deletion of an analysis entity
+   */
+  recordEntityChange(
+    entityType: string,
+    action: AuditEntityChange,
+    change: { entityId: string; oldValue?: unknown; newValue?: unknown }
+  ): void {
+    const label = describeAuditEntity(change.newValue ?? change.oldValue);
+    const entityName = entityType.toLowerCase().replace(/_/g, ' ');
+    this.recordEvent({
+      eventType: ENTITY_EVENT_TYPES[action],
+      entityType,
+      entityId: change.entityId,
+      action,
+      description: `${ENTITY_CHANGE_VERBS[action]} ${entityName}${label ? `: ${label}` : ''}`,
+      oldValue: change.oldValue,
+      newValue: change.newValue,
+      metadata: {
+        changeSize:
+          action === 'UPDATE'
+            ? this.calculateChangeSize(change.oldValue, change.newValue)
+            : 'major',
+        automatedAction: false,
+      },
+    });
+  }
+
   /**
    * Record UCA creation event
    */
@@ -262,7 +444,8 @@ export class AuditTrailService {
    * Query audit events
    */
   queryEvents(query: AuditQuery): AuditEvent[] {
-    let filteredEvents = [...this.events];
+    // Reversed so events recorded within the same millisecond also come out newest first
+    let filteredEvents = [...this.events].reverse();
 
     if (query.startDate) {
       filteredEvents = filteredEvents.filter(event => event.timestamp >= query.startDate!);
@@ -305,7 +488,10 @@ export class AuditTrailService {
    * Generate audit summary
    */
   generateSummary(query?: AuditQuery): AuditSummary {
-    const events = query ? this.queryEvents(query) : this.events;
+    // Summarise every matching event, not just the first page
+    const events = query
+      ? this.queryEvents({ ...query, offset: 0, limit: this.events.length })
+      : this.events;
 
     const eventsByType: Record<string, number> = {};
     const eventsByEntity: Record<string, number> = {};
@@ -396,14 +582,21 @@ export class AuditTrailService {
   }
 
   private generateEventId(): string {
-    return `audit-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    return `audit-${this.generateId()}`;
+  }
+
+  private generateId(): string {
+    return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   }
 
   private generateSessionId(): string {
     return `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   }
 
-  private calculateChangeSize(oldValue: any, newValue: any): 'minor' | 'major' | 'critical' {
+  private calculateChangeSize(
+    oldValue: unknown,
+    newValue: unknown
+  ): 'minor' | 'major' | 'critical' {
     if (!oldValue) return 'major';
 
     // Simple heuristic - can be enhanced
@@ -416,10 +609,63 @@ export class AuditTrailService {
     return 'minor';
   }
 
+  private loadCurrentUser(): UserIdentity {
+    try {
+      const stored = localStorage.getItem(USER_STORAGE_KEY);
+      return stored ? { ...DEFAULT_USER, ...JSON.parse(stored) } : { ...DEFAULT_USER };
+    } catch (error) {
+      console.error('Failed to load user identity:', error);
+      return { ...DEFAULT_USER };
+    }
+  }
+
+  // Events recorded while loading come after the stored ones
+  private async loadEvents(analysisId: string): Promise<void> {
+    try {
+      const stored = await analysisStorage.loadLog<AuditEvent>(analysisId, 'auditTrail');
+      if (analysisId !== this.analysisId) return;
+      const storedIds = new Set(stored.map(event => event.id));
+      this.events = [
+        ...stored.map(event => ({ ...event, timestamp: new Date(event.timestamp) })),
+        ...this.events.filter(event => !storedIds.has(event.id)),
+      ];
+      this.notifyListeners();
+    } catch (error) {
+      reportAuditStorageError(
+        'loadEvents',
+        'The audit trail of this analysis could not be read. Changes are still recorded.',
+        error
+      );
+    }
+  }
+
+  // Each event is appended on its own, so the trails of several tabs are all kept
+  private persistEvent(event: AuditEvent): void {
+    if (!this.analysisId) return;
+    analysisStorage
+      .appendToLog(this.analysisId, 'auditTrail', [event])
+      .then(() => {
+        this.persistFailed = false;
+      })
+      .catch(error => {
+        // Never drop audit events silently; they stay in memory for this session
+        if (this.persistFailed) return;
+        this.persistFailed = true;
+        reportAuditStorageError(
+          'persistEvent',
+          'Audit events of this analysis could not be saved and will be lost on reload. Free up storage space.',
+          error
+        );
+      });
+  }
+
+  private notifyListeners(event?: AuditEvent): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+
   private notifyAuditEvent(event: AuditEvent): void {
-    // Audit event notification
-    // In production, this would send to logging service, database, etc.
-    // Event details: eventType, description, entity, user, timestamp
+    // In production, this would also send the event to a logging service or database
+    this.notifyListeners(event);
   }
 }
 
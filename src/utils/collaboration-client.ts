@@ -0,0 +1,305 @@
+// Connection to the self-hosted relay that replicates an analysis between collaborators
+import { v4 as uuidv4 } from 'uuid';
+import { HistoryKey } from './analysis-history';
+import { analysisStorage } from './analysis-storage';
+import { CrdtOperation, CrdtRegisters } from './crdt';
+import { ErrorHandler, SafetyAnalysisError, createErrorContext } from './error-handling';
+
+export const DEFAULT_COLLABORATION_SERVER = 'ws://localhost:4455';
+
+export interface CollaborationSettings {
+  enabled: boolean; // Join the room of the open analysis
+  serverUrl: string;
+  displayName: string; // Empty for the name of the current user
+}
+
+// The entity a collaborator is editing
+export interface PresenceFocus {
+  collection: HistoryKey;
+  entityId: string;
+}
+
+export interface CollaborationPeer {
+  clientId: string;
+  name: string;
+  color: string;
+  focus: PresenceFocus | null;
+}
+
+/**
+ * `offline` means the session is active but the relay can't be reached: edits are
+ * queued and sent when the connection is back.
+ */
+export type CollaborationStatus = 'disconnected' | 'connecting' | 'connected' | 'offline';
+
+// Messages from the relay; see server/sync-relay.js
+type RelayMessage =
+  | { type: 'welcome'; operations: CrdtOperation[]; peers: CollaborationPeer[] }
+  | { type: 'operations'; operations: CrdtOperation[] }
+  | { type: 'ack'; batchId: string }
+  | { type: 'peers'; peers: CollaborationPeer[] }
+  | { type: 'error'; message: string };
+
+interface OperationBatch {
+  batchId: string;
+  operations: CrdtOperation[];
+}
+
+export interface CollaborationClientOptions {
+  serverUrl: string;
+  room: string; // The analysis id
+  peer: Omit<CollaborationPeer, 'focus'>;
+  onOperations: (operations: CrdtOperation[]) => void; // Operations of collaborators
+  onPeers: (peers: CollaborationPeer[]) => void; // Other collaborators in the room
+  onStatus: (status: CollaborationStatus) => void;
+  onError: (message: string) => void;
+}
+
+const SETTINGS_KEY = 'stamp-collaboration';
+const MAX_RECONNECT_DELAY = 30000;
+
+const PEER_COLORS = ['#2563eb', '#db2777', '#16a34a', '#ea580c', '#7c3aed', '#0891b2', '#ca8a04'];
+
+export const loadCollaborationSettings = (): CollaborationSettings => {
+  const defaults = { enabled: false, serverUrl: DEFAULT_COLLABORATION_SERVER, displayName: '' };
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...defaults, ...JSON.parse(stored) } : defaults;
+  } catch (error) {
+    console.error('Failed to load collaboration settings:', error);
+    return defaults;
+  }
+};
+
+export const saveCollaborationSettings = (settings: CollaborationSettings): void => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save collaboration settings:', error);
+  }
+};
+
+export const getPeerColor = (clientId: string) => {
+  const hash = [...clientId].reduce((sum, char) => (sum * 31 + char.charCodeAt(0)) >>> 0, 0);
+  return PEER_COLORS[hash % PEER_COLORS.length];
+};
+
+// Lost replicas or queued edits must not go unnoticed, e.g. when storage is full
+const reportStorageError = (action: string, message: string, error: unknown) => {
+  const context = createErrorContext('CollaborationClient', action, {
+    error: error instanceof Error ? error.message : String(error),
+  });
+  ErrorHandler.handleError(
+    new SafetyAnalysisError('COLLABORATION_STORAGE_ERROR', message, 'high', context, {
+      title: 'Collaboration Storage Error',
+    }),
+    context
+  );
+};
+
+/**
+ * Registers of the analysis as last replicated. Null if the analysis was never
+ * shared from this browser.
+ */
+export const loadReplicaRegisters = async (analysisId: string): Promise<CrdtRegisters | null> => {
+  try {
+    return await analysisStorage.loadRecord<CrdtRegisters>(analysisId, 'collabReplica');
+  } catch (error) {
+    reportStorageError(
+      'loadReplicaRegisters',
+      'The collaboration state of this analysis could not be read. Your changes are sent to collaborators as new edits.',
+      error
+    );
+    return null;
+  }
+};
+
+// Registers are saved on every change; a failure is reported once until a save succeeds
+let replicaSaveFailed = false;
+
+export const saveReplicaRegisters = (analysisId: string, registers: CrdtRegisters): void => {
+  analysisStorage
+    .saveRecord(analysisId, 'collabReplica', registers)
+    .then(() => {
+      replicaSaveFailed = false;
+    })
+    .catch(error => {
+      if (replicaSaveFailed) return;
+      replicaSaveFailed = true;
+      reportStorageError(
+        'saveReplicaRegisters',
+        'The collaboration state of this analysis could not be saved. Free up storage space to keep merging changes made offline.',
+        error
+      );
+    });
+};
+
+/**
+ * Member of one room of the relay. Operations are kept in a persisted outbox until
+ * the relay confirms them, so edits made offline or before a reload are sent once
+ * the connection is back.
+ */
+export class CollaborationClient {
+  private readonly options: CollaborationClientOptions;
+  private socket: WebSocket | null = null;
+  private outbox: OperationBatch[] = [];
+  private outboxLoaded: Promise<void>;
+  private outboxWrites: Promise<void> = Promise.resolve();
+  private focus: PresenceFocus | null = null;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+
+  constructor(options: CollaborationClientOptions) {
+    this.options = options;
+    this.outboxLoaded = this.loadOutbox();
+    window.addEventListener('online', this.handleOnline);
+  }
+
+  private handleOnline = () => {
+    if (this.socket || this.closed) return;
+    this.reconnectAttempts = 0;
+    this.connect();
+  };
+
+  connect(): void {
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.options.onStatus(this.reconnectAttempts === 0 ? 'connecting' : 'offline');
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.options.serverUrl);
+    } catch (error) {
+      // An invalid URL; retrying won't help
+      this.options.onStatus('disconnected');
+      this.options.onError(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.send({
+        type: 'join',
+        room: this.options.room,
+        peer: { ...this.options.peer, focus: this.focus },
+      });
+      void this.outboxLoaded.then(() =>
+        this.outbox.forEach(batch => this.send({ type: 'operations', ...batch }))
+      );
+    };
+    socket.onmessage = event => {
+      try {
+        this.handleMessage(JSON.parse(event.data));
+      } catch (error) {
+        console.error('Failed to read collaboration message:', error);
+      }
+    };
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      if (this.closed) return;
+      this.options.onStatus('offline');
+      this.options.onPeers([]);
+      const delay = Math.min(MAX_RECONNECT_DELAY, 1000 * 2 ** this.reconnectAttempts);
+      this.reconnectAttempts += 1;
+      this.reconnectTimer = setTimeout(() => this.connect(), delay);
+    };
+  }
+
+  close(): void {
+    this.closed = true;
+    window.removeEventListener('online', this.handleOnline);
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.socket?.close();
+    this.socket = null;
+    this.options.onStatus('disconnected');
+  }
+
+  /**
+   * Sends local operations; they are queued while the relay can't be reached
+   */
+  sendOperations(operations: CrdtOperation[]): void {
+    if (operations.length === 0) return;
+    const batch = { batchId: uuidv4(), operations };
+    this.outbox.push(batch);
+    this.saveOutbox();
+    this.send({ type: 'operations', ...batch });
+  }
+
+  setFocus(focus: PresenceFocus | null): void {
+    this.focus = focus;
+    this.send({ type: 'presence', focus });
+  }
+
+  private send(message: object) {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private handleMessage(message: RelayMessage) {
+    switch (message.type) {
+      case 'welcome':
+        this.options.onStatus('connected');
+        this.options.onOperations(message.operations);
+        this.options.onPeers(this.withoutSelf(message.peers));
+        break;
+      case 'operations':
+        this.options.onOperations(message.operations);
+        break;
+      case 'ack':
+        this.outbox = this.outbox.filter(batch => batch.batchId !== message.batchId);
+        this.saveOutbox();
+        break;
+      case 'peers':
+        this.options.onPeers(this.withoutSelf(message.peers));
+        break;
+      case 'error':
+        this.options.onError(message.message);
+        break;
+    }
+  }
+
+  private withoutSelf(peers: CollaborationPeer[]) {
+    return peers.filter(peer => peer.clientId !== this.options.peer.clientId);
+  }
+
+  // Batches queued before the stored ones were read are sent after them
+  private async loadOutbox() {
+    try {
+      const stored = await analysisStorage.loadRecord<OperationBatch[]>(
+        this.options.room,
+        'collabOutbox'
+      );
+      this.outbox = [...(stored ?? []), ...this.outbox];
+    } catch (error) {
+      reportStorageError(
+        'loadOutbox',
+        'Changes queued while offline could not be read and will not be sent to collaborators.',
+        error
+      );
+    }
+  }
+
+  // Written in order, and only once the stored outbox was read so it isn't overwritten
+  private saveOutbox() {
+    this.outboxWrites = this.outboxWrites
+      .then(() => this.outboxLoaded)
+      .then(() =>
+        analysisStorage.saveRecord(
+          this.options.room,
+          'collabOutbox',
+          this.outbox.length > 0 ? this.outbox : null
+        )
+      )
+      .catch(error =>
+        reportStorageError(
+          'saveOutbox',
+          'Changes not yet sent to collaborators could not be saved. They are lost if the page is closed before the connection is back.',
+          error
+        )
+      );
+  }
+}
@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest';
+import { HistorySnapshot } from './analysis-history';
+import {
+  CrdtOperation,
+  CrdtRegisters,
+  ENTITY_DELETED,
+  HybridClock,
+  applyOperations,
+  createOperations,
+  createSeedOperations,
+  materializeCollections,
+} from './crdt';
+
+const hazard = { id: 'h1', code: 'H-1', title: 'Loss of braking', linkedLossIds: ['l1'] };
+
+// A replica that records the operations of each change, as CollaborationContext does
+const createReplica = (clientId: string) => {
+  const clock = new HybridClock(clientId);
+  const registers: CrdtRegisters = {};
+  let state: HistorySnapshot = { hazards: [] };
+  return {
+    registers,
+    get state() {
+      return state;
+    },
+    change(next: HistorySnapshot) {
+      const operations = createOperations(state, next, clock);
+      applyOperations(registers, operations);
+      state = { ...state, ...next };
+      return operations;
+    },
+    receive(operations: CrdtOperation[]) {
+      operations.forEach(operation => clock.observe(operation.timestamp));
+      applyOperations(registers, operations);
+      state = materializeCollections(registers, ['hazards'], state);
+    },
+  };
+};
+
+describe('createOperations', () => {
+  it('writes only the fields that changed', () => {
+    const replica = createReplica('a');
+    replica.change({ hazards: [hazard] });
+    const operations = replica.change({ hazards: [{ ...hazard, title: 'Brakes fail' }] });
+
+    expect(operations).toHaveLength(1);
+    expect(operations[0]).toMatchObject({ entityId: 'h1', field: 'title', value: 'Brakes fail' });
+  });
+
+  it('unsets removed fields', () => {
+    const replica = createReplica('a');
+    replica.change({ hazards: [hazard] });
+    const { linkedLossIds: _linkedLossIds, ...withoutLosses } = hazard;
+    const [operation] = replica.change({ hazards: [withoutLosses] });
+
+    expect(operation).toMatchObject({ field: 'linkedLossIds', unset: true });
+    expect(materializeCollections(replica.registers, ['hazards']).hazards).toEqual([withoutLosses]);
+  });
+
+  it('replicates collections without ids as one value', () => {
+    const replica = createReplica('a');
+    const operations = replica.change({ interchangeableControllerGroups: [['c1', 'c2']] });
+
+    expect(operations).toHaveLength(1);
+    expect(
+      materializeCollections(replica.registers, ['interchangeableControllerGroups'])
+        .interchangeableControllerGroups
+    ).toEqual([['c1', 'c2']]);
+  });
+});
+
+describe('materializeCollections', () => {
+  it('restores an entity created again after it was deleted', () => {
+    const replica = createReplica('a');
+    replica.change({ hazards: [hazard] });
+    replica.change({ hazards: [] });
+    replica.change({ hazards: [hazard] });
+
+    expect(materializeCollections(replica.registers, ['hazards'])).toEqual({ hazards: [hazard] });
+  });
+
+  it('sends a restored entity to collaborators', () => {
+    const a = createReplica('a');
+    const b = createReplica('b');
+    b.receive(a.change({ hazards: [hazard] }));
+    b.receive(a.change({ hazards: [] }));
+    expect(b.state.hazards).toEqual([]);
+
+    b.receive(a.change({ hazards: [hazard] }));
+    expect(b.state.hazards).toEqual([hazard]);
+  });
+
+  it('keeps an entity deleted after it was created again', () => {
+    const replica = createReplica('a');
+    replica.change({ hazards: [hazard] });
+    replica.change({ hazards: [] });
+    replica.change({ hazards: [hazard] });
+    replica.change({ hazards: [] });
+
+    expect(materializeCollections(replica.registers, ['hazards']).hazards).toEqual([]);
+  });
+
+  it('keeps the identity of unchanged entities', () => {
+    const replica = createReplica('a');
+    replica.change({ hazards: [hazard] });
+    const previous = { hazards: [hazard] };
+
+    expect(materializeCollections(replica.registers, ['hazards'], previous).hazards).toBe(
+      previous.hazards
+    );
+  });
+});
+
+describe('applyOperations', () => {
+  it('converges whatever order operations arrive in', () => {
+    const a = createReplica('a');
+    const b = createReplica('b');
+    const created = a.change({ hazards: [hazard] });
+    b.receive(created);
+    const renamed = a.change({ hazards: [{ ...hazard, title: 'Brakes fail' }] });
+    const relinked = b.change({ hazards: [{ ...hazard, linkedLossIds: ['l2'] }] });
+
+    const forward: CrdtRegisters = {};
+    applyOperations(forward, [...created, ...renamed, ...relinked]);
+    const backward: CrdtRegisters = {};
+    applyOperations(backward, [...created, ...renamed, ...relinked].reverse());
+
+    const expected = [{ ...hazard, title: 'Brakes fail', linkedLossIds: ['l2'] }];
+    expect(materializeCollections(forward, ['hazards']).hazards).toEqual(expected);
+    expect(materializeCollections(backward, ['hazards']).hazards).toEqual(expected);
+  });
+
+  it('ignores operations older than the register value', () => {
+    const registers: CrdtRegisters = {};
+    const newer: CrdtOperation = {
+      collection: 'hazards',
+      entityId: 'h1',
+      field: ENTITY_DELETED,
+      value: true,
+      timestamp: '2',
+    };
+    applyOperations(registers, [newer]);
+
+    expect(applyOperations(registers, [{ ...newer, value: false, timestamp: '1' }])).toEqual([]);
+    expect(Object.values(registers)).toEqual([newer]);
+  });
+
+  it('lets collaborators win over seed operations', () => {
+    const registers: CrdtRegisters = {};
+    const clock = new HybridClock('b');
+    applyOperations(
+      registers,
+      createOperations({}, { hazards: [{ ...hazard, title: 'Brakes fail' }] }, clock)
+    );
+    applyOperations(registers, createSeedOperations({ hazards: [hazard] }, 'a'));
+
+    expect(materializeCollections(registers, ['hazards']).hazards).toEqual([
+      { ...hazard, title: 'Brakes fail' },
+    ]);
+  });
+});
+
+describe('HybridClock', () => {
+  it('orders its timestamps after those it observed', () => {
+    const clock = new HybridClock('a');
+    const future = new HybridClock('b');
+    const observed = future
+      .now()
+      .replace(/^[^.]+/, (Date.now() + 60000).toString(36).padStart(9, '0'));
+    clock.observe(observed);
+
+    expect(clock.now() > observed).toBe(true);
+  });
+});
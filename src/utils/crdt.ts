@@ -0,0 +1,245 @@
+// Conflict-free replication of analysis data between collaborators
+import { HISTORY_KEYS, HistoryKey, HistorySnapshot } from './analysis-history';
+
+/**
+ * One write to a last-writer-wins register. Every top-level field of an entity is
+ * a register of its own, so collaborators editing different fields of the same UCA
+ * never overwrite each other. Replicas that have seen the same operations hold the
+ * same data, whatever order the operations arrived in.
+ */
+export interface CrdtOperation {
+  collection: HistoryKey;
+  entityId: string; // Empty for collections replicated as one value
+  field: string; // ENTITY_CREATED, ENTITY_DELETED, WHOLE_VALUE or a field of the entity
+  value: unknown;
+  unset?: boolean; // The field was removed; JSON has no undefined
+  timestamp: string; // Hybrid logical clock time, unique per operation
+}
+
+// The newest operation of each register, by register key
+export type CrdtRegisters = Record<string, CrdtOperation>;
+
+export const ENTITY_CREATED = '$created';
+export const ENTITY_DELETED = '$deleted';
+export const WHOLE_VALUE = '$value';
+
+// Collections whose items have no id of their own are replicated as one value
+const WHOLE_VALUE_COLLECTIONS: HistoryKey[] = [
+  'interchangeableControllerGroups',
+  'notApplicableStatuses',
+  'hardwareAnalysisSession',
+];
+
+type Entity = { id: string } & Record<string, unknown>;
+
+const isSame = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+// Field order is not significant, e.g. after an entity was rebuilt from its registers
+const isSameEntity = (a: Entity, b: Entity) =>
+  [...new Set([...Object.keys(a), ...Object.keys(b)])].every(key => isSame(a[key], b[key]));
+
+export const getRegisterKey = (operation: CrdtOperation) =>
+  `${operation.collection}/${operation.entityId}/${operation.field}`;
+
+const formatTimestamp = (time: number, counter: number, clientId: string) =>
+  `${time.toString(36).padStart(9, '0')}.${counter.toString(36).padStart(6, '0')}.${clientId}`;
+
+const parseTimestamp = (timestamp: string): [number, number] => {
+  const [time, counter] = timestamp.split('.');
+  return [parseInt(time, 36) || 0, parseInt(counter, 36) || 0];
+};
+
+/**
+ * Hybrid logical clock: wall-clock time that never runs backwards and orders each
+ * operation after every operation the replica has seen. Timestamps compare as strings.
+ */
+export class HybridClock {
+  private readonly clientId: string;
+  private time = 0;
+  private counter = 0;
+
+  constructor(clientId: string) {
+    this.clientId = clientId;
+  }
+
+  now(): string {
+    const wallTime = Date.now();
+    if (wallTime > this.time) {
+      this.time = wallTime;
+      this.counter = 0;
+    } else {
+      this.counter += 1;
+    }
+    return formatTimestamp(this.time, this.counter, this.clientId);
+  }
+
+  observe(timestamp: string): void {
+    const [time, counter] = parseTimestamp(timestamp);
+    if (time > this.time || (time === this.time && counter > this.counter)) {
+      this.time = time;
+      this.counter = counter;
+    }
+  }
+}
+
+const createEntityOperations = (
+  collection: HistoryKey,
+  before: Entity[],
+  after: Entity[],
+  stamp: () => string
+): CrdtOperation[] => {
+  const operations: CrdtOperation[] = [];
+  const write = (entityId: string, field: string, value: unknown) =>
+    operations.push(
+      value === undefined
+        ? { collection, entityId, field, value: null, unset: true, timestamp: stamp() }
+        : { collection, entityId, field, value, timestamp: stamp() }
+    );
+
+  const beforeById = new Map(before.map(entity => [entity.id, entity]));
+  const afterIds = new Set(after.map(entity => entity.id));
+
+  after.forEach(entity => {
+    const previous = beforeById.get(entity.id);
+    if (!previous) write(entity.id, ENTITY_CREATED, true);
+    const fields = new Set([...Object.keys(previous ?? {}), ...Object.keys(entity)]);
+    fields.forEach(field => {
+      if (field === 'id') return;
+      if (previous ? !isSame(previous[field], entity[field]) : entity[field] !== undefined) {
+        write(entity.id, field, entity[field]);
+      }
+    });
+  });
+  before.forEach(entity => {
+    if (!afterIds.has(entity.id)) write(entity.id, ENTITY_DELETED, true);
+  });
+
+  return operations;
+};
+
+const createOperationsWith = (
+  before: HistorySnapshot,
+  after: HistorySnapshot,
+  stamp: () => string
+): CrdtOperation[] =>
+  HISTORY_KEYS.filter(key => key in after && before[key] !== after[key]).flatMap(key => {
+    if (WHOLE_VALUE_COLLECTIONS.includes(key)) {
+      return isSame(before[key], after[key])
+        ? []
+        : [
+            {
+              collection: key,
+              entityId: '',
+              field: WHOLE_VALUE,
+              value: after[key] ?? null,
+              timestamp: stamp(),
+            },
+          ];
+    }
+    return createEntityOperations(
+      key,
+      (before[key] as Entity[] | undefined) ?? [],
+      (after[key] as Entity[] | undefined) ?? [],
+      stamp
+    );
+  });
+
+/**
+ * The operations that turn one state of the analysis into another: entities are
+ * matched by id and only the fields that changed are written
+ */
+export const createOperations = (
+  before: HistorySnapshot,
+  after: HistorySnapshot,
+  clock: HybridClock
+): CrdtOperation[] => createOperationsWith(before, after, () => clock.now());
+
+/**
+ * Operations that write data whose history is unknown, such as an analysis edited
+ * before it was shared. They are older than any other operation, so what
+ * collaborators already wrote wins over them; items they never saw are added.
+ */
+export const createSeedOperations = (data: HistorySnapshot, clientId: string) => {
+  let counter = 0;
+  return createOperationsWith({}, data, () => formatTimestamp(0, counter++, clientId));
+};
+
+/**
+ * Writes the operations that are newer than the registers' values, in place.
+ * Returns the operations that were written.
+ */
+export const applyOperations = (
+  registers: CrdtRegisters,
+  operations: CrdtOperation[]
+): CrdtOperation[] =>
+  operations.filter(operation => {
+    const key = getRegisterKey(operation);
+    const current = registers[key];
+    if (current && current.timestamp >= operation.timestamp) return false;
+    registers[key] = operation;
+    return true;
+  });
+
+/**
+ * The data the registers hold for the given collections. Entities are ordered by
+ * their latest creation; those equal to the item of the same id in `previous` keep
+ * its identity.
+ */
+export const materializeCollections = (
+  registers: CrdtRegisters,
+  collections: readonly HistoryKey[],
+  previous: HistorySnapshot = {}
+): HistorySnapshot => {
+  const entities = new Map<
+    HistoryKey,
+    Map<string, { created?: string; deleted?: string; fields: Record<string, unknown> }>
+  >(collections.map(key => [key, new Map()]));
+  const result: HistorySnapshot = {};
+
+  Object.values(registers).forEach(operation => {
+    const collection = entities.get(operation.collection);
+    if (!collection) return;
+    if (operation.field === WHOLE_VALUE) {
+      result[operation.collection] = operation.unset ? undefined : operation.value;
+      return;
+    }
+
+    let entity = collection.get(operation.entityId);
+    if (!entity) {
+      entity = { fields: {} };
+      collection.set(operation.entityId, entity);
+    }
+    if (operation.field === ENTITY_CREATED) entity.created = operation.timestamp;
+    else if (operation.field === ENTITY_DELETED) {
+      entity.deleted = operation.value === true ? operation.timestamp : undefined;
+    } else if (!operation.unset) entity.fields[operation.field] = operation.value;
+  });
+
+  collections.forEach(key => {
+    if (WHOLE_VALUE_COLLECTIONS.includes(key)) {
+      if (!(key in result) || isSame(previous[key], result[key])) result[key] = previous[key];
+      return;
+    }
+
+    const previousList = (previous[key] as Entity[] | undefined) ?? [];
+    const previousById = new Map(previousList.map(entity => [entity.id, entity]));
+    const list = [...entities.get(key)!.entries()]
+      // An entity created again after it was deleted, e.g. by undo, is back
+      .filter(
+        ([, entity]) => entity.created && !(entity.deleted && entity.deleted > entity.created)
+      )
+      .sort(([idA, a], [idB, b]) =>
+        a.created === b.created ? idA.localeCompare(idB) : a.created! < b.created! ? -1 : 1
+      )
+      .map(([id, entity]) => {
+        const value: Entity = { id, ...entity.fields };
+        const current = previousById.get(id);
+        return current && isSameEntity(current, value) ? current : value;
+      });
+    const unchanged =
+      list.length === previousList.length && list.every((entity, i) => entity === previousList[i]);
+    result[key] = unchanged ? previousList : list;
+  });
+
+  return result;
+};
@@ -73,7 +73,12 @@ export class SafetyAnalysisError extends Error {
 }
 
 export class ConcurrentModificationError extends SafetyAnalysisError {
-  constructor(entityType: string, entityId: string, context: ErrorContext) {
+  constructor(
+    entityType: string,
+    entityId: string,
+    context: ErrorContext,
+    actions?: UserAction[] // Ways to resolve the conflict; refreshing the page by default
+  ) {
     super(
       'CONCURRENT_MODIFICATION',
       `${entityType} ${entityId} was modified by another process`,
@@ -81,8 +86,10 @@ export class ConcurrentModificationError extends SafetyAnalysisError {
       context,
       {
         title: 'Concurrent Modification Detected',
-        message: `The ${entityType} you're editing has been modified by another user. Please refresh and try again.`,
-        actions: [
+        message: actions
+          ? `The ${entityType} you're editing has been modified by another user or browser tab. Choose which changes to keep.`
+          : `The ${entityType} you're editing has been modified by another user. Please refresh and try again.`,
+        actions: actions ?? [
           {
             label: 'Refresh Data',
             action: () => window.location.reload(),
@@ -94,6 +101,40 @@ export class ConcurrentModificationError extends SafetyAnalysisError {
   }
 }
 
+export class UnsupportedSchemaVersionError extends SafetyAnalysisError {
+  public readonly schemaVersion: number;
+
+  constructor(schemaVersion: number, supportedVersion: number, context: ErrorContext) {
+    super(
+      'UNSUPPORTED_SCHEMA_VERSION',
+      `Analysis schema version ${schemaVersion} is newer than the supported version ${supportedVersion}`,
+      'high',
+      context,
+      {
+        title: 'Newer Analysis Format',
+        message: `This analysis was saved by a newer version of the tool (schema version ${schemaVersion}; this version reads up to ${supportedVersion}). Update the tool to open it.`,
+      }
+    );
+    this.schemaVersion = schemaVersion;
+  }
+}
+
+export class AnalysisLockedError extends SafetyAnalysisError {
+  constructor(context: ErrorContext) {
+    super(
+      'ANALYSIS_LOCKED',
+      'The analysis is approved and locked against changes',
+      'medium',
+      context,
+      {
+        title: 'Analysis Locked',
+        message:
+          'This analysis is an approved baseline and cannot be changed. An approver must reopen it first.',
+      }
+    );
+  }
+}
+
 export class ValidationErrorCollection extends Error {
   public readonly validationResult: ValidationResult;
   public readonly context: ErrorContext;
@@ -0,0 +1,544 @@
+import { describe, expect, it } from 'vitest';
+import {
+  AnalysisType,
+  ComponentType,
+  ControllerType,
+  FailureInfluenceType,
+  FailureType,
+  UCAType,
+} from '@/types/types';
+import { ImportExportManager, STAPAnalysisData } from './import-export';
+import { CURRENT_SCHEMA_VERSION } from './schema-migrations';
+
+const manager = new ImportExportManager();
+
+const roundTrip = async (data: STAPAnalysisData) => {
+  const content = manager.export(data, { format: 'stpa-ml', includeMetadata: true }) as string;
+  return manager.import(content, { format: 'stpa-ml', validateSchema: true });
+};
+
+// Every collection of an STPA analysis, including those only carried as extensions
+const stpaAnalysis: STAPAnalysisData = {
+  metadata: {
+    projectName: 'Wheel Brake System',
+    projectId: 'project-1',
+    version: '1.0',
+    exportDate: '2026-03-01T10:00:00.000Z',
+    exportedBy: 'A. Analyst',
+    toolVersion: '2.0.0',
+  },
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  analysisSession: {
+    id: 'session-1',
+    analysisType: AnalysisType.STPA,
+    title: 'Wheel Brake System',
+    createdBy: 'A. Analyst',
+    createdAt: '2026-01-10T08:00:00.000Z',
+    updatedAt: '2026-02-28T16:30:00.000Z',
+    currentStep: '/analysis/step4',
+    scope: 'Braking during landing roll',
+    folderId: 'folder-1',
+    approval: {
+      status: 'in-review',
+      signOffs: [
+        {
+          id: 'signoff-1',
+          action: 'submit',
+          role: 'analyst',
+          userId: 'user-1',
+          userName: 'A. Analyst',
+          signedAt: '2026-02-28T16:30:00.000Z',
+          contentHash: 'c0ffee',
+          comment: 'Ready for review',
+        },
+      ],
+    },
+    complianceStandards: ['ARP4761A'],
+  },
+  castStep2SubStep: 0,
+  castStep2MaxReachedSubStep: 0,
+  losses: [
+    {
+      id: 'loss-1',
+      code: 'L-1',
+      title: 'Loss of life or injury',
+      description: 'People on board are injured',
+      rationale: 'Primary stakeholder concern',
+      isStandard: true,
+    },
+    { id: 'loss-2', code: 'L-2', title: 'Damage to the aircraft', description: '' },
+  ],
+  hazards: [
+    {
+      id: 'hazard-1',
+      code: 'H-1',
+      title: 'Aircraft leaves the runway',
+      systemComponent: 'Aircraft',
+      environmentalCondition: 'Wet runway',
+      systemState: 'Insufficient deceleration',
+      linkedLossIds: ['loss-1', 'loss-2'],
+      severity: 'Catastrophic',
+    },
+    {
+      id: 'hazard-2',
+      code: 'H-1.1',
+      title: 'Asymmetric braking',
+      systemComponent: 'Wheel brakes',
+      environmentalCondition: '',
+      systemState: 'Uneven brake pressure',
+      linkedLossIds: [],
+      parentHazardId: 'hazard-1',
+      subHazardDetails: 'Left and right pressure differ',
+    },
+  ],
+  systemConstraints: [
+    {
+      id: 'constraint-1',
+      code: 'SC-1',
+      text: 'The aircraft must decelerate within the runway length',
+      hazardId: 'hazard-1',
+      shallNotMustNot: 'must not',
+    },
+  ],
+  systemComponents: [
+    { id: 'component-1', name: 'Wheel brakes', type: ComponentType.Physical, x: 120, y: -40.5 },
+    { id: 'component-2', name: 'Deceleration', type: ComponentType.Process, description: 'Rate' },
+  ],
+  controllers: [
+    {
+      id: 'controller-1',
+      name: 'Flight crew',
+      ctrlType: ControllerType.Team,
+      responsibilities: 'Select autobrake and apply manual braking',
+      teamDetails: {
+        isSingleUnit: false,
+        isHierarchical: true,
+        members: [
+          { id: 'member-1', name: 'Captain', commandRank: 'CM-1' },
+          { id: 'member-2', name: 'First officer', commandRank: 'CM-2' },
+        ],
+        roles: [
+          { id: 'role-1', name: 'Pilot flying', authorityLevel: 1 },
+          { id: 'role-2', name: 'Pilot monitoring', description: 'Calls out', authorityLevel: 2 },
+        ],
+        contexts: [
+          {
+            id: 'context-1',
+            name: 'Captain is PF',
+            assignments: [
+              { memberId: 'member-1', roleId: 'role-1' },
+              { memberId: 'member-2', roleId: 'role-2' },
+            ],
+          },
+          { id: 'context-2', name: 'No assignments yet', description: '', assignments: [] },
+        ],
+      },
+      fiveFactorArchetype: 'CommercialPilot',
+      customFiveFactorScores: {
+        neuroticism: 0.2,
+        extraversion: 0.55,
+        openness: 0.6,
+        agreeableness: 0.7,
+        conscientiousness: 0.9,
+      },
+      x: 100,
+      y: 0,
+    },
+    {
+      id: 'controller-2',
+      name: 'Brake control unit',
+      ctrlType: ControllerType.Software,
+      description: 'Computes brake pressure',
+      parentNode: 'controller-3',
+    },
+    {
+      id: 'controller-3',
+      name: 'Airline operations',
+      ctrlType: ControllerType.Organisation,
+      orgDetails: 'Writes the standard operating procedures',
+    },
+  ],
+  controlPaths: [
+    {
+      id: 'control-path-1',
+      sourceControllerId: 'controller-1',
+      targetId: 'controller-2',
+      controls: 'Arm autobrake',
+      controlActionIds: ['action-1', 'action-2'],
+      higherAuthority: true,
+      actuatorLabel: 'Autobrake selector',
+    },
+  ],
+  feedbackPaths: [
+    {
+      id: 'feedback-path-1',
+      sourceId: 'component-1',
+      targetControllerId: 'controller-2',
+      feedback: 'Wheel speed',
+      isMissing: false,
+      sensorLabel: 'Wheel speed sensor',
+    },
+    {
+      id: 'feedback-path-2',
+      sourceId: 'controller-2',
+      targetControllerId: 'controller-1',
+      feedback: 'Autobrake disarmed',
+      isMissing: true,
+      rationale: 'No annunciation in the cockpit',
+      indirect: true,
+    },
+  ],
+  communicationPaths: [
+    {
+      id: 'communication-path-1',
+      sourceControllerId: 'controller-1',
+      targetControllerId: 'controller-1',
+      description: 'Callouts',
+      sourceMemberId: 'member-2',
+      targetMemberId: 'member-1',
+    },
+  ],
+  controlActions: [
+    {
+      id: 'action-1',
+      controllerId: 'controller-1',
+      controlPathId: 'control-path-1',
+      roleId: 'role-1',
+      verb: 'Arm',
+      object: 'autobrake',
+      description: 'Arm autobrake before landing',
+      isOutOfScope: false,
+      feedbackIds: ['feedback-path-2'],
+    },
+    {
+      id: 'action-2',
+      controllerId: 'controller-1',
+      verb: 'Apply',
+      object: 'manual braking',
+      description: '',
+      isOutOfScope: false,
+      name: 'Manual braking',
+      isContinuous: true,
+    },
+  ],
+  ucas: [
+    {
+      id: 'uca-1',
+      controllerId: 'controller-1',
+      controlActionId: 'action-1',
+      ucaType: UCAType.NotProvided,
+      context: 'when landing on a wet runway',
+      hazardIds: ['hazard-1'],
+      code: 'UCA-1',
+      riskCategory: 'High',
+      riskScore: 16,
+    },
+    {
+      id: 'uca-2',
+      controllerId: 'controller-1',
+      controlActionId: 'action-2',
+      ucaType: UCAType.TooLong,
+      context: 'after the aircraft has stopped',
+      hazardIds: [],
+      code: 'UCA-2',
+      riskCategory: 'Low',
+      description: 'Brakes overheat',
+    },
+  ],
+  uccas: [
+    {
+      id: 'ucca-1',
+      code: 'UCCA-1',
+      candidateKey: 'action-1|action-2',
+      abstractionType: '2b',
+      uccaTypes: '1-2',
+      teamControllerIds: ['controller-1', 'controller-2'],
+      controlActionIds: ['action-1'],
+      otherControlActionIds: ['action-2'],
+      controllerId: 'controller-1',
+      otherControllerIds: ['controller-2'],
+      actionState: 'not provided',
+      otherActionsState: 'provided',
+      description: 'Neither arms autobrake nor brakes manually',
+      reviewStatus: 'hazardous',
+      rationale: 'The aircraft does not decelerate',
+      hazardIds: ['hazard-1'],
+    },
+  ],
+  interchangeableControllerGroups: [['controller-1', 'controller-2'], []],
+  requirements: [
+    {
+      id: 'requirement-1',
+      text: 'Annunciate a disarmed autobrake',
+      linkedScenarioIds: ['scenario-1'],
+      ucaIds: ['uca-1'],
+      type: 'Requirement',
+      code: 'R-1',
+      priority: 'High',
+      verificationMethod: 'Test',
+    },
+    {
+      id: 'requirement-2',
+      text: 'Brief the autobrake setting',
+      linkedScenarioIds: [],
+      type: 'Mitigation',
+      implementation: 'Approach briefing checklist',
+    },
+  ],
+  causalScenarios: [
+    {
+      id: 'scenario-1',
+      code: 'CS-1',
+      ucaId: 'uca-1',
+      title: 'Crew believes autobrake is armed',
+      description: 'The disarm is not annunciated',
+      causalFactors: [
+        {
+          id: 'factor-1',
+          type: 'Human',
+          description: 'Flawed process model',
+          category: 'Inadequate feedback',
+          relatedControllerId: 'controller-1',
+          details: 'Relies on the selector position',
+        },
+        {
+          id: 'factor-2',
+          description: 'Selector detent is worn',
+          category: 'Component failure',
+          relatedComponentId: 'component-1',
+        },
+      ],
+      hazardIds: ['hazard-1'],
+      scenarioType: 'Process Model Flaw',
+      likelihood: 'Medium',
+      severity: 'Critical',
+      riskLevel: 'High',
+      mitigationStrategy: 'Annunciation',
+      assumptions: ['Crew monitors the annunciator'],
+      factorInteractions: [],
+      safetyConstraints: [{ id: 'safety-constraint-1', text: 'Annunciate the disarm' }],
+    },
+  ],
+  sequenceOfEvents: [],
+  activeContexts: { 'controller-1': 'context-1' },
+  hardwareComponents: [
+    {
+      id: 'hardware-1',
+      name: 'Brake actuator',
+      type: 'actuator',
+      systemComponentId: 'component-1',
+    },
+    { id: 'hardware-2', name: 'Wheel speed sensor', type: 'sensor', description: 'Hall effect' },
+  ],
+  failureModes: [
+    {
+      id: 'failure-mode-1',
+      hardwareComponentId: 'hardware-2',
+      failureType: FailureType.SensorDrift,
+      description: 'Reads a low wheel speed',
+      probabilityAssessment: 0.0001,
+      severityLevel: 'High',
+      detectionDifficulty: 'Difficult',
+    },
+  ],
+  unsafeInteractions: [
+    {
+      id: 'interaction-1',
+      sourceComponentId: 'hardware-2',
+      affectedComponentIds: ['hardware-1'],
+      interactionType: 'Cascading',
+      description: 'Brake release on a low wheel speed',
+      hazardIds: ['hazard-2'],
+    },
+  ],
+  hardwareAnalysisSession: {
+    id: 'hardware-session-1',
+    completedAt: '2026-02-20T12:00:00.000Z',
+    analysisNotes: 'Probabilities from supplier data',
+    importedProbabilityData: true,
+  },
+};
+
+// Collections the STPA-ML schema doesn't describe travel as <Extension> elements
+const extensions = {
+  commentThreads: [
+    {
+      id: 'thread-1',
+      collection: 'ucas',
+      entityId: 'uca-1',
+      createdAt: '2026-02-01T09:00:00.000Z',
+      createdBy: 'user-2',
+      resolved: true,
+      resolvedAt: '2026-02-02T09:00:00.000Z',
+      resolvedBy: 'user-1',
+    },
+  ],
+  comments: [
+    {
+      id: 'comment-1',
+      threadId: 'thread-1',
+      authorId: 'user-2',
+      authorName: 'R. Reviewer',
+      text: 'Is the context specific enough?',
+      createdAt: '2026-02-01T09:00:00.000Z',
+    },
+  ],
+  reviewStatuses: [
+    {
+      id: 'hazard-1',
+      collection: 'hazards',
+      status: 'approved',
+      updatedAt: '2026-02-03T09:00:00.000Z',
+      updatedBy: 'user-2',
+    },
+  ],
+  notApplicableStatuses: [
+    { controllerId: 'controller-1', controlActionId: 'action-1', ucaType: UCAType.TooShort },
+  ],
+  failurePaths: [
+    {
+      id: 'failure-path-1',
+      sourceComponentId: 'hardware-2',
+      targetComponentId: 'hardware-1',
+      influenceType: FailureInfluenceType.DataCorruption,
+      description: 'Wrong wheel speed',
+    },
+  ],
+  validationRules: { 'orphan-hazards': { enabled: false }, 'uca-coverage': { threshold: 80 } },
+  diagramLayouts: [
+    {
+      id: 'layout-1',
+      name: 'Cockpit only',
+      positions: { 'controller-1': { x: 0, y: 0 }, 'controller-2': { x: 240, y: 160 } },
+      filters: { hiddenNodeIds: ['controller-3'], hideFeedbackPaths: true },
+    },
+  ],
+};
+
+const castAnalysis: STAPAnalysisData = {
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  analysisSession: {
+    id: 'session-2',
+    analysisType: AnalysisType.CAST,
+    title: 'Runway excursion',
+    createdBy: 'I. Investigator',
+    createdAt: '2026-01-05T08:00:00.000Z',
+    updatedAt: '2026-01-06T08:00:00.000Z',
+    currentStep: '/cast/step2',
+  },
+  castStep2SubStep: 2,
+  castStep2MaxReachedSubStep: 3,
+  losses: [{ id: 'loss-1', code: 'L-1', title: 'Hull loss', description: '' }],
+  hazards: [],
+  controllers: [],
+  controlActions: [],
+  feedbackPaths: [],
+  controlPaths: [],
+  communicationPaths: [],
+  systemComponents: [],
+  ucas: [],
+  requirements: [],
+  sequenceOfEvents: [
+    { id: 'event-1', description: 'Touchdown 600 m past the threshold', order: 1 },
+    { id: 'event-2', description: 'Autobrake not armed', order: 2 },
+  ],
+  activeContexts: {},
+  hardwareAnalysisSession: null,
+};
+
+// Markup, quotes, non-ASCII text and whitespace must come back unchanged
+const specialCharacters: STAPAnalysisData = {
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  analysisSession: null,
+  losses: [
+    {
+      id: 'loss-<1>',
+      code: 'L&1',
+      title: '<b>Loss</b> of "control" & \'trust\'',
+      description: '  Leading and trailing spaces\nacross lines\ttabbed  ',
+      rationale: 'Übergeschwindigkeit – 速度 – 🚨',
+    },
+  ],
+  hazards: [],
+  controllers: [],
+  controlActions: [],
+  feedbackPaths: [],
+  controlPaths: [],
+  communicationPaths: [],
+  systemComponents: [],
+  ucas: [],
+  requirements: [
+    {
+      id: 'requirement-1',
+      text: ']]> <![CDATA[ is not special',
+      linkedScenarioIds: ['', ' '],
+      type: 'Requirement',
+    },
+  ],
+  activeContexts: { 'key with "quotes" & <tags>': 'value & <more>' },
+};
+
+describe('STPA-ML export and import', () => {
+  it.each([
+    ['an STPA analysis with every collection', stpaAnalysis],
+    ['an STPA analysis with extensions', { ...stpaAnalysis, ...extensions }],
+    ['a CAST analysis', castAnalysis],
+    ['text with special characters', specialCharacters],
+  ])('round-trips %s', async (_name, analysis) => {
+    const result = await roundTrip(analysis);
+
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toEqual([]);
+    expect(result.data).toEqual(analysis);
+  });
+
+  it('leaves the metadata out unless asked to include it', async () => {
+    const content = manager.export(stpaAnalysis, { format: 'stpa-ml' }) as string;
+    const result = await manager.import(content, { format: 'stpa-ml' });
+
+    const { metadata: _metadata, ...withoutMetadata } = stpaAnalysis;
+    expect(result.data).toEqual(withoutMetadata);
+  });
+
+  // Files written by hand or by other tools may leave out collections
+  it('imports missing required collections as empty', async () => {
+    const partial = {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      losses: stpaAnalysis.losses,
+      hazards: stpaAnalysis.hazards,
+    } as STAPAnalysisData;
+
+    const result = await roundTrip(partial);
+
+    expect(result.data).toEqual({
+      ...partial,
+      controllers: [],
+      controlActions: [],
+      feedbackPaths: [],
+      controlPaths: [],
+      communicationPaths: [],
+      systemComponents: [],
+      ucas: [],
+      requirements: [],
+    });
+  });
+});
+
+describe('JSON import', () => {
+  it('reads causal scenarios from workspace exports', async () => {
+    const { causalScenarios, ...workspace } = stpaAnalysis;
+    const content = JSON.stringify({ ...workspace, scenarios: causalScenarios });
+
+    const result = await manager.import(content, { format: 'json', validateSchema: true });
+
+    expect(result.warnings).toEqual([]);
+    expect(result.data).toEqual(stpaAnalysis);
+  });
+
+  it.each(['[]', 'null', '"analysis"'])('refuses %s as an analysis', async content => {
+    const result = await manager.import(content, { format: 'json' });
+
+    expect(result.success).toBe(false);
+    expect(result.data).toBeUndefined();
+  });
+});
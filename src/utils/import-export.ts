@@ -15,7 +15,31 @@ import {
   CommunicationPath,
   SystemComponent,
   CausalScenario,
+  AnalysisSession,
+  SystemConstraint,
+  UCCA,
+  EventDetail,
+  HardwareComponent,
+  FailureMode,
+  UnsafeInteraction,
+  HardwareAnalysisSession,
 } from '@/types/types';
+import { UnsupportedSchemaVersionError } from './error-handling';
+import { CURRENT_SCHEMA_VERSION, getSchemaVersion, migrateAnalysisData } from './schema-migrations';
+import {
+  STPAML_ANALYSIS_FIELDS,
+  STPAML_ENTRY_ELEMENT,
+  STPAML_EXTENSION_ELEMENT,
+  STPAML_GROUP_ELEMENT,
+  STPAML_ITEM_ELEMENT,
+  STPAML_ROOT_ELEMENT,
+  STPAML_SCHEMA_LOCATION,
+  STPAML_SCHEMA_VERSION,
+  STPAMLField,
+  STPAMLFields,
+  XSI_NAMESPACE,
+  toElementName,
+} from './stpa-ml-schema';
 
 export interface ExportOptions {
   format: 'json' | 'csv' | 'stpa-ml';
@@ -39,6 +63,7 @@ export interface STAPAnalysisData {
     exportedBy?: string;
     toolVersion?: string;
   };
+  schemaVersion?: number; // Version of the analysis data schema; absent in files of older builds
   losses: Loss[];
   hazards: Hazard[];
   controllers: Controller[];
@@ -50,8 +75,37 @@ export interface STAPAnalysisData {
   ucas: UnsafeControlAction[];
   requirements: Requirement[];
   causalScenarios?: CausalScenario[]; // Added causal scenarios
+  analysisSession?: AnalysisSession | null;
+  castStep2SubStep?: number;
+  castStep2MaxReachedSubStep?: number;
+  systemConstraints?: SystemConstraint[];
+  uccas?: UCCA[];
+  interchangeableControllerGroups?: string[][];
+  sequenceOfEvents?: EventDetail[];
+  activeContexts?: { [key: string]: string };
+  hardwareComponents?: HardwareComponent[];
+  failureModes?: FailureMode[];
+  unsafeInteractions?: UnsafeInteraction[];
+  hardwareAnalysisSession?: HardwareAnalysisSession | null;
 }
 
+// Collections every import must provide (possibly empty)
+const REQUIRED_COLLECTIONS = [
+  'losses',
+  'hazards',
+  'controllers',
+  'controlActions',
+  'ucas',
+  'requirements',
+  'feedbackPaths',
+  'controlPaths',
+  'communicationPaths',
+  'systemComponents',
+] as const;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
 export interface ImportResult {
   success: boolean;
   data?: STAPAnalysisData;
@@ -98,16 +152,22 @@ export class ImportExportManager {
         textContent = content;
       }
 
+      let result: ImportResult;
       switch (options.format) {
         case 'json':
-          return await this.importFromJSON(textContent, options);
+          result = await this.importFromJSON(textContent, options);
+          break;
         case 'csv':
-          return await this.importFromCSV(textContent, options);
+          result = await this.importFromCSV(textContent, options);
+          break;
         case 'stpa-ml':
-          return await this.importFromSTPAML(textContent, options);
+          result = await this.importFromSTPAML(textContent, options);
+          break;
         default:
           throw new Error(`Unsupported import format: ${options.format}`);
       }
+
+      return this.migrateImportedData(result);
     } catch (error) {
       return {
         success: false,
@@ -129,6 +189,7 @@ export class ImportExportManager {
   private exportToJSON(data: STAPAnalysisData, options: ExportOptions): string {
     const exportData: STAPAnalysisData = {
       ...data,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
       metadata: options.includeMetadata
         ? {
             ...data.metadata,
@@ -175,73 +236,23 @@ Tool: STAMP Web Tool v1.0`;
 
   /**
    * Export to STPA-ML (XML) format
+   * Every property in STPAML_ANALYSIS_FIELDS is written with its type preserved;
+   * properties outside the schema travel as JSON <Extension> elements.
    */
   private exportToSTPAML(data: STAPAnalysisData, options: ExportOptions): string {
     const xmlDoc = document.implementation.createDocument('', '', null);
-    const root = xmlDoc.createElement('STAPAnalysis');
+    const root = xmlDoc.createElement(STPAML_ROOT_ELEMENT);
     root.setAttribute('version', options.version || '1.0');
+    root.setAttribute('schemaVersion', STPAML_SCHEMA_VERSION);
+    root.setAttribute('analysisSchemaVersion', String(CURRENT_SCHEMA_VERSION));
+    root.setAttributeNS('http://www.w3.org/2000/xmlns/', 'xmlns:xsi', XSI_NAMESPACE);
+    root.setAttributeNS(XSI_NAMESPACE, 'xsi:noNamespaceSchemaLocation', STPAML_SCHEMA_LOCATION);
 
-    if (options.includeMetadata && data.metadata) {
-      const metadataEl = xmlDoc.createElement('Metadata');
-      Object.entries(data.metadata).forEach(([key, value]) => {
-        const el = xmlDoc.createElement(key);
-        el.textContent = String(value);
-        metadataEl.appendChild(el);
-      });
-      root.appendChild(metadataEl);
-    }
-
-    // Add losses
-    const lossesEl = xmlDoc.createElement('Losses');
-    data.losses.forEach(loss => {
-      const lossEl = xmlDoc.createElement('Loss');
-      lossEl.setAttribute('id', loss.id);
-      lossEl.setAttribute('code', loss.code);
-
-      const titleEl = xmlDoc.createElement('Title');
-      titleEl.textContent = loss.title;
-      lossEl.appendChild(titleEl);
-
-      const descEl = xmlDoc.createElement('Description');
-      descEl.textContent = loss.description;
-      lossEl.appendChild(descEl);
-
-      lossesEl.appendChild(lossEl);
-    });
-    root.appendChild(lossesEl);
-
-    // Add hazards
-    const hazardsEl = xmlDoc.createElement('Hazards');
-    data.hazards.forEach(hazard => {
-      const hazardEl = xmlDoc.createElement('Hazard');
-      hazardEl.setAttribute('id', hazard.id);
-      hazardEl.setAttribute('code', hazard.code);
-
-      const titleEl = xmlDoc.createElement('Title');
-      titleEl.textContent = hazard.title;
-      hazardEl.appendChild(titleEl);
-
-      const systemCondEl = xmlDoc.createElement('SystemCondition');
-      systemCondEl.textContent = hazard.systemCondition || '';
-      hazardEl.appendChild(systemCondEl);
-
-      const envCondEl = xmlDoc.createElement('EnvironmentalCondition');
-      envCondEl.textContent = hazard.environmentalCondition || '';
-      hazardEl.appendChild(envCondEl);
-
-      // Add loss links
-      hazard.linkedLossIds?.forEach(lossId => {
-        const linkEl = xmlDoc.createElement('LossLink');
-        linkEl.setAttribute('lossId', lossId);
-        hazardEl.appendChild(linkEl);
-      });
-
-      hazardsEl.appendChild(hazardEl);
-    });
-    root.appendChild(hazardsEl);
-
-    // Continue with other entities...
-    // (Simplified for brevity - would include all entity types)
+    const content = {
+      ...data,
+      metadata: options.includeMetadata ? data.metadata : undefined,
+    };
+    this.writeXMLFields(xmlDoc, root, content, STPAML_ANALYSIS_FIELDS);
 
     xmlDoc.appendChild(root);
 
@@ -254,7 +265,8 @@ Tool: STAMP Web Tool v1.0`;
    */
   private async importFromJSON(content: string, options: ImportOptions): Promise<ImportResult> {
     try {
-      const data = JSON.parse(content) as STAPAnalysisData;
+      const warnings: string[] = [];
+      const data = this.normalizeJSONData(JSON.parse(content), warnings);
 
       if (options.validateSchema) {
         const validation = this.validateSTAPAnalysisData(data);
@@ -262,7 +274,7 @@ Tool: STAMP Web Tool v1.0`;
           return {
             success: false,
             errors: validation.errors,
-            warnings: [],
+            warnings,
             statistics: {
               totalItems: 0,
               importedItems: 0,
@@ -279,7 +291,7 @@ Tool: STAMP Web Tool v1.0`;
         success: true,
         data,
         errors: [],
-        warnings: [],
+        warnings,
         statistics: {
           totalItems,
           importedItems: totalItems,
@@ -302,6 +314,28 @@ Tool: STAMP Web Tool v1.0`;
     }
   }
 
+  /**
+   * Workspace JSON exports name causal scenarios `scenarios` and leave out
+   * collections the analysis type doesn't use
+   */
+  private normalizeJSONData(raw: unknown, warnings: string[]): STAPAnalysisData {
+    if (!isRecord(raw)) throw new Error('Expected an analysis object');
+
+    const { scenarios, ...data } = raw;
+    const causalScenarios = data.causalScenarios ?? scenarios;
+    if (causalScenarios !== undefined) data.causalScenarios = causalScenarios;
+
+    REQUIRED_COLLECTIONS.forEach(key => {
+      if (data[key] === undefined) {
+        data[key] = [];
+        warnings.push(`No ${key} in file; imported as empty`);
+      }
+    });
+
+    // The collections' contents are checked by validateSTAPAnalysisData, if asked to
+    return data as unknown as STAPAnalysisData;
+  }
+
   /**
    * Import from CSV format
    */
@@ -324,7 +358,7 @@ Tool: STAMP Web Tool v1.0`;
   /**
    * Import from STPA-ML format
    */
-  private async importFromSTPAML(content: string, _options: ImportOptions): Promise<ImportResult> {
+  private async importFromSTPAML(content: string, options: ImportOptions): Promise<ImportResult> {
     try {
       const parser = new DOMParser();
       const xmlDoc = parser.parseFromString(content, 'text/xml');
@@ -333,18 +367,65 @@ Tool: STAMP Web Tool v1.0`;
         throw new Error('Invalid XML format');
       }
 
-      const data: STAPAnalysisData = {
-        losses: this.parseLossesFromXML(xmlDoc),
-        hazards: this.parseHazardsFromXML(xmlDoc),
-        controllers: this.parseControllersFromXML(xmlDoc),
-        controlActions: this.parseControlActionsFromXML(xmlDoc),
-        feedbackPaths: [],
-        controlPaths: [],
-        communicationPaths: [],
-        systemComponents: [],
-        ucas: this.parseUCAsFromXML(xmlDoc),
-        requirements: this.parseRequirementsFromXML(xmlDoc),
-      };
+      const root = xmlDoc.documentElement;
+      if (root.tagName !== STPAML_ROOT_ELEMENT) {
+        throw new Error(`Expected <${STPAML_ROOT_ELEMENT}> root element, found <${root.tagName}>`);
+      }
+
+      const warnings: string[] = [];
+      const parsed: Partial<STAPAnalysisData> = this.readXMLFields(
+        root,
+        STPAML_ANALYSIS_FIELDS,
+        warnings
+      );
+
+      // Files written before the schema was versioned only carry losses and hazards
+      if (!root.hasAttribute('schemaVersion')) {
+        this.upgradeLegacySTPAML(root, parsed);
+        warnings.push('Legacy STPA-ML file: only losses and hazards were exported');
+      }
+      if (root.hasAttribute('analysisSchemaVersion')) {
+        parsed.schemaVersion = Number(root.getAttribute('analysisSchemaVersion'));
+      }
+
+      const knownElements = new Set([
+        ...Object.keys(STPAML_ANALYSIS_FIELDS).map(toElementName),
+        STPAML_EXTENSION_ELEMENT,
+      ]);
+      Array.from(root.children)
+        .filter(child => !knownElements.has(child.tagName))
+        .forEach(child => warnings.push(`Ignored unknown element <${child.tagName}>`));
+
+      const data = {
+        ...parsed,
+        losses: parsed.losses || [],
+        hazards: parsed.hazards || [],
+        controllers: parsed.controllers || [],
+        controlActions: parsed.controlActions || [],
+        feedbackPaths: parsed.feedbackPaths || [],
+        controlPaths: parsed.controlPaths || [],
+        communicationPaths: parsed.communicationPaths || [],
+        systemComponents: parsed.systemComponents || [],
+        ucas: parsed.ucas || [],
+        requirements: parsed.requirements || [],
+      } as STAPAnalysisData;
+
+      if (options.validateSchema) {
+        const validation = this.validateSTAPAnalysisData(data);
+        if (!validation.isValid) {
+          return {
+            success: false,
+            errors: validation.errors,
+            warnings,
+            statistics: {
+              totalItems: 0,
+              importedItems: 0,
+              skippedItems: 0,
+              failedItems: 0,
+            },
+          };
+        }
+      }
 
       const totalItems = this.countTotalItems(data);
 
@@ -352,7 +433,7 @@ Tool: STAMP Web Tool v1.0`;
         success: true,
         data,
         errors: [],
-        warnings: [],
+        warnings,
         statistics: {
           totalItems,
           importedItems: totalItems,
@@ -469,70 +550,258 @@ Tool: STAMP Web Tool v1.0`;
   }
 
   /**
-   * XML parsing helpers
+   * STPA-ML serialisation helpers
    */
-  private parseLossesFromXML(xmlDoc: Document): Loss[] {
-    const losses: Loss[] = [];
-    const lossElements = xmlDoc.getElementsByTagName('Loss');
-
-    for (let i = 0; i < lossElements.length; i++) {
-      const el = lossElements[i];
-      losses.push({
-        id: el.getAttribute('id') || '',
-        code: el.getAttribute('code') || '',
-        title: el.querySelector('Title')?.textContent || '',
-        description: el.querySelector('Description')?.textContent || '',
+  private writeXMLFields(
+    xmlDoc: XMLDocument,
+    parent: Element,
+    value: object,
+    fields: STPAMLFields
+  ): void {
+    const values = value as Record<string, unknown>;
+
+    // Schema fields are written in declaration order, as the XSD sequences expect
+    Object.entries(fields).forEach(([key, field]) => {
+      const v = values[key];
+      if (v === undefined || !this.matchesSTPAMLField(v, field)) return;
+
+      if (key === 'id' && typeof v === 'string') {
+        parent.setAttribute('id', v);
+        return;
+      }
+
+      const el = xmlDoc.createElement(toElementName(key));
+      if (v === null) {
+        el.setAttributeNS(XSI_NAMESPACE, 'xsi:nil', 'true');
+      } else {
+        this.writeXMLValue(xmlDoc, el, v, field);
+      }
+      parent.appendChild(el);
+    });
+
+    // Anything the schema doesn't describe is kept verbatim so the round trip stays lossless
+    Object.entries(values)
+      .filter(([, v]) => v !== undefined)
+      .filter(([key, v]) => !fields[key] || !this.matchesSTPAMLField(v, fields[key]))
+      .forEach(([key, v]) => {
+        const el = xmlDoc.createElement(STPAML_EXTENSION_ELEMENT);
+        el.setAttribute('name', key);
+        el.textContent = JSON.stringify(v);
+        parent.appendChild(el);
       });
+  }
+
+  private writeXMLValue(
+    xmlDoc: XMLDocument,
+    el: Element,
+    value: unknown,
+    field: STPAMLField
+  ): void {
+    const appendText = (parent: Element, tagName: string, text: string) => {
+      const child = xmlDoc.createElement(tagName);
+      child.textContent = text;
+      parent.appendChild(child);
+      return child;
+    };
+
+    if (typeof field !== 'string') {
+      if (field.kind === 'record') {
+        this.writeXMLFields(xmlDoc, el, value as object, field.fields);
+      } else {
+        (value as object[]).forEach(item => {
+          const itemEl = xmlDoc.createElement(field.item);
+          this.writeXMLFields(xmlDoc, itemEl, item, field.fields);
+          el.appendChild(itemEl);
+        });
+      }
+      return;
     }
 
-    return losses;
+    switch (field) {
+      case 'strings':
+        (value as string[]).forEach(item => appendText(el, STPAML_ITEM_ELEMENT, item));
+        break;
+      case 'groups':
+        (value as string[][]).forEach(group => {
+          const groupEl = xmlDoc.createElement(STPAML_GROUP_ELEMENT);
+          group.forEach(item => appendText(groupEl, STPAML_ITEM_ELEMENT, item));
+          el.appendChild(groupEl);
+        });
+        break;
+      case 'map':
+        Object.entries(value as Record<string, string>).forEach(([key, item]) => {
+          appendText(el, STPAML_ENTRY_ELEMENT, item).setAttribute('key', key);
+        });
+        break;
+      default:
+        el.textContent = String(value);
+    }
   }
 
-  private parseHazardsFromXML(xmlDoc: Document): Hazard[] {
-    const hazards: Hazard[] = [];
-    const hazardElements = xmlDoc.getElementsByTagName('Hazard');
+  private matchesSTPAMLField(value: unknown, field: STPAMLField): boolean {
+    if (value === null) return typeof field === 'string' || field.kind === 'record';
+
+    const isStringArray = (v: unknown) => Array.isArray(v) && v.every(i => typeof i === 'string');
+    const isObject = (v: unknown) => typeof v === 'object' && v !== null && !Array.isArray(v);
 
-    for (let i = 0; i < hazardElements.length; i++) {
-      const el = hazardElements[i];
-      const lossLinks = el.getElementsByTagName('LossLink');
-      const lossIds: string[] = [];
+    if (typeof field !== 'string') {
+      return field.kind === 'record'
+        ? isObject(value)
+        : Array.isArray(value) && value.every(isObject);
+    }
+
+    switch (field) {
+      case 'strings':
+        return isStringArray(value);
+      case 'groups':
+        return Array.isArray(value) && value.every(isStringArray);
+      case 'map':
+        return isObject(value) && Object.values(value as object).every(v => typeof v === 'string');
+      default:
+        return typeof value === field;
+    }
+  }
+
+  /**
+   * STPA-ML parsing helpers
+   */
+  private readXMLFields(
+    el: Element,
+    fields: STPAMLFields,
+    warnings: string[]
+  ): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    const children = Array.from(el.children);
+
+    Object.entries(fields).forEach(([key, field]) => {
+      if (key === 'id' && el.hasAttribute('id')) {
+        result.id = el.getAttribute('id');
+        return;
+      }
 
-      for (let j = 0; j < lossLinks.length; j++) {
-        const lossId = lossLinks[j].getAttribute('lossId');
-        if (lossId) lossIds.push(lossId);
+      const child = children.find(c => c.tagName === toElementName(key));
+      if (!child) {
+        // Older files carried some scalar fields (e.g. code) as attributes
+        if (field === 'string' && el.hasAttribute(key)) {
+          result[key] = el.getAttribute(key);
+        }
+        return;
       }
 
-      hazards.push({
-        id: el.getAttribute('id') || '',
-        code: el.getAttribute('code') || '',
-        title: el.querySelector('Title')?.textContent || '',
-        systemComponent: '', // Add required field
-        systemState: '', // Add required field
-        systemCondition: el.querySelector('SystemCondition')?.textContent || '',
-        environmentalCondition: el.querySelector('EnvironmentalCondition')?.textContent || '',
-        linkedLossIds: lossIds,
+      result[key] =
+        child.getAttributeNS(XSI_NAMESPACE, 'nil') === 'true'
+          ? null
+          : this.readXMLValue(child, field, warnings);
+    });
+
+    children
+      .filter(c => c.tagName === STPAML_EXTENSION_ELEMENT)
+      .forEach(c => {
+        const name = c.getAttribute('name');
+        if (!name) return;
+        try {
+          result[name] = JSON.parse(c.textContent || '');
+        } catch {
+          warnings.push(`Could not read extension "${name}" on <${el.tagName}>`);
+        }
       });
-    }
 
-    return hazards;
+    return result;
   }
 
-  // Similar parsing methods for other entity types...
-  private parseControllersFromXML(_xmlDoc: Document): Controller[] {
-    // Implementation would follow similar pattern
-    return [];
-  }
+  private readXMLValue(el: Element, field: STPAMLField, warnings: string[]): unknown {
+    const childrenNamed = (parent: Element, tagName: string) =>
+      Array.from(parent.children).filter(c => c.tagName === tagName);
+    const textOf = (node: Element) => node.textContent || '';
+
+    if (typeof field !== 'string') {
+      return field.kind === 'record'
+        ? this.readXMLFields(el, field.fields, warnings)
+        : childrenNamed(el, field.item).map(item =>
+            this.readXMLFields(item, field.fields, warnings)
+          );
+    }
 
-  private parseControlActionsFromXML(_xmlDoc: Document): ControlAction[] {
-    return [];
+    switch (field) {
+      case 'number':
+        return Number(textOf(el));
+      case 'boolean':
+        return textOf(el) === 'true';
+      case 'strings':
+        return childrenNamed(el, STPAML_ITEM_ELEMENT).map(textOf);
+      case 'groups':
+        return childrenNamed(el, STPAML_GROUP_ELEMENT).map(group =>
+          childrenNamed(group, STPAML_ITEM_ELEMENT).map(textOf)
+        );
+      case 'map':
+        return Object.fromEntries(
+          childrenNamed(el, STPAML_ENTRY_ELEMENT).map(entry => [
+            entry.getAttribute('key') || '',
+            textOf(entry),
+          ])
+        );
+      default:
+        return textOf(el);
+    }
   }
 
-  private parseUCAsFromXML(_xmlDoc: Document): UnsafeControlAction[] {
-    return [];
+  /**
+   * Version 1.0 files linked hazards to losses through <LossLink lossId="..."/>
+   * and omitted the hazard's system component and state. Metadata children were
+   * named after the raw property.
+   */
+  private upgradeLegacySTPAML(root: Element, parsed: Partial<STAPAnalysisData>): void {
+    const metadataEl = Array.from(root.children).find(c => c.tagName === 'Metadata');
+    if (metadataEl) {
+      parsed.metadata = Object.fromEntries(
+        Array.from(metadataEl.children).map(c => [c.tagName, c.textContent || ''])
+      );
+    }
+
+    const hazardElements = Array.from(root.getElementsByTagName('Hazard'));
+
+    parsed.hazards = (parsed.hazards || []).map((hazard, index) => ({
+      ...hazard,
+      systemComponent: hazard.systemComponent ?? '',
+      systemState: hazard.systemState ?? '',
+      linkedLossIds:
+        hazard.linkedLossIds ??
+        Array.from(hazardElements[index]?.getElementsByTagName('LossLink') || [])
+          .map(link => link.getAttribute('lossId'))
+          .filter((id): id is string => !!id),
+    }));
   }
 
-  private parseRequirementsFromXML(_xmlDoc: Document): Requirement[] {
-    return [];
+  /**
+   * Upgrades imported data from older builds to the current schema. Files from a
+   * newer build are refused, as their data can't be read reliably.
+   */
+  private migrateImportedData(result: ImportResult): ImportResult {
+    if (!result.success || !result.data) return result;
+
+    const schemaVersion = getSchemaVersion(result.data.schemaVersion);
+    try {
+      const data = migrateAnalysisData(result.data, schemaVersion);
+      return {
+        ...result,
+        data: { ...data, schemaVersion: CURRENT_SCHEMA_VERSION },
+        warnings:
+          schemaVersion < CURRENT_SCHEMA_VERSION
+            ? [
+                ...result.warnings,
+                `File uses analysis schema version ${schemaVersion}; upgraded to version ${CURRENT_SCHEMA_VERSION}`,
+              ]
+            : result.warnings,
+      };
+    } catch (error) {
+      if (!(error instanceof UnsupportedSchemaVersionError)) throw error;
+      return {
+        ...result,
+        success: false,
+        data: undefined,
+        errors: [error.userFeedback.message],
+      };
+    }
   }
 
   /**
@@ -556,20 +825,7 @@ Tool: STAMP Web Tool v1.0`;
     }
 
     // Check required arrays
-    const requiredArrays = [
-      'losses',
-      'hazards',
-      'controllers',
-      'controlActions',
-      'ucas',
-      'requirements',
-      'feedbackPaths',
-      'controlPaths',
-      'communicationPaths',
-      'systemComponents',
-    ];
-
-    requiredArrays.forEach(key => {
+    REQUIRED_COLLECTIONS.forEach(key => {
       if (!Array.isArray(data[key])) {
         errors.push(`Missing or invalid ${key} array`);
       }
@@ -594,7 +850,14 @@ Tool: STAMP Web Tool v1.0`;
       data.communicationPaths.length +
       data.systemComponents.length +
       data.ucas.length +
-      data.requirements.length
+      data.requirements.length +
+      (data.causalScenarios?.length || 0) +
+      (data.systemConstraints?.length || 0) +
+      (data.uccas?.length || 0) +
+      (data.sequenceOfEvents?.length || 0) +
+      (data.hardwareComponents?.length || 0) +
+      (data.failureModes?.length || 0) +
+      (data.unsafeInteractions?.length || 0)
     );
   }
 
@@ -1,12 +1,21 @@
 // Utils barrel exports
 export * from './constants';
+export * from './analysis-history';
+export * from './analysis-storage';
+export * from './approval-workflow';
 export * from './audit-trail';
+export * from './collaboration-client';
+export * from './crdt';
 export * from './error-handling';
 export * from './import-export';
+export * from './schema-migrations';
+export * from './stpa-ml-schema';
 export * from './performance-optimizer';
 export * from './report-export';
 export * from './smart-uca-suggestions';
 export * from './state-management';
 export * from './storage-manager';
+export * from './tab-sync';
 export * from './uca-validation';
+export * from './validation-rules';
 export * from './code-generator';
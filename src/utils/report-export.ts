@@ -1,8 +1,10 @@
 import { AnalysisData } from '@/types/types';
+import { CURRENT_SCHEMA_VERSION } from './schema-migrations';
 
 export const exportAnalysisAsJSON = (analysisData: AnalysisData) => {
   // FR-8.2: Export machine-readable JSON
   const dataToExport = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
     analysisSession: analysisData.analysisSession,
     losses: analysisData.losses,
     hazards: analysisData.hazards,
@@ -13,6 +15,8 @@ export const exportAnalysisAsJSON = (analysisData: AnalysisData) => {
     feedbackPaths: analysisData.feedbackPaths,
     controlActions: analysisData.controlActions,
     ucas: analysisData.ucas,
+    uccas: analysisData.uccas,
+    interchangeableControllerGroups: analysisData.interchangeableControllerGroups,
     scenarios: analysisData.scenarios,
     requirements: analysisData.requirements,
     ...(analysisData.analysisSession?.analysisType === 'CAST' && {
@@ -32,17 +36,3 @@ export const exportAnalysisAsJSON = (analysisData: AnalysisData) => {
   URL.revokeObjectURL(url);
   alert('JSON export initiated.');
 };
-
-export const exportAnalysisAsPDF = () => {
-  // FR-8.1: PDF export - This would require a library like jsPDF or a server-side solution.
-  alert(
-    'PDF export functionality is not yet implemented. This would typically involve generating a document with analysis data, including a traceability matrix and control structure graphic (if available).'
-  );
-};
-
-export const exportAnalysisAsDOCX = () => {
-  // FR-8.1: DOCX export - This would require a library like docx or a server-side solution.
-  alert(
-    'DOCX export functionality is not yet implemented. Similar to PDF, this would generate a Word document with the analysis results.'
-  );
-};
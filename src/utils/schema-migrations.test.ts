@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { UnsupportedSchemaVersionError } from './error-handling';
+import {
+  CURRENT_SCHEMA_VERSION,
+  LEGACY_SCHEMA_VERSION,
+  getSchemaVersion,
+  migrateAnalysisData,
+} from './schema-migrations';
+
+const migrateLegacy = (data: Record<string, unknown>) =>
+  migrateAnalysisData(data, LEGACY_SCHEMA_VERSION);
+
+describe('getSchemaVersion', () => {
+  it('counts data without a valid version as legacy', () => {
+    expect(getSchemaVersion(undefined)).toBe(LEGACY_SCHEMA_VERSION);
+    expect(getSchemaVersion('not a version')).toBe(LEGACY_SCHEMA_VERSION);
+    expect(getSchemaVersion(0)).toBe(LEGACY_SCHEMA_VERSION);
+    expect(getSchemaVersion(1.5)).toBe(LEGACY_SCHEMA_VERSION);
+  });
+
+  it('reads stored versions', () => {
+    expect(getSchemaVersion('2')).toBe(2);
+    expect(getSchemaVersion(3)).toBe(3);
+  });
+});
+
+describe('migrateAnalysisData', () => {
+  it('merges legacy link aliases into their canonical fields', () => {
+    const migrated = migrateLegacy({
+      hazards: [{ id: 'h1', linkedLossIds: ['l1'], lossIds: ['l1', 'l2'], linkedLosses: ['l3'] }],
+      requirements: [{ id: 'r1', scenarioIds: ['s1'], linkedScenarios: ['s2'] }],
+    });
+
+    expect(migrated).toEqual({
+      hazards: [{ id: 'h1', linkedLossIds: ['l1', 'l2', 'l3'] }],
+      requirements: [{ id: 'r1', linkedScenarioIds: ['s1', 's2'] }],
+    });
+  });
+
+  it('links control paths that only have a controls text to their actions', () => {
+    const migrated = migrateLegacy({
+      controlPaths: [
+        { id: 'cp1', sourceControllerId: 'c1', targetId: 'p1', controls: 'Apply brakes; RELEASE' },
+      ],
+      controlActions: [
+        { id: 'ca1', controllerId: 'c1', verb: 'APPLY', object: 'BRAKES' },
+        { id: 'ca2', controllerId: 'c1', verb: 'RELEASE', object: '' },
+        { id: 'ca3', controllerId: 'c2', verb: 'APPLY', object: 'BRAKES' },
+      ],
+    });
+
+    expect(migrated.controlPaths).toEqual([
+      expect.objectContaining({ id: 'cp1', controlActionIds: ['ca1', 'ca2'] }),
+    ]);
+    expect(migrated.controlActions).toEqual([
+      expect.objectContaining({ id: 'ca1', controlPathId: 'cp1' }),
+      expect.objectContaining({ id: 'ca2', controlPathId: 'cp1' }),
+      expect.not.objectContaining({ controlPathId: expect.anything() }),
+    ]);
+  });
+
+  it('writes the controls text of control paths that only have action ids', () => {
+    const migrated = migrateLegacy({
+      controlPaths: [
+        { id: 'cp1', sourceControllerId: 'c1', targetId: 'p1', controlActionIds: ['ca1'] },
+      ],
+      controlActions: [{ id: 'ca1', controllerId: 'c1', verb: 'APPLY', object: 'BRAKES' }],
+    });
+
+    expect(migrated.controlPaths).toEqual([
+      expect.objectContaining({ controls: 'APPLY BRAKES', controlActionIds: ['ca1'] }),
+    ]);
+  });
+
+  it('fills in required id lists missing from older data', () => {
+    const migrated = migrateLegacy({
+      ucas: [{ id: 'u1' }],
+      unsafeInteractions: [{ id: 'ui1', hazardIds: ['h1'] }],
+    });
+
+    expect(migrated).toEqual({
+      ucas: [{ id: 'u1', hazardIds: [] }],
+      unsafeInteractions: [{ id: 'ui1', affectedComponentIds: [], hazardIds: ['h1'] }],
+    });
+  });
+
+  it('leaves data of the current version as it is', () => {
+    const data = { hazards: [{ id: 'h1', lossIds: ['l1'] }] };
+
+    expect(migrateAnalysisData(data, CURRENT_SCHEMA_VERSION)).toBe(data);
+  });
+
+  it('refuses data written by a newer version', () => {
+    expect(() => migrateAnalysisData({}, CURRENT_SCHEMA_VERSION + 1)).toThrow(
+      UnsupportedSchemaVersionError
+    );
+  });
+});
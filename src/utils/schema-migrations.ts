@@ -0,0 +1,146 @@
+// Versioning of the analysis data schema and the migrations between versions
+import { ControlAction, ControlPath, Hazard, Requirement } from '@/types/types';
+import { UnsupportedSchemaVersionError, createErrorContext } from './error-handling';
+
+/**
+ * Version of the analysis data written by this build. Data without a version
+ * was written before the schema was versioned and counts as version 1.
+ */
+export const CURRENT_SCHEMA_VERSION = 2;
+
+export const LEGACY_SCHEMA_VERSION = 1;
+
+type SchemaData = Record<string, unknown>;
+
+export interface SchemaMigration {
+  version: number; // The version the migration upgrades to
+  description: string;
+  migrate: (data: SchemaData) => SchemaData;
+}
+
+const unique = (ids: (string[] | undefined)[]) => [...new Set(ids.flatMap(list => list || []))];
+
+const getControlsLabel = (action: ControlAction) => `${action.verb} ${action.object}`.trim();
+
+// Fields holding id lists that are required, but missing from data of older builds
+const REQUIRED_ID_LISTS: Record<string, string[]> = {
+  ucas: ['hazardIds'],
+  uccas: ['teamControllerIds', 'controlActionIds', 'otherControlActionIds', 'hazardIds'],
+  unsafeInteractions: ['affectedComponentIds', 'hazardIds'],
+};
+
+/**
+ * Merges the `lossIds` / `linkedLosses` and `scenarioIds` / `linkedScenarios` aliases
+ * into their canonical fields, links control paths and their control actions both
+ * ways, and fills in required id lists
+ */
+const normalizeLegacyFields = (data: SchemaData): SchemaData => {
+  const result = { ...data };
+
+  if (Array.isArray(data.hazards)) {
+    result.hazards = (data.hazards as Hazard[]).map(({ lossIds, linkedLosses, ...hazard }) => ({
+      ...hazard,
+      linkedLossIds: unique([hazard.linkedLossIds, lossIds, linkedLosses]),
+    }));
+  }
+
+  if (Array.isArray(data.requirements)) {
+    result.requirements = (data.requirements as Requirement[]).map(
+      ({ scenarioIds, linkedScenarios, ...requirement }) => ({
+        ...requirement,
+        linkedScenarioIds: unique([requirement.linkedScenarioIds, scenarioIds, linkedScenarios]),
+      })
+    );
+  }
+
+  if (Array.isArray(data.controlPaths)) {
+    const actions = Array.isArray(data.controlActions)
+      ? (data.controlActions as ControlAction[])
+      : [];
+    const controlPaths = (data.controlPaths as ControlPath[]).map(path => {
+      // Older builds only wrote the `controls` text, e.g. "Open valve; Close valve"
+      const labels = (path.controls || '')
+        .split(';')
+        .map(label => label.trim().toLowerCase())
+        .filter(Boolean);
+      const pathActions = path.controlActionIds?.length
+        ? actions.filter(action => path.controlActionIds!.includes(action.id))
+        : actions.filter(
+            action =>
+              action.controlPathId === path.id ||
+              (!action.controlPathId &&
+                action.controllerId === path.sourceControllerId &&
+                labels.includes(getControlsLabel(action).toLowerCase()))
+          );
+
+      return {
+        ...path,
+        controls: path.controls || pathActions.map(getControlsLabel).join('; '),
+        controlActionIds: path.controlActionIds?.length
+          ? path.controlActionIds
+          : pathActions.map(action => action.id),
+      };
+    });
+    result.controlPaths = controlPaths;
+
+    if (actions.length > 0) {
+      result.controlActions = actions.map(action => {
+        if (action.controlPathId) return action;
+        const path = controlPaths.find(p => p.controlActionIds.includes(action.id));
+        return path ? { ...action, controlPathId: path.id } : action;
+      });
+    }
+  }
+
+  Object.entries(REQUIRED_ID_LISTS).forEach(([collection, fields]) => {
+    if (!Array.isArray(data[collection])) return;
+    result[collection] = (data[collection] as SchemaData[]).map(item => ({
+      ...item,
+      ...Object.fromEntries(fields.map(field => [field, item[field] ?? []])),
+    }));
+  });
+
+  return result;
+};
+
+/**
+ * Every migration in version order. A new schema version adds its migration
+ * here and raises CURRENT_SCHEMA_VERSION.
+ */
+export const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  {
+    version: 2,
+    description: 'Normalize legacy link aliases and control path actions',
+    migrate: normalizeLegacyFields,
+  },
+];
+
+/**
+ * The schema version data was written with
+ */
+export const getSchemaVersion = (value: unknown): number => {
+  const version = Number(value);
+  return Number.isInteger(version) && version >= LEGACY_SCHEMA_VERSION
+    ? version
+    : LEGACY_SCHEMA_VERSION;
+};
+
+/**
+ * Upgrades analysis data written with an older schema version by running the
+ * pending migrations in order. Data from a newer version is refused rather than
+ * read half-understood.
+ */
+export const migrateAnalysisData = <T extends object>(data: T, schemaVersion: number): T => {
+  if (schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new UnsupportedSchemaVersionError(
+      schemaVersion,
+      CURRENT_SCHEMA_VERSION,
+      createErrorContext('SchemaMigrations', 'migrateAnalysisData')
+    );
+  }
+
+  return SCHEMA_MIGRATIONS.filter(migration => migration.version > schemaVersion).reduce(
+    (migrated, migration) => migration.migrate(migrated),
+    data as SchemaData
+  ) as T;
+};
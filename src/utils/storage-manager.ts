@@ -1,6 +1,8 @@
 import { Project } from '@/context/ProjectsContext';
+import { StorageBackendKind, analysisStorage } from './analysis-storage';
 
 interface StorageMetrics {
+  backend: StorageBackendKind;
   used: number;
   available: number;
   total: number;
@@ -30,39 +32,52 @@ export class StorageManager {
   }
 
   /**
-   * Get current storage usage metrics
+   * Get current storage usage metrics of the analysis storage backend
    */
   async getStorageMetrics(): Promise<StorageMetrics> {
-    try {
-      // Try to use navigator.storage.estimate() if available
-      if ('storage' in navigator && 'estimate' in navigator.storage) {
-        const estimate = await navigator.storage.estimate();
-        const used = estimate.usage || 0;
-        const total = estimate.quota || 10 * 1024 * 1024; // Default 10MB if not available
-
-        // Calculate per-project and per-analysis sizes
-        const { projectSizes, analysisSizes } = this.calculateDetailedSizes();
-
-        return {
-          used,
-          available: total - used,
-          total,
-          usagePercentage: (used / total) * 100,
-          projectSizes,
-          analysisSizes,
-        };
+    const { projectSizes, analysisSizes } = await this.calculateDetailedSizes();
+
+    // IndexedDB counts against the origin quota, which the Storage API reports
+    if (analysisStorage.kind === 'indexeddb') {
+      try {
+        if ('storage' in navigator && 'estimate' in navigator.storage) {
+          const estimate = await navigator.storage.estimate();
+          const used = estimate.usage || 0;
+          const total = estimate.quota || 50 * 1024 * 1024; // Minimum most browsers grant
+
+          return {
+            backend: analysisStorage.kind,
+            used,
+            available: total - used,
+            total,
+            usagePercentage: (used / total) * 100,
+            projectSizes,
+            analysisSizes,
+          };
+        }
+      } catch (error) {
+        // Storage estimate API not available, falling back to the stored document sizes
       }
-    } catch (error) {
-      // Storage estimate API not available, falling back to localStorage size calculation
+
+      const used = Object.values(projectSizes).reduce((total, size) => total + size, 0);
+      const estimatedQuota = 50 * 1024 * 1024;
+      return {
+        backend: analysisStorage.kind,
+        used,
+        available: estimatedQuota - used,
+        total: estimatedQuota,
+        usagePercentage: (used / estimatedQuota) * 100,
+        projectSizes,
+        analysisSizes,
+      };
     }
 
-    // Fallback: Calculate localStorage size manually
+    // localStorage has its own limit, independent of the origin quota
     const localStorageSize = this.calculateLocalStorageSize();
     const estimatedQuota = 10 * 1024 * 1024; // 10MB typical limit
 
-    const { projectSizes, analysisSizes } = this.calculateDetailedSizes();
-
     return {
+      backend: analysisStorage.kind,
       used: localStorageSize,
       available: estimatedQuota - localStorageSize,
       total: estimatedQuota,
@@ -254,46 +269,30 @@ export class StorageManager {
     return totalSize * 2; // UTF-16 encoding
   }
 
-  private calculateDetailedSizes(): {
+  private async calculateDetailedSizes(): Promise<{
     projectSizes: { [key: string]: number };
     analysisSizes: { [key: string]: number };
-  } {
+  }> {
     const projectSizes: { [key: string]: number } = {};
     const analysisSizes: { [key: string]: number } = {};
 
-    // Get projects data
     try {
-      const projectsStr = localStorage.getItem('stamp-projects');
-      if (projectsStr) {
-        const projects: Project[] = JSON.parse(projectsStr);
-
-        projects.forEach(project => {
-          let projectSize = 0;
-
-          // Calculate project metadata size
-          projectSize += new Blob([JSON.stringify(project)]).size;
-
-          // Calculate analysis data sizes
-          project.analyses.forEach(analysis => {
-            let analysisSize = 0;
-
-            // Check all possible analysis-related keys
-            const analysisKeys = Object.keys(localStorage).filter(key =>
-              key.includes(`-${analysis.id}`)
-            );
-
-            analysisKeys.forEach(key => {
-              const value = localStorage.getItem(key) || '';
-              analysisSize += new Blob([value]).size;
-            });
-
-            analysisSizes[analysis.id] = analysisSize;
-            projectSize += analysisSize;
-          });
-
-          projectSizes[project.id] = projectSize;
+      const [projects, documentSizes] = await Promise.all([
+        analysisStorage.loadProjects(),
+        analysisStorage.getAnalysisSizes(),
+      ]);
+
+      (projects || []).forEach(project => {
+        // Project metadata plus the data of its analyses
+        let projectSize = new Blob([JSON.stringify(project)]).size;
+
+        project.analyses.forEach(analysis => {
+          analysisSizes[analysis.id] = documentSizes[analysis.id] || 0;
+          projectSize += analysisSizes[analysis.id];
         });
-      }
+
+        projectSizes[project.id] = projectSize;
+      });
     } catch (error) {
       // Error calculating detailed sizes
     }
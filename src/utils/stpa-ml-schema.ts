@@ -0,0 +1,366 @@
+/**
+ * STPA-ML schema definition
+ * Declarative description of how every analysis collection maps to XML.
+ * The shipped XSD (public/schemas/stpa-ml.xsd) mirrors these definitions.
+ */
+
+export const STPAML_SCHEMA_VERSION = '2.0';
+export const STPAML_SCHEMA_LOCATION = 'stpa-ml.xsd';
+export const STPAML_ROOT_ELEMENT = 'STAPAnalysis';
+export const XSI_NAMESPACE = 'http://www.w3.org/2001/XMLSchema-instance';
+
+/**
+ * Element names used by the generic encodings
+ */
+export const STPAML_ITEM_ELEMENT = 'Item';
+export const STPAML_GROUP_ELEMENT = 'Group';
+export const STPAML_ENTRY_ELEMENT = 'Entry';
+export const STPAML_EXTENSION_ELEMENT = 'Extension';
+
+/**
+ * Scalar and collection encodings:
+ * - strings: <Item> children
+ * - groups: <Group> children holding <Item> children (string[][])
+ * - map: <Entry key="..."> children (Record<string, string>)
+ */
+export type STPAMLValueKind = 'string' | 'number' | 'boolean' | 'strings' | 'groups' | 'map';
+
+export interface STPAMLRecordField {
+  kind: 'record';
+  fields: STPAMLFields;
+}
+
+export interface STPAMLListField {
+  kind: 'list';
+  item: string;
+  fields: STPAMLFields;
+}
+
+export type STPAMLField = STPAMLValueKind | STPAMLRecordField | STPAMLListField;
+
+/**
+ * Property name -> encoding. An `id` property is carried as an attribute,
+ * every other property as a child element in declaration order.
+ */
+export type STPAMLFields = Record<string, STPAMLField>;
+
+const record = (fields: STPAMLFields): STPAMLRecordField => ({ kind: 'record', fields });
+const list = (item: string, fields: STPAMLFields): STPAMLListField => ({
+  kind: 'list',
+  item,
+  fields,
+});
+
+// Element names that don't follow the PascalCase convention
+const ELEMENT_NAME_OVERRIDES: Record<string, string> = {
+  ucas: 'UCAs',
+  uccas: 'UCCAs',
+};
+
+/**
+ * Element name for a property, e.g. linkedLossIds -> LinkedLossIds
+ */
+export const toElementName = (key: string): string =>
+  ELEMENT_NAME_OVERRIDES[key] || key.charAt(0).toUpperCase() + key.slice(1);
+
+const METADATA_FIELDS: STPAMLFields = {
+  projectName: 'string',
+  projectId: 'string',
+  version: 'string',
+  exportDate: 'string',
+  exportedBy: 'string',
+  toolVersion: 'string',
+};
+
+const ANALYSIS_SESSION_FIELDS: STPAMLFields = {
+  id: 'string',
+  analysisType: 'string',
+  title: 'string',
+  createdBy: 'string',
+  createdAt: 'string',
+  updatedAt: 'string',
+  currentStep: 'string',
+  scope: 'string',
+  folderId: 'string',
+};
+
+const LOSS_FIELDS: STPAMLFields = {
+  id: 'string',
+  code: 'string',
+  title: 'string',
+  description: 'string',
+  rationale: 'string',
+  isStandard: 'boolean',
+};
+
+const HAZARD_FIELDS: STPAMLFields = {
+  id: 'string',
+  code: 'string',
+  title: 'string',
+  systemComponent: 'string',
+  environmentalCondition: 'string',
+  systemState: 'string',
+  linkedLossIds: 'strings',
+  lossIds: 'strings',
+  linkedLosses: 'strings',
+  parentHazardId: 'string',
+  subHazardDetails: 'string',
+  severity: 'string',
+  systemCondition: 'string',
+};
+
+const SYSTEM_CONSTRAINT_FIELDS: STPAMLFields = {
+  id: 'string',
+  code: 'string',
+  text: 'string',
+  hazardId: 'string',
+  shallNotMustNot: 'string',
+};
+
+const SYSTEM_COMPONENT_FIELDS: STPAMLFields = {
+  id: 'string',
+  name: 'string',
+  type: 'string',
+  description: 'string',
+  x: 'number',
+  y: 'number',
+};
+
+const TEAM_DETAILS_FIELDS: STPAMLFields = {
+  isSingleUnit: 'boolean',
+  isHierarchical: 'boolean',
+  members: list('Member', {
+    id: 'string',
+    name: 'string',
+    commandRank: 'string',
+  }),
+  roles: list('Role', {
+    id: 'string',
+    name: 'string',
+    description: 'string',
+    authorityLevel: 'number',
+  }),
+  contexts: list('Context', {
+    id: 'string',
+    name: 'string',
+    description: 'string',
+    assignments: list('Assignment', {
+      memberId: 'string',
+      roleId: 'string',
+    }),
+  }),
+};
+
+const FIVE_FACTOR_FIELDS: STPAMLFields = {
+  neuroticism: 'number',
+  extraversion: 'number',
+  openness: 'number',
+  agreeableness: 'number',
+  conscientiousness: 'number',
+};
+
+const CONTROLLER_FIELDS: STPAMLFields = {
+  id: 'string',
+  name: 'string',
+  ctrlType: 'string',
+  description: 'string',
+  responsibilities: 'string',
+  teamDetails: record(TEAM_DETAILS_FIELDS),
+  orgDetails: 'string',
+  fiveFactorArchetype: 'string',
+  customFiveFactorScores: record(FIVE_FACTOR_FIELDS),
+  x: 'number',
+  y: 'number',
+  parentNode: 'string',
+};
+
+const CONTROL_PATH_FIELDS: STPAMLFields = {
+  id: 'string',
+  sourceControllerId: 'string',
+  targetId: 'string',
+  controls: 'string',
+  controlActionIds: 'strings',
+  higherAuthority: 'boolean',
+  actuatorLabel: 'string',
+};
+
+const FEEDBACK_PATH_FIELDS: STPAMLFields = {
+  id: 'string',
+  sourceId: 'string',
+  targetControllerId: 'string',
+  feedback: 'string',
+  isMissing: 'boolean',
+  rationale: 'string',
+  indirect: 'boolean',
+  sensorLabel: 'string',
+};
+
+const COMMUNICATION_PATH_FIELDS: STPAMLFields = {
+  id: 'string',
+  sourceControllerId: 'string',
+  targetControllerId: 'string',
+  description: 'string',
+  sourceMemberId: 'string',
+  targetMemberId: 'string',
+};
+
+const CONTROL_ACTION_FIELDS: STPAMLFields = {
+  id: 'string',
+  controllerId: 'string',
+  controlPathId: 'string',
+  roleId: 'string',
+  verb: 'string',
+  object: 'string',
+  description: 'string',
+  isOutOfScope: 'boolean',
+  name: 'string',
+  feedbackIds: 'strings',
+  isContinuous: 'boolean',
+};
+
+const UCA_FIELDS: STPAMLFields = {
+  id: 'string',
+  controllerId: 'string',
+  controlActionId: 'string',
+  ucaType: 'string',
+  context: 'string',
+  hazardIds: 'strings',
+  code: 'string',
+  riskCategory: 'string',
+  riskScore: 'number',
+  description: 'string',
+  linkedHazards: 'strings',
+};
+
+const UCCA_FIELDS: STPAMLFields = {
+  id: 'string',
+  code: 'string',
+  candidateKey: 'string',
+  abstractionType: 'string',
+  uccaTypes: 'string',
+  teamControllerIds: 'strings',
+  controlActionIds: 'strings',
+  otherControlActionIds: 'strings',
+  controllerId: 'string',
+  otherControllerIds: 'strings',
+  actionState: 'string',
+  otherActionsState: 'string',
+  description: 'string',
+  reviewStatus: 'string',
+  rationale: 'string',
+  context: 'string',
+  hazardIds: 'strings',
+};
+
+const REQUIREMENT_FIELDS: STPAMLFields = {
+  id: 'string',
+  text: 'string',
+  linkedScenarioIds: 'strings',
+  scenarioIds: 'strings',
+  linkedScenarios: 'strings',
+  ucaIds: 'strings',
+  type: 'string',
+  implementation: 'string',
+  code: 'string',
+  priority: 'string',
+  description: 'string',
+  verificationMethod: 'string',
+};
+
+// safetyConstraints has no declared shape yet and travels as an Extension
+const CAUSAL_SCENARIO_FIELDS: STPAMLFields = {
+  id: 'string',
+  code: 'string',
+  ucaId: 'string',
+  name: 'string',
+  title: 'string',
+  description: 'string',
+  causalFactors: list('CausalFactor', {
+    id: 'string',
+    type: 'string',
+    description: 'string',
+    category: 'string',
+    relatedComponentId: 'string',
+    details: 'string',
+    relatedControllerId: 'string',
+  }),
+  context: 'string',
+  hazardIds: 'strings',
+  scenarioType: 'string',
+  likelihood: 'string',
+  severity: 'string',
+  riskLevel: 'string',
+  mitigationStrategy: 'string',
+  assumptions: 'strings',
+  factorInteractions: 'strings',
+};
+
+const EVENT_FIELDS: STPAMLFields = {
+  id: 'string',
+  description: 'string',
+  order: 'number',
+};
+
+const HARDWARE_COMPONENT_FIELDS: STPAMLFields = {
+  id: 'string',
+  name: 'string',
+  type: 'string',
+  description: 'string',
+  systemComponentId: 'string',
+};
+
+const FAILURE_MODE_FIELDS: STPAMLFields = {
+  id: 'string',
+  hardwareComponentId: 'string',
+  failureType: 'string',
+  description: 'string',
+  probabilityAssessment: 'number',
+  severityLevel: 'string',
+  detectionDifficulty: 'string',
+};
+
+const UNSAFE_INTERACTION_FIELDS: STPAMLFields = {
+  id: 'string',
+  sourceComponentId: 'string',
+  affectedComponentIds: 'strings',
+  interactionType: 'string',
+  description: 'string',
+  hazardIds: 'strings',
+};
+
+const HARDWARE_SESSION_FIELDS: STPAMLFields = {
+  id: 'string',
+  completedAt: 'string',
+  analysisNotes: 'string',
+  importedProbabilityData: 'boolean',
+};
+
+/**
+ * Children of the root element, in document order
+ */
+export const STPAML_ANALYSIS_FIELDS: STPAMLFields = {
+  metadata: record(METADATA_FIELDS),
+  analysisSession: record(ANALYSIS_SESSION_FIELDS),
+  castStep2SubStep: 'number',
+  castStep2MaxReachedSubStep: 'number',
+  losses: list('Loss', LOSS_FIELDS),
+  hazards: list('Hazard', HAZARD_FIELDS),
+  systemConstraints: list('SystemConstraint', SYSTEM_CONSTRAINT_FIELDS),
+  systemComponents: list('SystemComponent', SYSTEM_COMPONENT_FIELDS),
+  controllers: list('Controller', CONTROLLER_FIELDS),
+  controlPaths: list('ControlPath', CONTROL_PATH_FIELDS),
+  feedbackPaths: list('FeedbackPath', FEEDBACK_PATH_FIELDS),
+  communicationPaths: list('CommunicationPath', COMMUNICATION_PATH_FIELDS),
+  controlActions: list('ControlAction', CONTROL_ACTION_FIELDS),
+  ucas: list('UCA', UCA_FIELDS),
+  uccas: list('UCCA', UCCA_FIELDS),
+  interchangeableControllerGroups: 'groups',
+  requirements: list('Requirement', REQUIREMENT_FIELDS),
+  causalScenarios: list('CausalScenario', CAUSAL_SCENARIO_FIELDS),
+  sequenceOfEvents: list('Event', EVENT_FIELDS),
+  activeContexts: 'map',
+  hardwareComponents: list('HardwareComponent', HARDWARE_COMPONENT_FIELDS),
+  failureModes: list('FailureMode', FAILURE_MODE_FIELDS),
+  unsafeInteractions: list('UnsafeInteraction', UNSAFE_INTERACTION_FIELDS),
+  hardwareAnalysisSession: record(HARDWARE_SESSION_FIELDS),
+};
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { mergeChanges, mergeEntityChanges } from './tab-sync';
+
+const hazard = { id: 'h1', code: 'H-1', title: 'Loss of braking', linkedLossIds: ['l1'] };
+const otherHazard = { id: 'h2', code: 'H-2', title: 'Runway overrun', linkedLossIds: [] };
+
+// The stored document both tabs started from
+const base = { hazards: [hazard, otherHazard], castStep2SubStep: 1 };
+
+describe('mergeChanges', () => {
+  it('takes the changes of whichever side made them', () => {
+    const local = { ...base, castStep2SubStep: 2 };
+    const remote = { ...base, hazards: [hazard] };
+
+    expect(mergeChanges(base, local, remote, { prefer: 'local' })).toEqual({
+      value: { hazards: [hazard], castStep2SubStep: 2 },
+      conflicts: [],
+    });
+  });
+
+  it('keeps the identity of values equal to the remote side', () => {
+    const remote = { ...base, hazards: [{ ...hazard }, otherHazard] };
+
+    const { value } = mergeChanges(base, base, remote, { prefer: 'local' });
+
+    expect(value.hazards).toBe(remote.hazards);
+  });
+
+  it('merges edits of different entities and fields of one collection', () => {
+    const local = {
+      ...base,
+      hazards: [{ ...hazard, title: 'Loss of deceleration' }, otherHazard],
+    };
+    const remote = {
+      ...base,
+      hazards: [
+        { ...hazard, linkedLossIds: ['l1', 'l2'] },
+        { ...otherHazard, title: 'Runway excursion' },
+      ],
+    };
+
+    expect(mergeChanges(base, local, remote, { prefer: 'remote' })).toEqual({
+      value: {
+        ...base,
+        hazards: [
+          { ...hazard, title: 'Loss of deceleration', linkedLossIds: ['l1', 'l2'] },
+          { ...otherHazard, title: 'Runway excursion' },
+        ],
+      },
+      conflicts: [],
+    });
+  });
+
+  it('keeps the remote order and adds entities only created locally after it', () => {
+    const added = { id: 'h3', code: 'H-3', title: 'Brake fire', linkedLossIds: [] };
+    const local = { ...base, hazards: [hazard, otherHazard, added] };
+    const remote = { ...base, hazards: [otherHazard, hazard] };
+
+    const { value } = mergeChanges(base, local, remote, { prefer: 'local' });
+
+    expect(value.hazards.map(h => h.id)).toEqual(['h2', 'h1', 'h3']);
+  });
+
+  it('lists the fields both sides changed differently and keeps the preferred value', () => {
+    const local = { ...base, hazards: [{ ...hazard, title: 'Local title' }, otherHazard] };
+    const remote = { ...base, hazards: [{ ...hazard, title: 'Remote title' }, otherHazard] };
+
+    const preferLocal = mergeChanges(base, local, remote, { prefer: 'local' });
+    const preferRemote = mergeChanges(base, local, remote, { prefer: 'remote' });
+
+    expect(preferLocal.conflicts).toEqual(['hazards › H-1 › title']);
+    expect(preferLocal.value.hazards[0].title).toBe('Local title');
+    expect(preferRemote.value.hazards[0].title).toBe('Remote title');
+  });
+
+  it('does not see the same change on both sides as a conflict', () => {
+    const changed = { ...base, hazards: [{ ...hazard, title: 'Same title' }, otherHazard] };
+
+    expect(mergeChanges(base, changed, { ...changed }, { prefer: 'local' }).conflicts).toEqual([]);
+  });
+
+  it('sees an entity deleted on one side and edited on the other as a conflict', () => {
+    const local = { ...base, hazards: [{ ...hazard, title: 'Edited' }, otherHazard] };
+    const remote = { ...base, hazards: [otherHazard] };
+
+    expect(mergeChanges(base, local, remote, { prefer: 'local' })).toEqual({
+      value: { ...base, hazards: [otherHazard, { ...hazard, title: 'Edited' }] },
+      conflicts: ['hazards › H-1'],
+    });
+  });
+
+  it('resolves the fields that are never in conflict', () => {
+    const local = { ...base, castStep2SubStep: 3 };
+    const remote = { ...base, castStep2SubStep: 2 };
+
+    const result = mergeChanges(base, local, remote, {
+      prefer: 'remote',
+      resolvers: { castStep2SubStep: (l, r) => Math.max(Number(l), Number(r)) },
+    });
+
+    expect(result).toEqual({ value: { ...base, castStep2SubStep: 3 }, conflicts: [] });
+  });
+});
+
+describe('mergeEntityChanges', () => {
+  it('merges two versions of a list of entities', () => {
+    const project = { id: 'p1', name: 'Wheel brakes', currentStep: 1 };
+    const local = [{ ...project, currentStep: 2 }];
+    const remote = [
+      { ...project, name: 'Wheel brake system' },
+      { id: 'p2', name: 'Autopilot', currentStep: 0 },
+    ];
+
+    expect(mergeEntityChanges([project], local, remote, { prefer: 'local' })).toEqual({
+      value: [
+        { id: 'p1', name: 'Wheel brake system', currentStep: 2 },
+        { id: 'p2', name: 'Autopilot', currentStep: 0 },
+      ],
+      conflicts: [],
+    });
+  });
+});
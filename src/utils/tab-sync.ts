@@ -0,0 +1,211 @@
+// Synchronisation of projects and analysis data between browser tabs
+import { v4 as uuidv4 } from 'uuid';
+
+export type TabSyncMessage =
+  | { type: 'projects'; revision: string }
+  | { type: 'analysis'; analysisId: string; revision: string };
+
+type TabSyncListener = (message: TabSyncMessage) => void;
+
+const CHANNEL_NAME = 'stamp-web-tool-sync';
+const STORAGE_EVENT_KEY = 'stamp-tab-sync'; // Fallback where BroadcastChannel is missing
+
+/**
+ * Tells the other tabs of this origin that stored data changed. Messages are not
+ * delivered to the tab that posts them.
+ */
+export class TabSyncChannel {
+  private readonly tabId = uuidv4();
+  private channel: BroadcastChannel | null = null;
+  private listeners = new Set<TabSyncListener>();
+
+  constructor() {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = event => this.notify(event.data);
+    } else if (typeof window !== 'undefined') {
+      window.addEventListener('storage', event => {
+        if (event.key !== STORAGE_EVENT_KEY || !event.newValue) return;
+        try {
+          const { tabId, message } = JSON.parse(event.newValue);
+          if (tabId !== this.tabId) this.notify(message);
+        } catch (error) {
+          console.error('Failed to read tab sync message:', error);
+        }
+      });
+    }
+  }
+
+  private notify(message: TabSyncMessage) {
+    this.listeners.forEach(listener => listener(message));
+  }
+
+  publish(message: TabSyncMessage) {
+    if (this.channel) {
+      this.channel.postMessage(message);
+      return;
+    }
+    try {
+      // The storage event only fires when the value changes, hence the nonce
+      localStorage.setItem(
+        STORAGE_EVENT_KEY,
+        JSON.stringify({ tabId: this.tabId, nonce: uuidv4(), message })
+      );
+    } catch (error) {
+      console.error('Failed to notify other tabs:', error);
+    }
+  }
+
+  /**
+   * Returns the unsubscribe function.
+   */
+  subscribe(listener: TabSyncListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const tabSync = new TabSyncChannel();
+
+export interface MergeOptions {
+  prefer: 'local' | 'remote'; // Which side wins a conflict
+  resolvers?: Record<string, (local: unknown, remote: unknown) => unknown>; // Fields never in conflict
+}
+
+export interface MergeResult<T> {
+  value: T;
+  conflicts: string[]; // Paths of the values both sides changed differently
+}
+
+type Entity = { id: string } & Record<string, unknown>;
+
+const isSame = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isEntityList = (value: unknown): value is Entity[] =>
+  Array.isArray(value) && value.every(item => isRecord(item) && typeof item.id === 'string');
+
+const getEntityName = (entity: Entity) =>
+  String(entity.code || entity.name || entity.title || entity.id);
+
+const joinPath = (path: string, segment: string) => (path ? `${path} › ${segment}` : segment);
+
+// Values equal to the remote side keep its identity, so callers can tell what the merge changed
+const mergeValue = (
+  path: string,
+  base: unknown,
+  local: unknown,
+  remote: unknown,
+  options: MergeOptions,
+  conflicts: string[]
+): unknown => {
+  if (isSame(local, base) || isSame(local, remote)) return remote;
+  if (isSame(remote, base)) return local;
+
+  const field = path.split(' › ').pop()!;
+  const resolver = options.resolvers?.[field];
+  if (resolver) return resolver(local, remote);
+
+  if (isEntityList(local) && isEntityList(remote) && (base === undefined || isEntityList(base))) {
+    return mergeEntityLists(path, base ?? [], local, remote, options, conflicts);
+  }
+  if (isRecord(local) && isRecord(remote) && (base === undefined || isRecord(base))) {
+    return mergeRecords(path, base ?? {}, local, remote, options, conflicts);
+  }
+
+  conflicts.push(path);
+  return options.prefer === 'local' ? local : remote;
+};
+
+const mergeRecords = (
+  path: string,
+  base: Record<string, unknown>,
+  local: Record<string, unknown>,
+  remote: Record<string, unknown>,
+  options: MergeOptions,
+  conflicts: string[]
+) => {
+  const keys = [...new Set([...Object.keys(remote), ...Object.keys(local)])];
+  const merged: Record<string, unknown> = {};
+  keys.forEach(key => {
+    const value = mergeValue(
+      joinPath(path, key),
+      base[key],
+      local[key],
+      remote[key],
+      options,
+      conflicts
+    );
+    if (value !== undefined) merged[key] = value;
+  });
+  return merged;
+};
+
+/**
+ * Entities are matched by id and merged field by field, so two tabs editing
+ * different items of a collection don't conflict. Remote order is kept;
+ * items only added locally follow.
+ */
+const mergeEntityLists = (
+  path: string,
+  base: Entity[],
+  local: Entity[],
+  remote: Entity[],
+  options: MergeOptions,
+  conflicts: string[]
+) => {
+  const byId = (list: Entity[]) => new Map(list.map(item => [item.id, item]));
+  const baseById = byId(base);
+  const localById = byId(local);
+  const remoteById = byId(remote);
+  const ids = [
+    ...remote.map(item => item.id),
+    ...local.filter(item => !remoteById.has(item.id)).map(item => item.id),
+  ];
+
+  return ids.flatMap(id => {
+    const item = localById.get(id) ?? remoteById.get(id) ?? baseById.get(id)!;
+    const value = mergeValue(
+      joinPath(path, getEntityName(item)),
+      baseById.get(id),
+      localById.get(id),
+      remoteById.get(id),
+      options,
+      conflicts
+    );
+    return value === undefined ? [] : [value as Entity];
+  });
+};
+
+/**
+ * Three-way merge of a record such as an analysis document: the changes of both
+ * sides since the common base are combined, down to single entity fields
+ */
+export const mergeChanges = <T extends Record<string, unknown>>(
+  base: T,
+  local: T,
+  remote: T,
+  options: MergeOptions
+): MergeResult<T> => {
+  const conflicts: string[] = [];
+  const value = mergeRecords('', base, local, remote, options, conflicts) as T;
+  return { value, conflicts };
+};
+
+/**
+ * Three-way merge of two versions of a list of entities, such as the projects
+ */
+export const mergeEntityChanges = <T extends { id: string }>(
+  base: T[],
+  local: T[],
+  remote: T[],
+  options: MergeOptions
+): MergeResult<T[]> => {
+  const conflicts: string[] = [];
+  const value = mergeValue('', base, local, remote, options, conflicts) as T[];
+  return { value, conflicts };
+};
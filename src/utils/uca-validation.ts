@@ -1,4 +1,4 @@
-import { Controller, ControlAction, UnsafeControlAction, Hazard, UCAType } from '@/types/types';
+import { Controller, ControlAction, UnsafeControlAction, Hazard } from '@/types/types';
 
 // Enhanced validation framework for MIT STPA compliance
 export interface ValidationResult {
@@ -33,20 +33,6 @@ export interface ControllerActionAuthority {
   authorityLevel: number; // 0-1 scale for partial authority
 }
 
-export interface ComplianceReport {
-  mitStpaCompliance: boolean;
-  systematicCompleteness: number; // 0-100 percentage
-  traceabilityScore: number; // 0-100 percentage
-  qualityMetrics: QualityMetrics;
-}
-
-export interface QualityMetrics {
-  contextSpecificity: number; // How specific are UCA contexts
-  hazardCoverage: number; // Percentage of hazards addressed
-  controllerCoverage: number; // Percentage of controllers analyzed
-  ucaTypeCoverage: number; // Coverage across UCA types
-}
-
 /**
  * Validates controller authority for control actions
  * Critical for ensuring UCAs represent valid controller-action relationships
@@ -392,77 +378,7 @@ export const validateUCA = (
   };
 };
 
-/**
- * Generate compliance report for systematic completeness
- * Optimized with caching and efficient data structures
- */
-export const generateComplianceReport = (
-  ucas: UnsafeControlAction[],
-  controllers: Controller[],
-  controlActions: ControlAction[],
-  hazards: Hazard[]
-): ComplianceReport => {
-  // Early return for empty data
-  if (!ucas.length || !controllers.length || !controlActions.length || !hazards.length) {
-    return {
-      mitStpaCompliance: false,
-      systematicCompleteness: 0,
-      traceabilityScore: 0,
-      qualityMetrics: {
-        contextSpecificity: 0,
-        hazardCoverage: 0,
-        controllerCoverage: 0,
-        ucaTypeCoverage: 0,
-      },
-    };
-  }
-  // Calculate systematic completeness
-  const inScopeActions = controlActions.filter(ca => !ca.isOutOfScope);
-  const ucaTypes = [UCAType.NotProvided, UCAType.ProvidedUnsafe, UCAType.TooEarly, UCAType.TooLate];
-
-  const expectedUCACombinations = inScopeActions.length * ucaTypes.length;
-  const actualUCACombinations = ucas.length;
-  const systematicCompleteness =
-    expectedUCACombinations > 0
-      ? Math.min(100, (actualUCACombinations / expectedUCACombinations) * 100)
-      : 100;
-
-  // Calculate traceability score
-  const ucasWithValidHazards = ucas.filter(
-    uca =>
-      uca.hazardIds.length > 0 &&
-      uca.hazardIds.every(hazardId => hazards.find(h => h.id === hazardId))
-  );
-  const traceabilityScore =
-    ucas.length > 0 ? (ucasWithValidHazards.length / ucas.length) * 100 : 100;
-
-  // Calculate quality metrics
-  const contextsWithDetail = ucas.filter(uca => uca.context.length >= 20);
-  const contextSpecificity =
-    ucas.length > 0 ? (contextsWithDetail.length / ucas.length) * 100 : 100;
-
-  const addressedHazards = new Set(ucas.flatMap(uca => uca.hazardIds));
-  const hazardCoverage = hazards.length > 0 ? (addressedHazards.size / hazards.length) * 100 : 100;
-
-  const analyzedControllers = new Set(ucas.map(uca => uca.controllerId));
-  const controllerCoverage =
-    controllers.length > 0 ? (analyzedControllers.size / controllers.length) * 100 : 100;
-
-  const ucaTypeDistribution = new Set(ucas.map(uca => uca.ucaType));
-  const ucaTypeCoverage = (ucaTypeDistribution.size / ucaTypes.length) * 100;
-
-  return {
-    mitStpaCompliance: systematicCompleteness >= 80 && traceabilityScore >= 95,
-    systematicCompleteness,
-    traceabilityScore,
-    qualityMetrics: {
-      contextSpecificity,
-      hazardCoverage,
-      controllerCoverage,
-      ucaTypeCoverage,
-    },
-  };
-};
+// Completeness and traceability of whole analyses are checked by the rules in validation-rules.ts
 
 // Validation error codes for reference
 export const VALIDATION_CODES = {
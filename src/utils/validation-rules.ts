@@ -0,0 +1,441 @@
+// Declarative validation rules over all steps of an analysis, configurable per project
+import {
+  AnalysisData,
+  AnalysisType,
+  Hazard,
+  Requirement,
+  UCAType,
+  UnsafeControlAction,
+  ValidationRuleSettings,
+} from '@/types/types';
+import { ValidationError } from './uca-validation';
+
+export type ValidationRuleScope =
+  | 'loss'
+  | 'hazard'
+  | 'structure'
+  | 'uca'
+  | 'scenario'
+  | 'requirement';
+
+export interface RuleViolation {
+  entityId?: string; // Unset for rules on the analysis as a whole
+  subject: string; // Fills {subject} in the rule's message
+  value?: number; // Fills {value}, e.g. a measured percentage
+}
+
+export interface ValidationRuleThreshold {
+  label: string;
+  defaultValue: number;
+  unit: '%' | 'characters';
+}
+
+export interface ValidationRule {
+  id: string;
+  scope: ValidationRuleScope;
+  severity: ValidationError['severity'];
+  title: string; // What the rule requires
+  message: string; // Per violation; {subject}, {value} and {threshold} are filled in
+  threshold?: ValidationRuleThreshold;
+  enabledByDefault?: boolean; // True if unset
+  appliesTo?: (data: AnalysisData) => boolean; // E.g. STPA analyses only
+  check: (data: AnalysisData, threshold: number) => RuleViolation[];
+}
+
+export interface ValidationRuleResult {
+  rule: ValidationRule;
+  threshold?: number;
+  passed: boolean;
+  messages: string[];
+  violations: RuleViolation[];
+}
+
+export const VALIDATION_RULE_SCOPE_LABELS: Record<ValidationRuleScope, string> = {
+  loss: 'Losses',
+  hazard: 'Hazards',
+  structure: 'Control Structure',
+  uca: 'Unsafe Control Actions',
+  scenario: 'Causal Scenarios',
+  requirement: 'Requirements',
+};
+
+// Analysis steps the scopes belong to, as used in CompletenessReport.stepCompleteness
+export const VALIDATION_RULE_SCOPE_STEPS: Record<ValidationRuleScope, string> = {
+  loss: 'step1',
+  hazard: 'step1',
+  structure: 'step2',
+  uca: 'step3',
+  scenario: 'step4',
+  requirement: 'step5',
+};
+
+const ALL_UCA_TYPES = Object.values(UCAType);
+
+const isCAST = (data: AnalysisData) => data.analysisSession?.analysisType === AnalysisType.CAST;
+const isNotCAST = (data: AnalysisData) => !isCAST(data);
+
+// Links including the legacy aliases, for data that was never migrated
+const hazardLossIds = (hazard: Hazard) => [
+  ...(hazard.linkedLossIds || []),
+  ...(hazard.lossIds || []),
+  ...(hazard.linkedLosses || []),
+];
+const ucaHazardIds = (uca: UnsafeControlAction) => [
+  ...(uca.hazardIds || []),
+  ...(uca.linkedHazards || []),
+];
+const requirementScenarioIds = (requirement: Requirement) => [
+  ...(requirement.linkedScenarioIds || []),
+  ...(requirement.scenarioIds || []),
+  ...(requirement.linkedScenarios || []),
+];
+
+const percentage = (part: number, total: number) =>
+  total === 0 ? 100 : Math.round((part / total) * 100);
+
+/**
+ * A rule violated once by the analysis when a collection is empty
+ */
+const recorded =
+  (items: (data: AnalysisData) => unknown[], subject: string): ValidationRule['check'] =>
+  data =>
+    items(data).length === 0 ? [{ subject }] : [];
+
+/**
+ * A rule violated by every item that fails the test
+ */
+const everyItem =
+  <T extends { id: string }>(
+    items: (data: AnalysisData) => T[],
+    passes: (item: T, data: AnalysisData, threshold: number) => boolean,
+    subjectOf: (item: T) => string
+  ): ValidationRule['check'] =>
+  (data, threshold) =>
+    items(data)
+      .filter(item => !passes(item, data, threshold))
+      .map(item => ({ entityId: item.id, subject: subjectOf(item) }));
+
+const scenarioSubject = (scenario: { id: string; code?: string; title?: string }) =>
+  scenario.code || scenario.title || scenario.id;
+
+export const VALIDATION_RULES: ValidationRule[] = [
+  {
+    id: 'loss.identified',
+    scope: 'loss',
+    severity: 'critical',
+    title: 'Losses are identified',
+    message: 'No losses have been identified.',
+    check: recorded(data => data.losses, 'Analysis'),
+  },
+  {
+    id: 'loss.has-hazard',
+    scope: 'loss',
+    severity: 'medium',
+    title: 'Every loss is linked to a hazard',
+    message: 'Loss {subject} is not linked to any hazard.',
+    check: everyItem(
+      data => data.losses,
+      (loss, data) => data.hazards.some(h => hazardLossIds(h).includes(loss.id)),
+      loss => loss.code
+    ),
+  },
+  {
+    id: 'loss.sequence-of-events',
+    scope: 'loss',
+    severity: 'high',
+    title: 'The sequence of events is recorded',
+    message: 'No events have been recorded in the sequence of events.',
+    appliesTo: isCAST,
+    check: recorded(data => data.sequenceOfEvents, 'Analysis'),
+  },
+  {
+    id: 'hazard.identified',
+    scope: 'hazard',
+    severity: 'critical',
+    title: 'Hazards are identified',
+    message: 'No hazards have been identified.',
+    check: recorded(data => data.hazards, 'Analysis'),
+  },
+  {
+    id: 'hazard.linked-to-loss',
+    scope: 'hazard',
+    severity: 'high',
+    title: 'Every hazard is linked to a loss',
+    message: 'Hazard {subject} is not linked to any loss.',
+    check: everyItem(
+      data => data.hazards,
+      hazard => hazardLossIds(hazard).length > 0,
+      hazard => hazard.code
+    ),
+  },
+  {
+    id: 'hazard.has-constraint',
+    scope: 'hazard',
+    severity: 'medium',
+    title: 'Every hazard has a system constraint',
+    message: 'Hazard {subject} has no system constraint.',
+    check: everyItem(
+      data => data.hazards,
+      (hazard, data) => data.systemConstraints.some(c => c.hazardId === hazard.id),
+      hazard => hazard.code
+    ),
+  },
+  {
+    id: 'hazard.has-severity',
+    scope: 'hazard',
+    severity: 'low',
+    title: 'Every hazard has a severity classification',
+    message: 'Hazard {subject} has no severity.',
+    enabledByDefault: false,
+    check: everyItem(
+      data => data.hazards,
+      hazard => !!hazard.severity?.trim(),
+      hazard => hazard.code
+    ),
+  },
+  {
+    id: 'structure.controllers',
+    scope: 'structure',
+    severity: 'critical',
+    title: 'Controllers are modelled',
+    message: 'The control structure has no controllers.',
+    check: recorded(data => data.controllers, 'Analysis'),
+  },
+  {
+    id: 'structure.control-paths',
+    scope: 'structure',
+    severity: 'high',
+    title: 'Control paths are modelled',
+    message: 'The control structure has no control paths.',
+    check: recorded(data => data.controlPaths, 'Analysis'),
+  },
+  {
+    id: 'structure.feedback-paths',
+    scope: 'structure',
+    severity: 'high',
+    title: 'Feedback paths are modelled',
+    message: 'The control structure has no feedback paths.',
+    check: recorded(data => data.feedbackPaths, 'Analysis'),
+  },
+  {
+    id: 'structure.control-actions',
+    scope: 'structure',
+    severity: 'high',
+    title: 'Control actions are defined',
+    message: 'No control actions have been defined.',
+    check: recorded(data => data.controlActions, 'Analysis'),
+  },
+  {
+    id: 'uca.identified',
+    scope: 'uca',
+    severity: 'critical',
+    title: 'UCAs are identified',
+    message: 'No unsafe control actions have been identified.',
+    appliesTo: isNotCAST,
+    check: recorded(data => data.ucas, 'Analysis'),
+  },
+  {
+    id: 'uca.linked-to-hazard',
+    scope: 'uca',
+    severity: 'critical',
+    title: 'Every UCA is linked to an existing hazard',
+    message: 'UCA {subject} is not linked to an existing hazard.',
+    appliesTo: isNotCAST,
+    check: everyItem(
+      data => data.ucas,
+      (uca, data) => ucaHazardIds(uca).some(id => data.hazards.some(h => h.id === id)),
+      uca => uca.code
+    ),
+  },
+  {
+    id: 'uca.hazard-coverage',
+    scope: 'uca',
+    severity: 'high',
+    title: 'Every hazard is addressed by a UCA',
+    message: 'Hazard {subject} is not addressed by any UCA.',
+    appliesTo: isNotCAST,
+    check: everyItem(
+      data => data.hazards,
+      (hazard, data) => data.ucas.some(u => ucaHazardIds(u).includes(hazard.id)),
+      hazard => hazard.code
+    ),
+  },
+  {
+    id: 'uca.controller-coverage',
+    scope: 'uca',
+    severity: 'medium',
+    title: 'Every controller with control actions is analysed',
+    message: 'Controller {subject} has control actions but no UCAs.',
+    appliesTo: isNotCAST,
+    check: everyItem(
+      data =>
+        data.controllers.filter(c =>
+          data.controlActions.some(a => a.controllerId === c.id && !a.isOutOfScope)
+        ),
+      (controller, data) => data.ucas.some(u => u.controllerId === controller.id),
+      controller => controller.name
+    ),
+  },
+  {
+    id: 'uca.systematic-completeness',
+    scope: 'uca',
+    severity: 'medium',
+    title: 'Control actions are analysed for every UCA type',
+    message:
+      '{value}% of the in-scope control action and UCA type combinations are analysed; at least {threshold}% are required.',
+    threshold: { label: 'Minimum coverage', defaultValue: 80, unit: '%' },
+    appliesTo: isNotCAST,
+    check: (data, threshold) => {
+      // A combination is analysed when it has a UCA or is marked not applicable
+      const actions = data.controlActions.filter(a => !a.isOutOfScope);
+      const analysed = actions.reduce(
+        (count, action) =>
+          count +
+          ALL_UCA_TYPES.filter(
+            type =>
+              data.ucas.some(u => u.controlActionId === action.id && u.ucaType === type) ||
+              (data.notApplicableStatuses || []).some(
+                s => s.controlActionId === action.id && s.ucaType === type
+              )
+          ).length,
+        0
+      );
+      const value = percentage(analysed, actions.length * ALL_UCA_TYPES.length);
+      return value < threshold ? [{ subject: 'Analysis', value }] : [];
+    },
+  },
+  {
+    id: 'uca.context-detail',
+    scope: 'uca',
+    severity: 'low',
+    title: 'UCA contexts are specific',
+    message: 'The context of UCA {subject} is shorter than {threshold} characters.',
+    threshold: { label: 'Minimum context length', defaultValue: 20, unit: 'characters' },
+    appliesTo: isNotCAST,
+    check: everyItem(
+      data => data.ucas,
+      (uca, _data, threshold) => (uca.context || '').trim().length >= threshold,
+      uca => uca.code
+    ),
+  },
+  {
+    id: 'scenario.identified',
+    scope: 'scenario',
+    severity: 'high',
+    title: 'Causal scenarios are identified',
+    message: 'No causal scenarios have been identified.',
+    appliesTo: isNotCAST,
+    check: recorded(data => data.scenarios || [], 'Analysis'),
+  },
+  {
+    id: 'scenario.uca-coverage',
+    scope: 'scenario',
+    severity: 'medium',
+    title: 'Every UCA has a causal scenario',
+    message: 'UCA {subject} has no causal scenario.',
+    appliesTo: isNotCAST,
+    check: everyItem(
+      data => data.ucas,
+      (uca, data) => (data.scenarios || []).some(s => s.ucaId === uca.id),
+      uca => uca.code
+    ),
+  },
+  {
+    id: 'scenario.causal-factors',
+    scope: 'scenario',
+    severity: 'low',
+    title: 'Every causal scenario names its causal factors',
+    message: 'Scenario {subject} has no causal factors.',
+    appliesTo: isNotCAST,
+    check: everyItem(
+      data => data.scenarios || [],
+      scenario => scenario.causalFactors.length > 0,
+      scenarioSubject
+    ),
+  },
+  {
+    id: 'requirement.identified',
+    scope: 'requirement',
+    severity: 'high',
+    title: 'Requirements or mitigations are defined',
+    message: 'No requirements or mitigations have been defined.',
+    check: recorded(data => data.requirements, 'Analysis'),
+  },
+  {
+    id: 'requirement.scenario-coverage',
+    scope: 'requirement',
+    severity: 'medium',
+    title: 'Every causal scenario is addressed by a requirement',
+    message: 'Scenario {subject} is not addressed by a requirement.',
+    check: everyItem(
+      data => data.scenarios || [],
+      (scenario, data) =>
+        data.requirements.some(r => requirementScenarioIds(r).includes(scenario.id)),
+      scenarioSubject
+    ),
+  },
+  {
+    id: 'requirement.traceability',
+    scope: 'requirement',
+    severity: 'high',
+    title: 'Requirements trace to causal scenarios',
+    message:
+      '{value}% of the requirements trace to a causal scenario; at least {threshold}% are required.',
+    threshold: { label: 'Minimum traced share', defaultValue: 95, unit: '%' },
+    enabledByDefault: false,
+    check: (data, threshold) => {
+      const scenarioIds = new Set((data.scenarios || []).map(s => s.id));
+      const traced = data.requirements.filter(r =>
+        requirementScenarioIds(r).some(id => scenarioIds.has(id))
+      );
+      const value = percentage(traced.length, data.requirements.length);
+      return value < threshold ? [{ subject: 'Analysis', value }] : [];
+    },
+  },
+  {
+    id: 'requirement.verification-method',
+    scope: 'requirement',
+    severity: 'low',
+    title: 'Every requirement has a verification method',
+    message: 'Requirement {subject} has no verification method.',
+    enabledByDefault: false,
+    check: everyItem(
+      data => data.requirements,
+      requirement => !!requirement.verificationMethod?.trim(),
+      requirement => requirement.code || requirement.id
+    ),
+  },
+];
+
+export const isRuleEnabled = (rule: ValidationRule, settings: ValidationRuleSettings = {}) =>
+  settings[rule.id]?.enabled ?? rule.enabledByDefault ?? true;
+
+export const getRuleThreshold = (rule: ValidationRule, settings: ValidationRuleSettings = {}) =>
+  settings[rule.id]?.threshold ?? rule.threshold?.defaultValue;
+
+const formatRuleMessage = (rule: ValidationRule, violation: RuleViolation, threshold?: number) =>
+  rule.message
+    .replace('{subject}', violation.subject)
+    .replace('{value}', String(violation.value ?? ''))
+    .replace('{threshold}', String(threshold ?? ''));
+
+/**
+ * Runs the enabled rules that apply to the analysis
+ */
+export const runValidationRules = (
+  data: AnalysisData,
+  settings: ValidationRuleSettings = {}
+): ValidationRuleResult[] =>
+  VALIDATION_RULES.filter(
+    rule => isRuleEnabled(rule, settings) && (rule.appliesTo?.(data) ?? true)
+  ).map(rule => {
+    const threshold = getRuleThreshold(rule, settings);
+    const violations = rule.check(data, threshold ?? 0);
+    return {
+      rule,
+      threshold,
+      passed: violations.length === 0,
+      messages: violations.map(violation => formatRuleMessage(rule, violation, threshold)),
+      violations,
+    };
+  });